@@ -54,6 +54,7 @@ export interface Statistics {
   profitFactor: number;
   highestStake: number;
   highestPayout: number;
+  strategyStatistics?: Record<string, any> | null;
   createdAt: string;
   lastUpdated: string;
 }
@@ -88,6 +89,7 @@ export interface BotConfiguration {
     maximum_stake: unknown;
     take_profit: unknown;
     stop_loss: unknown;
+    trailing_take_profit?: unknown;
   };
   recovery_steps: {
     risk_steps: Array<{
@@ -95,11 +97,15 @@ export interface BotConfiguration {
       lossStreak: number;
       multiplier: number;
       action: string;
+      stakeMultiplier?: number | null;
+      cooldownSeconds?: number | null;
+      recoveryTargetPercentage?: number | null;
     }>;
   };
   advanced_settings: {
     general_settings_section: {
       maximum_number_of_trades: number | null;
+      max_concurrent_contracts?: number | null;
       maximum_running_time: number | null;
       cooldown_period: { duration: number; unit: string } | null;
       recovery_type: string | null;
@@ -111,16 +117,20 @@ export interface BotConfiguration {
         id: string;
         name: string;
         type: 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom';
+        timezone?: string | null;
         startDate: any;
         endDate?: any;
         startTime: any;
         endTime?: any;
+        windows?: Array<{ start: string; end: string }>;
         daysOfWeek?: number[];
         dayOfMonth?: number;
+        cron?: string | null;
         isEnabled: boolean;
         exclusions?: Array<{
           id: string;
           date: any;
+          cron?: string | null;
           reason: string;
         }>;
       };
@@ -128,10 +138,20 @@ export interface BotConfiguration {
     risk_management_section: {
       max_daily_loss: unknown;
       max_daily_profit: unknown;
+      /** IANA timezone whose midnight resets the daily counters */
+      limit_reset_timezone?: string | null;
+      /** 0 = Sunday … 6 = Saturday; start of the weekly counters */
+      week_start_day?: number | null;
       max_consecutive_losses: number | null;
       max_drawdown_percentage: number | null;
       risk_per_trade: number | null;
       position_sizing: boolean;
+      sizing_mode?: string | null;
+      base_stake_percentage?: number | null;
+      kelly_fraction?: number | null;
+      win_probability?: number | null;
+      min_observed_trades?: number | null;
+      max_ladder_percentage?: number | null;
       emergency_stop: boolean;
     };
     volatility_controls_section: {
@@ -149,6 +169,39 @@ export interface BotConfiguration {
       market_correlation_check: boolean;
       time_of_day_filter: boolean;
       preferred_trading_hours: string | null;
+      trend_action?: 'block' | 'flip';
+      indicator_granularity?: number | null;
+      indicator_periods?: Record<string, number> | null;
+      signal_conditions?: Array<Record<string, unknown>>;
+    };
+    digit_analysis_section?: {
+      digit_filter: boolean;
+      digit_sample_size: number | null;
+      prediction_mode: string;
+      parity_run_length: number | null;
+      parity_entry: 'reversal' | 'continuation';
+      min_sample_win_rate: number | null;
+    };
+    early_exit_section?: {
+      early_exit: boolean;
+      exit_profit_percentage: number | null;
+      exit_bid_below: number | null;
+      exit_loss_after_ticks: number | null;
+    };
+    price_guard_section?: {
+      price_guard: boolean;
+      min_payout_ratio: number | null;
+      payout_tolerance_percentage: number | null;
+      max_requotes: number | null;
+      max_price_slippage_percentage: number | null;
+    };
+    auto_restart_section?: {
+      restart_on: string[];
+      restart_delay_seconds: number | null;
+      restart_backoff_multiplier: number | null;
+      max_restart_delay_seconds: number | null;
+      max_restarts_per_day: number | null;
+      carry_over_session: boolean;
     };
     recovery_settings_section: {
       progressive_recovery: boolean;
@@ -287,6 +340,32 @@ export interface BotConfiguration {
       oscars_grind_auto_stop_on_target: boolean;
       metadata: unknown;
     };
+    enhanced_1326_strategy_section: {
+      enhanced_1326_base_unit: unknown;
+      enhanced_1326_profit_threshold: unknown;
+      enhanced_1326_loss_threshold: unknown;
+      enhanced_1326_recovery_mode: string | null;
+      enhanced_1326_max_recovery_attempts: number | null;
+      enhanced_1326_max_daily_trades: number | null;
+      enhanced_1326_sequence_protection: boolean;
+      enhanced_1326_profit_lock: boolean;
+      metadata: unknown;
+    };
+    call_multiplicative_recovery_strategy_section: {
+      call_multiplicative_base_stake: unknown;
+      call_multiplicative_profit_threshold: unknown;
+      call_multiplicative_loss_threshold: unknown;
+      call_multiplicative_recovery_mode: string | null;
+      call_multiplicative_max_recovery_attempts: number | null;
+      call_multiplicative_max_daily_trades: number | null;
+      call_multiplicative_max_stake_multiplier: number | null;
+      call_multiplicative_enable_recovery: boolean;
+      call_multiplicative_auto_adjust: boolean;
+      call_multiplicative_max_volatility: number | null;
+      call_multiplicative_min_win_rate: number | null;
+      call_multiplicative_duration: number | null;
+      metadata: unknown;
+    };
   };
   realtimePerformance: RealtimePerformance;
   statistics: Statistics;
@@ -855,6 +934,7 @@ export class BotManager {
     return {
       general_settings_section: {
         maximum_number_of_trades: null,
+        max_concurrent_contracts: 1,
         maximum_running_time: null,
         cooldown_period: null,
         recovery_type: null,
@@ -866,12 +946,15 @@ export class BotManager {
           id: '',
           name: '',
           type: 'custom',
+          timezone: null,
           startDate: null,
           endDate: null,
           startTime: null,
           endTime: null,
+          windows: [],
           daysOfWeek: [],
           dayOfMonth: null,
+          cron: null,
           isEnabled: false,
           exclusions: [],
         },
@@ -879,10 +962,18 @@ export class BotManager {
       risk_management_section: {
         max_daily_loss: null,
         max_daily_profit: null,
+        limit_reset_timezone: 'UTC',
+        week_start_day: 1,
         max_consecutive_losses: null,
         max_drawdown_percentage: null,
         risk_per_trade: null,
         position_sizing: false,
+        sizing_mode: 'fixed_fractional',
+        base_stake_percentage: null,
+        kelly_fraction: null,
+        win_probability: null,
+        min_observed_trades: null,
+        max_ladder_percentage: null,
         emergency_stop: false,
       },
       volatility_controls_section: {
@@ -900,6 +991,39 @@ export class BotManager {
         market_correlation_check: false,
         time_of_day_filter: false,
         preferred_trading_hours: null,
+        trend_action: 'block',
+        indicator_granularity: 60,
+        indicator_periods: null,
+        signal_conditions: [],
+      },
+      digit_analysis_section: {
+        digit_filter: false,
+        digit_sample_size: 100,
+        prediction_mode: 'static',
+        parity_run_length: null,
+        parity_entry: 'reversal',
+        min_sample_win_rate: null,
+      },
+      early_exit_section: {
+        early_exit: false,
+        exit_profit_percentage: null,
+        exit_bid_below: null,
+        exit_loss_after_ticks: null,
+      },
+      price_guard_section: {
+        price_guard: false,
+        min_payout_ratio: null,
+        payout_tolerance_percentage: null,
+        max_requotes: null,
+        max_price_slippage_percentage: null,
+      },
+      auto_restart_section: {
+        restart_on: [],
+        restart_delay_seconds: null,
+        restart_backoff_multiplier: null,
+        max_restart_delay_seconds: null,
+        max_restarts_per_day: null,
+        carry_over_session: false,
       },
       recovery_settings_section: {
         progressive_recovery: false,
@@ -1038,6 +1162,32 @@ export class BotManager {
         oscars_grind_auto_stop_on_target: false,
         metadata: null,
       },
+      enhanced_1326_strategy_section: {
+        enhanced_1326_base_unit: null,
+        enhanced_1326_profit_threshold: null,
+        enhanced_1326_loss_threshold: null,
+        enhanced_1326_recovery_mode: null,
+        enhanced_1326_max_recovery_attempts: null,
+        enhanced_1326_max_daily_trades: null,
+        enhanced_1326_sequence_protection: true,
+        enhanced_1326_profit_lock: true,
+        metadata: null,
+      },
+      call_multiplicative_recovery_strategy_section: {
+        call_multiplicative_base_stake: null,
+        call_multiplicative_profit_threshold: null,
+        call_multiplicative_loss_threshold: null,
+        call_multiplicative_recovery_mode: null,
+        call_multiplicative_max_recovery_attempts: null,
+        call_multiplicative_max_daily_trades: null,
+        call_multiplicative_max_stake_multiplier: null,
+        call_multiplicative_enable_recovery: true,
+        call_multiplicative_auto_adjust: true,
+        call_multiplicative_max_volatility: null,
+        call_multiplicative_min_win_rate: null,
+        call_multiplicative_duration: null,
+        metadata: null,
+      },
     };
   }
 
@@ -6,7 +6,7 @@
  *
  * @features:
  *   - Form data → Bot instance creation
- *   - Strategy-specific stake calculation (Martingale, D'Alembert, Reverse, Oscar's Grind, 1-3-2-6, etc.)
+ *   - Strategy-specific stake calculation via the engine's StakeStrategyRegistry
  *   - Recovery after loss with configurable risk steps
  *   - Risk management (stop-loss, take-profit, max drawdown, daily limits, emergency stop)
  *   - Schedule-based execution (hourly, daily, weekly, monthly, custom)
@@ -25,8 +25,16 @@
  */
 
 import { ContractData } from '../../types/strategy';
-import { StrategyType } from '../../types/trade';
 import { BotConfiguration, BotStatus, RealtimePerformance, Statistics } from './BotManager';
+import {
+  resolveStakeStrategy,
+  type StakeDecision,
+  type StakeStrategy,
+  type StakeStrategyContext,
+  type StakeStrategyState,
+} from '../engine/StakeStrategyRegistry';
+import { evaluateSchedule } from '../engine/ScheduleEvaluator';
+import { getLimitPeriodStarts, DEFAULT_LIMIT_TIMEZONE, DEFAULT_WEEK_START_DAY } from '../engine/LimitCounters';
 
 // ─── Threshold Value ────────────────────────────────────────────────────────────
 export interface ThresholdValue {
@@ -114,12 +122,7 @@ interface SessionState {
   lastDailyReset: number | null;
   lastHourlyReset: number | null;
   lastWeeklyReset: number | null;
-  // Strategy-specific counters
-  martingaleStep: number;
-  dalembertUnits: number;
-  system1326Step: number;
-  oscarsGrindSessionProfit: number;
-  oscarsGrindCurrentUnit: number;
+  lockedProfit: number;
   alternateCounter: number;
   currentTradeType: string;
 }
@@ -176,6 +179,11 @@ export class TradingBot {
   private realtimePerformance: RealtimePerformance;
   private statistics: Statistics;
 
+  // ─── Stake Strategy ─────────────────────────────────────────────────────────
+  private stakeStrategy: StakeStrategy | null;
+  private strategyState: StakeStrategyState = {};
+  private readonly strategyContext: StakeStrategyContext;
+
   // ─── Timers & Intervals ─────────────────────────────────────────────────────
   private tradeLoopTimer: ReturnType<typeof setTimeout> | null = null;
   private scheduleCheckTimer: ReturnType<typeof setInterval> | null = null;
@@ -224,6 +232,9 @@ export class TradingBot {
     this.statistics = { ...config.statistics };
 
     this.session = this.createFreshSession();
+
+    this.stakeStrategy = resolveStakeStrategy(this.strategyId);
+    this.strategyContext = this.createStrategyContext();
   }
 
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -382,6 +393,7 @@ export class TradingBot {
     this.session.sessionStartTime = Date.now();
     this.session.currentBalance = this.getBalance();
     this.session.peakBalance = this.session.currentBalance;
+    this.strategyState = this.stakeStrategy ? this.stakeStrategy.init(this.strategyContext) : {};
 
     this.realtimePerformance.startedAt = new Date().toISOString();
     this.realtimePerformance.stoppedAt = null;
@@ -476,8 +488,21 @@ export class TradingBot {
     }
 
     try {
-      // Calculate the stake for this trade
-      const stake = this.calculateStake();
+      // Calculate the stake for this trade (the stake strategy may decline it)
+      const decision = this.calculateStake();
+      if (!decision.shouldTrade) {
+        this.log(`Trade blocked: ${decision.reason || 'Declined by stake strategy'}`);
+        if (decision.action === 'wait') {
+          this.tradeLoopTimer = setTimeout(() => this.runTradeLoop(), 5000);
+        } else if (decision.action === 'cooldown') {
+          this.enterCooldown();
+        } else {
+          this.stop();
+        }
+        return;
+      }
+
+      const stake = decision.stake as number;
       this.session.currentStake = stake;
       this.realtimePerformance.currentStake = stake;
 
@@ -624,7 +649,7 @@ export class TradingBot {
     this.emit('trade_won', `Trade won! Profit: ${result.profit}`, { result });
 
     // Strategy-specific win handling
-    this.onStrategyWin();
+    this.stakeStrategy?.onWin?.(this.strategyContext, result);
 
     // Check take profit
     if (this.checkTakeProfit()) {
@@ -650,7 +675,7 @@ export class TradingBot {
     this.emit('trade_lost', `Trade lost! Loss: ${Math.abs(result.profit)}`, { result });
 
     // Strategy-specific loss handling
-    this.onStrategyLoss();
+    this.stakeStrategy?.onLoss?.(this.strategyContext, result);
 
     // Check stop loss
     if (this.checkStopLoss()) {
@@ -667,7 +692,7 @@ export class TradingBot {
   // STAKE CALCULATION — Strategy-Specific
   // ═══════════════════════════════════════════════════════════════════════════════
 
-  private calculateStake(): number {
+  private calculateStake(): StakeDecision {
     let stake = this.session.baseStake;
 
     // If in recovery with risk steps, use recovery step stake
@@ -675,14 +700,15 @@ export class TradingBot {
       const recoveryStake = this.getRecoveryStepStake();
       if (recoveryStake !== null) {
         stake = recoveryStake;
-        return this.clampStake(stake);
+        return { shouldTrade: true, stake: this.clampStake(stake) };
       }
     }
 
     // Apply strategy-specific calculation
-    const strategyStake = this.calculateStrategyStake();
-    if (strategyStake !== null) {
-      stake = strategyStake;
+    const decision = this.calculateStrategyStake();
+    if (!decision.shouldTrade) return decision;
+    if (decision.stake !== null && decision.stake !== undefined) {
+      stake = decision.stake;
     }
 
     // Compound staking: use percentage of current balance
@@ -691,466 +717,44 @@ export class TradingBot {
       stake = this.session.currentBalance * basePercent;
     }
 
-    return this.clampStake(stake);
+    return { ...decision, stake: this.clampStake(stake) };
   }
 
   /**
-   * Calculate stake based on the active strategy type.
+   * Calculate stake with the stake strategy registered for this strategyId.
    */
-  private calculateStrategyStake(): number | null {
-    const sid = this.strategyId as StrategyType;
-
-    switch (sid) {
-      case StrategyType.MARTINGALE:
-      case StrategyType.OPTIONS_MARTINGALE:
-        return this.calculateMartingaleStake();
-
-      case StrategyType.MARTINGALE_ON_STAT_RESET:
-        return this.calculateMartingaleResetStake();
-
-      case StrategyType.DALEMBERT:
-      case StrategyType.OPTIONS_DALEMBERT:
-        return this.calculateDalembertStake();
-
-      case StrategyType.DALEMBERT_ON_STAT_RESET:
-        return this.calculateDalembertResetStake();
-
-      case StrategyType.REVERSE_MARTINGALE:
-      case StrategyType.OPTIONS_REVERSE_MARTINGALE:
-        return this.calculateReverseMartingaleStake();
-
-      case StrategyType.REVERSE_MARTINGALE_ON_STAT_RESET:
-        return this.calculateReverseMartingaleResetStake();
+  private calculateStrategyStake(): StakeDecision {
+    if (!this.stakeStrategy) return { shouldTrade: true, stake: null }; // Use base stake
 
-      case StrategyType.REVERSE_DALEMBERT:
-        return this.calculateReverseDalembertStake();
-
-      case StrategyType.REVERSE_DALEMBERT_ON_STAT_RESET:
-        return this.calculateReverseDalembertResetStake();
-
-      case StrategyType.OSCARS_GRIND:
-      case StrategyType.OPTIONS_OSCARS_GRIND:
-        return this.calculateOscarsGrindStake();
-
-      case StrategyType.SYSTEM_1326:
-      case StrategyType.OPTIONS_1326_SYSTEM:
-        return this.calculateSystem1326Stake();
-
-      default:
-        return null; // Use base stake
+    const next = this.stakeStrategy.nextStake(this.strategyContext) ?? null;
+    if (next === null || typeof next === 'number') {
+      return { shouldTrade: true, stake: next };
     }
+    return { ...next, shouldTrade: next.shouldTrade !== false };
   }
 
-  // ─── Martingale ───────────────────────────────────────────────────────────────
-
-  private calculateMartingaleStake(): number {
-    const settings = this.advancedSettings.martingale_strategy_section;
-    const multiplier = settings.martingale_multiplier || 2;
-    const maxSteps = settings.martingale_max_steps || 10;
-    const safetyNet = settings.martingale_safety_net;
-
-    if (this.session.consecutiveLosses === 0) {
-      this.session.martingaleStep = 0;
-      return this.session.baseStake;
-    }
-
-    this.session.martingaleStep = Math.min(this.session.consecutiveLosses, maxSteps);
-    let stake = this.session.baseStake * Math.pow(multiplier, this.session.martingaleStep);
-
-    // Safety net: cap stake at a percentage of balance
-    if (safetyNet && this.session.currentBalance > 0) {
-      const maxFromSafety = this.session.currentBalance * (safetyNet / 100);
-      stake = Math.min(stake, maxFromSafety);
-    }
-
-    return stake;
-  }
-
-  private calculateMartingaleResetStake(): number {
-    const settings = this.advancedSettings.martingale_reset_strategy_section;
-    const resetAfter = settings.reset_after_trades;
-
-    // Check if we should reset
-    if (resetAfter && this.session.totalTradesThisSession > 0 &&
-        this.session.totalTradesThisSession % resetAfter === 0) {
-      this.session.martingaleStep = 0;
-      this.session.consecutiveLosses = 0;
-      this.session.consecutiveWins = 0;
-      this.emit('strategy_reset', `Martingale reset after ${resetAfter} trades`);
-      return this.session.baseStake;
-    }
-
-    // Apply multiplier adjustment on reset
-    const adjustment = settings.reset_multiplier_adjustment || 0;
-    const baseMartingale = this.calculateMartingaleStake();
-
-    if (adjustment > 0 && settings.track_session_stats) {
-      return baseMartingale * (1 + adjustment / 100);
-    }
-
-    return baseMartingale;
-  }
-
-  // ─── D'Alembert ───────────────────────────────────────────────────────────────
-
-  private calculateDalembertStake(): number {
-    const settings = this.advancedSettings.dalembert_strategy_section;
-    const increment = this.resolveThresholdValue(settings.dalembert_increment) || 1;
-    const decrement = this.resolveThresholdValue(settings.dalembert_decrement) || 1;
-    const maxUnits = settings.dalembert_max_units || 50;
-    const conservative = settings.dalembert_conservative_mode;
-
-    // On loss: increase units by increment
-    // On win: decrease units by decrement
-    if (this.session.totalTradesThisSession === 0) {
-      this.session.dalembertUnits = 1;
-    }
-
-    const lastTrade = this.tradeHistory[this.tradeHistory.length - 1];
-    if (lastTrade) {
-      if (!lastTrade.isWin) {
-        this.session.dalembertUnits += conservative ? Math.ceil(increment / 2) : increment;
-      } else {
-        this.session.dalembertUnits = Math.max(1, this.session.dalembertUnits - decrement);
-      }
-    }
-
-    this.session.dalembertUnits = Math.min(this.session.dalembertUnits, maxUnits);
-
-    // Check reset threshold
-    const resetThreshold = this.resolveThresholdValue(settings.dalembert_reset_threshold);
-    if (resetThreshold > 0 && this.session.sessionProfit >= resetThreshold) {
-      this.session.dalembertUnits = 1;
-      this.emit('strategy_reset', 'D\'Alembert reset at profit threshold');
-    }
-
-    return this.session.baseStake * this.session.dalembertUnits;
-  }
-
-  private calculateDalembertResetStake(): number {
-    const settings = this.advancedSettings.dalembert_reset_strategy_section;
-    const resetFreq = settings.dalembert_reset_frequency;
-
-    // Periodic reset
-    if (resetFreq && this.session.totalTradesThisSession > 0 &&
-        this.session.totalTradesThisSession % resetFreq === 0) {
-      this.session.dalembertUnits = 1;
-      this.emit('strategy_reset', `D'Alembert reset after ${resetFreq} trades`);
-
-      if (settings.dalembert_session_profit_lock && this.session.sessionProfit > 0) {
-        this.log(`Session profit locked: ${this.session.sessionProfit}`);
-      }
-    }
-
-    // Reset on target
-    if (settings.dalembert_reset_on_target && this.checkTakeProfit()) {
-      this.session.dalembertUnits = 1;
-    }
-
-    // Adaptive increment: adjust based on win rate
-    const baseDalembert = this.calculateDalembertStake();
-    if (settings.dalembert_adaptive_increment && this.session.totalTradesThisSession > 5) {
-      const winRate = this.realtimePerformance.numberOfWins / this.realtimePerformance.totalRuns;
-      if (winRate > 0.6) {
-        return baseDalembert * 0.8; // Reduce stake when winning a lot
-      } else if (winRate < 0.4) {
-        return baseDalembert * 1.2; // Increase stake when losing
-      }
-    }
-
-    return baseDalembert;
-  }
-
-  // ─── Reverse Martingale ───────────────────────────────────────────────────────
-
-  private calculateReverseMartingaleStake(): number {
-    const settings = this.advancedSettings.reverse_martingale_strategy_section;
-    const multiplier = settings.reverse_martingale_multiplier || 2;
-    const maxWins = settings.reverse_martingale_max_wins || 5;
-    const profitLock = settings.reverse_martingale_profit_lock;
-    const aggressive = settings.reverse_martingale_aggressive_mode;
-
-    // Reset on loss
-    if (settings.reverse_martingale_reset_on_loss && this.session.consecutiveLosses > 0) {
-      return this.session.baseStake;
-    }
-
-    if (this.session.consecutiveWins === 0) {
-      return this.session.baseStake;
-    }
-
-    const steps = Math.min(this.session.consecutiveWins, maxWins);
-    let stake = this.session.baseStake * Math.pow(multiplier, steps);
-
-    // Profit lock: only risk a portion of winnings
-    if (profitLock && profitLock > 0 && this.session.sessionProfit > 0) {
-      const lockedProfit = this.session.sessionProfit * (profitLock / 100);
-      const maxRisk = this.session.sessionProfit - lockedProfit + this.session.baseStake;
-      stake = Math.min(stake, maxRisk);
-    }
-
-    // Aggressive mode: use higher multiplier
-    if (aggressive) {
-      stake *= 1.5;
-    }
-
-    return stake;
-  }
-
-  private calculateReverseMartingaleResetStake(): number {
-    const settings = this.advancedSettings.reverse_martingale_reset_strategy_section;
-    const resetWinStreak = settings.reverse_reset_win_streak;
-    const resetProfitTarget = this.resolveThresholdValue(settings.reverse_reset_profit_target);
-
-    // Reset after win streak
-    if (resetWinStreak && this.session.consecutiveWins >= resetWinStreak) {
-      this.session.consecutiveWins = 0;
-
-      if (settings.reverse_preserve_winnings) {
-        this.log(`Preserving winnings: ${this.session.sessionProfit}`);
-      }
-
-      this.emit('strategy_reset', `Reverse Martingale reset after ${resetWinStreak} wins`);
-      return this.session.baseStake;
-    }
-
-    // Reset at profit target
-    if (resetProfitTarget > 0 && this.session.sessionProfit >= resetProfitTarget) {
-      this.session.consecutiveWins = 0;
-      this.emit('strategy_reset', 'Reverse Martingale reset at profit target');
-      return this.session.baseStake;
-    }
-
-    return this.calculateReverseMartingaleStake();
-  }
-
-  // ─── Reverse D'Alembert ───────────────────────────────────────────────────────
-
-  private calculateReverseDalembertStake(): number {
-    const settings = this.advancedSettings.reverse_dalembert_strategy_section;
-    const increment = this.resolveThresholdValue(settings.reverse_dalembert_increment) || 1;
-    const decrement = this.resolveThresholdValue(settings.reverse_dalembert_decrement) || 1;
-    const maxUnits = settings.reverse_dalembert_max_units || 50;
-    const profitCeiling = this.resolveThresholdValue(settings.reverse_dalembert_profit_ceiling);
-
-    if (this.session.totalTradesThisSession === 0) {
-      this.session.dalembertUnits = 1;
-    }
-
-    const lastTrade = this.tradeHistory[this.tradeHistory.length - 1];
-    if (lastTrade) {
-      if (lastTrade.isWin) {
-        // Reverse: increase on win
-        this.session.dalembertUnits += increment;
-      } else {
-        // Reverse: decrease on loss
-        this.session.dalembertUnits = Math.max(1, this.session.dalembertUnits - decrement);
-      }
-    }
-
-    this.session.dalembertUnits = Math.min(this.session.dalembertUnits, maxUnits);
-
-    // Profit ceiling check
-    if (profitCeiling > 0 && this.session.sessionProfit >= profitCeiling) {
-      this.session.dalembertUnits = 1;
-      this.emit('strategy_reset', 'Reverse D\'Alembert reset at profit ceiling');
-    }
-
-    return this.session.baseStake * this.session.dalembertUnits;
-  }
-
-  private calculateReverseDalembertResetStake(): number {
-    const settings = this.advancedSettings.reverse_dalembert_reset_strategy_section;
-    const resetInterval = settings.reverse_dalembert_reset_interval;
-    const dynamicReset = settings.reverse_dalembert_dynamic_reset;
-    const winRateThreshold = settings.reverse_dalembert_win_rate_threshold;
-
-    // Periodic reset
-    if (resetInterval && this.session.totalTradesThisSession > 0 &&
-        this.session.totalTradesThisSession % resetInterval === 0) {
-      this.session.dalembertUnits = 1;
-      this.emit('strategy_reset', `Reverse D'Alembert reset after ${resetInterval} trades`);
-    }
-
-    // Dynamic reset based on win rate
-    if (dynamicReset && winRateThreshold && this.session.totalTradesThisSession > 5) {
-      const winRate = this.realtimePerformance.numberOfWins / this.realtimePerformance.totalRuns;
-      if (winRate < winRateThreshold / 100) {
-        this.session.dalembertUnits = 1;
-        this.emit('strategy_reset', 'Dynamic reset: win rate below threshold');
-      }
-    }
-
-    return this.calculateReverseDalembertStake();
-  }
-
-  // ─── Oscar's Grind ────────────────────────────────────────────────────────────
-
-  private calculateOscarsGrindStake(): number {
-    const settings = this.advancedSettings.oscars_grind_strategy_section;
-    const baseUnit = this.resolveThresholdValue(settings.oscars_grind_base_unit) || this.session.baseStake;
-    const profitTarget = this.resolveThresholdValue(settings.oscars_grind_profit_target) || baseUnit;
-    const maxBetUnits = settings.oscars_grind_max_bet_units || 10;
-    const incrementOnWin = settings.oscars_grind_increment_on_win;
-    const maintainOnLoss = settings.oscars_grind_maintain_stake_on_loss;
-    const resetOnTarget = settings.oscars_grind_reset_on_target;
-    const autoStop = settings.oscars_grind_auto_stop_on_target;
-
-    if (this.session.totalTradesThisSession === 0) {
-      this.session.oscarsGrindCurrentUnit = 1;
-      this.session.oscarsGrindSessionProfit = 0;
-    }
-
-    const lastTrade = this.tradeHistory[this.tradeHistory.length - 1];
-    if (lastTrade) {
-      this.session.oscarsGrindSessionProfit += lastTrade.profit;
-
-      if (lastTrade.isWin && incrementOnWin) {
-        // Increase by 1 unit on win, but only if we haven't hit the target
-        if (this.session.oscarsGrindSessionProfit < profitTarget) {
-          this.session.oscarsGrindCurrentUnit = Math.min(
-            this.session.oscarsGrindCurrentUnit + 1,
-            maxBetUnits
-          );
-        }
-      } else if (!lastTrade.isWin && !maintainOnLoss) {
-        // Keep same stake on loss (Oscar's Grind rule)
-        // Do nothing — maintain current unit
-      }
-    }
-
-    // Check if session profit target is reached
-    if (this.session.oscarsGrindSessionProfit >= profitTarget) {
-      if (autoStop) {
-        this.emit('take_profit_triggered', 'Oscar\'s Grind session target reached');
-        this.stop();
-        return baseUnit;
-      }
-      if (resetOnTarget) {
-        this.session.oscarsGrindCurrentUnit = 1;
-        this.session.oscarsGrindSessionProfit = 0;
-        this.emit('strategy_reset', 'Oscar\'s Grind reset at profit target');
-      }
-    }
-
-    // Don't bet more than needed to reach the target
-    const neededForTarget = profitTarget - this.session.oscarsGrindSessionProfit;
-    const stakeUnits = Math.min(this.session.oscarsGrindCurrentUnit, Math.ceil(neededForTarget / baseUnit));
-
-    return baseUnit * Math.max(1, stakeUnits);
-  }
-
-  // ─── 1-3-2-6 System ──────────────────────────────────────────────────────────
-
-  private calculateSystem1326Stake(): number {
-    const settings = this.advancedSettings.system_1326_strategy_section;
-    const baseUnit = this.resolveThresholdValue(settings.system_1326_base_unit) || this.session.baseStake;
-    const sequenceStr = settings.system_1326_sequence || '1-3-2-6';
-    const sequence = sequenceStr.split('-').map(Number);
-    const resetOnLoss = settings.system_1326_reset_on_loss;
-    const maxCycles = settings.system_1326_max_cycles;
-    const stopOnComplete = settings.system_1326_stop_on_cycle_complete;
-    const lossRecovery = settings.system_1326_loss_recovery;
-
-    if (this.session.totalTradesThisSession === 0) {
-      this.session.system1326Step = 0;
-    }
-
-    const lastTrade = this.tradeHistory[this.tradeHistory.length - 1];
-    if (lastTrade) {
-      if (lastTrade.isWin) {
-        // Advance to next step in sequence
-        this.session.system1326Step++;
-
-        // Check if cycle is complete
-        if (this.session.system1326Step >= sequence.length) {
-          if (stopOnComplete) {
-            this.emit('strategy_reset', '1-3-2-6 cycle complete — stopping');
-            this.stop();
-            return baseUnit;
-          }
-          this.session.system1326Step = 0; // Reset to start of sequence
-          this.emit('strategy_reset', '1-3-2-6 cycle complete — restarting');
-        }
-      } else {
-        // On loss
-        if (resetOnLoss) {
-          this.session.system1326Step = 0;
-        }
-        if (lossRecovery) {
-          // Stay at current step for recovery attempt
-        }
-      }
-    }
-
-    // Max cycles check
-    if (maxCycles) {
-      const completedCycles = Math.floor(
-        this.session.totalTradesThisSession / sequence.length
-      );
-      if (completedCycles >= maxCycles) {
-        this.emit('max_trades_reached', `Max cycles (${maxCycles}) reached`);
-        this.stop();
-        return baseUnit;
-      }
-    }
-
-    const stepIndex = Math.min(this.session.system1326Step, sequence.length - 1);
-    const multiplier = sequence[stepIndex] || 1;
-
-    // Partial profit lock
-    if (settings.system_1326_partial_profit_lock && this.session.sessionProfit > 0 && stepIndex >= 2) {
-      // Lock some profit by reducing the bet slightly
-      return baseUnit * multiplier * 0.9;
-    }
-
-    return baseUnit * multiplier;
-  }
-
-  // ═══════════════════════════════════════════════════════════════════════════════
-  // STRATEGY WIN/LOSS HOOKS
-  // ═══════════════════════════════════════════════════════════════════════════════
-
-  private onStrategyWin(): void {
-    const sid = this.strategyId as StrategyType;
-
-    switch (sid) {
-      case StrategyType.MARTINGALE:
-      case StrategyType.OPTIONS_MARTINGALE:
-        if (this.advancedSettings.martingale_strategy_section.martingale_reset_on_profit) {
-          this.session.martingaleStep = 0;
-        }
-        break;
-
-      case StrategyType.REVERSE_MARTINGALE:
-      case StrategyType.OPTIONS_REVERSE_MARTINGALE:
-        // Wins are good in reverse martingale — handled in stake calculation
-        break;
-
-      case StrategyType.SYSTEM_1326:
-      case StrategyType.OPTIONS_1326_SYSTEM:
-        // Handled in stake calculation
-        break;
-
-      default:
-        break;
-    }
-  }
-
-  private onStrategyLoss(): void {
-    const sid = this.strategyId as StrategyType;
-
-    switch (sid) {
-      case StrategyType.REVERSE_MARTINGALE:
-      case StrategyType.OPTIONS_REVERSE_MARTINGALE:
-        if (this.advancedSettings.reverse_martingale_strategy_section.reverse_martingale_reset_on_loss) {
-          this.session.consecutiveWins = 0;
-        }
-        break;
-
-      default:
-        break;
-    }
+  /**
+   * The view of this bot handed to stake strategy hooks.
+   */
+  private createStrategyContext(): StakeStrategyContext {
+    const live = <T>(get: () => T): PropertyDescriptor => ({ get, enumerable: true });
+    return Object.defineProperties({
+      resolveValue: (value: unknown) => this.resolveThresholdValue(value),
+      emit: (event: string, payload: Record<string, any>) => this.emit(event as TradingBotEventType, payload.message || '', payload),
+      log: (message: string) => this.log(message),
+      stop: () => this.stop(),
+      isTakeProfitReached: () => this.checkTakeProfit(),
+      now: () => Date.now(),
+      // Legacy bots only trade fixed-expiry contracts, which risk the whole stake
+      openEnded: false,
+      maxLoss: (stake: number) => stake,
+    }, {
+      settings: live(() => this.advancedSettings),
+      session: live(() => this.session),
+      performance: live(() => this.realtimePerformance),
+      lastTrade: live(() => this.tradeHistory[this.tradeHistory.length - 1] || null),
+      state: { ...live(() => this.strategyState), set: (value: StakeStrategyState) => { this.strategyState = value; } },
+    }) as StakeStrategyContext;
   }
 
   // ═══════════════════════════════════════════════════════════════════════════════
@@ -1403,7 +1007,7 @@ export class TradingBot {
   // ═══════════════════════════════════════════════════════════════════════════════
 
   /**
-   * Check if the current time is within the bot's configured schedule.
+   * Check if the current time is within the bot's configured schedule, in the schedule's timezone.
    */
   isWithinSchedule(): boolean {
     const schedule = this.botSchedule;
@@ -1411,58 +1015,11 @@ export class TradingBot {
       return true; // No schedule = always allowed
     }
 
-    const now = new Date();
-
-    // Check exclusion dates
-    if (schedule.exclusions && schedule.exclusions.length > 0) {
-      for (const exclusion of schedule.exclusions) {
-        const exclusionDate = new Date(exclusion.date);
-        if (this.isSameDay(now, exclusionDate)) {
-          this.log(`Schedule exclusion: ${exclusion.reason}`);
-          return false;
-        }
-      }
-    }
-
-    // Check start/end date range
-    if (schedule.startDate) {
-      const startDate = new Date(schedule.startDate);
-      if (now < startDate) return false;
-    }
-    if (schedule.endDate) {
-      const endDate = new Date(schedule.endDate);
-      if (now > endDate) return false;
-    }
-
-    // Check time of day
-    if (schedule.startTime && schedule.endTime) {
-      const startTime = new Date(schedule.startTime);
-      const endTime = new Date(schedule.endTime);
-
-      const nowMinutes = now.getHours() * 60 + now.getMinutes();
-      const startMinutes = startTime.getHours() * 60 + startTime.getMinutes();
-      const endMinutes = endTime.getHours() * 60 + endTime.getMinutes();
-
-      if (endMinutes > startMinutes) {
-        // Normal range (e.g., 07:00 - 13:00)
-        if (nowMinutes < startMinutes || nowMinutes > endMinutes) return false;
-      } else {
-        // Overnight range (e.g., 22:00 - 06:00)
-        if (nowMinutes < startMinutes && nowMinutes > endMinutes) return false;
-      }
-    }
-
-    // Check day of week (for weekly schedules)
-    if (schedule.type === 'weekly' && schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
-      if (!schedule.daysOfWeek.includes(now.getDay())) return false;
-    }
-
-    // Check day of month (for monthly schedules)
-    if (schedule.type === 'monthly' && schedule.dayOfMonth) {
-      if (now.getDate() !== schedule.dayOfMonth) return false;
+    const evaluation = evaluateSchedule(schedule, Date.now());
+    if (evaluation.exclusion) {
+      this.log(evaluation.reason!);
     }
-
-    return true;
+    return evaluation.active;
   }
 
   private startScheduleMonitor(): void {
@@ -1507,34 +1064,40 @@ export class TradingBot {
   private startPeriodicResets(): void {
     if (this.periodicResetTimer) clearInterval(this.periodicResetTimer);
 
-    this.session.lastHourlyReset = Date.now();
-    this.session.lastDailyReset = Date.now();
-    this.session.lastWeeklyReset = Date.now();
+    // Counters reset on calendar boundaries in the configured timezone
+    const options = {
+      timeZone: this.riskManagement.limit_reset_timezone,
+      weekStartsOn: this.riskManagement.week_start_day,
+    };
+    const starts = getLimitPeriodStarts(Date.now(), options);
+    this.session.lastHourlyReset = starts.hour;
+    this.session.lastDailyReset = starts.day;
+    this.session.lastWeeklyReset = starts.week;
 
     this.periodicResetTimer = setInterval(() => {
-      const now = Date.now();
+      const current = getLimitPeriodStarts(Date.now(), options);
 
       // Hourly reset
-      if (this.session.lastHourlyReset && now - this.session.lastHourlyReset >= 3600000) {
+      if (this.session.lastHourlyReset && this.session.lastHourlyReset < current.hour) {
         this.session.hourlyProfit = 0;
         this.session.hourlyLoss = 0;
-        this.session.lastHourlyReset = now;
+        this.session.lastHourlyReset = current.hour;
         this.log('Hourly counters reset');
       }
 
       // Daily reset
-      if (this.session.lastDailyReset && now - this.session.lastDailyReset >= 86400000) {
+      if (this.session.lastDailyReset && this.session.lastDailyReset < current.day) {
         this.session.dailyProfit = 0;
         this.session.dailyLoss = 0;
-        this.session.lastDailyReset = now;
+        this.session.lastDailyReset = current.day;
         this.log('Daily counters reset');
       }
 
       // Weekly reset
-      if (this.session.lastWeeklyReset && now - this.session.lastWeeklyReset >= 604800000) {
+      if (this.session.lastWeeklyReset && this.session.lastWeeklyReset < current.week) {
         this.session.weeklyProfit = 0;
         this.session.weeklyLoss = 0;
-        this.session.lastWeeklyReset = now;
+        this.session.lastWeeklyReset = current.week;
         this.log('Weekly counters reset');
       }
     }, 60000); // Check every minute
@@ -1596,6 +1159,14 @@ export class TradingBot {
       this.statistics.highestPayout = result.payout;
     }
 
+    // Strategy-specific counters (sequences, recoveries, ...)
+    if (this.stakeStrategy?.getStatistics) {
+      this.statistics.strategyStatistics = {
+        strategy: this.stakeStrategy.id,
+        ...this.stakeStrategy.getStatistics(this.strategyContext),
+      };
+    }
+
     this.statistics.lastUpdated = new Date().toISOString();
   }
 
@@ -1727,12 +1298,6 @@ export class TradingBot {
     }
   }
 
-  private isSameDay(a: Date, b: Date): boolean {
-    return a.getFullYear() === b.getFullYear() &&
-           a.getMonth() === b.getMonth() &&
-           a.getDate() === b.getDate();
-  }
-
   private createFreshSession(): SessionState {
     return {
       currentStake: 0,
@@ -1761,11 +1326,7 @@ export class TradingBot {
       lastDailyReset: null,
       lastHourlyReset: null,
       lastWeeklyReset: null,
-      martingaleStep: 0,
-      dalembertUnits: 1,
-      system1326Step: 0,
-      oscarsGrindSessionProfit: 0,
-      oscarsGrindCurrentUnit: 1,
+      lockedProfit: 0,
       alternateCounter: 0,
       currentTradeType: '',
     };
@@ -1866,6 +1427,8 @@ export class TradingBot {
       risk_management_section: {
         max_daily_loss: null,
         max_daily_profit: null,
+        limit_reset_timezone: DEFAULT_LIMIT_TIMEZONE,
+        week_start_day: DEFAULT_WEEK_START_DAY,
         max_consecutive_losses: null,
         max_drawdown_percentage: null,
         risk_per_trade: null,
@@ -2025,6 +1588,32 @@ export class TradingBot {
         oscars_grind_auto_stop_on_target: false,
         metadata: null,
       },
+      enhanced_1326_strategy_section: {
+        enhanced_1326_base_unit: null,
+        enhanced_1326_profit_threshold: null,
+        enhanced_1326_loss_threshold: null,
+        enhanced_1326_recovery_mode: null,
+        enhanced_1326_max_recovery_attempts: null,
+        enhanced_1326_max_daily_trades: null,
+        enhanced_1326_sequence_protection: true,
+        enhanced_1326_profit_lock: true,
+        metadata: null,
+      },
+      call_multiplicative_recovery_strategy_section: {
+        call_multiplicative_base_stake: null,
+        call_multiplicative_profit_threshold: null,
+        call_multiplicative_loss_threshold: null,
+        call_multiplicative_recovery_mode: null,
+        call_multiplicative_max_recovery_attempts: null,
+        call_multiplicative_max_daily_trades: null,
+        call_multiplicative_max_stake_multiplier: null,
+        call_multiplicative_enable_recovery: true,
+        call_multiplicative_auto_adjust: true,
+        call_multiplicative_max_volatility: null,
+        call_multiplicative_min_win_rate: null,
+        call_multiplicative_duration: null,
+        metadata: null,
+      },
     };
   }
 }
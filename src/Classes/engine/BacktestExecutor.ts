@@ -0,0 +1,205 @@
+/**
+ * @file BacktestExecutor.ts
+ * @description Drop-in TradingBotExecutor that settles contracts locally against recorded
+ *              tick history instead of buying them on Deriv.
+ *
+ * Responsibilities:
+ *   - Settle each contract at the Backtester's tick cursor (see ContractSimulator)
+ *   - Price wins from the stake-tiered PayoutTable
+ *   - Track a simulated account balance for the manager's balance provider
+ *   - Turn every API persistence call into a local no-op
+ *
+ * @usage
+ *   const executor = new BacktestExecutor({ ticks, startingBalance: 1000 });
+ *   executor.setCursor(0);
+ *   const result = await executor.executeTrade(contractParams);
+ */
+
+import { TradingBotExecutor } from './TradingBotExecutor';
+import {
+  settleContract,
+  buildSimulatedTradeResult,
+  inferPipSize,
+  isSupportedContractType,
+  type Tick,
+  type SettlementOutcome,
+} from './ContractSimulator';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_STARTING_BALANCE = 1000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BacktestExecutorOptions {
+  ticks: Tick[];
+  startingBalance?: number;
+  pipSize?: number;
+  minStake?: number;
+  maxStake?: number;
+}
+
+// ─── BacktestExecutor ────────────────────────────────────────────────────────
+
+class BacktestExecutor extends TradingBotExecutor {
+  ticks: Tick[];
+  pipSize: number;
+  startingBalance: number;
+  balance: number;
+  lastOutcome: SettlementOutcome | null;
+  private _cursor: number;
+
+  /**
+   * @param {Object} options
+   * @param {Tick[]} options.ticks             - Ordered tick history ({ epoch, quote })
+   * @param {number} [options.startingBalance] - Simulated account balance (default 1000)
+   * @param {number} [options.pipSize]         - Quote decimals (inferred from ticks if omitted)
+   * @param {number} [options.minStake]        - Minimum allowed stake
+   * @param {number} [options.maxStake]        - Maximum allowed stake
+   */
+  constructor(options: BacktestExecutorOptions) {
+    super({ minStake: options.minStake, maxStake: options.maxStake, maxRetryAttempts: 1 });
+
+    this.ticks = options.ticks || [];
+    this.pipSize = options.pipSize ?? inferPipSize(this.ticks);
+    this.startingBalance = options.startingBalance ?? DEFAULT_STARTING_BALANCE;
+    this.balance = this.startingBalance;
+    this.lastOutcome = null;
+    this._cursor = 0;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TICK CURSOR
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Point the executor at the tick the next contract is bought on.
+   * @param {number} index
+   */
+  setCursor(index: number) {
+    this._cursor = index;
+  }
+
+  get cursor() {
+    return this._cursor;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SIMULATED EXECUTION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Settle a contract bought at the current cursor.
+   *
+   * @param {Object} contractParams - ContractParams from buildContractParams()
+   * @param {string} [_userAccountToken] - Unused; keeps the TradingBotExecutor signature
+   * @param {Object} [tradeContext]   - Extra fields copied onto the TradeResult (e.g. `signal`)
+   * @returns {Promise<Object>} Normalised TradeResult (with `simulated: true`)
+   * @throws {Error} code VALIDATION_ERROR, UNSUPPORTED_CONTRACT or HISTORY_EXHAUSTED
+   */
+  async executeTrade(
+    contractParams: Record<string, any>,
+    _userAccountToken?: string,
+    tradeContext: Record<string, any> = {},
+  ): Promise<any> {
+    const validation = this.validateContractParams(contractParams);
+    if (!validation.valid) {
+      const err: Error & { code?: string } = new Error(`Invalid contract params: ${validation.errors.join('; ')}`);
+      err.code = 'VALIDATION_ERROR';
+      this.emit('trade_validation_failed', { errors: validation.errors, params: contractParams });
+      throw err;
+    }
+
+    if (!isSupportedContractType(contractParams.contract_type)) {
+      const err: Error & { code?: string } = new Error(`Contract type ${contractParams.contract_type} cannot be simulated`);
+      err.code = 'UNSUPPORTED_CONTRACT';
+      throw err;
+    }
+
+    const outcome = settleContract(contractParams, this.ticks, this._cursor, { pipSize: this.pipSize });
+    if (!outcome) {
+      const err: Error & { code?: string } = new Error('Tick history ended before the contract expired');
+      err.code = 'HISTORY_EXHAUSTED';
+      throw err;
+    }
+
+    const tradeResult: Record<string, any> = buildSimulatedTradeResult(contractParams, outcome, {
+      pipSize: this.pipSize,
+      sessionId: this._sessionId,
+      ticks: this.ticks,
+    });
+    tradeResult.tradeId = `backtest_${this._tradeHistory.length + 1}`;
+    Object.assign(tradeResult, tradeContext);
+
+    this.balance = roundToTwo(this.balance - tradeResult.stake + tradeResult.sellPrice);
+    tradeResult.balanceAfter = this.balance;
+    this.lastOutcome = outcome;
+
+    this._tradeHistory.push(tradeResult);
+    this.emit('trade_executed', { result: tradeResult, attempt: 1 });
+
+    return tradeResult;
+  }
+
+  /**
+   * Restore the starting balance and clear the trade history.
+   */
+  reset() {
+    this.balance = this.startingBalance;
+    this.lastOutcome = null;
+    this._cursor = 0;
+    this._tradeHistory = [];
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PERSISTENCE (no-ops)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  async persistTradeRecord() {
+    return null;
+  }
+
+  async fetchTradesByBot(): Promise<any[]> {
+    return [];
+  }
+
+  async updateBotStatus() {
+    return null;
+  }
+
+  async updateAmounts() {
+    return null;
+  }
+
+  async updateRealtimePerformance() {
+    return null;
+  }
+
+  async updateStatistics() {
+    return null;
+  }
+
+  async updateAdvancedSettings() {
+    return null;
+  }
+
+  async appendJournalEntries() {
+    return null;
+  }
+
+  async fetchJournal(): Promise<any[]> {
+    return [];
+  }
+
+  async getConnection(): Promise<never> {
+    throw new Error('BacktestExecutor does not open Deriv connections');
+  }
+}
+
+export { BacktestExecutor };
@@ -0,0 +1,529 @@
+/**
+ * @file Backtester.ts
+ * @description Replays a TradingBotManager configuration against historical ticks.
+ *
+ * The manager's own trade cycle (pre-trade checks, strategy staking, recovery, risk limits,
+ * profit locking, statistics) runs unchanged; only time and execution are swapped out:
+ *   - A virtual clock driven by the tick epochs (setClockProvider)
+ *   - A BacktestExecutor that settles contracts locally and tracks a simulated balance
+ *   - Cooldowns, waits, trade delays and max runtime advance the clock instead of timers
+ *   - The signal gate's indicators, the digit filter's statistics and the volatility
+ *     controls' realized volatility are fed the replayed ticks up to the cursor
+ *
+ * @usage
+ *   const ticks = await Backtester.fetchTickHistory(connection, 'R_100', { count: 5000 });
+ *   const backtester = new Backtester({ formData, ticks, startingBalance: 1000 });
+ *   backtester.on('backtest_progress', (e) => console.log(e.progress));
+ *   const report = await backtester.run();
+ */
+
+import { EventEmitter } from 'events';
+import {
+  TradingBotManager,
+  BOT_STATUSES,
+  getDefaultPerformance,
+  getDefaultStatistics,
+} from './TradingBotManager';
+import { BacktestExecutor } from './BacktestExecutor';
+import { IndicatorPipeline } from './Indicators';
+import { isSignalGateEnabled } from './SignalGate';
+import { DigitAnalysisService, isDigitFilterEnabled } from './DigitStats';
+import { VolatilityService, isVolatilityControlEnabled } from './VolatilityProvider';
+import type { Tick } from './ContractSimulator';
+import type { LimitOrder, MultiplierCloseReason } from './Multipliers';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const WAIT_STEP_MS = 5000;
+const PROGRESS_EVERY_N_TRADES = 100;
+const TICKS_HISTORY_PAGE_SIZE = 5000;
+
+// Manager events that end a session, mapped to a readable stop reason
+const STOP_EVENTS = Object.freeze({
+  take_profit_triggered: 'Take profit reached',
+  stop_loss_triggered: 'Stop loss reached',
+  trailing_stop_triggered: 'Trailing profit floor reached',
+  max_trades_reached: 'Max trades reached',
+  emergency_stop: 'Emergency stop',
+  max_runtime_reached: 'Max runtime reached',
+});
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface BacktestOptions {
+  /** Raw StrategyForm payload (see TradingBotManager.fromFormData) */
+  formData?: Record<string, any>;
+  /** Full BotConfiguration — used instead of formData when given */
+  config?: Record<string, any>;
+  /** Optional fromFormData overrides (botName, createdBy, …) */
+  meta?: Record<string, any>;
+  ticks: Tick[];
+  startingBalance?: number;
+  pipSize?: number;
+  minStake?: number;
+  maxStake?: number;
+}
+
+export interface BacktestTrade {
+  tradeNumber: number;
+  tradeId: string;
+  contractType: string;
+  barrier?: string;
+  stake: number;
+  payout: number;
+  profit: number;
+  isWin: boolean;
+  entryTime: number;
+  exitTime: number;
+  entrySpot: number;
+  exitSpot: number;
+  lastDigit: number;
+  balanceAfter: number;
+  /** Multiplier trades only */
+  multiplier?: number;
+  limitOrder?: LimitOrder | null;
+  closedBy?: MultiplierCloseReason;
+}
+
+export interface BacktestSummary {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  totalStake: number;
+  totalPayout: number;
+  netProfit: number;
+  roi: number;
+  profitFactor: number;
+  averageStake: number;
+  highestStake: number;
+  longestWinStreak: number;
+  longestLossStreak: number;
+  maxDrawdown: number;
+  maxDrawdownPercentage: number;
+  startingBalance: number;
+  finalBalance: number;
+}
+
+export interface BacktestReport {
+  botName: string;
+  strategyId: string;
+  symbol: string;
+  period: { start: number | null; end: number | null; ticks: number; ticksReplayed: number };
+  stopReason: string;
+  summary: BacktestSummary;
+  trades: BacktestTrade[];
+  equityCurve: Array<{ tradeNumber: number; epoch: number; balance: number }>;
+  performance: Record<string, any>;
+  statistics: Record<string, any>;
+}
+
+// ─── Backtester ──────────────────────────────────────────────────────────────
+
+class Backtester extends EventEmitter {
+  ticks: Tick[];
+  executor: BacktestExecutor;
+  manager: TradingBotManager;
+  private _cursor: number;
+  private _indicators: IndicatorPipeline | null;
+  private _digits: DigitAnalysisService | null;
+  private _volatility: VolatilityService | null;
+  /** Ticks before this index have been fed to the indicators / digit statistics / volatility */
+  private _marketDataCursor: number;
+  private _stopReason: string | null;
+  /** Why the running general cooldown started (the pre-trade check's reason) */
+  private _cooldownReason: string | null;
+  private _isRunning: boolean;
+  private _aborted: boolean;
+
+  /**
+   * @param {BacktestOptions} options
+   */
+  constructor(options: BacktestOptions) {
+    super();
+
+    if (!options.formData && !options.config) throw new Error('formData or config is required');
+    if (!Array.isArray(options.ticks) || options.ticks.length < 2) {
+      throw new Error('At least two ticks of history are required');
+    }
+
+    this.ticks = [...options.ticks].sort((a, b) => a.epoch - b.epoch);
+    this.executor = new BacktestExecutor({
+      ticks: this.ticks,
+      startingBalance: options.startingBalance,
+      pipSize: options.pipSize,
+      minStake: options.minStake,
+      maxStake: options.maxStake,
+    });
+
+    this.manager = options.config
+      ? new TradingBotManager({
+        ...options.config,
+        status: BOT_STATUSES.IDLE,
+        realtimePerformance: getDefaultPerformance(),
+        statistics: getDefaultStatistics(),
+      }, this.executor)
+      : TradingBotManager.fromFormData(options.formData, this.executor, options.meta);
+
+    this.manager.setBalanceProvider(() => this.executor.balance);
+    this.manager.setClockProvider(() => this._currentEpoch() * 1000);
+    // The history only has ticks while the market was open
+    this.manager.setTradingCalendar(null);
+
+    this._cursor = 0;
+    this._stopReason = null;
+    this._cooldownReason = null;
+    this._isRunning = false;
+    this._aborted = false;
+
+    this._indicators = null;
+    this._digits = null;
+    this._volatility = null;
+    this._marketDataCursor = 0;
+    const marketConditions = this.manager.marketConditions;
+    if (isSignalGateEnabled(marketConditions)) {
+      this._indicators = new IndicatorPipeline({
+        granularity: marketConditions.indicator_granularity ?? undefined,
+        periods: marketConditions.indicator_periods || undefined,
+      });
+      this.manager.setIndicatorPipeline(this._indicators);
+    }
+    const digitAnalysis = this.manager.digitAnalysis;
+    if (isDigitFilterEnabled(digitAnalysis)) {
+      this._digits = new DigitAnalysisService({ sampleSize: digitAnalysis.digit_sample_size || undefined });
+      this.manager.setDigitAnalysis(this._digits);
+    }
+    const volatilityControls = this.manager.volatilityControls;
+    if (isVolatilityControlEnabled(volatilityControls)) {
+      const symbol = this.manager.contract.market?.symbol || this.manager.contract.symbol || '';
+      this._volatility = new VolatilityService({ lookback: volatilityControls.volatility_lookback_period || undefined });
+      this.manager.setVolatilityProvider(this._volatility.createProvider(symbol));
+    }
+
+    for (const [event, reason] of Object.entries(STOP_EVENTS)) {
+      this.manager.on(event, () => { this._stopReason = this._stopReason || reason; });
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // RUN
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Replay the whole tick history (or until the bot stops).
+   * @returns {Promise<BacktestReport>}
+   */
+  async run(): Promise<BacktestReport> {
+    if (this._isRunning) throw new Error('Backtest is already running');
+
+    const validation = this.manager.validate({ requireAccount: false });
+    if (!validation.isValid) throw new Error(`Invalid bot configuration: ${validation.errors.join('; ')}`);
+
+    this._isRunning = true;
+    this._aborted = false;
+    this._stopReason = null;
+    this._cooldownReason = null;
+    this._cursor = 0;
+    this._marketDataCursor = 0;
+    this._indicators?.reset();
+    this._digits?.reset();
+    this._volatility?.reset();
+    this.executor.reset();
+
+    const m = this.manager;
+    m.beginSimulation();
+    this.emit('backtest_started', { ticks: this.ticks.length, startingBalance: this.executor.balance });
+
+    try {
+      while (m.status === BOT_STATUSES.START && !this._aborted) {
+        // Cooldowns end on the virtual clock instead of the manager's timers
+        const { isInCooldown, cooldownEndTime } = m.session;
+        if (isInCooldown) {
+          if (!this._advanceTo(cooldownEndTime)) break;
+          if (!m.endSimulationCooldown()) {
+            this._stopReason = this._stopReason || `${this._cooldownReason} (cooldown ended without auto restart)`;
+            break;
+          }
+          continue;
+        }
+
+        this.executor.setCursor(this._cursor);
+        this._feedMarketData();
+        const cycle = await m.runSimulationCycle();
+
+        if (!cycle.traded) {
+          const check = cycle.check;
+          if (check.action === 'stop') {
+            this._stopReason = this._stopReason || check.reason;
+            break;
+          }
+          if (check.action === 'cooldown') {
+            if (!m.startSimulationCooldown(check.stopReason)) {
+              this._stopReason = this._stopReason || check.reason;
+              break;
+            }
+            this._cooldownReason = check.reason;
+            continue;
+          }
+          if (!this._advanceTo(this._currentEpoch() * 1000 + (check.retryMs || WAIT_STEP_MS))) break;
+          continue;
+        }
+
+        const tradeCount = this.executor.tradeHistory.length;
+        if (tradeCount % PROGRESS_EVERY_N_TRADES === 0) {
+          this.emit('backtest_progress', {
+            trades: tradeCount,
+            balance: this.executor.balance,
+            progress: roundToTwo((this._cursor / (this.ticks.length - 1)) * 100),
+          });
+        }
+
+        // Next purchase happens `contract.delay` seconds after settlement
+        const outcome = this.executor.lastOutcome;
+        const exitEpoch = outcome ? this.ticks[outcome.exitIndex].epoch : this._currentEpoch();
+        if (!this._advanceTo((exitEpoch + (m.contract.delay || 1)) * 1000)) break;
+      }
+    } catch (error: any) {
+      if (error.code !== 'HISTORY_EXHAUSTED') {
+        this._isRunning = false;
+        await this._finish();
+        throw error;
+      }
+    }
+
+    if (!this._stopReason) {
+      this._stopReason = this._aborted ? 'Aborted' : 'End of tick history';
+    }
+
+    await this._finish();
+    this._isRunning = false;
+
+    const report = this._buildReport();
+    this.emit('backtest_completed', { stopReason: report.stopReason, summary: report.summary });
+    return report;
+  }
+
+  /**
+   * Stop a running backtest after the current cycle.
+   */
+  abort() {
+    this._aborted = true;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VIRTUAL CLOCK
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  _currentEpoch() {
+    return this.ticks[Math.min(this._cursor, this.ticks.length - 1)].epoch;
+  }
+
+  /**
+   * Move the cursor to the first tick at or after `timeMs`.
+   * @private
+   * @returns {boolean} false when the history ends first
+   */
+  _advanceTo(timeMs: number) {
+    const targetEpoch = timeMs / 1000;
+    let i = this._cursor + 1;
+    while (i < this.ticks.length && this.ticks[i].epoch < targetEpoch) i++;
+    if (i >= this.ticks.length) {
+      this._cursor = this.ticks.length - 1;
+      return false;
+    }
+    this._cursor = i;
+    return true;
+  }
+
+  /**
+   * Feed the indicators, digit statistics and volatility every tick up to and including the cursor.
+   * @private
+   */
+  _feedMarketData() {
+    if (!this._indicators && !this._digits && !this._volatility) return;
+    const symbol = this.manager.contract.market?.symbol || this.manager.contract.symbol || '';
+    for (; this._marketDataCursor <= this._cursor; this._marketDataCursor++) {
+      const tick = this.ticks[this._marketDataCursor];
+      this._indicators?.addTick(tick);
+      this._digits?.addTick(symbol, { ...tick, pipSize: this.executor.pipSize });
+      this._volatility?.addTick(symbol, tick);
+    }
+  }
+
+  /** @private */
+  async _finish() {
+    // A backtest ends at the first stop; auto-restarts are not replayed
+    await this.manager.endSimulation();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REPORT
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  _buildReport(): BacktestReport {
+    const m = this.manager;
+    const history = this.executor.tradeHistory;
+    const startingBalance = this.executor.startingBalance;
+
+    const trades: BacktestTrade[] = history.map((t: Record<string, any>, i: number) => ({
+      tradeNumber: i + 1,
+      tradeId: t.tradeId,
+      contractType: t.contractType,
+      barrier: t.barrier,
+      stake: t.stake,
+      payout: t.payout,
+      profit: t.profit,
+      isWin: t.isWin,
+      entryTime: t.entryTime,
+      exitTime: t.exitTime,
+      entrySpot: t.entrySpotValue,
+      exitSpot: t.exitSpotValue,
+      lastDigit: t.lastDigit,
+      balanceAfter: t.balanceAfter,
+      ...(t.closedBy && { multiplier: t.multiplier, limitOrder: t.limitOrder, closedBy: t.closedBy }),
+    }));
+
+    let wins = 0;
+    let grossWin = 0;
+    let grossLoss = 0;
+    let totalStake = 0;
+    let totalPayout = 0;
+    let highestStake = 0;
+    let winStreak = 0;
+    let lossStreak = 0;
+    let longestWinStreak = 0;
+    let longestLossStreak = 0;
+    let peak = startingBalance;
+    let maxDrawdown = 0;
+    let maxDrawdownPercentage = 0;
+
+    const equityCurve = [{ tradeNumber: 0, epoch: this.ticks[0].epoch, balance: startingBalance }];
+
+    for (const trade of trades) {
+      totalStake += trade.stake;
+      totalPayout += trade.payout;
+      if (trade.stake > highestStake) highestStake = trade.stake;
+
+      if (trade.isWin) {
+        wins++;
+        grossWin += trade.profit;
+        winStreak++;
+        lossStreak = 0;
+      } else {
+        grossLoss += Math.abs(trade.profit);
+        lossStreak++;
+        winStreak = 0;
+      }
+      longestWinStreak = Math.max(longestWinStreak, winStreak);
+      longestLossStreak = Math.max(longestLossStreak, lossStreak);
+
+      peak = Math.max(peak, trade.balanceAfter);
+      const drawdown = peak - trade.balanceAfter;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        maxDrawdownPercentage = peak > 0 ? (drawdown / peak) * 100 : 0;
+      }
+
+      equityCurve.push({ tradeNumber: trade.tradeNumber, epoch: trade.exitTime, balance: trade.balanceAfter });
+    }
+
+    const totalTrades = trades.length;
+    const netProfit = roundToTwo(totalPayout - totalStake);
+    const lastReplayed = trades.length > 0 ? trades[trades.length - 1].exitTime : this.ticks[0].epoch;
+
+    return {
+      botName: m.botName,
+      strategyId: m.strategyId,
+      symbol: m.contract.market?.symbol || m.contract.symbol || '',
+      period: {
+        start: this.ticks[0].epoch,
+        end: this.ticks[this.ticks.length - 1].epoch,
+        ticks: this.ticks.length,
+        ticksReplayed: this.ticks.filter((t) => t.epoch <= lastReplayed).length,
+      },
+      stopReason: this._stopReason || 'End of tick history',
+      summary: {
+        totalTrades,
+        wins,
+        losses: totalTrades - wins,
+        winRate: totalTrades > 0 ? roundToTwo((wins / totalTrades) * 100) : 0,
+        totalStake: roundToTwo(totalStake),
+        totalPayout: roundToTwo(totalPayout),
+        netProfit,
+        roi: totalStake > 0 ? roundToTwo((netProfit / totalStake) * 100) : 0,
+        profitFactor: grossLoss > 0 ? roundToTwo(grossWin / grossLoss) : 0,
+        averageStake: totalTrades > 0 ? roundToTwo(totalStake / totalTrades) : 0,
+        highestStake,
+        longestWinStreak,
+        longestLossStreak,
+        maxDrawdown: roundToTwo(maxDrawdown),
+        maxDrawdownPercentage: roundToTwo(maxDrawdownPercentage),
+        startingBalance,
+        finalBalance: this.executor.balance,
+      },
+      trades,
+      equityCurve,
+      performance: m.performance,
+      statistics: m.statistics,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TICK HISTORY
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Download tick history over a pooled Deriv connection (`ticks_history`), paging
+   * backwards from `end` until `count` ticks or `start` is reached.
+   *
+   * @param {Object} connection - DerivConnectionHandle (see TradingBotExecutor.getConnection)
+   * @param {string} symbol     - Underlying symbol, e.g. 'R_100'
+   * @param {Object} [range]
+   * @param {number} [range.start] - Epoch seconds (inclusive)
+   * @param {number} [range.end]   - Epoch seconds (default: latest)
+   * @param {number} [range.count] - Max ticks to fetch (default 5000)
+   * @returns {Promise<Tick[]>} Ticks in ascending epoch order
+   */
+  static async fetchTickHistory(
+    connection: { send: (request: Record<string, any>) => Promise<any> },
+    symbol: string,
+    range: { start?: number; end?: number; count?: number } = {},
+  ): Promise<Tick[]> {
+    const wanted = range.count || TICKS_HISTORY_PAGE_SIZE;
+    let end: number | 'latest' = range.end || 'latest';
+    let ticks: Tick[] = [];
+
+    while (ticks.length < wanted) {
+      const pageSize = Math.min(TICKS_HISTORY_PAGE_SIZE, wanted - ticks.length);
+      const response = await connection.send({
+        ticks_history: symbol,
+        end,
+        start: range.start || 1,
+        count: pageSize,
+        style: 'ticks',
+      });
+
+      const times: number[] = response?.history?.times || [];
+      const prices: number[] = response?.history?.prices || [];
+      if (times.length === 0) break;
+
+      const page = times.map((epoch, i) => ({ epoch: Number(epoch), quote: Number(prices[i]) }));
+      ticks = [...page.filter((t) => ticks.length === 0 || t.epoch < ticks[0].epoch), ...ticks];
+
+      if (times.length < pageSize || (range.start && page[0].epoch <= range.start)) break;
+      end = page[0].epoch - 1;
+    }
+
+    return ticks.slice(-wanted);
+  }
+}
+
+export { Backtester, STOP_EVENTS };
@@ -0,0 +1,408 @@
+/**
+ * @file CheckpointStore.ts
+ * @description Pluggable persistence for TradingBotManager runtime checkpoints.
+ *
+ * A checkpoint is a plain JSON object (see TradingBotManager.createCheckpoint) keyed by
+ * bot UUID. Stores only need `load` / `save` / `remove`; four are provided:
+ *   - MemoryCheckpointStore        — tests and short-lived processes
+ *   - LocalStorageCheckpointStore  — browser, synchronous and small
+ *   - IndexedDBCheckpointStore     — browser, survives storage pressure better
+ *   - FileCheckpointStore          — Node, one JSON file per bot (atomic rename)
+ *
+ * A CheckpointTracker is a bot's side of it: the contracts bought but not yet settled, the
+ * trades since the last checkpoint, and the writes to the store, serialised so a slow save
+ * never overwrites a newer snapshot. On resume it settles the checkpointed contracts in
+ * purchase order before the session goes on.
+ *
+ * @usage
+ *   manager.setCheckpointStore(createDefaultCheckpointStore());
+ *   const result = await manager.resumeFromCheckpoint();
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CheckpointStore {
+  load: (key: string) => Promise<Record<string, any> | null>;
+  save: (key: string, checkpoint: Record<string, any>) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+/** A contract bought but not yet settled */
+export interface InFlightContract {
+  contractId: string | number;
+  params?: Record<string, any>;
+  /** Epoch ms */
+  purchasedAt?: number;
+}
+
+export type CheckpointErrorContext = 'save' | 'load' | 'remove' | 'reconcile';
+
+export interface CheckpointTrackerOptions {
+  /** The bot's checkpoint key */
+  key: () => string;
+  onSaved?: (checkpoint: Record<string, any>) => void;
+  onError?: (error: Error, context: CheckpointErrorContext, contractId?: string | number) => void;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_PREFIX = 'koppo.bot-checkpoint.';
+const DEFAULT_DB_NAME = 'koppo-bot-checkpoints';
+const DEFAULT_OBJECT_STORE = 'checkpoints';
+const DEFAULT_DIRECTORY = '.bot-checkpoints';
+
+// Bump when the checkpoint shape changes; older checkpoints are ignored on resume
+const CHECKPOINT_VERSION = 2;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function sanitiseKey(key: string) {
+  return String(key).replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ═════════════════════════════════════════════════════════════════════════════
+// Stores
+// ═════════════════════════════════════════════════════════════════════════════
+
+class MemoryCheckpointStore implements CheckpointStore {
+  private _checkpoints = new Map<string, string>();
+
+  async load(key: string) {
+    const raw = this._checkpoints.get(key);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async save(key: string, checkpoint: Record<string, any>) {
+    this._checkpoints.set(key, JSON.stringify(checkpoint));
+  }
+
+  async remove(key: string) {
+    this._checkpoints.delete(key);
+  }
+}
+
+class LocalStorageCheckpointStore implements CheckpointStore {
+  prefix: string;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.prefix] - localStorage key prefix
+   */
+  constructor(options: { prefix?: string } = {}) {
+    this.prefix = options.prefix || DEFAULT_PREFIX;
+  }
+
+  async load(key: string) {
+    const raw = window.localStorage.getItem(this.prefix + key);
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async save(key: string, checkpoint: Record<string, any>) {
+    window.localStorage.setItem(this.prefix + key, JSON.stringify(checkpoint));
+  }
+
+  async remove(key: string) {
+    window.localStorage.removeItem(this.prefix + key);
+  }
+}
+
+class IndexedDBCheckpointStore implements CheckpointStore {
+  dbName: string;
+  storeName: string;
+  private _db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.dbName]    - IndexedDB database name
+   * @param {string} [options.storeName] - Object store name
+   */
+  constructor(options: { dbName?: string; storeName?: string } = {}) {
+    this.dbName = options.dbName || DEFAULT_DB_NAME;
+    this.storeName = options.storeName || DEFAULT_OBJECT_STORE;
+  }
+
+  /** @private */
+  private _open() {
+    if (!this._db) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      this._db = requestToPromise(request);
+    }
+    return this._db;
+  }
+
+  /** @private */
+  private async _store(mode: IDBTransactionMode) {
+    const db = await this._open();
+    return db.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  async load(key: string) {
+    const result = await requestToPromise((await this._store('readonly')).get(key));
+    return result ?? null;
+  }
+
+  async save(key: string, checkpoint: Record<string, any>) {
+    // Round-trip through JSON so only plain data is stored
+    await requestToPromise((await this._store('readwrite')).put(JSON.parse(JSON.stringify(checkpoint)), key));
+  }
+
+  async remove(key: string) {
+    await requestToPromise((await this._store('readwrite')).delete(key));
+  }
+}
+
+class FileCheckpointStore implements CheckpointStore {
+  directory: string;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.directory] - Directory for checkpoint files (created on first save)
+   */
+  constructor(options: { directory?: string } = {}) {
+    this.directory = options.directory || DEFAULT_DIRECTORY;
+  }
+
+  /** @private */
+  private async _fs() {
+    // Resolved at runtime so browser bundles never pull in Node built-ins
+    const fsModule = 'fs/promises';
+    const pathModule = 'path';
+    const [fs, path] = await Promise.all([
+      import(/* @vite-ignore */ fsModule),
+      import(/* @vite-ignore */ pathModule),
+    ]);
+    return { fs, path };
+  }
+
+  /** @private */
+  private _fileName(key: string) {
+    return `${sanitiseKey(key)}.json`;
+  }
+
+  async load(key: string) {
+    const { fs, path } = await this._fs();
+    try {
+      const raw = await fs.readFile(path.join(this.directory, this._fileName(key)), 'utf8');
+      return JSON.parse(raw);
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  async save(key: string, checkpoint: Record<string, any>) {
+    const { fs, path } = await this._fs();
+    const target = path.join(this.directory, this._fileName(key));
+    const temp = `${target}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated checkpoint
+    await fs.writeFile(temp, JSON.stringify(checkpoint), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async remove(key: string) {
+    const { fs, path } = await this._fs();
+    await fs.rm(path.join(this.directory, this._fileName(key)), { force: true });
+  }
+}
+
+// ─── Factory ─────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the best store for the current runtime: IndexedDB → localStorage → file (Node) → memory.
+ * @param {Object} [options] - Passed to the chosen store's constructor
+ * @returns {CheckpointStore}
+ */
+function createDefaultCheckpointStore(options: Record<string, any> = {}): CheckpointStore {
+  if (typeof indexedDB !== 'undefined') return new IndexedDBCheckpointStore(options);
+  if (typeof window !== 'undefined' && window.localStorage) return new LocalStorageCheckpointStore(options);
+  if (typeof process !== 'undefined' && process.versions?.node) return new FileCheckpointStore(options);
+  return new MemoryCheckpointStore();
+}
+
+// ─── CheckpointTracker ───────────────────────────────────────────────────────
+
+class CheckpointTracker {
+  store: CheckpointStore | null;
+  everyNTrades: number;
+  /** contractId → the contract bought but not yet settled */
+  inFlightContracts: Map<string, InFlightContract>;
+  lastSettledContractId: string | number | null;
+  private _options: CheckpointTrackerOptions;
+  private _tradesSinceLast: number;
+  private _chain: Promise<unknown>;
+
+  /**
+   * @param {CheckpointTrackerOptions} options
+   */
+  constructor(options: CheckpointTrackerOptions) {
+    this._options = options;
+    this.store = null;
+    this.everyNTrades = 1;
+    this.inFlightContracts = new Map();
+    this.lastSettledContractId = null;
+    this._tradesSinceLast = 0;
+    this._chain = Promise.resolve();
+  }
+
+  /**
+   * @param {CheckpointStore|null} store
+   * @param {number} [everyNTrades=1] - Checkpoint after every N settled trades
+   */
+  setStore(store: CheckpointStore | null, everyNTrades = 1) {
+    this.store = store;
+    this.everyNTrades = Math.max(1, everyNTrades);
+  }
+
+  trackPurchase(contractId: string | number, params: Record<string, any> | undefined, purchasedAt: number) {
+    this.inFlightContracts.set(String(contractId), { contractId, params, purchasedAt });
+  }
+
+  /**
+   * Count a settled trade; its contract is no longer in flight.
+   * @param {string|number|null} contractId
+   * @returns {boolean} Whether a checkpoint is due
+   */
+  recordSettled(contractId: string | number | null | undefined) {
+    this.lastSettledContractId = contractId || null;
+    if (contractId) this.inFlightContracts.delete(String(contractId));
+    this._tradesSinceLast++;
+    if (this._tradesSinceLast < this.everyNTrades) return false;
+    this._tradesSinceLast = 0;
+    return true;
+  }
+
+  /** The checkpoint fields the tracker owns */
+  snapshot() {
+    return {
+      inFlightContracts: [...this.inFlightContracts.values()].map((contract) => ({ ...contract })),
+      lastSettledContractId: this.lastSettledContractId,
+    };
+  }
+
+  /**
+   * Take the in-flight contracts over from a checkpoint.
+   * @param {Object} checkpoint
+   */
+  restore(checkpoint: Record<string, any>) {
+    // Checkpoints written before concurrent contracts hold a single `inFlightContract`
+    const inFlight: InFlightContract[] = checkpoint.inFlightContracts
+      || (checkpoint.inFlightContract ? [checkpoint.inFlightContract] : []);
+    this.inFlightContracts = new Map(inFlight.map((contract) => [String(contract.contractId), { ...contract }]));
+    this.lastSettledContractId = checkpoint.lastSettledContractId || null;
+    this._tradesSinceLast = 0;
+  }
+
+  /**
+   * Queue a checkpoint write behind the writes before it.
+   * @param {Object} checkpoint
+   * @returns {Promise<Object|null>} The checkpoint written, or null without a store or on error
+   */
+  save(checkpoint: Record<string, any>): Promise<Record<string, any> | null> {
+    const store = this.store;
+    if (!store) return Promise.resolve(null);
+
+    const write = this._chain
+      .then(() => store.save(this._options.key(), checkpoint))
+      .then(() => {
+        this._options.onSaved?.(checkpoint);
+        return checkpoint;
+      })
+      .catch((err) => {
+        this._options.onError?.(err, 'save');
+        return null;
+      });
+    this._chain = write;
+    return write;
+  }
+
+  /**
+   * The bot's last checkpoint, or null when there is none of the current version.
+   * @returns {Promise<Object|null>}
+   */
+  async load(): Promise<Record<string, any> | null> {
+    if (!this.store) return null;
+
+    try {
+      const checkpoint = await this.store.load(this._options.key());
+      if (!checkpoint || checkpoint.version !== CHECKPOINT_VERSION) return null;
+      return checkpoint;
+    } catch (err) {
+      this._options.onError?.(err as Error, 'load');
+      return null;
+    }
+  }
+
+  async remove() {
+    const store = this.store;
+    if (!store) return;
+
+    this._chain = this._chain
+      .then(() => store.remove(this._options.key()))
+      .catch((err) => {
+        this._options.onError?.(err, 'remove');
+      });
+    await this._chain;
+  }
+
+  /**
+   * Settle the in-flight contracts in purchase order, skipping the one whose result was
+   * already processed. Stops at the first contract that cannot be settled, which stays in
+   * flight: skipping it would continue the stake progression without its result.
+   * @param {Function} settle - Fetches a contract's TradeResult
+   * @param {Function} onSettled - Books a settled TradeResult
+   * @returns {Promise<Object[]>} The reconciled TradeResults
+   * @throws {Error} When a contract cannot be settled
+   */
+  async reconcile(
+    settle: (contract: InFlightContract) => Promise<Record<string, any>>,
+    onSettled: (result: Record<string, any>, contract: InFlightContract) => void,
+  ): Promise<Record<string, any>[]> {
+    const pending = [...this.inFlightContracts.values()].sort((a, b) => (a.purchasedAt || 0) - (b.purchasedAt || 0));
+    const reconciled: Record<string, any>[] = [];
+
+    for (const contract of pending) {
+      const id = String(contract.contractId);
+      if (id === String(this.lastSettledContractId)) {
+        this.inFlightContracts.delete(id);
+        continue;
+      }
+
+      let result: Record<string, any>;
+      try {
+        result = await settle(contract);
+      } catch (err) {
+        const message = (err as Error).message;
+        this._options.onError?.(err as Error, 'reconcile', contract.contractId);
+        throw new Error(`Could not settle contract ${contract.contractId}: ${message}`);
+      }
+
+      this.inFlightContracts.delete(id);
+      onSettled(result, contract);
+      reconciled.push(result);
+    }
+    return reconciled;
+  }
+}
+
+export {
+  CHECKPOINT_VERSION,
+  CheckpointTracker,
+  MemoryCheckpointStore,
+  LocalStorageCheckpointStore,
+  IndexedDBCheckpointStore,
+  FileCheckpointStore,
+  createDefaultCheckpointStore,
+};
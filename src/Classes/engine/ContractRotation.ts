@@ -0,0 +1,308 @@
+/**
+ * @file ContractRotation.ts
+ * @description Weighted market and prediction rotation for randomized contracts
+ *              (`contract.rotation` with `marketRandomize` / `predictionRandomize`).
+ *
+ * The rotation policy lists the symbols and predictions a bot rotates through, each with a
+ * weight (default 1). A weighted draw picks the first market / prediction when the bot
+ * starts, and a new one whenever the trigger fires on a settled trade:
+ *   - 'trades'       every `everyTrades` trades (default 1)
+ *   - 'loss'         after every losing trade
+ *   - 'loss_streak'  after `lossStreak` losses in a row (default 2)
+ *
+ * A rotation never redraws the current value while another candidate is left. With
+ * `excludeLosingSymbols`, a symbol that lost sits out the draws of the next
+ * `exclusionTrades` trades (default 5). Closed markets are left out too when the caller
+ * passes `isOpen`, and a market that closes is swapped for an open one ('market_closed').
+ * If every candidate is excluded, the draw falls back to all of them.
+ *
+ * Markets rotate only with `marketRandomize`, predictions only with `predictionRandomize`
+ * (on digit contracts). The state is plain data, so it is checkpointed with the session.
+ *
+ * @usage
+ *   let state = createRotationState(contract, { isOpen });
+ *   const tradeContract = applyRotation(contract, state);
+ *   state = advanceRotation(contract, state, result, { isOpen }).state;
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RotationTrigger = 'trades' | 'loss' | 'loss_streak';
+
+export type RotationReason = 'start' | 'market_closed' | RotationTrigger;
+
+export interface WeightedMarket {
+  symbol: string;
+  weight?: number | null;
+}
+
+export interface WeightedPrediction {
+  prediction: string;
+  weight?: number | null;
+}
+
+/** The bot contract's `rotation` */
+export interface RotationPolicy {
+  markets?: WeightedMarket[];
+  predictions?: WeightedPrediction[];
+  trigger?: RotationTrigger;
+  /** Trades per rotation ('trades') */
+  everyTrades?: number | null;
+  /** Losses in a row per rotation ('loss_streak') */
+  lossStreak?: number | null;
+  excludeLosingSymbols?: boolean;
+  /** Trades a losing symbol sits out */
+  exclusionTrades?: number | null;
+}
+
+/** The contract fields rotation reads */
+export interface RotatableContract {
+  market?: { symbol?: string } | null;
+  symbol?: string;
+  prediction?: string | number | null;
+  marketRandomize?: boolean;
+  predictionRandomize?: boolean;
+  rotation?: RotationPolicy | null;
+  [key: string]: any;
+}
+
+export interface RotationState {
+  symbol: string | null;
+  prediction: string | null;
+  /** Why the current values were drawn */
+  reason: RotationReason;
+  rotations: number;
+  /** Settled trades since the last rotation */
+  trades: number;
+  lossStreak: number;
+  /** Settled trades since the bot started */
+  tradeCount: number;
+  /** Symbol → tradeCount of its last loss */
+  lastLosses: Record<string, number>;
+}
+
+export interface RotationOptions {
+  /** Whether a symbol's market is open (closed markets are not drawn) */
+  isOpen?: (symbol: string) => boolean;
+  random?: () => number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const ROTATION_TRIGGERS = Object.freeze(['trades', 'loss', 'loss_streak']);
+
+const DEFAULT_EVERY_TRADES = 1;
+const DEFAULT_LOSS_STREAK = 2;
+const DEFAULT_EXCLUSION_TRADES = 5;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function getWeight(item: { weight?: number | null }) {
+  const weight = item.weight;
+  if (weight === null || weight === undefined || String(weight) === '') return 1;
+  return Math.max(0, Number(weight) || 0);
+}
+
+function getMarketChoices(contract: RotatableContract) {
+  if (!contract.marketRandomize) return [];
+  return (contract.rotation?.markets || []).filter((m) => m?.symbol && getWeight(m) > 0);
+}
+
+function getPredictionChoices(contract: RotatableContract) {
+  if (!contract.predictionRandomize) return [];
+  return (contract.rotation?.predictions || []).filter(
+    (p) => p && p.prediction !== undefined && p.prediction !== null && String(p.prediction) !== '' && getWeight(p) > 0,
+  );
+}
+
+function isMarketRotationEnabled(contract?: RotatableContract | null): boolean {
+  return Boolean(contract) && getMarketChoices(contract as RotatableContract).length > 0;
+}
+
+function isPredictionRotationEnabled(contract?: RotatableContract | null): boolean {
+  return Boolean(contract) && getPredictionChoices(contract as RotatableContract).length > 0;
+}
+
+function isRotationEnabled(contract?: RotatableContract | null): boolean {
+  return isMarketRotationEnabled(contract) || isPredictionRotationEnabled(contract);
+}
+
+// ─── Drawing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Weighted random pick. Excluded items are skipped while any other item is left.
+ * @param {Array} items - Items with an optional `weight` (default 1)
+ * @param {Function} isExcluded
+ * @param {Function} [random=Math.random]
+ * @returns {*} The picked item, or null for an empty list
+ */
+function pickWeighted<T extends { weight?: number | null }>(
+  items: T[],
+  isExcluded: (item: T) => boolean = () => false,
+  random: () => number = Math.random,
+): T | null {
+  const allowed = items.filter((item) => !isExcluded(item));
+  const pool = allowed.length > 0 ? allowed : items;
+  const total = pool.reduce((sum, item) => sum + getWeight(item), 0);
+  if (pool.length === 0 || total <= 0) return null;
+
+  let roll = random() * total;
+  for (const item of pool) {
+    roll -= getWeight(item);
+    if (roll < 0) return item;
+  }
+  return pool[pool.length - 1];
+}
+
+/**
+ * Draw the market and prediction for the next trades.
+ * @private
+ */
+function draw(
+  contract: RotatableContract,
+  previous: RotationState | null,
+  reason: RotationReason,
+  options: RotationOptions,
+): RotationState {
+  const policy = contract.rotation || {};
+  const random = options.random || Math.random;
+  const tradeCount = previous?.tradeCount ?? 0;
+  const lastLosses = previous?.lastLosses || {};
+  const exclusionTrades = positiveOrNull(policy.exclusionTrades) ?? DEFAULT_EXCLUSION_TRADES;
+
+  const isLosingSymbol = (symbol: string) => policy.excludeLosingSymbols === true
+    && lastLosses[symbol] !== undefined
+    && tradeCount - lastLosses[symbol] < exclusionTrades;
+
+  // Closed markets, then recent losers, then the current symbol sit out while anything else is left
+  const markets = getMarketChoices(contract);
+  const open = options.isOpen ? markets.filter((m) => options.isOpen!(m.symbol)) : markets;
+  const eligible = open.length > 0 ? open : markets;
+  const notLosing = eligible.filter((m) => !isLosingSymbol(m.symbol));
+  const market = pickWeighted(
+    notLosing.length > 0 ? notLosing : eligible,
+    (m) => m.symbol === previous?.symbol,
+    random,
+  );
+
+  const prediction = pickWeighted(
+    getPredictionChoices(contract),
+    (p) => String(p.prediction) === previous?.prediction,
+    random,
+  );
+
+  return {
+    symbol: market?.symbol ?? null,
+    prediction: prediction ? String(prediction.prediction) : null,
+    reason,
+    rotations: previous ? previous.rotations + 1 : 0,
+    trades: 0,
+    lossStreak: previous?.lossStreak ?? 0,
+    tradeCount,
+    lastLosses,
+  };
+}
+
+/**
+ * First draw when the bot starts.
+ * @param {RotatableContract} contract
+ * @param {RotationOptions} [options]
+ * @returns {RotationState}
+ */
+function createRotationState(contract: RotatableContract, options: RotationOptions = {}): RotationState {
+  return draw(contract, null, 'start', options);
+}
+
+// ─── Advancing ───────────────────────────────────────────────────────────────
+
+/**
+ * Count a settled trade and rotate when the policy's trigger fires.
+ * @param {RotatableContract} contract
+ * @param {RotationState} state
+ * @param {Object} result - TradeResult (`isWin`, `symbol`)
+ * @param {RotationOptions} [options]
+ * @returns {{ state: RotationState, rotated: boolean }}
+ */
+function advanceRotation(
+  contract: RotatableContract,
+  state: RotationState,
+  result: Record<string, any>,
+  options: RotationOptions = {},
+): { state: RotationState; rotated: boolean } {
+  const policy = contract.rotation || {};
+  const lost = result.isWin === false;
+  const symbol = result.symbol || state.symbol;
+
+  const counted: RotationState = {
+    ...state,
+    trades: state.trades + 1,
+    tradeCount: state.tradeCount + 1,
+    lossStreak: lost ? state.lossStreak + 1 : 0,
+    lastLosses: lost && symbol ? { ...state.lastLosses, [symbol]: state.tradeCount + 1 } : state.lastLosses,
+  };
+
+  const trigger = ROTATION_TRIGGERS.includes(policy.trigger as string) ? policy.trigger as RotationTrigger : 'trades';
+  let fires = false;
+  if (trigger === 'trades') fires = counted.trades >= (positiveOrNull(policy.everyTrades) ?? DEFAULT_EVERY_TRADES);
+  else if (trigger === 'loss') fires = lost;
+  else fires = counted.lossStreak >= (positiveOrNull(policy.lossStreak) ?? DEFAULT_LOSS_STREAK);
+
+  if (!fires) return { state: counted, rotated: false };
+
+  const next = draw(contract, counted, trigger, options);
+  if (trigger === 'loss_streak') next.lossStreak = 0;
+  return { state: next, rotated: true };
+}
+
+/**
+ * Swap the current market for an open one once it closes. The prediction is kept.
+ * @param {RotatableContract} contract
+ * @param {RotationState} state
+ * @param {RotationOptions} options - `isOpen` is required for this to do anything
+ * @returns {{ state: RotationState, rotated: boolean }}
+ */
+function ensureOpenMarket(
+  contract: RotatableContract,
+  state: RotationState,
+  options: RotationOptions = {},
+): { state: RotationState; rotated: boolean } {
+  const isOpen = options.isOpen;
+  if (!isOpen || !state.symbol || isOpen(state.symbol)) return { state, rotated: false };
+  if (!getMarketChoices(contract).some((m) => m.symbol !== state.symbol && isOpen(m.symbol))) {
+    return { state, rotated: false };
+  }
+  const next = draw(contract, state, 'market_closed', options);
+  return { state: { ...next, prediction: state.prediction }, rotated: true };
+}
+
+/**
+ * The contract with the rotation's market and prediction applied.
+ * @param {RotatableContract} contract
+ * @param {RotationState|null} state
+ * @returns {RotatableContract}
+ */
+function applyRotation(contract: RotatableContract, state: RotationState | null): RotatableContract {
+  if (!state) return contract;
+  return {
+    ...contract,
+    ...(state.symbol && { market: { symbol: state.symbol }, symbol: state.symbol }),
+    ...(state.prediction !== null && { prediction: state.prediction }),
+  };
+}
+
+export {
+  ROTATION_TRIGGERS,
+  isRotationEnabled,
+  isMarketRotationEnabled,
+  isPredictionRotationEnabled,
+  pickWeighted,
+  createRotationState,
+  advanceRotation,
+  ensureOpenMarket,
+  applyRotation,
+};
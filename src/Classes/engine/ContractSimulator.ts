@@ -0,0 +1,367 @@
+/**
+ * @file ContractSimulator.ts
+ * @description Local contract settlement against a tick stream — shared by the Backtester
+ *              and simulated executors.
+ *
+ * Settlement rules (mirroring Deriv tick contracts):
+ *   - The entry spot is the first tick after the purchase tick.
+ *   - Digit contracts over N ticks settle on the last digit of the N-th tick after purchase.
+ *   - Rise/Fall over N ticks compares the entry spot with the N-th tick after entry.
+ *   - Time-based durations (s/m/h/d) settle on the last tick at or before expiry, once a
+ *     tick after expiry proves the window is complete.
+ *   - Multipliers (MULTUP/MULTDOWN) close on the first tick that fills the take profit or
+ *     stop loss, stops them out, or reaches the holding time (see Multipliers). Commission
+ *     and deal cancellation are not simulated.
+ *
+ * Supported contract types: DIGITDIFF, DIGITMATCH, DIGITOVER, DIGITUNDER, DIGITEVEN,
+ * DIGITODD, CALL, PUT, CALLE, PUTE, MULTUP, MULTDOWN.
+ *
+ * @usage
+ *   const outcome = settleContract(params, ticks, purchaseIndex, { pipSize: 2 });
+ *   if (outcome) {
+ *     const result = buildSimulatedTradeResult(params, outcome, { pipSize: 2 });
+ *   }
+ */
+
+import { getPayoutRate } from './PayoutTable';
+import {
+  isMultiplierContract,
+  getHoldDuration,
+  getMultiplierProfit,
+  type MultiplierCloseReason,
+} from './Multipliers';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface Tick {
+  epoch: number;
+  quote: number;
+}
+
+export interface SettlementOutcome {
+  isWin: boolean;
+  purchaseIndex: number;
+  entryIndex: number;
+  exitIndex: number;
+  entryTick: Tick;
+  exitTick: Tick;
+  lastDigit: number;
+  /** Multipliers only: profit at the exit tick and what closed the position */
+  profit?: number;
+  closedBy?: MultiplierCloseReason;
+}
+
+export interface SimulatedResultOptions {
+  pipSize?: number;
+  payoutRate?: number | null;
+  sessionId?: string | null;
+  botId?: string;
+  botUUID?: string;
+  strategyId?: string;
+  account?: string;
+  ticks?: Tick[];
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const SUPPORTED_CONTRACT_TYPES = Object.freeze([
+  'DIGITDIFF',
+  'DIGITMATCH',
+  'DIGITOVER',
+  'DIGITUNDER',
+  'DIGITEVEN',
+  'DIGITODD',
+  'CALL',
+  'PUT',
+  'CALLE',
+  'PUTE',
+  'MULTUP',
+  'MULTDOWN',
+]);
+
+const DEFAULT_PIP_SIZE = 2;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Last digit of a quote at the symbol's pip size (trailing zeros count).
+ */
+function getLastDigit(quote: number, pipSize: number = DEFAULT_PIP_SIZE) {
+  const fixed = Number(quote).toFixed(pipSize);
+  return Number(fixed[fixed.length - 1]);
+}
+
+/**
+ * Best-effort pip size from recorded quotes (max decimals seen).
+ */
+function inferPipSize(ticks: Tick[]) {
+  let pipSize = 0;
+  for (const tick of ticks.slice(0, 500)) {
+    const decimals = String(tick.quote).split('.')[1]?.length || 0;
+    if (decimals > pipSize) pipSize = decimals;
+  }
+  return pipSize || DEFAULT_PIP_SIZE;
+}
+
+function durationToSeconds(duration: number, unit: string) {
+  switch (String(unit).toLowerCase()) {
+    case 's': return duration;
+    case 'm': return duration * 60;
+    case 'h': return duration * 3600;
+    case 'd': return duration * 86400;
+    default: return duration;
+  }
+}
+
+function isSupportedContractType(contractType: string) {
+  return SUPPORTED_CONTRACT_TYPES.includes(String(contractType).toUpperCase());
+}
+
+/**
+ * Decide a contract's outcome from its entry/exit spots.
+ */
+function evaluateContract(
+  contractType: string,
+  barrier: string | number | null | undefined,
+  entryQuote: number,
+  exitQuote: number,
+  lastDigit: number,
+) {
+  const type = String(contractType).toUpperCase();
+  const digitBarrier = barrier === undefined || barrier === null || barrier === '' ? null : Number(barrier);
+
+  switch (type) {
+    case 'DIGITDIFF': return lastDigit !== digitBarrier;
+    case 'DIGITMATCH': return lastDigit === digitBarrier;
+    case 'DIGITOVER': return lastDigit > (digitBarrier ?? 0);
+    case 'DIGITUNDER': return lastDigit < (digitBarrier ?? 9);
+    case 'DIGITEVEN': return lastDigit % 2 === 0;
+    case 'DIGITODD': return lastDigit % 2 === 1;
+    case 'CALL': return exitQuote > entryQuote;
+    case 'CALLE': return exitQuote >= entryQuote;
+    case 'PUT': return exitQuote < entryQuote;
+    case 'PUTE': return exitQuote <= entryQuote;
+    default:
+      throw new Error(`Unsupported contract type for simulation: ${contractType}`);
+  }
+}
+
+// ─── Settlement ──────────────────────────────────────────────────────────────
+
+/**
+ * Walk the ticks after entry until a multiplier position closes.
+ * @returns {SettlementOutcome|null} null when the history ends with the position still open
+ */
+function settleMultiplier(
+  params: Record<string, any>,
+  ticks: Tick[],
+  purchaseIndex: number,
+  pipSize: number,
+): SettlementOutcome | null {
+  const entryIndex = purchaseIndex + 1;
+  if (entryIndex >= ticks.length) return null;
+
+  const entryTick = ticks[entryIndex];
+  const stake = Number(params.amount) || 0;
+  const takeProfit = params.limit_order?.take_profit;
+  const stopLoss = params.limit_order?.stop_loss;
+  const hold = getHoldDuration(params);
+  const holdIndex = hold?.ticks ? entryIndex + hold.ticks : null;
+  const holdUntil = hold?.ms ? entryTick.epoch + hold.ms / 1000 : null;
+
+  for (let i = entryIndex + 1; i < ticks.length; i++) {
+    const profit = getMultiplierProfit(params, entryTick.quote, ticks[i].quote);
+    let closedBy: MultiplierCloseReason | null = null;
+    if (takeProfit !== undefined && profit >= takeProfit) closedBy = 'take_profit';
+    else if (profit <= -stake) closedBy = 'stop_out';
+    else if (stopLoss !== undefined && profit <= -stopLoss) closedBy = 'stop_loss';
+    else if ((holdIndex !== null && i >= holdIndex) || (holdUntil !== null && ticks[i].epoch >= holdUntil)) {
+      closedBy = 'hold_expired';
+    }
+
+    if (closedBy) {
+      return {
+        isWin: profit > 0,
+        purchaseIndex,
+        entryIndex,
+        exitIndex: i,
+        entryTick,
+        exitTick: ticks[i],
+        lastDigit: getLastDigit(ticks[i].quote, pipSize),
+        profit,
+        closedBy,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Settle a contract bought at `ticks[purchaseIndex]`.
+ *
+ * @param {Object} params        - ContractParams (contract_type, duration, duration_unit, barrier)
+ * @param {Tick[]} ticks         - Ordered tick history
+ * @param {number} purchaseIndex - Index of the last tick seen before the buy
+ * @param {Object} [options]
+ * @param {number} [options.pipSize]
+ * @returns {SettlementOutcome|null} null when the history ends before the contract expires
+ */
+function settleContract(
+  params: Record<string, any>,
+  ticks: Tick[],
+  purchaseIndex: number,
+  options: { pipSize?: number } = {},
+): SettlementOutcome | null {
+  const pipSize = options.pipSize ?? DEFAULT_PIP_SIZE;
+  const contractType = String(params.contract_type || '').toUpperCase();
+  if (isMultiplierContract(contractType)) return settleMultiplier(params, ticks, purchaseIndex, pipSize);
+  const duration = Math.max(1, Number(params.duration) || 1);
+  const unit = String(params.duration_unit || 't').toLowerCase();
+  const isDigit = contractType.startsWith('DIGIT');
+
+  const entryIndex = purchaseIndex + 1;
+  if (entryIndex >= ticks.length) return null;
+
+  let exitIndex: number;
+  if (unit === 't') {
+    exitIndex = isDigit ? purchaseIndex + duration : entryIndex + duration;
+    if (exitIndex >= ticks.length) return null;
+  } else {
+    const expiry = ticks[entryIndex].epoch + durationToSeconds(duration, unit);
+    exitIndex = -1;
+    for (let i = entryIndex; i < ticks.length; i++) {
+      if (ticks[i].epoch > expiry) break;
+      exitIndex = i;
+    }
+    // Need a tick beyond expiry to know the window closed inside the history
+    if (exitIndex === -1 || exitIndex === ticks.length - 1) return null;
+  }
+
+  const entryTick = ticks[entryIndex];
+  const exitTick = ticks[exitIndex];
+  const lastDigit = getLastDigit(exitTick.quote, pipSize);
+
+  return {
+    isWin: evaluateContract(contractType, params.barrier, entryTick.quote, exitTick.quote, lastDigit),
+    purchaseIndex,
+    entryIndex,
+    exitIndex,
+    entryTick,
+    exitTick,
+    lastDigit,
+  };
+}
+
+/**
+ * Build a normalised TradeResult (same shape as TradingBotExecutor._normaliseTradeResult)
+ * for a simulated settlement.
+ *
+ * @param {Object} params               - ContractParams that were "bought"
+ * @param {SettlementOutcome} outcome
+ * @param {SimulatedResultOptions} [options]
+ * @returns {Object} TradeResult
+ */
+function buildSimulatedTradeResult(
+  params: Record<string, any>,
+  outcome: SettlementOutcome,
+  options: SimulatedResultOptions = {},
+) {
+  const stake = roundToTwo(Number(params.amount) || 0);
+  const rate = options.payoutRate ?? getPayoutRate(params.contract_type, stake, params.barrier) ?? 0;
+  const isMultiplier = isMultiplierContract(params.contract_type);
+  const payout = roundToTwo(stake * (1 + rate / 100));
+  const sellPrice = isMultiplier ? roundToTwo(stake + (outcome.profit ?? 0)) : outcome.isWin ? payout : 0;
+  const profit = roundToTwo(sellPrice - stake);
+  const pipSize = options.pipSize ?? DEFAULT_PIP_SIZE;
+  const auditTicks = options.ticks
+    ? options.ticks.slice(outcome.entryIndex, outcome.exitIndex + 1).map((tick) => ({
+      epoch: tick.epoch,
+      tick: tick.quote,
+      tick_display_value: tick.quote.toFixed(pipSize),
+    }))
+    : [];
+
+  return {
+    tradeId: null,
+    sessionId: options.sessionId ?? null,
+    contractId: `sim_${outcome.entryTick.epoch}_${outcome.purchaseIndex}`,
+    botId: options.botId || '',
+    botUUID: options.botUUID || '',
+    strategyId: options.strategyId || '',
+    userAccountUUID: options.account || '',
+
+    // Timing
+    entryTime: outcome.entryTick.epoch,
+    exitTime: outcome.exitTick.epoch,
+    purchaseTime: outcome.entryTick.epoch,
+
+    // Spots
+    entrySpotValue: outcome.entryTick.quote,
+    entrySpotTime: outcome.entryTick.epoch,
+    exitSpotValue: outcome.exitTick.quote,
+    exitSpotTime: outcome.exitTick.epoch,
+
+    // Prices
+    askPrice: stake,
+    askPriceCurrency: params.currency,
+    buyPrice: stake,
+    buyPriceCurrency: params.currency,
+    buyTransaction: null,
+    bidPrice: sellPrice,
+    bidPriceCurrency: params.currency,
+    sellPrice,
+    sellPriceCurrency: params.currency,
+    sellSpot: outcome.exitTick.quote,
+    sellSpotTime: outcome.exitTick.epoch,
+    sellTransaction: null,
+
+    // Result
+    stake,
+    payout: isMultiplier ? sellPrice : outcome.isWin ? payout : 0,
+    profit,
+    profitPercentage: stake > 0 ? roundToTwo((profit / stake) * 100) : 0,
+    isWin: outcome.isWin,
+    status: outcome.isWin ? 'won' : 'lost',
+
+    // Contract info
+    symbol: params.symbol,
+    symbolFull: '',
+    contractType: params.contract_type,
+    duration: params.duration,
+    durationUnits: params.duration_unit,
+    currency: params.currency,
+    longcode: `Simulated ${params.contract_type} on ${params.symbol}${params.barrier !== undefined ? ` (barrier ${params.barrier})` : ''}${isMultiplier ? ` (x${params.multiplier})` : ''}`,
+    barrier: params.barrier,
+    lastDigit: outcome.lastDigit,
+    ...(isMultiplier && {
+      multiplier: params.multiplier,
+      limitOrder: params.limit_order || null,
+      dealCancellation: params.cancellation || null,
+      closedBy: outcome.closedBy,
+    }),
+
+    // Audit
+    auditDetails: auditTicks,
+    ticks: null,
+
+    // User
+    userAccount: { account: options.account || '', currency: params.currency },
+
+    simulated: true,
+    timestamp: new Date(outcome.exitTick.epoch * 1000).toISOString(),
+  };
+}
+
+export {
+  SUPPORTED_CONTRACT_TYPES,
+  settleContract,
+  evaluateContract,
+  buildSimulatedTradeResult,
+  getLastDigit,
+  inferPipSize,
+  isSupportedContractType,
+};
@@ -0,0 +1,499 @@
+/**
+ * @file DecisionJournal.ts
+ * @description Append-only, event-sourced record of why a bot traded or skipped, one entry per
+ *              trade-loop iteration, plus the replay that rebuilds bot state from it.
+ *
+ * Each bot run gets a `runId`. Entries within a run are numbered from 0:
+ *   - run_started — full state snapshot and the configuration the run used
+ *   - cycle       — pre-trade check outcomes, the stake and the rule that produced it,
+ *                   contract params, the result and the state delta
+ *   - settlement  — the result of a contract that settled after its cycle (concurrent
+ *                   contracts, where the cycle only dispatches the purchase)
+ *   - status      — lifecycle changes (pause, resume, …)
+ *   - run_ended   — final snapshot, used by the replay to verify itself
+ *
+ * State is `{ status, session, realtimePerformance, statistics, strategyState }` — the same
+ * fields as a checkpoint. Every entry stores the delta since the previous entry as
+ * `{ 'session.consecutiveLosses': [2, 3], … }`, so changes made between cycles (cooldown
+ * timers, periodic resets) are folded into the next entry and the replay stays exact.
+ *
+ * @usage
+ *   const journal = new DecisionJournal({ key: botUUID, store: createDefaultJournalStore() });
+ *   journal.startRun(state, { strategyId });
+ *   journal.record({ type: 'cycle', outcome: 'traded', ... }, nextState);
+ *   journal.recordCycle(trace, cycle, null, nextState);
+ *   if (journal.syncDue) await journal.sync(send);
+ *   const replay = replayJournal(await journal.load());
+ *   manager.restoreCheckpoint({ version: 1, ...replay.state });
+ */
+
+import type { JournalStore } from './JournalStore';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 1000;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type JournalEntryType = 'run_started' | 'cycle' | 'settlement' | 'status' | 'run_ended';
+
+/** Flat `section.key` paths mapped to `[from, to]` */
+export type JournalDelta = Record<string, [unknown, unknown]>;
+
+export interface JournalState {
+  status: string;
+  session: Record<string, any>;
+  realtimePerformance: Record<string, any>;
+  statistics: Record<string, any>;
+  strategyState: Record<string, any>;
+}
+
+export interface JournalCheck {
+  /** 'pre_trade', 'stake_strategy', 'signal_gate', 'digit_filter' or 'portfolio' */
+  name: string;
+  allowed: boolean;
+  reason?: string | null;
+  action?: string | null;
+}
+
+export interface JournalStakeRule {
+  stake: number;
+  /** 'base_stake', 'strategy' or 'recovery_step' */
+  source: string;
+  strategy?: string | null;
+  recoveryStep?: number | null;
+  /** Adjustments applied after the source, e.g. 'compound_stake', 'volatility ×0.5' */
+  modifiers: string[];
+  /** Stake before _clampStake */
+  requested: number;
+  /** Limit that changed the stake: 'minimum', 'maximum_stake', 'max_ladder', 'risk_per_trade', 'locked_profit' */
+  clampedBy: string | null;
+}
+
+export interface JournalEntry {
+  runId: string;
+  seq: number;
+  type: JournalEntryType;
+  /** Bot clock, ms (virtual in backtests) */
+  time: number;
+  botId: string;
+  outcome?: 'traded' | 'skipped' | 'error';
+  checks?: JournalCheck[];
+  stake?: JournalStakeRule | null;
+  params?: Record<string, any> | null;
+  result?: Record<string, any> | null;
+  error?: string | null;
+  reason?: string | null;
+  meta?: Record<string, any>;
+  snapshot?: JournalState;
+  delta: JournalDelta;
+}
+
+/** What a trade cycle did before it traded or skipped */
+export interface JournalCycleTrace {
+  checks: JournalCheck[];
+  stake: JournalStakeRule | null;
+  params: Record<string, any> | null;
+}
+
+/** A trade cycle's return value */
+export interface JournalCycle {
+  traded: boolean;
+  result?: Record<string, any> | null;
+  check?: { reason?: string | null } | null;
+}
+
+export interface DecisionJournalOptions {
+  /** Store key, normally the bot UUID */
+  key: string;
+  store?: JournalStore | null;
+  /** Entries kept in memory (the store keeps everything it is given) */
+  maxEntries?: number;
+  /** false records nothing (throwaway simulations); default true */
+  enabled?: boolean;
+  /** Unsynced entries that make a sync due; null (default) when the journal is not synced */
+  syncEveryN?: number | null;
+}
+
+export interface JournalReplay {
+  runId: string | null;
+  /** Seq of the last entry applied, -1 when nothing was applied */
+  seq: number;
+  state: JournalState | null;
+  trades: Record<string, any>[];
+  cycles: number;
+  skipped: Record<string, number>;
+  errors: number;
+  /** true/false once a run_ended snapshot was compared with the replayed state, else null */
+  verified: boolean | null;
+  /** Paths where the replayed state differs from the run_ended snapshot */
+  mismatches: string[];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function same(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Two-level diff: object sections are compared key by key, anything else as a whole.
+ */
+function diffState(previous: Record<string, any> | null, next: Record<string, any>): JournalDelta {
+  const delta: JournalDelta = {};
+  const before = previous || {};
+  for (const section of new Set([...Object.keys(before), ...Object.keys(next)])) {
+    const from = before[section];
+    const to = next[section];
+    if (isPlainObject(from) && isPlainObject(to)) {
+      for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (!same(from[key], to[key])) delta[`${section}.${key}`] = [clone(from[key]) ?? null, clone(to[key]) ?? null];
+      }
+    } else if (!same(from, to)) {
+      delta[section] = [clone(from) ?? null, clone(to) ?? null];
+    }
+  }
+  return delta;
+}
+
+function applyDelta(state: Record<string, any>, delta: JournalDelta) {
+  for (const [path, [, to]] of Object.entries(delta)) {
+    const dot = path.indexOf('.');
+    if (dot === -1) {
+      state[path] = clone(to);
+      continue;
+    }
+    const section = path.slice(0, dot);
+    if (!isPlainObject(state[section])) state[section] = {};
+    state[section][path.slice(dot + 1)] = clone(to);
+  }
+}
+
+function createRunId(time: number) {
+  return `run_${time.toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const TRADE_RESULT_FIELDS = [
+  'contractId', 'tradeId', 'contractType', 'barrier', 'stake', 'payout',
+  'profit', 'isWin', 'entryTime', 'exitTime', 'balanceAfter', 'closedBy', 'earlyExit',
+  'priceCheck', 'rotation',
+];
+
+/**
+ * The parts of an executor trade result worth keeping in a journal entry
+ * (full results carry audit ticks and account details).
+ */
+function summarizeTradeResult(result: Record<string, any>) {
+  const summary: Record<string, any> = {};
+  for (const field of TRADE_RESULT_FIELDS) {
+    if (result[field] !== undefined) summary[field] = result[field];
+  }
+  return summary;
+}
+
+// ─── DecisionJournal ─────────────────────────────────────────────────────────
+
+class DecisionJournal {
+  key: string;
+  store: JournalStore | null;
+  maxEntries: number;
+  enabled: boolean;
+  syncEveryN: number | null;
+  private _entries: JournalEntry[];
+  private _runId: string | null;
+  private _seq: number;
+  private _lastState: JournalState | null;
+  /** Entries not yet accepted by the bot API */
+  private _unsynced: JournalEntry[];
+  private _writeChain: Promise<void>;
+  private _syncing: Promise<number> | null;
+
+  /**
+   * @param {DecisionJournalOptions} options
+   */
+  constructor(options: DecisionJournalOptions) {
+    this.key = options.key;
+    this.store = options.store || null;
+    this.maxEntries = options.maxEntries || DEFAULT_MAX_MEMORY_ENTRIES;
+    this.enabled = options.enabled !== false;
+    this.syncEveryN = options.syncEveryN ?? null;
+    this._entries = [];
+    this._runId = null;
+    this._seq = 0;
+    this._lastState = null;
+    this._unsynced = [];
+    this._writeChain = Promise.resolve();
+    this._syncing = null;
+  }
+
+  get runId() {
+    return this._runId;
+  }
+
+  get unsyncedCount() {
+    return this._unsynced.length;
+  }
+
+  /** Whether syncEveryN entries are waiting to be synced */
+  get syncDue() {
+    return this.syncEveryN !== null && this._unsynced.length >= this.syncEveryN;
+  }
+
+  /**
+   * Begin a new run with a full state snapshot.
+   * @param {JournalState} state
+   * @param {Object} [meta] - Configuration and context for post-mortems
+   * @param {number} [time] - Bot clock, ms
+   * @returns {JournalEntry|null} null when the journal is disabled
+   */
+  startRun(state: JournalState, meta: Record<string, any> = {}, time: number = Date.now()): JournalEntry | null {
+    if (!this.enabled) return null;
+    this._runId = createRunId(time);
+    this._seq = 0;
+    this._lastState = null;
+    return this._append({ type: 'run_started', time, meta: clone(meta), snapshot: clone(state) }, state);
+  }
+
+  /**
+   * Record an entry; the delta against the previous entry's state is computed here.
+   * Ignored outside a run.
+   * @param {Object} entry - Entry fields without runId / seq / delta
+   * @param {JournalState} state - State after the entry
+   * @returns {JournalEntry|null}
+   */
+  record(entry: Omit<JournalEntry, 'runId' | 'seq' | 'delta' | 'botId'> & { botId?: string }, state: JournalState) {
+    if (!this._runId) return null;
+    return this._append(entry, state);
+  }
+
+  /**
+   * Record one trade-loop iteration.
+   * @param {JournalCycleTrace} trace - Checks, stake rule and params the cycle got to
+   * @param {JournalCycle|null} cycle - Its return value, null when it threw
+   * @param {Error|null} error - What it threw
+   * @param {JournalState} state
+   * @param {number} [time]
+   * @returns {JournalEntry|null}
+   */
+  recordCycle(trace: JournalCycleTrace, cycle: JournalCycle | null, error: Error | null, state: JournalState, time: number = Date.now()) {
+    const result = cycle?.result || null;
+    let outcome: JournalEntry['outcome'] = 'skipped';
+    if (error) outcome = 'error';
+    else if (cycle?.traded) outcome = 'traded';
+
+    return this.record({
+      type: 'cycle',
+      time,
+      outcome,
+      checks: trace.checks,
+      stake: trace.stake,
+      params: trace.params,
+      result: result ? summarizeTradeResult(result) : null,
+      reason: outcome === 'skipped' ? cycle?.check?.reason || null : null,
+      error: error ? error.message || String(error) : null,
+    }, state);
+  }
+
+  /**
+   * Record a contract that settled after its cycle was recorded (concurrent contracts).
+   * @param {Object|null} result - TradeResult, null when the purchase failed
+   * @param {Error|null} error
+   * @param {JournalState} state
+   * @param {number} [time]
+   * @returns {JournalEntry|null}
+   */
+  recordSettlement(result: Record<string, any> | null, error: Error | null, state: JournalState, time: number = Date.now()) {
+    return this.record({
+      type: 'settlement',
+      time,
+      outcome: error ? 'error' : 'traded',
+      result: result ? summarizeTradeResult(result) : null,
+      error: error ? error.message || String(error) : null,
+    }, state);
+  }
+
+  /**
+   * Close the run with a final snapshot.
+   * @param {JournalState} state
+   * @param {string|null} [reason]
+   * @param {number} [time]
+   * @returns {JournalEntry|null}
+   */
+  endRun(state: JournalState, reason: string | null = null, time: number = Date.now()) {
+    if (!this._runId) return null;
+    const entry = this._append({ type: 'run_ended', time, reason, snapshot: clone(state) }, state);
+    this._runId = null;
+    this._lastState = null;
+    return entry;
+  }
+
+  /**
+   * Entries held in memory, optionally for one run.
+   * @param {string} [runId]
+   * @returns {JournalEntry[]}
+   */
+  getEntries(runId?: string): JournalEntry[] {
+    return runId ? this._entries.filter((e) => e.runId === runId) : [...this._entries];
+  }
+
+  /**
+   * Everything persisted for this bot, or the in-memory entries without a store.
+   * @returns {Promise<JournalEntry[]>}
+   */
+  async load(): Promise<JournalEntry[]> {
+    if (!this.store) return this.getEntries();
+    await this._writeChain;
+    return this.store.load(this.key);
+  }
+
+  /**
+   * Wait for pending store writes.
+   */
+  async flush() {
+    await this._writeChain;
+  }
+
+  /**
+   * Send unsynced entries, oldest first, through `send` (e.g. the executor's
+   * appendJournalEntries). Entries stay queued when `send` throws.
+   * @param {Function} send - (entries) => Promise
+   * @returns {Promise<number>} Entries synced
+   */
+  sync(send: (entries: JournalEntry[]) => Promise<unknown>): Promise<number> {
+    if (this._syncing) return this._syncing;
+    if (this._unsynced.length === 0) return Promise.resolve(0);
+
+    const batch = [...this._unsynced];
+    this._syncing = send(batch)
+      .then(() => {
+        this._unsynced = this._unsynced.slice(batch.length);
+        return batch.length;
+      })
+      .finally(() => {
+        this._syncing = null;
+      });
+    return this._syncing;
+  }
+
+  /**
+   * Drop the in-memory entries and the stored journal.
+   */
+  async clear() {
+    this._entries = [];
+    this._unsynced = [];
+    await this._writeChain;
+    if (this.store) await this.store.remove(this.key);
+  }
+
+  /** @private */
+  private _append(
+    fields: Omit<JournalEntry, 'runId' | 'seq' | 'delta' | 'botId'> & { botId?: string },
+    state: JournalState,
+  ): JournalEntry {
+    const entry: JournalEntry = {
+      ...fields,
+      runId: this._runId as string,
+      seq: this._seq++,
+      botId: fields.botId || this.key,
+      delta: this._lastState ? diffState(this._lastState, state) : {},
+    };
+    this._lastState = clone(state);
+
+    this._entries.push(entry);
+    if (this._entries.length > this.maxEntries) this._entries.splice(0, this._entries.length - this.maxEntries);
+    this._unsynced.push(entry);
+    if (this._unsynced.length > this.maxEntries) this._unsynced.splice(0, this._unsynced.length - this.maxEntries);
+
+    if (this.store) {
+      const store = this.store;
+      // Serialised, so entries reach the store in order
+      this._writeChain = this._writeChain.then(() => store.append(this.key, [entry])).catch(() => {});
+    }
+    return entry;
+  }
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────────
+
+/**
+ * Rebuild bot state from journal entries. Starts from the run's run_started snapshot,
+ * applies every delta in seq order and, if the run ended, checks the result against the
+ * run_ended snapshot.
+ *
+ * @param {JournalEntry[]} entries - From DecisionJournal.load(), the store or the bot API
+ * @param {Object} [options]
+ * @param {string} [options.runId]  - Run to replay (default: the last run in `entries`)
+ * @param {number} [options.upToSeq] - Stop after this entry, e.g. to inspect state before a loss
+ * @returns {JournalReplay}
+ */
+function replayJournal(entries: JournalEntry[], options: { runId?: string; upToSeq?: number } = {}): JournalReplay {
+  const runId = options.runId ?? (entries.length > 0 ? entries[entries.length - 1].runId : null);
+  const run = entries
+    .filter((e) => e.runId === runId)
+    .sort((a, b) => a.seq - b.seq)
+    .filter((e) => options.upToSeq === undefined || e.seq <= options.upToSeq);
+
+  const replay: JournalReplay = {
+    runId,
+    seq: -1,
+    state: null,
+    trades: [],
+    cycles: 0,
+    skipped: {},
+    errors: 0,
+    verified: null,
+    mismatches: [],
+  };
+
+  let state: Record<string, any> | null = null;
+  for (const entry of run) {
+    if (entry.type === 'run_started') {
+      state = clone(entry.snapshot) as Record<string, any>;
+    } else if (!state) {
+      // The run's start is missing (e.g. trimmed from localStorage) — nothing to build on
+      continue;
+    } else {
+      applyDelta(state, entry.delta);
+    }
+    replay.seq = entry.seq;
+
+    if (entry.type === 'cycle') {
+      replay.cycles++;
+      if (entry.outcome === 'traded' && entry.result) replay.trades.push(entry.result);
+      if (entry.outcome === 'error') replay.errors++;
+      if (entry.outcome === 'skipped') {
+        const reason = entry.reason || 'Unknown';
+        replay.skipped[reason] = (replay.skipped[reason] || 0) + 1;
+      }
+    }
+
+    if (entry.type === 'settlement') {
+      if (entry.result) replay.trades.push(entry.result);
+      if (entry.outcome === 'error') replay.errors++;
+    }
+
+    if (entry.type === 'run_ended' && entry.snapshot) {
+      replay.mismatches = Object.keys(diffState(state, entry.snapshot));
+      replay.verified = replay.mismatches.length === 0;
+    }
+  }
+
+  replay.state = state as JournalState | null;
+  return replay;
+}
+
+export {
+  DEFAULT_MAX_MEMORY_ENTRIES,
+  DecisionJournal,
+  replayJournal,
+  diffState,
+  summarizeTradeResult,
+};
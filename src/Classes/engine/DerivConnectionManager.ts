@@ -0,0 +1,651 @@
+/**
+ * @file DerivConnectionManager.ts
+ * @description Pooled, persistent Deriv WebSocket connections for the TradingBot Engine.
+ *
+ * Responsibilities:
+ *   - Keep one authorized DerivAPI socket per account token (per endpoint / app_id)
+ *   - Share that socket between any number of executors / TradingBotManager instances
+ *     through reference-counted handles
+ *   - Keep the socket alive with a periodic `ping` and detect dead sockets
+ *   - Reconnect with exponential backoff, re-authorize, and replay every live
+ *     subscription registered through a handle
+ *   - Re-authorize on demand when Deriv rejects a token mid-session
+ *   - Close idle sockets once the last handle has been released
+ *
+ * @usage
+ *   const manager = getSharedConnectionManager({ endpoint, appId, lang });
+ *   const conn = await manager.acquire(userAccountToken);
+ *   const contract = await conn.api.contract(params);
+ *   const sub = conn.subscribe({ ticks: 'R_100' }, (msg) => console.log(msg.tick));
+ *   ...
+ *   sub.unsubscribe();
+ *   conn.release();
+ */
+
+import { EventEmitter } from 'events';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const CONNECTION_STATES = Object.freeze({
+  CONNECTING: 'CONNECTING',
+  READY: 'READY',
+  RECONNECTING: 'RECONNECTING',
+  CLOSED: 'CLOSED',
+});
+
+const DEFAULT_PING_INTERVAL = 30000;
+const DEFAULT_PING_TIMEOUT = 10000;
+const DEFAULT_CONNECT_TIMEOUT = 15000;
+const DEFAULT_IDLE_TIMEOUT = 60000;
+const DEFAULT_RECONNECT_DELAY_BASE = 1000;
+const DEFAULT_RECONNECT_DELAY_MAX = 30000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 10;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DerivConnectionOptions {
+  endpoint?: string | null;
+  appId?: string | null;
+  lang?: string;
+  pingInterval?: number;
+  pingTimeout?: number;
+  connectTimeout?: number;
+  idleTimeout?: number;
+  reconnectDelayBase?: number;
+  reconnectDelayMax?: number;
+  maxReconnectAttempts?: number;
+  /** Optional factory, mainly for tests / Node environments that need a custom socket. */
+  apiFactory?: (options: { endpoint: string; app_id: string; lang: string }) => any | Promise<any>;
+}
+
+export interface DerivUserAccount {
+  token: string;
+  account: string;
+  currency: string;
+  balance: number;
+}
+
+export interface DerivSubscription {
+  unsubscribe: () => void;
+}
+
+export interface DerivConnectionHandle {
+  readonly key: string;
+  readonly api: any;
+  readonly basic: any;
+  readonly user: DerivUserAccount | null;
+  readonly state: string;
+  /** Settles once the socket is authorized again (rejects when the pool gives up on it) */
+  readonly ready: Promise<void>;
+  send: (request: Record<string, any>) => Promise<any>;
+  subscribe: (
+    request: Record<string, any>,
+    onMessage: (message: any) => void,
+    onError?: (error: any) => void,
+  ) => DerivSubscription;
+  release: () => void;
+}
+
+interface SubscriptionEntry {
+  id: number;
+  request: Record<string, any>;
+  onMessage: (message: any) => void;
+  onError?: (error: any) => void;
+  rxSubscription: any;
+}
+
+interface ConnectionRecord {
+  key: string;
+  token: string;
+  state: string;
+  api: any;
+  user: DerivUserAccount | null;
+  refCount: number;
+  ready: Promise<void>;
+  pingTimer: ReturnType<typeof setInterval> | null;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+  closeSubscription: any;
+  subscriptions: Map<number, SubscriptionEntry>;
+  reconnectAttempts: number;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/** The options with their defaults applied (everything but the apiFactory) */
+function resolveConnectionSettings(options: DerivConnectionOptions) {
+  return {
+    endpoint: options.endpoint || null,
+    appId: options.appId || null,
+    lang: options.lang || 'EN',
+    pingInterval: options.pingInterval || DEFAULT_PING_INTERVAL,
+    pingTimeout: options.pingTimeout || DEFAULT_PING_TIMEOUT,
+    connectTimeout: options.connectTimeout || DEFAULT_CONNECT_TIMEOUT,
+    idleTimeout: options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+    reconnectDelayBase: options.reconnectDelayBase || DEFAULT_RECONNECT_DELAY_BASE,
+    reconnectDelayMax: options.reconnectDelayMax || DEFAULT_RECONNECT_DELAY_MAX,
+    maxReconnectAttempts: options.maxReconnectAttempts || DEFAULT_MAX_RECONNECT_ATTEMPTS,
+  };
+}
+
+function connectionError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+function maskToken(token: string): string {
+  return token.length > 6 ? `${token.slice(0, 3)}…${token.slice(-3)}` : '***';
+}
+
+async function defaultApiFactory(options: { endpoint: string; app_id: string; lang: string }) {
+  let DerivAPI;
+  try {
+    DerivAPI = (await import('@deriv/deriv-api/dist/DerivAPI')).default;
+  } catch {
+    throw new Error('Deriv API package not available. Install @deriv/deriv-api');
+  }
+  return new DerivAPI(options);
+}
+
+// ─── DerivConnectionManager ──────────────────────────────────────────────────
+
+class DerivConnectionManager extends EventEmitter {
+  endpoint: string | null;
+  appId: string | null;
+  lang: string;
+  pingInterval: number;
+  pingTimeout: number;
+  connectTimeout: number;
+  idleTimeout: number;
+  reconnectDelayBase: number;
+  reconnectDelayMax: number;
+  maxReconnectAttempts: number;
+
+  private _apiFactory: NonNullable<DerivConnectionOptions['apiFactory']>;
+  private _connections: Map<string, ConnectionRecord>;
+  private _subscriptionSeq: number;
+
+  /**
+   * @param {Object} options
+   * @param {string} options.endpoint              - Deriv WebSocket endpoint domain
+   * @param {string} options.appId                 - Deriv app_id
+   * @param {string} [options.lang]                - Deriv language code
+   * @param {number} [options.pingInterval]        - Keepalive ping interval (ms)
+   * @param {number} [options.pingTimeout]         - Ping response timeout before the socket is considered dead (ms)
+   * @param {number} [options.connectTimeout]      - Timeout for connect + authorize (ms)
+   * @param {number} [options.idleTimeout]         - How long an unreferenced socket stays open (ms)
+   * @param {number} [options.reconnectDelayBase]  - Base delay for reconnect backoff (ms)
+   * @param {number} [options.reconnectDelayMax]   - Max delay for reconnect backoff (ms)
+   * @param {number} [options.maxReconnectAttempts] - Give up after this many consecutive failures
+   * @param {Function} [options.apiFactory]        - Custom DerivAPI factory
+   */
+  constructor(options: DerivConnectionOptions = {}) {
+    super();
+    const settings = resolveConnectionSettings(options);
+    this.endpoint = settings.endpoint;
+    this.appId = settings.appId;
+    this.lang = settings.lang;
+
+    this.pingInterval = settings.pingInterval;
+    this.pingTimeout = settings.pingTimeout;
+    this.connectTimeout = settings.connectTimeout;
+    this.idleTimeout = settings.idleTimeout;
+    this.reconnectDelayBase = settings.reconnectDelayBase;
+    this.reconnectDelayMax = settings.reconnectDelayMax;
+    this.maxReconnectAttempts = settings.maxReconnectAttempts;
+
+    this._apiFactory = options.apiFactory || defaultApiFactory;
+    this._connections = new Map();
+    this._subscriptionSeq = 0;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // PUBLIC API
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get (or open) the shared, authorized connection for an account token.
+   * Every call must be balanced by `handle.release()`.
+   * @param {string} token - Deriv account token
+   * @returns {Promise<DerivConnectionHandle>}
+   */
+  async acquire(token: string): Promise<DerivConnectionHandle> {
+    if (!this.endpoint) throw new Error('DERIV_APP_ENDPOINT_DOMAIN not configured');
+    if (!this.appId) throw new Error('DERIV_APP_ENDPOINT_APP_ID not configured');
+    if (!token) throw new Error('User account token is required');
+
+    let record = this._connections.get(token);
+    if (!record || record.state === CONNECTION_STATES.CLOSED) {
+      record = this._createRecord(token);
+      this._connections.set(token, record);
+      record.ready = this._open(record);
+    }
+
+    record.refCount++;
+    if (record.idleTimer) {
+      clearTimeout(record.idleTimer);
+      record.idleTimer = null;
+    }
+
+    try {
+      await record.ready;
+    } catch (error) {
+      record.refCount = Math.max(0, record.refCount - 1);
+      // A socket that never authorized is not worth keeping around.
+      if (record.refCount === 0 && record.state !== CONNECTION_STATES.READY) this._close(record);
+      throw error;
+    }
+
+    return this._createHandle(record);
+  }
+
+  /**
+   * Snapshot of every pooled connection — useful for diagnostics UIs.
+   * @returns {Array<{ account: string, state: string, refCount: number, subscriptions: number }>}
+   */
+  getConnections() {
+    return [...this._connections.values()].map((record) => ({
+      account: record.user?.account || maskToken(record.token),
+      state: record.state,
+      refCount: record.refCount,
+      subscriptions: record.subscriptions.size,
+    }));
+  }
+
+  /**
+   * Authorize a pooled socket again after Deriv rejected its token mid-session
+   * (AuthorizationRequired / InvalidToken). The socket is reopened and its subscriptions
+   * replayed, so handles stay valid. When authorization fails the connection is closed.
+   * @param {string} token - Deriv account token
+   */
+  async reauthorize(token: string): Promise<void> {
+    const record = this._connections.get(token);
+    if (!record || record.state === CONNECTION_STATES.CLOSED) return;
+    if (record.state !== CONNECTION_STATES.READY) {
+      await record.ready;
+      return;
+    }
+
+    this._teardownSocket(record);
+    record.state = CONNECTION_STATES.CONNECTING;
+    record.ready = this._open(record);
+
+    try {
+      await record.ready;
+    } catch (error) {
+      this._close(record, error as Error);
+      throw error;
+    }
+    this.emit('connection_reauthorized', { key: record.key, account: record.user?.account });
+  }
+
+  /**
+   * Close every pooled socket regardless of reference counts.
+   */
+  closeAll() {
+    for (const record of [...this._connections.values()]) {
+      this._close(record);
+    }
+  }
+
+  destroy() {
+    this.closeAll();
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CONNECTION LIFECYCLE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  private _createRecord(token: string): ConnectionRecord {
+    return {
+      key: `${this.endpoint}|${this.appId}|${maskToken(token)}`,
+      token,
+      state: CONNECTION_STATES.CONNECTING,
+      api: null,
+      user: null,
+      refCount: 0,
+      ready: Promise.resolve(),
+      pingTimer: null,
+      idleTimer: null,
+      closeSubscription: null,
+      subscriptions: new Map(),
+      reconnectAttempts: 0,
+    };
+  }
+
+  /**
+   * Open a socket, authorize, start keepalive and replay subscriptions.
+   * @private
+   */
+  private async _open(record: ConnectionRecord): Promise<void> {
+    const api = await this._apiFactory({
+      endpoint: this.endpoint as string,
+      app_id: this.appId as string,
+      lang: this.lang,
+    });
+
+    try {
+      const account = await withTimeout<any>(
+        api.account(record.token),
+        this.connectTimeout,
+        'Deriv authorization timed out',
+      );
+
+      // The record may have been closed while we were authorizing.
+      if (record.state === CONNECTION_STATES.CLOSED) {
+        this._disposeApi(api);
+        return;
+      }
+
+      record.api = api;
+      record.user = {
+        token: record.token,
+        account: account?.loginid || '',
+        currency: account?.currency || '',
+        balance: account?.balance?.value ?? account?.balance ?? 0,
+      };
+      record.state = CONNECTION_STATES.READY;
+      record.reconnectAttempts = 0;
+    } catch (error) {
+      this._disposeApi(api);
+      throw error;
+    }
+
+    this._watchSocket(record);
+    this._startKeepalive(record);
+    this._replaySubscriptions(record);
+
+    this.emit('connection_opened', { key: record.key, account: record.user?.account });
+  }
+
+  /** @private */
+  private _watchSocket(record: ConnectionRecord) {
+    const basic = record.api?.basic;
+    if (!basic?.onClose) return;
+
+    record.closeSubscription = basic.onClose().subscribe(() => {
+      this._handleConnectionLost(record, 'Socket closed');
+    });
+  }
+
+  /** @private */
+  private _startKeepalive(record: ConnectionRecord) {
+    this._stopKeepalive(record);
+    record.pingTimer = setInterval(async () => {
+      if (record.state !== CONNECTION_STATES.READY) return;
+      try {
+        await withTimeout(record.api.basic.ping(), this.pingTimeout, 'Ping timed out');
+      } catch (error: any) {
+        this._handleConnectionLost(record, error?.message || 'Ping failed');
+      }
+    }, this.pingInterval);
+  }
+
+  /** @private */
+  private _stopKeepalive(record: ConnectionRecord) {
+    if (record.pingTimer) {
+      clearInterval(record.pingTimer);
+      record.pingTimer = null;
+    }
+  }
+
+  /** @private */
+  private _handleConnectionLost(record: ConnectionRecord, reason: string) {
+    if (record.state !== CONNECTION_STATES.READY) return;
+
+    this._teardownSocket(record);
+    this.emit('connection_lost', { key: record.key, account: record.user?.account, reason });
+
+    // Nobody is using it any more — let it go instead of reconnecting.
+    if (record.refCount === 0) {
+      this._close(record);
+      return;
+    }
+
+    record.state = CONNECTION_STATES.RECONNECTING;
+    record.ready = this._reconnect(record);
+    // Errors are surfaced through `connection_failed` and to the next acquire/send.
+    record.ready.catch(() => {});
+  }
+
+  /**
+   * Reconnect with exponential backoff + jitter until success or max attempts.
+   * @private
+   */
+  private async _reconnect(record: ConnectionRecord): Promise<void> {
+    while (record.state === CONNECTION_STATES.RECONNECTING) {
+      record.reconnectAttempts++;
+      const attempt = record.reconnectAttempts;
+
+      if (attempt > this.maxReconnectAttempts) {
+        const error = new Error(`Deriv connection lost after ${this.maxReconnectAttempts} reconnect attempts`);
+        this.emit('connection_failed', { key: record.key, account: record.user?.account, error: error.message });
+        this._close(record, error);
+        throw error;
+      }
+
+      const delay = this._calculateReconnectDelay(attempt);
+      this.emit('connection_reconnecting', { key: record.key, account: record.user?.account, attempt, delay });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      if (record.state !== CONNECTION_STATES.RECONNECTING) return;
+
+      try {
+        await this._open(record);
+        this.emit('connection_restored', {
+          key: record.key,
+          account: record.user?.account,
+          attempts: attempt,
+          subscriptions: record.subscriptions.size,
+        });
+        return;
+      } catch (error: any) {
+        this.emit('connection_reconnect_error', {
+          key: record.key,
+          attempt,
+          error: error?.message || 'Unknown error',
+        });
+      }
+    }
+  }
+
+  /** @private */
+  private _calculateReconnectDelay(attempt: number) {
+    const jitter = Math.random() * 500;
+    return Math.min(this.reconnectDelayBase * Math.pow(2, attempt - 1) + jitter, this.reconnectDelayMax);
+  }
+
+  /** @private */
+  private _teardownSocket(record: ConnectionRecord) {
+    this._stopKeepalive(record);
+    if (record.closeSubscription) {
+      record.closeSubscription.unsubscribe();
+      record.closeSubscription = null;
+    }
+    for (const entry of record.subscriptions.values()) {
+      entry.rxSubscription?.unsubscribe?.();
+      entry.rxSubscription = null;
+    }
+    this._disposeApi(record.api);
+    record.api = null;
+  }
+
+  /** @private */
+  private _disposeApi(api: any) {
+    try {
+      api?.basic?.disconnect?.();
+    } catch {
+      // Socket already gone
+    }
+  }
+
+  /**
+   * Close the socket for good. Open subscriptions are rejected with `error`, so nobody
+   * waits on a stream that will never deliver again.
+   * @private
+   */
+  private _close(record: ConnectionRecord, error: Error = connectionError('Deriv connection closed', 'ConnectionClosed')) {
+    if (record.idleTimer) {
+      clearTimeout(record.idleTimer);
+      record.idleTimer = null;
+    }
+    const wasOpen = record.state !== CONNECTION_STATES.CLOSED;
+    record.state = CONNECTION_STATES.CLOSED;
+    this._teardownSocket(record);
+    this._failSubscriptions(record, error);
+
+    if (this._connections.get(record.token) === record) {
+      this._connections.delete(record.token);
+    }
+    if (wasOpen) {
+      this.emit('connection_closed', { key: record.key, account: record.user?.account });
+    }
+  }
+
+  /** @private */
+  private _releaseRecord(record: ConnectionRecord) {
+    record.refCount = Math.max(0, record.refCount - 1);
+    if (record.refCount > 0 || record.state === CONNECTION_STATES.CLOSED) return;
+
+    if (this.idleTimeout <= 0) {
+      this._close(record);
+      return;
+    }
+    record.idleTimer = setTimeout(() => {
+      if (record.refCount === 0) this._close(record);
+    }, this.idleTimeout);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SUBSCRIPTIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  private _attachSubscription(record: ConnectionRecord, entry: SubscriptionEntry) {
+    if (record.state !== CONNECTION_STATES.READY || !record.api) return;
+
+    entry.rxSubscription = record.api.basic.subscribe(entry.request).subscribe(
+      (message: any) => entry.onMessage(message),
+      (error: any) => {
+        // A dead socket is handled by the reconnect path; anything else belongs to the caller.
+        if (record.state === CONNECTION_STATES.READY) entry.onError?.(error);
+      },
+    );
+  }
+
+  /** @private */
+  private _replaySubscriptions(record: ConnectionRecord) {
+    for (const entry of record.subscriptions.values()) {
+      this._attachSubscription(record, entry);
+    }
+  }
+
+  /** @private */
+  private _failSubscriptions(record: ConnectionRecord, error: Error) {
+    const entries = [...record.subscriptions.values()];
+    record.subscriptions.clear();
+    for (const entry of entries) {
+      entry.onError?.(error);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // HANDLES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  private _createHandle(record: ConnectionRecord): DerivConnectionHandle {
+    let released = false;
+    const ownSubscriptions = new Set<number>();
+
+    const handle: DerivConnectionHandle = {
+      get key() { return record.key; },
+      get api() { return record.api; },
+      get basic() { return record.api?.basic; },
+      get user() { return record.user ? { ...record.user } : null; },
+      get state() { return record.state; },
+      get ready() { return record.ready; },
+
+      send: async (request) => {
+        await record.ready;
+        if (!record.api) throw new Error('Deriv connection is closed');
+        return record.api.basic.send(request);
+      },
+
+      subscribe: (request, onMessage, onError) => {
+        const entry: SubscriptionEntry = {
+          id: ++this._subscriptionSeq,
+          request,
+          onMessage,
+          onError,
+          rxSubscription: null,
+        };
+        record.subscriptions.set(entry.id, entry);
+        ownSubscriptions.add(entry.id);
+        this._attachSubscription(record, entry);
+
+        return {
+          unsubscribe: () => {
+            entry.rxSubscription?.unsubscribe?.();
+            record.subscriptions.delete(entry.id);
+            ownSubscriptions.delete(entry.id);
+          },
+        };
+      },
+
+      release: () => {
+        if (released) return;
+        released = true;
+        // Rejected, not dropped: a caller still waiting on one of them must not hang
+        const error = connectionError('Deriv connection released', 'ConnectionReleased');
+        for (const id of ownSubscriptions) {
+          const entry = record.subscriptions.get(id);
+          if (!entry) continue;
+          entry.rxSubscription?.unsubscribe?.();
+          record.subscriptions.delete(id);
+          entry.onError?.(error);
+        }
+        ownSubscriptions.clear();
+        this._releaseRecord(record);
+      },
+    };
+
+    return handle;
+  }
+}
+
+// ─── Shared Pool ─────────────────────────────────────────────────────────────
+
+const sharedManagers = new Map<string, DerivConnectionManager>();
+
+/**
+ * Get the process-wide connection manager for a set of options so every executor
+ * talking to the same Deriv app with the same settings shares its sockets. Every
+ * option is part of the key (defaults applied), so a caller never silently gets
+ * another caller's ping, timeout or backoff settings.
+ * @param {DerivConnectionOptions} options
+ * @returns {DerivConnectionManager}
+ * @throws {Error} With an `apiFactory`, which cannot be compared: create a DerivConnectionManager
+ */
+function getSharedConnectionManager(options: DerivConnectionOptions = {}) {
+  if (options.apiFactory) {
+    throw new Error('A custom apiFactory needs its own DerivConnectionManager, not the shared pool');
+  }
+  const key = JSON.stringify(resolveConnectionSettings(options));
+  let manager = sharedManagers.get(key);
+  if (!manager) {
+    manager = new DerivConnectionManager(options);
+    sharedManagers.set(key, manager);
+  }
+  return manager;
+}
+
+export { DerivConnectionManager, CONNECTION_STATES, getSharedConnectionManager };
@@ -0,0 +1,204 @@
+/**
+ * @file DerivErrors.ts
+ * @description Typed errors for failed purchases: Deriv API error codes mapped to an error
+ *              type and the reaction the engine applies to it.
+ *
+ * Deriv rejects with the response (`{ error: { code, message, details } }`), the executors
+ * throw Errors with a `code`, and HTTP clients attach response headers. `classifyDerivError`
+ * turns any of these into a `DerivError`:
+ *
+ *   type                   reaction          e.g.
+ *   insufficient_balance   stop              InsufficientBalance
+ *   account_restricted     stop              DisabledClient, SelfExclusion, PermissionDenied
+ *   market_closed          wait_for_market   MarketIsClosed
+ *   rate_limit             back_off          RateLimit (Retry-After / X-RateLimit-Reset honoured)
+ *   authorization          reauthorize       AuthorizationRequired, InvalidToken
+ *   invalid_proposal       reprice           InvalidContractProposal, PriceMoved, PriceGuardRejected
+ *   buy_validation         reprice           ContractBuyValidationError
+ *   connection / unknown   retry             timeouts, dropped sockets, anything unrecognised
+ *
+ * The executor only retries `retry` errors itself; everything else is thrown at once so
+ * the manager can react (see TradingBotManager._reactToTradeError). An error raised after
+ * the buy (`purchased`) is never retryable: buying again would double the position, so
+ * the executor settles the bought contract by its `contractId` instead.
+ *
+ * @usage
+ *   const error = classifyDerivError(err);
+ *   if (error.reaction === 'back_off') setTimeout(next, error.retryAfterMs ?? 5000);
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type DerivErrorType =
+  | 'insufficient_balance'
+  | 'account_restricted'
+  | 'market_closed'
+  | 'rate_limit'
+  | 'authorization'
+  | 'invalid_proposal'
+  | 'buy_validation'
+  | 'connection'
+  | 'unknown';
+
+export type DerivErrorReaction = 'stop' | 'wait_for_market' | 'back_off' | 'reauthorize' | 'reprice' | 'retry';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Deriv API error codes (and the executors' own codes) by error type */
+const DERIV_ERROR_CODES: Readonly<Record<string, DerivErrorType>> = Object.freeze({
+  InsufficientBalance: 'insufficient_balance',
+  INSUFFICIENT_BALANCE: 'insufficient_balance',
+  DisabledClient: 'account_restricted',
+  SelfExclusion: 'account_restricted',
+  PermissionDenied: 'account_restricted',
+  ClientUnwelcome: 'account_restricted',
+  MarketIsClosed: 'market_closed',
+  RateLimit: 'rate_limit',
+  AuthorizationRequired: 'authorization',
+  InvalidToken: 'authorization',
+  InvalidContractProposal: 'invalid_proposal',
+  ContractCreationFailure: 'invalid_proposal',
+  PriceMoved: 'invalid_proposal',
+  InvalidPrice: 'invalid_proposal',
+  PriceGuardRejected: 'invalid_proposal',
+  VALIDATION_ERROR: 'invalid_proposal',
+  UNSUPPORTED_CONTRACT: 'invalid_proposal',
+  ContractBuyValidationError: 'buy_validation',
+  InputValidationFailed: 'buy_validation',
+  SETTLEMENT_TIMEOUT: 'connection',
+});
+
+const DERIV_ERROR_REACTIONS: Readonly<Record<DerivErrorType, DerivErrorReaction>> = Object.freeze({
+  insufficient_balance: 'stop',
+  account_restricted: 'stop',
+  market_closed: 'wait_for_market',
+  rate_limit: 'back_off',
+  authorization: 'reauthorize',
+  invalid_proposal: 'reprice',
+  buy_validation: 'reprice',
+  connection: 'retry',
+  unknown: 'retry',
+});
+
+/** Messages of errors that never reached Deriv (timeouts, dropped sockets) */
+const CONNECTION_MESSAGE = /timed out|timeout|connection|socket|network/i;
+
+// ─── DerivError ──────────────────────────────────────────────────────────────
+
+class DerivError extends Error {
+  /** Deriv error code, or the executor's own code ('VALIDATION_ERROR', ...) */
+  code: string;
+  type: DerivErrorType;
+  reaction: DerivErrorReaction;
+  /** Wait requested by the server before the next request (rate limits), or null */
+  retryAfterMs: number | null;
+  details: Record<string, any> | null;
+  /** Whether the failure came after a contract was bought */
+  purchased: boolean;
+  /** Contract bought before the failure (settlement lost track of it), or null */
+  contractId: string | null;
+  /** The original rejection */
+  cause: unknown;
+
+  constructor(
+    message: string,
+    options: {
+      code?: string;
+      type: DerivErrorType;
+      retryAfterMs?: number | null;
+      details?: Record<string, any> | null;
+      purchased?: boolean;
+      contractId?: string | null;
+      cause?: unknown;
+    },
+  ) {
+    super(message);
+    this.name = 'DerivError';
+    this.code = options.code || 'UNKNOWN';
+    this.type = options.type;
+    this.reaction = DERIV_ERROR_REACTIONS[options.type];
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.details = options.details ?? null;
+    this.contractId = options.contractId ?? null;
+    this.purchased = options.purchased ?? this.contractId !== null;
+    this.cause = options.cause;
+  }
+
+  /** Whether the executor may retry the purchase as it is (never once a contract was bought) */
+  get retryable() {
+    return this.reaction === 'retry' && !this.purchased;
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function readHeader(headers: any, name: string): string | null {
+  if (!headers) return null;
+  if (typeof headers.get === 'function') return headers.get(name);
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? String(headers[key]) : null;
+}
+
+/**
+ * Wait requested by rate-limit headers (`Retry-After` in seconds or as an HTTP date,
+ * `X-RateLimit-Reset` as epoch seconds or seconds from now), or null.
+ * @param {*} err
+ * @param {number} [now=Date.now()]
+ * @returns {number|null} ms
+ */
+function getRetryAfterMs(err: any, now: number = Date.now()): number | null {
+  const headers = err?.headers || err?.response?.headers || null;
+
+  const retryAfter = readHeader(headers, 'retry-after') ?? err?.retryAfter ?? null;
+  if (retryAfter !== null && retryAfter !== undefined && retryAfter !== '') {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(String(retryAfter));
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  const reset = Number(readHeader(headers, 'x-ratelimit-reset'));
+  if (Number.isFinite(reset) && reset > 0) {
+    // Epoch seconds when large, otherwise seconds until the window resets
+    return reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000;
+  }
+  return null;
+}
+
+// ─── Classification ──────────────────────────────────────────────────────────
+
+/**
+ * Turn a rejected purchase into a DerivError. Executor wrappers (`TRADE_EXECUTION_FAILED`)
+ * are classified by the error they wrap.
+ * @param {*} err - Deriv response, Error with `code`, or DerivError
+ * @returns {DerivError}
+ */
+function classifyDerivError(err: any): DerivError {
+  if (err instanceof DerivError) return err;
+  if (err?.code === 'TRADE_EXECUTION_FAILED' && err.lastError) return classifyDerivError(err.lastError);
+
+  const code: string = err?.error?.code || err?.code || 'UNKNOWN';
+  const message: string = err?.error?.message || err?.message || 'Unknown error';
+
+  let type: DerivErrorType = DERIV_ERROR_CODES[code] || 'unknown';
+  if (type === 'unknown' && (err?.status === 429 || err?.response?.status === 429)) type = 'rate_limit';
+  if (type === 'unknown' && !err?.error && CONNECTION_MESSAGE.test(message)) type = 'connection';
+
+  return new DerivError(message, {
+    code,
+    type,
+    retryAfterMs: type === 'rate_limit' ? getRetryAfterMs(err) : null,
+    details: err?.error?.details || null,
+    purchased: Boolean(err?.purchased),
+    contractId: err?.contractId ? String(err.contractId) : null,
+    cause: err,
+  });
+}
+
+export {
+  DERIV_ERROR_CODES,
+  DERIV_ERROR_REACTIONS,
+  DerivError,
+  classifyDerivError,
+  getRetryAfterMs,
+};
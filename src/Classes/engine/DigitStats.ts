@@ -0,0 +1,483 @@
+/**
+ * @file DigitStats.ts
+ * @description Rolling last-digit statistics per symbol, and the entry filter that uses them
+ *              to pick the prediction of digit contracts (DIGITDIFF/MATCH/OVER/UNDER/EVEN/ODD).
+ *
+ * `DigitStatsTracker` keeps the last `sampleSize` digits of one symbol: frequency per digit,
+ * the current same-digit streak and the current even/odd run.
+ *
+ * `DigitAnalysisService` shares one tracker per symbol between any number of bots and UI
+ * widgets. Symbols are fed from a TickSource (`watch` / `unwatch`, reference counted) or by
+ * hand (`addTick`, used by the Backtester). It emits `digit_stats` after every tick.
+ *
+ * `evaluateDigitEntry` applies a bot's `digit_analysis_section` to a contract:
+ *   - prediction_mode        'static' (contract prediction), 'random', 'least_frequent',
+ *                            'most_frequent' or 'last_digit'
+ *   - parity_run_length      DIGITEVEN/ODD only trade after N ticks in a row of one parity —
+ *                            the opposite parity ('reversal', default) or the same ('continuation')
+ *   - min_sample_win_rate    skip unless the contract would have won at least this % of the sample
+ *
+ * @usage
+ *   const digits = new DigitAnalysisService({ tickSource: createDerivTickSource(connection) });
+ *   digits.watch('R_100');
+ *   const entry = evaluateDigitEntry(digits.getStats('R_100'), params, settings);
+ *   if (entry.action === 'allow' && entry.barrier !== undefined) params.barrier = entry.barrier;
+ *   digits.unwatch('R_100');
+ */
+
+import { EventEmitter } from 'events';
+import { getLastDigit } from './ContractSimulator';
+import type { StreamTick, TickSource, TickSubscription } from './TickSource';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_DIGIT_SAMPLE_SIZE = 100;
+const RECENT_DIGITS = 20;
+
+const PREDICTION_MODES = Object.freeze({
+  STATIC: 'static',
+  RANDOM: 'random',
+  LEAST_FREQUENT: 'least_frequent',
+  MOST_FREQUENT: 'most_frequent',
+  LAST_DIGIT: 'last_digit',
+});
+
+// Predictions Deriv accepts per contract type
+const DIGIT_BARRIER_RANGES: Readonly<Record<string, readonly [number, number]>> = Object.freeze({
+  DIGITDIFF: [0, 9],
+  DIGITMATCH: [0, 9],
+  DIGITOVER: [0, 8],
+  DIGITUNDER: [1, 9],
+});
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type Parity = 'even' | 'odd';
+
+export interface DigitStats {
+  symbol: string | null;
+  /** Digits currently in the window */
+  sampleSize: number;
+  /** Occurrences of each digit 0-9 in the window */
+  counts: number[];
+  /** Share of each digit 0-9 in the window, in % */
+  frequencies: number[];
+  lastDigit: number;
+  /** Newest last */
+  recentDigits: number[];
+  mostFrequent: number;
+  leastFrequent: number;
+  evenPercentage: number;
+  oddPercentage: number;
+  /** The last digit repeated `length` times in a row */
+  streak: { digit: number; length: number };
+  /** `length` ticks in a row ended on an `parity` digit */
+  parityRun: { parity: Parity; length: number };
+  /** Epoch seconds of the latest tick */
+  epoch: number | null;
+}
+
+export interface DigitAnalysisSettings {
+  digit_filter?: boolean;
+  digit_sample_size?: number | null;
+  prediction_mode?: string | null;
+  parity_run_length?: number | null;
+  parity_entry?: 'reversal' | 'continuation' | null;
+  min_sample_win_rate?: number | null;
+  [key: string]: unknown;
+}
+
+export interface DigitEntryDecision {
+  action: 'allow' | 'skip' | 'wait';
+  reason: string | null;
+  /** Prediction to trade with, when the mode chose one */
+  barrier?: string;
+  /** % of the sample the contract would have won */
+  sampleWinRate: number | null;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isDigitContract(contractType: string): boolean {
+  return typeof contractType === 'string' && contractType.startsWith('DIGIT');
+}
+
+/** Pick the digit in [min, max] with the lowest (or highest) count; ties go to the lowest digit. */
+function pickByCount(counts: number[], min: number, max: number, highest: boolean): number {
+  let best = min;
+  for (let digit = min + 1; digit <= max; digit++) {
+    if (highest ? counts[digit] > counts[best] : counts[digit] < counts[best]) best = digit;
+  }
+  return best;
+}
+
+/** % of the window in which the contract would have won. */
+function getSampleWinRate(stats: DigitStats, contractType: string, barrier: number | null): number | null {
+  if (!stats.sampleSize) return null;
+  const share = (predicate: (digit: number) => boolean) => {
+    let wins = 0;
+    for (let digit = 0; digit <= 9; digit++) if (predicate(digit)) wins += stats.counts[digit];
+    return round((wins / stats.sampleSize) * 100);
+  };
+
+  switch (contractType) {
+    case 'DIGITEVEN': return stats.evenPercentage;
+    case 'DIGITODD': return stats.oddPercentage;
+    case 'DIGITDIFF': return barrier === null ? null : share((d) => d !== barrier);
+    case 'DIGITMATCH': return barrier === null ? null : share((d) => d === barrier);
+    case 'DIGITOVER': return barrier === null ? null : share((d) => d > barrier);
+    case 'DIGITUNDER': return barrier === null ? null : share((d) => d < barrier);
+    default: return null;
+  }
+}
+
+// ─── Tracker ─────────────────────────────────────────────────────────────────
+
+class DigitStatsTracker {
+  readonly symbol: string | null;
+  sampleSize: number;
+  pipSize: number | undefined;
+
+  private _digits: number[];
+  private _counts: number[];
+  private _streak: { digit: number; length: number };
+  private _parityRun: { parity: Parity; length: number };
+  private _epoch: number | null;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.symbol]
+   * @param {number} [options.sampleSize=100] - Digits kept in the rolling window
+   * @param {number} [options.pipSize]        - Quote decimals (taken from the ticks when they carry it)
+   */
+  constructor(options: { symbol?: string; sampleSize?: number; pipSize?: number } = {}) {
+    this.symbol = options.symbol ?? null;
+    this.sampleSize = Math.max(1, Math.floor(options.sampleSize || DEFAULT_DIGIT_SAMPLE_SIZE));
+    this.pipSize = options.pipSize;
+
+    this._digits = [];
+    this._counts = new Array(10).fill(0);
+    this._streak = { digit: -1, length: 0 };
+    this._parityRun = { parity: 'even', length: 0 };
+    this._epoch = null;
+  }
+
+  /**
+   * @param {StreamTick} tick
+   */
+  addTick(tick: { epoch?: number; quote: number; pipSize?: number }) {
+    if (tick.pipSize !== undefined) this.pipSize = tick.pipSize;
+    const quote = Number(tick.quote);
+    if (!Number.isFinite(quote)) return;
+    this.addDigit(getLastDigit(quote, this.pipSize), tick.epoch);
+  }
+
+  /**
+   * @param {number} digit - 0-9
+   * @param {number} [epoch]
+   */
+  addDigit(digit: number, epoch?: number) {
+    if (!Number.isInteger(digit) || digit < 0 || digit > 9) return;
+
+    this._digits.push(digit);
+    this._counts[digit]++;
+    while (this._digits.length > this.sampleSize) {
+      this._counts[this._digits.shift() as number]--;
+    }
+
+    this._streak = this._streak.digit === digit
+      ? { digit, length: this._streak.length + 1 }
+      : { digit, length: 1 };
+
+    const parity: Parity = digit % 2 === 0 ? 'even' : 'odd';
+    this._parityRun = this._parityRun.parity === parity && this._parityRun.length > 0
+      ? { parity, length: this._parityRun.length + 1 }
+      : { parity, length: 1 };
+
+    if (epoch !== undefined) this._epoch = epoch;
+  }
+
+  /**
+   * Shrink or grow the window. Shrinking drops the oldest digits.
+   * @param {number} sampleSize
+   */
+  setSampleSize(sampleSize: number) {
+    this.sampleSize = Math.max(1, Math.floor(sampleSize || DEFAULT_DIGIT_SAMPLE_SIZE));
+    while (this._digits.length > this.sampleSize) {
+      this._counts[this._digits.shift() as number]--;
+    }
+  }
+
+  reset() {
+    this._digits = [];
+    this._counts = new Array(10).fill(0);
+    this._streak = { digit: -1, length: 0 };
+    this._parityRun = { parity: 'even', length: 0 };
+    this._epoch = null;
+  }
+
+  /**
+   * @returns {DigitStats|null} null before the first tick
+   */
+  getStats(): DigitStats | null {
+    const total = this._digits.length;
+    if (!total) return null;
+
+    const counts = [...this._counts];
+    let even = 0;
+    for (let digit = 0; digit <= 9; digit += 2) even += counts[digit];
+
+    return {
+      symbol: this.symbol,
+      sampleSize: total,
+      counts,
+      frequencies: counts.map((count) => round((count / total) * 100)),
+      lastDigit: this._digits[total - 1],
+      recentDigits: this._digits.slice(-RECENT_DIGITS),
+      mostFrequent: pickByCount(counts, 0, 9, true),
+      leastFrequent: pickByCount(counts, 0, 9, false),
+      evenPercentage: round((even / total) * 100),
+      oddPercentage: round(((total - even) / total) * 100),
+      streak: { ...this._streak },
+      parityRun: { ...this._parityRun },
+      epoch: this._epoch,
+    };
+  }
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+interface WatchedSymbol {
+  refCount: number;
+  subscription: TickSubscription | null;
+}
+
+class DigitAnalysisService extends EventEmitter {
+  sampleSize: number;
+
+  private _tickSource: TickSource | null;
+  private _trackers: Map<string, DigitStatsTracker>;
+  private _watched: Map<string, WatchedSymbol>;
+
+  /**
+   * @param {Object} [options]
+   * @param {TickSource} [options.tickSource] - Needed for watch(); addTick() works without one
+   * @param {number} [options.sampleSize=100] - Window size for every symbol
+   */
+  constructor(options: { tickSource?: TickSource | null; sampleSize?: number } = {}) {
+    super();
+    this.sampleSize = options.sampleSize || DEFAULT_DIGIT_SAMPLE_SIZE;
+    this._tickSource = options.tickSource || null;
+    this._trackers = new Map();
+    this._watched = new Map();
+  }
+
+  /**
+   * Subscribe to a symbol's ticks. Calls are reference counted: each must be
+   * balanced by `unwatch(symbol)`.
+   * @param {string} symbol
+   */
+  watch(symbol: string) {
+    const watched = this._watched.get(symbol);
+    if (watched) {
+      watched.refCount++;
+      return;
+    }
+    if (!this._tickSource) throw new Error('DigitAnalysisService has no tick source to watch with');
+
+    const entry: WatchedSymbol = { refCount: 1, subscription: null };
+    this._watched.set(symbol, entry);
+    entry.subscription = this._tickSource.subscribe(
+      symbol,
+      (tick: StreamTick) => this.addTick(symbol, tick),
+      (error) => this.emit('digit_feed_error', { symbol, error: error.message }),
+    );
+  }
+
+  /**
+   * @param {string} symbol
+   */
+  unwatch(symbol: string) {
+    const watched = this._watched.get(symbol);
+    if (!watched) return;
+    watched.refCount--;
+    if (watched.refCount > 0) return;
+    watched.subscription?.unsubscribe();
+    this._watched.delete(symbol);
+  }
+
+  /**
+   * Feed one tick by hand (Backtester, `ticks_history` warm-up).
+   * @param {string} symbol
+   * @param {StreamTick} tick
+   */
+  addTick(symbol: string, tick: { epoch?: number; quote: number; pipSize?: number }) {
+    const tracker = this._getTracker(symbol);
+    tracker.addTick(tick);
+    if (this.listenerCount('digit_stats')) this.emit('digit_stats', { symbol, stats: tracker.getStats() });
+  }
+
+  /**
+   * Fill a symbol's window from `ticks_history` so filters don't wait for live ticks.
+   * @param {Object} connection - DerivConnectionHandle (see TradingBotExecutor.getConnection)
+   * @param {string} symbol
+   * @param {number} [count] - Ticks to fetch (default: the window size)
+   */
+  async warmUp(
+    connection: { send: (request: Record<string, any>) => Promise<any> },
+    symbol: string,
+    count: number = this.sampleSize,
+  ) {
+    const response = await connection.send({ ticks_history: symbol, end: 'latest', count, style: 'ticks' });
+    const times: number[] = response?.history?.times || [];
+    const prices: number[] = response?.history?.prices || [];
+    const pipSize = response?.pip_size !== undefined ? Number(response.pip_size) : undefined;
+
+    const tracker = this._getTracker(symbol);
+    tracker.reset();
+    times.forEach((epoch, i) => tracker.addTick({ epoch: Number(epoch), quote: Number(prices[i]), pipSize }));
+    this.emit('digit_stats', { symbol, stats: tracker.getStats() });
+  }
+
+  /**
+   * @param {string} symbol
+   * @returns {DigitStats|null}
+   */
+  getStats(symbol: string): DigitStats | null {
+    return this._trackers.get(symbol)?.getStats() || null;
+  }
+
+  /**
+   * Widen the window (never narrows, so bots with smaller samples still see theirs).
+   * @param {number} sampleSize
+   */
+  ensureSampleSize(sampleSize: number) {
+    if (!(sampleSize > this.sampleSize)) return;
+    this.sampleSize = sampleSize;
+    for (const tracker of this._trackers.values()) tracker.setSampleSize(sampleSize);
+  }
+
+  reset() {
+    for (const tracker of this._trackers.values()) tracker.reset();
+  }
+
+  destroy() {
+    for (const watched of this._watched.values()) watched.subscription?.unsubscribe();
+    this._watched.clear();
+    this._trackers.clear();
+    this.removeAllListeners();
+  }
+
+  /** @private */
+  _getTracker(symbol: string): DigitStatsTracker {
+    let tracker = this._trackers.get(symbol);
+    if (!tracker) {
+      tracker = new DigitStatsTracker({ symbol, sampleSize: this.sampleSize });
+      this._trackers.set(symbol, tracker);
+    }
+    return tracker;
+  }
+}
+
+// ─── Entry filter ────────────────────────────────────────────────────────────
+
+/**
+ * Whether the digit filter is on.
+ * @param {DigitAnalysisSettings} [settings]
+ * @returns {boolean}
+ */
+function isDigitFilterEnabled(settings?: DigitAnalysisSettings | null): boolean {
+  return Boolean(settings?.digit_filter);
+}
+
+/**
+ * Decide whether a digit contract should be bought now, and with which prediction.
+ * Non-digit contracts are always allowed.
+ *
+ * @param {DigitStats|null} stats
+ * @param {Object} params - ContractParams ({ contract_type, barrier? })
+ * @param {DigitAnalysisSettings} settings
+ * @param {Function} [random=Math.random]
+ * @returns {DigitEntryDecision}
+ */
+function evaluateDigitEntry(
+  stats: DigitStats | null,
+  params: { contract_type: string; barrier?: string | number },
+  settings: DigitAnalysisSettings,
+  random: () => number = Math.random,
+): DigitEntryDecision {
+  const contractType = params.contract_type;
+  if (!isDigitContract(contractType)) return { action: 'allow', reason: null, sampleWinRate: null };
+
+  const mode = settings.prediction_mode || PREDICTION_MODES.STATIC;
+  const range = DIGIT_BARRIER_RANGES[contractType];
+  const sampleSize = Number(settings.digit_sample_size) || DEFAULT_DIGIT_SAMPLE_SIZE;
+  const needsStats = (mode !== PREDICTION_MODES.STATIC && mode !== PREDICTION_MODES.RANDOM)
+    || Boolean(settings.parity_run_length)
+    || Number(settings.min_sample_win_rate) > 0;
+
+  if (needsStats && (!stats || stats.sampleSize < sampleSize)) {
+    return { action: 'wait', reason: 'Collecting digit statistics', sampleWinRate: null };
+  }
+
+  // 1. Prediction
+  let barrier: number | null = params.barrier !== undefined && params.barrier !== '' ? Number(params.barrier) : null;
+  let chosen: string | undefined;
+  if (range && mode !== PREDICTION_MODES.STATIC) {
+    const [min, max] = range;
+    let digit: number | null = null;
+    if (mode === PREDICTION_MODES.RANDOM) digit = min + Math.floor(random() * (max - min + 1));
+    else if (stats && mode === PREDICTION_MODES.LEAST_FREQUENT) digit = pickByCount(stats.counts, min, max, false);
+    else if (stats && mode === PREDICTION_MODES.MOST_FREQUENT) digit = pickByCount(stats.counts, min, max, true);
+    else if (stats && mode === PREDICTION_MODES.LAST_DIGIT) digit = Math.min(max, Math.max(min, stats.lastDigit));
+
+    if (digit !== null) {
+      barrier = digit;
+      chosen = String(digit);
+    }
+  }
+
+  // 2. Parity runs (EVEN / ODD)
+  const runLength = Number(settings.parity_run_length) || 0;
+  if (stats && runLength > 0 && (contractType === 'DIGITEVEN' || contractType === 'DIGITODD')) {
+    const traded: Parity = contractType === 'DIGITEVEN' ? 'even' : 'odd';
+    const wanted: Parity = settings.parity_entry === 'continuation'
+      ? traded
+      : traded === 'even' ? 'odd' : 'even';
+    if (stats.parityRun.parity !== wanted || stats.parityRun.length < runLength) {
+      return {
+        action: 'skip',
+        reason: `Waiting for ${runLength} ${wanted} digits in a row (${stats.parityRun.length} ${stats.parityRun.parity})`,
+        barrier: chosen,
+        sampleWinRate: null,
+      };
+    }
+  }
+
+  // 3. Historical edge
+  const sampleWinRate = stats ? getSampleWinRate(stats, contractType, barrier) : null;
+  const minWinRate = Number(settings.min_sample_win_rate) || 0;
+  if (minWinRate > 0 && sampleWinRate !== null && sampleWinRate < minWinRate) {
+    return {
+      action: 'skip',
+      reason: `${contractType} would have won ${sampleWinRate}% of the last ${stats?.sampleSize} ticks (< ${minWinRate}%)`,
+      barrier: chosen,
+      sampleWinRate,
+    };
+  }
+
+  return { action: 'allow', reason: null, barrier: chosen, sampleWinRate };
+}
+
+export {
+  DigitStatsTracker,
+  DigitAnalysisService,
+  DEFAULT_DIGIT_SAMPLE_SIZE,
+  PREDICTION_MODES,
+  isDigitFilterEnabled,
+  evaluateDigitEntry,
+};
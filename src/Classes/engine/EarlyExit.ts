@@ -0,0 +1,130 @@
+/**
+ * @file EarlyExit.ts
+ * @description Early-exit rules (`early_exit_section`): sell an open contract at market before
+ *              it expires, and the statistics bucket for trades closed that way.
+ *
+ * The executor evaluates the rules on every contract update while a contract is open:
+ *   - exit_profit_percentage  sell once the profit (bid − stake) reaches this % of the stake
+ *   - exit_bid_below          sell once the bid price falls below this amount
+ *   - exit_loss_after_ticks   sell once the contract has been open this many ticks and is in loss
+ *
+ * The first rule that matches wins. The settled TradeResult carries `earlyExit`
+ * ({ reason, profit, bidPrice, ticks }), which the manager counts in
+ * `statistics.earlyExitStatistics`.
+ *
+ * @usage
+ *   if (isEarlyExitEnabled(settings)) {
+ *     const exit = evaluateEarlyExit(settings, { stake: 10, bidPrice: 13.2, ticks: 4 });
+ *     if (exit) await executor.sellContract(contractId, token, { reason: 'early_exit' });
+ *   }
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type EarlyExitReason = 'profit_target' | 'bid_below' | 'loss_after_ticks';
+
+/** The bot's advanced_settings.early_exit_section */
+export interface EarlyExitSettings {
+  early_exit?: boolean;
+  exit_profit_percentage?: number | null;
+  exit_bid_below?: number | null;
+  exit_loss_after_ticks?: number | null;
+}
+
+/** State of an open contract at one update */
+export interface ContractProgress {
+  stake: number;
+  bidPrice: number;
+  /** Updates received since purchase */
+  ticks: number;
+}
+
+export interface EarlyExitDecision {
+  reason: EarlyExitReason;
+  profit: number;
+  bidPrice: number;
+  ticks: number;
+}
+
+export interface EarlyExitStatistics {
+  trades: number;
+  wins: number;
+  losses: number;
+  totalProfit: number;
+  /** Trades closed by each rule */
+  byReason: Partial<Record<EarlyExitReason, number>>;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function isEarlyExitEnabled(settings?: EarlyExitSettings | null): boolean {
+  if (!settings?.early_exit) return false;
+  return positiveOrNull(settings.exit_profit_percentage) !== null
+    || positiveOrNull(settings.exit_bid_below) !== null
+    || positiveOrNull(settings.exit_loss_after_ticks) !== null;
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+/**
+ * The rule that closes the contract now, or null to keep it open.
+ * @param {EarlyExitSettings} settings
+ * @param {ContractProgress} progress
+ * @returns {EarlyExitDecision|null}
+ */
+function evaluateEarlyExit(settings: EarlyExitSettings, progress: ContractProgress): EarlyExitDecision | null {
+  if (!isEarlyExitEnabled(settings)) return null;
+  const { stake, bidPrice, ticks } = progress;
+  if (!Number.isFinite(bidPrice) || !(stake > 0)) return null;
+
+  const profit = roundToTwo(bidPrice - stake);
+  const decide = (reason: EarlyExitReason) => ({ reason, profit, bidPrice, ticks });
+
+  const profitPercentage = positiveOrNull(settings.exit_profit_percentage);
+  if (profitPercentage !== null && profit >= (stake * profitPercentage) / 100) return decide('profit_target');
+
+  const bidBelow = positiveOrNull(settings.exit_bid_below);
+  if (bidBelow !== null && bidPrice < bidBelow) return decide('bid_below');
+
+  const lossAfterTicks = positiveOrNull(settings.exit_loss_after_ticks);
+  if (lossAfterTicks !== null && ticks >= lossAfterTicks && profit < 0) return decide('loss_after_ticks');
+
+  return null;
+}
+
+// ─── Statistics ──────────────────────────────────────────────────────────────
+
+/**
+ * Add a settled early-closed trade to the statistics bucket (a new bucket when null).
+ * @param {EarlyExitStatistics|null} stats
+ * @param {Object} result - TradeResult with `earlyExit`
+ * @returns {EarlyExitStatistics}
+ */
+function recordEarlyExit(stats: EarlyExitStatistics | null, result: Record<string, any>): EarlyExitStatistics {
+  const next: EarlyExitStatistics = stats
+    ? { ...stats, byReason: { ...stats.byReason } }
+    : { trades: 0, wins: 0, losses: 0, totalProfit: 0, byReason: {} };
+  const reason: EarlyExitReason = result.earlyExit.reason;
+
+  next.trades++;
+  if (result.isWin) next.wins++;
+  else next.losses++;
+  next.totalProfit = roundToTwo(next.totalProfit + (Number(result.profit) || 0));
+  next.byReason[reason] = (next.byReason[reason] || 0) + 1;
+  return next;
+}
+
+export {
+  isEarlyExitEnabled,
+  evaluateEarlyExit,
+  recordEarlyExit,
+};
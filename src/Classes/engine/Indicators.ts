@@ -0,0 +1,449 @@
+/**
+ * @file Indicators.ts
+ * @description Technical indicators over a tick / candle stream, for the signal gate
+ *              (see SignalGate.ts) behind `market_conditions_section`.
+ *
+ * The series functions (`sma`, `ema`, `rsi`, `macd`, `bollinger`, `atr`, `adx`) are pure and
+ * return the latest value, or null until enough data has arrived. Wilder smoothing is used
+ * for RSI, ATR and ADX, as on most charting platforms.
+ *
+ * `IndicatorPipeline` builds OHLC candles from ticks (`granularity` seconds per candle, 0 for
+ * one candle per tick), keeps a bounded history and produces an `IndicatorSnapshot` of every
+ * indicator on demand. The forming candle is included, so snapshots follow the live price.
+ *
+ * @usage
+ *   const pipeline = new IndicatorPipeline({ granularity: 60 });
+ *   pipeline.attach(createDerivTickSource(connection), 'R_100');
+ *   const snapshot = pipeline.getSnapshot();
+ *   snapshot.rsi;           // 62.4
+ *   snapshot.adx?.adx;      // 31.2
+ *   snapshot.trend;         // { direction: 'up', strength: 31.2 }
+ *   pipeline.detach();
+ */
+
+import type { StreamTick, TickSource, TickSubscription } from './TickSource';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_GRANULARITY = 60;
+const DEFAULT_MAX_CANDLES = 300;
+
+const DEFAULT_INDICATOR_PERIODS: IndicatorPeriods = Object.freeze({
+  sma: 50,
+  ema: 20,
+  rsi: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+  bollinger: 20,
+  bollingerStdDev: 2,
+  atr: 14,
+  adx: 14,
+});
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface Candle {
+  /** Epoch seconds the candle opened */
+  epoch: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  ticks: number;
+}
+
+export interface IndicatorPeriods {
+  sma: number;
+  ema: number;
+  rsi: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+  bollinger: number;
+  bollingerStdDev: number;
+  atr: number;
+  adx: number;
+}
+
+export interface MacdValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerValue {
+  upper: number;
+  middle: number;
+  lower: number;
+  /** Position of the price inside the bands: 0 = lower, 1 = upper */
+  percentB: number;
+  /** (upper − lower) / middle */
+  bandwidth: number;
+}
+
+export interface AdxValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface IndicatorSnapshot {
+  epoch: number;
+  price: number;
+  candles: number;
+  sma: number | null;
+  ema: number | null;
+  rsi: number | null;
+  macd: MacdValue | null;
+  bollinger: BollingerValue | null;
+  atr: number | null;
+  adx: AdxValue | null;
+  /** Direction from +DI / −DI (price vs EMA while ADX warms up); strength is the ADX */
+  trend: { direction: 'up' | 'down' | 'flat'; strength: number | null };
+}
+
+export interface IndicatorPipelineOptions {
+  /** Seconds per candle; 0 makes every tick its own candle */
+  granularity?: number;
+  /** Closed candles kept for the calculations */
+  maxCandles?: number;
+  periods?: Partial<IndicatorPeriods>;
+}
+
+// ─── Series helpers ──────────────────────────────────────────────────────────
+
+function round(value: number, decimals = 5): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/** Exponential moving average at every index (null before the seed). Seeded with the SMA. */
+function emaSeries(values: number[], period: number): Array<number | null> {
+  const out: Array<number | null> = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return out;
+
+  const k = 2 / (period + 1);
+  let prev = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  out[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = values[i] * k + prev * (1 - k);
+    out[i] = prev;
+  }
+  return out;
+}
+
+/** Wilder-smoothed average of `values`, seeded with the mean of the first `period`. */
+function wilderSeries(values: number[], period: number): number[] {
+  if (period <= 0 || values.length < period) return [];
+  let prev = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  const out = [prev];
+  for (let i = period; i < values.length; i++) {
+    prev = (prev * (period - 1) + values[i]) / period;
+    out.push(prev);
+  }
+  return out;
+}
+
+function trueRanges(candles: Candle[]): number[] {
+  const ranges: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    ranges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+  }
+  return ranges;
+}
+
+// ─── Indicators ──────────────────────────────────────────────────────────────
+
+function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  let sum = 0;
+  for (let i = values.length - period; i < values.length; i++) sum += values[i];
+  return sum / period;
+}
+
+function ema(values: number[], period: number): number | null {
+  const series = emaSeries(values, period);
+  return series.length ? series[series.length - 1] : null;
+}
+
+/** Relative Strength Index (0-100), Wilder smoothing. Needs `period + 1` values. */
+function rsi(values: number[], period = 14): number | null {
+  if (period <= 0 || values.length <= period) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/** MACD line, signal line and histogram. Needs `slow + signal - 1` values. */
+function macd(values: number[], fast = 12, slow = 26, signal = 9): MacdValue | null {
+  const fastSeries = emaSeries(values, fast);
+  const slowSeries = emaSeries(values, slow);
+  const line: number[] = [];
+  for (let i = 0; i < values.length; i++) {
+    const f = fastSeries[i];
+    const s = slowSeries[i];
+    if (f !== null && s !== null) line.push(f - s);
+  }
+
+  const signalValue = ema(line, signal);
+  if (signalValue === null) return null;
+  const macdValue = line[line.length - 1];
+  return { macd: macdValue, signal: signalValue, histogram: macdValue - signalValue };
+}
+
+function bollinger(values: number[], period = 20, stdDev = 2): BollingerValue | null {
+  const middle = sma(values, period);
+  if (middle === null) return null;
+
+  let variance = 0;
+  for (let i = values.length - period; i < values.length; i++) variance += (values[i] - middle) ** 2;
+  const deviation = Math.sqrt(variance / period);
+
+  const upper = middle + stdDev * deviation;
+  const lower = middle - stdDev * deviation;
+  const price = values[values.length - 1];
+  return {
+    upper,
+    middle,
+    lower,
+    percentB: upper === lower ? 0.5 : (price - lower) / (upper - lower),
+    bandwidth: middle === 0 ? 0 : (upper - lower) / middle,
+  };
+}
+
+/** Average True Range, Wilder smoothing. Needs `period + 1` candles. */
+function atr(candles: Candle[], period = 14): number | null {
+  const series = wilderSeries(trueRanges(candles), period);
+  return series.length ? series[series.length - 1] : null;
+}
+
+/** Average Directional Index with +DI / −DI. Needs `2 × period` candles. */
+function adx(candles: Candle[], period = 14): AdxValue | null {
+  if (period <= 0 || candles.length < period * 2) return null;
+
+  const ranges = trueRanges(candles);
+  const plusDM: number[] = [];
+  const minusDM: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const up = candles[i].high - candles[i - 1].high;
+    const down = candles[i - 1].low - candles[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  const smoothedTR = wilderSeries(ranges, period);
+  const smoothedPlus = wilderSeries(plusDM, period);
+  const smoothedMinus = wilderSeries(minusDM, period);
+
+  const dx: number[] = [];
+  let plusDI = 0;
+  let minusDI = 0;
+  for (let i = 0; i < smoothedTR.length; i++) {
+    const tr = smoothedTR[i];
+    plusDI = tr === 0 ? 0 : (100 * smoothedPlus[i]) / tr;
+    minusDI = tr === 0 ? 0 : (100 * smoothedMinus[i]) / tr;
+    const total = plusDI + minusDI;
+    dx.push(total === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / total);
+  }
+
+  const adxSeries = wilderSeries(dx, period);
+  if (!adxSeries.length) return null;
+  return { adx: adxSeries[adxSeries.length - 1], plusDI, minusDI };
+}
+
+// ─── Pipeline ────────────────────────────────────────────────────────────────
+
+class IndicatorPipeline {
+  readonly granularity: number;
+  readonly maxCandles: number;
+  readonly periods: IndicatorPeriods;
+
+  private _candles: Candle[];
+  private _current: Candle | null;
+  private _subscription: TickSubscription | null;
+
+  /**
+   * @param {IndicatorPipelineOptions} [options]
+   */
+  constructor(options: IndicatorPipelineOptions = {}) {
+    this.granularity = Math.max(0, Number(options.granularity ?? DEFAULT_GRANULARITY) || 0);
+    this.periods = { ...DEFAULT_INDICATOR_PERIODS, ...options.periods };
+    const needed = Math.max(
+      this.periods.sma,
+      this.periods.macdSlow + this.periods.macdSignal,
+      this.periods.adx * 2,
+      this.periods.bollinger,
+    ) + 1;
+    this.maxCandles = Math.max(options.maxCandles ?? DEFAULT_MAX_CANDLES, needed);
+
+    this._candles = [];
+    this._current = null;
+    this._subscription = null;
+  }
+
+  /** Candles received so far, including the forming one. */
+  get candleCount(): number {
+    return this._candles.length + (this._current ? 1 : 0);
+  }
+
+  /** Closed candles plus the forming one, oldest first. */
+  getCandles(): Candle[] {
+    return this._current ? [...this._candles, { ...this._current }] : [...this._candles];
+  }
+
+  /**
+   * Feed one tick. Ticks older than the forming candle are ignored.
+   * @param {{ epoch: number, quote: number }} tick
+   */
+  addTick(tick: { epoch: number; quote: number }) {
+    const price = Number(tick.quote);
+    const epoch = Number(tick.epoch);
+    if (!Number.isFinite(price) || !Number.isFinite(epoch)) return;
+
+    const bucket = this.granularity > 0 ? Math.floor(epoch / this.granularity) * this.granularity : epoch;
+    const current = this._current;
+
+    if (current && this.granularity > 0 && bucket === current.epoch) {
+      current.high = Math.max(current.high, price);
+      current.low = Math.min(current.low, price);
+      current.close = price;
+      current.ticks++;
+      return;
+    }
+    if (current && bucket < current.epoch) return;
+
+    if (current) this._pushClosed(current);
+    this._current = { epoch: bucket, open: price, high: price, low: price, close: price, ticks: 1 };
+  }
+
+  /**
+   * Feed a closed candle (e.g. from Deriv `ticks_history` with `style: 'candles'`).
+   * @param {Candle} candle
+   */
+  addCandle(candle: Omit<Candle, 'ticks'> & { ticks?: number }) {
+    if (this._current) {
+      this._pushClosed(this._current);
+      this._current = null;
+    }
+    this._pushClosed({ ...candle, ticks: candle.ticks ?? 0 });
+  }
+
+  /**
+   * Subscribe to a tick stream. Replaces any previous subscription.
+   * @param {TickSource} source
+   * @param {string} symbol
+   * @param {Function} [onError]
+   */
+  attach(source: TickSource, symbol: string, onError?: (error: Error) => void) {
+    this.detach();
+    this._subscription = source.subscribe(symbol, (tick: StreamTick) => this.addTick(tick), onError);
+  }
+
+  detach() {
+    this._subscription?.unsubscribe();
+    this._subscription = null;
+  }
+
+  reset() {
+    this._candles = [];
+    this._current = null;
+  }
+
+  /**
+   * Every indicator at the latest price, or null before the first tick.
+   * @returns {IndicatorSnapshot|null}
+   */
+  getSnapshot(): IndicatorSnapshot | null {
+    const candles = this.getCandles();
+    if (!candles.length) return null;
+
+    const p = this.periods;
+    const closes = candles.map((c) => c.close);
+    const last = candles[candles.length - 1];
+
+    const emaValue = ema(closes, p.ema);
+    const adxValue = adx(candles, p.adx);
+
+    let direction: IndicatorSnapshot['trend']['direction'] = 'flat';
+    if (adxValue) {
+      if (adxValue.plusDI > adxValue.minusDI) direction = 'up';
+      else if (adxValue.minusDI > adxValue.plusDI) direction = 'down';
+    } else if (emaValue !== null) {
+      if (last.close > emaValue) direction = 'up';
+      else if (last.close < emaValue) direction = 'down';
+    }
+
+    const macdValue = macd(closes, p.macdFast, p.macdSlow, p.macdSignal);
+    const bollingerValue = bollinger(closes, p.bollinger, p.bollingerStdDev);
+    const smaValue = sma(closes, p.sma);
+    const rsiValue = rsi(closes, p.rsi);
+    const atrValue = atr(candles, p.atr);
+
+    return {
+      epoch: last.epoch,
+      price: last.close,
+      candles: candles.length,
+      sma: smaValue === null ? null : round(smaValue),
+      ema: emaValue === null ? null : round(emaValue),
+      rsi: rsiValue === null ? null : round(rsiValue, 2),
+      macd: macdValue && {
+        macd: round(macdValue.macd),
+        signal: round(macdValue.signal),
+        histogram: round(macdValue.histogram),
+      },
+      bollinger: bollingerValue && {
+        upper: round(bollingerValue.upper),
+        middle: round(bollingerValue.middle),
+        lower: round(bollingerValue.lower),
+        percentB: round(bollingerValue.percentB, 4),
+        bandwidth: round(bollingerValue.bandwidth, 6),
+      },
+      atr: atrValue === null ? null : round(atrValue),
+      adx: adxValue && {
+        adx: round(adxValue.adx, 2),
+        plusDI: round(adxValue.plusDI, 2),
+        minusDI: round(adxValue.minusDI, 2),
+      },
+      trend: { direction, strength: adxValue ? round(adxValue.adx, 2) : null },
+    };
+  }
+
+  /** @private */
+  _pushClosed(candle: Candle) {
+    this._candles.push(candle);
+    if (this._candles.length > this.maxCandles) {
+      this._candles.splice(0, this._candles.length - this.maxCandles);
+    }
+  }
+}
+
+export {
+  IndicatorPipeline,
+  DEFAULT_INDICATOR_PERIODS,
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollinger,
+  atr,
+  adx,
+};
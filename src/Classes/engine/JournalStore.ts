@@ -0,0 +1,229 @@
+/**
+ * @file JournalStore.ts
+ * @description Pluggable append-only persistence for the decision journal (see DecisionJournal).
+ *
+ * Journal entries are plain JSON objects appended in order under a bot key (bot UUID).
+ * Stores only need `append` / `load` / `remove`; four are provided, mirroring CheckpointStore:
+ *   - MemoryJournalStore        — tests and short-lived processes
+ *   - LocalStorageJournalStore  — browser; keeps the newest `maxEntries` per bot
+ *   - IndexedDBJournalStore     — browser, larger journals
+ *   - FileJournalStore          — Node, one JSON-lines file per bot
+ *
+ * @usage
+ *   manager.setJournalStore(createDefaultJournalStore());
+ *   const entries = await store.load(manager.botUUID);
+ */
+
+import type { JournalEntry } from './DecisionJournal';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface JournalStore {
+  append: (key: string, entries: JournalEntry[]) => Promise<void>;
+  load: (key: string) => Promise<JournalEntry[]>;
+  remove: (key: string) => Promise<void>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_PREFIX = 'koppo.bot-journal.';
+const DEFAULT_DB_NAME = 'koppo-bot-journals';
+const DEFAULT_OBJECT_STORE = 'journals';
+const DEFAULT_DIRECTORY = '.bot-journals';
+const DEFAULT_LOCAL_STORAGE_ENTRIES = 2000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function sanitiseKey(key: string) {
+  return String(key).replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// ═════════════════════════════════════════════════════════════════════════════
+// Stores
+// ═════════════════════════════════════════════════════════════════════════════
+
+class MemoryJournalStore implements JournalStore {
+  private _journals = new Map<string, string[]>();
+
+  async append(key: string, entries: JournalEntry[]) {
+    const lines = this._journals.get(key) || [];
+    lines.push(...entries.map((entry) => JSON.stringify(entry)));
+    this._journals.set(key, lines);
+  }
+
+  async load(key: string) {
+    return (this._journals.get(key) || []).map((line) => JSON.parse(line));
+  }
+
+  async remove(key: string) {
+    this._journals.delete(key);
+  }
+}
+
+class LocalStorageJournalStore implements JournalStore {
+  prefix: string;
+  maxEntries: number;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.prefix]     - localStorage key prefix
+   * @param {number} [options.maxEntries] - Oldest entries are dropped beyond this (default 2000)
+   */
+  constructor(options: { prefix?: string; maxEntries?: number } = {}) {
+    this.prefix = options.prefix || DEFAULT_PREFIX;
+    this.maxEntries = options.maxEntries || DEFAULT_LOCAL_STORAGE_ENTRIES;
+  }
+
+  async append(key: string, entries: JournalEntry[]) {
+    const stored = [...(await this.load(key)), ...entries];
+    window.localStorage.setItem(this.prefix + key, JSON.stringify(stored.slice(-this.maxEntries)));
+  }
+
+  async load(key: string) {
+    const raw = window.localStorage.getItem(this.prefix + key);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  async remove(key: string) {
+    window.localStorage.removeItem(this.prefix + key);
+  }
+}
+
+class IndexedDBJournalStore implements JournalStore {
+  dbName: string;
+  storeName: string;
+  private _db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.dbName]    - IndexedDB database name
+   * @param {string} [options.storeName] - Object store name
+   */
+  constructor(options: { dbName?: string; storeName?: string } = {}) {
+    this.dbName = options.dbName || DEFAULT_DB_NAME;
+    this.storeName = options.storeName || DEFAULT_OBJECT_STORE;
+  }
+
+  /** @private */
+  private _open() {
+    if (!this._db) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      this._db = requestToPromise(request);
+    }
+    return this._db;
+  }
+
+  async append(key: string, entries: JournalEntry[]) {
+    const db = await this._open();
+    const store = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName);
+    // Read and write in one transaction so concurrent appends can't interleave
+    const existing: JournalEntry[] = (await requestToPromise(store.get(key))) || [];
+    await requestToPromise(store.put([...existing, ...JSON.parse(JSON.stringify(entries))], key));
+  }
+
+  async load(key: string) {
+    const db = await this._open();
+    const store = db.transaction(this.storeName, 'readonly').objectStore(this.storeName);
+    return (await requestToPromise(store.get(key))) || [];
+  }
+
+  async remove(key: string) {
+    const db = await this._open();
+    const store = db.transaction(this.storeName, 'readwrite').objectStore(this.storeName);
+    await requestToPromise(store.delete(key));
+  }
+}
+
+class FileJournalStore implements JournalStore {
+  directory: string;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.directory] - Directory for journal files (created on first append)
+   */
+  constructor(options: { directory?: string } = {}) {
+    this.directory = options.directory || DEFAULT_DIRECTORY;
+  }
+
+  /** @private */
+  private async _fs() {
+    // Resolved at runtime so browser bundles never pull in Node built-ins
+    const fsModule = 'fs/promises';
+    const pathModule = 'path';
+    const [fs, path] = await Promise.all([
+      import(/* @vite-ignore */ fsModule),
+      import(/* @vite-ignore */ pathModule),
+    ]);
+    return { fs, path };
+  }
+
+  /** @private */
+  private _fileName(key: string) {
+    return `${sanitiseKey(key)}.jsonl`;
+  }
+
+  async append(key: string, entries: JournalEntry[]) {
+    if (entries.length === 0) return;
+    const { fs, path } = await this._fs();
+    await fs.mkdir(this.directory, { recursive: true });
+    const lines = entries.map((entry) => JSON.stringify(entry)).join('\n');
+    await fs.appendFile(path.join(this.directory, this._fileName(key)), `${lines}\n`, 'utf8');
+  }
+
+  async load(key: string) {
+    const { fs, path } = await this._fs();
+    try {
+      const raw: string = await fs.readFile(path.join(this.directory, this._fileName(key)), 'utf8');
+      // A crash mid-append can leave a truncated last line; skip it
+      return raw.split('\n').filter(Boolean).flatMap((line) => {
+        try {
+          return [JSON.parse(line)];
+        } catch {
+          return [];
+        }
+      });
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw err;
+    }
+  }
+
+  async remove(key: string) {
+    const { fs, path } = await this._fs();
+    await fs.rm(path.join(this.directory, this._fileName(key)), { force: true });
+  }
+}
+
+// ─── Factory ─────────────────────────────────────────────────────────────────
+
+/**
+ * Pick the best store for the current runtime: IndexedDB → localStorage → file (Node) → memory.
+ * @param {Object} [options] - Passed to the chosen store's constructor
+ * @returns {JournalStore}
+ */
+function createDefaultJournalStore(options: Record<string, any> = {}): JournalStore {
+  if (typeof indexedDB !== 'undefined') return new IndexedDBJournalStore(options);
+  if (typeof window !== 'undefined' && window.localStorage) return new LocalStorageJournalStore(options);
+  if (typeof process !== 'undefined' && process.versions?.node) return new FileJournalStore(options);
+  return new MemoryJournalStore();
+}
+
+export {
+  MemoryJournalStore,
+  LocalStorageJournalStore,
+  IndexedDBJournalStore,
+  FileJournalStore,
+  createDefaultJournalStore,
+};
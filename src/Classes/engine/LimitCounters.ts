@@ -0,0 +1,190 @@
+/**
+ * @file LimitCounters.ts
+ * @description Calendar-aligned hourly / daily / weekly profit and loss counters, shared
+ *              by TradingBotManager and the bot detail view.
+ *
+ * `max_daily_loss`, `max_weekly_profit` and friends are measured per calendar period in
+ * the bot's `limit_reset_timezone`: the day starts at local midnight and the week at
+ * midnight of `week_start_day` (0 = Sunday … 6 = Saturday, Monday by default).
+ *
+ * Counters are gross, as in the manager: a winning trade adds its profit to the `*Profit`
+ * counter, a losing trade adds the absolute loss to the `*Loss` counter.
+ *
+ * `aggregateLimitCounters` accepts both trade shapes in circulation:
+ *   - API trades from botContractTradesAPI (`profit_value`, `profit_sign`, `sell_spot_time`…)
+ *   - engine trade results from TradingBotExecutor (`profit`, `exitTime`…)
+ *
+ * @usage
+ *   const { data } = await botContractTradesAPI.getTradesByBot(botId, {
+ *     startDate: new Date(getLimitPeriodStarts(Date.now(), options).week).toISOString(),
+ *   });
+ *   const counters = aggregateLimitCounters(data.trades, Date.now(), options);
+ *   counters.dailyLoss; // loss since local midnight
+ */
+
+import { getPeriodStart } from './ScheduleEvaluator';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_LIMIT_TIMEZONE = 'UTC';
+const DEFAULT_WEEK_START_DAY = 1;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface LimitCounterOptions {
+  /** IANA timezone whose midnight bounds the day; UTC when unset */
+  timeZone?: string | null;
+  /** 0 = Sunday … 6 = Saturday */
+  weekStartsOn?: number | null;
+}
+
+export interface LimitPeriodStarts {
+  hour: number;
+  day: number;
+  week: number;
+}
+
+export interface LimitCounters {
+  hourlyProfit: number;
+  hourlyLoss: number;
+  dailyProfit: number;
+  dailyLoss: number;
+  weeklyProfit: number;
+  weeklyLoss: number;
+  /** Epoch ms each counter was last reset (start of the current period) */
+  periodStarts: LimitPeriodStarts;
+  /** Trades that fell inside the current week */
+  tradeCount: number;
+}
+
+/** Loose shape covering API and engine trades. */
+export interface LimitCounterTrade {
+  profit?: number | string | null;
+  profit_value?: number | string | null;
+  /** -1 / 1, or '-' / '+' */
+  profit_sign?: number | string | null;
+  profit_is_win?: boolean | null;
+  isWin?: boolean | null;
+  exitTime?: number | string | null;
+  purchaseTime?: number | string | null;
+  sell_spot_time?: number | string | null;
+  exit_spot_time?: number | string | null;
+  purchase_time?: number | string | null;
+  createdAt?: string | null;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function resolveOptions({ timeZone, weekStartsOn }: LimitCounterOptions = {}) {
+  const day = Number(weekStartsOn);
+  return {
+    timeZone: timeZone || DEFAULT_LIMIT_TIMEZONE,
+    weekStartsOn: Number.isInteger(day) && day >= 0 && day <= 6 ? day : DEFAULT_WEEK_START_DAY,
+  };
+}
+
+/** Epoch ms from an epoch in seconds or ms, or a date string. */
+function toEpochMs(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const numeric = Number(value);
+  if (Number.isFinite(numeric)) return numeric < 1e12 ? numeric * 1000 : numeric;
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/** Settlement time of a trade, falling back to purchase / record creation. */
+function getTradeTime(trade: LimitCounterTrade): number | null {
+  return toEpochMs(trade.sell_spot_time)
+    ?? toEpochMs(trade.exit_spot_time)
+    ?? toEpochMs(trade.exitTime)
+    ?? toEpochMs(trade.purchase_time)
+    ?? toEpochMs(trade.purchaseTime)
+    ?? toEpochMs(trade.createdAt);
+}
+
+/** Signed profit of a trade. API trades store an unsigned value plus a sign / win flag. */
+function getTradeProfit(trade: LimitCounterTrade): number {
+  if (trade.profit_value !== undefined && trade.profit_value !== null) {
+    const value = Math.abs(Number(trade.profit_value) || 0);
+    const sign = trade.profit_sign === '-' ? -1 : trade.profit_sign === '+' ? 1 : Number(trade.profit_sign);
+    if (sign < 0) return -value;
+    if (sign > 0) return value;
+    const isWin = trade.profit_is_win ?? trade.isWin;
+    if (isWin === false) return -value;
+    return Number(trade.profit_value) || 0;
+  }
+  return Number(trade.profit) || 0;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Start of the current hour, day and week.
+ * @param {number} now - Epoch ms
+ * @param {LimitCounterOptions} [options]
+ * @returns {LimitPeriodStarts}
+ */
+function getLimitPeriodStarts(now: number, options: LimitCounterOptions = {}): LimitPeriodStarts {
+  const resolved = resolveOptions(options);
+  return {
+    hour: getPeriodStart(now, 'hour', resolved),
+    day: getPeriodStart(now, 'day', resolved),
+    week: getPeriodStart(now, 'week', resolved),
+  };
+}
+
+/**
+ * Sum trades into the current hour / day / week counters. Trades without a
+ * usable timestamp, or settled before the week started, are skipped.
+ * @param {LimitCounterTrade[]} trades
+ * @param {number} now - Epoch ms
+ * @param {LimitCounterOptions} [options]
+ * @returns {LimitCounters}
+ */
+function aggregateLimitCounters(
+  trades: LimitCounterTrade[],
+  now: number,
+  options: LimitCounterOptions = {},
+): LimitCounters {
+  const periodStarts = getLimitPeriodStarts(now, options);
+  const counters: LimitCounters = {
+    hourlyProfit: 0,
+    hourlyLoss: 0,
+    dailyProfit: 0,
+    dailyLoss: 0,
+    weeklyProfit: 0,
+    weeklyLoss: 0,
+    periodStarts,
+    tradeCount: 0,
+  };
+
+  for (const trade of trades || []) {
+    const time = getTradeTime(trade);
+    if (time === null || time < periodStarts.week || time > now) continue;
+
+    const profit = getTradeProfit(trade);
+    const gain = profit > 0 ? profit : 0;
+    const loss = profit > 0 ? 0 : Math.abs(profit);
+
+    counters.tradeCount++;
+    counters.weeklyProfit += gain;
+    counters.weeklyLoss += loss;
+    if (time >= periodStarts.day) {
+      counters.dailyProfit += gain;
+      counters.dailyLoss += loss;
+    }
+    if (time >= periodStarts.hour) {
+      counters.hourlyProfit += gain;
+      counters.hourlyLoss += loss;
+    }
+  }
+
+  return counters;
+}
+
+export {
+  DEFAULT_LIMIT_TIMEZONE,
+  DEFAULT_WEEK_START_DAY,
+  getLimitPeriodStarts,
+  aggregateLimitCounters,
+};
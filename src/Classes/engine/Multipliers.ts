@@ -0,0 +1,252 @@
+/**
+ * @file Multipliers.ts
+ * @description Deriv Multipliers (MULTUP / MULTDOWN) — limit orders, deal cancellation,
+ *              holding time, simulated profit and close reasons. Shared by the executors,
+ *              the ContractSimulator and the manager's risk checks.
+ *
+ * Multipliers have no fixed expiry. A position stays open until its take-profit or
+ * stop-loss limit order fills, it is stopped out (the loss reaches the stake), it is
+ * cancelled inside its deal-cancellation window, or it is sold. The bot's contract
+ * `duration` / `durationUnits` is reused as an optional maximum holding time: Deriv never
+ * sees it, the executor sells the position when it runs out (0 = hold until a limit fills).
+ *
+ * Limit orders are set per trade from the contract config, either as currency amounts or
+ * as a percentage of the trade's stake (`limitOrderUnits`), so they follow stake
+ * progressions such as Martingale.
+ *
+ * @usage
+ *   if (isMultiplierContract(params.contract_type)) {
+ *     const limitOrder = resolveLimitOrder(contract, params.amount);
+ *     const errors = validateMultiplierParams(params);
+ *   }
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type LimitOrderUnits = 'amount' | 'percentage';
+
+export type MultiplierCloseReason =
+  | 'take_profit'
+  | 'stop_loss'
+  | 'stop_out'
+  | 'cancellation'
+  | 'hold_expired'
+  | 'early_exit'
+  | 'sold';
+
+/** Multiplier fields of the bot's ContractData */
+export interface MultiplierContractConfig {
+  multiplier?: number | null;
+  takeProfit?: number | null;
+  stopLoss?: number | null;
+  limitOrderUnits?: LimitOrderUnits | null;
+  dealCancellation?: string | null;
+  duration?: number | null;
+  durationUnits?: string | null;
+}
+
+/** Deriv `limit_order` (currency amounts) */
+export interface LimitOrder {
+  take_profit?: number;
+  stop_loss?: number;
+}
+
+export interface HoldDuration {
+  ticks?: number;
+  ms?: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MULTIPLIER_CONTRACT_TYPES = Object.freeze(['MULTUP', 'MULTDOWN']);
+
+/** Deal cancellation windows offered by Deriv */
+const DEAL_CANCELLATION_DURATIONS = Object.freeze(['5m', '10m', '15m', '30m', '60m']);
+
+/** Fills within a cent of a limit are attributed to it */
+const CLOSE_TOLERANCE = 0.01;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function isMultiplierContract(contractType: string | null | undefined) {
+  return MULTIPLIER_CONTRACT_TYPES.includes(String(contractType || '').toUpperCase());
+}
+
+/**
+ * Normalise the form's duration units ('ticks', 'seconds', ...) to Deriv's ('t', 's', ...).
+ */
+function normaliseDurationUnit(unit: string | null | undefined) {
+  const value = String(unit || 't').toLowerCase();
+  if (value.startsWith('t')) return 't';
+  if (value.startsWith('s')) return 's';
+  if (value.startsWith('m')) return 'm';
+  if (value.startsWith('h')) return 'h';
+  if (value.startsWith('d')) return 'd';
+  return value;
+}
+
+// ─── Limit orders ────────────────────────────────────────────────────────────
+
+/**
+ * Deriv `limit_order` for one trade. Percentages are of the trade's stake.
+ * @param {MultiplierContractConfig} config
+ * @param {number} stake
+ * @returns {LimitOrder|null} null when neither limit is set
+ */
+function resolveLimitOrder(config: MultiplierContractConfig, stake: number): LimitOrder | null {
+  const toAmount = (value: unknown) => {
+    const num = positiveOrNull(value);
+    if (num === null) return null;
+    return roundToTwo(config.limitOrderUnits === 'percentage' ? (stake * num) / 100 : num);
+  };
+
+  const limitOrder: LimitOrder = {};
+  const takeProfit = toAmount(config.takeProfit);
+  const stopLoss = toAmount(config.stopLoss);
+  if (takeProfit !== null) limitOrder.take_profit = takeProfit;
+  if (stopLoss !== null) limitOrder.stop_loss = stopLoss;
+  return Object.keys(limitOrder).length > 0 ? limitOrder : null;
+}
+
+/**
+ * Most a multiplier trade can lose: its stop loss, or the whole stake (stop out).
+ * Fixed-expiry contracts always risk the full stake.
+ * @param {Object} params - ContractParams
+ * @returns {number}
+ */
+function getMaxLoss(params: Record<string, any>) {
+  const stake = Number(params.amount) || 0;
+  if (!isMultiplierContract(params.contract_type)) return stake;
+  const stopLoss = positiveOrNull(params.limit_order?.stop_loss);
+  return stopLoss === null ? stake : Math.min(stake, stopLoss);
+}
+
+// ─── Validation ──────────────────────────────────────────────────────────────
+
+/**
+ * Multiplier-specific ContractParams problems (Deriv rejects all of these).
+ * @param {Object} params - ContractParams
+ * @returns {string[]}
+ */
+function validateMultiplierParams(params: Record<string, any>) {
+  const errors: string[] = [];
+  if (!isMultiplierContract(params.contract_type)) return errors;
+
+  const multiplier = Number(params.multiplier);
+  if (!multiplier || multiplier <= 1) errors.push('Multiplier must be greater than 1');
+
+  const takeProfit = params.limit_order?.take_profit;
+  const stopLoss = params.limit_order?.stop_loss;
+  if (takeProfit !== undefined && !(Number(takeProfit) > 0)) errors.push('Take profit must be positive');
+  if (stopLoss !== undefined) {
+    if (!(Number(stopLoss) > 0)) errors.push('Stop loss must be positive');
+    else if (Number(stopLoss) > Number(params.amount)) errors.push('Stop loss cannot exceed the stake');
+  }
+
+  if (params.cancellation) {
+    if (!DEAL_CANCELLATION_DURATIONS.includes(params.cancellation)) {
+      errors.push(`Deal cancellation must be one of ${DEAL_CANCELLATION_DURATIONS.join(', ')}`);
+    }
+    if (stopLoss !== undefined) errors.push('Deal cancellation cannot be combined with a stop loss');
+  }
+
+  return errors;
+}
+
+// ─── Proposal & holding time ─────────────────────────────────────────────────
+
+/**
+ * The Deriv proposal for ContractParams. Multipliers have no expiry, so their
+ * duration (the bot's holding time) is not sent.
+ * @param {Object} params - ContractParams
+ * @returns {Object}
+ */
+function toDerivProposal(params: Record<string, any>) {
+  if (!isMultiplierContract(params.contract_type)) return params;
+  const proposal = { ...params };
+  delete proposal.duration;
+  delete proposal.duration_unit;
+  return proposal;
+}
+
+/**
+ * Maximum holding time of a multiplier position, or null to hold until a limit fills.
+ * @param {Object} params - ContractParams
+ * @returns {HoldDuration|null}
+ */
+function getHoldDuration(params: Record<string, any>): HoldDuration | null {
+  if (!isMultiplierContract(params.contract_type)) return null;
+  const duration = positiveOrNull(params.duration);
+  if (duration === null) return null;
+
+  switch (normaliseDurationUnit(params.duration_unit)) {
+    case 't': return { ticks: Math.round(duration) };
+    case 's': return { ms: duration * 1000 };
+    case 'm': return { ms: duration * 60000 };
+    case 'h': return { ms: duration * 3600000 };
+    case 'd': return { ms: duration * 86400000 };
+    default: return null;
+  }
+}
+
+// ─── Settlement ──────────────────────────────────────────────────────────────
+
+/**
+ * Profit of a multiplier position at `quote` (commission not included). A loss never
+ * exceeds the stake — Deriv stops the position out first.
+ * @param {Object} params     - ContractParams (amount, multiplier, contract_type)
+ * @param {number} entryQuote
+ * @param {number} quote
+ * @returns {number}
+ */
+function getMultiplierProfit(params: Record<string, any>, entryQuote: number, quote: number) {
+  const stake = Number(params.amount) || 0;
+  const direction = String(params.contract_type).toUpperCase() === 'MULTDOWN' ? -1 : 1;
+  const profit = stake * Number(params.multiplier || 0) * ((quote - entryQuote) / entryQuote) * direction;
+  return roundToTwo(Math.max(profit, -stake));
+}
+
+/**
+ * Why a settled multiplier position closed, inferred from its profit and limit orders
+ * when the executor did not close it itself.
+ * @param {number} profit
+ * @param {number} stake
+ * @param {LimitOrder|null} [limitOrder]
+ * @param {string} [status] - Deriv contract status ('cancelled', 'sold', ...)
+ * @returns {MultiplierCloseReason}
+ */
+function getMultiplierCloseReason(
+  profit: number,
+  stake: number,
+  limitOrder?: LimitOrder | null,
+  status?: string | null,
+): MultiplierCloseReason {
+  if (status === 'cancelled') return 'cancellation';
+  if (limitOrder?.take_profit !== undefined && profit >= limitOrder.take_profit - CLOSE_TOLERANCE) return 'take_profit';
+  if (profit <= -stake + CLOSE_TOLERANCE) return 'stop_out';
+  if (limitOrder?.stop_loss !== undefined && profit <= -limitOrder.stop_loss + CLOSE_TOLERANCE) return 'stop_loss';
+  return 'sold';
+}
+
+export {
+  MULTIPLIER_CONTRACT_TYPES,
+  DEAL_CANCELLATION_DURATIONS,
+  isMultiplierContract,
+  normaliseDurationUnit,
+  resolveLimitOrder,
+  getMaxLoss,
+  validateMultiplierParams,
+  toDerivProposal,
+  getHoldDuration,
+  getMultiplierProfit,
+  getMultiplierCloseReason,
+};
@@ -0,0 +1,345 @@
+/**
+ * @file PaperTradingExecutor.ts
+ * @description Drop-in TradingBotExecutor that paper-trades: contracts are settled against a
+ *              live (or replayed) tick stream and never bought on Deriv.
+ *
+ * Responsibilities:
+ *   - Keep one tick subscription per symbol open for the session
+ *   - Settle each contract on the ticks that follow the "purchase" (see ContractSimulator)
+ *   - Price wins from the stake-tiered PayoutTable (TradeRewardStructures rates)
+ *   - Track a virtual balance for the manager's balance provider
+ *   - Produce the same normalised TradeResult shape as TradingBotExecutor
+ *
+ * Bot CRUD and statistics sync are inherited unchanged. Trade records are kept locally
+ * (flagged `isPaperTrade`) and only sent to the BotContractTrade API with `persistTrades`.
+ *
+ * @usage
+ *   const executor = new PaperTradingExecutor({ apiBaseUrl, authToken, derivEndpointDomain, derivAppId });
+ *   const manager  = TradingBotManager.fromFormData(formPayload, executor);
+ *   manager.setBalanceProvider(() => executor.balance);
+ *   await manager.start();
+ */
+
+import { TradingBotExecutor } from './TradingBotExecutor';
+import {
+  settleContract,
+  buildSimulatedTradeResult,
+  inferPipSize,
+  isSupportedContractType,
+  type SettlementOutcome,
+} from './ContractSimulator';
+import { isMultiplierContract, getHoldDuration } from './Multipliers';
+import {
+  createDerivTickSource,
+  type StreamTick,
+  type TickSource,
+  type TickSubscription,
+} from './TickSource';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_STARTING_BALANCE = 10000;
+const DEFAULT_SETTLEMENT_TIMEOUT = 60000;
+const MAX_FEED_HISTORY = 100;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+function durationToMs(duration: number, unit: string) {
+  switch (String(unit).toLowerCase()) {
+    case 's': return duration * 1000;
+    case 'm': return duration * 60000;
+    case 'h': return duration * 3600000;
+    case 'd': return duration * 86400000;
+    default: return 0;
+  }
+}
+
+function createError(message: string, code: string) {
+  const err: Error & { code?: string } = new Error(message);
+  err.code = code;
+  return err;
+}
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface FeedWatcher {
+  onTick: (tick: StreamTick) => void;
+  onError: (error: Error) => void;
+}
+
+interface PaperFeed {
+  symbol: string;
+  subscription: TickSubscription | null;
+  history: StreamTick[];
+  pipSize: number | null;
+  watchers: Set<FeedWatcher>;
+}
+
+// ─── PaperTradingExecutor ────────────────────────────────────────────────────
+
+class PaperTradingExecutor extends TradingBotExecutor {
+  startingBalance: number;
+  balance: number;
+  persistTrades: boolean;
+  settlementTimeout: number;
+  pipSize: number | null;
+  private _tickSource: TickSource | null;
+  private _usesDerivTicks: boolean;
+  private _feeds: Map<string, PaperFeed>;
+  private _paperRecords: Record<string, any>[];
+
+  /**
+   * Accepts every TradingBotExecutor option, plus:
+   *
+   * @param {Object} options
+   * @param {Object} [options.tickSource]        - TickSource to settle against (default: live Deriv
+   *                                               ticks over the pooled connection for the account)
+   * @param {number} [options.startingBalance]   - Virtual balance (default 10000)
+   * @param {boolean} [options.persistTrades]    - Also POST paper trades to the BotContractTrade API
+   * @param {number} [options.settlementTimeout] - Max wait for settlement ticks beyond the
+   *                                               contract duration (ms, default 60000)
+   * @param {number} [options.pipSize]           - Quote decimals (default: from the feed)
+   */
+  constructor(options: Record<string, any> = {}) {
+    super(options);
+
+    this.startingBalance = options.startingBalance ?? DEFAULT_STARTING_BALANCE;
+    this.balance = this.startingBalance;
+    this.persistTrades = options.persistTrades ?? false;
+    this.settlementTimeout = options.settlementTimeout ?? DEFAULT_SETTLEMENT_TIMEOUT;
+    this.pipSize = options.pipSize ?? null;
+
+    this._tickSource = options.tickSource || null;
+    this._usesDerivTicks = !options.tickSource;
+    this._feeds = new Map();
+    this._paperRecords = [];
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VIRTUAL BALANCE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Reset the virtual balance (defaults to the starting balance).
+   * @param {number} [amount]
+   */
+  resetBalance(amount?: number) {
+    this.balance = amount ?? this.startingBalance;
+    this.emit('paper_balance_updated', { balance: this.balance });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TRADE RECORD PERSISTENCE
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Record a paper trade locally; forward it to the API only when `persistTrades` is set.
+   * @param {Object} tradeData
+   * @returns {Promise<Object|null>}
+   */
+  async persistTradeRecord(tradeData: Record<string, any>) {
+    const record = { ...tradeData, isPaperTrade: true };
+    this._paperRecords.push(record);
+    if (this.persistTrades) return super.persistTradeRecord(record);
+    return record;
+  }
+
+  /**
+   * Paper trades of this executor; the API copies when `persistTrades` is set.
+   * @returns {Promise<Object[]>}
+   */
+  async fetchTradesByBot(botUUID: string, params: Record<string, any> = {}, maxPages?: number): Promise<any[]> {
+    if (this.persistTrades) return super.fetchTradesByBot(botUUID, params, maxPages);
+    return this.paperTradeRecords;
+  }
+
+  get paperTradeRecords() {
+    return [...this._paperRecords];
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SIMULATED EXECUTION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Paper-trade a single contract: wait for the ticks after "purchase" and settle locally.
+   *
+   * @param {Object} contractParams  - ContractParams from buildContractParams()
+   * @param {string} [userAccountToken] - Needed only for the default live tick source
+   * @param {Object} [tradeContext]     - Extra fields copied onto the TradeResult (e.g. `signal`)
+   * @returns {Promise<Object>} Normalised TradeResult (with `simulated: true`)
+   */
+  async executeTrade(
+    contractParams: Record<string, any>,
+    userAccountToken?: string,
+    tradeContext: Record<string, any> = {},
+  ): Promise<any> {
+    const validation = this.validateContractParams(contractParams);
+    if (!validation.valid) {
+      this.emit('trade_validation_failed', { errors: validation.errors, params: contractParams });
+      throw createError(`Invalid contract params: ${validation.errors.join('; ')}`, 'VALIDATION_ERROR');
+    }
+    if (!isSupportedContractType(contractParams.contract_type)) {
+      throw createError(`Contract type ${contractParams.contract_type} cannot be paper traded`, 'UNSUPPORTED_CONTRACT');
+    }
+    if (Number(contractParams.amount) > this.balance) {
+      throw createError(`Stake ${contractParams.amount} exceeds paper balance ${this.balance}`, 'INSUFFICIENT_BALANCE');
+    }
+
+    this.emit('trade_attempt', { attempt: 1, maxAttempts: 1, params: contractParams });
+
+    try {
+      const feed = await this._getFeed(contractParams.symbol, userAccountToken);
+      const { outcome, ticks } = await this._awaitSettlement(feed, contractParams);
+
+      const tradeResult: Record<string, any> = buildSimulatedTradeResult(contractParams, outcome, {
+        pipSize: this._resolvePipSize(feed),
+        sessionId: this._sessionId,
+        botId: this._currentBot?.botId || this._currentBot?.botUUID || '',
+        botUUID: this._currentBot?.botUUID || '',
+        strategyId: this._currentBot?.strategyId || '',
+        account: 'PAPER',
+        ticks,
+      });
+      tradeResult.tradeId = `paper_${Date.now()}_${this._tradeHistory.length + 1}`;
+      Object.assign(tradeResult, tradeContext);
+
+      this.balance = roundToTwo(this.balance - tradeResult.stake + tradeResult.sellPrice);
+      tradeResult.balanceAfter = this.balance;
+
+      this._tradeHistory.push(tradeResult);
+      this.emit('trade_executed', { result: tradeResult, attempt: 1 });
+      this.emit('paper_balance_updated', { balance: this.balance });
+
+      this._persistTradeAsync(tradeResult);
+
+      return tradeResult;
+    } catch (error: any) {
+      this.emit('trade_error', { attempt: 1, maxAttempts: 1, error: error.message || 'Unknown error' });
+      throw error;
+    }
+  }
+
+  /**
+   * Collect ticks from the moment of "purchase" until the contract can be settled.
+   * @private
+   */
+  _awaitSettlement(feed: PaperFeed, params: Record<string, any>) {
+    // Synthetic purchase tick: only its position matters, the entry spot is the next tick
+    const ticks: StreamTick[] = [{ epoch: Math.floor(Date.now() / 1000), quote: NaN }];
+    const timeoutMs = this._settlementTimeoutFor(params);
+
+    return new Promise<{ outcome: SettlementOutcome; ticks: StreamTick[] }>((resolve, reject) => {
+      const finish = (error: Error | null, outcome?: SettlementOutcome) => {
+        clearTimeout(timer);
+        feed.watchers.delete(watcher);
+        if (error) reject(error);
+        else resolve({ outcome: outcome as SettlementOutcome, ticks });
+      };
+
+      const watcher: FeedWatcher = {
+        onTick: (tick) => {
+          ticks.push(tick);
+          const outcome = settleContract(params, ticks, 0, { pipSize: this._resolvePipSize(feed) });
+          if (outcome) finish(null, outcome);
+        },
+        onError: (error) => finish(error),
+      };
+
+      const timer = timeoutMs === null ? undefined : setTimeout(() => {
+        finish(createError(`No settlement for ${params.contract_type} on ${params.symbol} within ${timeoutMs}ms`, 'SETTLEMENT_TIMEOUT'));
+      }, timeoutMs);
+
+      feed.watchers.add(watcher);
+    });
+  }
+
+  /**
+   * How long to wait for settlement, or null for no limit: a multiplier held until a
+   * limit order fills (or held for a number of ticks) has no expiry to time out on.
+   * @private
+   */
+  _settlementTimeoutFor(params: Record<string, any>) {
+    if (!isMultiplierContract(params.contract_type)) {
+      return this.settlementTimeout + durationToMs(Number(params.duration) || 0, params.duration_unit);
+    }
+    const hold = getHoldDuration(params);
+    return hold?.ms ? this.settlementTimeout + hold.ms : null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TICK FEEDS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get (or open) the session-wide tick feed for a symbol.
+   * @private
+   */
+  async _getFeed(symbol: string, userAccountToken?: string) {
+    const existing = this._feeds.get(symbol);
+    if (existing) return existing;
+
+    if (!this._tickSource) {
+      this._tickSource = createDerivTickSource(await this.getConnection(userAccountToken));
+    }
+
+    const feed: PaperFeed = { symbol, subscription: null, history: [], pipSize: null, watchers: new Set() };
+    this._feeds.set(symbol, feed);
+
+    feed.subscription = (this._tickSource as TickSource).subscribe(
+      symbol,
+      (tick) => {
+        if (tick.pipSize !== undefined) feed.pipSize = tick.pipSize;
+        feed.history.push(tick);
+        if (feed.history.length > MAX_FEED_HISTORY) feed.history.shift();
+        this.emit('paper_tick', { symbol, tick });
+        for (const watcher of [...feed.watchers]) watcher.onTick(tick);
+      },
+      (error) => {
+        this.emit('paper_feed_error', { symbol, error: error.message });
+        for (const watcher of [...feed.watchers]) watcher.onError(error);
+      },
+    );
+
+    return feed;
+  }
+
+  /** @private */
+  _resolvePipSize(feed: PaperFeed) {
+    return this.pipSize ?? feed.pipSize ?? inferPipSize(feed.history);
+  }
+
+  /**
+   * Close every tick subscription held by this executor.
+   */
+  releaseFeeds() {
+    for (const feed of this._feeds.values()) {
+      feed.subscription?.unsubscribe();
+      for (const watcher of [...feed.watchers]) watcher.onError(new Error('Paper feed closed'));
+    }
+    this._feeds.clear();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SESSION / CLEANUP
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  endSession() {
+    this.releaseFeeds();
+    // The default source is bound to a pooled connection that endSession() releases
+    if (this._usesDerivTicks) this._tickSource = null;
+    super.endSession();
+  }
+
+  destroy() {
+    this.releaseFeeds();
+    this._paperRecords = [];
+    super.destroy();
+  }
+}
+
+export { PaperTradingExecutor };
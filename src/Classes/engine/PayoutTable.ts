@@ -0,0 +1,127 @@
+/**
+ * @file PayoutTable.ts
+ * @description Stake-tiered payout rates for the contract types the engine trades.
+ *
+ * Mirrors the tiers in `trader/trade-reward-structures.ts` (TradeRewardStructures) so the
+ * engine can price simulated contracts without that module's Node-only logger and env
+ * dependencies. Rates are profit percentages of the stake, e.g. 9.67 → a $1 win pays $1.0967.
+ *
+ * Two deliberate differences from that table: DIGITMATCH's `7.00` is read as a 7× profit
+ * (700%), and DIGITOVER_4 uses the same 50%-probability tiers as DIGITUNDER_5 instead of the
+ * DIGITDIFF tiers it was copied from.
+ *
+ * @usage
+ *   const rate = getPayoutRate('DIGITUNDER', 2, 7);   // 40.5
+ *   const payout = estimatePayout('DIGITDIFF', 1, 5); // 1.09
+ */
+
+// ─── Tiers ───────────────────────────────────────────────────────────────────
+
+/** Lower stake bound of each tier; the last tier is open-ended. */
+const STAKE_TIER_BOUNDS = Object.freeze([0, 0.5, 0.75, 1, 2, 3, 5]);
+
+const DIGIT_5_PERCENT_TIERS = [5.71, 6.0, 8.0, 9.0, 9.5, 9.67, 9.67];
+const DIGIT_20_PERCENT_TIERS = [17.1, 20.0, 21.3, 23.0, 23.0, 23.0, 23.2];
+const DIGIT_30_PERCENT_TIERS = [34.3, 38.0, 38.75, 40.0, 40.5, 40.3, 40.5];
+const DIGIT_40_PERCENT_TIERS = [57.1, 60.0, 62.7, 63.0, 63.5, 63.3, 63.4];
+const DIGIT_50_PERCENT_TIERS = [88.6, 92.0, 94.7, 95.0, 95.5, 95.3, 95.4];
+const DIGIT_60_PERCENT_TIERS = [137.1, 140.0, 142.7, 143.0, 142.5, 142.7, 142.8];
+const DIGIT_70_PERCENT_TIERS = [214.3, 220.0, 220.0, 221.0, 220.5, 220.7, 220.6];
+const DIGIT_80_PERCENT_TIERS = [371.4, 372.0, 372.0, 372.0, 371.5, 371.7, 371.6];
+const DIGIT_90_PERCENT_TIERS = [794.3, 792.0, 793.3, 793.0, 793.0, 793.0, 792.8];
+const RISE_FALL_TIERS = [77.14, 78.0, 78.67, 79.0, 79.5, 79.33, 79.4];
+
+const REWARD_TIERS: Record<string, number[]> = Object.freeze({
+  DIGITMATCH: [700, 700, 700, 700, 700, 700, 700],
+  DIGITDIFF: DIGIT_5_PERCENT_TIERS,
+  DIGITEVEN: [88.57, 92.0, 94.67, 95.0, 95.5, 95.33, 95.4],
+  DIGITODD: [88.57, 92.0, 94.67, 95.0, 95.5, 95.33, 95.4],
+  CALLE: RISE_FALL_TIERS,
+  PUTE: RISE_FALL_TIERS,
+  CALL: RISE_FALL_TIERS,
+  PUT: RISE_FALL_TIERS,
+
+  // DIGITUNDER_n wins on a last digit < n
+  DIGITUNDER_9: DIGIT_5_PERCENT_TIERS,
+  DIGITUNDER_8: DIGIT_20_PERCENT_TIERS,
+  DIGITUNDER_7: DIGIT_30_PERCENT_TIERS,
+  DIGITUNDER_6: DIGIT_40_PERCENT_TIERS,
+  DIGITUNDER_5: DIGIT_50_PERCENT_TIERS,
+  DIGITUNDER_4: DIGIT_60_PERCENT_TIERS,
+  DIGITUNDER_3: DIGIT_70_PERCENT_TIERS,
+  DIGITUNDER_2: DIGIT_80_PERCENT_TIERS,
+  DIGITUNDER_1: DIGIT_90_PERCENT_TIERS,
+
+  // DIGITOVER_n wins on a last digit > n
+  DIGITOVER_0: DIGIT_5_PERCENT_TIERS,
+  DIGITOVER_1: DIGIT_20_PERCENT_TIERS,
+  DIGITOVER_2: DIGIT_30_PERCENT_TIERS,
+  DIGITOVER_3: DIGIT_40_PERCENT_TIERS,
+  DIGITOVER_4: DIGIT_50_PERCENT_TIERS,
+  DIGITOVER_5: DIGIT_60_PERCENT_TIERS,
+  DIGITOVER_6: DIGIT_70_PERCENT_TIERS,
+  DIGITOVER_7: DIGIT_80_PERCENT_TIERS,
+  DIGITOVER_8: DIGIT_90_PERCENT_TIERS,
+});
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Resolve the reward-table key for a contract type + barrier
+ * (DIGITUNDER / DIGITOVER are priced per barrier).
+ */
+function resolveRewardKey(contractType: string, barrier?: string | number | null) {
+  const type = String(contractType || '').toUpperCase();
+  const hasBarrier = barrier !== undefined && barrier !== null && barrier !== '';
+
+  if ((type === 'DIGITUNDER' || type === 'DIGITOVER') && hasBarrier) {
+    return `${type}_${Number(barrier)}`;
+  }
+  if (type === 'DIGITUNDER') return 'DIGITUNDER_9';
+  if (type === 'DIGITOVER') return 'DIGITOVER_0';
+  return type;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Profit percentage paid on a winning contract.
+ * @param {string} contractType - e.g. 'DIGITDIFF', 'DIGITUNDER', 'CALL'
+ * @param {number} stake
+ * @param {string|number} [barrier] - Prediction / barrier digit for digit contracts
+ * @returns {number|null} Profit percentage, or null if the contract type is not priced
+ */
+function getPayoutRate(contractType: string, stake: number, barrier?: string | number | null): number | null {
+  const tiers = REWARD_TIERS[resolveRewardKey(contractType, barrier)];
+  if (!tiers) return null;
+
+  let tierIndex = 0;
+  for (let i = 0; i < STAKE_TIER_BOUNDS.length; i++) {
+    if (stake >= STAKE_TIER_BOUNDS[i]) tierIndex = i;
+  }
+  return tiers[tierIndex];
+}
+
+/**
+ * Total payout (stake + profit) of a winning contract.
+ * @returns {number} 0 if the contract type is not priced
+ */
+function estimatePayout(contractType: string, stake: number, barrier?: string | number | null): number {
+  const rate = getPayoutRate(contractType, stake, barrier);
+  if (rate === null) return 0;
+  return roundToTwo(stake * (1 + rate / 100));
+}
+
+/**
+ * Contract types with a payout table.
+ * @returns {string[]}
+ */
+function getPricedContractTypes() {
+  return Object.keys(REWARD_TIERS);
+}
+
+export { getPayoutRate, estimatePayout, getPricedContractTypes, STAKE_TIER_BOUNDS };
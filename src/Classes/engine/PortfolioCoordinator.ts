@@ -0,0 +1,539 @@
+/**
+ * @file PortfolioCoordinator.ts
+ * @description Account-wide risk budget shared by every TradingBotManager trading on the
+ *              same Deriv account.
+ *
+ * Each manager enforces its own `max_daily_loss`, drawdown and stop-loss, so N bots on one
+ * account can together lose N times their individual limits. The coordinator sits above
+ * them and enforces:
+ *   - maxDailyLoss       — realised net loss across all bots since the start of the day
+ *   - maxExposure        — realised daily loss + stakes currently in flight + the new stake
+ *   - maxConcurrentStake — stakes currently in flight + the new stake
+ *
+ * When the daily loss budget is spent every bot on the account is halted (lowest priority
+ * first). When exposure or concurrent stake would be exceeded, the trade is held back and
+ * the lowest-priority running bot below the requester is halted so the budget goes to the
+ * higher-priority bots. Bots paused by the coordinator are resumed once the account is
+ * back under its caps, or when the day rolls over. The day follows the manager's own daily
+ * limits: midnight in the `limit_reset_timezone` of the account's first registered bot.
+ *
+ * One `portfolio_limit_hit` event is emitted per breach, for the UI.
+ *
+ * @usage
+ *   const portfolio = new PortfolioCoordinator({
+ *     limits: { maxDailyLoss: 100, maxExposure: 150, maxConcurrentStake: 20 },
+ *     haltAction: 'pause',
+ *   });
+ *   portfolio.register(managerA, { priority: 10 });
+ *   portfolio.register(managerB, { priority: 1 });
+ *   portfolio.on('portfolio_limit_hit', (e) => console.warn(e));
+ */
+
+import { EventEmitter } from 'events';
+import { BOT_STATUSES } from './TradingBotExecutor';
+import { getLimitPeriodStarts } from './LimitCounters';
+import type { TradingBotManager } from './TradingBotManager';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const PORTFOLIO_LIMITS = Object.freeze({
+  DAILY_LOSS: 'daily_loss',
+  EXPOSURE: 'exposure',
+  CONCURRENT_STAKE: 'concurrent_stake',
+});
+
+const DEFAULT_RESUME_CHECK_INTERVAL = 60000;
+const DEFAULT_ACCOUNT_ID = 'default';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type PortfolioLimit = typeof PORTFOLIO_LIMITS[keyof typeof PORTFOLIO_LIMITS];
+export type PortfolioHaltAction = 'pause' | 'stop';
+
+/** Account-wide caps, in account currency. 0 / undefined disables a cap. */
+export interface PortfolioLimits {
+  maxDailyLoss?: number;
+  maxExposure?: number;
+  maxConcurrentStake?: number;
+}
+
+export interface PortfolioCoordinatorOptions {
+  /** Caps applied to every account without its own entry in `accounts`. */
+  limits?: PortfolioLimits;
+  /** Per-account caps keyed by Deriv loginid (e.g. CR123456). */
+  accounts?: Record<string, PortfolioLimits>;
+  /** What to do to bots that are halted by a breach. Defaults to 'pause'. */
+  haltAction?: PortfolioHaltAction;
+  /** How often paused bots are re-checked for resumption (ms). */
+  resumeCheckInterval?: number;
+  /** Clock used for the daily reset. Defaults to Date.now. */
+  now?: () => number;
+}
+
+export interface PortfolioRegistration {
+  /** Higher priority bots keep trading longest when the budget runs out. */
+  priority?: number;
+}
+
+/** Same shape as the manager's pre-trade checks. */
+export interface PortfolioCheck {
+  allowed: boolean;
+  reason?: string;
+  action?: 'wait' | PortfolioHaltAction;
+}
+
+export interface PortfolioBotSnapshot {
+  botId: string;
+  botName: string;
+  priority: number;
+  status: string;
+  openStake: number;
+  dailyProfit: number;
+  haltedBy: PortfolioLimit | null;
+}
+
+export interface PortfolioAccountSnapshot {
+  accountId: string;
+  limits: PortfolioLimits;
+  dailyProfit: number;
+  openStake: number;
+  exposure: number;
+  halted: boolean;
+  bots: PortfolioBotSnapshot[];
+}
+
+export interface PortfolioLimitHitEvent {
+  accountId: string;
+  limit: PortfolioLimit;
+  cap: number;
+  value: number;
+  action: PortfolioHaltAction | 'wait';
+  affectedBots: Array<{ botId: string; botName: string; priority: number }>;
+  timestamp: string;
+}
+
+interface BotEntry {
+  manager: TradingBotManager;
+  accountId: string;
+  priority: number;
+  openStake: number;
+  dailyProfit: number;
+  haltedBy: PortfolioLimit | null;
+}
+
+interface AccountState {
+  accountId: string;
+  /** Start (epoch ms) of the day the daily profit counts */
+  day: number;
+  dailyProfit: number;
+  openStake: number;
+  halted: boolean;
+  breaches: Set<PortfolioLimit>;
+  bots: Set<BotEntry>;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Group bots by Deriv loginid, falling back to the token when the loginid is unknown. */
+function resolveAccountId(manager: TradingBotManager): string {
+  const account = manager?.config?.botAccount || {};
+  return account.account || account.token || DEFAULT_ACCOUNT_ID;
+}
+
+// ─── PortfolioCoordinator ────────────────────────────────────────────────────
+
+class PortfolioCoordinator extends EventEmitter {
+  private _defaultLimits: PortfolioLimits;
+  private _accountLimits: Map<string, PortfolioLimits>;
+  private _haltAction: PortfolioHaltAction;
+  private _resumeCheckInterval: number;
+  private _now: () => number;
+  private _bots: Map<TradingBotManager, BotEntry>;
+  private _accounts: Map<string, AccountState>;
+  private _resumeTimer: ReturnType<typeof setInterval> | null;
+
+  /**
+   * @param {PortfolioCoordinatorOptions} [options]
+   */
+  constructor(options: PortfolioCoordinatorOptions = {}) {
+    super();
+    this._defaultLimits = { ...(options.limits || {}) };
+    this._accountLimits = new Map(Object.entries(options.accounts || {}));
+    this._haltAction = options.haltAction || 'pause';
+    this._resumeCheckInterval = options.resumeCheckInterval || DEFAULT_RESUME_CHECK_INTERVAL;
+    this._now = options.now || Date.now;
+    this._bots = new Map();
+    this._accounts = new Map();
+    this._resumeTimer = null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // REGISTRATION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Put a manager under this coordinator. Its account is read from `botAccount`.
+   * @param {TradingBotManager} manager
+   * @param {PortfolioRegistration} [registration]
+   */
+  register(manager: TradingBotManager, { priority = 0 }: PortfolioRegistration = {}): void {
+    if (this._bots.has(manager)) {
+      this._bots.get(manager)!.priority = priority;
+      return;
+    }
+
+    const accountId = resolveAccountId(manager);
+    const entry: BotEntry = {
+      manager,
+      accountId,
+      priority,
+      openStake: 0,
+      dailyProfit: 0,
+      haltedBy: null,
+    };
+    const account = this._getAccount(accountId);
+    this._bots.set(manager, entry);
+    account.bots.add(entry);
+    if (account.bots.size === 1) account.day = this._dayStart(account);
+    manager.setPortfolioCoordinator(this);
+  }
+
+  /**
+   * Remove a manager. Any stake it still has in flight stops counting toward the account.
+   * @param {TradingBotManager} manager
+   */
+  unregister(manager: TradingBotManager): void {
+    const entry = this._bots.get(manager);
+    if (!entry) return;
+
+    const account = this._getAccount(entry.accountId);
+    account.openStake = roundToTwo(Math.max(0, account.openStake - entry.openStake));
+    account.bots.delete(entry);
+    this._bots.delete(manager);
+    if (manager.portfolioCoordinator === this) manager.setPortfolioCoordinator(null);
+    this._updateResumeTimer();
+  }
+
+  /**
+   * Replace the caps for one account (or the defaults when accountId is omitted).
+   * @param {PortfolioLimits} limits
+   * @param {string} [accountId]
+   */
+  setLimits(limits: PortfolioLimits, accountId?: string): void {
+    if (accountId) this._accountLimits.set(accountId, { ...limits });
+    else this._defaultLimits = { ...limits };
+
+    for (const account of this._accounts.values()) {
+      if (!accountId || account.accountId === accountId) this._reevaluate(account);
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TRADE HOOKS — called by TradingBotManager around each trade
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Ask for budget before a purchase. When allowed, the stake is reserved until
+   * `settleTrade` is called for it.
+   * @param {TradingBotManager} manager
+   * @param {number} stake
+   * @returns {PortfolioCheck}
+   */
+  requestTrade(manager: TradingBotManager, stake: number): PortfolioCheck {
+    const entry = this._bots.get(manager);
+    if (!entry) return { allowed: true };
+
+    const account = this._getAccount(entry.accountId);
+    this._rollDay(account);
+
+    const limits = this.getLimits(account.accountId);
+    if (account.halted) {
+      // The manager halts itself from the returned action; remember it for the day roll
+      entry.haltedBy = PORTFOLIO_LIMITS.DAILY_LOSS;
+      this._updateResumeTimer();
+      return {
+        allowed: false,
+        reason: `Portfolio daily loss limit (${limits.maxDailyLoss}) reached on ${account.accountId}`,
+        action: this._haltAction,
+      };
+    }
+
+    const openStake = roundToTwo(account.openStake + stake);
+    const exposure = roundToTwo(Math.max(0, -account.dailyProfit) + openStake);
+
+    if (limits.maxConcurrentStake && openStake > limits.maxConcurrentStake) {
+      const requester = stake <= limits.maxConcurrentStake ? entry : null;
+      this._breach(account, PORTFOLIO_LIMITS.CONCURRENT_STAKE, limits.maxConcurrentStake, openStake, requester);
+      return {
+        allowed: false,
+        reason: `Portfolio concurrent stake cap (${limits.maxConcurrentStake}) would be exceeded on ${account.accountId}`,
+        action: 'wait',
+      };
+    }
+
+    if (limits.maxExposure && exposure > limits.maxExposure) {
+      const requester = stake <= limits.maxExposure ? entry : null;
+      this._breach(account, PORTFOLIO_LIMITS.EXPOSURE, limits.maxExposure, exposure, requester);
+      return {
+        allowed: false,
+        reason: `Portfolio exposure cap (${limits.maxExposure}) would be exceeded on ${account.accountId}`,
+        action: 'wait',
+      };
+    }
+
+    entry.openStake = roundToTwo(entry.openStake + stake);
+    account.openStake = openStake;
+    return { allowed: true };
+  }
+
+  /**
+   * Release a reserved stake and book its profit. Pass a profit of 0 when the purchase
+   * failed, so the reservation is released without touching the daily P&L.
+   * @param {TradingBotManager} manager
+   * @param {number} stake
+   * @param {number} profit
+   */
+  settleTrade(manager: TradingBotManager, stake: number, profit: number): void {
+    const entry = this._bots.get(manager);
+    if (!entry) return;
+
+    const account = this._getAccount(entry.accountId);
+    entry.openStake = roundToTwo(Math.max(0, entry.openStake - stake));
+    account.openStake = roundToTwo(Math.max(0, account.openStake - stake));
+    this._rollDay(account);
+
+    entry.dailyProfit = roundToTwo(entry.dailyProfit + profit);
+    account.dailyProfit = roundToTwo(account.dailyProfit + profit);
+
+    this._reevaluate(account);
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // QUERIES
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Effective caps for an account.
+   * @param {string} accountId
+   * @returns {PortfolioLimits}
+   */
+  getLimits(accountId: string): PortfolioLimits {
+    return { ...this._defaultLimits, ...(this._accountLimits.get(accountId) || {}) };
+  }
+
+  /**
+   * Current budget usage for one account, or every account with registered bots.
+   * @param {string} [accountId]
+   * @returns {PortfolioAccountSnapshot[]}
+   */
+  getSnapshot(accountId?: string): PortfolioAccountSnapshot[] {
+    const accounts = accountId
+      ? [this._accounts.get(accountId)].filter((a): a is AccountState => !!a)
+      : [...this._accounts.values()];
+
+    return accounts.map((account) => ({
+      accountId: account.accountId,
+      limits: this.getLimits(account.accountId),
+      dailyProfit: account.dailyProfit,
+      openStake: account.openStake,
+      exposure: roundToTwo(Math.max(0, -account.dailyProfit) + account.openStake),
+      halted: account.halted,
+      bots: this._byPriority(account).map((entry) => ({
+        botId: entry.manager.botId,
+        botName: entry.manager.botName,
+        priority: entry.priority,
+        status: entry.manager.status,
+        openStake: entry.openStake,
+        dailyProfit: entry.dailyProfit,
+        haltedBy: entry.haltedBy,
+      })),
+    }));
+  }
+
+  /**
+   * Detach every manager and stop the resume timer.
+   */
+  destroy(): void {
+    for (const manager of [...this._bots.keys()]) this.unregister(manager);
+    this._accounts.clear();
+    if (this._resumeTimer) { clearInterval(this._resumeTimer); this._resumeTimer = null; }
+    this.removeAllListeners();
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // INTERNALS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  private _getAccount(accountId: string): AccountState {
+    let account = this._accounts.get(accountId);
+    if (!account) {
+      account = {
+        accountId,
+        day: getLimitPeriodStarts(this._now()).day,
+        dailyProfit: 0,
+        openStake: 0,
+        halted: false,
+        breaches: new Set(),
+        bots: new Set(),
+      };
+      this._accounts.set(accountId, account);
+    }
+    return account;
+  }
+
+  /**
+   * Start of the current day for an account: midnight in the limit_reset_timezone of its
+   * first registered bot, so the budget rolls over with that bot's daily limits.
+   * @private
+   */
+  private _dayStart(account: AccountState): number {
+    const [first] = account.bots;
+    return getLimitPeriodStarts(this._now(), first?.manager.limitPeriodOptions).day;
+  }
+
+  /**
+   * Start a new budget when a new day begins. Bots halted by the daily loss cap are resumed.
+   * @private
+   */
+  private _rollDay(account: AccountState): boolean {
+    const today = this._dayStart(account);
+    if (today <= account.day) return false;
+
+    account.day = today;
+    account.dailyProfit = 0;
+    account.halted = false;
+    account.breaches.clear();
+    for (const entry of account.bots) entry.dailyProfit = 0;
+    this._resumeHalted(account);
+    return true;
+  }
+
+  /**
+   * Check the realised daily loss and release bots paused for exposure / concurrency
+   * once the account is back under those caps.
+   * @private
+   */
+  private _reevaluate(account: AccountState): void {
+    const limits = this.getLimits(account.accountId);
+    const dailyLoss = Math.max(0, -account.dailyProfit);
+
+    if (!account.halted && limits.maxDailyLoss && dailyLoss >= limits.maxDailyLoss) {
+      account.halted = true;
+      this._breach(account, PORTFOLIO_LIMITS.DAILY_LOSS, limits.maxDailyLoss, roundToTwo(dailyLoss), null);
+      return;
+    }
+    if (account.halted) return;
+
+    const exposure = dailyLoss + account.openStake;
+    if (!limits.maxConcurrentStake || account.openStake < limits.maxConcurrentStake) {
+      account.breaches.delete(PORTFOLIO_LIMITS.CONCURRENT_STAKE);
+    }
+    if (!limits.maxExposure || exposure < limits.maxExposure) {
+      account.breaches.delete(PORTFOLIO_LIMITS.EXPOSURE);
+    }
+    if (account.breaches.size === 0) this._resumeHalted(account);
+  }
+
+  /**
+   * Halt the bots affected by a breach and emit `portfolio_limit_hit` the first time
+   * the breach is seen.
+   *
+   * Daily loss halts every bot on the account. Exposure / concurrency halts the single
+   * lowest-priority running bot ranked below the requester, if there is one. No requester
+   * is passed when its stake alone exceeds the cap, since halting others can't make room.
+   * @private
+   */
+  private _breach(
+    account: AccountState,
+    limit: PortfolioLimit,
+    cap: number,
+    value: number,
+    requester: BotEntry | null,
+  ): void {
+    const running = this._byPriority(account).filter(
+      (entry) => entry.manager.status === BOT_STATUSES.START,
+    );
+    const victims = limit === PORTFOLIO_LIMITS.DAILY_LOSS
+      ? running
+      : running.filter((entry) => requester && entry.priority < requester.priority).slice(0, 1);
+
+    for (const entry of victims) this._halt(entry, limit);
+    this._updateResumeTimer();
+
+    if (account.breaches.has(limit) && victims.length === 0) return;
+    account.breaches.add(limit);
+
+    const event: PortfolioLimitHitEvent = {
+      accountId: account.accountId,
+      limit,
+      cap,
+      value,
+      action: victims.length > 0 ? this._haltAction : 'wait',
+      affectedBots: victims.map((entry) => ({
+        botId: entry.manager.botId,
+        botName: entry.manager.botName,
+        priority: entry.priority,
+      })),
+      timestamp: new Date(this._now()).toISOString(),
+    };
+    this.emit('portfolio_limit_hit', event);
+  }
+
+  /** @private */
+  private _halt(entry: BotEntry, limit: PortfolioLimit): void {
+    entry.haltedBy = limit;
+    if (this._haltAction === 'stop') {
+      Promise.resolve(entry.manager.stop()).catch(() => {});
+    } else {
+      entry.manager.pause();
+    }
+  }
+
+  /**
+   * Resume bots this coordinator paused, highest priority first. Bots the user has
+   * since resumed or stopped are simply forgotten.
+   * @private
+   */
+  private _resumeHalted(account: AccountState): void {
+    for (const entry of [...this._byPriority(account)].reverse()) {
+      if (!entry.haltedBy) continue;
+      entry.haltedBy = null;
+      if (this._haltAction === 'pause' && entry.manager.status === BOT_STATUSES.PAUSE) {
+        entry.manager.resume();
+      }
+    }
+    this._updateResumeTimer();
+  }
+
+  /**
+   * Paused bots don't trade, so nothing would call `requestTrade` to notice the new day.
+   * Poll while any bot is halted by the coordinator.
+   * @private
+   */
+  private _updateResumeTimer(): void {
+    const anyHalted = [...this._bots.values()].some((entry) => entry.haltedBy);
+
+    if (anyHalted && !this._resumeTimer) {
+      this._resumeTimer = setInterval(() => {
+        for (const account of this._accounts.values()) {
+          if (!this._rollDay(account)) this._reevaluate(account);
+        }
+      }, this._resumeCheckInterval);
+    } else if (!anyHalted && this._resumeTimer) {
+      clearInterval(this._resumeTimer);
+      this._resumeTimer = null;
+    }
+  }
+
+  /** @private Lowest priority first. */
+  private _byPriority(account: AccountState): BotEntry[] {
+    return [...account.bots].sort((a, b) => a.priority - b.priority);
+  }
+}
+
+export { PortfolioCoordinator, PORTFOLIO_LIMITS };
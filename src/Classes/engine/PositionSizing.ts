@@ -0,0 +1,228 @@
+/**
+ * @file PositionSizing.ts
+ * @description Base stake sized from the live balance (`risk_management_section` with
+ *              `position_sizing` on), and the loss budget of a stake progression.
+ *
+ * Two sizing modes set the base stake the stake strategy builds on:
+ *   - fixed_fractional  base = balance × base_stake_percentage
+ *   - kelly             base = balance × kelly_fraction × Kelly, where
+ *                       Kelly = p − (1 − p) ÷ b for win probability p and net odds b
+ *                       (payout rate ÷ 100)
+ *
+ * The win probability is `win_probability` when configured, otherwise the bot's observed
+ * win rate once it has `min_observed_trades` trades (default 30), otherwise the contract's
+ * own probability (exact for digit and rise/fall contracts). At the contract's own
+ * probability Deriv's margin leaves no edge, so Kelly only sizes a bot whose configured or
+ * observed win rate beats the payout. Without an edge (Kelly ≤ 0) or a known payout rate,
+ * no base is sized and the caller keeps its configured base stake.
+ *
+ * `max_ladder_percentage` caps what one progression may lose: the losses since the ladder
+ * left its base plus the next stake, as a % of the balance the base was sized from.
+ *
+ * @usage
+ *   const sizing = sizeBaseStake(settings, { balance: 1000, payoutRate: 95, contractType: 'DIGITEVEN', wins, trades });
+ *   if (sizing.baseStake !== null) session.baseStake = sizing.baseStake;
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SizingMode = 'fixed_fractional' | 'kelly';
+
+export type WinProbabilitySource = 'configured' | 'observed' | 'contract';
+
+/** The position sizing fields of the bot's advanced_settings.risk_management_section */
+export interface PositionSizingSettings {
+  position_sizing?: boolean;
+  sizing_mode?: SizingMode | null;
+  /** Base stake as a % of the balance ('fixed_fractional') */
+  base_stake_percentage?: number | null;
+  /** Share of the full Kelly stake to bet, 0-1 (default 0.25) */
+  kelly_fraction?: number | null;
+  /** Win probability in %; observed / contract probability when unset */
+  win_probability?: number | null;
+  min_observed_trades?: number | null;
+  /** Most one progression may lose, as a % of the balance its base was sized from */
+  max_ladder_percentage?: number | null;
+}
+
+export interface SizingInputs {
+  balance: number;
+  /** Payout % on a win, e.g. 95 */
+  payoutRate: number | null;
+  contractType: string;
+  barrier?: string | number | null;
+  /** Observed results (wins out of trades) */
+  wins: number;
+  trades: number;
+}
+
+export interface SizingResult {
+  mode: SizingMode;
+  /** The base stake, or null when this mode has no answer (keep the configured base) */
+  baseStake: number | null;
+  /** Base stake as a % of the balance */
+  percentage: number | null;
+  winProbability: number | null;
+  winProbabilitySource: WinProbabilitySource | null;
+  payoutRate: number | null;
+  /** Full Kelly fraction (negative without an edge) */
+  kelly: number | null;
+  /** Why no base stake was sized */
+  reason: string | null;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const SIZING_MODES = Object.freeze(['fixed_fractional', 'kelly']);
+
+const DEFAULT_KELLY_FRACTION = 0.25;
+const DEFAULT_MIN_OBSERVED_TRADES = 30;
+
+// Exact win probabilities of fair digit / direction contracts
+const DIGIT_WIN_PROBABILITY: Readonly<Record<string, (barrier: number) => number>> = Object.freeze({
+  DIGITOVER: (barrier: number) => (9 - barrier) / 10,
+  DIGITUNDER: (barrier: number) => barrier / 10,
+  DIGITMATCH: () => 0.1,
+  DIGITDIFF: () => 0.9,
+  DIGITEVEN: () => 0.5,
+  DIGITODD: () => 0.5,
+});
+
+const DIRECTION_CONTRACTS = new Set(['CALL', 'PUT', 'CALLE', 'PUTE']);
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function isPositionSizingEnabled(settings?: PositionSizingSettings | null): boolean {
+  return Boolean(settings?.position_sizing);
+}
+
+function getSizingMode(settings?: PositionSizingSettings | null): SizingMode {
+  const mode = settings?.sizing_mode;
+  return mode && SIZING_MODES.includes(mode) ? mode : 'fixed_fractional';
+}
+
+/**
+ * Win probability of one contract: exact for digit and rise/fall contracts, otherwise
+ * the break-even probability implied by the payout rate.
+ * @param {string} contractType
+ * @param {string|number} [barrier]
+ * @param {number|null} [payoutRate] - Payout % on a win
+ * @returns {number} 0-1
+ */
+function getWinProbability(contractType: string, barrier?: string | number | null, payoutRate?: number | null): number {
+  const digit = DIGIT_WIN_PROBABILITY[contractType];
+  if (digit) return digit(Number(barrier) || 0);
+  if (DIRECTION_CONTRACTS.has(contractType)) return 0.5;
+  if (payoutRate !== null && payoutRate !== undefined && payoutRate > 0) return 1 / (1 + payoutRate / 100);
+  return 0.5;
+}
+
+/**
+ * Full Kelly fraction of the balance for a bet won with probability `p` at `payoutRate`.
+ * @param {number} p - 0-1
+ * @param {number} payoutRate - Payout % on a win
+ * @returns {number} Negative when the bet has no edge
+ */
+function getKellyFraction(p: number, payoutRate: number): number {
+  const odds = payoutRate / 100;
+  if (odds <= 0) return -1;
+  return p - (1 - p) / odds;
+}
+
+/**
+ * The win probability Kelly sizes with, and where it came from.
+ * @param {PositionSizingSettings} settings
+ * @param {SizingInputs} inputs
+ * @returns {{ p: number, source: WinProbabilitySource }}
+ */
+function resolveWinProbability(
+  settings: PositionSizingSettings,
+  inputs: SizingInputs,
+): { p: number; source: WinProbabilitySource } {
+  const configured = positiveOrNull(settings.win_probability);
+  if (configured !== null) return { p: Math.min(configured, 100) / 100, source: 'configured' };
+
+  const minTrades = positiveOrNull(settings.min_observed_trades) ?? DEFAULT_MIN_OBSERVED_TRADES;
+  if (inputs.trades >= minTrades && inputs.trades > 0) {
+    return { p: inputs.wins / inputs.trades, source: 'observed' };
+  }
+  return { p: getWinProbability(inputs.contractType, inputs.barrier, inputs.payoutRate), source: 'contract' };
+}
+
+// ─── Sizing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Base stake for the balance.
+ * @param {PositionSizingSettings} settings
+ * @param {SizingInputs} inputs
+ * @returns {SizingResult}
+ */
+function sizeBaseStake(settings: PositionSizingSettings, inputs: SizingInputs): SizingResult {
+  const mode = getSizingMode(settings);
+  const result: SizingResult = {
+    mode,
+    baseStake: null,
+    percentage: null,
+    winProbability: null,
+    winProbabilitySource: null,
+    payoutRate: positiveOrNull(inputs.payoutRate),
+    kelly: null,
+    reason: null,
+  };
+  const balance = Number(inputs.balance) || 0;
+  if (balance <= 0) return { ...result, reason: 'No balance to size from' };
+
+  if (mode === 'fixed_fractional') {
+    const percentage = positiveOrNull(settings.base_stake_percentage);
+    if (percentage === null) return { ...result, reason: 'No base stake percentage' };
+    return { ...result, percentage, baseStake: roundToTwo(balance * (percentage / 100)) };
+  }
+
+  if (result.payoutRate === null) return { ...result, reason: `No payout rate for ${inputs.contractType}` };
+  const { p, source } = resolveWinProbability(settings, inputs);
+  const kelly = getKellyFraction(p, result.payoutRate);
+  const sized = {
+    ...result,
+    winProbability: roundToTwo(p * 100),
+    winProbabilitySource: source,
+    kelly: Math.round(kelly * 10000) / 10000,
+  };
+  if (kelly <= 0) {
+    return { ...sized, reason: `No edge at ${sized.winProbability}% (${source}) and ${result.payoutRate}% payout` };
+  }
+
+  const fraction = Math.min(1, positiveOrNull(settings.kelly_fraction) ?? DEFAULT_KELLY_FRACTION);
+  const percentage = roundToTwo(kelly * fraction * 100);
+  return { ...sized, percentage, baseStake: roundToTwo(balance * kelly * fraction) };
+}
+
+/**
+ * Most one progression may lose, from the balance its base was sized from.
+ * @param {PositionSizingSettings} settings
+ * @param {number} sizedBalance
+ * @returns {number|null} null without a ladder cap
+ */
+function getLadderBudget(settings: PositionSizingSettings | null | undefined, sizedBalance: number): number | null {
+  const percentage = positiveOrNull(settings?.max_ladder_percentage);
+  if (percentage === null || !(sizedBalance > 0)) return null;
+  return roundToTwo(sizedBalance * (percentage / 100));
+}
+
+export {
+  SIZING_MODES,
+  isPositionSizingEnabled,
+  getWinProbability,
+  getKellyFraction,
+  resolveWinProbability,
+  sizeBaseStake,
+  getLadderBudget,
+};
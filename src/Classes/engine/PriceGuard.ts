@@ -0,0 +1,199 @@
+/**
+ * @file PriceGuard.ts
+ * @description Pre-buy proposal check (`price_guard_section`): compare the quoted payout and
+ *              ask price with what the bot expects before buying, and the max-price cap the
+ *              buy is sent with.
+ *
+ * The executor quotes a proposal, checks it and buys only if the offer is good enough:
+ *   - min_payout_ratio              refuse when payout ÷ ask price is below this (e.g. 1.9)
+ *   - payout_tolerance_percentage   refuse when the payout falls short of the expected payout
+ *                                   by more than this % (default 0 — any shortfall)
+ *   - max_requotes                  fresh proposals requested before giving up (default 2)
+ *   - max_price_slippage_percentage headroom over the quoted ask allowed by the buy's
+ *                                   `price` (default 0 — never pay more than quoted)
+ *
+ * The expected payout is the one the strategy step was sized for (StakeDecision
+ * `payoutRate`), otherwise the PayoutTable rate for the contract. Contracts the table does
+ * not price only get the ratio check; multipliers (no payout) only get the max-price cap.
+ *
+ * The max-price cap applies to every live buy, guard enabled or not: Deriv rejects the buy
+ * (PriceMoved) instead of filling it at a worse price than the one that was checked.
+ *
+ * @usage
+ *   const check = checkProposal(params, { askPrice: 10, payout: 19.5 }, { settings, payoutRate: 92 });
+ *   if (!check.accepted) requote();
+ *   else await contract.buy({ max_price: check.maxPrice });
+ */
+
+import { getPayoutRate } from './PayoutTable';
+import { isMultiplierContract } from './Multipliers';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type PriceGuardReason = 'min_payout_ratio' | 'expected_payout';
+
+/** The bot's advanced_settings.price_guard_section */
+export interface PriceGuardSettings {
+  price_guard?: boolean;
+  min_payout_ratio?: number | null;
+  payout_tolerance_percentage?: number | null;
+  max_requotes?: number | null;
+  max_price_slippage_percentage?: number | null;
+}
+
+/** What the executor needs to check a trade's proposals */
+export interface PriceGuardOptions {
+  settings?: PriceGuardSettings | null;
+  /** Payout % (profit per unit stake) the strategy step assumed, e.g. 92 */
+  payoutRate?: number | null;
+}
+
+/** Ask price and payout of a Deriv proposal */
+export interface ProposalQuote {
+  askPrice: number;
+  payout: number;
+}
+
+export interface PriceCheck {
+  accepted: boolean;
+  /** Whether the payout checks ran (price guard on, not a multiplier) */
+  guarded: boolean;
+  reason: PriceGuardReason | null;
+  message: string | null;
+  askPrice: number;
+  payout: number;
+  /** payout ÷ ask price, or null without a payout */
+  payoutRatio: number | null;
+  expectedPayout: number | null;
+  /** Most the buy may cost (Deriv `price`), or null when the quote has no ask price */
+  maxPrice: number | null;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_MAX_REQUOTES = 2;
+
+/** Pause before asking for a fresh proposal (ms) */
+const REQUOTE_DELAY_MS = 1000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function isPriceGuardEnabled(settings?: PriceGuardSettings | null): boolean {
+  return Boolean(settings?.price_guard);
+}
+
+/**
+ * Fresh proposals to request after a refused quote (0 when the guard is off).
+ * @param {PriceGuardOptions} [options]
+ * @returns {number}
+ */
+function getMaxRequotes(options?: PriceGuardOptions | null) {
+  const settings = options?.settings;
+  if (!isPriceGuardEnabled(settings)) return 0;
+  const value = settings?.max_requotes;
+  if (value === null || value === undefined || String(value) === '') return DEFAULT_MAX_REQUOTES;
+  return Math.max(0, Math.floor(Number(value) || 0));
+}
+
+// ─── Pricing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Payout the trade is expected to pay on a win: the strategy step's rate, otherwise the
+ * PayoutTable rate for the contract.
+ * @param {Object} params       - ContractParams (amount, contract_type, barrier)
+ * @param {number} [payoutRate] - Payout % assumed by the strategy step
+ * @returns {number|null} null for contracts without a known rate
+ */
+function getExpectedPayout(params: Record<string, any>, payoutRate?: number | null): number | null {
+  const stake = Number(params.amount) || 0;
+  if (stake <= 0 || isMultiplierContract(params.contract_type)) return null;
+  const rate = positiveOrNull(payoutRate) ?? getPayoutRate(params.contract_type, stake, params.barrier);
+  return rate === null ? null : roundToTwo(stake * (1 + rate / 100));
+}
+
+/**
+ * Deriv `price` for the buy: the quoted ask plus the allowed slippage.
+ * @param {number} askPrice
+ * @param {PriceGuardSettings} [settings]
+ * @returns {number|null} null when the quote has no ask price
+ */
+function getMaxBuyPrice(askPrice: number, settings?: PriceGuardSettings | null): number | null {
+  const ask = positiveOrNull(askPrice);
+  if (ask === null) return null;
+  const slippage = positiveOrNull(settings?.max_price_slippage_percentage) ?? 0;
+  return roundToTwo(ask * (1 + slippage / 100));
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+/**
+ * Whether a proposal may be bought. Always accepted when the guard is off.
+ * @param {Object} params             - ContractParams the proposal was quoted for
+ * @param {ProposalQuote} quote
+ * @param {PriceGuardOptions} [options]
+ * @returns {PriceCheck}
+ */
+function checkProposal(params: Record<string, any>, quote: ProposalQuote, options: PriceGuardOptions = {}): PriceCheck {
+  const settings = options.settings || null;
+  const askPrice = Number(quote.askPrice) || 0;
+  const payout = Number(quote.payout) || 0;
+  const payoutRatio = askPrice > 0 && payout > 0 ? roundToTwo(payout / askPrice) : null;
+  const expectedPayout = getExpectedPayout(params, options.payoutRate);
+
+  const check: PriceCheck = {
+    accepted: true,
+    guarded: false,
+    reason: null,
+    message: null,
+    askPrice,
+    payout,
+    payoutRatio,
+    expectedPayout,
+    maxPrice: getMaxBuyPrice(askPrice, settings),
+  };
+  if (!isPriceGuardEnabled(settings) || isMultiplierContract(params.contract_type)) return check;
+  check.guarded = true;
+
+  const minRatio = positiveOrNull(settings?.min_payout_ratio);
+  if (minRatio !== null && (payoutRatio === null || payoutRatio < minRatio)) {
+    return {
+      ...check,
+      accepted: false,
+      reason: 'min_payout_ratio',
+      message: `Payout ratio ${payoutRatio ?? 0} is below the minimum ${minRatio}`,
+    };
+  }
+
+  if (expectedPayout !== null) {
+    const tolerance = positiveOrNull(settings?.payout_tolerance_percentage) ?? 0;
+    const floor = roundToTwo(expectedPayout * (1 - tolerance / 100));
+    if (payout < floor) {
+      return {
+        ...check,
+        accepted: false,
+        reason: 'expected_payout',
+        message: `Payout ${payout} is below the expected ${expectedPayout}`,
+      };
+    }
+  }
+
+  return check;
+}
+
+export {
+  REQUOTE_DELAY_MS,
+  isPriceGuardEnabled,
+  getMaxRequotes,
+  getExpectedPayout,
+  getMaxBuyPrice,
+  checkProposal,
+};
@@ -0,0 +1,528 @@
+/**
+ * @file RecoveryStakeStrategies.ts
+ * @description Engine ports of the trader's Enhanced1326Strategy and
+ *              CallMultiplicativeRecoveryStrategy on the StakeStrategy plugin interface.
+ *
+ * Unlike the progressions in StakeStrategies.ts these keep their own profit, loss and daily
+ * limits, so nextStake() returns a full StakeDecision: when a limit is hit the decision has
+ * `shouldTrade: false` and the manager stops, cools down or waits per `action`. Counters and
+ * statistics live in `ctx.state` so they survive checkpoints, and `getStatistics` feeds them
+ * into the bot's `statistics.strategyStatistics`.
+ *
+ * Registered by StakeStrategyRegistry; import from there rather than from this file.
+ */
+
+import type { StakeDecision, StakeStrategy, StakeStrategyContext } from './StakeStrategyRegistry';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function dayKey(timestamp: number) {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Reset the daily counters when the strategy's clock has moved to a new day.
+ * @returns {boolean} Whether a new day started
+ */
+function rollDay(ctx: StakeStrategyContext) {
+  const today = dayKey(ctx.now());
+  if (ctx.state.day === today) return false;
+
+  if (ctx.state.day) ctx.log('Stake strategy: new trading day, daily counters reset');
+  ctx.state.day = today;
+  ctx.state.tradesToday = 0;
+  ctx.state.dailyProfit = 0;
+  return true;
+}
+
+/** Stand down after a long, clearly losing day (over 30 trades and half the loss threshold). */
+function isLosingDay(ctx: StakeStrategyContext, lossThreshold: number) {
+  return ctx.state.tradesToday > 30 && ctx.state.dailyProfit < -lossThreshold * 0.5;
+}
+
+// ─── Enhanced 1-3-2-6 ────────────────────────────────────────────────────────
+
+type SequenceMode = 'base' | 'aggressive' | 'conservative' | 'neutral';
+
+const SEQUENCE_VARIANTS: Record<SequenceMode, number[]> = {
+  base: [1, 3, 2, 6],
+  conservative: [1, 2, 3, 4],
+  aggressive: [1, 3, 5, 7],
+  neutral: [1, 3, 2, 6],
+};
+
+const SEQUENCE_RECOVERY_MULTIPLIERS: Record<SequenceMode, number> = {
+  base: 15,
+  conservative: 10.75,
+  aggressive: 12.5,
+  neutral: 5,
+};
+
+/** Abandoned sequences allowed per day before the strategy stands down */
+const MAX_FAILED_SEQUENCES = 3;
+/** Sequences attempted without a single completion before the strategy gives up */
+const MAX_SEQUENCE_ATTEMPTS = 5;
+
+function enhanced1326Config(ctx: StakeStrategyContext) {
+  const s = ctx.settings.enhanced_1326_strategy_section || {};
+  const initialStake = ctx.resolveValue(s.enhanced_1326_base_unit) || ctx.session.baseStake;
+  const mode = s.enhanced_1326_recovery_mode as SequenceMode;
+
+  return {
+    initialStake,
+    profitThreshold: ctx.resolveValue(s.enhanced_1326_profit_threshold) || initialStake * 200,
+    lossThreshold: ctx.resolveValue(s.enhanced_1326_loss_threshold) || initialStake * 100,
+    maxRecoveryAttempts: s.enhanced_1326_max_recovery_attempts || 2,
+    recoveryMode: SEQUENCE_VARIANTS[mode] ? mode : 'neutral' as SequenceMode,
+    sequenceProtection: s.enhanced_1326_sequence_protection ?? true,
+    maxDailyTrades: s.enhanced_1326_max_daily_trades || 50,
+    profitLock: s.enhanced_1326_profit_lock ?? true,
+  };
+}
+
+type Enhanced1326Config = ReturnType<typeof enhanced1326Config>;
+
+/** Neutral while recovering, conservative on a losing streak, otherwise the configured mode. */
+function selectSequence(ctx: StakeStrategyContext, config: Enhanced1326Config) {
+  if (ctx.state.inRecovery) return SEQUENCE_VARIANTS.neutral;
+  if (ctx.state.consecutiveLosses >= 2) return SEQUENCE_VARIANTS.conservative;
+  return SEQUENCE_VARIANTS[config.recoveryMode];
+}
+
+function resetSequence(ctx: StakeStrategyContext, config: Enhanced1326Config) {
+  ctx.state.position = 0;
+  ctx.state.sequence = selectSequence(ctx, config);
+  ctx.state.sequenceProfit = 0;
+}
+
+/** Stake sized to win back the running loss, capped at a quarter of the loss threshold. */
+function sequenceRecoveryStake(ctx: StakeStrategyContext, config: Enhanced1326Config) {
+  const multiplier = SEQUENCE_RECOVERY_MULTIPLIERS[config.recoveryMode] *
+    (1 + ctx.state.consecutiveLosses * 0.1);
+  const stake = Math.abs(ctx.state.totalProfit) * multiplier;
+  return Math.max(config.initialStake, Math.min(stake, config.lossThreshold * 0.25));
+}
+
+function sequenceStake(ctx: StakeStrategyContext, config: Enhanced1326Config) {
+  const multiplier = ctx.state.sequence[ctx.state.position];
+  return multiplier > 0 ? config.initialStake * multiplier : config.initialStake;
+}
+
+/** The loss threshold tightens by 10% per consecutive loss, down to half. */
+function effectiveLossThreshold(ctx: StakeStrategyContext, config: Enhanced1326Config) {
+  const reduction = 1 - 0.1 * ctx.state.consecutiveLosses;
+  return Math.max(config.lossThreshold * 0.5, config.lossThreshold * reduction);
+}
+
+function enhanced1326Decline(ctx: StakeStrategyContext, config: Enhanced1326Config): StakeDecision | null {
+  const state = ctx.state;
+
+  if (state.tradesToday >= config.maxDailyTrades) {
+    return { shouldTrade: false, reason: 'Daily trade limit reached', action: 'wait' };
+  }
+  if (isLosingDay(ctx, config.lossThreshold)) {
+    return { shouldTrade: false, reason: 'Stopping after significant losses today' };
+  }
+  if (state.totalProfit >= config.profitThreshold) {
+    return { shouldTrade: false, reason: `Profit target reached (${state.totalProfit.toFixed(2)})` };
+  }
+  if (state.totalProfit <= -config.lossThreshold) {
+    return { shouldTrade: false, reason: `Loss limit reached (${Math.abs(state.totalProfit).toFixed(2)})` };
+  }
+  if (state.consecutiveLosses >= config.maxRecoveryAttempts) {
+    return { shouldTrade: false, reason: `Max consecutive losses (${state.consecutiveLosses})` };
+  }
+  if (state.inRecovery && state.totalProfit < -(config.lossThreshold * 0.5)) {
+    return { shouldTrade: false, reason: 'Sequence safety check failed: deep in recovery' };
+  }
+  if (state.stats.sequencesFailed >= MAX_SEQUENCE_ATTEMPTS && state.stats.sequencesCompleted === 0) {
+    return { shouldTrade: false, reason: `No completed sequence in ${state.stats.sequencesFailed} attempts` };
+  }
+  if (state.failedSequencesToday >= MAX_FAILED_SEQUENCES) {
+    return { shouldTrade: false, reason: 'Sequence safety check failed: too many failed sequences today', action: 'wait' };
+  }
+  if (state.totalProfit <= -effectiveLossThreshold(ctx, config)) {
+    return { shouldTrade: false, reason: 'Effective loss threshold reached' };
+  }
+  return null;
+}
+
+const enhanced1326: StakeStrategy = {
+  id: 'enhanced_1326',
+  name: 'Enhanced 1-3-2-6',
+
+  init(ctx, saved) {
+    const config = enhanced1326Config(ctx);
+    return {
+      sequence: SEQUENCE_VARIANTS[config.recoveryMode],
+      position: 0,
+      totalProfit: 0,
+      sequenceProfit: 0,
+      consecutiveWins: 0,
+      consecutiveLosses: 0,
+      recoveryAttempts: 0,
+      inRecovery: false,
+      day: null,
+      tradesToday: 0,
+      dailyProfit: 0,
+      failedSequencesToday: 0,
+      stats: {
+        totalWins: 0,
+        totalLosses: 0,
+        sequencesCompleted: 0,
+        sequencesFailed: 0,
+        maxWinStreak: 0,
+        maxLossStreak: 0,
+        bestSequenceProfit: 0,
+        worstSequenceLoss: 0,
+        totalRecoveryAttempts: 0,
+        successfulRecoveries: 0,
+      },
+      ...saved,
+    };
+  },
+
+  nextStake(ctx) {
+    const config = enhanced1326Config(ctx);
+    const state = ctx.state;
+
+    if (rollDay(ctx)) state.failedSequencesToday = 0;
+
+    // Bank the session once half the target is in, or a sequence has paid 10 units
+    if (config.profitLock && state.totalProfit > 0 &&
+        (state.totalProfit >= config.profitThreshold * 0.5 ||
+         state.sequenceProfit >= config.initialStake * 10)) {
+      resetSequence(ctx, config);
+      return { shouldTrade: false, reason: `Profit lock activated (${state.totalProfit.toFixed(2)})` };
+    }
+
+    const declined = enhanced1326Decline(ctx, config);
+    if (declined) return declined;
+
+    let stake = sequenceStake(ctx, config);
+    if (state.totalProfit < 0) {
+      stake = sequenceRecoveryStake(ctx, config);
+    } else if (state.inRecovery) {
+      stake = Math.min(sequenceRecoveryStake(ctx, config), stake);
+    }
+
+    return {
+      shouldTrade: true,
+      stake: roundToTwo(stake),
+      metadata: {
+        sequence: state.sequence.join('-'),
+        sequencePosition: state.position,
+        inRecovery: state.inRecovery,
+      },
+    };
+  },
+
+  onWin(ctx, result) {
+    const config = enhanced1326Config(ctx);
+    const state = ctx.state;
+    state.tradesToday++;
+    state.dailyProfit += result.profit;
+    state.totalProfit += result.profit;
+    state.sequenceProfit += result.profit;
+    state.consecutiveWins++;
+    state.consecutiveLosses = 0;
+    state.stats.totalWins++;
+    state.stats.maxWinStreak = Math.max(state.stats.maxWinStreak, state.consecutiveWins);
+
+    if (state.inRecovery) {
+      state.stats.totalRecoveryAttempts++;
+      // Leave recovery once the loss is back within 75% of the threshold
+      if (state.totalProfit >= -(config.lossThreshold * 0.75)) {
+        state.inRecovery = false;
+        state.recoveryAttempts = 0;
+        state.stats.successfulRecoveries++;
+        resetSequence(ctx, config);
+        ctx.emit('strategy_recovery_exited', { strategy: 'enhanced_1326', totalProfit: state.totalProfit });
+      }
+      return;
+    }
+
+    state.position++;
+    if (state.position >= state.sequence.length) {
+      state.stats.sequencesCompleted++;
+      state.stats.bestSequenceProfit = Math.max(state.stats.bestSequenceProfit, state.sequenceProfit);
+      ctx.emit('strategy_reset', { message: `Enhanced 1-3-2-6 sequence ${state.sequence.join('-')} complete` });
+      resetSequence(ctx, config);
+    }
+  },
+
+  onLoss(ctx, result) {
+    const config = enhanced1326Config(ctx);
+    const state = ctx.state;
+    state.tradesToday++;
+    state.dailyProfit += result.profit;
+    state.totalProfit += result.profit;
+    state.sequenceProfit += result.profit;
+    state.consecutiveLosses++;
+    state.consecutiveWins = 0;
+    state.stats.totalLosses++;
+    state.stats.maxLossStreak = Math.max(state.stats.maxLossStreak, state.consecutiveLosses);
+    state.stats.worstSequenceLoss = Math.min(state.stats.worstSequenceLoss, state.sequenceProfit);
+
+    if (state.inRecovery) {
+      state.recoveryAttempts++;
+      state.stats.totalRecoveryAttempts++;
+      return;
+    }
+
+    // First loss keeps the sequence; a second abandons it
+    if (state.consecutiveLosses >= 2) {
+      state.stats.sequencesFailed++;
+      state.failedSequencesToday++;
+      if (config.sequenceProtection) {
+        state.inRecovery = true;
+        state.sequence = selectSequence(ctx, config);
+        state.position = 0;
+        ctx.emit('strategy_recovery_entered', { strategy: 'enhanced_1326', totalProfit: state.totalProfit });
+      } else {
+        resetSequence(ctx, config);
+      }
+    }
+  },
+
+  reset(ctx) {
+    ctx.state = enhanced1326.init(ctx, { stats: ctx.state.stats });
+  },
+
+  getStatistics(ctx) {
+    return {
+      ...ctx.state.stats,
+      totalProfit: roundToTwo(ctx.state.totalProfit),
+      sequence: ctx.state.sequence.join('-'),
+      sequencePosition: ctx.state.position,
+      inRecovery: ctx.state.inRecovery,
+    };
+  },
+};
+
+// ─── CALL Multiplicative Recovery ────────────────────────────────────────────
+
+type MultiplicativeMode = 'standard' | 'aggressive' | 'conservative';
+
+const MULTIPLICATIVE_RECOVERY_MULTIPLIERS: Record<MultiplicativeMode, number> = {
+  standard: 2.5,
+  aggressive: 3,
+  conservative: 2,
+};
+
+/** CALL payout (profit per unit stake) the recovery stakes are sized for */
+const PAYOUT_RATE = 0.92;
+const MINIMUM_STAKE = 0.35;
+const VOLATILITY_REDUCTION = 0.7;
+/** Trades kept for the market-condition window */
+const CONDITION_WINDOW = 20;
+/** Trades needed before the market-condition filter applies (one early loss would block forever) */
+const MIN_CONDITION_SAMPLE = 5;
+
+function callMultiplicativeConfig(ctx: StakeStrategyContext) {
+  const s = ctx.settings.call_multiplicative_recovery_strategy_section || {};
+  const initialStake = ctx.resolveValue(s.call_multiplicative_base_stake) || ctx.session.baseStake;
+  const mode = s.call_multiplicative_recovery_mode as MultiplicativeMode;
+
+  return {
+    initialStake,
+    profitThreshold: ctx.resolveValue(s.call_multiplicative_profit_threshold) || initialStake * 100,
+    lossThreshold: ctx.resolveValue(s.call_multiplicative_loss_threshold) || initialStake * 50,
+    maxRecoveryAttempts: s.call_multiplicative_max_recovery_attempts || 3,
+    maxDailyTrades: s.call_multiplicative_max_daily_trades || 50,
+    maxStakeMultiplier: s.call_multiplicative_max_stake_multiplier || 10,
+    recoveryMode: MULTIPLICATIVE_RECOVERY_MULTIPLIERS[mode] ? mode : 'standard' as MultiplicativeMode,
+    enableRecovery: s.call_multiplicative_enable_recovery ?? true,
+    autoAdjust: s.call_multiplicative_auto_adjust ?? true,
+    maxVolatility: s.call_multiplicative_max_volatility ?? 0.6,
+    minWinRate: s.call_multiplicative_min_win_rate ?? 0.4,
+    duration: s.call_multiplicative_duration || 1,
+  };
+}
+
+type CallMultiplicativeConfig = ReturnType<typeof callMultiplicativeConfig>;
+
+/**
+ * Volatility (how far average |profit| strays from a base-stake payout) and win rate over
+ * the last CONDITION_WINDOW trades. Until MIN_CONDITION_SAMPLE trades are in, both sit
+ * exactly on their limits.
+ */
+function marketConditions(ctx: StakeStrategyContext, config: CallMultiplicativeConfig) {
+  const recent: Array<{ isWin: boolean; profit: number }> = ctx.state.recent;
+  if (recent.length < MIN_CONDITION_SAMPLE) return { volatility: 0, winRate: config.minWinRate };
+
+  const wins = recent.filter((t) => t.isWin).length;
+  const averageProfit = recent.reduce((sum, t) => sum + Math.abs(t.profit), 0) / recent.length;
+  return {
+    volatility: averageProfit > 0 ? 1 - (config.initialStake * PAYOUT_RATE) / averageProfit : 0,
+    winRate: wins / recent.length,
+  };
+}
+
+function multiplicativeRecoveryStake(ctx: StakeStrategyContext, config: CallMultiplicativeConfig) {
+  const multiplier = MULTIPLICATIVE_RECOVERY_MULTIPLIERS[config.recoveryMode] *
+    (1 + ctx.state.consecutiveLosses * 0.1);
+  let stake = ctx.state.lossToRecover * multiplier;
+
+  if (config.autoAdjust) {
+    const { volatility } = marketConditions(ctx, config);
+    stake *= 1 - Math.min(MINIMUM_STAKE, volatility * VOLATILITY_REDUCTION);
+  }
+
+  const maxStake = Math.min(config.initialStake * config.maxStakeMultiplier, config.lossThreshold * 0.3);
+  return Math.max(Math.max(config.initialStake, MINIMUM_STAKE), Math.min(stake, maxStake));
+}
+
+function recordRecent(ctx: StakeStrategyContext, result: Record<string, any>) {
+  ctx.state.recent.push({ isWin: !!result.isWin, profit: result.profit });
+  if (ctx.state.recent.length > CONDITION_WINDOW) ctx.state.recent.shift();
+}
+
+const callMultiplicativeRecovery: StakeStrategy = {
+  id: 'call_multiplicative_recovery',
+  name: 'CALL Multiplicative Recovery',
+
+  init: (_ctx, saved) => ({
+    totalProfit: 0,
+    lossToRecover: 0,
+    consecutiveWins: 0,
+    consecutiveLosses: 0,
+    recoveryAttempts: 0,
+    inRecovery: false,
+    day: null,
+    tradesToday: 0,
+    dailyProfit: 0,
+    recent: [],
+    stats: {
+      totalWins: 0,
+      totalLosses: 0,
+      recoveryCycles: 0,
+      maxWinStreak: 0,
+      maxLossStreak: 0,
+      bestRecoveryProfit: 0,
+      worstRecoveryLoss: 0,
+      totalRecoveryAttempts: 0,
+      successfulRecoveries: 0,
+    },
+    ...saved,
+  }),
+
+  nextStake(ctx) {
+    const config = callMultiplicativeConfig(ctx);
+    const state = ctx.state;
+    rollDay(ctx);
+
+    if (state.tradesToday >= config.maxDailyTrades) {
+      return { shouldTrade: false, reason: 'Daily trade limit reached', action: 'wait' };
+    }
+    if (isLosingDay(ctx, config.lossThreshold)) {
+      return { shouldTrade: false, reason: 'Stopping after significant losses today' };
+    }
+    if (state.totalProfit >= config.profitThreshold) {
+      return { shouldTrade: false, reason: `Profit target reached (${state.totalProfit.toFixed(2)})` };
+    }
+    if (state.totalProfit <= -config.lossThreshold) {
+      return { shouldTrade: false, reason: `Loss limit reached (${Math.abs(state.totalProfit).toFixed(2)})` };
+    }
+    if (state.recoveryAttempts >= config.maxRecoveryAttempts) {
+      return { shouldTrade: false, reason: `Max recovery attempts (${state.recoveryAttempts})` };
+    }
+
+    const conditions = marketConditions(ctx, config);
+    if (conditions.volatility > config.maxVolatility || conditions.winRate < config.minWinRate) {
+      return {
+        shouldTrade: false,
+        reason: 'Unfavourable market conditions',
+        metadata: { volatility: conditions.volatility, winRate: conditions.winRate },
+      };
+    }
+
+    const stake = state.inRecovery ? multiplicativeRecoveryStake(ctx, config) : config.initialStake;
+    return {
+      shouldTrade: true,
+      stake: roundToTwo(stake),
+      contract: { contract_type: 'CALL', duration: config.duration, duration_unit: 't' },
+      payoutRate: roundToTwo(PAYOUT_RATE * 100),
+      metadata: {
+        inRecovery: state.inRecovery,
+        recoveryAttempt: state.recoveryAttempts,
+        stakeMultiplier: roundToTwo(stake / config.initialStake),
+      },
+    };
+  },
+
+  onWin(ctx, result) {
+    const state = ctx.state;
+    state.tradesToday++;
+    state.dailyProfit += result.profit;
+    state.totalProfit += result.profit;
+    state.consecutiveWins++;
+    state.consecutiveLosses = 0;
+    state.stats.totalWins++;
+    state.stats.maxWinStreak = Math.max(state.stats.maxWinStreak, state.consecutiveWins);
+    recordRecent(ctx, result);
+
+    if (!state.inRecovery) return;
+
+    state.stats.bestRecoveryProfit = Math.max(state.stats.bestRecoveryProfit, result.profit);
+    state.lossToRecover -= result.profit;
+    if (state.lossToRecover < 0) {
+      state.inRecovery = false;
+      state.recoveryAttempts = 0;
+      state.lossToRecover = 0;
+      state.stats.successfulRecoveries++;
+      ctx.emit('strategy_recovery_exited', { strategy: 'call_multiplicative_recovery', totalProfit: state.totalProfit });
+    }
+  },
+
+  onLoss(ctx, result) {
+    const config = callMultiplicativeConfig(ctx);
+    const state = ctx.state;
+    state.tradesToday++;
+    state.dailyProfit += result.profit;
+    state.totalProfit += result.profit;
+    state.consecutiveLosses++;
+    state.consecutiveWins = 0;
+    state.stats.totalLosses++;
+    state.stats.maxLossStreak = Math.max(state.stats.maxLossStreak, state.consecutiveLosses);
+    recordRecent(ctx, result);
+
+    state.lossToRecover += Math.abs(result.profit);
+    if (state.inRecovery) {
+      state.stats.worstRecoveryLoss = Math.min(state.stats.worstRecoveryLoss, result.profit);
+    } else if (config.enableRecovery) {
+      state.stats.recoveryCycles++;
+      ctx.emit('strategy_recovery_entered', { strategy: 'call_multiplicative_recovery', totalProfit: state.totalProfit });
+    }
+
+    if (config.enableRecovery) {
+      state.inRecovery = true;
+      state.recoveryAttempts++;
+      state.stats.totalRecoveryAttempts++;
+    }
+  },
+
+  reset(ctx) {
+    ctx.state = callMultiplicativeRecovery.init(ctx, { stats: ctx.state.stats });
+  },
+
+  getStatistics(ctx) {
+    return {
+      ...ctx.state.stats,
+      totalProfit: roundToTwo(ctx.state.totalProfit),
+      lossToRecover: roundToTwo(ctx.state.lossToRecover),
+      inRecovery: ctx.state.inRecovery,
+    };
+  },
+};
+
+// ─── Exports ─────────────────────────────────────────────────────────────────
+
+const RECOVERY_STAKE_STRATEGIES: StakeStrategy[] = [enhanced1326, callMultiplicativeRecovery];
+
+export { RECOVERY_STAKE_STRATEGIES };
@@ -0,0 +1,258 @@
+/**
+ * @file RecoverySteps.ts
+ * @description What each `recovery_steps.risk_steps` entry does while the bot is in recovery.
+ *
+ * A step always sizes the stake (base stake × `stakeMultiplier`, or the legacy `multiplier`,
+ * × `recovery_multiplier`). Its `action` decides which contract it trades:
+ *   - multiply         the bot's own contract (default, and any unknown action)
+ *   - switch_contract  the step's contract: its contract type, market, prediction and duration
+ *   - safety           the step's contract, kept until the recovery target is reached — the
+ *                      ladder never advances past a safety step (`is_safety_mode` in the
+ *                      strategy JSON files)
+ *
+ * `cooldownSeconds` pauses the bot before the step's first trade. `recoveryTargetPercentage`
+ * ends recovery once the wins since it began pay back that % of its losses (partial
+ * recovery); safety steps default to 100. Without a target, recovery ends as before: on the
+ * first win unless `progressive_recovery` is on.
+ *
+ * @usage
+ *   const errors = validateRecoverySteps(formData.recovery_steps.risk_steps);
+ *   const contract = { ...botContract, ...getRecoveryStepContract(step) };
+ *   if (isRecoveryTargetReached(step, { loss: 30, recovered: 18 })) exitRecovery();
+ */
+
+import { isMultiplierContract } from './Multipliers';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RecoveryStepAction = 'multiply' | 'switch_contract' | 'safety';
+
+/** One `recovery_steps.risk_steps` entry (the StepsComponent's ContractData plus these fields) */
+export interface RecoveryStep {
+  id?: string;
+  lossStreak?: number | null;
+  action?: RecoveryStepAction | string | null;
+  /** Stake multiplier of the step; `multiplier` when unset */
+  stakeMultiplier?: number | null;
+  /** Legacy stake multiplier (also the contract multiplier of MULTUP / MULTDOWN steps) */
+  multiplier?: number | null;
+  /** Pause before the step's first trade */
+  cooldownSeconds?: number | null;
+  /** % of the recovery loss won back that ends recovery */
+  recoveryTargetPercentage?: number | null;
+  /** Old strategy files mark the safety step this way */
+  is_safety_mode?: boolean;
+  tradeType?: string;
+  contractType?: string;
+  prediction?: string | number | null;
+  market?: { symbol?: string; displayName?: string } | string | null;
+  duration?: number | null;
+  durationUnits?: string | null;
+  [key: string]: any;
+}
+
+/** Losses and wins since recovery began */
+export interface RecoveryProgress {
+  loss: number;
+  recovered: number;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const RECOVERY_STEP_ACTIONS = Object.freeze(['multiply', 'switch_contract', 'safety']);
+
+const SAFETY_RECOVERY_TARGET = 100;
+
+// The step fields that make up its contract
+const CONTRACT_FIELDS = Object.freeze([
+  'tradeType',
+  'contractType',
+  'prediction',
+  'market',
+  'duration',
+  'durationUnits',
+  'allowEquals',
+  'alternateAfter',
+]);
+
+const MULTIPLIER_FIELDS = Object.freeze(['multiplier', 'takeProfit', 'stopLoss', 'limitOrderUnits', 'dealCancellation']);
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function getStepSymbol(step: RecoveryStep): string | null {
+  const market = step.market;
+  if (typeof market === 'string') return market || null;
+  return market?.symbol || step.symbol || null;
+}
+
+/**
+ * @param {RecoveryStep} [step]
+ * @returns {RecoveryStepAction}
+ */
+function getRecoveryStepAction(step?: RecoveryStep | null): RecoveryStepAction {
+  if (!step) return 'multiply';
+  if (step.is_safety_mode) return 'safety';
+  const action = step.action as RecoveryStepAction;
+  return RECOVERY_STEP_ACTIONS.includes(action) ? action : 'multiply';
+}
+
+/**
+ * Stake multiplier of the step.
+ * @param {RecoveryStep} [step]
+ * @returns {number|null} null when the step leaves the stake to the stake strategy
+ */
+function getRecoveryStepStakeMultiplier(step?: RecoveryStep | null): number | null {
+  if (!step) return null;
+  return positiveOrNull(step.stakeMultiplier) ?? positiveOrNull(step.multiplier);
+}
+
+/**
+ * Contract fields the step trades with, to lay over the bot's contract.
+ * @param {RecoveryStep} [step]
+ * @returns {Object|null} null when the step keeps the bot's contract
+ */
+function getRecoveryStepContract(step?: RecoveryStep | null): Record<string, any> | null {
+  if (!step || getRecoveryStepAction(step) === 'multiply') return null;
+  const fields = isMultiplierContract(step.contractType || '') ? [...CONTRACT_FIELDS, ...MULTIPLIER_FIELDS] : CONTRACT_FIELDS;
+  const contract: Record<string, any> = Object.fromEntries(
+    fields.filter((field) => step[field] !== undefined && step[field] !== null).map((field) => [field, step[field]]),
+  );
+  const symbol = getStepSymbol(step);
+  if (symbol) contract.market = typeof step.market === 'object' && step.market ? step.market : { symbol };
+  // The step trades exactly what it names
+  contract.marketRandomize = false;
+  contract.predictionRandomize = false;
+  return contract;
+}
+
+/**
+ * @param {RecoveryStep} [step]
+ * @returns {number|null} ms, or null without a cooldown
+ */
+function getRecoveryStepCooldownMs(step?: RecoveryStep | null): number | null {
+  const seconds = positiveOrNull(step?.cooldownSeconds);
+  return seconds === null ? null : Math.round(seconds * 1000);
+}
+
+/**
+ * @param {RecoveryStep} [step]
+ * @returns {number|null} % of the recovery loss, or null when the step sets no target
+ */
+function getRecoveryTarget(step?: RecoveryStep | null): number | null {
+  const target = positiveOrNull(step?.recoveryTargetPercentage);
+  if (target !== null) return Math.min(target, 100);
+  return getRecoveryStepAction(step) === 'safety' ? SAFETY_RECOVERY_TARGET : null;
+}
+
+/**
+ * Whether the wins since recovery began reach the step's target.
+ * @param {RecoveryStep} step
+ * @param {RecoveryProgress} progress
+ * @returns {boolean|null} null when the step sets no target
+ */
+function isRecoveryTargetReached(step: RecoveryStep | null | undefined, progress: RecoveryProgress): boolean | null {
+  const target = getRecoveryTarget(step);
+  if (target === null) return null;
+  if (progress.loss <= 0) return true;
+  return progress.recovered >= progress.loss * (target / 100);
+}
+
+/**
+ * Whether any step trades a contract of its own, so one payout rate can't price the ladder.
+ * @param {RecoveryStep[]} [steps]
+ * @returns {boolean}
+ */
+function hasRecoveryContracts(steps?: RecoveryStep[] | null): boolean {
+  return (steps || []).some((step) => getRecoveryStepAction(step) !== 'multiply');
+}
+
+// ─── Validation & preview ────────────────────────────────────────────────────
+
+/**
+ * Problems that would make a recovery ladder misbehave.
+ * @param {RecoveryStep[]} steps
+ * @returns {string[]}
+ */
+function validateRecoverySteps(steps?: RecoveryStep[] | null): string[] {
+  const errors: string[] = [];
+  const list = steps || [];
+
+  list.forEach((step, i) => {
+    const label = `Recovery step ${i + 1}`;
+    const action = getRecoveryStepAction(step);
+
+    for (const field of ['stakeMultiplier', 'cooldownSeconds', 'recoveryTargetPercentage'] as const) {
+      const value = step[field];
+      if (value !== null && value !== undefined && String(value) !== '' && !(Number(value) >= 0)) {
+        errors.push(`${label}: ${field} cannot be negative`);
+      }
+    }
+    if (Number(step.recoveryTargetPercentage) > 100) {
+      errors.push(`${label}: the recovery target cannot exceed 100%`);
+    }
+    if (action === 'multiply') return;
+
+    const contractType = step.contractType || '';
+    if (!contractType || contractType === 'ALTERNATE' || contractType.includes('|')) {
+      errors.push(`${label}: pick the contract type it switches to`);
+    }
+    if (!getStepSymbol(step)) errors.push(`${label}: pick the market it switches to`);
+    if (contractType.startsWith('DIGIT') && !['DIGITEVEN', 'DIGITODD'].includes(contractType)) {
+      const digit = Number(step.prediction);
+      const valid = step.prediction !== null && step.prediction !== undefined && String(step.prediction) !== ''
+        && Number.isInteger(digit) && digit >= 0 && digit <= 9
+        && !(contractType === 'DIGITOVER' && digit === 9) && !(contractType === 'DIGITUNDER' && digit === 0);
+      if (!valid) errors.push(`${label}: prediction ${step.prediction ?? '—'} is not valid for ${contractType}`);
+    }
+    if (!isMultiplierContract(contractType) && !(Number(step.duration) > 0)) {
+      errors.push(`${label}: duration must be greater than 0`);
+    }
+    if (action === 'safety' && i < list.length - 1) {
+      errors.push(`${label}: the steps after a safety step are never reached`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * One-line summary of a step, e.g. "×2.5 stake · DIGITDIFF 8 on R_100 · pause 30s · until 50% recovered".
+ * @param {RecoveryStep} step
+ * @returns {string}
+ */
+function describeRecoveryStep(step: RecoveryStep): string {
+  const action = getRecoveryStepAction(step);
+  const multiplier = getRecoveryStepStakeMultiplier(step);
+  const parts = [multiplier !== null ? `×${multiplier} stake` : 'strategy stake'];
+
+  if (action !== 'multiply') {
+    const prediction = step.prediction !== null && step.prediction !== undefined && String(step.prediction) !== ''
+      ? ` ${step.prediction}` : '';
+    const duration = step.duration ? ` for ${step.duration} ${step.durationUnits || 'ticks'}` : '';
+    parts.push(`${action === 'safety' ? 'safety ' : ''}${step.contractType || '?'}${prediction} on ${getStepSymbol(step) || '?'}${duration}`);
+  }
+  const cooldownMs = getRecoveryStepCooldownMs(step);
+  if (cooldownMs !== null) parts.push(`pause ${cooldownMs / 1000}s`);
+  const target = getRecoveryTarget(step);
+  if (target !== null) parts.push(`until ${target}% recovered`);
+
+  return parts.join(' · ');
+}
+
+export {
+  RECOVERY_STEP_ACTIONS,
+  getRecoveryStepAction,
+  getRecoveryStepStakeMultiplier,
+  getRecoveryStepContract,
+  getRecoveryStepCooldownMs,
+  getRecoveryTarget,
+  isRecoveryTargetReached,
+  hasRecoveryContracts,
+  validateRecoverySteps,
+  describeRecoveryStep,
+};
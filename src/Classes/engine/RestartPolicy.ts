@@ -0,0 +1,330 @@
+/**
+ * @file RestartPolicy.ts
+ * @description Auto-restart after a bot stops (`general_settings_section.auto_restart` with
+ *              `auto_restart_section`).
+ *
+ * A stopped bot starts again only when `auto_restart` is on and the stop reason is listed in
+ * `restart_on`:
+ *   - take_profit   take profit reached
+ *   - stop_loss     stop loss reached
+ *   - max_trades    maximum number of trades reached
+ *   - max_runtime   maximum running time reached
+ *   - risk_limit    max daily loss / profit, max drawdown, max consecutive losses
+ *   - profit_lock   profit protection or the trailing profit floor
+ *   - error         a trade error no retry can fix (see DerivErrors)
+ * Manual stops and emergency stops never restart.
+ *
+ * The wait before a restart starts at `restart_delay_seconds` (default 60) and is multiplied
+ * by `restart_backoff_multiplier` (default 1 — a fixed cooldown) for every restart already
+ * made that day, up to `max_restart_delay_seconds` (default 1 hour). At most
+ * `max_restarts_per_day` (default 5) restarts are made per day; days start at midnight in
+ * the risk limits' `limit_reset_timezone`.
+ *
+ * A RestartController keeps a bot's restart count and its planned restart, and arms the
+ * restart timer. The bot starts itself when the restart is due; a closed market holds the
+ * restart back until it opens.
+ *
+ * @usage
+ *   const { decision, state } = planRestart('take_profit', { enabled, settings, state, dayStart });
+ *   if (decision.restart) setTimeout(restart, decision.delayMs);
+ *
+ *   const restarts = new RestartController({ timers, now, onDue: () => restarts.run(start, isStopped) });
+ *   restarts.plan('take_profit', { enabled, settings, dayStart });
+ */
+
+import type { TimerRegistry } from './TimerRegistry';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StopReason =
+  | 'manual'
+  | 'take_profit'
+  | 'stop_loss'
+  | 'max_trades'
+  | 'max_runtime'
+  | 'risk_limit'
+  | 'profit_lock'
+  | 'error';
+
+/** The bot's advanced_settings.auto_restart_section */
+export interface AutoRestartSettings {
+  /** Stop reasons that restart the bot */
+  restart_on?: StopReason[] | null;
+  restart_delay_seconds?: number | null;
+  restart_backoff_multiplier?: number | null;
+  max_restart_delay_seconds?: number | null;
+  max_restarts_per_day?: number | null;
+  /** Continue the stopped session's stake progression instead of starting fresh */
+  carry_over_session?: boolean;
+}
+
+/** Restarts made on the current day */
+export interface RestartState {
+  /** Start of the day the count belongs to (epoch ms) */
+  day: number | null;
+  count: number;
+}
+
+export interface RestartPlanOptions {
+  /** general_settings_section.auto_restart */
+  enabled: boolean;
+  settings?: AutoRestartSettings | null;
+  state?: RestartState | null;
+  /** Start of the current day (epoch ms) */
+  dayStart: number;
+}
+
+export interface RestartDecision {
+  restart: boolean;
+  reason: StopReason;
+  /** Why the bot does not restart */
+  blockedBy: 'disabled' | 'reason' | 'daily_limit' | null;
+  delayMs: number;
+  /** Restarts made today, including this one */
+  restartsToday: number;
+  maxRestartsPerDay: number;
+  carryOver: boolean;
+}
+
+/** A restart planned after a stop */
+export interface PendingRestart<T = unknown> {
+  reason: StopReason;
+  restartAt: number;
+  /** Restarts made today, including this one */
+  restartsToday: number;
+  /** What the bot carries over into the restarted session (carry_over_session) */
+  carried: T | null;
+}
+
+export interface RestartControllerOptions {
+  timers: Pick<TimerRegistry, 'setTimeout' | 'clear'>;
+  /** Bot clock, ms */
+  now: () => number;
+  /** Called when the planned restart is due */
+  onDue: () => void;
+}
+
+/** The bot's start() result */
+export interface RestartAttempt {
+  success: boolean;
+  error?: string;
+  /** Set when a closed market kept the bot from starting */
+  nextOpen?: number | null;
+}
+
+export interface RestartOutcome<T = unknown> {
+  started: boolean;
+  pending: PendingRestart<T> | null;
+  /** The restart waits for the market to open at this time */
+  waitUntil?: number;
+  /** The restart failed and was dropped */
+  error?: string;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const STOP_REASONS = Object.freeze([
+  'take_profit',
+  'stop_loss',
+  'max_trades',
+  'max_runtime',
+  'risk_limit',
+  'profit_lock',
+  'error',
+]);
+
+const DEFAULT_RESTART_DELAY_SECONDS = 60;
+const DEFAULT_MAX_RESTART_DELAY_SECONDS = 3600;
+const DEFAULT_MAX_RESTARTS_PER_DAY = 5;
+
+const RESTART_TIMER = 'restart';
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function positiveOrNull(value: unknown) {
+  const num = Number(value);
+  return value !== null && value !== undefined && value !== '' && num > 0 ? num : null;
+}
+
+function getRestartReasons(settings?: AutoRestartSettings | null): StopReason[] {
+  const reasons = Array.isArray(settings?.restart_on) ? settings.restart_on : [];
+  return reasons.filter((reason) => STOP_REASONS.includes(reason));
+}
+
+/**
+ * Whether any stop restarts the bot.
+ * @param {boolean} autoRestart - general_settings_section.auto_restart
+ * @param {AutoRestartSettings} [settings]
+ * @returns {boolean}
+ */
+function isAutoRestartEnabled(autoRestart: boolean, settings?: AutoRestartSettings | null): boolean {
+  return Boolean(autoRestart) && getRestartReasons(settings).length > 0;
+}
+
+/**
+ * Wait before the next restart.
+ * @param {AutoRestartSettings} [settings]
+ * @param {number} restartsMade - Restarts already made today
+ * @returns {number} ms
+ */
+function getRestartDelayMs(settings: AutoRestartSettings | null | undefined, restartsMade: number): number {
+  const base = positiveOrNull(settings?.restart_delay_seconds) ?? DEFAULT_RESTART_DELAY_SECONDS;
+  const multiplier = Math.max(1, positiveOrNull(settings?.restart_backoff_multiplier) ?? 1);
+  const max = Math.max(base, positiveOrNull(settings?.max_restart_delay_seconds) ?? DEFAULT_MAX_RESTART_DELAY_SECONDS);
+  return Math.round(Math.min(max, base * multiplier ** Math.max(0, restartsMade)) * 1000);
+}
+
+// ─── Planning ────────────────────────────────────────────────────────────────
+
+/**
+ * Decide whether, and after how long, a stopped bot restarts. A planned restart is counted
+ * in the returned state.
+ * @param {StopReason} reason
+ * @param {RestartPlanOptions} options
+ * @returns {{ decision: RestartDecision, state: RestartState }}
+ */
+function planRestart(reason: StopReason, options: RestartPlanOptions): { decision: RestartDecision; state: RestartState } {
+  const settings = options.settings || null;
+  const previous = options.state || { day: null, count: 0 };
+  // A new day starts a new count
+  const state: RestartState = previous.day === options.dayStart ? previous : { day: options.dayStart, count: 0 };
+  const maxRestartsPerDay = Math.floor(positiveOrNull(settings?.max_restarts_per_day) ?? DEFAULT_MAX_RESTARTS_PER_DAY);
+
+  const decision: RestartDecision = {
+    restart: false,
+    reason,
+    blockedBy: null,
+    delayMs: 0,
+    restartsToday: state.count,
+    maxRestartsPerDay,
+    carryOver: Boolean(settings?.carry_over_session),
+  };
+
+  if (!isAutoRestartEnabled(options.enabled, settings)) return { decision: { ...decision, blockedBy: 'disabled' }, state };
+  if (!getRestartReasons(settings).includes(reason)) return { decision: { ...decision, blockedBy: 'reason' }, state };
+  if (state.count >= maxRestartsPerDay) return { decision: { ...decision, blockedBy: 'daily_limit' }, state };
+
+  return {
+    decision: {
+      ...decision,
+      restart: true,
+      delayMs: getRestartDelayMs(settings, state.count),
+      restartsToday: state.count + 1,
+    },
+    state: { day: state.day, count: state.count + 1 },
+  };
+}
+
+// ─── RestartController ───────────────────────────────────────────────────────
+
+class RestartController<T = unknown> {
+  /** Restarts made today */
+  state: RestartState | null;
+  private _pending: PendingRestart<T> | null;
+  private _options: RestartControllerOptions;
+
+  /**
+   * @param {RestartControllerOptions} options
+   */
+  constructor(options: RestartControllerOptions) {
+    this._options = options;
+    this.state = null;
+    this._pending = null;
+  }
+
+  get pending() {
+    return this._pending;
+  }
+
+  /**
+   * The planned restart, for a countdown in the UI.
+   * @returns {{ reason: string, restartAt: number, restartsToday: number, carryOver: boolean }|null}
+   */
+  describe() {
+    const pending = this._pending;
+    if (!pending) return null;
+    return {
+      reason: pending.reason,
+      restartAt: pending.restartAt,
+      restartsToday: pending.restartsToday,
+      carryOver: Boolean(pending.carried),
+    };
+  }
+
+  /**
+   * Plan a restart after a stop when the policy allows it, and arm its timer.
+   * @param {StopReason} reason
+   * @param {RestartPlanOptions} options - `carry` reads what a carried-over restart keeps
+   * @returns {RestartDecision}
+   */
+  plan(reason: StopReason, options: Omit<RestartPlanOptions, 'state'> & { carry?: () => T }): RestartDecision {
+    const now = this._options.now();
+    const { decision, state } = planRestart(reason, { ...options, state: this.state });
+    this.state = state;
+    if (!decision.restart) return decision;
+
+    this._pending = {
+      reason,
+      restartAt: now + decision.delayMs,
+      restartsToday: decision.restartsToday,
+      carried: decision.carryOver && options.carry ? options.carry() : null,
+    };
+    this._arm(decision.delayMs);
+    return decision;
+  }
+
+  /**
+   * Drop the planned restart.
+   * @returns {PendingRestart|null} The restart dropped
+   */
+  cancel() {
+    this._options.timers.clear(RESTART_TIMER);
+    const pending = this._pending;
+    this._pending = null;
+    return pending;
+  }
+
+  /**
+   * Hand the planned restart to the session that starts now.
+   * @returns {PendingRestart|null}
+   */
+  take() {
+    const pending = this._pending;
+    this._pending = null;
+    return pending;
+  }
+
+  /**
+   * Start the bot for the planned restart. On a closed market the restart waits for the
+   * market to open; any other failure drops it.
+   * @param {Function} start - The bot's start()
+   * @param {Function} canStart - False once the bot is no longer stopped
+   * @returns {Promise<RestartOutcome>}
+   */
+  async run(start: () => Promise<RestartAttempt>, canStart: () => boolean): Promise<RestartOutcome<T>> {
+    const pending = this._pending;
+    if (!pending || !canStart()) return { started: false, pending: null };
+
+    const result = await start();
+    if (result.success) return { started: true, pending };
+
+    if (result.nextOpen) {
+      this._arm(Math.max(0, result.nextOpen - this._options.now()));
+      return { started: false, pending, waitUntil: result.nextOpen };
+    }
+    this._pending = null;
+    return { started: false, pending, error: result.error };
+  }
+
+  private _arm(delayMs: number) {
+    this._options.timers.setTimeout(RESTART_TIMER, () => this._options.onDue(), delayMs);
+  }
+}
+
+export {
+  STOP_REASONS,
+  isAutoRestartEnabled,
+  getRestartDelayMs,
+  planRestart,
+  RestartController,
+};
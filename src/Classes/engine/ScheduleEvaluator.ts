@@ -0,0 +1,659 @@
+/**
+ * @file ScheduleEvaluator.ts
+ * @description Timezone-aware evaluation of bot schedules, shared by TradingBotManager
+ *              and the BotSchedule / Schedules components.
+ *
+ * A schedule is evaluated in its own IANA timezone (`timezone`, e.g. 'Europe/London'),
+ * falling back to the device timezone for schedules saved before timezones existed.
+ *
+ * Supported rules, all evaluated at minute resolution:
+ *   - Date range          — `startDate` / `endDate` (YYYY-MM-DD is a whole day in the schedule tz)
+ *   - Time windows        — `windows: [{ start: 'HH:mm', end: 'HH:mm' }]`, end exclusive.
+ *                           Overnight windows (22:00 → 02:00) belong to the day they start.
+ *                           The legacy `startTime` / `endTime` pair is one window.
+ *   - Days                — `daysOfWeek` (weekly), `daysOfMonth` / `dayOfMonth` (monthly)
+ *   - Cron                — `type: 'custom'` with `cron: 'm h dom mon dow'`; active during
+ *                           every minute the expression matches
+ *   - Exclusions          — one-off `{ date }` or recurring `{ cron }` (e.g. every first
+ *                           Friday: `* * * * 5#1`)
+ *
+ * Cron syntax: `*`, lists, ranges, steps (`*\/15`, `8-16/2`), JAN-DEC / SUN-SAT names,
+ * `L` in day-of-month (last day), `5#1` (first Friday) and `5L` (last Friday) in
+ * day-of-week. As in standard cron, a restricted day-of-month OR day-of-week matches.
+ *
+ * @usage
+ *   const schedule = {
+ *     type: 'weekly',
+ *     timezone: 'America/New_York',
+ *     daysOfWeek: [1, 2, 3, 4, 5],
+ *     windows: [{ start: '09:30', end: '11:30' }, { start: '14:00', end: '16:00' }],
+ *     exclusions: [{ cron: '* * * * 5#1', reason: 'NFP Friday' }],
+ *   };
+ *   evaluateSchedule(schedule, Date.now());      // { active: false, reason: 'Outside trading windows' }
+ *   getNextActivations(schedule, Date.now(), 5); // [{ start, end }, ...]
+ *
+ * Also provides `getPeriodStart` — the start of the hour / day / week containing an
+ * instant in a timezone — for calendar-aligned limit counters.
+ */
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60000;
+const MINUTES_PER_DAY = 1440;
+const DEFAULT_ACTIVATION_COUNT = 5;
+const DEFAULT_SEARCH_DAYS = 400;
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ScheduleWindow {
+  /** 'HH:mm' in the schedule timezone */
+  start: string;
+  /** 'HH:mm', exclusive. Earlier than `start` for overnight windows. */
+  end: string;
+}
+
+export interface ScheduleExclusionRule {
+  id?: string;
+  /** One-off day, YYYY-MM-DD in the schedule timezone */
+  date?: string | null;
+  /** Recurring exclusion; every matching minute is excluded */
+  cron?: string | null;
+  reason?: string;
+}
+
+export interface ScheduleDefinition {
+  type?: string;
+  timezone?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  windows?: ScheduleWindow[];
+  daysOfWeek?: number[];
+  dayOfMonth?: number | null;
+  daysOfMonth?: number[];
+  cron?: string | null;
+  exclusions?: ScheduleExclusionRule[];
+  isEnabled?: boolean;
+}
+
+export interface ScheduleEvaluation {
+  active: boolean;
+  reason?: string;
+  /** The exclusion that blocked this minute, if any */
+  exclusion?: ScheduleExclusionRule;
+}
+
+export interface ScheduleActivation {
+  /** Epoch ms the schedule becomes active */
+  start: number;
+  /** Epoch ms it becomes inactive again, or null if beyond the search horizon */
+  end: number | null;
+}
+
+export type CalendarPeriod = 'hour' | 'day' | 'week';
+
+export interface CalendarPeriodOptions {
+  /** IANA timezone; device timezone when unset */
+  timeZone?: string | null;
+  /** 0 = Sunday … 6 = Saturday. Defaults to Monday. */
+  weekStartsOn?: number;
+}
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  lastDayOfMonth: boolean;
+  /** `5#1` → { weekday: 5, nth: 1 }, `5L` → { weekday: 5, nth: -1 } */
+  nthWeekdays: Array<{ weekday: number; nth: number }>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  date: string;
+}
+
+interface ZonedParts extends CalendarDay {
+  hour: number;
+  minute: number;
+  minuteOfDay: number;
+}
+
+interface ParsedWindow {
+  start: number;
+  end: number;
+}
+
+// ─── Timezones ───────────────────────────────────────────────────────────────
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** IANA timezone of this device (e.g. 'Africa/Nairobi'). */
+function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function isValidTimeZone(timeZone: string | null | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** IANA timezone names supported by this runtime, for timezone pickers. */
+function listTimeZones(): string[] {
+  const supportedValuesOf = (Intl as any).supportedValuesOf;
+  if (typeof supportedValuesOf === 'function') return supportedValuesOf('timeZone');
+  return ['UTC', 'Europe/London', 'America/New_York', 'Asia/Tokyo', 'Australia/Sydney', getLocalTimeZone()]
+    .filter((tz, i, all) => all.indexOf(tz) === i);
+}
+
+function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : getLocalTimeZone();
+}
+
+function pad(n: number): string {
+  return n < 10 ? `0${n}` : String(n);
+}
+
+function toCalendarDay(year: number, month: number, day: number): CalendarDay {
+  const utc = new Date(Date.UTC(year, month - 1, day));
+  const y = utc.getUTCFullYear();
+  const m = utc.getUTCMonth() + 1;
+  const d = utc.getUTCDate();
+  return { year: y, month: m, day: d, weekday: utc.getUTCDay(), date: `${y}-${pad(m)}-${pad(d)}` };
+}
+
+function shiftDay(day: CalendarDay, days: number): CalendarDay {
+  return toCalendarDay(day.year, day.month, day.day + days);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Wall-clock date and time of an instant in `timeZone`. */
+function getZonedParts(ms: number, timeZone: string): ZonedParts {
+  const values: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(ms))) values[part.type] = part.value;
+
+  const year = Number(values.year);
+  const month = Number(values.month);
+  const day = Number(values.day);
+  const hour = Number(values.hour) % 24;
+  const minute = Number(values.minute);
+  return {
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    minuteOfDay: hour * 60 + minute,
+    weekday: WEEKDAY_INDEX[values.weekday] ?? new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    date: `${year}-${pad(month)}-${pad(day)}`,
+  };
+}
+
+/** Offset of `timeZone` from UTC at an instant, in ms. */
+function getTimeZoneOffset(ms: number, timeZone: string): number {
+  const floored = ms - (((ms % MINUTE_MS) + MINUTE_MS) % MINUTE_MS);
+  const p = getZonedParts(floored, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - floored;
+}
+
+/**
+ * Instant of a wall-clock minute in `timeZone`. Times skipped by a DST change resolve
+ * to the first valid minute after them.
+ */
+function zonedTimeToEpoch(day: CalendarDay, minuteOfDay: number, timeZone: string): number {
+  const guess = Date.UTC(day.year, day.month - 1, day.day, 0, minuteOfDay);
+  const firstOffset = getTimeZoneOffset(guess, timeZone);
+  const epoch = guess - firstOffset;
+  const secondOffset = getTimeZoneOffset(epoch, timeZone);
+  return secondOffset === firstOffset ? epoch : guess - secondOffset;
+}
+
+// ─── Cron ────────────────────────────────────────────────────────────────────
+
+const cronCache = new Map<string, CronExpression>();
+
+function parseCronValue(token: string, names: string[] | null, offset: number): number {
+  const upper = token.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + offset;
+  }
+  if (!/^\d+$/.test(token)) throw new Error(`"${token}" is not a number`);
+  return Number(token);
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  nameOffset = 0,
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`invalid step in "${part}"`);
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, names, nameOffset);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseCronValue(to, names, nameOffset);
+    }
+    if (start < min || end > max || start > end) throw new Error(`"${part}" is out of range ${min}-${max}`);
+
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week).
+ * @throws {Error} When the expression is malformed
+ */
+function parseCronExpression(source: string): CronExpression {
+  const cached = cronCache.get(source);
+  if (cached) return cached;
+
+  const fields = String(source || '').trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Invalid cron expression "${source}": expected 5 fields`);
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  try {
+    const domParts = domField.split(',');
+    const lastDayOfMonth = domParts.some((p) => p.toUpperCase() === 'L');
+    const plainDom = domParts.filter((p) => p.toUpperCase() !== 'L');
+
+    const nthWeekdays: Array<{ weekday: number; nth: number }> = [];
+    const plainDow: string[] = [];
+    for (const part of dowField.split(',')) {
+      const nth = /^(\w+)#([1-5])$/.exec(part);
+      const last = /^(\w+)L$/i.exec(part);
+      if (nth) nthWeekdays.push({ weekday: parseCronValue(nth[1], DAY_NAMES, 0) % 7, nth: Number(nth[2]) });
+      else if (last) nthWeekdays.push({ weekday: parseCronValue(last[1], DAY_NAMES, 0) % 7, nth: -1 });
+      else plainDow.push(part);
+    }
+
+    const daysOfWeek = new Set(
+      [...(plainDow.length ? parseCronField(plainDow.join(','), 0, 7, DAY_NAMES) : [])].map((d) => d % 7),
+    );
+
+    const expression: CronExpression = {
+      source,
+      minutes: parseCronField(minuteField, 0, 59),
+      hours: parseCronField(hourField, 0, 23),
+      daysOfMonth: plainDom.length ? parseCronField(plainDom.join(','), 1, 31) : new Set(),
+      months: parseCronField(monthField, 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      lastDayOfMonth,
+      nthWeekdays,
+      domRestricted: domField !== '*',
+      dowRestricted: dowField !== '*',
+    };
+    cronCache.set(source, expression);
+    return expression;
+  } catch (error: any) {
+    throw new Error(`Invalid cron expression "${source}": ${error.message}`);
+  }
+}
+
+/** @returns An error message, or null when the expression is valid */
+function validateCronExpression(source: string): string | null {
+  try {
+    parseCronExpression(source);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+function cronMatchesDay(cron: CronExpression, day: CalendarDay): boolean {
+  if (!cron.months.has(day.month)) return false;
+
+  const lastDay = daysInMonth(day.year, day.month);
+  const domMatch = cron.daysOfMonth.has(day.day) || (cron.lastDayOfMonth && day.day === lastDay);
+  const dowMatch = cron.daysOfWeek.has(day.weekday) || cron.nthWeekdays.some((n) =>
+    n.weekday === day.weekday && (n.nth > 0 ? Math.ceil(day.day / 7) === n.nth : day.day + 7 > lastDay));
+
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+  if (cron.domRestricted) return domMatch;
+  if (cron.dowRestricted) return dowMatch;
+  return true;
+}
+
+function cronMatches(cron: CronExpression, parts: ZonedParts): boolean {
+  return cron.minutes.has(parts.minute) && cron.hours.has(parts.hour) && cronMatchesDay(cron, parts);
+}
+
+/** Minutes of the day where the cron's match state may change (for activation search). */
+function cronBoundaries(cron: CronExpression): number[] {
+  const boundaries: number[] = [];
+  const matches = (m: number) => cron.hours.has(Math.floor(m / 60)) && cron.minutes.has(m % 60);
+  for (let m = 1; m < MINUTES_PER_DAY; m++) {
+    if (matches(m) !== matches(m - 1)) boundaries.push(m);
+  }
+  return boundaries;
+}
+
+function tryParseCron(source: string | null | undefined): CronExpression | null {
+  if (!source) return null;
+  try {
+    return parseCronExpression(source);
+  } catch {
+    return null;
+  }
+}
+
+// ─── Schedule rules ──────────────────────────────────────────────────────────
+
+/**
+ * Minutes since midnight of an 'HH:mm' string. ISO date-times (from older schedules)
+ * use their device-local time of day, as the engine did before timezones.
+ */
+function parseTimeOfDay(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(value);
+  if (match) {
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.getHours() * 60 + date.getMinutes();
+}
+
+function getWindows(schedule: ScheduleDefinition): ParsedWindow[] {
+  const raw = schedule.windows && schedule.windows.length > 0
+    ? schedule.windows
+    : schedule.startTime && schedule.endTime
+      ? [{ start: schedule.startTime, end: schedule.endTime }]
+      : [];
+
+  const windows: ParsedWindow[] = [];
+  for (const w of raw) {
+    const start = parseTimeOfDay(w.start);
+    const end = parseTimeOfDay(w.end);
+    if (start !== null && end !== null) windows.push({ start, end });
+  }
+  return windows;
+}
+
+function isCronSchedule(schedule: ScheduleDefinition): boolean {
+  return schedule.type === 'custom' && !!schedule.cron;
+}
+
+function dayMatches(schedule: ScheduleDefinition, day: CalendarDay): boolean {
+  if (schedule.type === 'weekly' && schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+    return schedule.daysOfWeek.includes(day.weekday);
+  }
+  if (schedule.type === 'monthly') {
+    const days = schedule.daysOfMonth && schedule.daysOfMonth.length > 0
+      ? schedule.daysOfMonth
+      : schedule.dayOfMonth ? [schedule.dayOfMonth] : [];
+    return days.length === 0 || days.includes(day.day);
+  }
+  return true;
+}
+
+function isDateOnly(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function toZonedDate(value: string, timeZone: string): string | null {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value) && (isDateOnly(value) || !value.includes('T'))) return value.slice(0, 10);
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : getZonedParts(date.getTime(), timeZone).date;
+}
+
+function findExclusion(
+  schedule: ScheduleDefinition,
+  parts: ZonedParts,
+  timeZone: string,
+): ScheduleExclusionRule | null {
+  for (const exclusion of schedule.exclusions || []) {
+    if (exclusion.date && toZonedDate(exclusion.date, timeZone) === parts.date) return exclusion;
+    const cron = tryParseCron(exclusion.cron);
+    if (cron && cronMatches(cron, parts)) return exclusion;
+  }
+  return null;
+}
+
+function isInWindows(schedule: ScheduleDefinition, parts: ZonedParts): boolean {
+  const windows = getWindows(schedule);
+  if (windows.length === 0) return dayMatches(schedule, parts);
+
+  const minute = parts.minuteOfDay;
+  return windows.some(({ start, end }) => {
+    if (start < end) return minute >= start && minute < end && dayMatches(schedule, parts);
+    if (start === end) return dayMatches(schedule, parts);
+    // Overnight — the part after midnight belongs to the previous day's window
+    if (minute >= start) return dayMatches(schedule, parts);
+    return minute < end && dayMatches(schedule, shiftDay(parts, -1));
+  });
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Start of the hour, day or week containing `ms`, in `timeZone` wall-clock time.
+ * @param {number} ms - Epoch ms
+ * @param {CalendarPeriod} period
+ * @param {CalendarPeriodOptions} [options]
+ * @returns {number} Epoch ms
+ */
+function getPeriodStart(
+  ms: number,
+  period: CalendarPeriod,
+  { timeZone, weekStartsOn = 1 }: CalendarPeriodOptions = {},
+): number {
+  const tz = resolveTimeZone(timeZone);
+  const parts = getZonedParts(ms, tz);
+
+  if (period === 'hour') return zonedTimeToEpoch(parts, parts.hour * 60, tz);
+  if (period === 'day') return zonedTimeToEpoch(parts, 0, tz);
+
+  const daysIntoWeek = (parts.weekday - (((weekStartsOn % 7) + 7) % 7) + 7) % 7;
+  return zonedTimeToEpoch(shiftDay(parts, -daysIntoWeek), 0, tz);
+}
+
+/**
+ * Whether the schedule allows trading at an instant, and why not.
+ * `isEnabled` is not checked here — callers decide whether a schedule applies.
+ * @param {ScheduleDefinition} schedule
+ * @param {number} [now] - Epoch ms
+ * @returns {ScheduleEvaluation}
+ */
+function evaluateSchedule(schedule: ScheduleDefinition, now: number = Date.now()): ScheduleEvaluation {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  const parts = getZonedParts(now, timeZone);
+
+  if (schedule.startDate) {
+    const before = isDateOnly(schedule.startDate)
+      ? parts.date < schedule.startDate
+      : now < new Date(schedule.startDate).getTime();
+    if (before) return { active: false, reason: 'Before schedule start date' };
+  }
+  if (schedule.endDate) {
+    const after = isDateOnly(schedule.endDate)
+      ? parts.date > schedule.endDate
+      : now > new Date(schedule.endDate).getTime();
+    if (after) return { active: false, reason: 'After schedule end date' };
+  }
+
+  const exclusion = findExclusion(schedule, parts, timeZone);
+  if (exclusion) {
+    return { active: false, reason: `Schedule exclusion: ${exclusion.reason || exclusion.date || exclusion.cron}`, exclusion };
+  }
+
+  if (isCronSchedule(schedule)) {
+    const cron = tryParseCron(schedule.cron);
+    if (!cron) return { active: false, reason: `Invalid cron expression "${schedule.cron}"` };
+    return cronMatches(cron, parts) ? { active: true } : { active: false, reason: 'Outside cron schedule' };
+  }
+
+  return isInWindows(schedule, parts)
+    ? { active: true }
+    : { active: false, reason: 'Outside trading windows' };
+}
+
+/**
+ * @param {ScheduleDefinition} schedule
+ * @param {number} [now] - Epoch ms
+ * @returns {boolean}
+ */
+function isWithinSchedule(schedule: ScheduleDefinition, now: number = Date.now()): boolean {
+  return evaluateSchedule(schedule, now).active;
+}
+
+/**
+ * Configuration problems that would make the schedule never (or always) match.
+ * @param {ScheduleDefinition} schedule
+ * @returns {string[]}
+ */
+function validateSchedule(schedule: ScheduleDefinition): string[] {
+  const errors: string[] = [];
+
+  if (schedule.timezone && !isValidTimeZone(schedule.timezone)) {
+    errors.push(`Unknown schedule timezone "${schedule.timezone}"`);
+  }
+  if (schedule.type === 'custom') {
+    const cronError = schedule.cron ? validateCronExpression(schedule.cron) : 'Cron expression is required for custom schedules';
+    if (cronError) errors.push(cronError);
+  }
+  for (const w of schedule.windows || []) {
+    if (parseTimeOfDay(w.start) === null || parseTimeOfDay(w.end) === null) {
+      errors.push(`Invalid schedule window ${w.start}–${w.end}`);
+    }
+  }
+  for (const exclusion of schedule.exclusions || []) {
+    const cronError = exclusion.cron ? validateCronExpression(exclusion.cron) : null;
+    if (cronError) errors.push(`Exclusion "${exclusion.reason || exclusion.cron}": ${cronError}`);
+  }
+
+  return errors;
+}
+
+/**
+ * The next times the schedule becomes active after `from`, with the matching end times.
+ * Scans candidate boundaries (window edges, cron edges, midnight, date range) day by day.
+ * @param {ScheduleDefinition} schedule
+ * @param {number} [from] - Epoch ms
+ * @param {number} [count=5]
+ * @param {Object} [options]
+ * @param {number} [options.maxDays=400] - Search horizon
+ * @returns {ScheduleActivation[]}
+ */
+function getNextActivations(
+  schedule: ScheduleDefinition,
+  from: number = Date.now(),
+  count: number = DEFAULT_ACTIVATION_COUNT,
+  { maxDays = DEFAULT_SEARCH_DAYS }: { maxDays?: number } = {},
+): ScheduleActivation[] {
+  const timeZone = resolveTimeZone(schedule.timezone);
+  const activations: ScheduleActivation[] = [];
+  if (count <= 0) return activations;
+
+  const minuteBoundaries = new Set<number>([0]);
+  for (const w of getWindows(schedule)) {
+    minuteBoundaries.add(w.start);
+    minuteBoundaries.add(w.end);
+  }
+  const cron = isCronSchedule(schedule) ? tryParseCron(schedule.cron) : null;
+  if (cron) for (const m of cronBoundaries(cron)) minuteBoundaries.add(m);
+  for (const exclusion of schedule.exclusions || []) {
+    const exclusionCron = tryParseCron(exclusion.cron);
+    if (exclusionCron) for (const m of cronBoundaries(exclusionCron)) minuteBoundaries.add(m);
+  }
+  const sortedBoundaries = [...minuteBoundaries].sort((a, b) => a - b);
+
+  const extraInstants = [schedule.startDate, schedule.endDate]
+    .filter((d): d is string => !!d && !isDateOnly(d))
+    .map((d) => new Date(d).getTime() + (d === schedule.endDate ? 1 : 0))
+    .filter((t) => Number.isFinite(t) && t > from);
+
+  let active = evaluateSchedule(schedule, from).active;
+  let current: ScheduleActivation | null = null;
+  const firstDay = getZonedParts(from, timeZone);
+
+  for (let offset = 0; offset <= maxDays; offset++) {
+    const day = shiftDay(firstDay, offset);
+    const instants = sortedBoundaries.map((m) => zonedTimeToEpoch(day, m, timeZone));
+    const dayStart = instants[0];
+    const dayEnd = zonedTimeToEpoch(shiftDay(day, 1), 0, timeZone);
+    for (const t of extraInstants) if (t >= dayStart && t < dayEnd) instants.push(t);
+
+    for (const t of [...new Set(instants)].sort((a, b) => a - b)) {
+      if (t <= from) continue;
+      const next = evaluateSchedule(schedule, t).active;
+      if (next === active) continue;
+      active = next;
+
+      if (active) {
+        current = { start: t, end: null };
+        activations.push(current);
+      } else if (current) {
+        current.end = t;
+        if (activations.length >= count) return activations;
+        current = null;
+      }
+    }
+  }
+
+  return activations.slice(0, count);
+}
+
+export {
+  getPeriodStart,
+  evaluateSchedule,
+  isWithinSchedule,
+  validateSchedule,
+  getNextActivations,
+  parseCronExpression,
+  validateCronExpression,
+  getLocalTimeZone,
+  isValidTimeZone,
+  listTimeZones,
+};
@@ -0,0 +1,295 @@
+/**
+ * @file SignalGate.ts
+ * @description Decides whether a trade may go ahead given the latest indicator snapshot
+ *              (see Indicators.ts) and the bot's `market_conditions_section`.
+ *
+ * Settings read from `market_conditions_section`:
+ *   - avoid_ranging_market      block while ADX is below `trend_strength_threshold` (25 when unset)
+ *   - trend_detection           trades against the trend are handled by `trend_action`
+ *                               ('block' by default, or 'flip' to trade with the trend);
+ *                               only applies once ADX reaches `trend_strength_threshold`
+ *   - signal_conditions         custom rules, e.g.
+ *                               { indicator: 'rsi', operator: '>', value: 70, action: 'flip', direction: 'up' }
+ *
+ * Condition fields:
+ *   - indicator / value   snapshot paths ('rsi', 'macd.histogram', 'bollinger.percentB',
+ *                         'adx.adx', 'price'…); `value` may also be a number
+ *   - operator            '>', '>=', '<', '<='
+ *   - action              'block' — skip the trade when the condition holds
+ *                         'flip'  — trade the opposite direction when the condition holds
+ *                         'require' — skip the trade unless the condition holds
+ *   - direction           'up' | 'down' | 'any' — trades the rule applies to ('any' by default)
+ *
+ * Only directional contracts (CALL/PUT, CALLE/PUTE, MULTUP/MULTDOWN, RUNHIGH/RUNLOW,
+ * TICKHIGH/TICKLOW) can be flipped; a flip on any other contract blocks instead. Until the
+ * indicators a rule depends on have warmed up the gate answers 'wait'.
+ *
+ * @usage
+ *   if (isSignalGateEnabled(settings)) {
+ *     const decision = evaluateSignalGate(pipeline.getSnapshot(), 'CALL', settings);
+ *     if (decision.action === 'flip') params = flipContractParams(params);
+ *   }
+ */
+
+import type { IndicatorSnapshot } from './Indicators';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_ADX_THRESHOLD = 25;
+
+const OPPOSITE_CONTRACTS: Readonly<Record<string, string>> = Object.freeze({
+  CALL: 'PUT', PUT: 'CALL',
+  CALLE: 'PUTE', PUTE: 'CALLE',
+  MULTUP: 'MULTDOWN', MULTDOWN: 'MULTUP',
+  RUNHIGH: 'RUNLOW', RUNLOW: 'RUNHIGH',
+  TICKHIGH: 'TICKLOW', TICKLOW: 'TICKHIGH',
+});
+
+const UP_CONTRACTS = new Set(['CALL', 'CALLE', 'MULTUP', 'RUNHIGH', 'TICKHIGH']);
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SignalDirection = 'up' | 'down';
+export type SignalAction = 'allow' | 'block' | 'flip' | 'wait';
+export type SignalOperator = '>' | '>=' | '<' | '<=';
+
+export interface SignalCondition {
+  indicator: string;
+  operator: SignalOperator;
+  value: number | string;
+  action: 'block' | 'flip' | 'require';
+  direction?: SignalDirection | 'any';
+}
+
+export interface SignalGateSettings {
+  trend_detection?: boolean;
+  trend_strength_threshold?: number | null;
+  avoid_ranging_market?: boolean;
+  trend_action?: 'block' | 'flip' | null;
+  signal_conditions?: SignalCondition[] | null;
+  [key: string]: unknown;
+}
+
+export interface SignalGateDecision {
+  action: SignalAction;
+  reason: string | null;
+  /** Direction of the contract finally traded, null for non-directional contracts */
+  direction: SignalDirection | null;
+  originalContractType: string;
+  contractType: string;
+  /** Human-readable rules that fired */
+  matched: string[];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function getDirection(contractType: string): SignalDirection | null {
+  if (!(contractType in OPPOSITE_CONTRACTS)) return null;
+  return UP_CONTRACTS.has(contractType) ? 'up' : 'down';
+}
+
+/** Resolve 'macd.histogram' style paths against the snapshot. */
+function readPath(snapshot: IndicatorSnapshot, path: string): number | null {
+  let value: unknown = snapshot;
+  for (const key of String(path).split('.')) {
+    if (value === null || typeof value !== 'object') return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function resolveOperand(snapshot: IndicatorSnapshot, operand: number | string): number | null {
+  const numeric = Number(operand);
+  if (operand !== '' && Number.isFinite(numeric)) return numeric;
+  return readPath(snapshot, String(operand));
+}
+
+function compare(left: number, operator: SignalOperator, right: number): boolean {
+  switch (operator) {
+    case '>': return left > right;
+    case '>=': return left >= right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    default: return false;
+  }
+}
+
+function describe(condition: SignalCondition): string {
+  return `${condition.indicator} ${condition.operator} ${condition.value}`;
+}
+
+function appliesTo(condition: SignalCondition, direction: SignalDirection | null): boolean {
+  const target = condition.direction || 'any';
+  return target === 'any' || target === direction;
+}
+
+function decide(
+  action: SignalAction,
+  reason: string | null,
+  originalContractType: string,
+  contractType: string,
+  matched: string[],
+): SignalGateDecision {
+  return {
+    action,
+    reason,
+    direction: getDirection(contractType),
+    originalContractType,
+    contractType,
+    matched,
+  };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Whether any setting needs indicator data.
+ * @param {SignalGateSettings} [settings]
+ * @returns {boolean}
+ */
+function isSignalGateEnabled(settings?: SignalGateSettings | null): boolean {
+  if (!settings) return false;
+  return Boolean(
+    settings.trend_detection
+    || settings.avoid_ranging_market
+    || (Array.isArray(settings.signal_conditions) && settings.signal_conditions.length > 0),
+  );
+}
+
+/**
+ * Opposite of a directional contract type, or null when it has none.
+ * @param {string} contractType
+ * @returns {string|null}
+ */
+function flipContractType(contractType: string): string | null {
+  return OPPOSITE_CONTRACTS[contractType] ?? null;
+}
+
+/**
+ * Swap a contract's direction. Relative barriers ('+0.5') are mirrored so the
+ * flipped contract keeps the same distance on the other side of the spot.
+ * @param {Object} params - Contract params from buildContractParams
+ * @returns {Object}
+ */
+function flipContractParams<T extends { contract_type: string; barrier?: string | number }>(params: T): T {
+  const contractType = flipContractType(params.contract_type);
+  if (!contractType) return params;
+
+  const flipped = { ...params, contract_type: contractType };
+  if (typeof params.barrier === 'string' && /^[+-]/.test(params.barrier)) {
+    flipped.barrier = (params.barrier.startsWith('+') ? '-' : '+') + params.barrier.slice(1);
+  }
+  return flipped;
+}
+
+/**
+ * Evaluate the gate for one trade.
+ * @param {IndicatorSnapshot|null} snapshot
+ * @param {string} contractType
+ * @param {SignalGateSettings} settings
+ * @returns {SignalGateDecision}
+ */
+function evaluateSignalGate(
+  snapshot: IndicatorSnapshot | null,
+  contractType: string,
+  settings: SignalGateSettings,
+): SignalGateDecision {
+  const original = contractType;
+  const matched: string[] = [];
+
+  if (!isSignalGateEnabled(settings)) return decide('allow', null, original, original, matched);
+  if (!snapshot) return decide('wait', 'Waiting for market data', original, original, matched);
+
+  const threshold = Number(settings.trend_strength_threshold) > 0
+    ? Number(settings.trend_strength_threshold)
+    : DEFAULT_ADX_THRESHOLD;
+  const adx = snapshot.adx?.adx ?? null;
+  const direction = getDirection(original);
+
+  // 1. Ranging market
+  if (settings.avoid_ranging_market) {
+    if (adx === null) return decide('wait', 'Indicators warming up (ADX)', original, original, matched);
+    if (adx < threshold) {
+      matched.push(`adx ${adx} < ${threshold}`);
+      return decide('block', `Ranging market (ADX ${adx} < ${threshold})`, original, original, matched);
+    }
+  }
+
+  let flip = false;
+  let flipReason: string | null = null;
+
+  // 2. Trend direction
+  if (settings.trend_detection && direction) {
+    const trend = snapshot.trend.direction;
+    if (trend === 'flat' && snapshot.ema === null) {
+      return decide('wait', 'Indicators warming up (trend)', original, original, matched);
+    }
+    const strongEnough = adx === null || adx >= threshold;
+    if (trend !== 'flat' && trend !== direction && strongEnough) {
+      const rule = `trend ${trend}`;
+      matched.push(rule);
+      if (settings.trend_action !== 'flip') {
+        return decide('block', `Trade against the ${trend} trend`, original, original, matched);
+      }
+      flip = true;
+      flipReason = `Traded with the ${trend} trend`;
+    }
+  }
+
+  // 3. Custom block / flip rules, against the requested direction
+  const conditions = Array.isArray(settings.signal_conditions) ? settings.signal_conditions : [];
+  for (const condition of conditions) {
+    if (condition.action === 'require' || !appliesTo(condition, direction)) continue;
+    const left = readPath(snapshot, condition.indicator);
+    const right = resolveOperand(snapshot, condition.value);
+    if (left === null || right === null) {
+      return decide('wait', `Indicators warming up (${condition.indicator})`, original, original, matched);
+    }
+    if (!compare(left, condition.operator, right)) continue;
+
+    matched.push(describe(condition));
+    if (condition.action === 'block') {
+      return decide('block', `Signal: ${describe(condition)}`, original, original, matched);
+    }
+    if (!flip) {
+      flip = true;
+      flipReason = `Signal: ${describe(condition)}`;
+    }
+  }
+
+  let finalType = original;
+  if (flip) {
+    const flipped = flipContractType(original);
+    if (!flipped) {
+      return decide('block', `${flipReason} (${original} cannot be flipped)`, original, original, matched);
+    }
+    finalType = flipped;
+  }
+
+  // 4. Required conditions, against the direction finally traded
+  const finalDirection = getDirection(finalType);
+  for (const condition of conditions) {
+    if (condition.action !== 'require' || !appliesTo(condition, finalDirection)) continue;
+    const left = readPath(snapshot, condition.indicator);
+    const right = resolveOperand(snapshot, condition.value);
+    if (left === null || right === null) {
+      return decide('wait', `Indicators warming up (${condition.indicator})`, original, original, matched);
+    }
+    if (!compare(left, condition.operator, right)) {
+      return decide('block', `Signal required: ${describe(condition)}`, original, original, matched);
+    }
+    matched.push(describe(condition));
+  }
+
+  return flip
+    ? decide('flip', flipReason, original, finalType, matched)
+    : decide('allow', null, original, original, matched);
+}
+
+export {
+  DEFAULT_ADX_THRESHOLD,
+  isSignalGateEnabled,
+  flipContractType,
+  flipContractParams,
+  evaluateSignalGate,
+};
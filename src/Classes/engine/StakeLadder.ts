@@ -0,0 +1,454 @@
+/**
+ * @file StakeLadder.ts
+ * @description Worst-case stake ladder and Monte-Carlo risk of ruin for a bot configuration.
+ *
+ * Nothing here re-implements staking: every trade goes through the manager's own cycle
+ * (stake strategy, `_calculateStake`, `_clampStake`, `recovery_steps.risk_steps`, stop loss,
+ * risk limits) against a ScriptedExecutor that settles contracts from a script instead of
+ * ticks. A purchase the scripted balance can't cover is ruin.
+ *
+ * Market-data gates (signal gate, digit filter, volatility pause) and the trading schedule
+ * are switched off — they decide *when* to trade, not *how much*.
+ *
+ * @usage
+ *   const ladder = await buildStakeLadder({ formData, losses: 10, balance: 1000 });
+ *   ladder.steps.forEach((s) => console.log(s.trade, s.stake, s.exposurePercentage));
+ *
+ *   const risk = await estimateRiskOfRuin({ formData, balance: 1000, simulations: 500 });
+ *   console.log(`${risk.riskOfRuin}% of sessions blow the account`);
+ */
+
+import { TradingBotManager, BOT_STATUSES } from './TradingBotManager';
+import { BacktestExecutor } from './BacktestExecutor';
+import { STOP_EVENTS } from './Backtester';
+import { buildSimulatedTradeResult, type SettlementOutcome } from './ContractSimulator';
+import { getPayoutRate } from './PayoutTable';
+import { getWinProbability } from './PositionSizing';
+import type { RecoveryStepAction } from './RecoverySteps';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_LADDER_LOSSES = 10;
+const DEFAULT_LADDER_BALANCE = 1000;
+const DEFAULT_SIMULATIONS = 500;
+const DEFAULT_TRADES_PER_SESSION = 100;
+/** Virtual time between purchases, so periodic limit counters behave as in a live session */
+const TRADE_STEP_MS = 5000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function roundToTwo(num: number) {
+  return Math.round((num + Number.EPSILON) * 100) / 100;
+}
+
+function median(values: number[]) {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Let the browser paint between simulations. */
+function yieldToEventLoop() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface StakeLadderOptions {
+  /** Raw StrategyForm payload (see TradingBotManager.fromFormData) */
+  formData: Record<string, any>;
+  /** Consecutive losses to play out (default 10) */
+  losses?: number;
+  /** Account balance the ladder is measured against (default 1000) */
+  balance?: number;
+  /** Payout % on a win; defaults to the PayoutTable rate for each stake */
+  payoutRate?: number | null;
+}
+
+export interface StakeLadderStep {
+  trade: number;
+  stake: number;
+  contractType: string;
+  symbol: string;
+  balanceBefore: number;
+  balanceAfter: number;
+  /** Sum of the stakes lost so far, this one included */
+  cumulativeLoss: number;
+  /** cumulativeLoss as a % of the starting balance */
+  exposurePercentage: number;
+  payoutRate: number | null;
+  /** Session result if this trade had won instead (null when the contract has no payout rate) */
+  netIfWon: number | null;
+  inRecovery: boolean;
+  recoveryStep: number | null;
+  /** What the recovery step did with the contract (see RecoverySteps) */
+  recoveryAction: RecoveryStepAction | null;
+}
+
+export interface StakeLadder {
+  steps: StakeLadderStep[];
+  /** Why the engine stopped before `losses` trades, or null if it played them all */
+  stopReason: string | null;
+  /** Trade number the balance could no longer fund, or null */
+  ruinAt: number | null;
+  /** Stake the engine asked for when the balance ran out */
+  unaffordableStake: number | null;
+  startingBalance: number;
+  totalExposure: number;
+  exposurePercentage: number;
+}
+
+export interface RiskOfRuinOptions {
+  formData: Record<string, any>;
+  balance?: number;
+  payoutRate?: number | null;
+  /** Simulated sessions (default 500) */
+  simulations?: number;
+  /** Trades per session unless a stop ends it first (default 100) */
+  tradesPerSession?: number;
+  /** Override the per-contract win probability (0-1) */
+  winProbability?: number | null;
+  /** Uniform [0, 1) source, e.g. a seeded generator (default Math.random) */
+  random?: () => number;
+}
+
+export interface RiskOfRuinEstimate {
+  simulations: number;
+  tradesPerSession: number;
+  /** % of sessions that ended unable to fund the next stake */
+  riskOfRuin: number;
+  /** % of sessions ended by the stop loss */
+  stopLossRate: number;
+  /** % of sessions ended by the take profit */
+  takeProfitRate: number;
+  medianFinalBalance: number;
+  worstFinalBalance: number;
+  /** Win probability of the first contract traded */
+  winProbability: number;
+  /** Payout % of the first contract traded */
+  payoutRate: number | null;
+}
+
+type OutcomeScript = (params: Record<string, any>, tradeNumber: number) => boolean;
+
+interface ScriptedExecutorOptions {
+  balance: number;
+  payoutRate: number | null;
+  script: OutcomeScript;
+  now: () => number;
+}
+
+/** What TradingBotManager.runSimulationCycle() returns */
+interface SimulationCycle {
+  traded: boolean;
+  result?: Record<string, any> | null;
+  check?: { action?: string; reason?: string } | null;
+}
+
+interface SessionTrade {
+  result: Record<string, any>;
+  balanceBefore: number;
+  inRecovery: boolean;
+  recoveryStep: number | null;
+}
+
+interface SessionResult {
+  trades: SessionTrade[];
+  stopReason: string | null;
+  ruined: boolean;
+  unaffordableStake: number | null;
+  finalBalance: number;
+}
+
+// ─── Scripted execution ──────────────────────────────────────────────────────
+
+/**
+ * BacktestExecutor whose contracts win or lose as the script says. Purchases the
+ * simulated balance can't cover fail with code INSUFFICIENT_BALANCE, as Deriv's do.
+ */
+class ScriptedExecutor extends BacktestExecutor {
+  private _script: OutcomeScript;
+  private _payoutRate: number | null;
+  private _now: () => number;
+
+  constructor(options: ScriptedExecutorOptions) {
+    super({ ticks: [], startingBalance: options.balance });
+    this._script = options.script;
+    this._payoutRate = options.payoutRate;
+    this._now = options.now;
+  }
+
+  async executeTrade(
+    contractParams: Record<string, any>,
+    _userAccountToken?: string,
+    tradeContext: Record<string, any> = {},
+  ): Promise<any> {
+    const validation = this.validateContractParams(contractParams);
+    if (!validation.valid) {
+      const err: Error & { code?: string } = new Error(`Invalid contract params: ${validation.errors.join('; ')}`);
+      err.code = 'VALIDATION_ERROR';
+      throw err;
+    }
+
+    const stake = roundToTwo(Number(contractParams.amount));
+    if (stake > this.balance) {
+      const err: Error & { code?: string; stake?: number } = new Error(
+        `Insufficient balance: stake ${stake} exceeds balance ${this.balance}`,
+      );
+      err.code = 'INSUFFICIENT_BALANCE';
+      err.stake = stake;
+      throw err;
+    }
+
+    const index = this._tradeHistory.length;
+    const tick = { epoch: Math.floor(this._now() / 1000), quote: 0 };
+    const outcome: SettlementOutcome = {
+      isWin: this._script(contractParams, index + 1),
+      purchaseIndex: index,
+      entryIndex: index,
+      exitIndex: index,
+      entryTick: tick,
+      exitTick: tick,
+      lastDigit: 0,
+    };
+
+    const tradeResult: Record<string, any> = buildSimulatedTradeResult(contractParams, outcome, {
+      payoutRate: this._payoutRate,
+      sessionId: this._sessionId,
+    });
+    tradeResult.tradeId = `scripted_${index + 1}`;
+    Object.assign(tradeResult, tradeContext);
+
+    this.balance = roundToTwo(this.balance - tradeResult.stake + tradeResult.sellPrice);
+    tradeResult.balanceAfter = this.balance;
+    this.lastOutcome = outcome;
+    this._tradeHistory.push(tradeResult);
+
+    return tradeResult;
+  }
+}
+
+/**
+ * The form payload with everything that gates *when* to trade switched off.
+ */
+function withoutMarketGates(formData: Record<string, any>) {
+  const advanced = formData.advanced_settings || {};
+  return {
+    ...formData,
+    advanced_settings: {
+      ...advanced,
+      market_conditions_section: {},
+      digit_analysis_section: {},
+      volatility_controls_section: {},
+      bot_schedule: null,
+    },
+  };
+}
+
+/**
+ * Play one session through the manager's trade cycle.
+ * @param {Object} formData
+ * @param {Object} options
+ * @returns {Promise<SessionResult>}
+ */
+async function runScriptedSession(
+  formData: Record<string, any>,
+  options: { balance: number; payoutRate: number | null; maxTrades: number; script: OutcomeScript },
+): Promise<SessionResult> {
+  let clock = Date.now();
+  const executor = new ScriptedExecutor({
+    balance: options.balance,
+    payoutRate: options.payoutRate,
+    script: options.script,
+    now: () => clock,
+  });
+  const m = TradingBotManager.fromFormData(withoutMarketGates(formData), executor);
+  m.setBalanceProvider(() => executor.balance);
+  m.setClockProvider(() => clock);
+  // Trading hours gate *when* to trade too
+  m.setTradingCalendar(null);
+  // Hundreds of throwaway sessions — nothing worth journaling
+  m.journal.enabled = false;
+
+  let stopReason: string | null = null;
+  for (const [event, reason] of Object.entries(STOP_EVENTS)) {
+    m.on(event, () => { stopReason = stopReason || reason; });
+  }
+
+  const trades: SessionTrade[] = [];
+  let ruined = false;
+  let unaffordableStake: number | null = null;
+
+  m.beginSimulation();
+
+  try {
+    while (m.status === BOT_STATUSES.START && trades.length < options.maxTrades) {
+      const balanceBefore = executor.balance;
+      const { isInRecovery, recoveryStepIndex } = m.session;
+      const inRecovery = Boolean(isInRecovery);
+      const recoveryStep = inRecovery ? recoveryStepIndex : null;
+
+      let cycle: SimulationCycle;
+      try {
+        cycle = await m.runSimulationCycle();
+      } catch (err) {
+        const error = err as Error & { code?: string; stake?: number };
+        if (error.code === 'INSUFFICIENT_BALANCE') {
+          ruined = true;
+          unaffordableStake = error.stake ?? null;
+          stopReason = stopReason || `Balance ${executor.balance} cannot fund the next stake (${error.stake})`;
+          break;
+        }
+        if (error.code === 'VALIDATION_ERROR') {
+          stopReason = stopReason || error.message;
+          break;
+        }
+        throw err;
+      }
+
+      if (!cycle.traded || !cycle.result) {
+        const check = cycle.check || {};
+        // A general cooldown only continues the session when the bot would auto-restart
+        if (check.action === 'cooldown' && m.skipSimulationCooldown()) continue;
+        stopReason = stopReason || check.reason || 'Trade declined';
+        break;
+      }
+
+      trades.push({ result: cycle.result, balanceBefore, inRecovery, recoveryStep });
+      clock += TRADE_STEP_MS;
+    }
+  } finally {
+    await m.endSimulation();
+    executor.destroy();
+  }
+
+  return { trades, stopReason, ruined, unaffordableStake, finalBalance: executor.balance };
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Play `losses` consecutive losses through the engine and record every stake.
+ * @param {StakeLadderOptions} options
+ * @returns {Promise<StakeLadder>}
+ */
+async function buildStakeLadder(options: StakeLadderOptions): Promise<StakeLadder> {
+  const balance = options.balance ?? DEFAULT_LADDER_BALANCE;
+  const losses = options.losses ?? DEFAULT_LADDER_LOSSES;
+  const payoutRate = options.payoutRate ?? null;
+
+  const session = await runScriptedSession(options.formData, {
+    balance,
+    payoutRate,
+    maxTrades: losses,
+    script: () => false,
+  });
+
+  let cumulativeLoss = 0;
+  const steps: StakeLadderStep[] = session.trades.map(({ result, balanceBefore, inRecovery, recoveryStep }, i) => {
+    const rate = payoutRate ?? getPayoutRate(result.contractType, result.stake, result.barrier);
+    const netIfWon = rate === null ? null : roundToTwo(result.stake * (rate / 100) - cumulativeLoss);
+    cumulativeLoss = roundToTwo(cumulativeLoss + result.stake);
+    return {
+      trade: i + 1,
+      stake: result.stake,
+      contractType: result.contractType,
+      symbol: result.symbol,
+      balanceBefore,
+      balanceAfter: result.balanceAfter,
+      cumulativeLoss,
+      exposurePercentage: balance > 0 ? roundToTwo((cumulativeLoss / balance) * 100) : 0,
+      payoutRate: rate,
+      netIfWon,
+      inRecovery,
+      recoveryStep,
+      recoveryAction: result.recovery?.action ?? null,
+    };
+  });
+
+  return {
+    steps,
+    stopReason: session.trades.length >= losses && !session.ruined ? null : session.stopReason,
+    ruinAt: session.ruined ? steps.length + 1 : null,
+    unaffordableStake: session.unaffordableStake,
+    startingBalance: balance,
+    totalExposure: cumulativeLoss,
+    exposurePercentage: balance > 0 ? roundToTwo((cumulativeLoss / balance) * 100) : 0,
+  };
+}
+
+/**
+ * Monte-Carlo estimate of how often a session blows the account. Each contract wins
+ * with its own probability (see getWinProbability) and pays the PayoutTable rate.
+ * @param {RiskOfRuinOptions} options
+ * @returns {Promise<RiskOfRuinEstimate>}
+ * @throws {Error} code UNPRICED_CONTRACT when a contract has no payout rate and none was given
+ */
+async function estimateRiskOfRuin(options: RiskOfRuinOptions): Promise<RiskOfRuinEstimate> {
+  const balance = options.balance ?? DEFAULT_LADDER_BALANCE;
+  const simulations = Math.max(1, options.simulations ?? DEFAULT_SIMULATIONS);
+  const tradesPerSession = Math.max(1, options.tradesPerSession ?? DEFAULT_TRADES_PER_SESSION);
+  const payoutRate = options.payoutRate ?? null;
+  const random = options.random || Math.random;
+
+  let firstProbability: number | null = null;
+  let firstRate: number | null = null;
+  const script: OutcomeScript = (params) => {
+    const rate = payoutRate ?? getPayoutRate(params.contract_type, Number(params.amount), params.barrier);
+    if (rate === null) {
+      const err: Error & { code?: string } = new Error(
+        `No payout rate for ${params.contract_type}; pass payoutRate to estimate the risk of ruin`,
+      );
+      err.code = 'UNPRICED_CONTRACT';
+      throw err;
+    }
+    const probability = options.winProbability ?? getWinProbability(params.contract_type, params.barrier, rate);
+    if (firstProbability === null) {
+      firstProbability = probability;
+      firstRate = rate;
+    }
+    return random() < probability;
+  };
+
+  let ruins = 0;
+  let stopLosses = 0;
+  let takeProfits = 0;
+  const finalBalances: number[] = [];
+
+  for (let i = 0; i < simulations; i++) {
+    const session = await runScriptedSession(options.formData, {
+      balance,
+      payoutRate,
+      maxTrades: tradesPerSession,
+      script,
+    });
+    if (session.ruined) ruins++;
+    if (session.stopReason === STOP_EVENTS.stop_loss_triggered) stopLosses++;
+    if (session.stopReason === STOP_EVENTS.take_profit_triggered) takeProfits++;
+    finalBalances.push(session.finalBalance);
+    await yieldToEventLoop();
+  }
+
+  const percentage = (count: number) => roundToTwo((count / simulations) * 100);
+  return {
+    simulations,
+    tradesPerSession,
+    riskOfRuin: percentage(ruins),
+    stopLossRate: percentage(stopLosses),
+    takeProfitRate: percentage(takeProfits),
+    medianFinalBalance: roundToTwo(median(finalBalances)),
+    worstFinalBalance: Math.min(...finalBalances),
+    winProbability: roundToTwo(firstProbability ?? 0),
+    payoutRate: firstRate,
+  };
+}
+
+export {
+  DEFAULT_LADDER_LOSSES,
+  DEFAULT_SIMULATIONS,
+  DEFAULT_TRADES_PER_SESSION,
+  getWinProbability,
+  buildStakeLadder,
+  estimateRiskOfRuin,
+};
@@ -0,0 +1,552 @@
+/**
+ * @file StakeStrategies.ts
+ * @description Built-in stake strategies (Martingale, D'Alembert, Reverse, Oscar's Grind,
+ *              1-3-2-6, Accumulator) implemented on the StakeStrategy plugin interface.
+ *              The self-limiting recovery strategies live in RecoveryStakeStrategies.ts.
+ *
+ * Each strategy reads its `<strategy>_strategy_section` from advanced_settings. Progressions
+ * that move on the previous result (D'Alembert, Oscar's Grind, 1-3-2-6) apply it in
+ * nextStake() from `ctx.lastTrade`, so the step is decided right before the trade.
+ *
+ * Registered by StakeStrategyRegistry; import from there rather than from this file.
+ */
+
+import type { StakeStrategy, StakeStrategyContext } from './StakeStrategyRegistry';
+import { RECOVERY_STAKE_STRATEGIES } from './RecoveryStakeStrategies';
+
+// ─── Martingale ──────────────────────────────────────────────────────────────
+
+const martingale: StakeStrategy = {
+  id: 'martingale',
+  name: 'Martingale',
+
+  init: (_ctx, saved) => ({ step: 0, ...saved }),
+
+  nextStake(ctx) {
+    const s = ctx.settings.martingale_strategy_section || {};
+    const multiplier = s.martingale_multiplier || 2;
+    const maxSteps = s.martingale_max_steps || 10;
+    const safetyNet = s.martingale_safety_net;
+
+    if (ctx.session.consecutiveLosses === 0) {
+      ctx.state.step = 0;
+      return ctx.session.baseStake;
+    }
+
+    ctx.state.step = Math.min(ctx.session.consecutiveLosses, maxSteps);
+    let stake = ctx.session.baseStake * Math.pow(multiplier, ctx.state.step);
+
+    if (safetyNet && ctx.session.currentBalance > 0) {
+      const maxFromSafety = ctx.session.currentBalance * (safetyNet / 100);
+      stake = Math.min(stake, maxFromSafety);
+    }
+
+    return stake;
+  },
+
+  onWin(ctx) {
+    const s = ctx.settings.martingale_strategy_section || {};
+    if (s.martingale_reset_on_profit) ctx.state.step = 0;
+  },
+
+  reset(ctx) {
+    ctx.state.step = 0;
+  },
+};
+
+const martingaleReset: StakeStrategy = {
+  id: 'martingale_reset',
+  name: 'Martingale (reset on stats)',
+
+  init: martingale.init,
+
+  nextStake(ctx) {
+    const s = ctx.settings.martingale_reset_strategy_section || {};
+    const resetAfter = s.reset_after_trades;
+
+    if (resetAfter && ctx.session.totalTradesThisSession > 0 &&
+        ctx.session.totalTradesThisSession % resetAfter === 0) {
+      ctx.state.step = 0;
+      ctx.session.consecutiveLosses = 0;
+      ctx.session.consecutiveWins = 0;
+      ctx.emit('strategy_reset', { message: `Martingale reset after ${resetAfter} trades` });
+      return ctx.session.baseStake;
+    }
+
+    const adjustment = s.reset_multiplier_adjustment || 0;
+    const baseMartingale = martingale.nextStake(ctx) as number;
+    if (adjustment > 0 && s.track_session_stats) {
+      return baseMartingale * (1 + adjustment / 100);
+    }
+    return baseMartingale;
+  },
+
+  onWin: martingale.onWin,
+  reset: martingale.reset,
+};
+
+// ─── D'Alembert ──────────────────────────────────────────────────────────────
+
+function resetUnits(ctx: StakeStrategyContext) {
+  ctx.state.units = 1;
+}
+
+const dalembert: StakeStrategy = {
+  id: 'dalembert',
+  name: "D'Alembert",
+
+  init: (_ctx, saved) => ({ units: 1, ...saved }),
+
+  nextStake(ctx) {
+    const s = ctx.settings.dalembert_strategy_section || {};
+    const increment = ctx.resolveValue(s.dalembert_increment) || 1;
+    const decrement = ctx.resolveValue(s.dalembert_decrement) || 1;
+    const maxUnits = s.dalembert_max_units || 50;
+    const conservative = s.dalembert_conservative_mode;
+
+    if (ctx.session.totalTradesThisSession === 0) {
+      ctx.state.units = 1;
+    }
+
+    const lastTrade = ctx.lastTrade;
+    if (lastTrade) {
+      if (!lastTrade.isWin) {
+        ctx.state.units += conservative ? Math.ceil(increment / 2) : increment;
+      } else {
+        ctx.state.units = Math.max(1, ctx.state.units - decrement);
+      }
+    }
+
+    ctx.state.units = Math.min(ctx.state.units, maxUnits);
+
+    const resetThreshold = ctx.resolveValue(s.dalembert_reset_threshold);
+    if (resetThreshold > 0 && ctx.session.sessionProfit >= resetThreshold) {
+      ctx.state.units = 1;
+      ctx.emit('strategy_reset', { message: "D'Alembert reset at profit threshold" });
+    }
+
+    return ctx.session.baseStake * ctx.state.units;
+  },
+
+  reset: resetUnits,
+};
+
+const dalembertReset: StakeStrategy = {
+  id: 'dalembert_reset',
+  name: "D'Alembert (reset on stats)",
+
+  init: dalembert.init,
+
+  nextStake(ctx) {
+    const s = ctx.settings.dalembert_reset_strategy_section || {};
+    const resetFreq = s.dalembert_reset_frequency;
+
+    if (resetFreq && ctx.session.totalTradesThisSession > 0 &&
+        ctx.session.totalTradesThisSession % resetFreq === 0) {
+      ctx.state.units = 1;
+      ctx.emit('strategy_reset', { message: `D'Alembert reset after ${resetFreq} trades` });
+
+      if (s.dalembert_session_profit_lock && ctx.session.sessionProfit > 0) {
+        ctx.session.lockedProfit += ctx.session.sessionProfit;
+        ctx.log(`Session profit locked: ${ctx.session.sessionProfit}`);
+      }
+    }
+
+    if (s.dalembert_reset_on_target && ctx.isTakeProfitReached()) {
+      ctx.state.units = 1;
+    }
+
+    const baseDalembert = dalembert.nextStake(ctx) as number;
+
+    // Adaptive increment
+    if (s.dalembert_adaptive_increment && ctx.session.totalTradesThisSession > 5) {
+      const winRate = ctx.performance.numberOfWins / ctx.performance.totalRuns;
+      if (winRate > 0.6) return baseDalembert * 0.8;
+      if (winRate < 0.4) return baseDalembert * 1.2;
+    }
+
+    return baseDalembert;
+  },
+
+  reset: resetUnits,
+};
+
+// ─── Reverse Martingale ──────────────────────────────────────────────────────
+
+const reverseMartingale: StakeStrategy = {
+  id: 'reverse_martingale',
+  name: 'Reverse Martingale',
+
+  // The progression is driven by session.consecutiveWins; nothing of its own to keep
+  init: (_ctx, saved) => ({ ...saved }),
+
+  nextStake(ctx) {
+    const s = ctx.settings.reverse_martingale_strategy_section || {};
+    const multiplier = s.reverse_martingale_multiplier || 2;
+    const maxWins = s.reverse_martingale_max_wins || 5;
+    const profitLock = s.reverse_martingale_profit_lock;
+    const aggressive = s.reverse_martingale_aggressive_mode;
+
+    if (s.reverse_martingale_reset_on_loss && ctx.session.consecutiveLosses > 0) {
+      return ctx.session.baseStake;
+    }
+
+    if (ctx.session.consecutiveWins === 0) return ctx.session.baseStake;
+
+    const steps = Math.min(ctx.session.consecutiveWins, maxWins);
+    let stake = ctx.session.baseStake * Math.pow(multiplier, steps);
+
+    if (profitLock && profitLock > 0 && ctx.session.sessionProfit > 0) {
+      const locked = ctx.session.sessionProfit * (profitLock / 100);
+      const maxRisk = ctx.session.sessionProfit - locked + ctx.session.baseStake;
+      stake = Math.min(stake, maxRisk);
+    }
+
+    if (aggressive) stake *= 1.5;
+
+    return stake;
+  },
+
+  onLoss(ctx) {
+    const s = ctx.settings.reverse_martingale_strategy_section || {};
+    if (s.reverse_martingale_reset_on_loss) ctx.session.consecutiveWins = 0;
+  },
+};
+
+const reverseMartingaleReset: StakeStrategy = {
+  id: 'reverse_martingale_reset',
+  name: 'Reverse Martingale (reset on stats)',
+
+  init: reverseMartingale.init,
+
+  nextStake(ctx) {
+    const s = ctx.settings.reverse_martingale_reset_strategy_section || {};
+    const resetWinStreak = s.reverse_reset_win_streak;
+    const resetProfitTarget = ctx.resolveValue(s.reverse_reset_profit_target);
+
+    if (resetWinStreak && ctx.session.consecutiveWins >= resetWinStreak) {
+      ctx.session.consecutiveWins = 0;
+      if (s.reverse_preserve_winnings) {
+        ctx.session.lockedProfit += ctx.session.sessionProfit;
+      }
+      ctx.emit('strategy_reset', { message: `Reverse Martingale reset after ${resetWinStreak} wins` });
+      return ctx.session.baseStake;
+    }
+
+    if (resetProfitTarget > 0 && ctx.session.sessionProfit >= resetProfitTarget) {
+      ctx.session.consecutiveWins = 0;
+      ctx.emit('strategy_reset', { message: 'Reverse Martingale reset at profit target' });
+      return ctx.session.baseStake;
+    }
+
+    return reverseMartingale.nextStake(ctx);
+  },
+
+  onLoss: reverseMartingale.onLoss,
+};
+
+// ─── Reverse D'Alembert ──────────────────────────────────────────────────────
+
+const reverseDalembert: StakeStrategy = {
+  id: 'reverse_dalembert',
+  name: "Reverse D'Alembert",
+
+  init: dalembert.init,
+
+  nextStake(ctx) {
+    const s = ctx.settings.reverse_dalembert_strategy_section || {};
+    const increment = ctx.resolveValue(s.reverse_dalembert_increment) || 1;
+    const decrement = ctx.resolveValue(s.reverse_dalembert_decrement) || 1;
+    const maxUnits = s.reverse_dalembert_max_units || 50;
+    const profitCeiling = ctx.resolveValue(s.reverse_dalembert_profit_ceiling);
+
+    if (ctx.session.totalTradesThisSession === 0) ctx.state.units = 1;
+
+    const lastTrade = ctx.lastTrade;
+    if (lastTrade) {
+      if (lastTrade.isWin) {
+        ctx.state.units += increment;
+      } else {
+        ctx.state.units = Math.max(1, ctx.state.units - decrement);
+      }
+    }
+
+    ctx.state.units = Math.min(ctx.state.units, maxUnits);
+
+    if (profitCeiling > 0 && ctx.session.sessionProfit >= profitCeiling) {
+      ctx.state.units = 1;
+      ctx.emit('strategy_reset', { message: "Reverse D'Alembert reset at profit ceiling" });
+    }
+
+    return ctx.session.baseStake * ctx.state.units;
+  },
+
+  reset: resetUnits,
+};
+
+const reverseDalembertReset: StakeStrategy = {
+  id: 'reverse_dalembert_reset',
+  name: "Reverse D'Alembert (reset on stats)",
+
+  init: dalembert.init,
+
+  nextStake(ctx) {
+    const s = ctx.settings.reverse_dalembert_reset_strategy_section || {};
+    const resetInterval = s.reverse_dalembert_reset_interval;
+    const dynamicReset = s.reverse_dalembert_dynamic_reset;
+    const winRateThreshold = s.reverse_dalembert_win_rate_threshold;
+
+    if (resetInterval && ctx.session.totalTradesThisSession > 0 &&
+        ctx.session.totalTradesThisSession % resetInterval === 0) {
+      ctx.state.units = 1;
+      ctx.emit('strategy_reset', { message: `Reverse D'Alembert reset after ${resetInterval} trades` });
+    }
+
+    if (dynamicReset && winRateThreshold && ctx.session.totalTradesThisSession > 5) {
+      const winRate = ctx.performance.numberOfWins / ctx.performance.totalRuns;
+      if (winRate < winRateThreshold / 100) {
+        ctx.state.units = 1;
+        ctx.emit('strategy_reset', { message: 'Dynamic reset: win rate below threshold' });
+      }
+    }
+
+    return reverseDalembert.nextStake(ctx);
+  },
+
+  reset: resetUnits,
+};
+
+const reverseDalembertMain: StakeStrategy = {
+  id: 'reverse_dalembert_main',
+  name: "Reverse D'Alembert (main)",
+
+  init: dalembert.init,
+
+  nextStake(ctx) {
+    const s = ctx.settings.reverse_dalembert_main_strategy_section || {};
+    const baseStake = ctx.resolveValue(s.reverse_dalembert_base_stake) || ctx.session.baseStake;
+    const winIncrement = ctx.resolveValue(s.reverse_dalembert_win_increment) || 1;
+    const lossDecrement = ctx.resolveValue(s.reverse_dalembert_loss_decrement) || 1;
+    const maxUnits = s.reverse_dalembert_maximum_units || 50;
+    const minUnits = s.reverse_dalembert_minimum_units || 1;
+    const profitCeiling = ctx.resolveValue(s.reverse_dalembert_profit_ceiling);
+    const aggressive = s.reverse_dalembert_aggressive_mode;
+    const winStreakBonus = s.reverse_dalembert_win_streak_bonus;
+
+    if (ctx.session.totalTradesThisSession === 0) ctx.state.units = 1;
+
+    const lastTrade = ctx.lastTrade;
+    if (lastTrade) {
+      if (lastTrade.isWin) {
+        ctx.state.units += winIncrement;
+        if (winStreakBonus && ctx.session.consecutiveWins >= 3) {
+          ctx.state.units += winStreakBonus;
+        }
+      } else {
+        ctx.state.units = Math.max(minUnits, ctx.state.units - lossDecrement);
+      }
+    }
+
+    ctx.state.units = Math.min(ctx.state.units, maxUnits);
+    ctx.state.units = Math.max(ctx.state.units, minUnits);
+
+    if (profitCeiling > 0 && ctx.session.sessionProfit >= profitCeiling) {
+      ctx.state.units = 1;
+      ctx.emit('strategy_reset', { message: 'Reverse D\'Alembert Main reset at profit ceiling' });
+    }
+
+    let stake = baseStake * ctx.state.units;
+    if (aggressive) stake *= 1.3;
+
+    return stake;
+  },
+
+  reset: resetUnits,
+};
+
+// ─── Oscar's Grind ───────────────────────────────────────────────────────────
+
+const oscarsGrind: StakeStrategy = {
+  id: 'oscars_grind',
+  name: "Oscar's Grind",
+
+  init: (_ctx, saved) => ({ unit: 1, sessionProfit: 0, ...saved }),
+
+  nextStake(ctx) {
+    const s = ctx.settings.oscars_grind_strategy_section || {};
+    const baseUnit = ctx.resolveValue(s.oscars_grind_base_unit) || ctx.session.baseStake;
+    const profitTarget = ctx.resolveValue(s.oscars_grind_profit_target) || baseUnit;
+    const maxBetUnits = s.oscars_grind_max_bet_units || 10;
+    const incrementOnWin = s.oscars_grind_increment_on_win;
+    const resetOnTarget = s.oscars_grind_reset_on_target;
+    const autoStop = s.oscars_grind_auto_stop_on_target;
+
+    if (ctx.session.totalTradesThisSession === 0) {
+      ctx.state.unit = 1;
+      ctx.state.sessionProfit = 0;
+    }
+
+    const lastTrade = ctx.lastTrade;
+    if (lastTrade) {
+      ctx.state.sessionProfit += lastTrade.profit;
+
+      if (lastTrade.isWin && incrementOnWin) {
+        if (ctx.state.sessionProfit < profitTarget) {
+          ctx.state.unit = Math.min(ctx.state.unit + 1, maxBetUnits);
+        }
+      }
+      // On loss: maintain current unit (Oscar's Grind rule)
+    }
+
+    if (ctx.state.sessionProfit >= profitTarget) {
+      if (autoStop) {
+        ctx.emit('take_profit_triggered', { message: "Oscar's Grind session target reached" });
+        ctx.stop();
+        return baseUnit;
+      }
+      if (resetOnTarget) {
+        ctx.state.unit = 1;
+        ctx.state.sessionProfit = 0;
+        ctx.emit('strategy_reset', { message: "Oscar's Grind reset at profit target" });
+      }
+    }
+
+    const neededForTarget = profitTarget - ctx.state.sessionProfit;
+    const stakeUnits = Math.min(ctx.state.unit, Math.ceil(neededForTarget / baseUnit));
+
+    return baseUnit * Math.max(1, stakeUnits);
+  },
+
+  reset(ctx) {
+    ctx.state.unit = 1;
+    ctx.state.sessionProfit = 0;
+  },
+};
+
+// ─── 1-3-2-6 System ──────────────────────────────────────────────────────────
+
+const system1326: StakeStrategy = {
+  id: 'system_1326',
+  name: '1-3-2-6 System',
+
+  init: (_ctx, saved) => ({ step: 0, ...saved }),
+
+  nextStake(ctx) {
+    const s = ctx.settings.system_1326_strategy_section || {};
+    const baseUnit = ctx.resolveValue(s.system_1326_base_unit) || ctx.session.baseStake;
+    const sequenceStr = s.system_1326_sequence || '1-3-2-6';
+    const sequence = sequenceStr.split('-').map(Number);
+    const resetOnLoss = s.system_1326_reset_on_loss;
+    const maxCycles = s.system_1326_max_cycles;
+    const stopOnComplete = s.system_1326_stop_on_cycle_complete;
+
+    if (ctx.session.totalTradesThisSession === 0) {
+      ctx.state.step = 0;
+    }
+
+    const lastTrade = ctx.lastTrade;
+    if (lastTrade) {
+      if (lastTrade.isWin) {
+        ctx.state.step++;
+        if (ctx.state.step >= sequence.length) {
+          if (stopOnComplete) {
+            ctx.emit('strategy_reset', { message: '1-3-2-6 cycle complete — stopping' });
+            ctx.stop();
+            return baseUnit;
+          }
+          ctx.state.step = 0;
+          ctx.emit('strategy_reset', { message: '1-3-2-6 cycle complete — restarting' });
+        }
+      } else {
+        if (resetOnLoss) ctx.state.step = 0;
+        // system_1326_loss_recovery: stay at current step
+      }
+    }
+
+    if (maxCycles) {
+      const completedCycles = Math.floor(ctx.session.totalTradesThisSession / sequence.length);
+      if (completedCycles >= maxCycles) {
+        ctx.emit('max_trades_reached', { message: `Max cycles (${maxCycles}) reached` });
+        ctx.stop();
+        return baseUnit;
+      }
+    }
+
+    const stepIndex = Math.min(ctx.state.step, sequence.length - 1);
+    const multiplier = sequence[stepIndex] || 1;
+
+    if (s.system_1326_partial_profit_lock && ctx.session.sessionProfit > 0 && stepIndex >= 2) {
+      return baseUnit * multiplier * 0.9;
+    }
+
+    return baseUnit * multiplier;
+  },
+
+  reset(ctx) {
+    ctx.state.step = 0;
+  },
+};
+
+// ─── Accumulator ─────────────────────────────────────────────────────────────
+
+const accumulator: StakeStrategy = {
+  id: 'accumulator',
+  name: 'Accumulator',
+
+  init: (_ctx, saved) => ({ ...saved }),
+
+  nextStake(ctx) {
+    const s = ctx.settings.accumulator_strategy_section || {};
+    const growthRate = s.accumulator_growth_rate || 0.01;
+    const targetMultiplier = s.accumulator_target_multiplier || 10;
+
+    // Accumulator uses base stake with growth
+    let stake = ctx.session.baseStake;
+
+    if (ctx.session.consecutiveWins > 0) {
+      stake = ctx.session.baseStake * (1 + growthRate * ctx.session.consecutiveWins);
+    }
+
+    // Auto cashout at target
+    if (s.accumulator_auto_cashout && ctx.session.sessionProfit >= ctx.session.baseStake * targetMultiplier) {
+      ctx.emit('take_profit_triggered', { message: 'Accumulator target multiplier reached' });
+      ctx.stop();
+      return ctx.session.baseStake;
+    }
+
+    return stake;
+  },
+};
+
+// ─── Exports ─────────────────────────────────────────────────────────────────
+
+const BUILT_IN_STAKE_STRATEGIES: StakeStrategy[] = [
+  martingale,
+  martingaleReset,
+  dalembert,
+  dalembertReset,
+  reverseMartingale,
+  reverseMartingaleReset,
+  reverseDalembert,
+  reverseDalembertReset,
+  reverseDalembertMain,
+  oscarsGrind,
+  system1326,
+  accumulator,
+  ...RECOVERY_STAKE_STRATEGIES,
+];
+
+/** Form StrategyType ids (types/trade.ts) that run a built-in strategy */
+const STAKE_STRATEGY_ALIASES: Record<string, string[]> = {
+  martingale: ['options_martingale'],
+  martingale_reset: ['martingale_on_stat_reset'],
+  dalembert: ['options_dalembert'],
+  dalembert_reset: ['dalembert_on_stat_reset'],
+  reverse_martingale: ['options_reverse_martingale'],
+  reverse_martingale_reset: ['reverse_martingale_on_stat_reset'],
+  reverse_dalembert_reset: ['reverse_dalembert_on_stat_reset'],
+  oscars_grind: ['options_oscars_grind'],
+  system_1326: ['options_1326_system'],
+};
+
+export { BUILT_IN_STAKE_STRATEGIES, STAKE_STRATEGY_ALIASES };
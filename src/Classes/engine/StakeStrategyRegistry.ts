@@ -0,0 +1,214 @@
+/**
+ * @file StakeStrategyRegistry.ts
+ * @description Plugin interface and registry for stake (money-management) strategies.
+ *
+ * A stake strategy decides the stake of the next contract from the session state and its own
+ * private state. The manager owns the state object; the strategy creates it in `init`, mutates
+ * it in the other hooks and turns it into plain JSON in `serializeState` for checkpoints.
+ *
+ * Hooks (called by TradingBotManager):
+ *   - init(ctx, saved?)    — session start, or checkpoint restore with the saved state
+ *   - nextStake(ctx)       — before every trade; return null to trade the base stake, or a
+ *                            StakeDecision to decline the trade or override the contract
+ *   - onWin(ctx, result)   — after a winning trade is booked
+ *   - onLoss(ctx, result)  — after a losing trade is booked
+ *   - reset(ctx)           — back to the first step of the progression (auto-restart)
+ *   - serializeState(ctx)  — plain-JSON copy of the state for checkpoints
+ *   - getStatistics(ctx)   — after every trade; merged into the bot's statistics
+ *
+ * Built-in strategies (StakeStrategies.ts) are registered on import under the engine's
+ * STRATEGY_TYPES ids and the form's StrategyType ids.
+ *
+ * @usage
+ *   registerStakeStrategy({
+ *     id: 'fibonacci',
+ *     init: () => ({ index: 0 }),
+ *     nextStake: (ctx) => ctx.session.baseStake * FIB[ctx.state.index],
+ *     onWin: (ctx) => { ctx.state.index = Math.max(0, ctx.state.index - 2); },
+ *     onLoss: (ctx) => { ctx.state.index = Math.min(FIB.length - 1, ctx.state.index + 1); },
+ *   });
+ */
+
+import { BUILT_IN_STAKE_STRATEGIES, STAKE_STRATEGY_ALIASES } from './StakeStrategies';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type StakeStrategyState = Record<string, any>;
+
+export interface StakeStrategyContext {
+  /** The bot's advanced_settings (read-only by convention) */
+  readonly settings: Record<string, any>;
+  /** Live session state (consecutiveWins, sessionProfit, baseStake, lockedProfit, ...) */
+  readonly session: Record<string, any>;
+  /** Realtime performance (numberOfWins, totalRuns, ...) */
+  readonly performance: Record<string, any>;
+  /** Most recent TradeResult, or null before the first trade */
+  readonly lastTrade: Record<string, any> | null;
+  /** The strategy's own state, as returned by init() */
+  state: StakeStrategyState;
+  /** Resolve a threshold value (number, string or { type, value, balancePercentage }) */
+  resolveValue: (value: unknown) => number;
+  emit: (event: string, payload: Record<string, any>) => void;
+  log: (message: string) => void;
+  /** Stop the bot (e.g. a cycle-complete or target-reached rule) */
+  stop: () => void;
+  isTakeProfitReached: () => boolean;
+  /** Current time in ms (the backtest clock when replaying) */
+  now: () => number;
+  /** The bot trades multipliers: positions have no fixed expiry and may lose less than the stake */
+  readonly openEnded: boolean;
+  /** Most a trade at `stake` can lose (its stop loss for multipliers, otherwise the stake) */
+  maxLoss: (stake: number) => number;
+}
+
+export interface StakeDecision {
+  /** false skips the trade and applies `action` */
+  shouldTrade: boolean;
+  /** Stake for the trade; null or omitted trades the base stake */
+  stake?: number | null;
+  reason?: string;
+  /** What the trade loop does when the trade is declined (default 'stop') */
+  action?: 'stop' | 'cooldown' | 'wait';
+  /** Proposal fields (contract_type, duration, ...) overriding the bot's contract for this trade */
+  contract?: Record<string, any>;
+  /** Payout % the stake was sized for (e.g. 92); the price guard refuses proposals paying less */
+  payoutRate?: number | null;
+  /** Sequence position, recovery mode, ... — emitted with stake_updated / strategy_declined */
+  metadata?: Record<string, any>;
+}
+
+export interface StakeStrategy {
+  id: string;
+  name?: string;
+  init: (ctx: StakeStrategyContext, saved?: StakeStrategyState | null) => StakeStrategyState;
+  nextStake: (ctx: StakeStrategyContext) => number | StakeDecision | null;
+  onWin?: (ctx: StakeStrategyContext, result: Record<string, any>) => void;
+  onLoss?: (ctx: StakeStrategyContext, result: Record<string, any>) => void;
+  /** Defaults to re-running init() */
+  reset?: (ctx: StakeStrategyContext) => void;
+  /** Defaults to a JSON copy of ctx.state */
+  serializeState?: (ctx: StakeStrategyContext) => StakeStrategyState;
+  /** Strategy-specific counters, stored as statistics.strategyStatistics */
+  getStatistics?: (ctx: StakeStrategyContext) => Record<string, any>;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/**
+ * Keyword rules for strategy ids that are neither registered nor aliased, checked in order
+ * (more specific first). Keeps older bots with free-form ids on the strategy they ran before.
+ */
+const KEYWORD_FALLBACKS: Array<[string[], string]> = [
+  [['reverse', 'martingale', 'reset'], 'reverse_martingale_reset'],
+  [['reverse', 'martingale'], 'reverse_martingale'],
+  [['martingale', 'reset'], 'martingale_reset'],
+  [['martingale'], 'martingale'],
+  [['reverse', 'dalembert', 'reset'], 'reverse_dalembert_reset'],
+  [['reverse', 'dalembert', 'main'], 'reverse_dalembert_main'],
+  [['reverse', 'dalembert'], 'reverse_dalembert'],
+  [['dalembert', 'reset'], 'dalembert_reset'],
+  [['dalembert'], 'dalembert'],
+  [['oscars'], 'oscars_grind'],
+  [['grind'], 'oscars_grind'],
+  [['1326'], 'system_1326'],
+  [['accumulator'], 'accumulator'],
+];
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const strategies = new Map<string, StakeStrategy>();
+const aliases = new Map<string, string>();
+
+function normaliseId(id: string) {
+  return String(id || '').trim().toLowerCase();
+}
+
+/**
+ * Register a stake strategy under its `id` (and optional alias ids).
+ *
+ * @param {StakeStrategy} strategy
+ * @param {Object} [options]
+ * @param {string[]} [options.aliases] - Extra strategy ids that resolve to this strategy
+ * @param {boolean} [options.replace]  - Allow replacing an existing strategy with the same id
+ * @throws {Error} When the id is taken and `replace` is not set
+ */
+function registerStakeStrategy(
+  strategy: StakeStrategy,
+  options: { aliases?: string[]; replace?: boolean } = {},
+) {
+  const id = normaliseId(strategy?.id);
+  if (!id) throw new Error('Stake strategy requires an id');
+  if (typeof strategy.init !== 'function' || typeof strategy.nextStake !== 'function') {
+    throw new Error(`Stake strategy "${id}" must implement init() and nextStake()`);
+  }
+  if (strategies.has(id) && !options.replace) {
+    throw new Error(`Stake strategy "${id}" is already registered`);
+  }
+
+  strategies.set(id, strategy);
+  for (const alias of options.aliases || []) {
+    aliases.set(normaliseId(alias), id);
+  }
+}
+
+/**
+ * Remove a strategy and every alias pointing at it.
+ * @param {string} id
+ * @returns {boolean} Whether a strategy was removed
+ */
+function unregisterStakeStrategy(id: string) {
+  const key = normaliseId(id);
+  for (const [alias, target] of aliases) {
+    if (target === key) aliases.delete(alias);
+  }
+  return strategies.delete(key);
+}
+
+/**
+ * Exact lookup by id or alias.
+ * @param {string} id
+ * @returns {StakeStrategy|null}
+ */
+function getStakeStrategy(id: string) {
+  const key = normaliseId(id);
+  return strategies.get(key) || strategies.get(aliases.get(key) || '') || null;
+}
+
+/**
+ * Resolve the strategy for a bot's `strategyId`: exact id or alias first, then the
+ * keyword fallbacks. Returns null when the bot should always trade its base stake.
+ *
+ * @param {string} strategyId
+ * @returns {StakeStrategy|null}
+ */
+function resolveStakeStrategy(strategyId: string) {
+  const exact = getStakeStrategy(strategyId);
+  if (exact) return exact;
+
+  const key = normaliseId(strategyId);
+  if (!key) return null;
+
+  const match = KEYWORD_FALLBACKS.find(([keywords]) => keywords.every((k) => key.includes(k)));
+  return match ? getStakeStrategy(match[1]) : null;
+}
+
+/**
+ * @returns {string[]} Registered strategy ids (aliases excluded)
+ */
+function listStakeStrategies() {
+  return [...strategies.keys()];
+}
+
+// ─── Built-ins ───────────────────────────────────────────────────────────────
+
+for (const strategy of BUILT_IN_STAKE_STRATEGIES) {
+  registerStakeStrategy(strategy, { aliases: STAKE_STRATEGY_ALIASES[strategy.id] });
+}
+
+export {
+  registerStakeStrategy,
+  unregisterStakeStrategy,
+  getStakeStrategy,
+  resolveStakeStrategy,
+  listStakeStrategies,
+};
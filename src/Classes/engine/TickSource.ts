@@ -0,0 +1,117 @@
+/**
+ * @file TickSource.ts
+ * @description Minimal tick-stream abstraction for components that need market data
+ *              without buying contracts (paper trading, indicators, filters).
+ *
+ * Two sources ship with the engine:
+ *   - createDerivTickSource(connection) — live `ticks` subscriptions over a pooled connection
+ *   - createReplayTickSource(ticks)     — replays recorded ticks on a timer
+ *
+ * @usage
+ *   const source = createDerivTickSource(await executor.getConnection(token));
+ *   const sub = source.subscribe('R_100', (tick) => console.log(tick.quote));
+ *   sub.unsubscribe();
+ */
+
+import type { Tick } from './ContractSimulator';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface StreamTick extends Tick {
+  symbol?: string;
+  /** Quote decimals reported by the feed (Deriv `pip_size`) */
+  pipSize?: number;
+}
+
+export interface TickSubscription {
+  unsubscribe: () => void;
+}
+
+export interface TickSource {
+  subscribe: (
+    symbol: string,
+    onTick: (tick: StreamTick) => void,
+    onError?: (error: Error) => void,
+  ) => TickSubscription;
+}
+
+interface SubscribableConnection {
+  subscribe: (
+    request: Record<string, any>,
+    onMessage: (message: any) => void,
+    onError?: (error: any) => void,
+  ) => TickSubscription;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DEFAULT_REPLAY_INTERVAL = 1000;
+
+// ─── Sources ─────────────────────────────────────────────────────────────────
+
+/**
+ * Live ticks through a DerivConnectionHandle. Subscriptions are replayed by the pool
+ * after a reconnect, so the stream survives dropped sockets.
+ *
+ * @param {Object} connection - DerivConnectionHandle (see TradingBotExecutor.getConnection)
+ * @returns {TickSource}
+ */
+function createDerivTickSource(connection: SubscribableConnection): TickSource {
+  return {
+    subscribe(symbol, onTick, onError) {
+      return connection.subscribe(
+        { ticks: symbol },
+        (message) => {
+          const tick = message?.tick;
+          if (!tick) return;
+          onTick({
+            symbol: tick.symbol || symbol,
+            epoch: Number(tick.epoch),
+            quote: Number(tick.quote),
+            pipSize: tick.pip_size !== undefined ? Number(tick.pip_size) : undefined,
+          });
+        },
+        (error) => onError?.(error instanceof Error ? error : new Error(error?.error?.message || String(error))),
+      );
+    },
+  };
+}
+
+/**
+ * Replay recorded ticks on a timer. Every subscriber shares one cursor, so consecutive
+ * subscriptions continue through the recording instead of restarting it.
+ *
+ * @param {Tick[]} ticks
+ * @param {Object} [options]
+ * @param {number} [options.intervalMs=1000] - Delay between replayed ticks
+ * @param {boolean} [options.loop=false]     - Restart from the first tick at the end
+ * @returns {TickSource}
+ */
+function createReplayTickSource(
+  ticks: Tick[],
+  options: { intervalMs?: number; loop?: boolean } = {},
+): TickSource {
+  const recording = [...ticks].sort((a, b) => a.epoch - b.epoch);
+  const intervalMs = options.intervalMs ?? DEFAULT_REPLAY_INTERVAL;
+  let cursor = 0;
+
+  return {
+    subscribe(symbol, onTick, onError) {
+      const timer = setInterval(() => {
+        if (cursor >= recording.length) {
+          if (!options.loop || recording.length === 0) {
+            clearInterval(timer);
+            onError?.(new Error('Tick replay finished'));
+            return;
+          }
+          cursor = 0;
+        }
+        onTick({ ...recording[cursor++], symbol });
+      }, intervalMs);
+
+      return { unsubscribe: () => clearInterval(timer) };
+    },
+  };
+}
+
+export { createDerivTickSource, createReplayTickSource };
@@ -0,0 +1,76 @@
+/**
+ * @file TimerRegistry.ts
+ * @description Named timeouts and intervals owned by one bot, cleared together.
+ *
+ * Each name holds at most one timer: arming a name again replaces its timer. A timeout
+ * leaves the registry as it fires, so `has(name)` means "still pending". `clearAll()` is
+ * all a stop or destroy needs, however many timers the features have armed.
+ *
+ * @usage
+ *   const timers = new TimerRegistry();
+ *   timers.setTimeout('cooldown', () => endCooldown(), 30000);
+ *   timers.setInterval('scheduleCheck', () => checkSchedule(), 30000);
+ *   timers.clearAll();
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface RegisteredTimer {
+  handle: ReturnType<typeof setTimeout>;
+  repeats: boolean;
+}
+
+// ─── TimerRegistry ───────────────────────────────────────────────────────────
+
+class TimerRegistry {
+  private _timers = new Map<string, RegisteredTimer>();
+
+  /** Names of the pending timers */
+  get names() {
+    return [...this._timers.keys()];
+  }
+
+  /**
+   * Arm a one-off timer, replacing any timer under the same name.
+   * @param {string} name
+   * @param {Function} callback - Runs after the timer has left the registry
+   * @param {number} delayMs
+   */
+  setTimeout(name: string, callback: () => void, delayMs: number) {
+    this.clear(name);
+    const handle = setTimeout(() => {
+      this._timers.delete(name);
+      callback();
+    }, delayMs);
+    this._timers.set(name, { handle, repeats: false });
+  }
+
+  /**
+   * Arm a repeating timer, replacing any timer under the same name.
+   * @param {string} name
+   * @param {Function} callback
+   * @param {number} intervalMs
+   */
+  setInterval(name: string, callback: () => void, intervalMs: number) {
+    this.clear(name);
+    this._timers.set(name, { handle: setInterval(callback, intervalMs), repeats: true });
+  }
+
+  has(name: string) {
+    return this._timers.has(name);
+  }
+
+  clear(name: string) {
+    const timer = this._timers.get(name);
+    if (!timer) return;
+    if (timer.repeats) clearInterval(timer.handle);
+    else clearTimeout(timer.handle);
+    this._timers.delete(name);
+  }
+
+  clearAll() {
+    for (const name of this.names) this.clear(name);
+  }
+}
+
+export { TimerRegistry };
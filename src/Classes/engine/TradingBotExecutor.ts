@@ -5,8 +5,16 @@
  * Responsibilities:
  *   - Create / load / update / delete bot records via the TradingBot API service
  *   - Purchase contracts on the Deriv API with retry logic and timeout protection
+ *     over pooled, persistent per-account connections (see DerivConnectionManager)
+ *   - Classify Deriv errors (see DerivErrors): only transient failures are retried here,
+ *     the rest are thrown as DerivErrors for the manager to react to
  *   - Transform raw Deriv contract responses into normalised TradeResult objects
  *   - Validate contract parameters before submission
+ *   - Manage open multiplier positions (limit order updates, deal cancellation, sell,
+ *     maximum holding time — see Multipliers)
+ *   - Sell open contracts early on the bot's early-exit rules (see EarlyExit)
+ *   - Check each proposal's price before buying and cap the buy at the checked price
+ *     (see PriceGuard)
  *   - Persist individual trade records via the BotContractTrade API
  *   - Provide an event-driven interface so the TradingBotManager can react to
  *     trade outcomes without coupling to network details
@@ -20,6 +28,20 @@
 const { EventEmitter } = require('events');
 const { v4: uuidv4 } = require('uuid');
 
+import { find } from 'rxjs/operators';
+import { CONNECTION_STATES, getSharedConnectionManager } from './DerivConnectionManager';
+import {
+  isMultiplierContract,
+  resolveLimitOrder,
+  validateMultiplierParams,
+  toDerivProposal,
+  getHoldDuration,
+  getMultiplierCloseReason,
+} from './Multipliers';
+import { isEarlyExitEnabled, evaluateEarlyExit } from './EarlyExit';
+import { classifyDerivError } from './DerivErrors';
+import { REQUOTE_DELAY_MS, getMaxRequotes, checkProposal } from './PriceGuard';
+
 // ─── Constants ───────────────────────────────────────────────────────────────
 
 const BOT_STATUSES = Object.freeze({
@@ -36,6 +58,18 @@ const DEFAULT_MAX_RETRY_ATTEMPTS = 3;
 const DEFAULT_RETRY_DELAY_BASE = 1000;
 const DEFAULT_MIN_STAKE = 0.35;
 const DEFAULT_MAX_STAKE = 50000;
+const DEFAULT_SETTLEMENT_TIMEOUT = 60000;
+
+// Connection pool events re-emitted for the accounts this executor trades on
+const CONNECTION_EVENTS = Object.freeze([
+  'connection_opened',
+  'connection_lost',
+  'connection_reconnecting',
+  'connection_restored',
+  'connection_failed',
+  'connection_closed',
+  'connection_reauthorized',
+]);
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -43,10 +77,30 @@ function roundToTwo(num) {
   return Math.round((num + Number.EPSILON) * 100) / 100;
 }
 
+function durationToMs(duration, unit) {
+  switch (String(unit).toLowerCase()) {
+    case 's': return duration * 1000;
+    case 'm': return duration * 60000;
+    case 'h': return duration * 3600000;
+    case 'd': return duration * 86400000;
+    default: return 0;
+  }
+}
+
 function generateSessionId() {
   return `session_${Date.now()}_${uuidv4().slice(0, 8)}`;
 }
 
+/** Deriv rejects with the response ({ error: { code, message } }), not an Error */
+function toError(err, fallback) {
+  return err instanceof Error ? err : new Error(err?.error?.message || fallback);
+}
+
+/** Amount of a deriv-api Monetary field (or a plain number from a raw response) */
+function toAmount(value) {
+  return Number(value?._data?.value ?? value?.value ?? value);
+}
+
 // ─── TradingBotExecutor ──────────────────────────────────────────────────────
 
 class TradingBotExecutor extends EventEmitter {
@@ -62,6 +116,10 @@ class TradingBotExecutor extends EventEmitter {
    * @param {number} [options.retryDelayBase]    - Base delay for exponential backoff (ms)
    * @param {number} [options.minStake]          - Minimum allowed stake
    * @param {number} [options.maxStake]          - Maximum allowed stake
+   * @param {number} [options.settlementTimeout] - Max wait for a sale beyond the contract's
+   *                                               duration (ms) before settling it by id
+   * @param {Object} [options.connectionManager] - DerivConnectionManager to pool sockets with
+   *                                               (defaults to the shared pool for this endpoint/app_id)
    */
   constructor(options = {}) {
     super();
@@ -77,17 +135,38 @@ class TradingBotExecutor extends EventEmitter {
     this.connectionTimeout = options.connectionTimeout || DEFAULT_CONNECTION_TIMEOUT;
     this.maxRetryAttempts = options.maxRetryAttempts || DEFAULT_MAX_RETRY_ATTEMPTS;
     this.retryDelayBase = options.retryDelayBase || DEFAULT_RETRY_DELAY_BASE;
+    this.settlementTimeout = options.settlementTimeout ?? DEFAULT_SETTLEMENT_TIMEOUT;
 
     // Stake bounds
     this.minStake = options.minStake ?? DEFAULT_MIN_STAKE;
     this.maxStake = options.maxStake ?? DEFAULT_MAX_STAKE;
 
+    // Pooled Deriv connections (one authorized socket per account token)
+    this._connectionManager = options.connectionManager || getSharedConnectionManager({
+      endpoint: this.derivEndpointDomain,
+      appId: this.derivAppId,
+      lang: this.derivLang,
+      connectTimeout: this.connectionTimeout,
+    });
+    this._connections = new Map();
+    this._pendingConnections = new Map();
+    this._connectionListeners = CONNECTION_EVENTS.map((event) => {
+      const listener = (payload) => this._forwardConnectionEvent(event, payload);
+      this._connectionManager.on(event, listener);
+      return [event, listener];
+    });
+
     // Internal state
     this._currentBot = null;
     this._sessionId = null;
     this._derivApi = null;
     this._userAccount = null;
     this._tradeHistory = [];
+    this._inFlightContracts = new Map();
+    this._closeReasons = new Map();
+    this._holdWatches = new Map();
+    this._earlyExitWatches = new Map();
+    this._earlyExits = new Map();
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -281,6 +360,59 @@ class TradingBotExecutor extends EventEmitter {
     }
   }
 
+  /**
+   * Fetch a bot's trade records, following pagination.
+   * @param {string} botUUID
+   * @param {Object} [params] - startDate / endDate (ISO), sortBy, sortOrder
+   * @param {number} [maxPages=20] - Safety cap on pages fetched
+   * @returns {Promise<Object[]>} BotContractTrade records
+   */
+  async fetchTradesByBot(botUUID, params = {}, maxPages = 20) {
+    const trades = [];
+    for (let page = 1; page <= maxPages; page++) {
+      const query = new URLSearchParams();
+      for (const [key, val] of Object.entries({ limit: 100, ...params, page })) {
+        if (val !== undefined && val !== null) query.set(key, String(val));
+      }
+      const data = (await this._request(`/bot-contract-trades/filter/by-bot/${botUUID}?${query.toString()}`)).data;
+      trades.push(...(data?.trades || []));
+      if (!data?.pagination?.hasNext) break;
+    }
+    return trades;
+  }
+
+  // ─── Decision journal ──────────────────────────────────────────────────────
+
+  /**
+   * Append decision journal entries to the bot's server-side journal.
+   * Throws on failure so the caller keeps the entries for the next sync.
+   * @param {string} botUUID
+   * @param {Object[]} entries - JournalEntry[] in seq order
+   * @returns {Promise<Object>}
+   */
+  async appendJournalEntries(botUUID, entries) {
+    return (await this._request(`/trading-bots/${botUUID}/journal`, {
+      method: 'POST',
+      body: JSON.stringify({ entries }),
+    })).data;
+  }
+
+  /**
+   * Fetch a bot's decision journal.
+   * @param {string} botUUID
+   * @param {Object} [params] - runId, fromSeq
+   * @returns {Promise<Object[]>} JournalEntry[]
+   */
+  async fetchJournal(botUUID, params = {}) {
+    const query = new URLSearchParams();
+    for (const [key, val] of Object.entries(params)) {
+      if (val !== undefined && val !== null) query.set(key, String(val));
+    }
+    const qs = query.toString();
+    const data = (await this._request(`/trading-bots/${botUUID}/journal${qs ? `?${qs}` : ''}`)).data;
+    return data?.entries || data || [];
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // DERIV CONTRACT EXECUTION
   // ═══════════════════════════════════════════════════════════════════════════
@@ -302,9 +434,100 @@ class TradingBotExecutor extends EventEmitter {
   endSession() {
     const sid = this._sessionId;
     this._sessionId = null;
+    this.releaseConnections();
     this.emit('session_ended', { sessionId: sid, trades: this._tradeHistory.length });
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DERIV CONNECTIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Get the pooled, authorized Deriv connection for an account token.
+   * The handle is held by this executor until `releaseConnections()` / `endSession()`,
+   * so repeated trades reuse the same socket and skip connect + authorize. A handle the
+   * pool is reconnecting is waited on; one it has closed is dropped and acquired again.
+   *
+   * @param {string} userAccountToken - Deriv account token
+   * @returns {Promise<Object>} DerivConnectionHandle
+   */
+  async getConnection(userAccountToken) {
+    if (!userAccountToken) throw new Error('User account token is required');
+
+    const existing = this._connections.get(userAccountToken);
+    if (existing) {
+      if (existing.state !== CONNECTION_STATES.CLOSED) {
+        // Its api is null until the reconnect finishes
+        await existing.ready.catch(() => {});
+        if (existing.state === CONNECTION_STATES.READY) {
+          this._derivApi = existing.api;
+          return existing;
+        }
+      }
+      if (this._connections.get(userAccountToken) === existing) {
+        existing.release();
+        this._connections.delete(userAccountToken);
+      }
+    }
+
+    // Concurrent callers for the same token wait on one acquire
+    if (!this._pendingConnections.has(userAccountToken)) {
+      const pending = this._connectionManager.acquire(userAccountToken)
+        .then((connection) => {
+          this._connections.set(userAccountToken, connection);
+          this._derivApi = connection.api;
+          this._userAccount = connection.user;
+          return connection;
+        })
+        .finally(() => this._pendingConnections.delete(userAccountToken));
+      this._pendingConnections.set(userAccountToken, pending);
+    }
+
+    return this._pendingConnections.get(userAccountToken);
+  }
+
+  /**
+   * Authorize the account's pooled connection again (see DerivConnectionManager.reauthorize).
+   * When that fails the handle is dropped, so the next trade opens a fresh connection.
+   * @param {string} userAccountToken - Deriv account token
+   */
+  async reauthorize(userAccountToken) {
+    const connection = this._connections.get(userAccountToken);
+    if (!connection) {
+      await this.getConnection(userAccountToken);
+      return;
+    }
+
+    try {
+      await this._connectionManager.reauthorize(userAccountToken);
+      this._derivApi = connection.api;
+      this._userAccount = connection.user;
+    } catch (err) {
+      connection.release();
+      this._connections.delete(userAccountToken);
+      throw err;
+    }
+  }
+
+  /**
+   * Release every pooled connection held by this executor. Sockets stay open in the
+   * pool for other executors (and are closed once idle).
+   */
+  releaseConnections() {
+    for (const connection of this._connections.values()) {
+      connection.release();
+    }
+    this._connections.clear();
+    this._derivApi = null;
+    this._userAccount = null;
+  }
+
+  /** @private */
+  _forwardConnectionEvent(event, payload) {
+    const ours = [...this._connections.values()].some((connection) => connection.key === payload?.key);
+    if (ours) this.emit(event, payload);
+  }
+
   /**
    * Validate contract parameters before sending to Deriv.
    * @param {Object} params - ContractParams
@@ -330,12 +553,18 @@ class TradingBotExecutor extends EventEmitter {
       errors.push('Barrier must be a number');
     }
 
+    errors.push(...validateMultiplierParams(params));
+
     return { valid: errors.length === 0, errors };
   }
 
   /**
    * Build Deriv-compatible ContractParams from the bot's contract config and a calculated stake.
    *
+   * Multipliers (MULTUP / MULTDOWN) get `multiplier`, the trade's `limit_order` and
+   * `cancellation`; their duration is the bot's maximum holding time (0 = none) and is
+   * stripped from the proposal sent to Deriv.
+   *
    * @param {Object} contractConfig - The bot's contract data (from bot.contract)
    * @param {number} stake          - The calculated stake amount
    * @param {string} currency       - Currency code (e.g. 'USD')
@@ -353,13 +582,22 @@ class TradingBotExecutor extends EventEmitter {
       duration_unit: contractConfig.durationUnits || 't',
     };
 
+    if (isMultiplierContract(params.contract_type)) {
+      const limitOrder = resolveLimitOrder(contractConfig, params.amount);
+      return {
+        ...params,
+        duration: Number(contractConfig.duration) || 0,
+        multiplier: Number(contractConfig.multiplier) || 0,
+        ...(limitOrder && { limit_order: limitOrder }),
+        ...(contractConfig.dealCancellation && { cancellation: contractConfig.dealCancellation }),
+        ...overrides,
+      };
+    }
+
     // Optional fields
     if (contractConfig.prediction !== undefined && contractConfig.prediction !== null && contractConfig.prediction !== '') {
       params.barrier = String(contractConfig.prediction);
     }
-    if (contractConfig.multiplier) {
-      params.multiplier = contractConfig.multiplier;
-    }
 
     return { ...params, ...overrides };
   }
@@ -369,9 +607,13 @@ class TradingBotExecutor extends EventEmitter {
    *
    * @param {Object} contractParams - Validated ContractParams
    * @param {string} userAccountToken - Deriv account token
+   * @param {Object} [tradeContext] - Extra fields copied onto the TradeResult (`signal`, `digits`)
+   * @param {Object} [options]
+   * @param {Object} [options.earlyExit] - The bot's early_exit_section (see EarlyExit)
+   * @param {Object} [options.priceGuard] - { settings, payoutRate } (see PriceGuard)
    * @returns {Promise<Object>} Normalised TradeResult
    */
-  async executeTrade(contractParams, userAccountToken) {
+  async executeTrade(contractParams, userAccountToken, tradeContext = {}, options = {}) {
     const validation = this.validateContractParams(contractParams);
     if (!validation.valid) {
       const err = new Error(`Invalid contract params: ${validation.errors.join('; ')}`);
@@ -383,15 +625,23 @@ class TradingBotExecutor extends EventEmitter {
     let lastError = null;
 
     for (let attempt = 1; attempt <= this.maxRetryAttempts; attempt++) {
+      let result = null;
       try {
         this.emit('trade_attempt', { attempt, maxAttempts: this.maxRetryAttempts, params: contractParams });
 
-        const result = await this._purchaseContract(contractParams, userAccountToken);
+        result = await this._purchaseContract(contractParams, userAccountToken, options);
 
-        // Normalise the result
-        const tradeResult = this._normaliseTradeResult(result.contract, result.user, contractParams);
+        // Normalise the result (from the raw settlement if the contract stream went stale)
+        const tradeResult = result.settlement && !result.contract.is_sold
+          ? this._normaliseSettlement(result.settlement, result.user, contractParams)
+          : this._normaliseTradeResult(result.contract, result.user, contractParams);
         tradeResult.sessionId = this._sessionId;
         tradeResult.tradeId = `trade_${Date.now()}_${uuidv4().slice(0, 8)}`;
+        if (result.contractId) tradeResult.contractId = String(result.contractId);
+        if (result.priceCheck) Object.assign(tradeResult, { priceCheck: result.priceCheck });
+        this._describeEarlyExit(tradeResult);
+        this._describeMultiplierResult(tradeResult, contractParams, result.settlement);
+        Object.assign(tradeResult, tradeContext);
 
         this._tradeHistory.push(tradeResult);
 
@@ -402,13 +652,32 @@ class TradingBotExecutor extends EventEmitter {
 
         return tradeResult;
       } catch (error) {
-        lastError = error;
+        // A failure once the contract settled is not a reason to buy it again either
+        const derivError = classifyDerivError(result
+          ? Object.assign(toError(error, 'Trade failed'), { purchased: true, contractId: result.contractId ?? null })
+          : error);
+        lastError = derivError;
         this.emit('trade_error', {
           attempt,
           maxAttempts: this.maxRetryAttempts,
-          error: error.message || 'Unknown error',
+          error: derivError.message,
+          code: derivError.code,
+          type: derivError.type,
+          reaction: derivError.reaction,
         });
 
+        // Released mid-trade (stop / destroy): the contract stays in flight for checkpoints
+        if (derivError.purchased && derivError.code === 'ConnectionReleased') throw derivError;
+
+        // Bought, then lost track of it: settle that contract instead of buying another
+        if (derivError.contractId) {
+          return this._reconcileFailedTrade(derivError, userAccountToken, contractParams, tradeContext);
+        }
+
+        // Balance, market, rate-limit, auth and proposal errors won't clear on a blind retry,
+        // and nothing is retried once a contract was bought
+        if (!derivError.retryable) throw derivError;
+
         if (attempt < this.maxRetryAttempts) {
           const delay = this._calculateRetryDelay(attempt);
           await new Promise((resolve) => setTimeout(resolve, delay));
@@ -427,58 +696,426 @@ class TradingBotExecutor extends EventEmitter {
    * Purchase a contract on the Deriv API.
    * @private
    */
-  async _purchaseContract(params, userAccountToken) {
+  async _purchaseContract(params, userAccountToken, { earlyExit = null, priceGuard = null } = {}) {
     if (!this.derivEndpointDomain) throw new Error('DERIV_APP_ENDPOINT_DOMAIN not configured');
     if (!this.derivAppId) throw new Error('DERIV_APP_ENDPOINT_APP_ID not configured');
     if (!userAccountToken) throw new Error('User account token is required');
 
-    let DerivAPI;
-    try {
-      DerivAPI = require('@deriv/deriv-api/dist/DerivAPI');
-    } catch (e) {
-      throw new Error('Deriv API package not available. Install @deriv/deriv-api');
-    }
-
-    const api = new DerivAPI({
-      endpoint: this.derivEndpointDomain,
-      app_id: this.derivAppId,
-      lang: this.derivLang,
-    });
-
-    // Authenticate
-    const account = await api.account(userAccountToken);
+    // Reuse the pooled, already-authorized socket for this account
+    const connection = await this.getConnection(userAccountToken);
+    const account = connection.user || {};
     const user = {
       token: userAccountToken,
-      account: account?.loginid || '',
-      currency: account?.currency || params.currency,
-      balance: account?.balance || 0,
+      account: account.account || '',
+      currency: account.currency || params.currency,
+      balance: account.balance || 0,
     };
 
-    // Create contract with timeout
-    const timeoutPromise = new Promise((_, reject) =>
-      setTimeout(() => reject(new Error('Contract creation timed out')), this.connectionTimeout)
-    );
+    // Quote, and re-quote while the offer is worse than the price guard allows
+    let contract = await this._createProposal(connection, params);
+    let check = this._checkProposal(contract, params, priceGuard);
+    const maxRequotes = getMaxRequotes(priceGuard);
+    for (let requote = 1; !check.accepted && requote <= maxRequotes; requote++) {
+      this.emit('proposal_requoted', { params, attempt: requote, maxRequotes, reason: check.reason, check });
+      await new Promise((resolve) => setTimeout(resolve, REQUOTE_DELAY_MS));
+      contract = await this._createProposal(connection, params);
+      check = this._checkProposal(contract, params, priceGuard);
+    }
 
-    const contract = await Promise.race([api.contract(params), timeoutPromise]);
+    if (!check.accepted) {
+      this.emit('proposal_refused', { params, reason: check.reason, check });
+      throw Object.assign(new Error(`Proposal refused: ${check.message}`), { code: 'PriceGuardRejected', check });
+    }
 
     // Subscribe to updates
     const subscription = contract.onUpdate(({ status, payout, bid_price }) => {
       this.emit('contract_update', { status, payout, bid_price });
+      if (contract.contract_id) {
+        this._countHoldTick(String(contract.contract_id));
+        this._checkEarlyExit(String(contract.contract_id), toAmount(bid_price));
+      }
     });
 
-    // Buy
-    await contract.buy();
+    // Buy, capped at the checked ask price (Deriv rejects rather than fills at a worse price)
+    const purchase = await contract.buy(check.maxPrice !== null ? { max_price: check.maxPrice } : undefined);
+    const contractId = purchase?.contract_id ?? contract.contract_id;
+    if (contractId) {
+      this._inFlightContracts.set(String(contractId), { contractId: String(contractId), params, purchasedAt: Date.now() });
+      this.emit('contract_purchased', { contractId: String(contractId), params });
+      this._watchHoldTime(String(contractId), userAccountToken, params);
+      if (isEarlyExitEnabled(earlyExit)) {
+        this._earlyExitWatches.set(String(contractId), {
+          settings: earlyExit, stake: params.amount, token: userAccountToken, ticks: 0, selling: false,
+        });
+      }
+    }
 
-    // Wait for settlement
-    const { find } = require('rxjs/operators');
-    await contract
+    // Wait for settlement. The contract object's own stream dies with the socket, so we
+    // also track the contract through the pool, which resubscribes after a reconnect.
+    // A stream that ends (or fails) without a sale leaves the settlement to the pool, which
+    // rejects when the handle is released or the sale is overdue.
+    const untilPoolSettles = (error = null) => {
+      if (contractId) return new Promise(() => {});
+      throw error || new Error('Contract stream ended before the contract was sold');
+    };
+    const settledOnContract = contract
       .onUpdate()
       .pipe(find(({ is_sold }) => is_sold))
-      .toPromise();
+      .toPromise()
+      .then((update) => (update ? null : untilPoolSettles()), untilPoolSettles);
+    const settledOnPool = contractId
+      ? this._waitForSettlement(connection, contractId, this._settlementTimeoutFor(params))
+      : new Promise(() => {});
 
-    subscription.unsubscribe();
+    let settlement;
+    try {
+      settlement = await Promise.race([settledOnContract, settledOnPool]);
+    } catch (err) {
+      // The contract is bought: the caller must settle it by id, never buy it again
+      throw Object.assign(toError(err, 'Settlement failed'), {
+        purchased: true,
+        contractId: contractId ? String(contractId) : null,
+      });
+    } finally {
+      subscription.unsubscribe();
+      if (contractId) this._clearHoldTime(String(contractId));
+      if (contractId) this._earlyExitWatches.delete(String(contractId));
+    }
+    if (contractId) this._inFlightContracts.delete(String(contractId));
 
-    return { contract, user };
+    return { contract, user, settlement, contractId, priceCheck: check.guarded ? check : null };
+  }
+
+  /**
+   * Request a Deriv proposal for ContractParams, with timeout.
+   * @private
+   */
+  async _createProposal(connection, params) {
+    let timer;
+    const timeoutPromise = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Contract creation timed out')), this.connectionTimeout);
+    });
+
+    try {
+      return await Promise.race([connection.api.contract(toDerivProposal(params)), timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Check a proposal's ask price and payout against the bot's price guard.
+   * @private
+   */
+  _checkProposal(contract, params, priceGuard) {
+    const check = checkProposal(
+      params,
+      { askPrice: toAmount(contract.ask_price), payout: toAmount(contract.payout) },
+      priceGuard || {},
+    );
+    this.emit('proposal_checked', { params, check });
+    return check;
+  }
+
+  /**
+   * Settle a contract bought in an earlier session (e.g. before a crash) from its
+   * `proposal_open_contract` state, waiting for the sale if it is still open.
+   *
+   * @param {string|number} contractId - Deriv contract_id
+   * @param {string} userAccountToken  - Deriv account token that bought it
+   * @param {Object} [originalParams]  - ContractParams it was bought with
+   * @param {Object} [tradeContext]    - Extra fields copied onto the TradeResult
+   * @returns {Promise<Object>} Normalised TradeResult
+   */
+  async reconcileContract(contractId, userAccountToken, originalParams = {}, tradeContext = {}) {
+    const connection = await this.getConnection(userAccountToken);
+    const response = await connection.send({ proposal_open_contract: 1, contract_id: Number(contractId) });
+
+    let poc = response?.proposal_open_contract;
+    if (!poc || !poc.contract_id) throw new Error(`Contract ${contractId} not found`);
+    if (!poc.is_sold) {
+      const expiresInMs = poc.date_expiry ? Math.max(0, poc.date_expiry * 1000 - Date.now()) : null;
+      const timeoutMs = expiresInMs === null ? null : expiresInMs + this.settlementTimeout;
+      poc = await this._waitForSettlement(connection, Number(contractId), timeoutMs);
+    }
+
+    const account = connection.user || {};
+    const user = {
+      token: userAccountToken,
+      account: account.account || '',
+      currency: account.currency || poc.currency,
+      balance: account.balance || 0,
+    };
+
+    const tradeResult = this._normaliseSettlement(poc, user, {
+      contract_type: poc.contract_type,
+      symbol: poc.underlying,
+      currency: poc.currency,
+      ...originalParams,
+    });
+    tradeResult.sessionId = this._sessionId;
+    tradeResult.tradeId = `trade_${Date.now()}_${uuidv4().slice(0, 8)}`;
+    this._describeMultiplierResult(tradeResult, { contract_type: poc.contract_type, ...originalParams }, poc);
+    Object.assign(tradeResult, tradeContext);
+
+    this._inFlightContracts.delete(String(contractId));
+    this._tradeHistory.push(tradeResult);
+    this.emit('trade_reconciled', { result: tradeResult });
+    this._persistTradeAsync(tradeResult);
+
+    return tradeResult;
+  }
+
+  /**
+   * Settle the contract of a purchase that failed after the buy (e.g. settlement tracking
+   * died with the socket) by its id. Throws the purchase's error when that fails too; the
+   * contract then stays in flight for checkpoints.
+   * @private
+   */
+  async _reconcileFailedTrade(derivError, userAccountToken, params, tradeContext) {
+    const contractId = derivError.contractId;
+    this.emit('trade_reconciling', { contractId, error: derivError.message });
+    try {
+      return await this.reconcileContract(contractId, userAccountToken, params, tradeContext);
+    } catch (err) {
+      this.emit('trade_reconcile_failed', { contractId, error: toError(err, 'Reconciliation failed').message });
+      throw derivError;
+    }
+  }
+
+  /**
+   * Resolve with the final `proposal_open_contract` payload once the contract is sold.
+   * The subscription is owned by the connection pool, so it survives reconnects; it is
+   * rejected when the handle is released, the pool gives up on the socket, or `timeoutMs`
+   * passes without a sale.
+   * @private
+   */
+  _waitForSettlement(connection, contractId, timeoutMs = null) {
+    return new Promise((resolve, reject) => {
+      let timer;
+      const finish = (error, poc) => {
+        clearTimeout(timer);
+        subscription.unsubscribe();
+        if (error) reject(error);
+        else resolve(poc);
+      };
+
+      const subscription = connection.subscribe(
+        { proposal_open_contract: 1, contract_id: contractId, subscribe: 1 },
+        (message) => {
+          const poc = message?.proposal_open_contract;
+          if (poc?.is_sold) finish(null, poc);
+        },
+        (error) => finish(error instanceof Error ? error : new Error(error?.error?.message || 'Settlement tracking failed')),
+      );
+
+      if (timeoutMs !== null) {
+        timer = setTimeout(() => {
+          finish(Object.assign(new Error(`Contract ${contractId} not sold within ${timeoutMs}ms`), { code: 'SETTLEMENT_TIMEOUT' }));
+        }, timeoutMs);
+      }
+    });
+  }
+
+  /**
+   * How long to wait for a sale, or null for no limit: a multiplier held until a limit
+   * order fills (or held for a number of ticks) has no expiry to time out on.
+   * @private
+   */
+  _settlementTimeoutFor(params) {
+    if (!isMultiplierContract(params.contract_type)) {
+      return this.settlementTimeout + durationToMs(Number(params.duration) || 0, params.duration_unit);
+    }
+    const hold = getHoldDuration(params);
+    return hold?.ms ? this.settlementTimeout + hold.ms : null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // OPEN POSITIONS (MULTIPLIERS)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Sell an open contract at market (Deriv `sell` with price 0). The settlement still
+   * arrives through the normal purchase flow, with `closedBy` set to `reason`.
+   *
+   * @param {string|number} contractId
+   * @param {string} userAccountToken
+   * @param {Object} [options]
+   * @param {number} [options.price=0]       - Minimum price; 0 sells at market
+   * @param {string} [options.reason='sold'] - Recorded as the result's closedBy
+   * @returns {Promise<Object>} Deriv `sell` response ({ sold_for, transaction_id, ... })
+   */
+  async sellContract(contractId, userAccountToken, { price = 0, reason = 'sold' } = {}) {
+    const id = String(contractId);
+    this._closeReasons.set(id, reason);
+    try {
+      const connection = await this.getConnection(userAccountToken);
+      const response = await connection.send({ sell: Number(contractId), price });
+      this.emit('contract_sold', { contractId: id, reason, soldFor: response?.sell?.sold_for ?? null });
+      return response?.sell || null;
+    } catch (err) {
+      this._closeReasons.delete(id);
+      const error = toError(err, 'Sell failed');
+      this.emit('contract_sell_failed', { contractId: id, reason, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a multiplier inside its deal-cancellation window (stake refunded, fee kept).
+   * @param {string|number} contractId
+   * @param {string} userAccountToken
+   * @returns {Promise<Object>} Deriv `cancel` response
+   */
+  async cancelContract(contractId, userAccountToken) {
+    const id = String(contractId);
+    this._closeReasons.set(id, 'cancellation');
+    try {
+      const connection = await this.getConnection(userAccountToken);
+      const response = await connection.send({ cancel: Number(contractId) });
+      this.emit('contract_cancelled', { contractId: id, refund: response?.cancel?.sold_for ?? null });
+      return response?.cancel || null;
+    } catch (err) {
+      this._closeReasons.delete(id);
+      const error = toError(err, 'Cancellation failed');
+      this.emit('contract_cancel_failed', { contractId: id, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the take profit / stop loss of an open multiplier (Deriv `contract_update`).
+   * Pass null to remove a limit; omit it to leave it unchanged.
+   *
+   * @param {string|number} contractId
+   * @param {string} userAccountToken
+   * @param {Object} limits - { takeProfit?: number|null, stopLoss?: number|null } (currency amounts)
+   * @returns {Promise<Object>} Deriv `contract_update` response
+   */
+  async updateLimitOrder(contractId, userAccountToken, limits) {
+    const id = String(contractId);
+    const limitOrder = {
+      ...(limits.takeProfit !== undefined && { take_profit: limits.takeProfit === null ? null : roundToTwo(limits.takeProfit) }),
+      ...(limits.stopLoss !== undefined && { stop_loss: limits.stopLoss === null ? null : roundToTwo(limits.stopLoss) }),
+    };
+
+    const connection = await this.getConnection(userAccountToken);
+    const response = await connection.send({ contract_update: 1, contract_id: Number(contractId), limit_order: limitOrder });
+
+    // Keep the in-flight record in step, so checkpoints and close reasons see the new limits
+    const inFlight = this._inFlightContracts.get(id);
+    if (inFlight) {
+      const current = { ...(inFlight.params.limit_order || {}), ...limitOrder };
+      for (const key of Object.keys(current)) {
+        if (current[key] === null) delete current[key];
+      }
+      inFlight.params = { ...inFlight.params, limit_order: current };
+    }
+
+    this.emit('limit_order_updated', { contractId: id, limitOrder, response: response?.contract_update || null });
+    return response?.contract_update || null;
+  }
+
+  /**
+   * Sell a multiplier position once it has been open for its maximum holding time
+   * (the bot's contract duration). Tick durations count contract updates.
+   * @private
+   */
+  _watchHoldTime(contractId, userAccountToken, params) {
+    const hold = getHoldDuration(params);
+    if (!hold) return;
+
+    const expire = () => {
+      if (!this._holdWatches.has(contractId)) return;
+      this._clearHoldTime(contractId);
+      this.sellContract(contractId, userAccountToken, { reason: 'hold_expired' }).catch(() => {});
+    };
+    this._holdWatches.set(contractId, {
+      ticks: hold.ticks || 0,
+      updates: 0,
+      expire,
+      timer: hold.ms ? setTimeout(expire, hold.ms) : null,
+    });
+  }
+
+  /** @private */
+  _countHoldTick(contractId) {
+    const watch = this._holdWatches.get(contractId);
+    if (watch?.ticks && ++watch.updates >= watch.ticks) watch.expire();
+  }
+
+  /** @private */
+  _clearHoldTime(contractId) {
+    const watch = this._holdWatches.get(contractId);
+    if (!watch) return;
+    clearTimeout(watch.timer);
+    this._holdWatches.delete(contractId);
+  }
+
+  /**
+   * Evaluate the early-exit rules on a contract update and sell at market when one
+   * matches. A failed sell (e.g. not yet valid to sell) is retried on the next update.
+   * @private
+   */
+  _checkEarlyExit(contractId, bidPrice) {
+    const watch = this._earlyExitWatches.get(contractId);
+    if (!watch || watch.selling) return;
+
+    watch.ticks++;
+    const decision = evaluateEarlyExit(watch.settings, { stake: watch.stake, bidPrice, ticks: watch.ticks });
+    if (!decision) return;
+
+    watch.selling = true;
+    this._earlyExits.set(contractId, decision);
+    this.emit('early_exit_triggered', { contractId, ...decision });
+    this.sellContract(contractId, watch.token, { reason: 'early_exit' }).catch(() => {
+      this._earlyExits.delete(contractId);
+      watch.selling = false;
+    });
+  }
+
+  /**
+   * Flag a TradeResult sold by an early-exit rule (`earlyExit: { reason, profit, bidPrice, ticks }`).
+   * @private
+   */
+  _describeEarlyExit(tradeResult) {
+    const id = tradeResult.contractId ? String(tradeResult.contractId) : '';
+    const decision = this._earlyExits.get(id);
+    if (!decision) return;
+    tradeResult.earlyExit = decision;
+    this._earlyExits.delete(id);
+  }
+
+  /**
+   * Add the multiplier fields (multiplier, limitOrder, dealCancellation, closedBy) to a
+   * normalised TradeResult. No-op for fixed-expiry contracts.
+   * @private
+   */
+  _describeMultiplierResult(tradeResult, params, poc) {
+    const id = tradeResult.contractId ? String(tradeResult.contractId) : '';
+    if (!isMultiplierContract(params.contract_type)) {
+      // Fixed-expiry contracts sold early are described by earlyExit instead
+      this._closeReasons.delete(id);
+      return;
+    }
+
+    let limitOrder = params.limit_order || null;
+    if (poc?.limit_order) {
+      // Deriv reports { take_profit: { order_amount, ... }, stop_loss: { ... }, stop_out: { ... } }
+      limitOrder = {};
+      if (poc.limit_order.take_profit?.order_amount != null) limitOrder.take_profit = Number(poc.limit_order.take_profit.order_amount);
+      if (poc.limit_order.stop_loss?.order_amount != null) limitOrder.stop_loss = Math.abs(Number(poc.limit_order.stop_loss.order_amount));
+    }
+
+    Object.assign(tradeResult, {
+      multiplier: params.multiplier,
+      limitOrder,
+      dealCancellation: params.cancellation || null,
+      closedBy: this._closeReasons.get(id)
+        || getMultiplierCloseReason(tradeResult.profit, tradeResult.stake, limitOrder, poc?.status ?? tradeResult.status),
+    });
+    if (poc?.sell_time) tradeResult.exitTime = poc.sell_time;
+    this._closeReasons.delete(id);
   }
 
   /**
@@ -589,6 +1226,71 @@ class TradingBotExecutor extends EventEmitter {
     }
   }
 
+  /**
+   * Normalise a raw `proposal_open_contract` payload into a standard TradeResult.
+   * Used when settlement was observed through the pool after a reconnect.
+   * @private
+   */
+  _normaliseSettlement(poc, user, originalParams) {
+    const buyPrice = Number(poc.buy_price ?? originalParams.amount);
+    const sellPrice = Number(poc.sell_price ?? 0);
+    const profit = roundToTwo(sellPrice - buyPrice);
+
+    return {
+      tradeId: null,
+      sessionId: null,
+      contractId: poc.contract_id ? String(poc.contract_id) : '',
+      botId: this._currentBot?.botId || this._currentBot?.botUUID || '',
+      botUUID: this._currentBot?.botUUID || '',
+      strategyId: this._currentBot?.strategyId || '',
+      userAccountUUID: user.account || '',
+
+      entryTime: poc.date_start ?? null,
+      exitTime: poc.date_expiry ?? null,
+      purchaseTime: poc.purchase_time ?? null,
+
+      entrySpotValue: poc.entry_spot ?? null,
+      entrySpotTime: poc.entry_tick_time ?? null,
+      exitSpotValue: poc.exit_tick ?? poc.sell_spot ?? null,
+      exitSpotTime: poc.exit_tick_time ?? null,
+
+      askPrice: 0,
+      askPriceCurrency: poc.currency ?? originalParams.currency,
+      buyPrice,
+      buyPriceCurrency: poc.currency ?? originalParams.currency,
+      buyTransaction: poc.transaction_ids?.buy ?? null,
+      bidPrice: Number(poc.bid_price ?? 0),
+      bidPriceCurrency: poc.currency ?? originalParams.currency,
+      sellPrice,
+      sellPriceCurrency: poc.currency ?? originalParams.currency,
+      sellSpot: poc.sell_spot ?? null,
+      sellSpotTime: poc.sell_spot_time ?? null,
+      sellTransaction: poc.transaction_ids?.sell ?? null,
+
+      stake: buyPrice,
+      payout: Number(poc.payout ?? 0),
+      profit,
+      profitPercentage: Number(poc.profit_percentage ?? 0),
+      isWin: profit > 0,
+      status: poc.status || 'unknown',
+
+      symbol: poc.underlying || originalParams.symbol,
+      symbolFull: poc.display_name || '',
+      contractType: originalParams.contract_type,
+      duration: originalParams.duration,
+      durationUnits: originalParams.duration_unit,
+      currency: originalParams.currency,
+      longcode: poc.longcode || '',
+
+      auditDetails: poc.audit_details?.all_ticks || [],
+      ticks: null,
+
+      userAccount: user,
+
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * Extract a timestamp from a Deriv time object.
    * @private
@@ -638,6 +1340,8 @@ class TradingBotExecutor extends EventEmitter {
         sellPrice: tradeResult.sellPrice,
         longcode: tradeResult.longcode,
         auditDetails: tradeResult.auditDetails,
+        signal: tradeResult.signal,
+        digits: tradeResult.digits,
       });
     } catch (err) {
       this.emit('trade_persist_error', { error: err.message, tradeId: tradeResult.tradeId });
@@ -669,14 +1373,28 @@ class TradingBotExecutor extends EventEmitter {
     return [...this._tradeHistory];
   }
 
+  /** Contracts bought but not yet settled ({ contractId, params, purchasedAt }) */
+  get inFlightContracts() {
+    return [...this._inFlightContracts.values()];
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // CLEANUP
   // ═══════════════════════════════════════════════════════════════════════════
 
   destroy() {
+    this.releaseConnections();
+    for (const [event, listener] of this._connectionListeners) {
+      this._connectionManager.off(event, listener);
+    }
     this._currentBot = null;
     this._sessionId = null;
     this._tradeHistory = [];
+    this._inFlightContracts.clear();
+    this._closeReasons.clear();
+    for (const id of [...this._holdWatches.keys()]) this._clearHoldTime(id);
+    this._earlyExitWatches.clear();
+    this._earlyExits.clear();
     this._derivApi = null;
     this._userAccount = null;
     this.removeAllListeners();
@@ -9,19 +9,37 @@
  *
  * @features
  *   - Static factory: fromFormData(payload) → fully initialised bot instance
- *   - Strategy-specific stake calculation (Martingale, D'Alembert, Reverse, Oscar's Grind, 1-3-2-6, etc.)
+ *   - Pluggable stake strategies (Martingale, D'Alembert, Reverse, Oscar's Grind, 1-3-2-6, etc.)
  *   - Recovery after loss with configurable risk steps
  *   - Risk management (stop-loss, take-profit, max drawdown, daily limits, emergency stop)
  *   - Schedule-based execution (hourly, daily, weekly, monthly, custom)
  *   - Cooldown periods between trades
  *   - Compound staking
- *   - Volatility filtering
+ *   - Volatility filtering and volatility-scaled stakes (realized volatility from live ticks)
  *   - Market condition checks
  *   - Real-time performance & lifetime statistics tracking
  *   - Event-driven architecture for UI integration
  *   - Contract parameter handling with alternation logic
  *   - Profit locking
  *   - Intelligent trade-type resolution (ALTERNATE, pipe-separated)
+ *   - Decision journal: why every loop iteration traded or skipped, replayable
+ *   - Multipliers (MULTUP / MULTDOWN): per-trade limit orders, deal cancellation, open positions
+ *   - Early exit: sell open contracts on profit, bid or time-in-loss rules, with their own statistics
+ *   - Concurrent contracts: keep buying on the loop cadence while earlier contracts are open
+ *   - Typed Deriv errors with a reaction each: stop, pause until the market opens, back off,
+ *     re-authorize or re-price (see DerivErrors)
+ *   - Market trading hours: refuses to start on closed symbols, pauses at session closes and
+ *     holidays and resumes when the market reopens (see TradingCalendar)
+ *   - Price guard: proposals paying less than configured or assumed are re-quoted or refused,
+ *     and buys are capped at the checked price (see PriceGuard)
+ *   - Contract rotation: weighted market / prediction draws every N trades, on a loss or a
+ *     loss streak, skipping recently losing and closed markets (see ContractRotation)
+ *   - Auto-restart: stops for the configured reasons restart after a backoff, capped per day
+ *     and only inside the schedule window (see RestartPolicy)
+ *   - Position sizing: fixed-fractional or fractional-Kelly base stake from the live balance,
+ *     under the stake progression, with a loss budget per ladder (see PositionSizing)
+ *   - Recovery steps: each step can switch contract or hand off to a safety contract, pause
+ *     first, and end recovery on a partial recovery target (see RecoverySteps)
  *
  * @usage
  *   const executor = new TradingBotExecutor({ apiBaseUrl, authToken });
@@ -32,6 +50,40 @@
 
 const { EventEmitter } = require('events');
 const { v4: uuidv4 } = require('uuid');
+import { resolveStakeStrategy, getStakeStrategy } from './StakeStrategyRegistry';
+import { evaluateSchedule, getNextActivations, validateSchedule } from './ScheduleEvaluator';
+import { aggregateLimitCounters, getLimitPeriodStarts, DEFAULT_LIMIT_TIMEZONE, DEFAULT_WEEK_START_DAY } from './LimitCounters';
+import { IndicatorPipeline } from './Indicators';
+import { evaluateSignalGate, flipContractParams, isSignalGateEnabled } from './SignalGate';
+import { createDerivTickSource } from './TickSource';
+import { DigitAnalysisService, evaluateDigitEntry, isDigitFilterEnabled, DEFAULT_DIGIT_SAMPLE_SIZE } from './DigitStats';
+import { VolatilityService, getVolatilityStakeMultiplier, isVolatilityControlEnabled } from './VolatilityProvider';
+import { DecisionJournal } from './DecisionJournal';
+import { isMultiplierContract, getMaxLoss, validateMultiplierParams } from './Multipliers';
+import { isEarlyExitEnabled, recordEarlyExit } from './EarlyExit';
+import { classifyDerivError } from './DerivErrors';
+import { getSharedTradingCalendar } from './TradingCalendar';
+import {
+  isRotationEnabled,
+  isMarketRotationEnabled,
+  createRotationState,
+  advanceRotation,
+  ensureOpenMarket,
+  applyRotation,
+} from './ContractRotation';
+import { RestartController } from './RestartPolicy';
+import { TimerRegistry } from './TimerRegistry';
+import { CHECKPOINT_VERSION, CheckpointTracker } from './CheckpointStore';
+import { isPositionSizingEnabled, sizeBaseStake, getLadderBudget } from './PositionSizing';
+import { getPayoutRate } from './PayoutTable';
+import {
+  getRecoveryStepAction,
+  getRecoveryStepStakeMultiplier,
+  getRecoveryStepContract,
+  getRecoveryStepCooldownMs,
+  isRecoveryTargetReached,
+  validateRecoverySteps,
+} from './RecoverySteps';
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
@@ -44,6 +96,21 @@ const BOT_STATUSES = Object.freeze({
   ERROR: 'ERROR',
 });
 
+// Retry delay after the digit filter skips an entry (ms)
+const DIGIT_RETRY_MS = 1000;
+
+// Reactions to failed purchases (see DerivErrors / _reactToTradeError)
+const ERROR_RETRY_MS = 5000;
+const REPRICE_RETRY_MS = 1000;
+const MARKET_CLOSED_RETRY_MS = 5 * 60000;
+const RATE_LIMIT_BACKOFF_BASE = 5000;
+const RATE_LIMIT_BACKOFF_MAX = 5 * 60000;
+const MAX_CONSECUTIVE_REPRICES = 3;
+const MAX_REAUTHORIZE_ATTEMPTS = 2;
+
+// Longest wait between market-hours checks; boundaries closer than this are hit exactly (ms)
+const MARKET_HOURS_CHECK_MS = 60000;
+
 const STRATEGY_TYPES = Object.freeze({
   MARTINGALE: 'martingale',
   MARTINGALE_ON_STAT_RESET: 'martingale_reset',
@@ -69,12 +136,6 @@ function roundToTwo(num) {
   return Math.round((num + Number.EPSILON) * 100) / 100;
 }
 
-function isSameDay(a, b) {
-  return a.getFullYear() === b.getFullYear() &&
-    a.getMonth() === b.getMonth() &&
-    a.getDate() === b.getDate();
-}
-
 function parseDurationToMs(duration, unit) {
   if (!duration) return 0;
   switch (String(unit).toLowerCase()) {
@@ -109,27 +170,57 @@ function createFreshSession() {
     recoveryStepIndex: 0,
     recoveryAttempts: 0,
     isInRecovery: false,
+    // Lost / won back since recovery began (recovery targets)
+    recoveryLoss: 0,
+    recoveryRecovered: 0,
     isInCooldown: false,
     cooldownEndTime: null,
+    // The running cooldown ({ type, stopReason, stepIndex }), so a resume ends it the same way
+    cooldown: null,
     lastTradeTime: null,
     sessionStartTime: null,
     lastDailyReset: null,
     lastHourlyReset: null,
     lastWeeklyReset: null,
-    // Strategy-specific counters
-    martingaleStep: 0,
-    dalembertUnits: 1,
-    system1326Step: 0,
-    oscarsGrindSessionProfit: 0,
-    oscarsGrindCurrentUnit: 1,
+    // Contract alternation
     alternateCounter: 0,
     currentTradeType: '',
+    // Market / prediction rotation (ContractRotation state)
+    rotation: null,
     // Profit locking
     lockedProfit: 0,
     highWaterMark: 0,
+    // Trailing profit floor
+    peakSessionProfit: 0,
+    profitFloor: null,
+    profitFloorSource: null,
+    // Position sizing — balance the base was sized from, losses of the running ladder
+    sizedBalance: 0,
+    ladderLoss: 0,
+    sizing: null,
   };
 }
 
+// Session fields a restart with carry_over_session continues. The counters the stop rules
+// measure (session profit, trade count, runtime, balance peaks) start again from zero.
+const CARRY_OVER_SESSION_FIELDS = Object.freeze([
+  'baseStake',
+  'currentStake',
+  'consecutiveWins',
+  'consecutiveLosses',
+  'recoveryStepIndex',
+  'recoveryAttempts',
+  'isInRecovery',
+  'recoveryLoss',
+  'recoveryRecovered',
+  'alternateCounter',
+  'currentTradeType',
+  'rotation',
+  'sizedBalance',
+  'ladderLoss',
+  'sizing',
+]);
+
 // ─── Default Structures ──────────────────────────────────────────────────────
 
 function getDefaultPerformance() {
@@ -171,6 +262,8 @@ function getDefaultStatistics() {
     roi: null,
     sharpeRatio: null,
     maxDrawdown: null,
+    strategyStatistics: null,
+    earlyExitStatistics: null,
     createdAt: now,
     lastUpdated: now,
   };
@@ -180,6 +273,7 @@ function getDefaultAdvancedSettings() {
   return {
     general_settings_section: {
       maximum_number_of_trades: null,
+      max_concurrent_contracts: 1,
       maximum_running_time: null,
       cooldown_period: null,
       recovery_type: null,
@@ -189,16 +283,21 @@ function getDefaultAdvancedSettings() {
     bot_schedule: {
       bot_schedule: {
         id: '', name: '', type: 'custom',
+        timezone: null, cron: null,
         startDate: null, endDate: null,
-        startTime: null, endTime: null,
+        startTime: null, endTime: null, windows: [],
         daysOfWeek: [], dayOfMonth: null,
         isEnabled: false, exclusions: [],
       },
     },
     risk_management_section: {
       max_daily_loss: null, max_daily_profit: null,
+      limit_reset_timezone: DEFAULT_LIMIT_TIMEZONE, week_start_day: DEFAULT_WEEK_START_DAY,
+      trailing_stop_loss: null, trailing_stop_activation: null, profit_lock_steps: [],
       max_consecutive_losses: null, max_drawdown_percentage: null,
-      risk_per_trade: null, position_sizing: false, emergency_stop: false,
+      risk_per_trade: null, position_sizing: false, sizing_mode: 'fixed_fractional',
+      base_stake_percentage: null, kelly_fraction: null, win_probability: null,
+      min_observed_trades: null, max_ladder_percentage: null, emergency_stop: false,
     },
     volatility_controls_section: {
       volatility_filter: false, min_volatility: null, max_volatility: null,
@@ -209,6 +308,25 @@ function getDefaultAdvancedSettings() {
       trend_detection: false, trend_strength_threshold: null,
       avoid_ranging_market: false, market_correlation_check: false,
       time_of_day_filter: false, preferred_trading_hours: null,
+      trend_action: 'block', indicator_granularity: 60, indicator_periods: null,
+      signal_conditions: [],
+    },
+    digit_analysis_section: {
+      digit_filter: false, digit_sample_size: DEFAULT_DIGIT_SAMPLE_SIZE,
+      prediction_mode: 'static', parity_run_length: null, parity_entry: 'reversal',
+      min_sample_win_rate: null,
+    },
+    early_exit_section: {
+      early_exit: false, exit_profit_percentage: null,
+      exit_bid_below: null, exit_loss_after_ticks: null,
+    },
+    price_guard_section: {
+      price_guard: false, min_payout_ratio: null, payout_tolerance_percentage: null,
+      max_requotes: null, max_price_slippage_percentage: null,
+    },
+    auto_restart_section: {
+      restart_on: [], restart_delay_seconds: null, restart_backoff_multiplier: null,
+      max_restart_delay_seconds: null, max_restarts_per_day: null, carry_over_session: false,
     },
     recovery_settings_section: {
       progressive_recovery: false, recovery_multiplier: null,
@@ -296,6 +414,22 @@ function getDefaultAdvancedSettings() {
       oscars_grind_contract_type: null, oscars_grind_duration: null,
       oscars_grind_auto_stop_on_target: false, metadata: null,
     },
+    enhanced_1326_strategy_section: {
+      enhanced_1326_base_unit: null, enhanced_1326_profit_threshold: null,
+      enhanced_1326_loss_threshold: null, enhanced_1326_recovery_mode: null,
+      enhanced_1326_max_recovery_attempts: null, enhanced_1326_max_daily_trades: null,
+      enhanced_1326_sequence_protection: true, enhanced_1326_profit_lock: true,
+      metadata: null,
+    },
+    call_multiplicative_recovery_strategy_section: {
+      call_multiplicative_base_stake: null, call_multiplicative_profit_threshold: null,
+      call_multiplicative_loss_threshold: null, call_multiplicative_recovery_mode: null,
+      call_multiplicative_max_recovery_attempts: null, call_multiplicative_max_daily_trades: null,
+      call_multiplicative_max_stake_multiplier: null, call_multiplicative_enable_recovery: true,
+      call_multiplicative_auto_adjust: true, call_multiplicative_max_volatility: null,
+      call_multiplicative_min_win_rate: null, call_multiplicative_duration: null,
+      metadata: null,
+    },
   };
 }
 
@@ -339,22 +473,73 @@ class TradingBotManager extends EventEmitter {
     this._realtimePerformance = { ...(config.realtimePerformance || getDefaultPerformance()) };
     this._statistics = { ...(config.statistics || getDefaultStatistics()) };
     this._tradeHistory = [];
-
-    // Timers
-    this._tradeLoopTimer = null;
-    this._scheduleCheckTimer = null;
-    this._cooldownTimer = null;
-    this._runtimeTimer = null;
-    this._periodicResetTimer = null;
-    this._persistTimer = null;
+    /** Purchases not yet settled (max_concurrent_contracts > 1): seq → { stake, params, settled } */
+    this._openTrades = new Map();
+    this._openTradeSeq = 0;
+    /** True while the loop is parked because every concurrent slot is taken */
+    this._awaitingOpenSlot = false;
+    /** Consecutive failed purchases of the same DerivErrorType */
+    this._tradeErrorStreak = { type: null, count: 0 };
+
+    // Stake strategy (progression state lives in _strategyState, see StakeStrategyRegistry)
+    this._stakeStrategy = resolveStakeStrategy(this.strategyId);
+    this._strategyState = {};
+    this._strategyContext = this._createStrategyContext();
+
+    // Timers (trade loop, schedule, cooldown, market hours, runtime, resets, restart)
+    this._timers = new TimerRegistry();
+    /** Epoch ms before which no calendar limit period can roll over */
+    this._nextLimitPeriodCheck = 0;
 
     // External providers
     this._balanceProvider = null;
     this._volatilityProvider = null;
+    /** Set when start() built the provider on a VolatilityService fed by live ticks */
+    this._volatilityService = null;
+    this._clockProvider = null;
+    this._notifier = null;
+    this._portfolioCoordinator = null;
+    this._indicatorPipeline = null;
+    /** True when the pipeline was created by start() and is fed from the executor's connection */
+    this._ownsIndicatorPipeline = false;
+    this._digitAnalysis = null;
+    this._ownsDigitAnalysis = false;
+    this._watchedDigitSymbol = null;
+    this._tradingCalendar = getSharedTradingCalendar();
+    /** True while the bot is paused because its market is closed (resumed when it reopens) */
+    this._marketPaused = false;
+    /** Restarts made today and the restart planned after the last stop */
+    this._restarts = new RestartController({
+      timers: this._timers,
+      now: () => this._now(),
+      onDue: () => this._runRestart(),
+    });
+    /** Set by beginSimulation(): the session ends at its first stop, nothing restarts it */
+    this._isSimulation = false;
 
     // Persist interval (sync performance/stats to API every N trades)
     this._persistEveryNTrades = 5;
     this._tradesSinceLastPersist = 0;
+
+    // Crash-safe checkpoints (store, contracts in flight, serialised writes)
+    this._checkpoints = new CheckpointTracker({
+      key: () => this._checkpointKey(),
+      onSaved: (snapshot) => {
+        const inFlightContractIds = snapshot.inFlightContracts.map((contract) => contract.contractId);
+        this.emit('checkpoint_saved', {
+          savedAt: snapshot.savedAt,
+          inFlightContractId: inFlightContractIds[inFlightContractIds.length - 1] || null,
+          inFlightContractIds,
+        });
+      },
+      onError: (err, context, contractId) => {
+        this.emit('checkpoint_error', { error: err.message, context, ...(contractId !== undefined && { contractId }) });
+      },
+    });
+    this._onContractPurchased = null;
+
+    // Decision journal (in memory until setJournalStore)
+    this._journal = new DecisionJournal({ key: this._checkpointKey() });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -422,8 +607,18 @@ class TradingBotManager extends EventEmitter {
   get advancedSettings() { return this._config.advanced_settings || {}; }
   get generalSettings() { return this.advancedSettings.general_settings_section || {}; }
   get riskManagement() { return this.advancedSettings.risk_management_section || {}; }
+  /** Calendar the hourly / daily / weekly limits reset on (see LimitCounters) */
+  get limitPeriodOptions() {
+    return { timeZone: this.riskManagement.limit_reset_timezone, weekStartsOn: this.riskManagement.week_start_day };
+  }
   get volatilityControls() { return this.advancedSettings.volatility_controls_section || {}; }
   get marketConditions() { return this.advancedSettings.market_conditions_section || {}; }
+  get digitAnalysis() { return this.advancedSettings.digit_analysis_section || {}; }
+  get earlyExit() { return this.advancedSettings.early_exit_section || {}; }
+  get priceGuard() { return this.advancedSettings.price_guard_section || {}; }
+  get autoRestart() { return this.advancedSettings.auto_restart_section || {}; }
+  get maxConcurrentContracts() { return Math.max(1, Math.floor(Number(this.generalSettings.max_concurrent_contracts) || 1)); }
+  get openTradeCount() { return this._openTrades.size; }
   get recoverySettings() { return this.advancedSettings.recovery_settings_section || {}; }
   get botSchedule() { return this.advancedSettings.bot_schedule?.bot_schedule || null; }
   get session() { return { ...this._session }; }
@@ -431,6 +626,8 @@ class TradingBotManager extends EventEmitter {
   get statistics() { return { ...this._statistics }; }
   get history() { return [...this._tradeHistory]; }
   get executor() { return this._executor; }
+  get journal() { return this._journal; }
+  get portfolioCoordinator() { return this._portfolioCoordinator; }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // DEPENDENCY INJECTION
@@ -445,13 +642,91 @@ class TradingBotManager extends EventEmitter {
   }
 
   /**
-   * Set a function that returns current market volatility (0-100).
-   * @param {Function} provider - () => number
+   * Set a function that returns current market volatility (0-100, or null while it warms up).
+   * Without one, start() builds a provider on realized volatility from live ticks when a
+   * volatility control is enabled (see VolatilityProvider).
+   * @param {Function} provider - () => number|null
    */
   setVolatilityProvider(provider) {
+    this._stopVolatilityFeed();
     this._volatilityProvider = provider;
   }
 
+  /**
+   * Set a function that returns the current time in ms. Defaults to Date.now —
+   * the Backtester injects the simulated tick clock here.
+   * @param {Function} provider - () => number
+   */
+  setClockProvider(provider) {
+    this._clockProvider = provider;
+  }
+
+  /**
+   * Set where bot notifications go (e.g. NotificationAPIService.createNotification with the
+   * user's UUID). Notifications are also emitted as `notification` events.
+   * @param {Function|null} notifier - (notification) => void|Promise — { type, title, message,
+   *        priority, category, payload, botId, botUUID, time }
+   */
+  setNotifier(notifier) {
+    this._notifier = notifier;
+  }
+
+  /**
+   * Override the stake strategy resolved from `strategyId` (see StakeStrategyRegistry).
+   * Its state starts fresh; pass null to always trade the base stake.
+   * @param {Object|string|null} strategy - StakeStrategy plugin or registered strategy id
+   */
+  setStakeStrategy(strategy) {
+    const resolved = typeof strategy === 'string' ? getStakeStrategy(strategy) : strategy;
+    if (typeof strategy === 'string' && !resolved) {
+      throw new Error(`Unknown stake strategy: ${strategy}`);
+    }
+    this._stakeStrategy = resolved || null;
+    this._initStrategyState();
+  }
+
+  /**
+   * Attach the account-wide risk budget this bot shares with other bots (see
+   * PortfolioCoordinator). Normally called by `coordinator.register(manager)`.
+   * @param {Object|null} coordinator - { requestTrade(manager, stake), settleTrade(manager, stake, profit) }
+   */
+  setPortfolioCoordinator(coordinator) {
+    this._portfolioCoordinator = coordinator || null;
+  }
+
+  /**
+   * Supply the indicators for the `market_conditions_section` signal gate (see SignalGate).
+   * Without one, start() builds an IndicatorPipeline fed by live ticks for the contract
+   * symbol. The caller keeps feeding an injected pipeline.
+   * @param {IndicatorPipeline|null} pipeline
+   */
+  setIndicatorPipeline(pipeline) {
+    this._stopIndicatorFeed();
+    this._indicatorPipeline = pipeline || null;
+    this._ownsIndicatorPipeline = false;
+  }
+
+  /**
+   * Supply the last-digit statistics for the `digit_analysis_section` filter (see DigitStats).
+   * The bot watches its contract symbol on the service while running; without one, start()
+   * creates a service fed by live ticks.
+   * @param {DigitAnalysisService|null} service
+   */
+  setDigitAnalysis(service) {
+    this._stopDigitFeed();
+    this._digitAnalysis = service || null;
+    this._ownsDigitAnalysis = false;
+  }
+
+  /**
+   * Supply the trading-hours calendar (see TradingCalendar). Defaults to the shared calendar,
+   * refreshed from `trading_times` on start; null turns the market-hours checks off.
+   * @param {TradingCalendar|null} calendar
+   */
+  setTradingCalendar(calendar) {
+    this._tradingCalendar = calendar || null;
+  }
+
   /**
    * Set how often to persist performance/stats to the API (in trades).
    * @param {number} n
@@ -460,6 +735,43 @@ class TradingBotManager extends EventEmitter {
     this._persistEveryNTrades = Math.max(1, n);
   }
 
+  /**
+   * Set where runtime checkpoints are written (see CheckpointStore). Checkpoints are taken
+   * after settled trades, on purchase, pause and cooldown, and cleared on stop.
+   * Assumes the executor is not shared with another manager.
+   *
+   * @param {Object} store - { load(key), save(key, checkpoint), remove(key) }
+   * @param {Object} [options]
+   * @param {number} [options.everyNTrades=1] - Checkpoint after every N settled trades
+   */
+  setCheckpointStore(store, { everyNTrades = 1 } = {}) {
+    this._checkpoints.setStore(store, everyNTrades);
+
+    if (!this._onContractPurchased) {
+      this._onContractPurchased = ({ contractId, params }) => {
+        this._checkpoints.trackPurchase(contractId, params, this._now());
+        this.checkpoint();
+      };
+      this._executor.on('contract_purchased', this._onContractPurchased);
+    }
+  }
+
+  /**
+   * Persist the decision journal (see JournalStore / DecisionJournal) and optionally sync
+   * it to the bot API. Entries recorded before the store was set are not written.
+   *
+   * @param {Object} store - { append(key, entries), load(key), remove(key) }
+   * @param {Object} [options]
+   * @param {boolean} [options.syncToAPI=false]     - POST entries via executor.appendJournalEntries
+   * @param {number} [options.syncEveryNEntries=20] - Sync batch size (also synced on stop)
+   * @param {number} [options.maxEntries]           - Entries kept in memory
+   */
+  setJournalStore(store, { syncToAPI = false, syncEveryNEntries = 20, maxEntries = undefined } = {}) {
+    this._journal.store = store || null;
+    if (maxEntries) this._journal.maxEntries = maxEntries;
+    this._journal.syncEveryN = syncToAPI ? Math.max(1, syncEveryNEntries) : null;
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // BOT LIFECYCLE — START / STOP / PAUSE / RESUME
   // ═══════════════════════════════════════════════════════════════════════════
@@ -479,6 +791,16 @@ class TradingBotManager extends EventEmitter {
       return { success: false, error: validation.errors.join('; ') };
     }
 
+    // Check market hours
+    await this._refreshTradingCalendar();
+    const market = this.getMarketStatus();
+    if (!market.isOpen) {
+      const error = this._describeMarketClosed(market);
+      this._log(`Cannot start — ${error}`);
+      this.emit('market_hours_blocked', { symbol: market.symbol, reason: market.reason, nextOpen: market.nextOpen });
+      return { success: false, error, nextOpen: market.nextOpen };
+    }
+
     // Check schedule
     if (!this.isWithinSchedule()) {
       this._log('Bot is outside scheduled trading hours. Will wait for schedule.');
@@ -487,19 +809,14 @@ class TradingBotManager extends EventEmitter {
       return { success: true, message: 'Waiting for schedule window' };
     }
 
-    // Initialise session
-    this._session = createFreshSession();
-    this._session.baseStake = this._resolveThresholdValue(this.amounts.base_stake);
-    this._session.currentStake = this._session.baseStake;
-    this._session.sessionStartTime = Date.now();
-    this._session.currentBalance = this._getBalance();
-    this._session.peakBalance = this._session.currentBalance;
-    this._session.highWaterMark = this._session.currentBalance;
-
-    this._realtimePerformance.startedAt = new Date().toISOString();
-    this._realtimePerformance.stoppedAt = null;
-    this._realtimePerformance.baseStake = this._session.baseStake;
-    this._realtimePerformance.currentStake = this._session.currentStake;
+    // Initialise session (a restart may continue the stopped one)
+    const restart = this._restarts.take();
+    this._initSession();
+    if (restart?.carried) this._continueSession(restart.carried);
+    await this._rebuildLimitCounters();
+    await this._startIndicatorFeed();
+    await this._startDigitFeed();
+    await this._startVolatilityFeed();
 
     // Start a new session on the executor
     this._executor.startSession();
@@ -507,12 +824,16 @@ class TradingBotManager extends EventEmitter {
     this._setStatus(BOT_STATUSES.START);
     this._isActive = true;
     this._log(`Bot started | strategy: ${this.strategyId} | base stake: ${this._session.baseStake}`);
+    if (restart) {
+      this.emit('bot_restarted', { reason: restart.reason, restartsToday: restart.restartsToday, carriedOver: Boolean(restart.carried) });
+    }
 
     // Notify API
     this._syncStatusToAPI(BOT_STATUSES.START);
 
     this._startPeriodicResets();
     this._startScheduleMonitor();
+    this._startMarketHoursMonitor();
     this._startMaxRuntimeTimer();
 
     // Begin trade loop
@@ -522,20 +843,35 @@ class TradingBotManager extends EventEmitter {
   }
 
   /**
-   * Stop the bot completely.
+   * Stop the bot completely. Contracts still open (max_concurrent_contracts > 1) are
+   * awaited, so their results are booked before the final statistics.
+   * @param {string} [reason='manual'] - StopReason; stops listed in auto_restart_section.restart_on
+   *        restart the bot (see RestartPolicy)
    */
-  async stop() {
+  async stop(reason = 'manual') {
+    this.cancelRestart();
     this._clearAllTimers();
+    this._stopIndicatorFeed();
+    this._stopDigitFeed();
+    this._stopVolatilityFeed();
     this._setStatus(BOT_STATUSES.STOP);
     this._isActive = false;
+    this._marketPaused = false;
+    await this.closeOpenPositions('bot_stopped');
+    await this._awaitOpenTrades();
     this._realtimePerformance.stoppedAt = new Date().toISOString();
     this._finalizeStatistics();
+    this._journal.endRun(this._journalState(), null, this._now());
     this._executor.endSession();
     this._log('Bot stopped.');
 
     // Persist final state
     await this._persistStateToAPI();
     this._syncStatusToAPI(BOT_STATUSES.STOP);
+    await this.clearCheckpoint();
+    if (this._journal.syncEveryN !== null) await this.syncJournal();
+
+    this._scheduleRestart(reason);
   }
 
   /**
@@ -547,6 +883,7 @@ class TradingBotManager extends EventEmitter {
     this._setStatus(BOT_STATUSES.PAUSE);
     this._log('Bot paused.');
     this._syncStatusToAPI(BOT_STATUSES.PAUSE);
+    this.checkpoint();
   }
 
   /**
@@ -561,6 +898,16 @@ class TradingBotManager extends EventEmitter {
       return;
     }
 
+    const market = this.getMarketStatus();
+    if (!market.isOpen) {
+      this._log(`Cannot resume — ${this._describeMarketClosed(market)}. Will resume when it opens.`);
+      this._marketPaused = true;
+      this._startMarketHoursMonitor();
+      this.emit('market_hours_paused', { symbol: market.symbol, reason: market.reason, nextOpen: market.nextOpen });
+      return;
+    }
+
+    this._marketPaused = false;
     this._setStatus(BOT_STATUSES.START);
     this._log('Bot resumed.');
     this._syncStatusToAPI(BOT_STATUSES.RESUME);
@@ -572,157 +919,740 @@ class TradingBotManager extends EventEmitter {
    * @param {string} reason
    */
   async emergencyStop(reason) {
+    this.cancelRestart();
     this._clearAllTimers();
+    this._stopIndicatorFeed();
+    this._stopDigitFeed();
+    this._stopVolatilityFeed();
     this._setStatus(BOT_STATUSES.ERROR);
     this._isActive = false;
+    this._marketPaused = false;
+    await this.closeOpenPositions('emergency_stop');
+    await this._awaitOpenTrades();
     this._realtimePerformance.stoppedAt = new Date().toISOString();
     this._finalizeStatistics();
+    this._journal.endRun(this._journalState(), reason, this._now());
     this._executor.endSession();
     this.emit('emergency_stop', { reason, timestamp: new Date().toISOString() });
     await this._persistStateToAPI();
+    await this.clearCheckpoint();
+    if (this._journal.syncEveryN !== null) await this.syncJournal();
+  }
+
+  /** @private */
+  _initSession() {
+    this._session = createFreshSession();
+    this._session.baseStake = this._resolveThresholdValue(this.amounts.base_stake);
+    this._session.currentStake = this._session.baseStake;
+    this._session.sessionStartTime = this._now();
+    this._session.currentBalance = this._getBalance();
+    this._session.peakBalance = this._session.currentBalance;
+    this._session.highWaterMark = this._session.currentBalance;
+
+    this._realtimePerformance.startedAt = new Date(this._now()).toISOString();
+    this._realtimePerformance.stoppedAt = null;
+    this._realtimePerformance.baseStake = this._session.baseStake;
+    this._realtimePerformance.currentStake = this._session.currentStake;
+
+    this._initStrategyState();
+    this._journal.startRun(this._journalState(), this._journalRunMeta(), this._now());
+  }
+
+  /**
+   * Continue a stopped session's stake progression after an auto-restart.
+   * @private
+   * @param {Object} carried - { session, strategyState } saved when the bot stopped
+   */
+  _continueSession(carried) {
+    for (const field of CARRY_OVER_SESSION_FIELDS) this._session[field] = carried.session[field];
+    this._realtimePerformance.currentStake = this._session.currentStake;
+    this._initStrategyState(carried.strategyState);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // CORE TRADE LOOP
+  // SIMULATION — One trade cycle at a time (see StakeLadder)
   // ═══════════════════════════════════════════════════════════════════════════
 
-  /** @private */
-  async _runTradeLoop() {
-    if (this._status !== BOT_STATUSES.START) return;
+  /**
+   * Start a session driven by runSimulationCycle() instead of the trade loop. Nothing runs
+   * on its own: no loop, feeds, schedule monitor, timers or auto-restarts.
+   */
+  beginSimulation() {
+    this._isSimulation = true;
+    this._initSession();
+    this._initPeriodicResets();
+    this._executor.startSession();
+    this._setStatus(BOT_STATUSES.START);
+    this._isActive = true;
+  }
 
-    // Pre-trade checks
-    const check = this._performPreTradeChecks();
-    if (!check.allowed) {
-      this._log(`Trade blocked: ${check.reason}`);
-      if (check.action === 'stop') {
-        await this.stop();
-      } else if (check.action === 'cooldown') {
-        this._enterCooldown();
-      } else if (check.action === 'wait') {
-        this._tradeLoopTimer = setTimeout(() => this._runTradeLoop(), 5000);
-      }
-      return;
+  /**
+   * Run one trade cycle of a simulated session. A cooldown the session is still in ends
+   * first (a simulation that moves its clock ends it at cooldownEndTime instead, see
+   * endSimulationCooldown), and maximum_running_time is checked against the clock.
+   * @returns {Promise<{ traded: boolean, result?: Object, check?: Object }>}
+   * @throws {Error} code INSUFFICIENT_BALANCE / VALIDATION_ERROR, as the trade loop would
+   */
+  async runSimulationCycle() {
+    this._applyPeriodicResets();
+    const cooldownStopReason = this._session.cooldown?.stopReason;
+    if (!this.endSimulationCooldown()) {
+      return { traded: false, check: { allowed: false, reason: 'Cooldown ended without auto restart', action: 'stop', stopReason: cooldownStopReason } };
+    }
+
+    if (this._getRemainingRuntimeMs() === 0) {
+      this.emit('max_runtime_reached', { maxRuntime: this.generalSettings.maximum_running_time });
+      return { traded: false, check: { allowed: false, reason: 'Max runtime reached', action: 'stop', stopReason: 'max_runtime' } };
     }
 
     try {
-      // Calculate stake
-      const stake = this._calculateStake();
-      this._session.currentStake = stake;
-      this._realtimePerformance.currentStake = stake;
-      if (stake > this._realtimePerformance.highestStake) {
-        this._realtimePerformance.highestStake = stake;
-      }
+      return await this._executeTradeCycle();
+    } finally {
+      this._clearAllTimers();
+    }
+  }
+
+  /**
+   * Start the general cooldown of a cycle declined with action 'cooldown'. It runs until
+   * endSimulationCooldown() (or the next cycle) ends it; nothing ends it on a timer.
+   * @param {string} [stopReason='risk_limit'] - The check's stopReason
+   * @returns {boolean} false without a cooldown_period: the live bot stops instead
+   */
+  startSimulationCooldown(stopReason = 'risk_limit') {
+    const durationMs = this._getCooldownDurationMs();
+    if (durationMs === null) return false;
+
+    this._startCooldown({ type: 'general', stopReason }, durationMs, { durationMs, type: 'general' });
+    this._clearAllTimers();
+    return true;
+  }
 
-      this.emit('stake_updated', { stake });
+  /**
+   * End the cooldown the simulated session is in, as its timer would (see _finishCooldown).
+   * @returns {boolean} false when that ends the session: a general cooldown without auto_restart
+   */
+  endSimulationCooldown() {
+    const cooldown = this._finishCooldown();
+    if (cooldown?.type !== 'general') return true;
+    if (!this._restartsAfterCooldown()) return false;
 
-      // Build contract params
-      const tradeParams = this._buildContractParams(stake);
+    this._resetAfterCooldown();
+    return true;
+  }
 
-      this._log(`Executing trade #${this._session.totalTradesThisSession + 1}: ${tradeParams.contract_type} @ ${stake}`);
+  /**
+   * Let the general cooldown of a cycle declined with action 'cooldown' pass at once. Like
+   * the live bot, the session only goes on after it with auto_restart and a cooldown_period.
+   * @returns {boolean} false when the cooldown ends the session
+   */
+  skipSimulationCooldown() {
+    return this.startSimulationCooldown() && this.endSimulationCooldown();
+  }
 
-      // Execute via the executor
-      const userToken = this._config.botAccount?.token || '';
-      const result = await this._executor.executeTrade(tradeParams, userToken);
+  /**
+   * Stop a simulated session (see beginSimulation) and drop any timer the stop armed.
+   */
+  async endSimulation() {
+    this._clearAllTimers();
+    if (this._status === BOT_STATUSES.START) await this.stop();
+    this._clearAllTimers();
+  }
 
-      // Process result
-      this._processTradeResult(result);
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CORE TRADE LOOP
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * With max_concurrent_contracts > 1 a cycle returns once the purchase is dispatched and
+   * the next one runs after `delay` while earlier contracts are still open. When every slot
+   * is taken the loop parks until a contract settles (see _trackOpenTrade).
+   * @private
+   */
+  async _runTradeLoop() {
+    if (this._status !== BOT_STATUSES.START) return;
+
+    const maxOpen = this.maxConcurrentContracts;
+    if (maxOpen > 1 && this._openTrades.size >= maxOpen) {
+      this._awaitingOpenSlot = true;
+      return;
+    }
+
+    try {
+      const cycle = await this._executeTradeCycle({ concurrent: maxOpen > 1 });
+
+      if (!cycle.traded) {
+        const action = cycle.check?.action;
+        if (action === 'stop') {
+          await this.stop(cycle.check.stopReason);
+        } else if (action === 'cooldown') {
+          this._enterCooldown(cycle.check.stopReason);
+        } else if (action === 'pause') {
+          this.pause();
+        } else if (action === 'wait') {
+          this._timers.setTimeout('tradeLoop', () => this._runTradeLoop(), cycle.check.retryMs || 5000);
+        }
+        return;
+      }
 
       // Determine delay before next trade
       const delay = (this.contract.delay || 1) * 1000;
 
       // Schedule next trade
       if (this._status === BOT_STATUSES.START) {
-        this._tradeLoopTimer = setTimeout(() => this._runTradeLoop(), delay);
+        this._timers.setTimeout('tradeLoop', () => this._runTradeLoop(), delay);
       }
     } catch (error) {
       const errMsg = error.message || 'Unknown trade execution error';
       this.emit('error', { message: `Trade execution failed: ${errMsg}`, error: errMsg });
 
-      // Retry after longer delay on error
-      if (this._status === BOT_STATUSES.START) {
-        this._tradeLoopTimer = setTimeout(() => this._runTradeLoop(), 5000);
+      const retryMs = await this._reactToTradeError(error);
+      if (retryMs !== null && this._status === BOT_STATUSES.START) {
+        this._timers.setTimeout('tradeLoop', () => this._runTradeLoop(), retryMs);
       }
     }
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // TRADE PARAMETER BUILDING
-  // ═══════════════════════════════════════════════════════════════════════════
-
-  /** @private */
-  _buildContractParams(stake) {
-    const c = this.contract;
-    const tradeType = this._resolveTradeType(c);
-
-    return this._executor.buildContractParams(
-      { ...c, contractType: tradeType },
-      stake,
-      this.botCurrency,
-    );
+  /**
+   * One iteration of the trade loop — pre-trade checks, stake calculation, execution
+   * and result processing — without scheduling the next one. Shared by the live loop
+   * and the Backtester. Every iteration is recorded in the decision journal.
+   * @private
+   * @param {Object} [options]
+   * @param {boolean} [options.concurrent=false] - Return once the purchase is dispatched; the
+   *        result is processed when the contract settles (`result` is then null)
+   * @returns {Promise<{ traded: boolean, check?: Object, result?: Object }>}
+   */
+  async _executeTradeCycle(options = {}) {
+    const trace = { checks: [], stake: null, params: null };
+    let cycle;
+    try {
+      cycle = await this._runTradeCycle(trace, options);
+    } catch (err) {
+      this._journalCycle(trace, null, err);
+      throw err;
+    }
+    this._journalCycle(trace, cycle, null);
+    return cycle;
   }
 
   /**
-   * Resolve the trade type, handling ALTERNATE and pipe-separated logic.
    * @private
+   * @param {Object} trace - Filled with check outcomes, the stake rule and contract params
+   * @param {Object} [options] - See _executeTradeCycle
    */
-  _resolveTradeType(contract) {
-    const rawType = contract.tradeType || contract.contractType || '';
+  async _runTradeCycle(trace, { concurrent = false } = {}) {
+    const note = (name, check) => trace.checks.push({
+      name,
+      allowed: check.allowed,
+      reason: check.reason || null,
+      action: check.action || null,
+    });
 
-    if ((contract.contractType === 'ALTERNATE' || rawType.includes('|')) && rawType.includes('|')) {
-      const types = rawType.split('|');
-      const alternateAfter = contract.alternateAfter || 1;
-
-      if (this._session.alternateCounter >= alternateAfter) {
-        this._session.alternateCounter = 0;
-        this._session.currentTradeType =
-          this._session.currentTradeType === types[0] ? types[1] : types[0];
-      }
+    // Pre-trade checks
+    const check = this._performPreTradeChecks();
+    note('pre_trade', check);
+    if (!check.allowed) {
+      this._log(`Trade blocked: ${check.reason}`);
+      return { traded: false, check };
+    }
+
+    // Calculate stake (the stake strategy may decline the trade)
+    const decision = this._calculateStake();
+    if (!decision.shouldTrade) {
+      const declined = {
+        allowed: false,
+        reason: decision.reason || 'Declined by stake strategy',
+        action: decision.action || 'stop',
+      };
+      note('stake_strategy', declined);
+      this.emit('strategy_declined', {
+        strategy: this._stakeStrategy?.id || null,
+        reason: declined.reason,
+        action: declined.action,
+        metadata: decision.metadata || null,
+      });
+      this._log(`Trade blocked: ${declined.reason}`);
+      return { traded: false, check: declined };
+    }
 
-      this._session.alternateCounter++;
+    const stake = decision.stake;
+    trace.stake = decision.rule ? { ...decision.rule, stake } : null;
 
-      if (!this._session.currentTradeType) {
-        this._session.currentTradeType = types[0];
+    // Build contract params (advances ALTERNATE rotation; rolled back if the trade is skipped)
+    const rotation = {
+      alternateCounter: this._session.alternateCounter,
+      currentTradeType: this._session.currentTradeType,
+    };
+    let tradeParams = this._buildContractParams(stake, decision.contract);
+
+    // Indicator signals (market_conditions_section)
+    const gate = this._evaluateSignalGate(tradeParams);
+    if (gate.signal) note('signal_gate', gate.check);
+    if (!gate.check.allowed) {
+      Object.assign(this._session, rotation);
+      this._log(`Trade blocked: ${gate.check.reason}`);
+      return { traded: false, check: gate.check };
+    }
+    tradeParams = gate.params;
+
+    // Last-digit statistics (digit_analysis_section)
+    const digitEntry = this._evaluateDigitEntry(tradeParams);
+    if (digitEntry.digits || !digitEntry.check.allowed) note('digit_filter', digitEntry.check);
+    if (!digitEntry.check.allowed) {
+      Object.assign(this._session, rotation);
+      this._log(`Trade blocked: ${digitEntry.check.reason}`);
+      return { traded: false, check: digitEntry.check };
+    }
+    tradeParams = digitEntry.params;
+
+    // Account-wide budget shared with other bots on the same Deriv account
+    const portfolio = this._portfolioCoordinator;
+    if (portfolio) {
+      const portfolioCheck = portfolio.requestTrade(this, stake);
+      note('portfolio', portfolioCheck);
+      if (!portfolioCheck.allowed) {
+        Object.assign(this._session, rotation);
+        this._log(`Trade blocked: ${portfolioCheck.reason}`);
+        return { traded: false, check: portfolioCheck };
       }
+    }
 
-      return this._session.currentTradeType;
+    this._session.currentStake = stake;
+    this._realtimePerformance.currentStake = stake;
+    if (stake > this._realtimePerformance.highestStake) {
+      this._realtimePerformance.highestStake = stake;
     }
 
-    if (rawType.includes('|')) {
-      return rawType.split('|')[0];
+    this.emit('stake_updated', { stake, strategy: decision.metadata || null });
+
+    this._log(`Executing trade #${this._session.totalTradesThisSession + 1}: ${tradeParams.contract_type} @ ${stake}`);
+    trace.params = { ...tradeParams };
+
+    // Execute via the executor
+    const userToken = this._config.botAccount?.token || '';
+    const tradeContext = {
+      ...(gate.signal && { signal: gate.signal }),
+      ...(digitEntry.digits && { digits: digitEntry.digits }),
+      ...(decision.volatility && { volatility: decision.volatility }),
+      ...(this._session.rotation && { rotation: this._describeRotation() }),
+      ...(decision.recovery && { recovery: decision.recovery }),
+    };
+    // The max-price cap applies to every buy; the payout checks only with the price guard on
+    const tradeOptions = {
+      ...(isEarlyExitEnabled(this.earlyExit) && { earlyExit: this.earlyExit }),
+      priceGuard: { settings: this.priceGuard, payoutRate: decision.payoutRate ?? null },
+    };
+    const settled = this._settleTrade(tradeParams, stake, userToken, tradeContext, tradeOptions);
+
+    if (concurrent) {
+      this._trackOpenTrade(tradeParams, stake, settled);
+      return { traded: true, result: null };
     }
 
-    return rawType;
+    const result = await settled;
+    return { traded: true, result };
+  }
+
+  /**
+   * Execute one purchase through to settlement and book its result.
+   * @private
+   * @returns {Promise<Object>} TradeResult
+   */
+  async _settleTrade(tradeParams, stake, userToken, tradeContext, tradeOptions) {
+    let result = null;
+    try {
+      result = await this._executor.executeTrade(tradeParams, userToken, tradeContext, tradeOptions);
+
+      // Process result
+      this._processTradeResult(result);
+    } finally {
+      // Release the reserved stake even when the purchase failed
+      this._portfolioCoordinator?.settleTrade(this, stake, result ? result.profit : 0);
+    }
+    return result;
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
-  // TRADE RESULT PROCESSING
+  // CONCURRENT CONTRACTS — max_concurrent_contracts
   // ═══════════════════════════════════════════════════════════════════════════
 
-  /** @private */
-  _processTradeResult(result) {
-    this._tradeHistory.push(result);
-    this._session.totalTradesThisSession++;
-    this._session.lastTradeTime = Date.now();
+  /**
+   * Follow a dispatched purchase until it settles. Results are booked in settlement
+   * order, so stake progressions see them as they close, not as they were bought.
+   * @private
+   * @param {Object} params - ContractParams
+   * @param {number} stake
+   * @param {Promise<Object>} settled - From _settleTrade
+   */
+  _trackOpenTrade(params, stake, settled) {
+    const seq = ++this._openTradeSeq;
+    const tracked = settled
+      .then((result) => this._journalSettlement(result, null))
+      .catch(async (error) => {
+        const errMsg = error.message || 'Unknown trade execution error';
+        this.emit('error', { message: `Trade execution failed: ${errMsg}`, error: errMsg });
+        this._journalSettlement(null, error);
+
+        const retryMs = await this._reactToTradeError(error);
+        if (retryMs !== null) this._deferTradeLoop(retryMs);
+      })
+      .finally(() => {
+        this._openTrades.delete(seq);
+        this.emit('open_trades_changed', { open: this._openTrades.size, exposure: this._getOpenExposure() });
+
+        // A slot is free again
+        if (this._awaitingOpenSlot) {
+          this._awaitingOpenSlot = false;
+          this._runTradeLoop();
+        }
+      });
 
-    // Update performance
-    this._realtimePerformance.totalRuns++;
-    this._realtimePerformance.totalStake += result.stake;
-    this._realtimePerformance.totalPayout += result.payout;
+    this._openTrades.set(seq, { stake, params, settled: tracked });
+    this.emit('open_trades_changed', { open: this._openTrades.size, exposure: this._getOpenExposure() });
+  }
 
-    // Session tracking
-    this._session.sessionStake += result.stake;
-    this._session.sessionPayout += result.payout;
-    this._session.sessionProfit += result.profit;
+  /**
+   * Push the next concurrent cycle back (an error reaction asked for a pause). A cycle
+   * already running schedules its own successor.
+   * @private
+   */
+  _deferTradeLoop(delayMs) {
+    if (this._status !== BOT_STATUSES.START) return;
+    if (!this._timers.has('tradeLoop') && !this._awaitingOpenSlot) return;
+    this._awaitingOpenSlot = false;
+    this._timers.setTimeout('tradeLoop', () => this._runTradeLoop(), delayMs);
+  }
 
-    // Periodic tracking
-    const profit = result.profit;
-    if (profit > 0) {
-      this._session.dailyProfit += profit;
-      this._session.hourlyProfit += profit;
-      this._session.weeklyProfit += profit;
-    } else {
-      this._session.dailyLoss += Math.abs(profit);
-      this._session.hourlyLoss += Math.abs(profit);
+  /**
+   * Most the open contracts can still lose (stop losses for multipliers, otherwise stakes).
+   * @private
+   * @returns {number}
+   */
+  _getOpenExposure() {
+    let exposure = 0;
+    for (const trade of this._openTrades.values()) exposure += getMaxLoss(trade.params);
+    return roundToTwo(exposure);
+  }
+
+  /**
+   * Resolve once every open contract has settled and its result is booked.
+   * @private
+   */
+  async _awaitOpenTrades() {
+    this._awaitingOpenSlot = false;
+    while (this._openTrades.size > 0) {
+      await Promise.all([...this._openTrades.values()].map((trade) => trade.settled));
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TRADE ERRORS — Reactions to typed Deriv errors (see DerivErrors)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Apply the reaction for a failed purchase and tell the loop when to try again. Each
+   * reaction has its own event and notification.
+   * @private
+   * @param {Error} error
+   * @returns {Promise<number|null>} Delay before the next cycle (ms), or null when the bot
+   *          was stopped or paused
+   */
+  async _reactToTradeError(error) {
+    const derivError = classifyDerivError(error);
+    const streak = this._tradeErrorStreak.type === derivError.type ? this._tradeErrorStreak.count + 1 : 1;
+    this._tradeErrorStreak = { type: derivError.type, count: streak };
+    const info = { type: derivError.type, code: derivError.code, message: derivError.message };
+
+    switch (derivError.reaction) {
+      case 'stop':
+        return this._haltOnTradeError(info);
+
+      case 'wait_for_market': {
+        // The calendar knows when the market reopens; otherwise try again in a few minutes
+        const resumeAt = this.getMarketStatus().nextOpen ?? this._now() + MARKET_CLOSED_RETRY_MS;
+        this.emit('market_closed', { ...info, resumeAt });
+        this._notify({
+          type: 'info',
+          title: 'Market closed',
+          message: `${this.botName} paused: ${derivError.message}`,
+          priority: 'medium',
+          payload: { ...info, reaction: derivError.reaction, resumeAt },
+        });
+        this.pause();
+        this._marketPaused = true;
+        this._timers.setTimeout('marketReopen', () => this._checkMarketHours(), Math.max(0, resumeAt - this._now()));
+        return null;
+      }
+
+      case 'back_off': {
+        const retryAfterMs = derivError.retryAfterMs
+          ?? Math.min(RATE_LIMIT_BACKOFF_BASE * Math.pow(2, streak - 1), RATE_LIMIT_BACKOFF_MAX);
+        this.emit('rate_limited', { ...info, retryAfterMs });
+        this._notify({
+          type: 'system',
+          title: 'Rate limited',
+          message: `${this.botName} backs off for ${Math.ceil(retryAfterMs / 1000)}s: ${derivError.message}`,
+          priority: 'low',
+          payload: { ...info, reaction: derivError.reaction, retryAfterMs },
+        });
+        return retryAfterMs;
+      }
+
+      case 'reauthorize': {
+        if (streak > MAX_REAUTHORIZE_ATTEMPTS) return this._haltOnTradeError(info);
+        try {
+          await this._executor.reauthorize(this._config.botAccount?.token || '');
+        } catch (err) {
+          const failure = classifyDerivError(err);
+          return this._haltOnTradeError({ ...info, message: `Re-authorization failed: ${failure.message}` });
+        }
+        this.emit('reauthorized', info);
+        this._notify({
+          type: 'system',
+          title: 'Account re-authorized',
+          message: `${this.botName} re-authorized its Deriv connection after: ${derivError.message}`,
+          priority: 'low',
+          payload: { ...info, reaction: derivError.reaction },
+        });
+        return REPRICE_RETRY_MS;
+      }
+
+      case 'reprice': {
+        if (streak > MAX_CONSECUTIVE_REPRICES) {
+          return this._haltOnTradeError({ ...info, message: `${derivError.message} (rejected ${streak} times in a row)` });
+        }
+        // The next cycle recomputes the stake and builds a fresh proposal
+        this.emit('proposal_rejected', { ...info, attempt: streak });
+        this._notify({
+          type: 'system',
+          title: 'Proposal rejected',
+          message: `${this.botName} re-prices its next trade: ${derivError.message}`,
+          priority: 'low',
+          payload: { ...info, reaction: derivError.reaction, attempt: streak },
+        });
+        return REPRICE_RETRY_MS;
+      }
+
+      default:
+        return ERROR_RETRY_MS;
+    }
+  }
+
+  /**
+   * Stop the bot on an error no retry can fix (balance, account restrictions, repeated rejections).
+   * @private
+   * @returns {null}
+   */
+  _haltOnTradeError(info) {
+    this.emit('trading_halted', info);
+    this._notify({
+      type: 'alert',
+      title: 'Bot stopped',
+      message: `${this.botName} stopped: ${info.message}`,
+      priority: 'high',
+      payload: { ...info, reaction: 'stop' },
+    });
+    // Not awaited: stop() waits for open contracts, which may include the caller's
+    if (this._isActive) this.stop('error');
+    return null;
+  }
+
+  /**
+   * Emit a `notification` and hand it to the notifier set with setNotifier().
+   * @private
+   */
+  _notify(notification) {
+    const full = {
+      category: 'trading',
+      ...notification,
+      botId: this.botId,
+      botUUID: this.botUUID,
+      time: new Date(this._now()).toISOString(),
+    };
+    this.emit('notification', full);
+    if (!this._notifier) return;
+    Promise.resolve()
+      .then(() => this._notifier(full))
+      .catch((err) => this.emit('persist_error', { error: err.message, context: 'notification' }));
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TRADE PARAMETER BUILDING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * @private
+   * @param {number} stake
+   * @param {Object} [overrides] - Proposal fields from the stake strategy's decision
+   * @param {Object} [options]
+   * @param {boolean} [options.preview=false] - Don't advance the ALTERNATE rotation (risk checks, validation)
+   */
+  _buildContractParams(stake, overrides = {}, { preview = false } = {}) {
+    const c = { ...applyRotation(this.contract, this._getRotation()), ...this._getRecoveryContract() };
+    const rotation = {
+      alternateCounter: this._session.alternateCounter,
+      currentTradeType: this._session.currentTradeType,
+    };
+    const tradeType = this._resolveTradeType(c);
+    if (preview) Object.assign(this._session, rotation);
+
+    return this._executor.buildContractParams(
+      { ...c, contractType: tradeType },
+      stake,
+      this.botCurrency,
+      overrides,
+    );
+  }
+
+  /**
+   * Whether the bot trades Multipliers (MULTUP / MULTDOWN), which have no fixed expiry.
+   * @private
+   */
+  _isMultiplierBot() {
+    const c = this.contract || {};
+    return [c.contractType, ...String(c.tradeType || '').split('|')].some((type) => isMultiplierContract(type));
+  }
+
+  /**
+   * Resolve the trade type, handling ALTERNATE and pipe-separated logic.
+   * @private
+   */
+  _resolveTradeType(contract) {
+    const rawType = contract.tradeType || contract.contractType || '';
+
+    // The form stores the family in tradeType ('MULTUP|MULTDOWN', 'DIGITS') and the chosen
+    // contract in contractType — a concrete choice wins
+    if (contract.tradeType && contract.contractType && contract.contractType !== 'ALTERNATE'
+      && !contract.contractType.includes('|')) {
+      return contract.contractType;
+    }
+
+    if ((contract.contractType === 'ALTERNATE' || rawType.includes('|')) && rawType.includes('|')) {
+      const types = rawType.split('|');
+      const alternateAfter = contract.alternateAfter || 1;
+
+      if (this._session.alternateCounter >= alternateAfter) {
+        this._session.alternateCounter = 0;
+        this._session.currentTradeType =
+          this._session.currentTradeType === types[0] ? types[1] : types[0];
+      }
+
+      this._session.alternateCounter++;
+
+      if (!this._session.currentTradeType) {
+        this._session.currentTradeType = types[0];
+      }
+
+      return this._session.currentTradeType;
+    }
+
+    if (rawType.includes('|')) {
+      return rawType.split('|')[0];
+    }
+
+    return rawType;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CONTRACT ROTATION — weighted markets / predictions (see ContractRotation)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Market and prediction the bot's rotation currently trades, or null without a rotation.
+   * @returns {Object|null} { symbol, prediction, reason, rotations }
+   */
+  getRotation() {
+    return this._getRotation() ? this._describeRotation() : null;
+  }
+
+  /** @private */
+  _describeRotation() {
+    const { symbol, prediction, reason, rotations } = this._session.rotation;
+    return { symbol, prediction, reason, rotations };
+  }
+
+  /** @private */
+  _getRotationOptions() {
+    const calendar = this._tradingCalendar;
+    return calendar ? { isOpen: (symbol) => calendar.isOpen(symbol, this._now()) } : {};
+  }
+
+  /**
+   * The rotation state, drawn on first use and moved off a market once it closes.
+   * @private
+   */
+  _getRotation() {
+    if (!isRotationEnabled(this.contract)) return null;
+    const options = this._getRotationOptions();
+
+    if (!this._session.rotation) {
+      this._session.rotation = createRotationState(this.contract, options);
+      return this._session.rotation;
+    }
+
+    const { state, rotated } = ensureOpenMarket(this.contract, this._session.rotation, options);
+    if (rotated) this._setRotation(state);
+    return this._session.rotation;
+  }
+
+  /**
+   * Count a settled trade towards the rotation trigger.
+   * @private
+   */
+  _advanceRotation(result) {
+    if (!this._session.rotation || !isRotationEnabled(this.contract)) return;
+    const { state, rotated } = advanceRotation(this.contract, this._session.rotation, result, this._getRotationOptions());
+    if (rotated) this._setRotation(state);
+    else this._session.rotation = state;
+  }
+
+  /** @private */
+  _setRotation(state) {
+    const from = this._describeRotation();
+    this._session.rotation = state;
+    const to = this._describeRotation();
+    this._log(`Contract rotated (${to.reason}): ${[to.symbol, to.prediction].filter((v) => v !== null).join(' / ')}`);
+    this.emit('contract_rotated', { from, to, reason: to.reason });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // TRADE RESULT PROCESSING
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /** @private */
+  _processTradeResult(result) {
+    this._tradeHistory.push(result);
+    this._tradeErrorStreak = { type: null, count: 0 };
+    this._advanceRotation(result);
+    this._session.totalTradesThisSession++;
+    this._session.lastTradeTime = this._now();
+
+    if (result.closedBy) {
+      this.emit('position_closed', { contractId: result.contractId, closedBy: result.closedBy, profit: result.profit });
+    }
+    if (result.earlyExit) {
+      this.emit('trade_closed_early', { result, reason: result.earlyExit.reason });
+    }
+
+    // Update performance
+    this._realtimePerformance.totalRuns++;
+    this._realtimePerformance.totalStake += result.stake;
+    this._realtimePerformance.totalPayout += result.payout;
+
+    // Session tracking
+    this._session.sessionStake += result.stake;
+    this._session.sessionPayout += result.payout;
+    this._session.sessionProfit += result.profit;
+
+    // Periodic tracking
+    const profit = result.profit;
+    if (profit > 0) {
+      this._session.dailyProfit += profit;
+      this._session.hourlyProfit += profit;
+      this._session.weeklyProfit += profit;
+    } else {
+      this._session.dailyLoss += Math.abs(profit);
+      this._session.hourlyLoss += Math.abs(profit);
       this._session.weeklyLoss += Math.abs(profit);
     }
 
@@ -743,6 +1673,7 @@ class TradingBotManager extends EventEmitter {
 
     // Profit locking
     this._evaluateProfitLock();
+    this._evaluateProfitFloor();
 
     // Periodic API persistence
     this._tradesSinceLastPersist++;
@@ -750,6 +1681,9 @@ class TradingBotManager extends EventEmitter {
       this._tradesSinceLastPersist = 0;
       this._persistStateToAPI().catch(() => {});
     }
+
+    // Checkpoint (the contract is settled, so it is no longer in flight)
+    if (this._checkpoints.recordSettled(result.contractId)) this.checkpoint();
   }
 
   /** @private */
@@ -763,21 +1697,30 @@ class TradingBotManager extends EventEmitter {
     this.emit('trade_won', { result, consecutiveWins: this._session.consecutiveWins });
 
     // Strategy-specific win handling
-    this._onStrategyWin();
+    this._stakeStrategy?.onWin?.(this._strategyContext, result);
 
-    // Check take profit
-    if (this._checkTakeProfit()) {
+    // Check take profit (a trailing take-profit keeps trading and stops on retrace instead)
+    if (this._checkTakeProfit() && !this._hasTrailingTakeProfit()) {
       this.emit('take_profit_triggered', { sessionProfit: this._session.sessionProfit });
-      this.stop();
+      // Contracts settling while stop() waits for them must not stop the bot again
+      if (this._isActive) this.stop('take_profit');
       return;
     }
 
-    // Exit recovery on win (if not progressive)
-    if (this._session.isInRecovery && !this.recoverySettings.progressive_recovery) {
-      this._session.isInRecovery = false;
-      this._session.recoveryStepIndex = 0;
-      this._session.recoveryAttempts = 0;
-      this._log('Exited recovery mode after win.');
+    // Exit recovery on the step's recovery target, otherwise on a win (if not progressive)
+    if (this._session.isInRecovery) {
+      this._session.recoveryRecovered = roundToTwo(this._session.recoveryRecovered + Math.max(0, result.profit || 0));
+      const progress = { loss: this._session.recoveryLoss, recovered: this._session.recoveryRecovered };
+      const targetReached = isRecoveryTargetReached(this._getRecoveryStep(), progress);
+      if (targetReached ?? !this.recoverySettings.progressive_recovery) {
+        this._session.isInRecovery = false;
+        this._session.recoveryStepIndex = 0;
+        this._session.recoveryAttempts = 0;
+        this.emit('recovery_completed', { ...progress, target: targetReached !== null });
+        this._log(targetReached !== null
+          ? `Exited recovery mode: won back ${progress.recovered} of ${progress.loss}.`
+          : 'Exited recovery mode after win.');
+      }
     }
   }
 
@@ -790,494 +1733,258 @@ class TradingBotManager extends EventEmitter {
     this._session.consecutiveWins = 0;
 
     this.emit('trade_lost', { result, consecutiveLosses: this._session.consecutiveLosses });
+    if (isPositionSizingEnabled(this.riskManagement)) {
+      this._session.ladderLoss = roundToTwo(this._session.ladderLoss + Math.abs(result.profit || 0));
+    }
 
     // Strategy-specific loss handling
-    this._onStrategyLoss();
+    this._stakeStrategy?.onLoss?.(this._strategyContext, result);
 
     // Check stop loss
     if (this._checkStopLoss()) {
       this.emit('stop_loss_triggered', { sessionProfit: this._session.sessionProfit });
-      this.stop();
+      if (this._isActive) this.stop('stop_loss');
       return;
     }
 
     // Enter recovery if configured
-    this._evaluateRecovery();
+    this._evaluateRecovery(result);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // STAKE CALCULATION — Strategy-Specific
   // ═══════════════════════════════════════════════════════════════════════════
 
-  /** @private */
+  /**
+   * @private
+   * @returns {{ shouldTrade: boolean, stake?: number, reason?: string, action?: string, contract?: Object, metadata?: Object, rule?: Object }}
+   *          `rule` says which setting produced the stake (see JournalStakeRule)
+   */
   _calculateStake() {
+    this._applyPositionSizing();
     let stake = this._session.baseStake;
 
     // Recovery step stake takes priority
     if (this._session.isInRecovery) {
       const recoveryStake = this._getRecoveryStepStake();
       if (recoveryStake !== null) {
-        return this._clampStake(recoveryStake);
+        const clamped = this._clampStakeWithLimit(recoveryStake);
+        const action = getRecoveryStepAction(this._getRecoveryStep());
+        return {
+          shouldTrade: true,
+          stake: clamped.stake,
+          recovery: { step: this._session.recoveryStepIndex, action },
+          rule: {
+            source: 'recovery_step',
+            strategy: this._stakeStrategy?.id || null,
+            recoveryStep: this._session.recoveryStepIndex,
+            modifiers: action === 'multiply' ? [] : [action],
+            requested: roundToTwo(recoveryStake),
+            clampedBy: clamped.limit,
+          },
+        };
       }
     }
 
     // Strategy-specific calculation
-    const strategyStake = this._calculateStrategyStake();
-    if (strategyStake !== null) {
-      stake = strategyStake;
-    }
+    const decision = this._calculateStrategyStake();
+    if (!decision.shouldTrade) return decision;
+    const source = decision.stake !== null && decision.stake !== undefined ? 'strategy' : 'base_stake';
+    if (source === 'strategy') stake = decision.stake;
 
     // Compound staking
-    if (this.generalSettings.compound_stake && this._session.currentBalance > 0) {
+    const compound = this.generalSettings.compound_stake && this._session.currentBalance > 0;
+    if (compound) {
       const basePercent = this._session.baseStake / (this._session.peakBalance || this._session.currentBalance);
       stake = this._session.currentBalance * basePercent;
     }
 
-    return this._clampStake(stake);
+    // Volatility-scaled stake
+    const volatility = this._getVolatilityAdjustment();
+    if (volatility) stake *= volatility.multiplier;
+
+    const clamped = this._clampStakeWithLimit(stake);
+    const rule = {
+      source,
+      strategy: this._stakeStrategy?.id || null,
+      recoveryStep: null,
+      modifiers: [
+        ...(this._session.sizing?.baseStake ? [`${this._session.sizing.mode} ${this._session.sizing.percentage}%`] : []),
+        ...(compound ? ['compound_stake'] : []),
+        ...(volatility ? [`volatility ×${volatility.multiplier}`] : []),
+      ],
+      requested: roundToTwo(stake),
+      clampedBy: clamped.limit,
+    };
+    return { ...decision, stake: clamped.stake, volatility, rule };
   }
 
-  /** @private */
+  /**
+   * Normalise the strategy's nextStake() result (number, null or StakeDecision).
+   * @private
+   */
   _calculateStrategyStake() {
-    const sid = (this.strategyId || '').toLowerCase();
-
-    // Map strategy IDs to calculation methods
-    if (sid.includes('martingale') && sid.includes('reset')) return this._calcMartingaleResetStake();
-    if (sid.includes('martingale') && sid.includes('reverse') && sid.includes('reset')) return this._calcReverseMartingaleResetStake();
-    if (sid.includes('reverse') && sid.includes('martingale')) return this._calcReverseMartingaleStake();
-    if (sid.includes('martingale') || sid.includes('options_martingale')) return this._calcMartingaleStake();
-
-    if (sid.includes('dalembert') && sid.includes('reverse') && sid.includes('reset')) return this._calcReverseDalembertResetStake();
-    if (sid.includes('reverse') && sid.includes('dalembert') && sid.includes('main')) return this._calcReverseDalembertMainStake();
-    if (sid.includes('reverse') && sid.includes('dalembert')) return this._calcReverseDalembertStake();
-    if (sid.includes('dalembert') && sid.includes('reset')) return this._calcDalembertResetStake();
-    if (sid.includes('dalembert') || sid.includes('options_dalembert')) return this._calcDalembertStake();
-
-    if (sid.includes('oscars') || sid.includes('grind')) return this._calcOscarsGrindStake();
-    if (sid.includes('1326') || sid.includes('system_1326')) return this._calcSystem1326Stake();
-    if (sid.includes('accumulator')) return this._calcAccumulatorStake();
-
-    return null; // Use base stake
-  }
-
-  // ─── Martingale ────────────────────────────────────────────────────────────
-
-  /** @private */
-  _calcMartingaleStake() {
-    const s = this.advancedSettings.martingale_strategy_section || {};
-    const multiplier = s.martingale_multiplier || 2;
-    const maxSteps = s.martingale_max_steps || 10;
-    const safetyNet = s.martingale_safety_net;
-
-    if (this._session.consecutiveLosses === 0) {
-      this._session.martingaleStep = 0;
-      return this._session.baseStake;
-    }
-
-    this._session.martingaleStep = Math.min(this._session.consecutiveLosses, maxSteps);
-    let stake = this._session.baseStake * Math.pow(multiplier, this._session.martingaleStep);
-
-    if (safetyNet && this._session.currentBalance > 0) {
-      const maxFromSafety = this._session.currentBalance * (safetyNet / 100);
-      stake = Math.min(stake, maxFromSafety);
-    }
-
-    return stake;
-  }
-
-  /** @private */
-  _calcMartingaleResetStake() {
-    const s = this.advancedSettings.martingale_reset_strategy_section || {};
-    const resetAfter = s.reset_after_trades;
-
-    if (resetAfter && this._session.totalTradesThisSession > 0 &&
-        this._session.totalTradesThisSession % resetAfter === 0) {
-      this._session.martingaleStep = 0;
-      this._session.consecutiveLosses = 0;
-      this._session.consecutiveWins = 0;
-      this.emit('strategy_reset', { message: `Martingale reset after ${resetAfter} trades` });
-      return this._session.baseStake;
-    }
-
-    const adjustment = s.reset_multiplier_adjustment || 0;
-    const baseMartingale = this._calcMartingaleStake();
-    if (adjustment > 0 && s.track_session_stats) {
-      return baseMartingale * (1 + adjustment / 100);
-    }
-    return baseMartingale;
-  }
-
-  // ─── D'Alembert ────────────────────────────────────────────────────────────
-
-  /** @private */
-  _calcDalembertStake() {
-    const s = this.advancedSettings.dalembert_strategy_section || {};
-    const increment = this._resolveThresholdValue(s.dalembert_increment) || 1;
-    const decrement = this._resolveThresholdValue(s.dalembert_decrement) || 1;
-    const maxUnits = s.dalembert_max_units || 50;
-    const conservative = s.dalembert_conservative_mode;
+    if (!this._stakeStrategy) return { shouldTrade: true, stake: null }; // Use base stake
 
-    if (this._session.totalTradesThisSession === 0) {
-      this._session.dalembertUnits = 1;
+    const next = this._stakeStrategy.nextStake(this._strategyContext) ?? null;
+    if (next === null || typeof next === 'number') {
+      return { shouldTrade: true, stake: next };
     }
-
-    const lastTrade = this._tradeHistory[this._tradeHistory.length - 1];
-    if (lastTrade) {
-      if (!lastTrade.isWin) {
-        this._session.dalembertUnits += conservative ? Math.ceil(increment / 2) : increment;
-      } else {
-        this._session.dalembertUnits = Math.max(1, this._session.dalembertUnits - decrement);
-      }
-    }
-
-    this._session.dalembertUnits = Math.min(this._session.dalembertUnits, maxUnits);
-
-    const resetThreshold = this._resolveThresholdValue(s.dalembert_reset_threshold);
-    if (resetThreshold > 0 && this._session.sessionProfit >= resetThreshold) {
-      this._session.dalembertUnits = 1;
-      this.emit('strategy_reset', { message: "D'Alembert reset at profit threshold" });
-    }
-
-    return this._session.baseStake * this._session.dalembertUnits;
+    return { ...next, shouldTrade: next.shouldTrade !== false };
   }
 
-  /** @private */
-  _calcDalembertResetStake() {
-    const s = this.advancedSettings.dalembert_reset_strategy_section || {};
-    const resetFreq = s.dalembert_reset_frequency;
-
-    if (resetFreq && this._session.totalTradesThisSession > 0 &&
-        this._session.totalTradesThisSession % resetFreq === 0) {
-      this._session.dalembertUnits = 1;
-      this.emit('strategy_reset', { message: `D'Alembert reset after ${resetFreq} trades` });
-
-      if (s.dalembert_session_profit_lock && this._session.sessionProfit > 0) {
-        this._session.lockedProfit += this._session.sessionProfit;
-        this._log(`Session profit locked: ${this._session.sessionProfit}`);
-      }
-    }
-
-    if (s.dalembert_reset_on_target && this._checkTakeProfit()) {
-      this._session.dalembertUnits = 1;
-    }
-
-    const baseDalembert = this._calcDalembertStake();
-
-    // Adaptive increment
-    if (s.dalembert_adaptive_increment && this._session.totalTradesThisSession > 5) {
-      const winRate = this._realtimePerformance.numberOfWins / this._realtimePerformance.totalRuns;
-      if (winRate > 0.6) return baseDalembert * 0.8;
-      if (winRate < 0.4) return baseDalembert * 1.2;
-    }
-
-    return baseDalembert;
-  }
-
-  // ─── Reverse Martingale ────────────────────────────────────────────────────
-
-  /** @private */
-  _calcReverseMartingaleStake() {
-    const s = this.advancedSettings.reverse_martingale_strategy_section || {};
-    const multiplier = s.reverse_martingale_multiplier || 2;
-    const maxWins = s.reverse_martingale_max_wins || 5;
-    const profitLock = s.reverse_martingale_profit_lock;
-    const aggressive = s.reverse_martingale_aggressive_mode;
-
-    if (s.reverse_martingale_reset_on_loss && this._session.consecutiveLosses > 0) {
-      return this._session.baseStake;
-    }
-
-    if (this._session.consecutiveWins === 0) return this._session.baseStake;
-
-    const steps = Math.min(this._session.consecutiveWins, maxWins);
-    let stake = this._session.baseStake * Math.pow(multiplier, steps);
-
-    if (profitLock && profitLock > 0 && this._session.sessionProfit > 0) {
-      const locked = this._session.sessionProfit * (profitLock / 100);
-      const maxRisk = this._session.sessionProfit - locked + this._session.baseStake;
-      stake = Math.min(stake, maxRisk);
-    }
-
-    if (aggressive) stake *= 1.5;
-
-    return stake;
-  }
-
-  /** @private */
-  _calcReverseMartingaleResetStake() {
-    const s = this.advancedSettings.reverse_martingale_reset_strategy_section || {};
-    const resetWinStreak = s.reverse_reset_win_streak;
-    const resetProfitTarget = this._resolveThresholdValue(s.reverse_reset_profit_target);
-
-    if (resetWinStreak && this._session.consecutiveWins >= resetWinStreak) {
-      this._session.consecutiveWins = 0;
-      if (s.reverse_preserve_winnings) {
-        this._session.lockedProfit += this._session.sessionProfit;
-      }
-      this.emit('strategy_reset', { message: `Reverse Martingale reset after ${resetWinStreak} wins` });
-      return this._session.baseStake;
-    }
-
-    if (resetProfitTarget > 0 && this._session.sessionProfit >= resetProfitTarget) {
-      this._session.consecutiveWins = 0;
-      this.emit('strategy_reset', { message: 'Reverse Martingale reset at profit target' });
-      return this._session.baseStake;
-    }
+  // ═══════════════════════════════════════════════════════════════════════════
+  // POSITION SIZING — Base stake from the live balance (see PositionSizing)
+  // ═══════════════════════════════════════════════════════════════════════════
 
-    return this._calcReverseMartingaleStake();
+  /**
+   * How the current base stake was sized, for the UI.
+   * @returns {Object|null} SizingResult plus the ladder budget, or null with sizing off
+   */
+  getPositionSizing() {
+    if (!isPositionSizingEnabled(this.riskManagement)) return null;
+    const s = this._session;
+    return {
+      ...(s.sizing || {}),
+      baseStake: s.baseStake,
+      sizedBalance: s.sizedBalance,
+      ladderLoss: s.ladderLoss,
+      ladderBudget: getLadderBudget(this.riskManagement, s.sizedBalance),
+    };
   }
 
-  // ─── Reverse D'Alembert ────────────────────────────────────────────────────
-
-  /** @private */
-  _calcReverseDalembertStake() {
-    const s = this.advancedSettings.reverse_dalembert_strategy_section || {};
-    const increment = this._resolveThresholdValue(s.reverse_dalembert_increment) || 1;
-    const decrement = this._resolveThresholdValue(s.reverse_dalembert_decrement) || 1;
-    const maxUnits = s.reverse_dalembert_max_units || 50;
-    const profitCeiling = this._resolveThresholdValue(s.reverse_dalembert_profit_ceiling);
-
-    if (this._session.totalTradesThisSession === 0) this._session.dalembertUnits = 1;
-
-    const lastTrade = this._tradeHistory[this._tradeHistory.length - 1];
-    if (lastTrade) {
-      if (lastTrade.isWin) {
-        this._session.dalembertUnits += increment;
-      } else {
-        this._session.dalembertUnits = Math.max(1, this._session.dalembertUnits - decrement);
-      }
-    }
-
-    this._session.dalembertUnits = Math.min(this._session.dalembertUnits, maxUnits);
-
-    if (profitCeiling > 0 && this._session.sessionProfit >= profitCeiling) {
-      this._session.dalembertUnits = 1;
-      this.emit('strategy_reset', { message: "Reverse D'Alembert reset at profit ceiling" });
-    }
-
-    return this._session.baseStake * this._session.dalembertUnits;
+  /**
+   * Re-size the base stake while no losing streak is running, so a progression keeps the
+   * base it started from until it recovers. A ladder whose losses leave no room for
+   * another base stake is reset first.
+   * @private
+   */
+  _applyPositionSizing() {
+    const settings = this.riskManagement;
+    if (!isPositionSizingEnabled(settings)) return;
+    const s = this._session;
+
+    if (!this._isLadderAtRest()) {
+      const room = this._getLadderRoom();
+      if (room === null || room >= s.baseStake) return;
+      this._resetLadder();
+    }
+
+    const balance = roundToTwo(this._getBalance());
+    s.sizedBalance = balance;
+    s.ladderLoss = 0;
+
+    const params = this._buildContractParams(s.baseStake, {}, { preview: true });
+    const sizing = sizeBaseStake(settings, {
+      balance,
+      payoutRate: getPayoutRate(params.contract_type, s.baseStake, params.barrier),
+      contractType: params.contract_type,
+      barrier: params.barrier,
+      wins: this._realtimePerformance.numberOfWins,
+      trades: this._realtimePerformance.totalRuns,
+    });
+
+    // Without an answer, fall back to the configured base once sizing had set one
+    const baseStake = sizing.baseStake ?? (s.sizing?.baseStake ? this._resolveThresholdValue(this.amounts.base_stake) : s.baseStake);
+    s.sizing = sizing;
+    if (baseStake === s.baseStake) return;
+
+    s.baseStake = baseStake;
+    this._realtimePerformance.baseStake = baseStake;
+    this.emit('base_stake_sized', { ...sizing, baseStake, balance });
+    this._log(sizing.baseStake !== null
+      ? `Base stake sized to ${baseStake} (${sizing.mode} ${sizing.percentage}% of ${balance})`
+      : `Base stake back to ${baseStake}: ${sizing.reason}`);
   }
 
-  /** @private */
-  _calcReverseDalembertResetStake() {
-    const s = this.advancedSettings.reverse_dalembert_reset_strategy_section || {};
-    const resetInterval = s.reverse_dalembert_reset_interval;
-    const dynamicReset = s.reverse_dalembert_dynamic_reset;
-    const winRateThreshold = s.reverse_dalembert_win_rate_threshold;
-
-    if (resetInterval && this._session.totalTradesThisSession > 0 &&
-        this._session.totalTradesThisSession % resetInterval === 0) {
-      this._session.dalembertUnits = 1;
-      this.emit('strategy_reset', { message: `Reverse D'Alembert reset after ${resetInterval} trades` });
-    }
-
-    if (dynamicReset && winRateThreshold && this._session.totalTradesThisSession > 5) {
-      const winRate = this._realtimePerformance.numberOfWins / this._realtimePerformance.totalRuns;
-      if (winRate < winRateThreshold / 100) {
-        this._session.dalembertUnits = 1;
-        this.emit('strategy_reset', { message: 'Dynamic reset: win rate below threshold' });
-      }
-    }
-
-    return this._calcReverseDalembertStake();
+  /**
+   * @private
+   * @returns {boolean} Whether the stake progression sits at its base
+   */
+  _isLadderAtRest() {
+    return this._session.consecutiveLosses === 0 && !this._session.isInRecovery;
   }
 
-  /** @private */
-  _calcReverseDalembertMainStake() {
-    const s = this.advancedSettings.reverse_dalembert_main_strategy_section || {};
-    const baseStake = this._resolveThresholdValue(s.reverse_dalembert_base_stake) || this._session.baseStake;
-    const winIncrement = this._resolveThresholdValue(s.reverse_dalembert_win_increment) || 1;
-    const lossDecrement = this._resolveThresholdValue(s.reverse_dalembert_loss_decrement) || 1;
-    const maxUnits = s.reverse_dalembert_maximum_units || 50;
-    const minUnits = s.reverse_dalembert_minimum_units || 1;
-    const profitCeiling = this._resolveThresholdValue(s.reverse_dalembert_profit_ceiling);
-    const aggressive = s.reverse_dalembert_aggressive_mode;
-    const winStreakBonus = s.reverse_dalembert_win_streak_bonus;
-
-    if (this._session.totalTradesThisSession === 0) this._session.dalembertUnits = 1;
-
-    const lastTrade = this._tradeHistory[this._tradeHistory.length - 1];
-    if (lastTrade) {
-      if (lastTrade.isWin) {
-        this._session.dalembertUnits += winIncrement;
-        if (winStreakBonus && this._session.consecutiveWins >= 3) {
-          this._session.dalembertUnits += winStreakBonus;
-        }
-      } else {
-        this._session.dalembertUnits = Math.max(minUnits, this._session.dalembertUnits - lossDecrement);
-      }
-    }
-
-    this._session.dalembertUnits = Math.min(this._session.dalembertUnits, maxUnits);
-    this._session.dalembertUnits = Math.max(this._session.dalembertUnits, minUnits);
-
-    if (profitCeiling > 0 && this._session.sessionProfit >= profitCeiling) {
-      this._session.dalembertUnits = 1;
-      this.emit('strategy_reset', { message: 'Reverse D\'Alembert Main reset at profit ceiling' });
-    }
-
-    let stake = baseStake * this._session.dalembertUnits;
-    if (aggressive) stake *= 1.3;
-
-    return stake;
+  /**
+   * What the running ladder may still lose.
+   * @private
+   * @returns {number|null} null without a ladder cap
+   */
+  _getLadderRoom() {
+    if (!isPositionSizingEnabled(this.riskManagement)) return null;
+    const budget = getLadderBudget(this.riskManagement, this._session.sizedBalance);
+    return budget === null ? null : Math.max(0, roundToTwo(budget - this._session.ladderLoss));
   }
 
-  // ─── Oscar's Grind ─────────────────────────────────────────────────────────
-
-  /** @private */
-  _calcOscarsGrindStake() {
-    const s = this.advancedSettings.oscars_grind_strategy_section || {};
-    const baseUnit = this._resolveThresholdValue(s.oscars_grind_base_unit) || this._session.baseStake;
-    const profitTarget = this._resolveThresholdValue(s.oscars_grind_profit_target) || baseUnit;
-    const maxBetUnits = s.oscars_grind_max_bet_units || 10;
-    const incrementOnWin = s.oscars_grind_increment_on_win;
-    const maintainOnLoss = s.oscars_grind_maintain_stake_on_loss;
-    const resetOnTarget = s.oscars_grind_reset_on_target;
-    const autoStop = s.oscars_grind_auto_stop_on_target;
-
-    if (this._session.totalTradesThisSession === 0) {
-      this._session.oscarsGrindCurrentUnit = 1;
-      this._session.oscarsGrindSessionProfit = 0;
-    }
-
-    const lastTrade = this._tradeHistory[this._tradeHistory.length - 1];
-    if (lastTrade) {
-      this._session.oscarsGrindSessionProfit += lastTrade.profit;
-
-      if (lastTrade.isWin && incrementOnWin) {
-        if (this._session.oscarsGrindSessionProfit < profitTarget) {
-          this._session.oscarsGrindCurrentUnit = Math.min(
-            this._session.oscarsGrindCurrentUnit + 1, maxBetUnits
-          );
-        }
-      }
-      // On loss: maintain current unit (Oscar's Grind rule)
-    }
-
-    if (this._session.oscarsGrindSessionProfit >= profitTarget) {
-      if (autoStop) {
-        this.emit('take_profit_triggered', { message: "Oscar's Grind session target reached" });
-        this.stop();
-        return baseUnit;
-      }
-      if (resetOnTarget) {
-        this._session.oscarsGrindCurrentUnit = 1;
-        this._session.oscarsGrindSessionProfit = 0;
-        this.emit('strategy_reset', { message: "Oscar's Grind reset at profit target" });
-      }
-    }
-
-    const neededForTarget = profitTarget - this._session.oscarsGrindSessionProfit;
-    const stakeUnits = Math.min(this._session.oscarsGrindCurrentUnit, Math.ceil(neededForTarget / baseUnit));
-
-    return baseUnit * Math.max(1, stakeUnits);
+  /**
+   * Send a ladder that used up its budget back to the base stake.
+   * @private
+   */
+  _resetLadder() {
+    const s = this._session;
+    const budget = getLadderBudget(this.riskManagement, s.sizedBalance);
+    this.emit('ladder_cap_reached', { ladderLoss: s.ladderLoss, budget, consecutiveLosses: s.consecutiveLosses });
+    this._log(`Ladder lost ${s.ladderLoss} of its ${budget} budget — back to the base stake`);
+
+    s.consecutiveLosses = 0;
+    s.isInRecovery = false;
+    s.recoveryStepIndex = 0;
+    s.recoveryAttempts = 0;
+    this._resetStrategyState();
   }
 
-  // ─── 1-3-2-6 System ────────────────────────────────────────────────────────
-
-  /** @private */
-  _calcSystem1326Stake() {
-    const s = this.advancedSettings.system_1326_strategy_section || {};
-    const baseUnit = this._resolveThresholdValue(s.system_1326_base_unit) || this._session.baseStake;
-    const sequenceStr = s.system_1326_sequence || '1-3-2-6';
-    const sequence = sequenceStr.split('-').map(Number);
-    const resetOnLoss = s.system_1326_reset_on_loss;
-    const maxCycles = s.system_1326_max_cycles;
-    const stopOnComplete = s.system_1326_stop_on_cycle_complete;
-    const lossRecovery = s.system_1326_loss_recovery;
-
-    if (this._session.totalTradesThisSession === 0) {
-      this._session.system1326Step = 0;
-    }
-
-    const lastTrade = this._tradeHistory[this._tradeHistory.length - 1];
-    if (lastTrade) {
-      if (lastTrade.isWin) {
-        this._session.system1326Step++;
-        if (this._session.system1326Step >= sequence.length) {
-          if (stopOnComplete) {
-            this.emit('strategy_reset', { message: '1-3-2-6 cycle complete — stopping' });
-            this.stop();
-            return baseUnit;
-          }
-          this._session.system1326Step = 0;
-          this.emit('strategy_reset', { message: '1-3-2-6 cycle complete — restarting' });
-        }
-      } else {
-        if (resetOnLoss) this._session.system1326Step = 0;
-        // lossRecovery: stay at current step
-      }
-    }
-
-    if (maxCycles) {
-      const completedCycles = Math.floor(this._session.totalTradesThisSession / sequence.length);
-      if (completedCycles >= maxCycles) {
-        this.emit('max_trades_reached', { message: `Max cycles (${maxCycles}) reached` });
-        this.stop();
-        return baseUnit;
-      }
-    }
-
-    const stepIndex = Math.min(this._session.system1326Step, sequence.length - 1);
-    const multiplier = sequence[stepIndex] || 1;
+  // ═══════════════════════════════════════════════════════════════════════════
+  // STAKE STRATEGY STATE
+  // ═══════════════════════════════════════════════════════════════════════════
 
-    if (s.system_1326_partial_profit_lock && this._session.sessionProfit > 0 && stepIndex >= 2) {
-      return baseUnit * multiplier * 0.9;
+  /**
+   * (Re)create the strategy's state, optionally from a checkpointed copy.
+   * @private
+   */
+  _initStrategyState(saved = null) {
+    this._strategyState = {};
+    if (this._stakeStrategy) {
+      this._strategyState = this._stakeStrategy.init(this._strategyContext, saved) || {};
     }
-
-    return baseUnit * multiplier;
   }
 
-  // ─── Accumulator ───────────────────────────────────────────────────────────
-
   /** @private */
-  _calcAccumulatorStake() {
-    const s = this.advancedSettings.accumulator_strategy_section || {};
-    const growthRate = s.accumulator_growth_rate || 0.01;
-    const targetMultiplier = s.accumulator_target_multiplier || 10;
-
-    // Accumulator uses base stake with growth
-    let stake = this._session.baseStake;
-
-    if (this._session.consecutiveWins > 0) {
-      stake = this._session.baseStake * (1 + growthRate * this._session.consecutiveWins);
-    }
-
-    // Auto cashout at target
-    if (s.accumulator_auto_cashout && this._session.sessionProfit >= this._session.baseStake * targetMultiplier) {
-      this.emit('take_profit_triggered', { message: 'Accumulator target multiplier reached' });
-      this.stop();
-      return this._session.baseStake;
-    }
-
-    return stake;
+  _resetStrategyState() {
+    if (!this._stakeStrategy) return;
+    if (this._stakeStrategy.reset) this._stakeStrategy.reset(this._strategyContext);
+    else this._initStrategyState();
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // STRATEGY WIN/LOSS HOOKS
-  // ═══════════════════════════════════════════════════════════════════════════
-
   /** @private */
-  _onStrategyWin() {
-    const sid = (this.strategyId || '').toLowerCase();
-
-    if (sid.includes('martingale') && !sid.includes('reverse')) {
-      const s = this.advancedSettings.martingale_strategy_section || {};
-      if (s.martingale_reset_on_profit) {
-        this._session.martingaleStep = 0;
-      }
+  _serializeStrategyState() {
+    if (this._stakeStrategy?.serializeState) {
+      return this._stakeStrategy.serializeState(this._strategyContext);
     }
+    return JSON.parse(JSON.stringify(this._strategyState || {}));
   }
 
-  /** @private */
-  _onStrategyLoss() {
-    const sid = (this.strategyId || '').toLowerCase();
-
-    if (sid.includes('reverse') && sid.includes('martingale')) {
-      const s = this.advancedSettings.reverse_martingale_strategy_section || {};
-      if (s.reverse_martingale_reset_on_loss) {
-        this._session.consecutiveWins = 0;
-      }
-    }
+  /**
+   * The view of the manager handed to stake strategy hooks.
+   * @private
+   */
+  _createStrategyContext() {
+    const live = (get) => ({ get, enumerable: true });
+    return Object.defineProperties({
+      resolveValue: (value) => this._resolveThresholdValue(value),
+      emit: (event, payload) => this.emit(event, payload),
+      log: (message) => this._log(message),
+      stop: () => this.stop(),
+      isTakeProfitReached: () => this._checkTakeProfit(),
+      now: () => this._now(),
+      maxLoss: (stake) => getMaxLoss(this._buildContractParams(stake, {}, { preview: true })),
+    }, {
+      settings: live(() => this.advancedSettings),
+      session: live(() => this._session),
+      performance: live(() => this._realtimePerformance),
+      lastTrade: live(() => this._tradeHistory[this._tradeHistory.length - 1] || null),
+      state: { ...live(() => this._strategyState), set: (value) => { this._strategyState = value; } },
+      openEnded: live(() => this._isMultiplierBot()),
+    });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1285,13 +1992,20 @@ class TradingBotManager extends EventEmitter {
   // ═══════════════════════════════════════════════════════════════════════════
 
   /** @private */
-  _evaluateRecovery() {
+  _evaluateRecovery(result) {
     const riskSteps = this._config.recovery_steps?.risk_steps || [];
     const recoveryType = this.generalSettings.recovery_type;
 
     if (!recoveryType || recoveryType === 'off' || riskSteps.length === 0) return;
 
     if (this._session.consecutiveLosses > 0) {
+      const entering = !this._session.isInRecovery;
+      const previousStep = this._session.recoveryStepIndex;
+      if (entering) {
+        this._session.recoveryLoss = 0;
+        this._session.recoveryRecovered = 0;
+      }
+      this._session.recoveryLoss = roundToTwo(this._session.recoveryLoss + Math.abs(result?.profit || 0));
       this._session.isInRecovery = true;
       this._session.recoveryAttempts++;
 
@@ -1310,52 +2024,70 @@ class TradingBotManager extends EventEmitter {
         recoveryAttempts: this._session.recoveryAttempts,
       });
 
-      if (this.recoverySettings.progressive_recovery) {
+      // A safety step holds the ladder until the recovery target is reached
+      const holds = !entering && getRecoveryStepAction(this._getRecoveryStep()) === 'safety';
+      if (this.recoverySettings.progressive_recovery && !holds) {
         this._session.recoveryStepIndex = Math.min(
           this._session.recoveryStepIndex + 1, riskSteps.length - 1
         );
         this.emit('recovery_step_changed', { stepIndex: this._session.recoveryStepIndex });
       }
+
+      if (entering || this._session.recoveryStepIndex !== previousStep) {
+        this._startRecoveryStepCooldown();
+      }
     }
   }
 
+  /**
+   * The recovery step in use, or null outside recovery.
+   * @private
+   */
+  _getRecoveryStep() {
+    const riskSteps = this._config.recovery_steps?.risk_steps || [];
+    if (!this._session.isInRecovery || riskSteps.length === 0) return null;
+    return riskSteps[Math.min(this._session.recoveryStepIndex, riskSteps.length - 1)] || null;
+  }
+
+  /**
+   * Contract fields the recovery step trades with (switch_contract / safety steps).
+   * @private
+   */
+  _getRecoveryContract() {
+    return getRecoveryStepContract(this._getRecoveryStep()) || {};
+  }
+
   /** @private */
   _getRecoveryStepStake() {
-    const riskSteps = this._config.recovery_steps?.risk_steps || [];
-    if (riskSteps.length === 0) return null;
+    const multiplier = getRecoveryStepStakeMultiplier(this._getRecoveryStep());
+    if (multiplier === null) return null;
 
-    const stepIndex = Math.min(this._session.recoveryStepIndex, riskSteps.length - 1);
-    const step = riskSteps[stepIndex];
+    const recoveryMultiplier = this.recoverySettings.recovery_multiplier || 1;
+    return this._session.baseStake * multiplier * recoveryMultiplier;
+  }
 
-    if (step && step.multiplier) {
-      const recoveryMultiplier = this.recoverySettings.recovery_multiplier || 1;
-      return this._session.baseStake * step.multiplier * recoveryMultiplier;
-    }
+  /**
+   * Pause before the first trade of a recovery step with `cooldownSeconds`.
+   * @private
+   */
+  _startRecoveryStepCooldown() {
+    const durationMs = getRecoveryStepCooldownMs(this._getRecoveryStep());
+    if (durationMs === null) return;
 
-    return null;
+    const stepIndex = this._session.recoveryStepIndex;
+    this._startCooldown({ type: 'recovery_step', stepIndex }, durationMs, { durationMs, type: 'recovery_step', stepIndex });
   }
 
-  /** @private */
+  /**
+   * Pause after max_recovery_attempts; the attempts start over when it ends.
+   * @private
+   */
   _enterRecoveryCooldown() {
     const cooldown = this.recoverySettings.recovery_cooldown;
     if (!cooldown) return;
 
     const durationMs = parseDurationToMs(cooldown.duration, cooldown.unit);
-    this._session.isInCooldown = true;
-    this._session.cooldownEndTime = Date.now() + durationMs;
-
-    this.emit('cooldown_started', { duration: cooldown.duration, unit: cooldown.unit, type: 'recovery' });
-
-    this._cooldownTimer = setTimeout(() => {
-      this._session.isInCooldown = false;
-      this._session.cooldownEndTime = null;
-      this._session.recoveryAttempts = 0;
-      this.emit('cooldown_ended', { type: 'recovery' });
-
-      if (this._status === BOT_STATUSES.START || (this._status === BOT_STATUSES.IDLE && this.generalSettings.auto_restart)) {
-        this._runTradeLoop();
-      }
-    }, durationMs);
+    this._startCooldown({ type: 'recovery' }, durationMs, { duration: cooldown.duration, unit: cooldown.unit, type: 'recovery' });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1374,38 +2106,44 @@ class TradingBotManager extends EventEmitter {
       return { allowed: false, reason: 'In cooldown period', action: 'wait' };
     }
 
-    // 3. Schedule?
+    // 3. Schedule and market hours?
     if (!this.isWithinSchedule()) {
       this.emit('schedule_paused', { message: 'Outside scheduled trading hours' });
       return { allowed: false, reason: 'Outside schedule', action: 'wait' };
     }
+    const market = this.getMarketStatus();
+    if (!market.isOpen) {
+      this._marketPaused = true;
+      this.emit('market_hours_paused', { symbol: market.symbol, reason: market.reason, nextOpen: market.nextOpen });
+      return { allowed: false, reason: this._describeMarketClosed(market), action: 'pause' };
+    }
 
-    // 4. Max trades?
+    // 4. Max trades? (contracts still open count as trades)
     const maxTrades = this.generalSettings.maximum_number_of_trades;
-    if (maxTrades && this._session.totalTradesThisSession >= maxTrades) {
+    if (maxTrades && this._session.totalTradesThisSession + this._openTrades.size >= maxTrades) {
       this.emit('max_trades_reached', { maxTrades });
-      return { allowed: false, reason: 'Max trades reached', action: 'stop' };
+      return { allowed: false, reason: 'Max trades reached', action: 'stop', stopReason: 'max_trades' };
     }
 
     // 5. Max consecutive losses?
     const maxConsecLosses = this.riskManagement.max_consecutive_losses;
     if (maxConsecLosses && this._session.consecutiveLosses >= maxConsecLosses) {
       this.emit('risk_limit_hit', { type: 'max_consecutive_losses', value: maxConsecLosses });
-      return { allowed: false, reason: 'Max consecutive losses', action: 'cooldown' };
+      return { allowed: false, reason: 'Max consecutive losses', action: 'cooldown', stopReason: 'risk_limit' };
     }
 
     // 6. Max daily loss?
     const maxDailyLoss = this._resolveThresholdValue(this.riskManagement.max_daily_loss);
     if (maxDailyLoss > 0 && this._session.dailyLoss >= maxDailyLoss) {
       this.emit('risk_limit_hit', { type: 'max_daily_loss', value: maxDailyLoss });
-      return { allowed: false, reason: 'Max daily loss reached', action: 'stop' };
+      return { allowed: false, reason: 'Max daily loss reached', action: 'stop', stopReason: 'risk_limit' };
     }
 
     // 7. Max daily profit?
     const maxDailyProfit = this._resolveThresholdValue(this.riskManagement.max_daily_profit);
     if (maxDailyProfit > 0 && this._session.dailyProfit >= maxDailyProfit) {
       this.emit('risk_limit_hit', { type: 'max_daily_profit', value: maxDailyProfit });
-      return { allowed: false, reason: 'Max daily profit reached', action: 'stop' };
+      return { allowed: false, reason: 'Max daily profit reached', action: 'stop', stopReason: 'risk_limit' };
     }
 
     // 8. Max drawdown?
@@ -1414,7 +2152,7 @@ class TradingBotManager extends EventEmitter {
       const currentDrawdown = ((this._session.peakBalance - this._session.currentBalance) / this._session.peakBalance) * 100;
       if (currentDrawdown >= maxDrawdown) {
         this.emit('risk_limit_hit', { type: 'max_drawdown', value: maxDrawdown, current: currentDrawdown });
-        return { allowed: false, reason: 'Max drawdown reached', action: 'stop' };
+        return { allowed: false, reason: 'Max drawdown reached', action: 'stop', stopReason: 'risk_limit' };
       }
     }
 
@@ -1430,6 +2168,9 @@ class TradingBotManager extends EventEmitter {
     // 10. Volatility filter?
     if (this.volatilityControls.volatility_filter && this._volatilityProvider) {
       const volatility = this._volatilityProvider();
+      if (volatility === null || volatility === undefined) {
+        return { allowed: false, reason: 'Volatility warming up', action: 'wait' };
+      }
       const minVol = this.volatilityControls.min_volatility;
       const maxVol = this.volatilityControls.max_volatility;
 
@@ -1445,7 +2186,19 @@ class TradingBotManager extends EventEmitter {
       }
     }
 
-    // 11. Risk per trade?
+    // 11. Open exposure? Open contracts settling as losses must not overshoot the loss limits
+    const openExposure = this._getOpenExposure();
+    if (openExposure > 0) {
+      const stopLoss = this._resolveThresholdValue(this.amounts.stop_loss);
+      const worstDailyLoss = this._session.dailyLoss + openExposure;
+      const worstSessionLoss = openExposure - this._session.sessionProfit;
+      if ((maxDailyLoss > 0 && worstDailyLoss >= maxDailyLoss) || (stopLoss > 0 && worstSessionLoss >= stopLoss)) {
+        this.emit('risk_limit_hit', { type: 'open_exposure', value: openExposure, open: this._openTrades.size });
+        return { allowed: false, reason: 'Open exposure at loss limit', action: 'wait' };
+      }
+    }
+
+    // 12. Risk per trade?
     const riskPerTrade = this._resolveThresholdValue(this.riskManagement.risk_per_trade);
     if (riskPerTrade > 0 && this._session.currentBalance > 0) {
       const maxStakeFromRisk = this._session.currentBalance * (riskPerTrade / 100);
@@ -1457,6 +2210,291 @@ class TradingBotManager extends EventEmitter {
     return { allowed: true };
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MARKET SIGNALS — Indicator gate (market_conditions_section)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Latest indicator snapshot, or null when the signal gate is off or has no data yet.
+   * @returns {Object|null} IndicatorSnapshot
+   */
+  getSignalSnapshot() {
+    return this._indicatorPipeline?.getSnapshot() || null;
+  }
+
+  /**
+   * Run the signal gate for the contract about to be bought.
+   * @private
+   * @param {Object} tradeParams - ContractParams from _buildContractParams
+   * @returns {{ params: Object, check: Object, signal: Object|null }} Params to trade (flipped if
+   *          the gate says so), a pre-trade check result and the signal record for the TradeResult
+   */
+  _evaluateSignalGate(tradeParams) {
+    const settings = this.marketConditions;
+    if (!isSignalGateEnabled(settings)) {
+      return { params: tradeParams, check: { allowed: true }, signal: null };
+    }
+
+    const snapshot = this.getSignalSnapshot();
+    const decision = evaluateSignalGate(snapshot, tradeParams.contract_type, settings);
+    const signal = { ...decision, snapshot };
+
+    if (decision.action === 'block' || decision.action === 'wait') {
+      this.emit('signal_blocked', {
+        action: decision.action,
+        reason: decision.reason,
+        contractType: decision.originalContractType,
+        matched: decision.matched,
+        snapshot,
+      });
+      return { params: tradeParams, check: { allowed: false, reason: decision.reason, action: 'wait' }, signal };
+    }
+
+    if (decision.action === 'flip') {
+      this.emit('signal_flipped', {
+        from: decision.originalContractType,
+        to: decision.contractType,
+        reason: decision.reason,
+        matched: decision.matched,
+        snapshot,
+      });
+      return { params: flipContractParams(tradeParams), check: { allowed: true }, signal };
+    }
+
+    return { params: tradeParams, check: { allowed: true }, signal };
+  }
+
+  /**
+   * Build an IndicatorPipeline on live ticks for the contract symbol, unless the gate is
+   * off or a pipeline was injected. Failures are reported but don't stop the bot — the
+   * gate keeps answering 'wait' until data arrives.
+   * @private
+   */
+  async _startIndicatorFeed() {
+    if (!isSignalGateEnabled(this.marketConditions)) return;
+    if (this._indicatorPipeline && !this._ownsIndicatorPipeline) return;
+
+    this._stopIndicatorFeed();
+    const mc = this.marketConditions;
+    const symbol = this.contract.market?.symbol || this.contract.symbol || '';
+    const pipeline = new IndicatorPipeline({
+      granularity: mc.indicator_granularity ?? undefined,
+      periods: mc.indicator_periods || undefined,
+    });
+    this._indicatorPipeline = pipeline;
+    this._ownsIndicatorPipeline = true;
+
+    const onError = (error) => {
+      const message = error?.message || 'Unknown indicator feed error';
+      this._log(`Indicator feed error: ${message}`);
+      this.emit('indicator_feed_error', { symbol, error: message });
+    };
+
+    try {
+      const connection = await this._executor.getConnection(this._config.botAccount?.token || '');
+      if (this._indicatorPipeline !== pipeline) return;
+      pipeline.attach(createDerivTickSource(connection), symbol, onError);
+    } catch (error) {
+      onError(error);
+    }
+  }
+
+  /** @private */
+  _stopIndicatorFeed() {
+    if (!this._ownsIndicatorPipeline) return;
+    this._indicatorPipeline?.detach();
+    this._indicatorPipeline = null;
+    this._ownsIndicatorPipeline = false;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DIGIT ANALYSIS — Last-digit entry filter (digit_analysis_section)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Latest last-digit statistics for the contract symbol, or null.
+   * @returns {Object|null} DigitStats
+   */
+  getDigitStats() {
+    const symbol = this.contract.market?.symbol || this.contract.symbol || '';
+    return this._digitAnalysis?.getStats(symbol) || null;
+  }
+
+  /**
+   * Pick the prediction of a digit contract and skip entries the digit filter rejects.
+   * `contract.predictionRandomize` is honoured even with the filter off, unless the
+   * contract's rotation lists the predictions.
+   * @private
+   * @param {Object} tradeParams - ContractParams
+   * @returns {{ params: Object, check: Object, digits: Object|null }}
+   */
+  _evaluateDigitEntry(tradeParams) {
+    const enabled = isDigitFilterEnabled(this.digitAnalysis);
+    // A prediction rotation picks the prediction itself; the digit filter still applies
+    const randomize = this.contract.predictionRandomize && !this._session.rotation?.prediction;
+    if (!enabled && !randomize) {
+      return { params: tradeParams, check: { allowed: true }, digits: null };
+    }
+
+    const settings = enabled ? { ...this.digitAnalysis } : { prediction_mode: 'random' };
+    if (randomize && (!settings.prediction_mode || settings.prediction_mode === 'static')) {
+      settings.prediction_mode = 'random';
+    }
+
+    const stats = enabled ? this.getDigitStats() : null;
+    const entry = evaluateDigitEntry(stats, tradeParams, settings);
+    const params = entry.barrier !== undefined ? { ...tradeParams, barrier: entry.barrier } : tradeParams;
+
+    if (entry.action !== 'allow') {
+      this.emit('digit_entry_skipped', {
+        action: entry.action,
+        reason: entry.reason,
+        contractType: tradeParams.contract_type,
+        sampleWinRate: entry.sampleWinRate,
+      });
+      // Digit conditions change every tick, so look again sooner than the usual 5s wait
+      return {
+        params,
+        check: { allowed: false, reason: entry.reason, action: 'wait', retryMs: DIGIT_RETRY_MS },
+        digits: null,
+      };
+    }
+
+    const digits = stats
+      ? {
+        mode: settings.prediction_mode || 'static',
+        prediction: params.barrier ?? null,
+        sampleWinRate: entry.sampleWinRate,
+        sampleSize: stats.sampleSize,
+        frequencies: stats.frequencies,
+        lastDigit: stats.lastDigit,
+        parityRun: stats.parityRun,
+        streak: stats.streak,
+      }
+      : null;
+    return { params, check: { allowed: true }, digits };
+  }
+
+  /**
+   * Watch the contract symbol on the digit analysis service, creating one on live ticks
+   * (warmed up from `ticks_history`) when none was injected.
+   * @private
+   */
+  async _startDigitFeed() {
+    if (!isDigitFilterEnabled(this.digitAnalysis)) return;
+    this._stopDigitFeed();
+
+    const symbol = this.contract.market?.symbol || this.contract.symbol || '';
+    const sampleSize = Number(this.digitAnalysis.digit_sample_size) || DEFAULT_DIGIT_SAMPLE_SIZE;
+
+    try {
+      if (!this._digitAnalysis) {
+        const connection = await this._executor.getConnection(this._config.botAccount?.token || '');
+        const service = new DigitAnalysisService({ tickSource: createDerivTickSource(connection), sampleSize });
+        service.on('digit_feed_error', ({ error }) => {
+          this._log(`Digit feed error: ${error}`);
+          this.emit('digit_feed_error', { symbol, error });
+        });
+        this._digitAnalysis = service;
+        this._ownsDigitAnalysis = true;
+        await service.warmUp(connection, symbol, sampleSize);
+      }
+      this._digitAnalysis.ensureSampleSize(sampleSize);
+      this._digitAnalysis.watch(symbol);
+      this._watchedDigitSymbol = symbol;
+    } catch (err) {
+      const message = err.message || 'Unknown digit feed error';
+      this._log(`Digit feed error: ${message}`);
+      this.emit('digit_feed_error', { symbol, error: message });
+    }
+  }
+
+  /** @private */
+  _stopDigitFeed() {
+    if (this._watchedDigitSymbol !== null) {
+      this._digitAnalysis?.unwatch(this._watchedDigitSymbol);
+      this._watchedDigitSymbol = null;
+    }
+    if (this._ownsDigitAnalysis) {
+      this._digitAnalysis?.destroy();
+      this._digitAnalysis = null;
+      this._ownsDigitAnalysis = false;
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // VOLATILITY — Realized volatility provider (volatility_controls_section)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Latest realized volatility reading for the contract symbol, or null when the provider
+   * was injected or is still warming up.
+   * @returns {Object|null} VolatilityReading
+   */
+  getVolatilityReading() {
+    const symbol = this.contract.market?.symbol || this.contract.symbol || '';
+    return this._volatilityService?.getReading(symbol) || null;
+  }
+
+  /**
+   * Stake multiplier from `volatility_adjustment`, or null when the adjustment is off or
+   * there is no reading yet.
+   * @private
+   * @returns {{ score: number, multiplier: number }|null}
+   */
+  _getVolatilityAdjustment() {
+    if (!this.volatilityControls.volatility_adjustment || !this._volatilityProvider) return null;
+    const score = this._volatilityProvider();
+    if (score === null || score === undefined) return null;
+
+    const multiplier = getVolatilityStakeMultiplier(score, this.volatilityControls);
+    if (multiplier < 1) this._log(`Volatility ${score}: stake scaled by ${multiplier}`);
+    return { score, multiplier };
+  }
+
+  /**
+   * Build the volatility provider on live ticks for the contract symbol (warmed up from
+   * `ticks_history`), unless no volatility control is on or a provider was injected.
+   * @private
+   */
+  async _startVolatilityFeed() {
+    if (!isVolatilityControlEnabled(this.volatilityControls)) return;
+    if (this._volatilityProvider && !this._volatilityService) return;
+    this._stopVolatilityFeed();
+
+    const symbol = this.contract.market?.symbol || this.contract.symbol || '';
+    const service = new VolatilityService({
+      lookback: Number(this.volatilityControls.volatility_lookback_period) || undefined,
+    });
+    service.on('volatility_feed_error', ({ error }) => {
+      this._log(`Volatility feed error: ${error}`);
+      this.emit('volatility_feed_error', { symbol, error });
+    });
+    this._volatilityService = service;
+    this._volatilityProvider = service.createProvider(symbol);
+
+    try {
+      const connection = await this._executor.getConnection(this._config.botAccount?.token || '');
+      if (this._volatilityService !== service) return;
+      service.setTickSource(createDerivTickSource(connection));
+      await service.warmUp(connection, symbol);
+      if (this._volatilityService !== service) return;
+      service.watch(symbol);
+    } catch (err) {
+      const message = err.message || 'Unknown volatility feed error';
+      this._log(`Volatility feed error: ${message}`);
+      this.emit('volatility_feed_error', { symbol, error: message });
+    }
+  }
+
+  /** @private */
+  _stopVolatilityFeed() {
+    if (!this._volatilityService) return;
+    this._volatilityService.destroy();
+    this._volatilityService = null;
+    this._volatilityProvider = null;
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // STOP LOSS / TAKE PROFIT
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1509,116 +2547,374 @@ class TradingBotManager extends EventEmitter {
         lockedProfit: this._session.lockedProfit,
         currentProfit: this._session.sessionProfit,
       });
-      this.stop();
+      this.stop('profit_lock');
+    }
+  }
+
+  /**
+   * Current trailing floor under session profit, for drawing it in the UI.
+   * @returns {{ floor: number|null, source: string|null, peakProfit: number, sessionProfit: number }}
+   */
+  getProfitFloor() {
+    return {
+      floor: this._session.profitFloor,
+      source: this._session.profitFloorSource,
+      peakProfit: this._session.peakSessionProfit,
+      sessionProfit: this._session.sessionProfit,
+    };
+  }
+
+  /**
+   * Ratchet the session profit floor and stop once profit falls back to it.
+   * Each configured source proposes a floor; the highest wins and the floor never moves down:
+   *   - `risk_management_section.trailing_stop_loss`  — peak profit minus a distance. Armed
+   *     from the first trade, or once peak profit reaches `trailing_stop_activation`.
+   *   - `amounts.trailing_take_profit`                — once `take_profit` is reached, trail the
+   *     peak by this distance instead of stopping.
+   *   - `risk_management_section.profit_lock_steps`   — `[{ profit, lock }]`: once peak profit
+   *     reaches `profit`, never give back more than down to `lock`.
+   * Distances and locks accept `percentage`, relative to peak profit / the step's milestone.
+   * @private
+   * @returns {boolean} true if the floor was hit and the bot is stopping
+   */
+  _evaluateProfitFloor() {
+    const s = this._session;
+    if (this._status !== BOT_STATUSES.START) return false;
+
+    if (s.sessionProfit > s.peakSessionProfit) s.peakSessionProfit = s.sessionProfit;
+    const peak = s.peakSessionProfit;
+    const candidates = [];
+
+    const trailingDistance = this._resolveTrailingDistance(this.riskManagement.trailing_stop_loss, peak);
+    const activation = this._resolveThresholdValue(this.riskManagement.trailing_stop_activation);
+    if (trailingDistance > 0 && peak >= activation) {
+      candidates.push({ source: 'trailing_stop', floor: peak - trailingDistance });
+    }
+
+    if (this._hasTrailingTakeProfit() && this._checkTakeProfit()) {
+      const takeProfitDistance = this._resolveTrailingDistance(this.amounts.trailing_take_profit, peak);
+      candidates.push({ source: 'trailing_take_profit', floor: peak - takeProfitDistance });
+    }
+
+    for (const step of this._getProfitLockSteps()) {
+      if (peak >= step.profit) candidates.push({ source: 'step_lock', floor: step.lock, milestone: step.profit });
+    }
+
+    let best = null;
+    for (const candidate of candidates) {
+      if (!best || candidate.floor > best.floor) best = candidate;
+    }
+
+    if (best && (s.profitFloor === null || roundToTwo(best.floor) > s.profitFloor)) {
+      const previousFloor = s.profitFloor;
+      s.profitFloor = roundToTwo(best.floor);
+      s.profitFloorSource = best.source;
+      this.emit('profit_floor_updated', {
+        floor: s.profitFloor,
+        previousFloor,
+        source: best.source,
+        milestone: best.milestone ?? null,
+        peakProfit: peak,
+        sessionProfit: s.sessionProfit,
+      });
+    }
+
+    if (s.profitFloor !== null && s.sessionProfit <= s.profitFloor) {
+      this.emit('trailing_stop_triggered', {
+        floor: s.profitFloor,
+        source: s.profitFloorSource,
+        peakProfit: peak,
+        sessionProfit: s.sessionProfit,
+      });
+      this.stop('profit_lock');
+      return true;
+    }
+
+    return false;
+  }
+
+  /** @private */
+  _hasTrailingTakeProfit() {
+    return this._resolveThresholdValue(this.amounts.trailing_take_profit) > 0;
+  }
+
+  /**
+   * Trailing distance below peak profit. `percentage` is a share of peak profit
+   * (25 → give back at most 25% of the peak); other types resolve as usual.
+   * @private
+   */
+  _resolveTrailingDistance(value, peakProfit) {
+    if (value && typeof value === 'object' && value.type === 'percentage') {
+      return Math.max(peakProfit, 0) * ((value.value || 0) / 100);
     }
+    return this._resolveThresholdValue(value);
+  }
+
+  /**
+   * Normalised `profit_lock_steps`. A lock given as a percentage (`{ type: 'percentage' }`
+   * or `'50%'`) is a share of the step's profit milestone.
+   * @private
+   * @returns {Array<{ profit: number, lock: number }>}
+   */
+  _getProfitLockSteps() {
+    const steps = this.riskManagement.profit_lock_steps;
+    if (!Array.isArray(steps)) return [];
+
+    return steps
+      .map((step) => {
+        const profit = this._resolveThresholdValue(step?.profit);
+        const lock = step?.lock;
+        if (typeof lock === 'string' && lock.trim().endsWith('%')) {
+          return { profit, lock: profit * ((parseFloat(lock) || 0) / 100) };
+        }
+        if (lock && typeof lock === 'object' && lock.type === 'percentage') {
+          return { profit, lock: profit * ((lock.value || 0) / 100) };
+        }
+        return { profit, lock: this._resolveThresholdValue(lock) };
+      })
+      .filter((step) => step.profit > 0);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
   // COOLDOWN
   // ═══════════════════════════════════════════════════════════════════════════
 
-  /** @private */
-  _enterCooldown() {
-    const cooldownConfig = this.generalSettings.cooldown_period;
-    if (!cooldownConfig) {
-      this.stop();
+  /**
+   * Pause trading for the configured cooldown. Without auto_restart the bot stops when it
+   * ends, with the reason of the limit that caused it (so restart_on can match it).
+   * @private
+   * @param {string} [stopReason='risk_limit'] - StopReason of the limit that was hit
+   */
+  _enterCooldown(stopReason = 'risk_limit') {
+    const durationMs = this._getCooldownDurationMs();
+    if (durationMs === null) {
+      this.stop(stopReason);
       return;
     }
 
-    let durationMs;
-    if (typeof cooldownConfig === 'string') {
-      durationMs = parseInt(cooldownConfig, 10) * 1000;
-    } else if (typeof cooldownConfig === 'object' && cooldownConfig !== null) {
-      durationMs = parseDurationToMs(cooldownConfig.duration, cooldownConfig.unit);
-    } else {
-      durationMs = 5000;
-    }
+    this._startCooldown({ type: 'general', stopReason }, durationMs, { durationMs, type: 'general' });
+    this.checkpoint();
+  }
 
+  /**
+   * Pause trading for `durationMs`. The cooldown is kept in the session (so checkpoints
+   * carry it) until its timer ends it.
+   * @private
+   * @param {{ type: string, stopReason?: string, stepIndex?: number }} cooldown
+   * @param {number} durationMs
+   * @param {Object} startedPayload - cooldown_started payload
+   */
+  _startCooldown(cooldown, durationMs, startedPayload) {
     this._session.isInCooldown = true;
-    this._session.cooldownEndTime = Date.now() + durationMs;
+    this._session.cooldownEndTime = this._now() + durationMs;
+    this._session.cooldown = cooldown;
+    this.emit('cooldown_started', startedPayload);
+    this._armCooldownTimer();
+  }
 
-    this.emit('cooldown_started', { durationMs, type: 'general' });
+  /**
+   * (Re)arm the timer that ends the session's cooldown at its cooldownEndTime — at once
+   * when that has passed (a cooldown restored from a checkpoint).
+   * @private
+   */
+  _armCooldownTimer() {
+    this._timers.setTimeout('cooldown', () => {
+      const cooldown = this._finishCooldown();
+      if (cooldown) this._continueAfterCooldown(cooldown);
+    }, Math.max(0, (this._session.cooldownEndTime || 0) - this._now()));
+  }
 
-    this._cooldownTimer = setTimeout(() => {
-      this._session.isInCooldown = false;
-      this._session.cooldownEndTime = null;
-      this.emit('cooldown_ended', { type: 'general' });
+  /**
+   * End the session's cooldown: clear it, start a recovery cooldown's attempts over and
+   * emit cooldown_ended.
+   * @private
+   * @returns {Object|null} The cooldown that ended, or null outside a cooldown
+   */
+  _finishCooldown() {
+    if (!this._session.isInCooldown) return null;
+
+    // Checkpoints written before cooldowns were recorded only know that one was running
+    const cooldown = this._session.cooldown || { type: 'restored' };
+    this._session.isInCooldown = false;
+    this._session.cooldownEndTime = null;
+    this._session.cooldown = null;
+    if (cooldown.type === 'recovery') this._session.recoveryAttempts = 0;
+
+    this.emit('cooldown_ended', {
+      type: cooldown.type,
+      ...(cooldown.stepIndex !== undefined && { stepIndex: cooldown.stepIndex }),
+    });
+    return cooldown;
+  }
 
-      if (this.generalSettings.auto_restart && this._status === BOT_STATUSES.START) {
-        this._session.consecutiveLosses = 0;
-        this._session.consecutiveWins = 0;
-        this._session.isInRecovery = false;
-        this._session.recoveryStepIndex = 0;
-        this._log('Auto-restarting after cooldown');
+  /**
+   * Go on after a cooldown ended on its timer. A general cooldown restarts the progression
+   * with auto_restart and otherwise stops the bot with its stop reason; during any other
+   * the trade loop keeps waiting, and trades now instead of at its next retry.
+   * @private
+   * @param {Object} cooldown - From _finishCooldown()
+   */
+  _continueAfterCooldown(cooldown) {
+    if (cooldown.type === 'general') {
+      if (this._restartsAfterCooldown()) {
+        this._resetAfterCooldown();
         this._runTradeLoop();
       } else {
-        this.stop();
+        this.stop(cooldown.stopReason);
       }
-    }, durationMs);
+      return;
+    }
+
+    if (this._status === BOT_STATUSES.START && this._timers.has('tradeLoop')) {
+      this._clearTradeLoop();
+      this._runTradeLoop();
+    }
   }
 
-  // ═══════════════════════════════════════════════════════════════════════════
-  // SCHEDULE MANAGEMENT
-  // ═══════════════════════════════════════════════════════════════════════════
+  /**
+   * Resolve `general_settings_section.cooldown_period` to milliseconds.
+   * @private
+   * @returns {number|null} null when no cooldown is configured
+   */
+  _getCooldownDurationMs() {
+    const cooldownConfig = this.generalSettings.cooldown_period;
+    if (!cooldownConfig) return null;
+
+    if (typeof cooldownConfig === 'string') {
+      return parseInt(cooldownConfig, 10) * 1000;
+    }
+    if (typeof cooldownConfig === 'object') {
+      return parseDurationToMs(cooldownConfig.duration, cooldownConfig.unit);
+    }
+    return 5000;
+  }
 
   /**
-   * Check if the current time is within the bot's configured schedule.
-   * @returns {boolean}
+   * Whether the session goes on after a general cooldown (rather than stopping).
+   * @private
    */
-  isWithinSchedule() {
-    const schedule = this.botSchedule;
-    if (!schedule || !schedule.isEnabled) return true;
+  _restartsAfterCooldown() {
+    return Boolean(this.generalSettings.auto_restart) && this._status === BOT_STATUSES.START;
+  }
 
-    const now = new Date();
+  /** @private */
+  _resetAfterCooldown() {
+    this._session.consecutiveLosses = 0;
+    this._session.consecutiveWins = 0;
+    this._session.isInRecovery = false;
+    this._session.recoveryStepIndex = 0;
+    this._resetStrategyState();
+    this._log('Auto-restarting after cooldown');
+  }
 
-    // Exclusion dates
-    if (schedule.exclusions && schedule.exclusions.length > 0) {
-      for (const exclusion of schedule.exclusions) {
-        const exclusionDate = new Date(exclusion.date);
-        if (isSameDay(now, exclusionDate)) {
-          this._log(`Schedule exclusion: ${exclusion.reason}`);
-          return false;
-        }
-      }
-    }
+  // ═══════════════════════════════════════════════════════════════════════════
+  // AUTO-RESTART — Restart after a stop (auto_restart_section, see RestartPolicy)
+  // ═══════════════════════════════════════════════════════════════════════════
 
-    // Date range
-    if (schedule.startDate && now < new Date(schedule.startDate)) return false;
-    if (schedule.endDate && now > new Date(schedule.endDate)) return false;
+  /**
+   * The restart planned after the last stop, for a countdown in the UI.
+   * @returns {{ reason: string, restartAt: number, restartsToday: number, carryOver: boolean }|null}
+   */
+  getPendingRestart() {
+    return this._restarts.describe();
+  }
 
-    // Time of day
-    if (schedule.startTime && schedule.endTime) {
-      const startTime = new Date(schedule.startTime);
-      const endTime = new Date(schedule.endTime);
-      const nowMinutes = now.getHours() * 60 + now.getMinutes();
-      const startMinutes = startTime.getHours() * 60 + startTime.getMinutes();
-      const endMinutes = endTime.getHours() * 60 + endTime.getMinutes();
+  /**
+   * Drop the planned restart. Stopping the bot does this too.
+   */
+  cancelRestart() {
+    const pending = this._restarts.cancel();
+    if (pending) this.emit('restart_cancelled', { reason: pending.reason });
+  }
 
-      if (endMinutes > startMinutes) {
-        if (nowMinutes < startMinutes || nowMinutes > endMinutes) return false;
-      } else {
-        if (nowMinutes < startMinutes && nowMinutes > endMinutes) return false;
-      }
+  /**
+   * Plan a restart after a stop when the policy allows it.
+   * @private
+   * @param {string} reason - StopReason
+   */
+  _scheduleRestart(reason) {
+    if (this._isSimulation) return;
+
+    // Armed before the events below, so a listener can cancelRestart() it
+    const decision = this._restarts.plan(reason, {
+      enabled: this.generalSettings.auto_restart,
+      settings: this.autoRestart,
+      dayStart: getLimitPeriodStarts(this._now(), this.limitPeriodOptions).day,
+      carry: () => ({ session: { ...this._session }, strategyState: this._serializeStrategyState() }),
+    });
+
+    if (decision.blockedBy === 'daily_limit') {
+      this._log(`Not restarting after ${reason} — ${decision.maxRestartsPerDay} restarts made today`);
+      this.emit('restart_limit_reached', { reason, maxRestartsPerDay: decision.maxRestartsPerDay });
+      this._notify({
+        type: 'alert',
+        title: 'Auto-restart limit reached',
+        message: `${this.botName} stays stopped after ${reason}: ${decision.maxRestartsPerDay} restarts made today`,
+        priority: 'medium',
+        payload: { reason, maxRestartsPerDay: decision.maxRestartsPerDay },
+      });
     }
+    if (!decision.restart) return;
+
+    this._log(`Restarting in ${Math.round(decision.delayMs / 1000)}s after ${reason} (${decision.restartsToday}/${decision.maxRestartsPerDay} today)`);
+    this.emit('restart_scheduled', {
+      reason,
+      delayMs: decision.delayMs,
+      restartAt: this._restarts.pending.restartAt,
+      restartsToday: decision.restartsToday,
+      maxRestartsPerDay: decision.maxRestartsPerDay,
+      carryOver: decision.carryOver,
+    });
+  }
 
-    // Day of week (weekly)
-    if (schedule.type === 'weekly' && schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
-      if (!schedule.daysOfWeek.includes(now.getDay())) return false;
+  /**
+   * Start the bot for a planned restart. Outside the schedule window start() waits for the
+   * schedule monitor; on a closed market the restart waits for the market to open.
+   * @private
+   */
+  async _runRestart() {
+    const outcome = await this._restarts.run(() => this.start(), () => this._status === BOT_STATUSES.STOP);
+    if (outcome.waitUntil) {
+      this._log(`Restart waits for the market to open (${new Date(outcome.waitUntil).toISOString()})`);
+    } else if (outcome.pending && !outcome.started) {
+      this.emit('restart_failed', { reason: outcome.pending.reason, error: outcome.error });
     }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // SCHEDULE MANAGEMENT
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Check if the current time is within the bot's configured schedule, evaluated in the
+   * schedule's own timezone (see ScheduleEvaluator).
+   * @returns {boolean}
+   */
+  isWithinSchedule() {
+    const schedule = this.botSchedule;
+    if (!schedule || !schedule.isEnabled) return true;
 
-    // Day of month (monthly)
-    if (schedule.type === 'monthly' && schedule.dayOfMonth) {
-      if (now.getDate() !== schedule.dayOfMonth) return false;
+    const evaluation = evaluateSchedule(schedule, this._now());
+    if (evaluation.exclusion) {
+      this._log(evaluation.reason);
     }
+    return evaluation.active;
+  }
 
-    return true;
+  /**
+   * Upcoming schedule windows, e.g. for "next start" hints in the UI.
+   * @param {number} [count=5]
+   * @returns {Array<{ start: number, end: number|null }>} Epoch ms; empty when no schedule is enabled
+   */
+  getNextScheduleActivations(count = 5) {
+    const schedule = this.botSchedule;
+    if (!schedule || !schedule.isEnabled) return [];
+    return getNextActivations(schedule, this._now(), count);
   }
 
   /** @private */
   _startScheduleMonitor() {
-    if (this._scheduleCheckTimer) clearInterval(this._scheduleCheckTimer);
-
-    this._scheduleCheckTimer = setInterval(() => {
+    this._timers.setInterval('scheduleCheck', () => {
       const withinSchedule = this.isWithinSchedule();
       this.emit('schedule_check', { withinSchedule });
 
@@ -1633,55 +2929,217 @@ class TradingBotManager extends EventEmitter {
     }, 60000);
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MARKET HOURS — Deriv trading_times calendar (see TradingCalendar)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Whether the contract symbol's market is open now, and its next open / close.
+   * Always open when the calendar is off or does not know the symbol.
+   * @returns {Object} MarketStatus — { symbol, isOpen, known, nextOpen, nextClose, reason }
+   */
+  getMarketStatus() {
+    const symbol = this._getRotation()?.symbol || this.contract.market?.symbol || this.contract.symbol || '';
+    if (!this._tradingCalendar) {
+      return { symbol, isOpen: true, known: false, nextOpen: null, nextClose: null, reason: null };
+    }
+    return this._tradingCalendar.getStatus(symbol, this._now());
+  }
+
+  /** @private */
+  _describeMarketClosed(market) {
+    const reopens = market.nextOpen ? ` until ${new Date(market.nextOpen).toISOString()}` : '';
+    return `Market ${market.symbol} is closed${reopens} (${market.reason})`;
+  }
+
+  /**
+   * Reload the calendar from `trading_times` when its data is stale. On failure the
+   * cached or bundled trading times stay in use.
+   * @private
+   */
+  async _refreshTradingCalendar() {
+    const calendar = this._tradingCalendar;
+    if (!calendar || !calendar.isStale()) return;
+
+    try {
+      const connection = await this._executor.getConnection(this._config.botAccount?.token || '');
+      await calendar.refresh(connection);
+    } catch (err) {
+      const message = err.message || 'Unknown trading calendar error';
+      this._log(`Trading calendar error: ${message} (using ${calendar.source} trading times)`);
+      this.emit('calendar_error', { error: message, source: calendar.source });
+    }
+  }
+
+  /**
+   * Check the market at its next open / close, or every minute when none is near.
+   * @private
+   */
+  _startMarketHoursMonitor() {
+    this._timers.clear('marketHours');
+    if (!this._tradingCalendar) return;
+
+    const market = this.getMarketStatus();
+    const boundary = market.isOpen ? market.nextClose : market.nextOpen;
+    const delay = boundary === null
+      ? MARKET_HOURS_CHECK_MS
+      : Math.min(Math.max(0, boundary - this._now()), MARKET_HOURS_CHECK_MS);
+
+    this._timers.setTimeout('marketHours', () => {
+      this._checkMarketHours();
+      this._startMarketHoursMonitor();
+    }, delay);
+  }
+
+  /**
+   * Pause a running bot when its market closes; resume it when a market that paused it reopens.
+   * @private
+   */
+  _checkMarketHours() {
+    this._refreshTradingCalendar();
+    const market = this.getMarketStatus();
+
+    if (!market.isOpen && this._status === BOT_STATUSES.START) {
+      this._log(`${this._describeMarketClosed(market)} — pausing bot`);
+      this.pause();
+      this._marketPaused = true;
+      this.emit('market_hours_paused', { symbol: market.symbol, reason: market.reason, nextOpen: market.nextOpen });
+    } else if (market.isOpen && this._marketPaused && this._status === BOT_STATUSES.PAUSE) {
+      this._log(`Market ${market.symbol} is open — resuming bot`);
+      this.emit('market_hours_resumed', { symbol: market.symbol, nextClose: market.nextClose });
+      this.resume();
+    }
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // MAX RUNTIME TIMER
   // ═══════════════════════════════════════════════════════════════════════════
 
   /** @private */
   _startMaxRuntimeTimer() {
-    const maxRuntime = this.generalSettings.maximum_running_time;
-    if (!maxRuntime) return;
+    const durationMs = this._getRemainingRuntimeMs();
+    if (durationMs === null) return;
 
-    const durationMs = maxRuntime * 1000;
-    this._runtimeTimer = setTimeout(() => {
-      this.emit('max_runtime_reached', { maxRuntime });
-      this.stop();
+    this._timers.setTimeout('runtime', () => {
+      this.emit('max_runtime_reached', { maxRuntime: this.generalSettings.maximum_running_time });
+      this.stop('max_runtime');
     }, durationMs);
   }
 
+  /**
+   * Time left of maximum_running_time. Counted from session start, so a resumed session
+   * only gets the remaining time.
+   * @private
+   * @returns {number|null} null without a maximum running time
+   */
+  _getRemainingRuntimeMs() {
+    const maxRuntime = this.generalSettings.maximum_running_time;
+    if (!maxRuntime) return null;
+
+    const elapsed = this._session.sessionStartTime ? this._now() - this._session.sessionStartTime : 0;
+    return Math.max(0, maxRuntime * 1000 - elapsed);
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // PERIODIC RESETS (hourly, daily, weekly counters)
   // ═══════════════════════════════════════════════════════════════════════════
 
-  /** @private */
-  _startPeriodicResets() {
-    if (this._periodicResetTimer) clearInterval(this._periodicResetTimer);
+  /**
+   * Current hourly / daily / weekly counters, aligned to calendar periods in
+   * `limit_reset_timezone`.
+   * @returns {{ hourlyProfit: number, hourlyLoss: number, dailyProfit: number, dailyLoss: number,
+   *   weeklyProfit: number, weeklyLoss: number, periodStarts: { hour: number, day: number, week: number } }}
+   */
+  getLimitCounters() {
+    const s = this._session;
+    return {
+      hourlyProfit: s.hourlyProfit,
+      hourlyLoss: s.hourlyLoss,
+      dailyProfit: s.dailyProfit,
+      dailyLoss: s.dailyLoss,
+      weeklyProfit: s.weeklyProfit,
+      weeklyLoss: s.weeklyLoss,
+      periodStarts: { hour: s.lastHourlyReset, day: s.lastDailyReset, week: s.lastWeeklyReset },
+    };
+  }
 
-    this._session.lastHourlyReset = Date.now();
-    this._session.lastDailyReset = Date.now();
-    this._session.lastWeeklyReset = Date.now();
+  /**
+   * Seed the counters from this period's trade records, so a restart does not
+   * wipe today's loss. Failures leave the counters at zero.
+   * @private
+   */
+  async _rebuildLimitCounters() {
+    const uuid = this.botUUID || this.botId;
+    if (!uuid || typeof this._executor.fetchTradesByBot !== 'function') return;
 
-    this._periodicResetTimer = setInterval(() => {
-      const now = Date.now();
+    const now = this._now();
+    const options = this.limitPeriodOptions;
+    const starts = getLimitPeriodStarts(now, options);
 
-      if (this._session.lastHourlyReset && now - this._session.lastHourlyReset >= 3600000) {
-        this._session.hourlyProfit = 0;
-        this._session.hourlyLoss = 0;
-        this._session.lastHourlyReset = now;
-      }
+    try {
+      const trades = await this._executor.fetchTradesByBot(uuid, { startDate: new Date(starts.week).toISOString() });
+      const counters = aggregateLimitCounters(trades, now, options);
+      Object.assign(this._session, {
+        hourlyProfit: counters.hourlyProfit,
+        hourlyLoss: counters.hourlyLoss,
+        dailyProfit: counters.dailyProfit,
+        dailyLoss: counters.dailyLoss,
+        weeklyProfit: counters.weeklyProfit,
+        weeklyLoss: counters.weeklyLoss,
+        lastHourlyReset: starts.hour,
+        lastDailyReset: starts.day,
+        lastWeeklyReset: starts.week,
+      });
+      this.emit('limit_counters_rebuilt', { ...this.getLimitCounters(), tradeCount: counters.tradeCount });
+    } catch (err) {
+      this.emit('persist_error', { error: err.message, context: 'limit_counters' });
+    }
+  }
 
-      if (this._session.lastDailyReset && now - this._session.lastDailyReset >= 86400000) {
-        this._session.dailyProfit = 0;
-        this._session.dailyLoss = 0;
-        this._session.lastDailyReset = now;
-      }
+  /** @private */
+  _startPeriodicResets() {
+    this._initPeriodicResets();
+    this._timers.setInterval('periodicReset', () => this._applyPeriodicResets(), 60000);
+  }
 
-      if (this._session.lastWeeklyReset && now - this._session.lastWeeklyReset >= 604800000) {
-        this._session.weeklyProfit = 0;
-        this._session.weeklyLoss = 0;
-        this._session.lastWeeklyReset = now;
-      }
-    }, 60000);
+  /** @private */
+  _initPeriodicResets() {
+    // Keep the counters of a restored session if its periods are still current
+    const starts = getLimitPeriodStarts(this._now(), this.limitPeriodOptions);
+    this._session.lastHourlyReset = this._session.lastHourlyReset || starts.hour;
+    this._session.lastDailyReset = this._session.lastDailyReset || starts.day;
+    this._session.lastWeeklyReset = this._session.lastWeeklyReset || starts.week;
+    this._nextLimitPeriodCheck = 0;
+    this._applyPeriodicResets();
+  }
+
+  /**
+   * Zero the hourly / daily / weekly counters once a new calendar hour, day
+   * (midnight in `limit_reset_timezone`) or week (`week_start_day`) has begun.
+   * Driven by the live interval timer, or per cycle by the Backtester.
+   * @private
+   */
+  _applyPeriodicResets() {
+    const now = this._now();
+    // Days and weeks start on a local hour, so nothing can roll over before the next one
+    if (now < this._nextLimitPeriodCheck) return;
+
+    const starts = getLimitPeriodStarts(now, this.limitPeriodOptions);
+    this._resetLimitPeriod('hourly', starts.hour);
+    this._resetLimitPeriod('daily', starts.day);
+    this._resetLimitPeriod('weekly', starts.week);
+    this._nextLimitPeriodCheck = starts.hour + 3600000;
+  }
+
+  /** @private */
+  _resetLimitPeriod(period, periodStart) {
+    const key = `last${period.charAt(0).toUpperCase()}${period.slice(1)}Reset`;
+    if (this._session[key] && this._session[key] >= periodStart) return;
+
+    this._session[`${period}Profit`] = 0;
+    this._session[`${period}Loss`] = 0;
+    this._session[key] = periodStart;
+    this.emit('limit_counters_reset', { period, periodStart: new Date(periodStart).toISOString() });
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1737,6 +3195,19 @@ class TradingBotManager extends EventEmitter {
       }
     }
 
+    // Trades sold by an early-exit rule
+    if (result.earlyExit) {
+      s.earlyExitStatistics = recordEarlyExit(s.earlyExitStatistics, result);
+    }
+
+    // Strategy-specific counters (sequences, recoveries, ...)
+    if (this._stakeStrategy?.getStatistics) {
+      s.strategyStatistics = {
+        strategy: this._stakeStrategy.id,
+        ...this._stakeStrategy.getStatistics(this._strategyContext),
+      };
+    }
+
     s.lastUpdated = new Date().toISOString();
   }
 
@@ -1749,29 +3220,47 @@ class TradingBotManager extends EventEmitter {
   // VALIDATION
   // ═══════════════════════════════════════════════════════════════════════════
 
-  /** @private */
-  _validateBeforeStart() {
+  /**
+   * @private
+   * @param {Object} [options]
+   * @param {boolean} [options.requireAccount=true] - Require a Deriv account token (false for backtests)
+   */
+  _validateBeforeStart({ requireAccount = true } = {}) {
     const errors = [];
 
     if (!this.strategyId) errors.push('Strategy ID is required');
     if (!this.contract || Object.keys(this.contract).length === 0) errors.push('Contract configuration is required');
-    if (this.contract && !this.contract.market && !this.contract.symbol) errors.push('Market selection is required');
+    if (this.contract && !this.contract.market && !this.contract.symbol && !isMarketRotationEnabled(this.contract)) {
+      errors.push('Market selection is required');
+    }
     if (this.contract && !this.contract.tradeType && !this.contract.contractType) errors.push('Trade type is required');
 
     const baseStake = this._resolveThresholdValue(this.amounts.base_stake);
     if (!baseStake || baseStake <= 0) errors.push('Base stake must be greater than 0');
 
-    if (!this._config.botAccount?.token) errors.push('Deriv account token is required');
+    if (requireAccount && !this._config.botAccount?.token) errors.push('Deriv account token is required');
+
+    if (this.botSchedule?.isEnabled) errors.push(...validateSchedule(this.botSchedule));
+
+    if (this._isMultiplierBot() && baseStake > 0) {
+      errors.push(...validateMultiplierParams(this._buildContractParams(baseStake, {}, { preview: true })));
+    }
+
+    const recoveryType = this.generalSettings.recovery_type;
+    if (recoveryType && recoveryType !== 'off') {
+      errors.push(...validateRecoverySteps(this._config.recovery_steps?.risk_steps));
+    }
 
     return { isValid: errors.length === 0, errors };
   }
 
   /**
    * Public validation — call before start to check readiness.
+   * @param {Object} [options] - See _validateBeforeStart
    * @returns {{ isValid: boolean, errors: string[] }}
    */
-  validate() {
-    return this._validateBeforeStart();
+  validate(options = {}) {
+    return this._validateBeforeStart(options);
   }
 
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1797,6 +3286,340 @@ class TradingBotManager extends EventEmitter {
     return this.toConfig();
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // OPEN POSITIONS (MULTIPLIERS)
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Multiplier positions this bot bought that are still open.
+   * @returns {Object[]} { contractId, params, purchasedAt }
+   */
+  getOpenPositions() {
+    return (this._executor.inFlightContracts || []).filter((c) => isMultiplierContract(c.params?.contract_type));
+  }
+
+  /**
+   * Sell every open multiplier position at market. stop() and emergencyStop() call this,
+   * because a multiplier without limit orders would otherwise stay open indefinitely.
+   * @param {string} [reason='sold'] - Recorded as the trade's closedBy
+   * @returns {Promise<number>} Positions sold
+   */
+  async closeOpenPositions(reason = 'sold') {
+    const token = this._config.botAccount?.token || '';
+    let closed = 0;
+    for (const position of this.getOpenPositions()) {
+      try {
+        await this._executor.sellContract(position.contractId, token, { reason });
+        closed++;
+      } catch (err) {
+        this.emit('position_error', { contractId: position.contractId, error: err.message, context: 'sell' });
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Cancel open positions that are inside their deal-cancellation window.
+   * @returns {Promise<number>} Positions cancelled
+   */
+  async cancelOpenPositions() {
+    const token = this._config.botAccount?.token || '';
+    let cancelled = 0;
+    for (const position of this.getOpenPositions().filter((p) => p.params.cancellation)) {
+      try {
+        await this._executor.cancelContract(position.contractId, token);
+        cancelled++;
+      } catch (err) {
+        this.emit('position_error', { contractId: position.contractId, error: err.message, context: 'cancel' });
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Move the take profit / stop loss of every open position (currency amounts; null
+   * removes a limit, undefined keeps it). Later trades still use the contract config.
+   * @param {Object} limits - { takeProfit?: number|null, stopLoss?: number|null }
+   * @returns {Promise<number>} Positions updated
+   */
+  async updateLimitOrders(limits) {
+    const token = this._config.botAccount?.token || '';
+    let updated = 0;
+    for (const position of this.getOpenPositions()) {
+      try {
+        await this._executor.updateLimitOrder(position.contractId, token, limits);
+        this.emit('limit_order_updated', { contractId: position.contractId, limits });
+        updated++;
+      } catch (err) {
+        this.emit('position_error', { contractId: position.contractId, error: err.message, context: 'update' });
+      }
+    }
+    return updated;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // DECISION JOURNAL
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Send journal entries not yet accepted by the bot API (executor.appendJournalEntries).
+   * Failures are reported with `journal_error` and retried on the next sync.
+   * @returns {Promise<number>} Entries synced
+   */
+  async syncJournal() {
+    const uuid = this.botUUID || this.botId;
+    if (!uuid) return 0;
+
+    try {
+      return await this._journal.sync((entries) => this._executor.appendJournalEntries(uuid, entries));
+    } catch (err) {
+      this.emit('journal_error', { error: err.message, context: 'sync' });
+      return 0;
+    }
+  }
+
+  /**
+   * Journal entries for this bot — from the journal store (or memory), or from the bot API.
+   * Feed them to replayJournal() to rebuild the bot's state.
+   * @param {Object} [options]
+   * @param {boolean} [options.fromAPI=false]
+   * @param {string} [options.runId] - Only this run
+   * @returns {Promise<Object[]>} JournalEntry[]
+   */
+  async loadJournal({ fromAPI = false, runId = undefined } = {}) {
+    try {
+      const entries = fromAPI
+        ? await this._executor.fetchJournal(this.botUUID || this.botId, runId ? { runId } : {})
+        : await this._journal.load();
+      return runId ? entries.filter((e) => e.runId === runId) : entries;
+    } catch (err) {
+      this.emit('journal_error', { error: err.message, context: 'load' });
+      return [];
+    }
+  }
+
+  /**
+   * Record one trade-loop iteration.
+   * @private
+   * @param {Object} trace - Filled by _runTradeCycle
+   * @param {Object|null} cycle - Its return value
+   * @param {Error|null} error - What it threw
+   */
+  _journalCycle(trace, cycle, error) {
+    this._journal.recordCycle(trace, cycle, error, this._journalState(), this._now());
+    if (this._journal.syncDue) this.syncJournal();
+  }
+
+  /**
+   * Record a contract that settled after its cycle was journaled (concurrent contracts).
+   * @private
+   * @param {Object|null} result - TradeResult, null when the purchase failed
+   * @param {Error|null} error
+   */
+  _journalSettlement(result, error) {
+    this._journal.recordSettlement(result, error, this._journalState(), this._now());
+    if (this._journal.syncDue) this.syncJournal();
+  }
+
+  /**
+   * State tracked by the journal — the same fields as a checkpoint.
+   * @private
+   */
+  _journalState() {
+    return {
+      status: this._status,
+      session: this._session,
+      realtimePerformance: this._realtimePerformance,
+      statistics: this._statistics,
+      strategyState: this._serializeStrategyState(),
+    };
+  }
+
+  /** @private */
+  _journalRunMeta() {
+    return {
+      botId: this.botId,
+      botUUID: this.botUUID,
+      strategyId: this.strategyId,
+      contract: this.contract,
+      amounts: this.amounts,
+      recovery_steps: this._config.recovery_steps,
+      advanced_settings: this.advancedSettings,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // CHECKPOINT / RESUME
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Snapshot of everything needed to continue the session after a crash or reload:
+   * session state (stake progression, strategy state, recovery step, cooldown,
+   * profit-lock floor), performance, statistics and the contracts in flight.
+   * @returns {Object}
+   */
+  createCheckpoint() {
+    return {
+      version: CHECKPOINT_VERSION,
+      botId: this.botId,
+      botUUID: this.botUUID,
+      strategyId: this.strategyId,
+      status: this._status,
+      isActive: this._isActive,
+      savedAt: new Date(this._now()).toISOString(),
+      session: { ...this._session },
+      strategyState: this._serializeStrategyState(),
+      realtimePerformance: { ...this._realtimePerformance },
+      statistics: { ...this._statistics },
+      tradesSinceLastPersist: this._tradesSinceLastPersist,
+      ...this._checkpoints.snapshot(),
+    };
+  }
+
+  /**
+   * Write a checkpoint to the configured store. Writes are serialised, so a slow save
+   * never overwrites a newer snapshot.
+   * @param {Object} [snapshot] - Defaults to createCheckpoint()
+   * @returns {Promise<Object|null>} The checkpoint written, or null without a store
+   */
+  checkpoint(snapshot = this.createCheckpoint()) {
+    return this._checkpoints.save(snapshot);
+  }
+
+  /**
+   * Read the last checkpoint for this bot.
+   * @returns {Promise<Object|null>}
+   */
+  loadCheckpoint() {
+    return this._checkpoints.load();
+  }
+
+  /**
+   * Remove this bot's checkpoint (done automatically on stop).
+   */
+  clearCheckpoint() {
+    return this._checkpoints.remove();
+  }
+
+  /**
+   * Apply a checkpoint's runtime state to this instance (does not start trading).
+   * @param {Object} checkpoint - From createCheckpoint()
+   */
+  restoreCheckpoint(checkpoint) {
+    if (!checkpoint || checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error('Unsupported checkpoint version');
+    }
+
+    this._session = { ...createFreshSession(), ...checkpoint.session };
+    this._initStrategyState(checkpoint.strategyState || null);
+    this._realtimePerformance = { ...getDefaultPerformance(), ...checkpoint.realtimePerformance };
+    this._statistics = { ...getDefaultStatistics(), ...checkpoint.statistics };
+    this._tradesSinceLastPersist = checkpoint.tradesSinceLastPersist || 0;
+    this._checkpoints.restore(checkpoint);
+  }
+
+  /**
+   * Continue an interrupted session from the last checkpoint. The contracts that were in
+   * flight when the checkpoint was written are settled first (via the executor), so the
+   * stake progression picks up exactly where it left off. A contract that cannot be
+   * settled fails the resume and stays in the checkpoint, so the next resume retries it.
+   * A checkpointed cooldown runs for the time it had left and ends as it would have.
+   * Falls back to start() when there is no checkpoint.
+   *
+   * @returns {Promise<{ success: boolean, error?: string, message?: string, resumed?: boolean }>}
+   */
+  async resumeFromCheckpoint() {
+    if (this._status === BOT_STATUSES.START) {
+      return { success: false, error: 'Bot is already running' };
+    }
+
+    const checkpoint = await this.loadCheckpoint();
+    if (!checkpoint) return this.start();
+
+    const validation = this._validateBeforeStart();
+    if (!validation.isValid) {
+      this._setStatus(BOT_STATUSES.ERROR);
+      return { success: false, error: validation.errors.join('; ') };
+    }
+
+    this.restoreCheckpoint(checkpoint);
+    this._journal.startRun(this._journalState(), { ...this._journalRunMeta(), resumedFrom: checkpoint.savedAt }, this._now());
+    this._executor.startSession();
+
+    // Active while reconciling, so a reconciled take-profit / stop-loss stops the bot
+    this._isActive = true;
+    let reconciled;
+    try {
+      reconciled = await this._reconcileInFlightContracts();
+    } catch (err) {
+      // Keep the checkpoint resumable: its status and the contracts still in flight
+      if (this._isActive) {
+        await this.checkpoint({ ...this.createCheckpoint(), status: checkpoint.status, isActive: checkpoint.isActive });
+      }
+      this._isActive = false;
+      this._journal.endRun(this._journalState(), err.message, this._now());
+      this._executor.endSession();
+      this._setStatus(BOT_STATUSES.ERROR);
+      return { success: false, error: err.message };
+    }
+    this.emit('session_resumed', {
+      checkpointedAt: checkpoint.savedAt,
+      reconciledContract: reconciled[reconciled.length - 1]?.contractId || null,
+      reconciledContracts: reconciled.map((result) => result.contractId),
+    });
+
+    // A reconciled result may itself have hit take-profit / stop-loss
+    if (!this._isActive) {
+      return { success: true, resumed: true, message: 'Session ended while reconciling open contracts' };
+    }
+
+    if (checkpoint.status === BOT_STATUSES.PAUSE) {
+      this._setStatus(BOT_STATUSES.PAUSE);
+      // A cooldown keeps running while paused, as it does live
+      if (this._session.isInCooldown) this._armCooldownTimer();
+      this.checkpoint();
+      return { success: true, resumed: true, message: 'Restored in paused state' };
+    }
+
+    this._setStatus(BOT_STATUSES.START);
+    this._log(`Bot resumed from checkpoint (${checkpoint.savedAt}) | stake: ${this._session.currentStake}`);
+    this._syncStatusToAPI(BOT_STATUSES.RESUME);
+
+    this._startPeriodicResets();
+    this._startScheduleMonitor();
+    this._startMarketHoursMonitor();
+    this._startMaxRuntimeTimer();
+
+    // The loop waits out any other cooldown; a general one restarts it (or stops the bot)
+    if (this._session.isInCooldown) this._armCooldownTimer();
+    if (this._session.cooldown?.type !== 'general') this._runTradeLoop();
+
+    this.checkpoint();
+    return { success: true, resumed: true };
+  }
+
+  /**
+   * Settle the checkpointed in-flight contracts (see CheckpointTracker.reconcile).
+   * @private
+   * @returns {Promise<Object[]>} The reconciled TradeResults
+   * @throws {Error} When a contract cannot be settled
+   */
+  _reconcileInFlightContracts() {
+    const token = this._config.botAccount?.token || '';
+    return this._checkpoints.reconcile(
+      (contract) => this._executor.reconcileContract(contract.contractId, token, contract.params),
+      (result, contract) => {
+        this._log(`Reconciled contract ${contract.contractId}: ${result.isWin ? 'won' : 'lost'} ${result.profit}`);
+        this._processTradeResult(result);
+      },
+    );
+  }
+
+  /** @private */
+  _checkpointKey() {
+    return this.botUUID || this.botId;
+  }
+
   // ═══════════════════════════════════════════════════════════════════════════
   // API PERSISTENCE HELPERS
   // ═══════════════════════════════════════════════════════════════════════════
@@ -1838,6 +3661,12 @@ class TradingBotManager extends EventEmitter {
     this._status = status;
     this._config.status = status;
     this.emit('status_changed', { from: prev, to: status });
+    if (prev !== status) this._journal.record({ type: 'status', time: this._now() }, this._journalState());
+  }
+
+  /** @private */
+  _now() {
+    return this._clockProvider ? this._clockProvider() : Date.now();
   }
 
   /** @private */
@@ -1882,28 +3711,55 @@ class TradingBotManager extends EventEmitter {
    * @private
    */
   _clampStake(stake) {
+    return this._clampStakeWithLimit(stake).stake;
+  }
+
+  /**
+   * _clampStake, also naming the last limit that changed the stake.
+   * @private
+   * @returns {{ stake: number, limit: string|null }}
+   */
+  _clampStakeWithLimit(stake) {
+    let limit = null;
+    const apply = (value, name) => {
+      if (value !== stake) limit = name;
+      stake = value;
+    };
+
     const minStake = this._session.baseStake * 0.01;
     const maxStake = this._resolveThresholdValue(this.amounts.maximum_stake);
 
-    stake = Math.max(stake, minStake);
-    if (maxStake > 0) stake = Math.min(stake, maxStake);
+    apply(Math.max(stake, minStake), 'minimum');
+    if (maxStake > 0) apply(Math.min(stake, maxStake), 'maximum_stake');
 
-    // Risk per trade limit
+    // Ladder budget — what the running progression may still lose
+    const ladderRoom = this._getLadderRoom();
+    if (ladderRoom !== null) apply(Math.min(stake, ladderRoom), 'max_ladder');
+
+    // Risk per trade limit — on what the trade can lose (a multiplier's stop loss, else the stake)
     const riskPerTrade = this._resolveThresholdValue(this.riskManagement.risk_per_trade);
     if (riskPerTrade > 0 && this._session.currentBalance > 0) {
-      const maxFromRisk = this._session.currentBalance * (riskPerTrade / 100);
-      stake = Math.min(stake, maxFromRisk);
+      const maxRisk = this._session.currentBalance * (riskPerTrade / 100);
+      const maxLoss = this._isMultiplierBot()
+        ? getMaxLoss(this._buildContractParams(stake, {}, { preview: true }))
+        : stake;
+      if (maxLoss > maxRisk) {
+        // A percentage stop loss scales with the stake; otherwise the stake itself is the cap
+        const scales = this.contract.limitOrderUnits === 'percentage';
+        apply(scales ? stake * (maxRisk / maxLoss) : maxRisk, 'risk_per_trade');
+      }
     }
 
     // Locked profit protection: never risk more than unlocked funds
     if (this._session.lockedProfit > 0) {
       const unlockedFunds = this._session.currentBalance - this._session.lockedProfit;
       if (unlockedFunds > 0) {
-        stake = Math.min(stake, unlockedFunds * 0.5); // Max 50% of unlocked funds
+        apply(Math.min(stake, unlockedFunds * 0.5), 'locked_profit'); // Max 50% of unlocked funds
       }
     }
 
-    return roundToTwo(Math.max(stake, 0.01));
+    apply(Math.max(stake, 0.01), 'minimum');
+    return { stake: roundToTwo(stake), limit };
   }
 
   /** @private */
@@ -1915,17 +3771,12 @@ class TradingBotManager extends EventEmitter {
 
   /** @private */
   _clearTradeLoop() {
-    if (this._tradeLoopTimer) { clearTimeout(this._tradeLoopTimer); this._tradeLoopTimer = null; }
+    this._timers.clear('tradeLoop');
   }
 
   /** @private */
   _clearAllTimers() {
-    this._clearTradeLoop();
-    if (this._scheduleCheckTimer) { clearInterval(this._scheduleCheckTimer); this._scheduleCheckTimer = null; }
-    if (this._cooldownTimer) { clearTimeout(this._cooldownTimer); this._cooldownTimer = null; }
-    if (this._runtimeTimer) { clearTimeout(this._runtimeTimer); this._runtimeTimer = null; }
-    if (this._periodicResetTimer) { clearInterval(this._periodicResetTimer); this._periodicResetTimer = null; }
-    if (this._persistTimer) { clearTimeout(this._persistTimer); this._persistTimer = null; }
+    this._timers.clearAll();
   }
 
   /**
@@ -1933,11 +3784,29 @@ class TradingBotManager extends EventEmitter {
    */
   destroy() {
     this._clearAllTimers();
+    this._stopIndicatorFeed();
+    this._stopDigitFeed();
+    this._stopVolatilityFeed();
+    this._indicatorPipeline = null;
+    this._digitAnalysis = null;
     this.removeAllListeners();
+    this._portfolioCoordinator?.unregister(this);
+    this._portfolioCoordinator = null;
+    if (this._onContractPurchased) {
+      this._executor?.off('contract_purchased', this._onContractPurchased);
+      this._onContractPurchased = null;
+    }
     this._tradeHistory = [];
+    this._openTrades.clear();
+    this._awaitingOpenSlot = false;
     this._executor = null;
     this._balanceProvider = null;
     this._volatilityProvider = null;
+    this._clockProvider = null;
+    this._notifier = null;
+    this._tradingCalendar = null;
+    this._checkpoints.setStore(null);
+    this._stakeStrategy = null;
   }
 }
 
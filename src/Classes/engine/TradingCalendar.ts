@@ -0,0 +1,488 @@
+/**
+ * @file TradingCalendar.ts
+ * @description Market trading hours from Deriv `trading_times`: whether a symbol is open now,
+ *              when it next opens or closes, and the holidays and early closes in between.
+ *
+ * Deriv reports, per symbol, the day's sessions as GMT times of day (`open` / `close`, `--`
+ * when closed all day), the weekdays it trades on, and events such as "Closed all day" on
+ * listed dates or "Closes early (at 20:55)" on Fridays. The calendar projects those onto
+ * the days ahead to find the next boundary.
+ *
+ * Data sources, in order of preference:
+ *   - api      `load(connection)` over a pooled connection, or `loadPublic()` without a token
+ *   - cache    the last API response, kept in localStorage
+ *   - fixture  fixtures/trading_times.json, bundled for offline use
+ *
+ * Symbols the calendar does not know are reported open, so a missing entry never blocks a bot.
+ *
+ * @usage
+ *   const calendar = getSharedTradingCalendar();
+ *   await calendar.load(await executor.getConnection(token));
+ *   const status = calendar.getStatus('frxEURUSD');
+ *   if (!status.isOpen) console.log(`Opens at ${new Date(status.nextOpen)}`);
+ */
+
+import { EventEmitter } from 'events';
+import TRADING_TIMES_FIXTURE from './fixtures/trading_times.json';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TradingCalendarSource = 'api' | 'cache' | 'fixture';
+
+export type TradingEventType = 'closed' | 'closes_early' | 'opens_late';
+
+export interface TradingEvent {
+  type: TradingEventType;
+  /** UTC days of the week the event applies to (0 = Sunday) */
+  weekdays: number[];
+  /** UTC dates (YYYY-MM-DD) the event applies to */
+  dates: string[];
+  /** ms after midnight GMT for early closes / late opens, otherwise null */
+  at: number | null;
+  description: string;
+}
+
+export interface SymbolTradingTimes {
+  symbol: string;
+  name: string;
+  market: string;
+  submarket: string;
+  /** Sessions as ms after midnight GMT; empty when the symbol does not trade */
+  sessions: Array<{ open: number; close: number }>;
+  /** UTC days of the week the symbol trades on (0 = Sunday) */
+  tradingDays: number[];
+  events: TradingEvent[];
+}
+
+export interface MarketStatus {
+  symbol: string;
+  isOpen: boolean;
+  /** false when the calendar has no entry for the symbol (reported open) */
+  known: boolean;
+  /** Epoch ms of the next open while closed, otherwise null */
+  nextOpen: number | null;
+  /** Epoch ms of the next close while open; null when none is in sight (24/7 markets) */
+  nextClose: number | null;
+  /** Why the market is closed ('Closed all day', 'Outside trading hours', ...), otherwise null */
+  reason: string | null;
+}
+
+interface TradingCalendarStorage {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+const DAY_MS = 86400000;
+
+/** Days searched for the next open / close */
+const LOOKAHEAD_DAYS = 14;
+
+/** API data older than this is reloaded by refresh() */
+const DEFAULT_MAX_AGE_MS = 6 * 3600000;
+
+const DEFAULT_CACHE_KEY = 'koppo:trading_times';
+
+const DEFAULT_FETCH_TIMEOUT_MS = 15000;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * "HH:MM[:SS]" GMT → ms after midnight, or null for "--". 23:59:59 is read as midnight
+ * so sessions running to the end of the day join the next day's.
+ */
+function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(String(value || '').trim());
+  if (!match) return null;
+  const ms = (Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0)) * 1000;
+  return ms >= DAY_MS - 1000 ? DAY_MS : ms;
+}
+
+function parseWeekday(token: string): number | null {
+  const index = WEEKDAYS.indexOf(token.trim().slice(0, 3).toLowerCase());
+  return index >= 0 && /^[a-z]+$/i.test(token.trim()) ? index : null;
+}
+
+function toDateKey(epochMs: number) {
+  return new Date(epochMs).toISOString().slice(0, 10);
+}
+
+function parseDateKey(token: string): string | null {
+  const value = token.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const parsed = Date.parse(`${value} 00:00:00 UTC`);
+  return Number.isNaN(parsed) ? null : toDateKey(parsed);
+}
+
+/**
+ * A Deriv trading_times event ({ dates: 'Fridays', descrip: 'Closes early (at 20:55)' }),
+ * or null for descriptions the calendar does not act on.
+ */
+function parseTradingEvent(event: { dates?: string; descrip?: string }): TradingEvent | null {
+  const description = String(event?.descrip || '');
+  let type: TradingEventType;
+  let at: number | null = null;
+
+  const timed = /\(at (\d{1,2}:\d{2}(?::\d{2})?)\)/i.exec(description);
+  if (/closed all day/i.test(description)) type = 'closed';
+  else if (/closes early/i.test(description) && timed) type = 'closes_early';
+  else if (/opens late/i.test(description) && timed) type = 'opens_late';
+  else return null;
+  if (timed) at = parseTimeOfDay(timed[1]);
+
+  const weekdays: number[] = [];
+  const dates: string[] = [];
+  for (const token of String(event.dates || '').split(',')) {
+    if (!token.trim()) continue;
+    const weekday = parseWeekday(token);
+    if (weekday !== null) {
+      weekdays.push(weekday);
+      continue;
+    }
+    const date = parseDateKey(token);
+    if (date) dates.push(date);
+  }
+  if (weekdays.length === 0 && dates.length === 0) return null;
+
+  return { type, weekdays, dates, at, description };
+}
+
+/**
+ * Deriv `trading_times` response → trading times by symbol.
+ * @param {Object} response - { trading_times: { markets: [{ name, submarkets: [{ name, symbols }] }] } }
+ * @returns {Map<string, SymbolTradingTimes>}
+ */
+function parseTradingTimes(response: any): Map<string, SymbolTradingTimes> {
+  const result = new Map<string, SymbolTradingTimes>();
+  const markets = response?.trading_times?.markets;
+  if (!Array.isArray(markets)) throw new Error('Invalid trading_times response');
+
+  for (const market of markets) {
+    for (const submarket of market.submarkets || []) {
+      for (const entry of submarket.symbols || []) {
+        if (!entry?.symbol) continue;
+        const opens: string[] = entry.times?.open || [];
+        const closes: string[] = entry.times?.close || [];
+        const sessions: Array<{ open: number; close: number }> = [];
+        opens.forEach((open, i) => {
+          const start = parseTimeOfDay(open);
+          const end = parseTimeOfDay(closes[i]);
+          if (start !== null && end !== null && end > start) sessions.push({ open: start, close: end });
+        });
+
+        const tradingDays = Array.isArray(entry.trading_days)
+          ? entry.trading_days.map(parseWeekday).filter((day: number | null) => day !== null)
+          : [0, 1, 2, 3, 4, 5, 6];
+
+        result.set(entry.symbol, {
+          symbol: entry.symbol,
+          name: entry.name || entry.symbol,
+          market: market.name || '',
+          submarket: submarket.name || '',
+          sessions,
+          tradingDays,
+          events: (entry.events || []).map(parseTradingEvent).filter(Boolean) as TradingEvent[],
+        });
+      }
+    }
+  }
+  return result;
+}
+
+// ─── Sessions ────────────────────────────────────────────────────────────────
+
+/**
+ * Absolute sessions of one UTC day, after holidays, early closes and late opens.
+ * @returns {{ sessions: Array<{ start: number, end: number }>, closedBy: string|null }}
+ */
+function getDaySessions(times: SymbolTradingTimes, dayStart: number) {
+  const weekday = new Date(dayStart).getUTCDay();
+  const dateKey = toDateKey(dayStart);
+  if (!times.tradingDays.includes(weekday)) return { sessions: [], closedBy: 'Not a trading day' };
+
+  const events = times.events.filter((e) => e.weekdays.includes(weekday) || e.dates.includes(dateKey));
+  const holiday = events.find((e) => e.type === 'closed');
+  if (holiday) return { sessions: [], closedBy: holiday.description };
+
+  const closesAt = Math.min(DAY_MS, ...events.filter((e) => e.type === 'closes_early').map((e) => e.at as number));
+  const opensAt = Math.max(0, ...events.filter((e) => e.type === 'opens_late').map((e) => e.at as number));
+
+  const sessions = times.sessions
+    .map(({ open, close }) => ({ start: dayStart + Math.max(open, opensAt), end: dayStart + Math.min(close, closesAt) }))
+    .filter((session) => session.end > session.start);
+  return { sessions, closedBy: sessions.length === 0 ? 'Closed all day' : null };
+}
+
+/**
+ * Open/closed state of a symbol at `at`, with the next boundary.
+ * @param {SymbolTradingTimes} times
+ * @param {number} at - Epoch ms
+ * @returns {MarketStatus}
+ */
+function getMarketStatus(times: SymbolTradingTimes, at: number): MarketStatus {
+  const today = Math.floor(at / DAY_MS) * DAY_MS;
+  const horizon = today + (LOOKAHEAD_DAYS + 1) * DAY_MS;
+
+  // Sessions from yesterday to the horizon, joined across midnight
+  const merged: Array<{ start: number; end: number }> = [];
+  for (let day = today - DAY_MS; day < horizon; day += DAY_MS) {
+    for (const session of getDaySessions(times, day).sessions) {
+      const last = merged[merged.length - 1];
+      if (last && session.start <= last.end) last.end = Math.max(last.end, session.end);
+      else merged.push({ ...session });
+    }
+  }
+
+  const current = merged.find((session) => session.start <= at && at < session.end);
+  if (current) {
+    return {
+      symbol: times.symbol,
+      isOpen: true,
+      known: true,
+      nextOpen: null,
+      nextClose: current.end >= horizon ? null : current.end,
+      reason: null,
+    };
+  }
+
+  const next = merged.find((session) => session.start > at);
+  const { closedBy } = getDaySessions(times, today);
+  return {
+    symbol: times.symbol,
+    isOpen: false,
+    known: true,
+    nextOpen: next ? next.start : null,
+    nextClose: null,
+    reason: closedBy || 'Outside trading hours',
+  };
+}
+
+// ─── TradingCalendar ─────────────────────────────────────────────────────────
+
+/**
+ * Trading hours for every symbol, kept up to date from the API.
+ *
+ * Events:
+ *   - calendar_updated  { source, symbols, loadedAt }
+ */
+class TradingCalendar extends EventEmitter {
+  maxAgeMs: number;
+
+  private _times: Map<string, SymbolTradingTimes>;
+  private _source: TradingCalendarSource;
+  private _loadedAt: number | null;
+  private _cacheKey: string;
+  private _storage: TradingCalendarStorage | null;
+  private _loading: Promise<void> | null;
+
+  /**
+   * @param {Object} [options]
+   * @param {Object} [options.fixture]   - trading_times response used when nothing is cached
+   * @param {Object|null} [options.storage] - localStorage-like cache (default: window.localStorage when available)
+   * @param {string} [options.cacheKey]
+   * @param {number} [options.maxAgeMs=6h] - Age after which refresh() reloads API data
+   */
+  constructor(options: {
+    fixture?: any;
+    storage?: TradingCalendarStorage | null;
+    cacheKey?: string;
+    maxAgeMs?: number;
+  } = {}) {
+    super();
+    this.maxAgeMs = options.maxAgeMs || DEFAULT_MAX_AGE_MS;
+    this._cacheKey = options.cacheKey || DEFAULT_CACHE_KEY;
+    this._storage = options.storage !== undefined
+      ? options.storage
+      : (typeof window !== 'undefined' && window.localStorage) || null;
+    this._times = new Map();
+    this._source = 'fixture';
+    this._loadedAt = null;
+    this._loading = null;
+
+    if (!this._restoreCache()) {
+      this._times = parseTradingTimes(options.fixture || TRADING_TIMES_FIXTURE);
+    }
+  }
+
+  get source() {
+    return this._source;
+  }
+
+  /** Epoch ms the API data was loaded, or null for the fixture */
+  get loadedAt() {
+    return this._loadedAt;
+  }
+
+  /** Whether refresh() should reload: fixture data, or API data older than maxAgeMs */
+  isStale(now: number = Date.now()) {
+    return this._loadedAt === null || now - this._loadedAt > this.maxAgeMs;
+  }
+
+  /**
+   * Replace the calendar with a trading_times response. API responses are cached.
+   * @param {Object} response
+   * @param {TradingCalendarSource} [source='api']
+   * @param {number} [loadedAt=Date.now()]
+   */
+  setTradingTimes(response: any, source: TradingCalendarSource = 'api', loadedAt: number = Date.now()) {
+    this._times = parseTradingTimes(response);
+    this._source = source;
+    this._loadedAt = source === 'fixture' ? null : loadedAt;
+
+    if (source === 'api' && this._storage) {
+      try {
+        this._storage.setItem(this._cacheKey, JSON.stringify({ loadedAt, response }));
+      } catch {
+        // Storage full or unavailable — the calendar still works from memory
+      }
+    }
+    this.emit('calendar_updated', { source, symbols: this._times.size, loadedAt: this._loadedAt });
+  }
+
+  /**
+   * Load today's trading times over a Deriv connection.
+   * @param {Object} connection - DerivConnectionHandle (or anything with send())
+   * @throws {Error} When the request fails; the previous data is kept
+   */
+  async load(connection: { send: (request: Record<string, any>) => Promise<any> }) {
+    const response = await connection.send({ trading_times: 'today' });
+    if (response?.error) throw new Error(response.error.message || 'trading_times request failed');
+    this.setTradingTimes(response, 'api');
+  }
+
+  /**
+   * Load today's trading times without an account token (trading_times is a public call).
+   * @param {Object} options - See fetchTradingTimes()
+   */
+  async loadPublic(options: { endpoint: string; appId: string; lang?: string; timeoutMs?: number }) {
+    this.setTradingTimes(await fetchTradingTimes(options), 'api');
+  }
+
+  /**
+   * Reload when stale. Bots starting together share one request. Errors are left to the caller.
+   * @param {Object} connection
+   * @param {number} [now=Date.now()]
+   * @returns {Promise<boolean>} Whether the calendar was reloaded
+   */
+  async refresh(connection: { send: (request: Record<string, any>) => Promise<any> }, now: number = Date.now()) {
+    if (!this.isStale(now)) return false;
+    if (!this._loading) {
+      this._loading = this.load(connection).finally(() => { this._loading = null; });
+    }
+    await this._loading;
+    return true;
+  }
+
+  hasSymbol(symbol: string) {
+    return this._times.has(symbol);
+  }
+
+  getTradingTimes(symbol: string) {
+    return this._times.get(symbol) || null;
+  }
+
+  /**
+   * @param {string} symbol
+   * @param {number} [at=Date.now()]
+   * @returns {MarketStatus}
+   */
+  getStatus(symbol: string, at: number = Date.now()): MarketStatus {
+    const times = this._times.get(symbol);
+    if (!times) {
+      return { symbol, isOpen: true, known: false, nextOpen: null, nextClose: null, reason: null };
+    }
+    return getMarketStatus(times, at);
+  }
+
+  isOpen(symbol: string, at: number = Date.now()) {
+    return this.getStatus(symbol, at).isOpen;
+  }
+
+  /**
+   * Copies of `markets` with `isClosed` set from the calendar (e.g. the MarketSelector list).
+   * @param {Array<{ symbol: string }>} markets
+   * @param {number} [at=Date.now()]
+   */
+  markMarkets<T extends { symbol: string; isClosed?: boolean }>(markets: T[], at: number = Date.now()): T[] {
+    return markets.map((market) => ({ ...market, isClosed: !this.isOpen(market.symbol, at) }));
+  }
+
+  /** @private */
+  private _restoreCache() {
+    if (!this._storage) return false;
+    try {
+      const raw = this._storage.getItem(this._cacheKey);
+      if (!raw) return false;
+      const { loadedAt, response } = JSON.parse(raw);
+      this._times = parseTradingTimes(response);
+      this._source = 'cache';
+      this._loadedAt = Number(loadedAt) || null;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+// ─── Public fetch ────────────────────────────────────────────────────────────
+
+/**
+ * Request today's trading_times on a short-lived, unauthorized socket.
+ * @param {Object} options
+ * @param {string} options.endpoint - Deriv WebSocket endpoint domain (ws.derivws.com)
+ * @param {string} options.appId
+ * @param {string} [options.lang='EN']
+ * @param {number} [options.timeoutMs=15000]
+ * @returns {Promise<Object>} The trading_times response
+ */
+function fetchTradingTimes(options: { endpoint: string; appId: string; lang?: string; timeoutMs?: number }): Promise<any> {
+  if (typeof WebSocket === 'undefined') return Promise.reject(new Error('WebSocket is not available'));
+
+  const url = `wss://${options.endpoint}/websockets/v3?app_id=${options.appId}&l=${options.lang || 'EN'}`;
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const timer = setTimeout(() => {
+      socket.close();
+      reject(new Error('trading_times request timed out'));
+    }, options.timeoutMs || DEFAULT_FETCH_TIMEOUT_MS);
+
+    socket.addEventListener('open', () => socket.send(JSON.stringify({ trading_times: 'today', req_id: 1 })));
+    socket.addEventListener('message', (event) => {
+      const message = JSON.parse(String(event.data));
+      if (message.msg_type !== 'trading_times') return;
+      clearTimeout(timer);
+      socket.close();
+      if (message.error) reject(new Error(message.error.message || 'trading_times request failed'));
+      else resolve(message);
+    });
+    socket.addEventListener('error', () => {
+      clearTimeout(timer);
+      reject(new Error('trading_times connection failed'));
+    });
+  });
+}
+
+// ─── Shared calendar ─────────────────────────────────────────────────────────
+
+let sharedCalendar: TradingCalendar | null = null;
+
+/**
+ * The process-wide calendar, shared by every bot and the market selector so one
+ * trading_times load serves them all.
+ * @returns {TradingCalendar}
+ */
+function getSharedTradingCalendar() {
+  if (!sharedCalendar) sharedCalendar = new TradingCalendar();
+  return sharedCalendar;
+}
+
+export {
+  TradingCalendar,
+  getSharedTradingCalendar,
+  fetchTradingTimes,
+  parseTradingTimes,
+  getMarketStatus,
+};
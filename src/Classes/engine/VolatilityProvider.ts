@@ -0,0 +1,434 @@
+/**
+ * @file VolatilityProvider.ts
+ * @description Realized volatility from the tick stream, normalised to the 0-100 score the
+ *              `volatility_controls_section` filter reads through `setVolatilityProvider`.
+ *
+ * Realized volatility is the annualised root-mean-square of tick log returns, in %. The score
+ * compares it with what is normal for the symbol's family, so 50 always means "as usual":
+ *   - R_* (2s ticks) and 1HZ*V (1s ticks)   nominal volatility from the name — R_75 at 75% scores 50
+ *   - BOOM* / CRASH* (1s ticks)              spikes are left out of the returns, then compared with
+ *                                            the symbol's own baseline (the last `lookback × 5` ticks)
+ *   - anything else                          compared with the symbol's own baseline
+ * Scores are clamped to 0-100 (100 = twice the normal volatility or more).
+ *
+ * `VolatilityService` shares one tracker per symbol between bots, like DigitAnalysisService.
+ *
+ * @usage
+ *   const volatility = new VolatilityService({ tickSource: createDerivTickSource(connection), lookback: 300 });
+ *   await volatility.warmUp(connection, 'R_100');
+ *   volatility.watch('R_100');
+ *   manager.setVolatilityProvider(volatility.createProvider('R_100'));
+ */
+
+import { EventEmitter } from 'events';
+import type { StreamTick, TickSource, TickSubscription } from './TickSource';
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Ticks in the volatility window when `volatility_lookback_period` is unset */
+const DEFAULT_VOLATILITY_LOOKBACK = 300;
+/** Score of a symbol trading at its usual volatility */
+const NORMAL_VOLATILITY_SCORE = 50;
+/** Smallest stake multiplier `volatility_adjustment` applies */
+const MIN_VOLATILITY_STAKE_MULTIPLIER = 0.25;
+
+const MIN_RETURNS = 20;
+const BASELINE_MULTIPLIER = 5;
+/** Boom/Crash returns larger than this many median returns are spikes */
+const SPIKE_MULTIPLIER = 10;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const SYMBOL_FAMILIES = Object.freeze({
+  VOLATILITY: 'volatility',
+  VOLATILITY_1S: 'volatility_1s',
+  BOOM_CRASH: 'boom_crash',
+  OTHER: 'other',
+});
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SymbolFamily = typeof SYMBOL_FAMILIES[keyof typeof SYMBOL_FAMILIES];
+
+export interface SymbolFamilyInfo {
+  family: SymbolFamily;
+  /** Seconds between ticks, null when taken from the tick epochs */
+  tickSeconds: number | null;
+  /** Advertised annualised volatility in %, null when the symbol has none */
+  nominal: number | null;
+}
+
+export interface VolatilityReading {
+  symbol: string | null;
+  family: SymbolFamily;
+  /** 0-100, NORMAL_VOLATILITY_SCORE when the symbol trades as usual */
+  score: number;
+  /** Annualised realized volatility over the lookback, in % */
+  realized: number;
+  /** What the score is compared with: the nominal volatility or the baseline, in % */
+  reference: number;
+  /** Returns in the lookback */
+  sampleSize: number;
+  /** Boom/Crash spikes left out of the lookback */
+  spikes: number;
+  epoch: number | null;
+}
+
+export interface VolatilitySettings {
+  volatility_filter?: boolean;
+  min_volatility?: number | null;
+  max_volatility?: number | null;
+  volatility_adjustment?: boolean;
+  pause_on_high_volatility?: boolean;
+  volatility_lookback_period?: number | null;
+  [key: string]: unknown;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Family, tick interval and nominal volatility of a Deriv symbol.
+ * @param {string} symbol
+ * @returns {SymbolFamilyInfo}
+ */
+function getSymbolFamily(symbol: string): SymbolFamilyInfo {
+  const name = String(symbol || '').toUpperCase();
+
+  const standard = /^R_(\d+)$/.exec(name);
+  if (standard) return { family: SYMBOL_FAMILIES.VOLATILITY, tickSeconds: 2, nominal: Number(standard[1]) };
+
+  const fast = /^1HZ(\d+)V$/.exec(name);
+  if (fast) return { family: SYMBOL_FAMILIES.VOLATILITY_1S, tickSeconds: 1, nominal: Number(fast[1]) };
+
+  if (/^(BOOM|CRASH)\d+/.test(name)) return { family: SYMBOL_FAMILIES.BOOM_CRASH, tickSeconds: 1, nominal: null };
+
+  return { family: SYMBOL_FAMILIES.OTHER, tickSeconds: null, nominal: null };
+}
+
+/**
+ * Annualised root-mean-square of log returns, in %.
+ * @param {number[]} returns - Log returns
+ * @param {number} secondsPerTick
+ * @returns {number}
+ */
+function annualise(returns: number[], secondsPerTick: number): number {
+  if (!returns.length || !(secondsPerTick > 0)) return 0;
+  const meanSquare = returns.reduce((sum, r) => sum + r * r, 0) / returns.length;
+  return Math.sqrt((meanSquare / secondsPerTick) * SECONDS_PER_YEAR) * 100;
+}
+
+// ─── Tracker ─────────────────────────────────────────────────────────────────
+
+class VolatilityTracker {
+  readonly symbol: string | null;
+  readonly familyInfo: SymbolFamilyInfo;
+  lookback: number;
+
+  private _ticks: Array<{ epoch: number | null; quote: number }>;
+
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.symbol]
+   * @param {number} [options.lookback=300] - Ticks the realized volatility is measured over
+   */
+  constructor(options: { symbol?: string; lookback?: number } = {}) {
+    this.symbol = options.symbol ?? null;
+    this.familyInfo = getSymbolFamily(this.symbol || '');
+    this.lookback = Math.max(MIN_RETURNS, Math.floor(options.lookback || DEFAULT_VOLATILITY_LOOKBACK));
+    this._ticks = [];
+  }
+
+  /**
+   * @param {StreamTick} tick
+   */
+  addTick(tick: { epoch?: number; quote: number }) {
+    const quote = Number(tick.quote);
+    if (!Number.isFinite(quote) || quote <= 0) return;
+    this._ticks.push({ epoch: tick.epoch ?? null, quote });
+    const capacity = this._capacity();
+    if (this._ticks.length > capacity) this._ticks.splice(0, this._ticks.length - capacity);
+  }
+
+  /**
+   * @param {number} lookback
+   */
+  setLookback(lookback: number) {
+    this.lookback = Math.max(MIN_RETURNS, Math.floor(lookback || DEFAULT_VOLATILITY_LOOKBACK));
+    const capacity = this._capacity();
+    if (this._ticks.length > capacity) this._ticks.splice(0, this._ticks.length - capacity);
+  }
+
+  reset() {
+    this._ticks = [];
+  }
+
+  /**
+   * @returns {VolatilityReading|null} null until MIN_RETURNS returns are available
+   */
+  getReading(): VolatilityReading | null {
+    const { family, nominal } = this.familyInfo;
+    const ticks = this._ticks;
+    if (ticks.length <= MIN_RETURNS) return null;
+
+    const secondsPerTick = this._secondsPerTick();
+    let returns: number[] = [];
+    for (let i = 1; i < ticks.length; i++) returns.push(Math.log(ticks[i].quote / ticks[i - 1].quote));
+
+    let spikes = 0;
+    if (family === SYMBOL_FAMILIES.BOOM_CRASH) {
+      const threshold = median(returns.map(Math.abs)) * SPIKE_MULTIPLIER;
+      if (threshold > 0) {
+        const recentStart = Math.max(0, returns.length - this.lookback);
+        returns = returns.filter((r, i) => {
+          const spike = Math.abs(r) > threshold;
+          if (spike && i >= recentStart) spikes++;
+          return !spike;
+        });
+      }
+    }
+
+    const recent = returns.slice(-this.lookback);
+    const realized = annualise(recent, secondsPerTick);
+    const reference = nominal ?? annualise(returns, secondsPerTick);
+    const score = reference > 0
+      ? Math.min(100, Math.max(0, (realized / reference) * NORMAL_VOLATILITY_SCORE))
+      : 0;
+
+    return {
+      symbol: this.symbol,
+      family,
+      score: round(score),
+      realized: round(realized),
+      reference: round(reference),
+      sampleSize: recent.length,
+      spikes,
+      epoch: ticks[ticks.length - 1].epoch,
+    };
+  }
+
+  /** @private */
+  _capacity(): number {
+    // Symbols without a nominal volatility keep a longer baseline to compare against
+    const baseline = this.familyInfo.nominal === null ? BASELINE_MULTIPLIER : 1;
+    return this.lookback * baseline + 1;
+  }
+
+  /** @private */
+  _secondsPerTick(): number {
+    if (this.familyInfo.tickSeconds) return this.familyInfo.tickSeconds;
+    const first = this._ticks[0].epoch;
+    const last = this._ticks[this._ticks.length - 1].epoch;
+    if (first === null || last === null || last <= first) return 1;
+    return (last - first) / (this._ticks.length - 1);
+  }
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+interface WatchedSymbol {
+  refCount: number;
+  subscription: TickSubscription | null;
+}
+
+class VolatilityService extends EventEmitter {
+  lookback: number;
+
+  private _tickSource: TickSource | null;
+  private _trackers: Map<string, VolatilityTracker>;
+  private _watched: Map<string, WatchedSymbol>;
+
+  /**
+   * @param {Object} [options]
+   * @param {TickSource} [options.tickSource] - Needed for watch(); addTick() works without one
+   * @param {number} [options.lookback=300] - Lookback in ticks for every symbol
+   */
+  constructor(options: { tickSource?: TickSource | null; lookback?: number } = {}) {
+    super();
+    this.lookback = options.lookback || DEFAULT_VOLATILITY_LOOKBACK;
+    this._tickSource = options.tickSource || null;
+    this._trackers = new Map();
+    this._watched = new Map();
+  }
+
+  /**
+   * Set the tick source once it is available; symbols already watched keep their subscription.
+   * @param {TickSource} tickSource
+   */
+  setTickSource(tickSource: TickSource | null) {
+    this._tickSource = tickSource;
+  }
+
+  /**
+   * Subscribe to a symbol's ticks. Calls are reference counted: each must be
+   * balanced by `unwatch(symbol)`.
+   * @param {string} symbol
+   */
+  watch(symbol: string) {
+    const watched = this._watched.get(symbol);
+    if (watched) {
+      watched.refCount++;
+      return;
+    }
+    if (!this._tickSource) throw new Error('VolatilityService has no tick source to watch with');
+
+    const entry: WatchedSymbol = { refCount: 1, subscription: null };
+    this._watched.set(symbol, entry);
+    entry.subscription = this._tickSource.subscribe(
+      symbol,
+      (tick: StreamTick) => this.addTick(symbol, tick),
+      (error) => this.emit('volatility_feed_error', { symbol, error: error.message }),
+    );
+  }
+
+  /**
+   * @param {string} symbol
+   */
+  unwatch(symbol: string) {
+    const watched = this._watched.get(symbol);
+    if (!watched) return;
+    watched.refCount--;
+    if (watched.refCount > 0) return;
+    watched.subscription?.unsubscribe();
+    this._watched.delete(symbol);
+  }
+
+  /**
+   * Feed one tick by hand (Backtester, `ticks_history` warm-up).
+   * @param {string} symbol
+   * @param {StreamTick} tick
+   */
+  addTick(symbol: string, tick: { epoch?: number; quote: number }) {
+    const tracker = this._getTracker(symbol);
+    tracker.addTick(tick);
+    if (this.listenerCount('volatility_update')) {
+      this.emit('volatility_update', { symbol, reading: tracker.getReading() });
+    }
+  }
+
+  /**
+   * Fill a symbol's window (and baseline) from `ticks_history` so the filter doesn't wait
+   * for live ticks.
+   * @param {Object} connection - DerivConnectionHandle (see TradingBotExecutor.getConnection)
+   * @param {string} symbol
+   */
+  async warmUp(
+    connection: { send: (request: Record<string, any>) => Promise<any> },
+    symbol: string,
+  ) {
+    const tracker = this._getTracker(symbol);
+    const count = Math.min(5000, tracker.familyInfo.nominal === null
+      ? this.lookback * BASELINE_MULTIPLIER + 1
+      : this.lookback + 1);
+    const response = await connection.send({ ticks_history: symbol, end: 'latest', count, style: 'ticks' });
+    const times: number[] = response?.history?.times || [];
+    const prices: number[] = response?.history?.prices || [];
+
+    tracker.reset();
+    times.forEach((epoch, i) => tracker.addTick({ epoch: Number(epoch), quote: Number(prices[i]) }));
+    this.emit('volatility_update', { symbol, reading: tracker.getReading() });
+  }
+
+  /**
+   * @param {string} symbol
+   * @returns {VolatilityReading|null}
+   */
+  getReading(symbol: string): VolatilityReading | null {
+    return this._trackers.get(symbol)?.getReading() || null;
+  }
+
+  /**
+   * @param {string} symbol
+   * @returns {number|null} 0-100 score, null while warming up
+   */
+  getVolatility(symbol: string): number | null {
+    return this.getReading(symbol)?.score ?? null;
+  }
+
+  /**
+   * A provider for `TradingBotManager.setVolatilityProvider`.
+   * @param {string} symbol
+   * @returns {Function} () => number|null
+   */
+  createProvider(symbol: string): () => number | null {
+    return () => this.getVolatility(symbol);
+  }
+
+  /**
+   * Lengthen the lookback (never shortens, so bots with shorter lookbacks still see theirs).
+   * @param {number} lookback
+   */
+  ensureLookback(lookback: number) {
+    if (!(lookback > this.lookback)) return;
+    this.lookback = lookback;
+    for (const tracker of this._trackers.values()) tracker.setLookback(lookback);
+  }
+
+  reset() {
+    for (const tracker of this._trackers.values()) tracker.reset();
+  }
+
+  destroy() {
+    for (const watched of this._watched.values()) watched.subscription?.unsubscribe();
+    this._watched.clear();
+    this._trackers.clear();
+    this.removeAllListeners();
+  }
+
+  /** @private */
+  _getTracker(symbol: string): VolatilityTracker {
+    let tracker = this._trackers.get(symbol);
+    if (!tracker) {
+      tracker = new VolatilityTracker({ symbol, lookback: this.lookback });
+      this._trackers.set(symbol, tracker);
+    }
+    return tracker;
+  }
+}
+
+// ─── Settings ────────────────────────────────────────────────────────────────
+
+/**
+ * Whether any volatility control needs a volatility reading.
+ * @param {VolatilitySettings} [settings]
+ * @returns {boolean}
+ */
+function isVolatilityControlEnabled(settings?: VolatilitySettings | null): boolean {
+  return Boolean(settings?.volatility_filter || settings?.volatility_adjustment);
+}
+
+/**
+ * Stake multiplier for `volatility_adjustment`: stakes shrink in proportion once the score
+ * rises above `max_volatility` (or NORMAL_VOLATILITY_SCORE when unset), down to
+ * MIN_VOLATILITY_STAKE_MULTIPLIER. Calm markets never raise the stake.
+ *
+ * @param {number|null} score - 0-100
+ * @param {VolatilitySettings} [settings]
+ * @returns {number} 0.25 - 1
+ */
+function getVolatilityStakeMultiplier(score: number | null, settings?: VolatilitySettings | null): number {
+  if (score === null || !Number.isFinite(score) || score <= 0) return 1;
+  const reference = Number(settings?.max_volatility) > 0 ? Number(settings?.max_volatility) : NORMAL_VOLATILITY_SCORE;
+  return round(Math.min(1, Math.max(MIN_VOLATILITY_STAKE_MULTIPLIER, reference / score)));
+}
+
+export {
+  VolatilityTracker,
+  VolatilityService,
+  DEFAULT_VOLATILITY_LOOKBACK,
+  NORMAL_VOLATILITY_SCORE,
+  MIN_VOLATILITY_STAKE_MULTIPLIER,
+  SYMBOL_FAMILIES,
+  getSymbolFamily,
+  isVolatilityControlEnabled,
+  getVolatilityStakeMultiplier,
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { Backtester } from '../Backtester';
+import type { Tick } from '../ContractSimulator';
+
+const START_EPOCH = 1700000000;
+
+/** `count` ticks a second apart whose last digit is always 5 */
+function ticks(count = 2000): Tick[] {
+  return Array.from({ length: count }, (_, i) => ({ epoch: START_EPOCH + i, quote: i % 2 ? 100.15 : 100.05 }));
+}
+
+/** DIGITDIFF on 5 always loses against ticks(); on 3 it always wins */
+function formData(
+  options: { prediction?: string; generalSettings?: Record<string, any>; advanced?: Record<string, any>; amounts?: Record<string, any> } = {},
+) {
+  return {
+    strategyId: 'martingale',
+    contract: {
+      contractType: 'DIGITDIFF',
+      market: { symbol: 'R_100' },
+      duration: 1,
+      durationUnits: 't',
+      delay: 1,
+      prediction: options.prediction ?? '5',
+    },
+    amounts: {
+      base_stake: { type: 'fixed', value: 1 },
+      maximum_stake: { type: 'fixed', value: 100 },
+      take_profit: null,
+      stop_loss: { type: 'fixed', value: 500 },
+      ...options.amounts,
+    },
+    advanced_settings: {
+      general_settings_section: { maximum_number_of_trades: 4, ...options.generalSettings },
+      ...options.advanced,
+    },
+  };
+}
+
+describe('Backtester', () => {
+  it('needs at least two ticks', () => {
+    expect(() => new Backtester({ formData: formData(), ticks: ticks(1) })).toThrow('At least two ticks');
+  });
+
+  it('replays the stake progression and books every loss against the balance', async () => {
+    const backtester = new Backtester({ formData: formData(), ticks: ticks(), startingBalance: 1000 });
+
+    const report = await backtester.run();
+
+    expect(report.stopReason).toBe('Max trades reached');
+    expect(report.trades.map((trade) => trade.stake)).toEqual([1, 2, 4, 8]);
+    expect(report.trades.every((trade) => !trade.isWin && trade.lastDigit === 5)).toBe(true);
+    expect(report.summary).toMatchObject({ totalTrades: 4, losses: 4, netProfit: -15, longestLossStreak: 4, finalBalance: 985 });
+    expect(report.equityCurve.map((point) => point.balance)).toEqual([1000, 999, 997, 993, 985]);
+  });
+
+  it('waits out a general cooldown on the tick clock and stops after it without auto_restart', async () => {
+    const backtester = new Backtester({
+      formData: formData({
+        generalSettings: { maximum_number_of_trades: 10, cooldown_period: { duration: 60, unit: 'seconds' } },
+        advanced: { risk_management_section: { max_consecutive_losses: 2 } },
+      }),
+      ticks: ticks(),
+    });
+    const cooldowns: string[] = [];
+    backtester.manager.on('cooldown_started', (e: { type: string }) => cooldowns.push(`started ${e.type}`));
+    backtester.manager.on('cooldown_ended', (e: { type: string }) => cooldowns.push(`ended ${e.type}`));
+
+    const report = await backtester.run();
+
+    expect(report.trades).toHaveLength(2);
+    expect(report.stopReason).toBe('Max consecutive losses (cooldown ended without auto restart)');
+    expect(cooldowns).toEqual(['started general', 'ended general']);
+  });
+
+  it('restarts the progression after a general cooldown with auto_restart', async () => {
+    const backtester = new Backtester({
+      formData: formData({
+        generalSettings: { maximum_number_of_trades: 4, auto_restart: true, cooldown_period: { duration: 60, unit: 'seconds' } },
+        advanced: { risk_management_section: { max_consecutive_losses: 2 } },
+      }),
+      ticks: ticks(),
+    });
+
+    const report = await backtester.run();
+
+    expect(report.trades.map((trade) => trade.stake)).toEqual([1, 2, 1, 2]);
+    expect(report.trades[2].entryTime - report.trades[1].exitTime).toBeGreaterThanOrEqual(60);
+    expect(report.stopReason).toBe('Max trades reached');
+  });
+
+  it('ends the session at maximum_running_time on the tick clock', async () => {
+    const backtester = new Backtester({
+      formData: formData({ prediction: '3', generalSettings: { maximum_number_of_trades: 1000, maximum_running_time: 30 } }),
+      ticks: ticks(),
+    });
+
+    const report = await backtester.run();
+
+    expect(report.stopReason).toBe('Max runtime reached');
+    expect(report.trades.length).toBeGreaterThan(0);
+    expect(report.trades[report.trades.length - 1].entryTime).toBeLessThan(START_EPOCH + 30);
+  });
+
+  it('does not replay auto-restarts', async () => {
+    const backtester = new Backtester({
+      formData: formData({
+        prediction: '3',
+        amounts: { take_profit: { type: 'fixed', value: 0.1 } },
+        generalSettings: { maximum_number_of_trades: 100, auto_restart: true },
+        advanced: { auto_restart_section: { restart_on: ['take_profit'], restart_delay_seconds: 1 } },
+      }),
+      ticks: ticks(),
+    });
+    let restartsScheduled = 0;
+    backtester.manager.on('restart_scheduled', () => { restartsScheduled += 1; });
+
+    const report = await backtester.run();
+
+    expect(report.stopReason).toBe('Take profit reached');
+    expect(report.summary.netProfit).toBeGreaterThanOrEqual(0.1);
+    expect(restartsScheduled).toBe(0);
+    expect(backtester.manager.getPendingRestart()).toBeNull();
+  });
+});
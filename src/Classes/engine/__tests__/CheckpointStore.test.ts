@@ -0,0 +1,260 @@
+import { EventEmitter } from 'events';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CHECKPOINT_VERSION,
+  CheckpointTracker,
+  createDefaultCheckpointStore,
+  FileCheckpointStore,
+  MemoryCheckpointStore,
+} from '../CheckpointStore';
+import { TradingBotManager } from '../TradingBotManager';
+
+/** Executor that loses every trade and settles checkpointed contracts on request */
+class FakeExecutor extends EventEmitter {
+  reconcileError: Error | null = null;
+  reconciled: string[] = [];
+  trades = 0;
+
+  startSession() {}
+  endSession() {}
+  async updateBotStatus() {}
+  async updateRealtimePerformance() {}
+  async updateStatistics() {}
+
+  buildContractParams(contract: any, stake: number, currency: string) {
+    return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100' };
+  }
+
+  async executeTrade(params: any) {
+    this.trades += 1;
+    return { contractId: String(this.trades), stake: params.amount, payout: 0, profit: -params.amount, isWin: false };
+  }
+
+  async reconcileContract(contractId: string, _token: string, params: any) {
+    if (this.reconcileError) throw this.reconcileError;
+    this.reconciled.push(contractId);
+    return { contractId, stake: params.amount, payout: 0, profit: -params.amount, isWin: false };
+  }
+}
+
+function formData(generalSettings: Record<string, any> = {}) {
+  return {
+    botId: 'bot-1',
+    strategyId: 'martingale',
+    botAccount: { token: 'token' },
+    contract: { contractType: 'CALL', market: { symbol: 'R_100' }, delay: 1 },
+    amounts: {
+      base_stake: { type: 'fixed', value: 1 },
+      maximum_stake: { type: 'fixed', value: 100 },
+      take_profit: { type: 'fixed', value: 100 },
+      stop_loss: { type: 'fixed', value: 100 },
+    },
+    advanced_settings: { general_settings_section: { maximum_number_of_trades: 10, ...generalSettings } },
+  };
+}
+
+function createManager(store: MemoryCheckpointStore, generalSettings: Record<string, any> = {}) {
+  const executor = new FakeExecutor();
+  const manager = TradingBotManager.fromFormData(formData(generalSettings), executor);
+  manager.setCheckpointStore(store);
+  return { manager, executor };
+}
+
+/** A checkpoint taken by a running bot, with the given changes */
+function checkpointOf(manager: any, changes: { session?: Record<string, any>; [key: string]: any } = {}) {
+  const checkpoint = manager.createCheckpoint();
+  return {
+    ...checkpoint,
+    status: 'START',
+    isActive: true,
+    ...changes,
+    session: { ...checkpoint.session, ...changes.session },
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('checkpoint stores', () => {
+  it('round-trips checkpoints in memory', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('bot-1', { version: 2, session: { currentStake: 4 } });
+
+    expect(await store.load('bot-1')).toEqual({ version: 2, session: { currentStake: 4 } });
+    await store.remove('bot-1');
+    expect(await store.load('bot-1')).toBeNull();
+  });
+
+  it('writes one file per bot and leaves no temp file behind', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'checkpoints-'));
+    try {
+      const store = new FileCheckpointStore({ directory });
+      await store.save('bot/1', { version: 2 });
+
+      expect(await readdir(directory)).toEqual(['bot_1.json']);
+      expect(await store.load('bot/1')).toEqual({ version: 2 });
+      await store.remove('bot/1');
+      expect(await store.load('bot/1')).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('uses the file store under Node', () => {
+    expect(createDefaultCheckpointStore()).toBeInstanceOf(FileCheckpointStore);
+  });
+});
+
+describe('CheckpointTracker', () => {
+  function tracker(store: MemoryCheckpointStore | null = new MemoryCheckpointStore()) {
+    const errors: string[] = [];
+    const checkpoints = new CheckpointTracker({ key: () => 'bot-1', onError: (err, context) => errors.push(`${context}: ${err.message}`) });
+    checkpoints.setStore(store, 2);
+    return { checkpoints, errors };
+  }
+
+  it('keeps the contracts in flight and asks for a checkpoint every N settled trades', () => {
+    const { checkpoints } = tracker();
+    checkpoints.trackPurchase('11', { amount: 1 }, 1000);
+    checkpoints.trackPurchase('12', { amount: 2 }, 2000);
+
+    expect(checkpoints.recordSettled('11')).toBe(false);
+    expect(checkpoints.recordSettled('12')).toBe(true);
+    expect(checkpoints.snapshot()).toEqual({ inFlightContracts: [], lastSettledContractId: '12' });
+  });
+
+  it('ignores checkpoints of another version and reports failed writes', async () => {
+    const store = new MemoryCheckpointStore();
+    const { checkpoints, errors } = tracker(store);
+    await store.save('bot-1', { version: CHECKPOINT_VERSION - 1 });
+    expect(await checkpoints.load()).toBeNull();
+
+    expect(await checkpoints.save({ version: CHECKPOINT_VERSION })).toEqual({ version: CHECKPOINT_VERSION });
+    expect(await checkpoints.load()).toEqual({ version: CHECKPOINT_VERSION });
+
+    store.save = async () => { throw new Error('Quota exceeded'); };
+    expect(await checkpoints.save({ version: CHECKPOINT_VERSION })).toBeNull();
+    expect(errors).toEqual(['save: Quota exceeded']);
+  });
+
+  it('settles older checkpoints\' single contract, skipping one already booked', async () => {
+    const { checkpoints } = tracker(null);
+    checkpoints.restore({ inFlightContract: { contractId: '7', purchasedAt: 1 } });
+    expect(await checkpoints.reconcile(async (contract) => ({ contractId: contract.contractId }), () => {})).toEqual([{ contractId: '7' }]);
+
+    checkpoints.restore({
+      inFlightContracts: [{ contractId: '9', purchasedAt: 2 }, { contractId: '8', purchasedAt: 1 }],
+      lastSettledContractId: '8',
+    });
+    const booked: Array<string | number> = [];
+    await checkpoints.reconcile(async (contract) => ({ contractId: contract.contractId }), (result) => booked.push(result.contractId));
+    expect(booked).toEqual(['9']);
+  });
+});
+
+describe('resumeFromCheckpoint', () => {
+  it('settles the contracts in flight before trading on', async () => {
+    const store = new MemoryCheckpointStore();
+    const { manager, executor } = createManager(store);
+    await store.save('bot-1', checkpointOf(manager, {
+      inFlightContracts: [{ contractId: '7', params: { amount: 2 }, purchasedAt: 1 }],
+      session: { consecutiveLosses: 1 },
+    }));
+    let lossesOnResume = 0;
+    manager.on('session_resumed', () => { lossesOnResume = manager._session.consecutiveLosses; });
+
+    const result = await manager.resumeFromCheckpoint();
+
+    expect(result).toEqual({ success: true, resumed: true });
+    expect(executor.reconciled).toEqual(['7']);
+    expect(lossesOnResume).toBe(2);
+    await manager.stop();
+    manager.destroy();
+  });
+
+  it('keeps a contract it cannot settle in flight and fails the resume', async () => {
+    const store = new MemoryCheckpointStore();
+    const { manager, executor } = createManager(store);
+    await store.save('bot-1', checkpointOf(manager, {
+      status: 'PAUSE',
+      inFlightContracts: [
+        { contractId: '7', params: { amount: 1 }, purchasedAt: 1 },
+        { contractId: '8', params: { amount: 2 }, purchasedAt: 2 },
+      ],
+    }));
+    executor.reconcileError = new Error('api down');
+
+    const result = await manager.resumeFromCheckpoint();
+
+    expect(result).toEqual({ success: false, error: 'Could not settle contract 7: api down' });
+    expect(manager.status).toBe('ERROR');
+    expect(executor.trades).toBe(0);
+    const saved = await store.load('bot-1');
+    expect(saved?.inFlightContracts.map((contract: any) => contract.contractId)).toEqual(['7', '8']);
+    expect(saved?.status).toBe('PAUSE');
+
+    // The next resume retries it
+    executor.reconcileError = null;
+    expect(await manager.resumeFromCheckpoint()).toMatchObject({ success: true, resumed: true });
+    expect(executor.reconciled).toEqual(['7', '8']);
+    expect(manager.status).toBe('PAUSE');
+    await manager.stop();
+    manager.destroy();
+  });
+
+  it('ends a general cooldown with its stop reason without auto_restart', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryCheckpointStore();
+    const { manager, executor } = createManager(store, { cooldown_period: { duration: 10, unit: 'seconds' } });
+    await store.save('bot-1', checkpointOf(manager, {
+      session: {
+        isInCooldown: true,
+        cooldownEndTime: Date.now() + 5000,
+        cooldown: { type: 'general', stopReason: 'risk_limit' },
+      },
+    }));
+    const stop = vi.spyOn(manager, 'stop');
+
+    await manager.resumeFromCheckpoint();
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(stop).not.toHaveBeenCalled();
+    expect(executor.trades).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(stop).toHaveBeenCalledWith('risk_limit');
+    expect(manager.status).toBe('STOP');
+    expect(executor.trades).toBe(0);
+    manager.destroy();
+  });
+
+  it('restarts the progression after a general cooldown with auto_restart', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryCheckpointStore();
+    const { manager, executor } = createManager(store, {
+      cooldown_period: { duration: 10, unit: 'seconds' },
+      auto_restart: true,
+    });
+    await store.save('bot-1', checkpointOf(manager, {
+      session: {
+        consecutiveLosses: 3,
+        isInCooldown: true,
+        cooldownEndTime: Date.now() - 1000,
+        cooldown: { type: 'general', stopReason: 'risk_limit' },
+      },
+    }));
+
+    await manager.resumeFromCheckpoint();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(manager.status).toBe('START');
+    expect(manager._session.cooldown).toBeNull();
+    expect(executor.trades).toBe(1);
+    expect(manager._session.consecutiveLosses).toBe(1);
+    await manager.stop();
+    manager.destroy();
+  });
+});
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  advanceRotation,
+  applyRotation,
+  createRotationState,
+  ensureOpenMarket,
+  isRotationEnabled,
+  pickWeighted,
+} from '../ContractRotation';
+import type { RotatableContract, RotationState } from '../ContractRotation';
+import { TradingBotManager } from '../TradingBotManager';
+
+/** Random source that returns the given rolls in turn */
+function rolls(...values: number[]) {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+const markets = (symbols: string[], rotation: RotatableContract['rotation'] = {}): RotatableContract => ({
+  contractType: 'CALL',
+  market: { symbol: 'R_100' },
+  marketRandomize: true,
+  rotation: { markets: symbols.map((symbol) => ({ symbol })), ...rotation },
+});
+
+function rotate(contract: RotatableContract, state: RotationState, results: Array<Record<string, any>>) {
+  return results.reduce<RotationState>((current, result) => advanceRotation(contract, current, result, { random: () => 0 }).state, state);
+}
+
+describe('pickWeighted', () => {
+  const items = [{ id: 'a', weight: 1 }, { id: 'b', weight: 3 }, { id: 'c', weight: 0 }];
+
+  it('draws in proportion to the weights', () => {
+    expect(pickWeighted(items, undefined, () => 0.2)?.id).toBe('a');
+    expect(pickWeighted(items, undefined, () => 0.3)?.id).toBe('b');
+    expect(pickWeighted(items, undefined, () => 0.99)?.id).toBe('b');
+  });
+
+  it('skips excluded items unless nothing else is left', () => {
+    expect(pickWeighted(items, (item) => item.id === 'b', () => 0.99)?.id).toBe('a');
+    expect(pickWeighted(items.slice(0, 1), () => true, () => 0)?.id).toBe('a');
+    expect(pickWeighted([], undefined, () => 0)).toBeNull();
+  });
+});
+
+describe('createRotationState', () => {
+  it('rotates only what is randomized', () => {
+    expect(isRotationEnabled(markets(['R_10']))).toBe(true);
+    expect(isRotationEnabled({ ...markets(['R_10']), marketRandomize: false })).toBe(false);
+    expect(isRotationEnabled({ predictionRandomize: true, rotation: { predictions: [{ prediction: '5', weight: 0 }] } })).toBe(false);
+  });
+
+  it('draws the first market and prediction and applies them to the contract', () => {
+    const contract = {
+      ...markets(['R_10', 'R_50']),
+      contractType: 'DIGITMATCH',
+      prediction: 5,
+      predictionRandomize: true,
+      rotation: { markets: [{ symbol: 'R_10' }, { symbol: 'R_50' }], predictions: [{ prediction: '3' }, { prediction: '7' }] },
+    };
+    const state = createRotationState(contract, { random: rolls(0.9, 0.1) });
+
+    expect(state).toMatchObject({ symbol: 'R_50', prediction: '3', reason: 'start', rotations: 0 });
+    expect(applyRotation(contract, state)).toMatchObject({ market: { symbol: 'R_50' }, symbol: 'R_50', prediction: '3' });
+    expect(applyRotation(contract, null)).toBe(contract);
+  });
+
+  it('leaves closed markets out of the draw', () => {
+    const state = createRotationState(markets(['OTC_NDX', 'R_10']), { isOpen: (symbol) => symbol !== 'OTC_NDX', random: () => 0 });
+
+    expect(state.symbol).toBe('R_10');
+  });
+});
+
+describe('advanceRotation', () => {
+  it('rotates every everyTrades trades and never redraws the current market', () => {
+    const contract = markets(['R_10', 'R_50'], { trigger: 'trades', everyTrades: 2 });
+    const start = createRotationState(contract, { random: () => 0 });
+
+    const once = advanceRotation(contract, start, { isWin: true }, { random: () => 0 });
+    expect(once).toMatchObject({ rotated: false, state: { symbol: 'R_10', trades: 1 } });
+
+    const twice = advanceRotation(contract, once.state, { isWin: true }, { random: () => 0 });
+    expect(twice).toMatchObject({ rotated: true, state: { symbol: 'R_50', reason: 'trades', rotations: 1, trades: 0, tradeCount: 2 } });
+  });
+
+  it('rotates on a loss or a loss streak', () => {
+    const onLoss = markets(['R_10', 'R_50'], { trigger: 'loss' });
+    const onStreak = markets(['R_10', 'R_50'], { trigger: 'loss_streak', lossStreak: 2 });
+
+    expect(rotate(onLoss, createRotationState(onLoss, { random: () => 0 }), [{ isWin: true }, { isWin: false }]))
+      .toMatchObject({ symbol: 'R_50', rotations: 1 });
+    // A win in between restarts the streak
+    expect(rotate(onStreak, createRotationState(onStreak, { random: () => 0 }), [{ isWin: false }, { isWin: true }, { isWin: false }]))
+      .toMatchObject({ symbol: 'R_10', rotations: 0, lossStreak: 1 });
+    expect(rotate(onStreak, createRotationState(onStreak, { random: () => 0 }), [{ isWin: false }, { isWin: false }]))
+      .toMatchObject({ symbol: 'R_50', rotations: 1, lossStreak: 0 });
+  });
+
+  it('keeps a losing symbol out for exclusionTrades trades', () => {
+    const contract = markets(['R_10', 'R_50', 'R_75'], { trigger: 'trades', excludeLosingSymbols: true, exclusionTrades: 2 });
+    // R_10 loses, then R_50 is drawn and loses too: R_10 is still excluded, so R_75 is the only choice
+    const state = rotate(contract, createRotationState(contract, { random: () => 0 }), [
+      { isWin: false, symbol: 'R_10' },
+      { isWin: false, symbol: 'R_50' },
+    ]);
+
+    expect(state).toMatchObject({ symbol: 'R_75', lastLosses: { R_10: 1, R_50: 2 } });
+    // Two trades on, R_10 is back in the draw
+    expect(rotate(contract, state, [{ isWin: true, symbol: 'R_75' }]).symbol).toBe('R_10');
+  });
+});
+
+describe('ensureOpenMarket', () => {
+  const contract = markets(['OTC_NDX', 'R_10']);
+  const state = { ...createRotationState(contract, { random: () => 0 }), prediction: '4' };
+
+  it('swaps a closed market for an open one and keeps the prediction', () => {
+    expect(ensureOpenMarket(contract, state, { isOpen: (symbol) => symbol !== 'OTC_NDX' })).toMatchObject({
+      rotated: true,
+      state: { symbol: 'R_10', prediction: '4', reason: 'market_closed', rotations: 1 },
+    });
+  });
+
+  it('stays put without a calendar or an open alternative', () => {
+    expect(ensureOpenMarket(contract, state).rotated).toBe(false);
+    expect(ensureOpenMarket(contract, state, { isOpen: () => false }).rotated).toBe(false);
+  });
+});
+
+describe('contract rotation in the trade cycle', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /** Executor that loses every trade and records the symbols */
+  class LosingExecutor extends EventEmitter {
+    symbols: string[] = [];
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: contract.market.symbol };
+    }
+
+    async executeTrade(params: any) {
+      this.symbols.push(params.symbol);
+      return { contractId: String(this.symbols.length), symbol: params.symbol, stake: params.amount, payout: 0, profit: -params.amount, isWin: false };
+    }
+  }
+
+  it('moves to another market after each loss', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const executor = new LosingExecutor();
+    const manager = TradingBotManager.fromFormData({
+      strategyId: 'martingale',
+      contract: {
+        contractType: 'CALL',
+        market: { symbol: 'R_100' },
+        delay: 1,
+        marketRandomize: true,
+        rotation: { markets: [{ symbol: 'R_10' }, { symbol: 'R_50' }], trigger: 'loss' },
+      },
+      amounts: {
+        base_stake: { type: 'fixed', value: 1 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+    }, executor);
+    manager.setTradingCalendar(null);
+    const reasons: string[] = [];
+    manager.on('contract_rotated', (event: { reason: string }) => reasons.push(event.reason));
+
+    manager.beginSimulation();
+    for (let i = 0; i < 3; i++) await manager.runSimulationCycle();
+    await manager.endSimulation();
+    manager.destroy();
+
+    expect(executor.symbols).toEqual(['R_10', 'R_50', 'R_10']);
+    expect(reasons).toEqual(['loss', 'loss', 'loss']);
+    expect(manager.getRotation()).toMatchObject({ symbol: 'R_50', rotations: 3 });
+  });
+});
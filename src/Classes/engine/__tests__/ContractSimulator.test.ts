@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildSimulatedTradeResult,
+  getLastDigit,
+  inferPipSize,
+  settleContract,
+} from '../ContractSimulator';
+import type { Tick } from '../ContractSimulator';
+
+/** One tick a second from epoch 1000 */
+function ticks(...quotes: number[]): Tick[] {
+  return quotes.map((quote, i) => ({ epoch: 1000 + i, quote }));
+}
+
+const digit = (contractType: string, barrier?: number) => ({
+  amount: 10, contract_type: contractType, currency: 'USD', symbol: 'R_100', duration: 1, duration_unit: 't',
+  ...(barrier !== undefined && { barrier }),
+});
+
+describe('getLastDigit', () => {
+  it('reads the last digit at the pip size, trailing zeros included', () => {
+    expect(getLastDigit(123.45)).toBe(5);
+    expect(getLastDigit(123.4)).toBe(0);
+    expect(getLastDigit(123.456, 3)).toBe(6);
+  });
+
+  it('infers the pip size from the quotes', () => {
+    expect(inferPipSize(ticks(1.5, 1.234, 1.2))).toBe(3);
+    expect(inferPipSize(ticks(100, 101))).toBe(2);
+  });
+});
+
+describe('settleContract', () => {
+  it('settles a 1-tick digit contract on the tick after the purchase', () => {
+    const history = ticks(100.11, 100.24, 100.37);
+    const outcome = settleContract(digit('DIGITEVEN'), history, 0);
+    expect(outcome).toMatchObject({ isWin: true, entryIndex: 1, exitIndex: 1, lastDigit: 4 });
+    expect(settleContract(digit('DIGITODD'), history, 0)?.isWin).toBe(false);
+    expect(settleContract(digit('DIGITOVER', 3), history, 0)?.isWin).toBe(true);
+    expect(settleContract(digit('DIGITUNDER', 4), history, 0)?.isWin).toBe(false);
+    expect(settleContract(digit('DIGITMATCH', 4), history, 0)?.isWin).toBe(true);
+    expect(settleContract(digit('DIGITDIFF', 4), history, 0)?.isWin).toBe(false);
+  });
+
+  it('settles an N-tick digit contract on the N-th tick after the purchase', () => {
+    const outcome = settleContract({ ...digit('DIGITEVEN'), duration: 2 }, ticks(1.01, 1.02, 1.03), 0);
+    expect(outcome).toMatchObject({ exitIndex: 2, lastDigit: 3, isWin: false });
+  });
+
+  it('compares rise/fall exits with the entry spot, ties only winning CALLE / PUTE', () => {
+    const params = { ...digit('CALL'), duration: 2 };
+    const history = ticks(10, 11, 12, 11);
+    expect(settleContract(params, history, 0)).toMatchObject({ entryIndex: 1, exitIndex: 3, isWin: false });
+
+    const flat = ticks(10, 11, 12, 11.0);
+    expect(settleContract({ ...params, contract_type: 'PUT' }, flat, 0)?.isWin).toBe(false);
+    expect(settleContract({ ...params, contract_type: 'PUTE' }, flat, 0)?.isWin).toBe(true);
+    expect(settleContract({ ...params, contract_type: 'CALLE' }, flat, 0)?.isWin).toBe(true);
+  });
+
+  it('settles time-based durations on the last tick before expiry, once the window closed', () => {
+    const params = { ...digit('CALL'), duration: 2, duration_unit: 's' };
+    expect(settleContract(params, ticks(10, 11, 12, 13, 9), 0)).toMatchObject({ exitIndex: 3, isWin: true });
+    expect(settleContract(params, ticks(10, 11, 12, 13), 0)).toBeNull();
+  });
+
+  it('returns null while the history ends before expiry', () => {
+    expect(settleContract(digit('DIGITEVEN'), ticks(1.01), 0)).toBeNull();
+    expect(settleContract({ ...digit('CALL'), duration: 5 }, ticks(1, 2, 3), 0)).toBeNull();
+  });
+
+  it('throws for contract types it cannot settle', () => {
+    expect(() => settleContract(digit('ONETOUCH'), ticks(1, 2, 3), 0)).toThrow('Unsupported contract type');
+  });
+});
+
+describe('settleContract — multipliers', () => {
+  const multiplier = (overrides: Record<string, any> = {}) => ({
+    amount: 10, contract_type: 'MULTUP', currency: 'USD', symbol: 'R_100', multiplier: 100, duration: 0, ...overrides,
+  });
+
+  it('closes on the take profit', () => {
+    const outcome = settleContract(multiplier({ limit_order: { take_profit: 5 } }), ticks(100, 100, 100.2, 100.6), 0);
+    expect(outcome).toMatchObject({ closedBy: 'take_profit', exitIndex: 3, profit: 6, isWin: true });
+  });
+
+  it('closes on the stop loss, and stops out at the stake', () => {
+    const stopLoss = settleContract(multiplier({ limit_order: { stop_loss: 3 } }), ticks(100, 100, 99.8, 99.6), 0);
+    expect(stopLoss).toMatchObject({ closedBy: 'stop_loss', exitIndex: 3, profit: -4, isWin: false });
+
+    const stopOut = settleContract(multiplier({ contract_type: 'MULTDOWN' }), ticks(100, 100, 101.5), 0);
+    expect(stopOut).toMatchObject({ closedBy: 'stop_out', profit: -10 });
+  });
+
+  it('closes at the holding time and stays open without a limit', () => {
+    const held = settleContract(multiplier({ duration: 2, duration_unit: 't' }), ticks(100, 100, 100.01, 100.02, 100.03), 0);
+    expect(held).toMatchObject({ closedBy: 'hold_expired', exitIndex: 3, profit: 0.2 });
+    expect(settleContract(multiplier(), ticks(100, 100, 100.01, 100.02), 0)).toBeNull();
+  });
+});
+
+describe('buildSimulatedTradeResult', () => {
+  it('pays the stake plus the payout rate on a win and nothing on a loss', () => {
+    const history = ticks(100.11, 100.24);
+    const params = digit('DIGITEVEN');
+    const win = buildSimulatedTradeResult(params, settleContract(params, history, 0)!, { payoutRate: 95, ticks: history });
+    expect(win).toMatchObject({ stake: 10, payout: 19.5, sellPrice: 19.5, profit: 9.5, isWin: true, status: 'won', lastDigit: 4 });
+    expect(win.auditDetails).toEqual([{ epoch: 1001, tick: 100.24, tick_display_value: '100.24' }]);
+
+    const odd = { ...params, contract_type: 'DIGITODD' };
+    const loss = buildSimulatedTradeResult(odd, settleContract(odd, history, 0)!, { payoutRate: 95 });
+    expect(loss).toMatchObject({ payout: 0, sellPrice: 0, profit: -10, profitPercentage: -100, status: 'lost' });
+  });
+
+  it('books a multiplier\'s profit at the exit tick', () => {
+    const params = { amount: 10, contract_type: 'MULTUP', currency: 'USD', symbol: 'R_100', multiplier: 100, limit_order: { take_profit: 5 } };
+    const result = buildSimulatedTradeResult(params, settleContract(params, ticks(100, 100, 100.6), 0)!);
+    expect(result).toMatchObject({ sellPrice: 16, payout: 16, profit: 6, closedBy: 'take_profit', multiplier: 100 });
+  });
+});
@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { DecisionJournal, diffState, replayJournal } from '../DecisionJournal';
+import type { JournalEntry, JournalState } from '../DecisionJournal';
+import { MemoryJournalStore } from '../JournalStore';
+import { TradingBotManager } from '../TradingBotManager';
+
+function stateOf(session: Record<string, any>, status = 'START'): JournalState {
+  return { status, session, realtimePerformance: {}, statistics: {}, strategyState: {} };
+}
+
+describe('diffState', () => {
+  it('compares sections key by key and anything else as a whole', () => {
+    expect(diffState(
+      { status: 'START', session: { stake: 1, losses: 0 } },
+      { status: 'PAUSE', session: { stake: 2, losses: 0, streak: [1] } },
+    )).toEqual({
+      status: ['START', 'PAUSE'],
+      'session.stake': [1, 2],
+      'session.streak': [null, [1]],
+    });
+  });
+});
+
+describe('DecisionJournal', () => {
+  it('numbers the entries of a run and stores the state delta of each', () => {
+    const journal = new DecisionJournal({ key: 'bot-1' });
+    expect(journal.record({ type: 'cycle', time: 0 }, stateOf({}))).toBeNull();
+
+    const started = journal.startRun(stateOf({ stake: 1 }), { strategyId: 'martingale' }, 1000);
+    const cycle = journal.record({ type: 'cycle', time: 2000, outcome: 'traded' }, stateOf({ stake: 2 }));
+    const ended = journal.endRun(stateOf({ stake: 2 }, 'STOP'), 'take_profit', 3000);
+
+    expect(started).toMatchObject({ type: 'run_started', seq: 0, botId: 'bot-1', meta: { strategyId: 'martingale' }, delta: {} });
+    expect(cycle).toMatchObject({ seq: 1, runId: started?.runId, delta: { 'session.stake': [1, 2] } });
+    expect(ended).toMatchObject({ seq: 2, reason: 'take_profit', delta: { status: ['START', 'STOP'] } });
+    expect(journal.runId).toBeNull();
+  });
+
+  it('records nothing when disabled and keeps maxEntries in memory', () => {
+    expect(new DecisionJournal({ key: 'bot-1', enabled: false }).startRun(stateOf({}))).toBeNull();
+
+    const journal = new DecisionJournal({ key: 'bot-1', maxEntries: 2 });
+    journal.startRun(stateOf({}));
+    journal.record({ type: 'cycle', time: 1 }, stateOf({}));
+    journal.record({ type: 'cycle', time: 2 }, stateOf({}));
+
+    expect(journal.getEntries().map((entry) => entry.seq)).toEqual([1, 2]);
+  });
+
+  it('writes every entry to the store in order', async () => {
+    const store = new MemoryJournalStore();
+    const journal = new DecisionJournal({ key: 'bot-1', store });
+    journal.startRun(stateOf({}));
+    journal.record({ type: 'cycle', time: 1 }, stateOf({}));
+
+    expect((await journal.load()).map((entry) => entry.seq)).toEqual([0, 1]);
+    await journal.clear();
+    expect(await store.load('bot-1')).toEqual([]);
+  });
+
+  it('keeps the entries a failed sync could not send for the next one', async () => {
+    const journal = new DecisionJournal({ key: 'bot-1' });
+    journal.startRun(stateOf({}));
+    journal.record({ type: 'cycle', time: 1 }, stateOf({}));
+
+    await expect(journal.sync(async () => { throw new Error('Offline'); })).rejects.toThrow('Offline');
+    expect(journal.unsyncedCount).toBe(2);
+
+    const sent: JournalEntry[][] = [];
+    expect(await journal.sync(async (entries) => { sent.push(entries); })).toBe(2);
+    expect(journal.unsyncedCount).toBe(0);
+    expect(sent[0].map((entry) => entry.seq)).toEqual([0, 1]);
+  });
+
+  it('builds cycle and settlement entries and says when a sync is due', () => {
+    const journal = new DecisionJournal({ key: 'bot-1', syncEveryN: 3 });
+    journal.startRun(stateOf({}));
+    const trace = { checks: [], stake: null, params: null };
+
+    expect(journal.recordCycle(trace, { traded: false, check: { reason: 'Cooldown' } }, null, stateOf({}), 1))
+      .toMatchObject({ type: 'cycle', outcome: 'skipped', reason: 'Cooldown', error: null });
+    expect(journal.syncDue).toBe(false);
+    expect(journal.recordCycle(trace, null, new Error('Offline'), stateOf({}), 2))
+      .toMatchObject({ outcome: 'error', reason: null, error: 'Offline' });
+    expect(journal.recordSettlement({ contractId: '7', stake: 1, profit: -1, isWin: false }, null, stateOf({}), 3))
+      .toMatchObject({ type: 'settlement', outcome: 'traded', result: { contractId: '7', profit: -1 } });
+    expect(journal.syncDue).toBe(true);
+
+    journal.syncEveryN = null;
+    expect(journal.syncDue).toBe(false);
+  });
+});
+
+describe('replayJournal', () => {
+  function run() {
+    const journal = new DecisionJournal({ key: 'bot-1' });
+    journal.startRun(stateOf({ stake: 1 }));
+    journal.record({ type: 'cycle', time: 1, outcome: 'traded', result: { profit: -1 } }, stateOf({ stake: 2 }));
+    journal.record({ type: 'cycle', time: 2, outcome: 'skipped', reason: 'Cooldown' }, stateOf({ stake: 2 }));
+    journal.record({ type: 'settlement', time: 3, outcome: 'error' }, stateOf({ stake: 4 }));
+    journal.endRun(stateOf({ stake: 4 }, 'STOP'));
+    return journal.getEntries();
+  }
+
+  it('rebuilds the final state from the deltas and checks it against the last snapshot', () => {
+    expect(replayJournal(run())).toMatchObject({
+      seq: 4,
+      state: { status: 'STOP', session: { stake: 4 } },
+      trades: [{ profit: -1 }],
+      cycles: 2,
+      skipped: { Cooldown: 1 },
+      errors: 1,
+      verified: true,
+      mismatches: [],
+    });
+  });
+
+  it('stops at upToSeq and reports a snapshot the deltas do not reach', () => {
+    const entries = run();
+    expect(replayJournal(entries, { upToSeq: 1 })).toMatchObject({ seq: 1, state: { session: { stake: 2 } }, verified: null });
+
+    const tampered = entries.map((entry) => (entry.seq === 3 ? { ...entry, delta: {} } : entry));
+    expect(replayJournal(tampered)).toMatchObject({ verified: false, mismatches: ['session.stake'] });
+  });
+
+  it('needs the start of the run', () => {
+    expect(replayJournal(run().slice(1))).toMatchObject({ state: null, cycles: 0 });
+  });
+});
+
+describe('decision journal in the trade cycle', () => {
+  /** Executor that loses every trade and takes journal entries for the bot API */
+  class LosingExecutor extends EventEmitter {
+    trades = 0;
+    synced: JournalEntry[][] = [];
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100' };
+    }
+
+    async executeTrade(params: any) {
+      this.trades += 1;
+      return { contractId: String(this.trades), stake: params.amount, payout: 0, profit: -params.amount, isWin: false };
+    }
+
+    async appendJournalEntries(_uuid: string, entries: JournalEntry[]) {
+      this.synced.push(entries);
+    }
+  }
+
+  it('journals every cycle, replays to the final state and syncs in batches', async () => {
+    const executor = new LosingExecutor();
+    const manager = TradingBotManager.fromFormData({
+      botId: 'bot-1',
+      strategyId: 'martingale',
+      contract: { contractType: 'CALL', market: { symbol: 'R_100' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 1 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+    }, executor);
+    manager.setTradingCalendar(null);
+    manager.setJournalStore(new MemoryJournalStore(), { syncToAPI: true, syncEveryNEntries: 3 });
+
+    manager.beginSimulation();
+    for (let i = 0; i < 3; i++) await manager.runSimulationCycle();
+    await manager.endSimulation();
+    const entries: JournalEntry[] = await manager.loadJournal();
+    manager.destroy();
+
+    const replay = replayJournal(entries);
+    expect(replay).toMatchObject({ cycles: 3, verified: true });
+    expect(replay.trades.map((trade) => trade.stake)).toEqual([1, 2, 4]);
+    expect(entries.find((entry) => entry.type === 'cycle')).toMatchObject({
+      outcome: 'traded',
+      stake: { stake: 1, source: 'strategy' },
+      params: { amount: 1, contract_type: 'CALL' },
+    });
+    // Synced once the batch was full, and the rest on stop
+    expect(executor.synced.flat()).toHaveLength(entries.length);
+    expect(executor.synced.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { DerivError, classifyDerivError, getRetryAfterMs } from '../DerivErrors';
+
+describe('classifyDerivError', () => {
+  it('maps Deriv error codes to a type and reaction', () => {
+    const cases: Array<[string, string, string]> = [
+      ['InsufficientBalance', 'insufficient_balance', 'stop'],
+      ['SelfExclusion', 'account_restricted', 'stop'],
+      ['MarketIsClosed', 'market_closed', 'wait_for_market'],
+      ['RateLimit', 'rate_limit', 'back_off'],
+      ['InvalidToken', 'authorization', 'reauthorize'],
+      ['PriceMoved', 'invalid_proposal', 'reprice'],
+      ['ContractBuyValidationError', 'buy_validation', 'reprice'],
+    ];
+    for (const [code, type, reaction] of cases) {
+      const error = classifyDerivError({ error: { code, message: code } });
+      expect(error).toBeInstanceOf(DerivError);
+      expect([error.code, error.type, error.reaction]).toEqual([code, type, reaction]);
+      expect(error.retryable).toBe(false);
+    }
+  });
+
+  it('classifies the executors\' own codes', () => {
+    const error = classifyDerivError(Object.assign(new Error('Invalid contract params'), { code: 'VALIDATION_ERROR' }));
+    expect(error.type).toBe('invalid_proposal');
+  });
+
+  it('treats timeouts and dropped sockets as retryable connection errors', () => {
+    for (const message of ['Contract creation timed out', 'socket closed', 'Network error']) {
+      const error = classifyDerivError(new Error(message));
+      expect(error.type).toBe('connection');
+      expect(error.retryable).toBe(true);
+    }
+  });
+
+  it('retries unrecognised errors, but never reads a Deriv response as a connection error', () => {
+    const unknown = classifyDerivError(new Error('Something odd'));
+    expect(unknown.type).toBe('unknown');
+    expect(unknown.retryable).toBe(true);
+
+    const response = classifyDerivError({ error: { code: 'WrongResponse', message: 'connection reset by Deriv' } });
+    expect(response.type).toBe('unknown');
+  });
+
+  it('recognises HTTP 429 as a rate limit', () => {
+    expect(classifyDerivError({ status: 429, message: 'Too many requests' }).type).toBe('rate_limit');
+    expect(classifyDerivError({ response: { status: 429 }, message: 'Too many requests' }).type).toBe('rate_limit');
+  });
+
+  it('classifies executor wrappers by the error they wrap', () => {
+    const lastError = { error: { code: 'MarketIsClosed', message: 'closed' } };
+    const error = classifyDerivError(Object.assign(new Error('All 3 trade attempts failed'), {
+      code: 'TRADE_EXECUTION_FAILED',
+      lastError,
+    }));
+    expect(error.type).toBe('market_closed');
+  });
+
+  it('returns DerivErrors as they are', () => {
+    const error = classifyDerivError(new Error('socket closed'));
+    expect(classifyDerivError(error)).toBe(error);
+  });
+
+  it('never retries a failure after the contract was bought', () => {
+    const error = classifyDerivError(Object.assign(new Error('socket closed'), { purchased: true, contractId: 123 }));
+    expect(error.reaction).toBe('retry');
+    expect(error.purchased).toBe(true);
+    expect(error.contractId).toBe('123');
+    expect(error.retryable).toBe(false);
+
+    const withoutId = classifyDerivError(Object.assign(new Error('timed out'), { purchased: true }));
+    expect(withoutId.contractId).toBeNull();
+    expect(withoutId.retryable).toBe(false);
+  });
+
+  it('reads the wait of a rate limit from its headers', () => {
+    const error = classifyDerivError({ status: 429, message: 'slow down', headers: { 'Retry-After': '7' } });
+    expect(error.retryAfterMs).toBe(7000);
+    expect(classifyDerivError(new Error('socket closed')).retryAfterMs).toBeNull();
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  const now = Date.UTC(2026, 0, 1, 12, 0, 0);
+
+  it('reads Retry-After in seconds or as an HTTP date', () => {
+    expect(getRetryAfterMs({ headers: { 'retry-after': '2' } }, now)).toBe(2000);
+    expect(getRetryAfterMs({ headers: { 'Retry-After': new Date(now + 30000).toUTCString() } }, now)).toBe(30000);
+  });
+
+  it('reads X-RateLimit-Reset as epoch seconds or seconds from now', () => {
+    expect(getRetryAfterMs({ headers: { 'x-ratelimit-reset': String(now / 1000 + 10) } }, now)).toBe(10000);
+    expect(getRetryAfterMs({ headers: { 'X-RateLimit-Reset': '5' } }, now)).toBe(5000);
+  });
+
+  it('supports fetch Headers and never returns a negative wait', () => {
+    expect(getRetryAfterMs({ response: { headers: new Headers({ 'Retry-After': '3' }) } }, now)).toBe(3000);
+    expect(getRetryAfterMs({ headers: { 'Retry-After': new Date(now - 5000).toUTCString() } }, now)).toBe(0);
+  });
+
+  it('returns null without rate-limit headers', () => {
+    expect(getRetryAfterMs({}, now)).toBeNull();
+    expect(getRetryAfterMs(null, now)).toBeNull();
+  });
+});
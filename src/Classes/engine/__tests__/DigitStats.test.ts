@@ -0,0 +1,190 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { DigitAnalysisService, DigitStatsTracker, evaluateDigitEntry } from '../DigitStats';
+import type { DigitStats } from '../DigitStats';
+import type { StreamTick } from '../TickSource';
+import { TradingBotManager } from '../TradingBotManager';
+
+function statsOf(digits: number[]): DigitStats {
+  const tracker = new DigitStatsTracker({ sampleSize: digits.length });
+  digits.forEach((digit) => tracker.addDigit(digit));
+  return tracker.getStats() as DigitStats;
+}
+
+/** Tick source the test pushes ticks through */
+function manualTickSource() {
+  const listeners = new Map<string, (tick: StreamTick) => void>();
+  return {
+    listeners,
+    subscribe(symbol: string, onTick: (tick: StreamTick) => void) {
+      listeners.set(symbol, onTick);
+      return { unsubscribe: () => listeners.delete(symbol) };
+    },
+  };
+}
+
+describe('DigitStatsTracker', () => {
+  it('keeps the last sampleSize digits with their streak and parity run', () => {
+    const tracker = new DigitStatsTracker({ symbol: 'R_100', sampleSize: 5 });
+    expect(tracker.getStats()).toBeNull();
+    [1, 2, 2, 3, 4, 4].forEach((digit, i) => tracker.addDigit(digit, 1000 + i));
+
+    expect(tracker.getStats()).toMatchObject({
+      symbol: 'R_100',
+      sampleSize: 5,
+      counts: [0, 0, 2, 1, 2, 0, 0, 0, 0, 0],
+      lastDigit: 4,
+      recentDigits: [2, 2, 3, 4, 4],
+      mostFrequent: 2,
+      leastFrequent: 0,
+      evenPercentage: 80,
+      oddPercentage: 20,
+      streak: { digit: 4, length: 2 },
+      parityRun: { parity: 'even', length: 2 },
+      epoch: 1005,
+    });
+
+    tracker.setSampleSize(2);
+    expect(tracker.getStats()?.recentDigits).toEqual([4, 4]);
+  });
+
+  it('reads the last digit at the pip size, trailing zeros included', () => {
+    const tracker = new DigitStatsTracker({ sampleSize: 3 });
+    tracker.addTick({ quote: 100.1, pipSize: 2 });
+    tracker.addTick({ quote: 100.25 });
+    tracker.addTick({ quote: NaN });
+
+    expect(tracker.getStats()?.recentDigits).toEqual([0, 5]);
+  });
+});
+
+describe('DigitAnalysisService', () => {
+  it('shares one subscription per symbol between its watchers', () => {
+    const source = manualTickSource();
+    const service = new DigitAnalysisService({ tickSource: source, sampleSize: 10 });
+    service.watch('R_100');
+    service.watch('R_100');
+
+    source.listeners.get('R_100')?.({ epoch: 1, quote: 100.37, pipSize: 2 });
+    expect(service.getStats('R_100')?.lastDigit).toBe(7);
+
+    service.unwatch('R_100');
+    expect(source.listeners.has('R_100')).toBe(true);
+    service.unwatch('R_100');
+    expect(source.listeners.has('R_100')).toBe(false);
+    service.destroy();
+  });
+
+  it('warms a window up from ticks_history and only ever widens it', async () => {
+    const service = new DigitAnalysisService({ sampleSize: 3 });
+    const connection = {
+      send: async () => ({ history: { times: [1, 2, 3, 4], prices: [1.21, 1.22, 1.23, 1.24] }, pip_size: 2 }),
+    };
+
+    await service.warmUp(connection, 'R_10', 4);
+    expect(service.getStats('R_10')?.recentDigits).toEqual([2, 3, 4]);
+
+    service.ensureSampleSize(2);
+    expect(service.sampleSize).toBe(3);
+    service.ensureSampleSize(5);
+    service.addTick('R_10', { quote: 1.25, pipSize: 2 });
+    expect(service.getStats('R_10')?.recentDigits).toEqual([2, 3, 4, 5]);
+    service.destroy();
+  });
+});
+
+describe('evaluateDigitEntry', () => {
+  // 3 never shows up, 7 shows up most; the last digit is 0
+  const stats = statsOf([7, 7, 7, 1, 2, 4, 5, 6, 8, 9, 0]);
+
+  it('allows non-digit contracts and waits for a full sample', () => {
+    expect(evaluateDigitEntry(null, { contract_type: 'CALL' }, { digit_filter: true, prediction_mode: 'least_frequent' }))
+      .toMatchObject({ action: 'allow' });
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITDIFF' }, { prediction_mode: 'least_frequent', digit_sample_size: 50 }))
+      .toMatchObject({ action: 'wait', reason: 'Collecting digit statistics' });
+  });
+
+  it('picks the prediction within the range Deriv accepts for the contract', () => {
+    const settings = (mode: string) => ({ prediction_mode: mode, digit_sample_size: 11 });
+
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITMATCH', barrier: 5 }, settings('least_frequent')).barrier).toBe('3');
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITMATCH', barrier: 5 }, settings('most_frequent')).barrier).toBe('7');
+    // A last digit of 0 can't be a DIGITUNDER barrier
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITUNDER', barrier: 5 }, settings('last_digit')).barrier).toBe('1');
+    expect(evaluateDigitEntry(null, { contract_type: 'DIGITOVER', barrier: 5 }, settings('random'), () => 0.999).barrier).toBe('8');
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITMATCH', barrier: 5 }, settings('static')).barrier).toBeUndefined();
+  });
+
+  it('trades EVEN / ODD after a run of the opposite parity, or the same one with continuation', () => {
+    const oddRun = statsOf([2, 1, 3, 5]);
+    const settings = { parity_run_length: 3, digit_sample_size: 4 };
+
+    expect(evaluateDigitEntry(oddRun, { contract_type: 'DIGITEVEN' }, settings)).toMatchObject({ action: 'allow' });
+    expect(evaluateDigitEntry(oddRun, { contract_type: 'DIGITODD' }, settings))
+      .toMatchObject({ action: 'skip', reason: 'Waiting for 3 even digits in a row (3 odd)' });
+    expect(evaluateDigitEntry(oddRun, { contract_type: 'DIGITODD' }, { ...settings, parity_entry: 'continuation' }))
+      .toMatchObject({ action: 'allow' });
+  });
+
+  it('skips a contract that would have lost too often over the sample', () => {
+    const settings = { min_sample_win_rate: 20, digit_sample_size: 11 };
+
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITMATCH', barrier: 7 }, settings))
+      .toMatchObject({ action: 'allow', sampleWinRate: 27.27 });
+    expect(evaluateDigitEntry(stats, { contract_type: 'DIGITOVER', barrier: 8 }, settings))
+      .toMatchObject({ action: 'skip', reason: 'DIGITOVER would have won 9.09% of the last 11 ticks (< 20%)' });
+  });
+});
+
+describe('digit filter in the trade cycle', () => {
+  /** Executor that wins every trade and records the predictions */
+  class WinningExecutor extends EventEmitter {
+    barriers: string[] = [];
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100', barrier: contract.prediction };
+    }
+
+    async executeTrade(params: any) {
+      this.barriers.push(params.barrier);
+      return { contractId: String(this.barriers.length), stake: params.amount, payout: params.amount * 2, profit: params.amount, isWin: true };
+    }
+  }
+
+  it('waits for the sample, then predicts the least frequent digit', async () => {
+    const executor = new WinningExecutor();
+    const manager = TradingBotManager.fromFormData({
+      strategyId: 'martingale',
+      contract: { contractType: 'DIGITMATCH', prediction: '5', market: { symbol: 'R_100' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 1 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+      advanced_settings: {
+        digit_analysis_section: { digit_filter: true, prediction_mode: 'least_frequent', digit_sample_size: 10 },
+      },
+    }, executor);
+    const digits = new DigitAnalysisService({ sampleSize: 10 });
+    manager.setDigitAnalysis(digits);
+    manager.setTradingCalendar(null);
+
+    manager.beginSimulation();
+    const waiting = await manager.runSimulationCycle();
+    [0, 1, 2, 4, 5, 6, 7, 8, 9, 0].forEach((digit, i) => digits.addTick('R_100', { epoch: i, quote: 100 + digit / 100, pipSize: 2 }));
+    await manager.runSimulationCycle();
+    await manager.endSimulation();
+    manager.destroy();
+    digits.destroy();
+
+    expect(waiting).toMatchObject({ traded: false, check: { reason: 'Collecting digit statistics' } });
+    expect(executor.barriers).toEqual(['3']);
+  });
+});
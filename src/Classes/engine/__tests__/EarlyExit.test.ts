@@ -0,0 +1,106 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { evaluateEarlyExit, isEarlyExitEnabled, recordEarlyExit } from '../EarlyExit';
+import { TradingBotManager } from '../TradingBotManager';
+
+const settings = { early_exit: true, exit_profit_percentage: 30, exit_bid_below: 5, exit_loss_after_ticks: 3 };
+
+describe('evaluateEarlyExit', () => {
+  it('sells once the profit reaches exit_profit_percentage of the stake', () => {
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: 12.9, ticks: 1 })).toBeNull();
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: 13, ticks: 1 }))
+      .toEqual({ reason: 'profit_target', profit: 3, bidPrice: 13, ticks: 1 });
+  });
+
+  it('sells once the bid falls below exit_bid_below', () => {
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: 4.5, ticks: 1 })).toMatchObject({ reason: 'bid_below', profit: -5.5 });
+  });
+
+  it('sells a losing contract after exit_loss_after_ticks', () => {
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: 9, ticks: 2 })).toBeNull();
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: 9, ticks: 3 })).toMatchObject({ reason: 'loss_after_ticks', profit: -1 });
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: 10.5, ticks: 3 })).toBeNull();
+  });
+
+  it('needs the switch on, a rule set and a price', () => {
+    expect(isEarlyExitEnabled({ ...settings, early_exit: false })).toBe(false);
+    expect(isEarlyExitEnabled({ early_exit: true, exit_profit_percentage: null, exit_bid_below: 0 })).toBe(false);
+    expect(evaluateEarlyExit({ ...settings, early_exit: false }, { stake: 10, bidPrice: 20, ticks: 1 })).toBeNull();
+    expect(evaluateEarlyExit(settings, { stake: 10, bidPrice: NaN, ticks: 5 })).toBeNull();
+  });
+});
+
+describe('recordEarlyExit', () => {
+  it('counts the early-closed trades per rule without touching the previous bucket', () => {
+    const first = recordEarlyExit(null, { isWin: true, profit: 3, earlyExit: { reason: 'profit_target' } });
+    const second = recordEarlyExit(first, { isWin: false, profit: -1.25, earlyExit: { reason: 'loss_after_ticks' } });
+
+    expect(first).toEqual({ trades: 1, wins: 1, losses: 0, totalProfit: 3, byReason: { profit_target: 1 } });
+    expect(second).toEqual({
+      trades: 2, wins: 1, losses: 1, totalProfit: 1.75, byReason: { profit_target: 1, loss_after_ticks: 1 },
+    });
+  });
+});
+
+describe('early exit in the trade cycle', () => {
+  /** Executor that sells every contract early at a profit of 3 */
+  class EarlyExitExecutor extends EventEmitter {
+    options: Record<string, any>[] = [];
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100' };
+    }
+
+    async executeTrade(params: any, _token: string, _context: unknown, options: Record<string, any>) {
+      this.options.push(options);
+      const earlyExit = options.earlyExit ? { reason: 'profit_target', profit: 3, bidPrice: params.amount + 3, ticks: 2 } : undefined;
+      return { contractId: String(this.options.length), stake: params.amount, payout: params.amount + 3, profit: 3, isWin: true, earlyExit };
+    }
+  }
+
+  async function playTrades(earlyExit: Record<string, any>) {
+    const executor = new EarlyExitExecutor();
+    const manager = TradingBotManager.fromFormData({
+      strategyId: 'martingale',
+      contract: { contractType: 'CALL', market: { symbol: 'R_100' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 10 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+      advanced_settings: { early_exit_section: earlyExit },
+    }, executor);
+    manager.setTradingCalendar(null);
+    let closedEarly = 0;
+    manager.on('trade_closed_early', () => { closedEarly += 1; });
+
+    manager.beginSimulation();
+    await manager.runSimulationCycle();
+    await manager.runSimulationCycle();
+    await manager.endSimulation();
+    manager.destroy();
+    return { executor, closedEarly, statistics: manager.statistics };
+  }
+
+  it('hands the rules to the executor and counts the trades it closed early', async () => {
+    const { executor, closedEarly, statistics } = await playTrades(settings);
+
+    expect(executor.options[0].earlyExit).toEqual(settings);
+    expect(closedEarly).toBe(2);
+    expect(statistics.earlyExitStatistics).toEqual({ trades: 2, wins: 2, losses: 0, totalProfit: 6, byReason: { profit_target: 2 } });
+  });
+
+  it('leaves the contracts to expire with the rules off', async () => {
+    const { executor, statistics } = await playTrades({ ...settings, early_exit: false });
+
+    expect(executor.options[0]).not.toHaveProperty('earlyExit');
+    expect(statistics.earlyExitStatistics).toBeNull();
+  });
+});
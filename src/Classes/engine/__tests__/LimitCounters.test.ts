@@ -0,0 +1,153 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { aggregateLimitCounters, getLimitPeriodStarts } from '../LimitCounters';
+import { TradingBotManager } from '../TradingBotManager';
+
+/** Epoch ms of a UTC wall-clock time in March 2026 (2 March is a Monday) */
+const march = (day: number, hour: number, minute = 0) => Date.UTC(2026, 2, day, hour, minute);
+
+describe('getLimitPeriodStarts', () => {
+  it('defaults to UTC days and weeks starting on Monday', () => {
+    expect(getLimitPeriodStarts(march(4, 13, 20))).toEqual({
+      hour: march(4, 13),
+      day: march(4, 0),
+      week: march(2, 0),
+    });
+  });
+
+  it('starts the day at midnight in limit_reset_timezone and falls back to Monday for a bad week day', () => {
+    // 16:00 UTC is 01:00 on 5 March in Tokyo
+    const starts = getLimitPeriodStarts(march(4, 16), { timeZone: 'Asia/Tokyo', weekStartsOn: 9 });
+
+    expect(starts.day).toBe(march(4, 15));
+    expect(starts.week).toBe(march(1, 15));
+  });
+});
+
+describe('aggregateLimitCounters', () => {
+  const now = march(4, 13, 30);
+
+  it('books gross profit and loss per period from engine trades', () => {
+    const counters = aggregateLimitCounters([
+      { profit: 5, exitTime: march(4, 13, 10) },
+      { profit: -2, exitTime: march(4, 9) },
+      { profit: -3, exitTime: march(3, 9) },
+      { profit: 4, exitTime: march(1, 9) }, // last week
+    ], now);
+
+    expect(counters).toMatchObject({
+      hourlyProfit: 5, hourlyLoss: 0,
+      dailyProfit: 5, dailyLoss: 2,
+      weeklyProfit: 5, weeklyLoss: 5,
+      tradeCount: 3,
+    });
+  });
+
+  it('signs API trades from profit_sign or the win flag, with times in epoch seconds', () => {
+    const seconds = (ms: number) => ms / 1000;
+    const counters = aggregateLimitCounters([
+      { profit_value: '1.5', profit_sign: '-', sell_spot_time: seconds(march(4, 10)) },
+      { profit_value: 2, profit_sign: 1, sell_spot_time: seconds(march(4, 11)) },
+      { profit_value: 3, profit_is_win: false, purchase_time: seconds(march(4, 12)) },
+    ], now);
+
+    expect(counters.dailyLoss).toBe(4.5);
+    expect(counters.dailyProfit).toBe(2);
+  });
+
+  it('skips trades without a time or settled after now', () => {
+    const counters = aggregateLimitCounters([
+      { profit: -1 },
+      { profit: -1, exitTime: march(4, 14) },
+      { profit: -1, createdAt: new Date(march(4, 12)).toISOString() },
+    ], now);
+
+    expect(counters.dailyLoss).toBe(1);
+    expect(counters.tradeCount).toBe(1);
+  });
+
+  it('counts a trade to the day it settled in limit_reset_timezone', () => {
+    const trades = [{ profit: -2, exitTime: march(3, 23, 30) }];
+
+    expect(aggregateLimitCounters(trades, now).dailyLoss).toBe(0);
+    // 23:30 UTC on 3 March is already 4 March in Tokyo
+    expect(aggregateLimitCounters(trades, now, { timeZone: 'Asia/Tokyo' }).dailyLoss).toBe(2);
+  });
+});
+
+describe('manager daily limits', () => {
+  /** Executor that loses every stake */
+  class LosingExecutor extends EventEmitter {
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100' };
+    }
+
+    async executeTrade(params: any) {
+      return { contractId: '1', stake: params.amount, payout: 0, profit: -params.amount, isWin: false };
+    }
+  }
+
+  /** Play martingale losses, moving the clock to each time before its cycle */
+  async function playLosses(timeZone: string | null, times: number[]) {
+    let clock = times[0];
+    const manager = TradingBotManager.fromFormData({
+      botId: 'bot-1',
+      strategyId: 'martingale',
+      contract: { contractType: 'CALL', market: { symbol: 'R_100' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 1 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+      advanced_settings: {
+        risk_management_section: { max_daily_loss: { type: 'fixed', value: 3 }, limit_reset_timezone: timeZone },
+      },
+    }, new LosingExecutor());
+    manager.setClockProvider(() => clock);
+    manager.setTradingCalendar(null);
+
+    const stakes: number[] = [];
+    let stopReason: string | null = null;
+    manager.beginSimulation();
+    for (const time of times) {
+      clock = time;
+      const cycle = await manager.runSimulationCycle();
+      if (!cycle.traded) {
+        stopReason = cycle.check.reason;
+        break;
+      }
+      stakes.push(cycle.result.stake);
+    }
+    const counters = manager.getLimitCounters();
+    await manager.endSimulation();
+    manager.destroy();
+    return { stakes, stopReason, counters };
+  }
+
+  // 14:00 / 14:30 UTC are 23:00 / 23:30 in Tokyo; 15:00 UTC is midnight there
+  const times = [march(4, 14), march(4, 14, 30), march(4, 15), march(4, 15, 30), march(4, 16)];
+
+  it('stops once the loss since midnight reaches max_daily_loss', async () => {
+    const { stakes, stopReason, counters } = await playLosses(null, times);
+
+    expect(stakes).toEqual([1, 2]);
+    expect(stopReason).toBe('Max daily loss reached');
+    expect(counters).toMatchObject({ dailyLoss: 3, weeklyLoss: 3 });
+  });
+
+  it('starts a new daily budget at midnight in limit_reset_timezone', async () => {
+    const { stakes, stopReason, counters } = await playLosses('Asia/Tokyo', times);
+
+    expect(stakes).toEqual([1, 2, 4]);
+    expect(stopReason).toBe('Max daily loss reached');
+    expect(counters).toMatchObject({ dailyLoss: 4, weeklyLoss: 7 });
+    expect(counters.periodStarts.day).toBe(march(4, 15));
+  });
+});
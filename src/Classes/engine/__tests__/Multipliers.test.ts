@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getHoldDuration,
+  getMaxLoss,
+  getMultiplierCloseReason,
+  getMultiplierProfit,
+  resolveLimitOrder,
+  toDerivProposal,
+  validateMultiplierParams,
+} from '../Multipliers';
+
+const multUp = (overrides: Record<string, any> = {}): Record<string, any> => ({
+  amount: 10, contract_type: 'MULTUP', currency: 'USD', symbol: 'R_100', multiplier: 100, ...overrides,
+});
+
+describe('limit orders', () => {
+  it('takes percentages of the trade stake so the limits follow the stake progression', () => {
+    const config = { takeProfit: 50, stopLoss: 20, limitOrderUnits: 'percentage' as const };
+
+    expect(resolveLimitOrder(config, 10)).toEqual({ take_profit: 5, stop_loss: 2 });
+    expect(resolveLimitOrder(config, 40)).toEqual({ take_profit: 20, stop_loss: 8 });
+    expect(resolveLimitOrder({ ...config, limitOrderUnits: 'amount' }, 40)).toEqual({ take_profit: 50, stop_loss: 20 });
+  });
+
+  it('leaves out unset limits', () => {
+    expect(resolveLimitOrder({ takeProfit: 5, stopLoss: 0 }, 10)).toEqual({ take_profit: 5 });
+    expect(resolveLimitOrder({ takeProfit: null, stopLoss: null }, 10)).toBeNull();
+  });
+
+  it('risks the stop loss of a multiplier and the whole stake of anything else', () => {
+    expect(getMaxLoss(multUp({ limit_order: { stop_loss: 3 } }))).toBe(3);
+    expect(getMaxLoss(multUp())).toBe(10);
+    expect(getMaxLoss({ amount: 10, contract_type: 'CALL', limit_order: { stop_loss: 3 } })).toBe(10);
+  });
+});
+
+describe('validateMultiplierParams', () => {
+  it('reports what Deriv would reject', () => {
+    expect(validateMultiplierParams(multUp({ multiplier: 1, limit_order: { stop_loss: 12 }, cancellation: '7m' }))).toEqual([
+      'Multiplier must be greater than 1',
+      'Stop loss cannot exceed the stake',
+      'Deal cancellation must be one of 5m, 10m, 15m, 30m, 60m',
+      'Deal cancellation cannot be combined with a stop loss',
+    ]);
+    expect(validateMultiplierParams(multUp({ limit_order: { take_profit: 5 }, cancellation: '5m' }))).toEqual([]);
+    expect(validateMultiplierParams({ amount: 10, contract_type: 'CALL' })).toEqual([]);
+  });
+});
+
+describe('holding time', () => {
+  it('keeps the holding time out of the Deriv proposal', () => {
+    const params = multUp({ duration: 5, duration_unit: 't' });
+
+    expect(toDerivProposal(params)).not.toHaveProperty('duration');
+    expect(toDerivProposal(params)).not.toHaveProperty('duration_unit');
+    expect(params.duration).toBe(5);
+    expect(toDerivProposal({ contract_type: 'CALL', duration: 5 })).toHaveProperty('duration', 5);
+  });
+
+  it('reads the holding time in ticks or milliseconds', () => {
+    expect(getHoldDuration(multUp({ duration: 5, duration_unit: 'ticks' }))).toEqual({ ticks: 5 });
+    expect(getHoldDuration(multUp({ duration: 2, duration_unit: 'minutes' }))).toEqual({ ms: 120000 });
+    expect(getHoldDuration(multUp({ duration: 0, duration_unit: 't' }))).toBeNull();
+    expect(getHoldDuration({ contract_type: 'CALL', duration: 5, duration_unit: 't' })).toBeNull();
+  });
+});
+
+describe('settlement', () => {
+  it('multiplies the price move by the stake and caps the loss at the stake', () => {
+    expect(getMultiplierProfit(multUp(), 100, 100.5)).toBe(5);
+    expect(getMultiplierProfit(multUp({ contract_type: 'MULTDOWN' }), 100, 100.5)).toBe(-5);
+    expect(getMultiplierProfit(multUp(), 100, 98)).toBe(-10);
+  });
+
+  it('infers why a position closed', () => {
+    expect(getMultiplierCloseReason(4.995, 10, { take_profit: 5 })).toBe('take_profit');
+    expect(getMultiplierCloseReason(-10, 10, { stop_loss: 3 })).toBe('stop_out');
+    expect(getMultiplierCloseReason(-3, 10, { stop_loss: 3 })).toBe('stop_loss');
+    expect(getMultiplierCloseReason(-3, 10, null, 'cancelled')).toBe('cancellation');
+    expect(getMultiplierCloseReason(1, 10)).toBe('sold');
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { PortfolioCoordinator } from '../PortfolioCoordinator';
+import type { PortfolioLimitHitEvent } from '../PortfolioCoordinator';
+import type { TradingBotManager } from '../TradingBotManager';
+
+/** The parts of a manager the coordinator reads and drives */
+function fakeBot(botId: string, options: { account?: string; timeZone?: string } = {}) {
+  const bot = {
+    botId,
+    botName: botId,
+    status: 'START',
+    config: { botAccount: { account: options.account ?? 'CR1' } },
+    limitPeriodOptions: { timeZone: options.timeZone },
+    portfolioCoordinator: null as unknown,
+    setPortfolioCoordinator(coordinator: unknown) { bot.portfolioCoordinator = coordinator; },
+    pause() { bot.status = 'PAUSE'; },
+    resume() { bot.status = 'START'; },
+    async stop() { bot.status = 'STOP'; },
+  };
+  return bot as typeof bot & TradingBotManager;
+}
+
+let clock = Date.UTC(2026, 2, 10, 12, 0);
+let portfolio: PortfolioCoordinator;
+
+function createPortfolio(limits: Record<string, number>, haltAction: 'pause' | 'stop' = 'pause') {
+  portfolio = new PortfolioCoordinator({ limits, haltAction, now: () => clock });
+  const hits: PortfolioLimitHitEvent[] = [];
+  portfolio.on('portfolio_limit_hit', (e: PortfolioLimitHitEvent) => hits.push(e));
+  return hits;
+}
+
+afterEach(() => {
+  portfolio?.destroy();
+  clock = Date.UTC(2026, 2, 10, 12, 0);
+});
+
+describe('PortfolioCoordinator daily loss', () => {
+  it('halts every bot on the account once their losses together reach the cap', () => {
+    const hits = createPortfolio({ maxDailyLoss: 10 });
+    const low = fakeBot('low');
+    const high = fakeBot('high');
+    const otherAccount = fakeBot('other', { account: 'CR2' });
+    portfolio.register(low, { priority: 1 });
+    portfolio.register(high, { priority: 5 });
+    portfolio.register(otherAccount);
+
+    expect(portfolio.requestTrade(low, 6)).toEqual({ allowed: true });
+    expect(portfolio.requestTrade(high, 4)).toEqual({ allowed: true });
+    portfolio.settleTrade(low, 6, -6);
+    expect(low.status).toBe('START');
+    portfolio.settleTrade(high, 4, -4);
+
+    expect([low.status, high.status, otherAccount.status]).toEqual(['PAUSE', 'PAUSE', 'START']);
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ accountId: 'CR1', limit: 'daily_loss', cap: 10, value: 10, action: 'pause' });
+    expect(hits[0].affectedBots.map((bot) => bot.botId)).toEqual(['low', 'high']);
+    expect(portfolio.requestTrade(high, 1)).toMatchObject({ allowed: false, action: 'pause' });
+    expect(portfolio.requestTrade(otherAccount, 1)).toEqual({ allowed: true });
+  });
+
+  it('nets wins against losses', () => {
+    createPortfolio({ maxDailyLoss: 10 });
+    const bot = fakeBot('bot');
+    portfolio.register(bot);
+
+    portfolio.settleTrade(bot, 0, -8);
+    portfolio.settleTrade(bot, 0, 5);
+    portfolio.settleTrade(bot, 0, -6);
+
+    expect(bot.status).toBe('START');
+    expect(portfolio.getSnapshot('CR1')[0]).toMatchObject({ dailyProfit: -9, halted: false });
+  });
+
+  it('stops the bots with haltAction stop', () => {
+    createPortfolio({ maxDailyLoss: 5 }, 'stop');
+    const bot = fakeBot('bot');
+    portfolio.register(bot);
+
+    portfolio.settleTrade(bot, 0, -5);
+
+    expect(bot.status).toBe('STOP');
+  });
+
+  it('starts a new budget at midnight in the bot limit_reset_timezone', () => {
+    createPortfolio({ maxDailyLoss: 5 });
+    // Tokyo is UTC+9: its day ends at 15:00 UTC
+    const bot = fakeBot('tokyo', { timeZone: 'Asia/Tokyo' });
+    portfolio.register(bot);
+    portfolio.settleTrade(bot, 0, -5);
+    expect(bot.status).toBe('PAUSE');
+
+    clock = Date.UTC(2026, 2, 10, 14, 59);
+    expect(portfolio.requestTrade(bot, 1)).toMatchObject({ allowed: false });
+
+    clock = Date.UTC(2026, 2, 10, 15, 0);
+    expect(portfolio.requestTrade(bot, 1)).toEqual({ allowed: true });
+    expect(bot.status).toBe('START');
+    expect(portfolio.getSnapshot('CR1')[0]).toMatchObject({ dailyProfit: 0, openStake: 1, halted: false });
+  });
+
+  it('keeps the budget until UTC midnight for bots on UTC', () => {
+    createPortfolio({ maxDailyLoss: 5 });
+    const bot = fakeBot('utc');
+    portfolio.register(bot);
+    portfolio.settleTrade(bot, 0, -5);
+
+    clock = Date.UTC(2026, 2, 10, 23, 59);
+    expect(portfolio.requestTrade(bot, 1)).toMatchObject({ allowed: false });
+
+    clock = Date.UTC(2026, 2, 11, 0, 0);
+    expect(portfolio.requestTrade(bot, 1)).toEqual({ allowed: true });
+  });
+});
+
+describe('PortfolioCoordinator stake caps', () => {
+  it('holds back a stake over the concurrent cap and halts a lower-priority bot for it', () => {
+    const hits = createPortfolio({ maxConcurrentStake: 10 });
+    const low = fakeBot('low');
+    const high = fakeBot('high');
+    portfolio.register(low, { priority: 1 });
+    portfolio.register(high, { priority: 5 });
+
+    expect(portfolio.requestTrade(low, 7)).toEqual({ allowed: true });
+    expect(portfolio.requestTrade(high, 4)).toMatchObject({ allowed: false, action: 'wait' });
+
+    expect(low.status).toBe('PAUSE');
+    expect(hits[0]).toMatchObject({ limit: 'concurrent_stake', cap: 10, value: 11, action: 'pause' });
+
+    // Settling the reservation frees the budget and resumes the halted bot
+    portfolio.settleTrade(low, 7, 0);
+    expect(low.status).toBe('START');
+    expect(portfolio.requestTrade(high, 4)).toEqual({ allowed: true });
+    expect(portfolio.getSnapshot('CR1')[0]).toMatchObject({ openStake: 4, dailyProfit: 0 });
+  });
+
+  it('counts the realised loss toward exposure', () => {
+    const hits = createPortfolio({ maxExposure: 10 });
+    const bot = fakeBot('bot');
+    portfolio.register(bot);
+
+    portfolio.settleTrade(bot, 0, -8);
+
+    expect(portfolio.requestTrade(bot, 2)).toEqual({ allowed: true });
+    expect(portfolio.requestTrade(bot, 1)).toMatchObject({ allowed: false, action: 'wait' });
+    // Nobody ranks below the requester, so it only waits
+    expect(bot.status).toBe('START');
+    expect(hits[0]).toMatchObject({ limit: 'exposure', value: 11, action: 'wait', affectedBots: [] });
+  });
+
+  it('stops counting a bot once it is unregistered', () => {
+    createPortfolio({ maxConcurrentStake: 10 });
+    const first = fakeBot('first');
+    const second = fakeBot('second');
+    portfolio.register(first);
+    portfolio.register(second);
+
+    portfolio.requestTrade(first, 8);
+    portfolio.unregister(first);
+
+    expect(first.portfolioCoordinator).toBeNull();
+    expect(portfolio.requestTrade(second, 8)).toEqual({ allowed: true });
+  });
+});
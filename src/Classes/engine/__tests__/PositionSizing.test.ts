@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getKellyFraction,
+  getLadderBudget,
+  getWinProbability,
+  resolveWinProbability,
+  sizeBaseStake,
+} from '../PositionSizing';
+
+const inputs = { balance: 1000, payoutRate: 95, contractType: 'DIGITEVEN', wins: 0, trades: 0 };
+
+describe('getWinProbability', () => {
+  it('is exact for digit and rise/fall contracts', () => {
+    expect(getWinProbability('DIGITOVER', '3')).toBeCloseTo(0.6);
+    expect(getWinProbability('DIGITUNDER', 3)).toBeCloseTo(0.3);
+    expect(getWinProbability('DIGITDIFF', 5)).toBe(0.9);
+    expect(getWinProbability('DIGITMATCH', 5)).toBe(0.1);
+    expect(getWinProbability('CALL')).toBe(0.5);
+  });
+
+  it('is the break-even probability of the payout otherwise', () => {
+    expect(getWinProbability('ONETOUCH', null, 100)).toBe(0.5);
+    expect(getWinProbability('ONETOUCH', null, 300)).toBe(0.25);
+    expect(getWinProbability('ONETOUCH')).toBe(0.5);
+  });
+});
+
+describe('getKellyFraction', () => {
+  it('is p − (1 − p) ÷ b', () => {
+    expect(getKellyFraction(0.6, 100)).toBeCloseTo(0.2);
+    expect(getKellyFraction(0.55, 90)).toBeCloseTo(0.05);
+  });
+
+  it('is negative without an edge', () => {
+    expect(getKellyFraction(0.5, 95)).toBeLessThan(0);
+    expect(getKellyFraction(0.9, 0)).toBe(-1);
+  });
+});
+
+describe('resolveWinProbability', () => {
+  it('prefers the configured probability', () => {
+    expect(resolveWinProbability({ win_probability: 58 }, { ...inputs, wins: 90, trades: 100 }))
+      .toEqual({ p: 0.58, source: 'configured' });
+  });
+
+  it('uses the observed win rate once there are enough trades', () => {
+    expect(resolveWinProbability({}, { ...inputs, wins: 18, trades: 30 })).toEqual({ p: 0.6, source: 'observed' });
+    expect(resolveWinProbability({ min_observed_trades: 50 }, { ...inputs, wins: 18, trades: 30 }).source).toBe('contract');
+  });
+
+  it('falls back to the contract\'s own probability', () => {
+    expect(resolveWinProbability({}, inputs)).toEqual({ p: 0.5, source: 'contract' });
+  });
+});
+
+describe('sizeBaseStake', () => {
+  it('sizes a fixed fraction of the balance', () => {
+    const sizing = sizeBaseStake({ sizing_mode: 'fixed_fractional', base_stake_percentage: 0.5 }, inputs);
+    expect(sizing.baseStake).toBe(5);
+    expect(sizing.percentage).toBe(0.5);
+    expect(sizing.reason).toBeNull();
+  });
+
+  it('defaults to fixed fractional and needs a percentage', () => {
+    const sizing = sizeBaseStake({ sizing_mode: 'unknown' as never }, inputs);
+    expect(sizing.mode).toBe('fixed_fractional');
+    expect(sizing.baseStake).toBeNull();
+    expect(sizing.reason).toBe('No base stake percentage');
+  });
+
+  it('sizes a fraction of the Kelly stake', () => {
+    const sizing = sizeBaseStake({ sizing_mode: 'kelly', win_probability: 60, kelly_fraction: 0.5 }, { ...inputs, payoutRate: 100 });
+    expect(sizing.kelly).toBe(0.2);
+    expect(sizing.percentage).toBe(10);
+    expect(sizing.baseStake).toBe(100);
+    expect(sizing.winProbability).toBe(60);
+    expect(sizing.winProbabilitySource).toBe('configured');
+  });
+
+  it('uses a quarter Kelly by default and caps the fraction at a full Kelly', () => {
+    const settings = { sizing_mode: 'kelly' as const, win_probability: 60 };
+    expect(sizeBaseStake(settings, { ...inputs, payoutRate: 100 }).baseStake).toBe(50);
+    expect(sizeBaseStake({ ...settings, kelly_fraction: 3 }, { ...inputs, payoutRate: 100 }).baseStake).toBe(200);
+  });
+
+  it('sizes nothing without an edge', () => {
+    const sizing = sizeBaseStake({ sizing_mode: 'kelly' }, inputs);
+    expect(sizing.baseStake).toBeNull();
+    expect(sizing.kelly).toBeLessThan(0);
+    expect(sizing.reason).toMatch(/^No edge at 50% \(contract\)/);
+  });
+
+  it('sizes nothing without a payout rate or a balance', () => {
+    expect(sizeBaseStake({ sizing_mode: 'kelly', win_probability: 60 }, { ...inputs, payoutRate: null }).reason)
+      .toBe('No payout rate for DIGITEVEN');
+    expect(sizeBaseStake({ base_stake_percentage: 1 }, { ...inputs, balance: 0 }).reason).toBe('No balance to size from');
+  });
+});
+
+describe('getLadderBudget', () => {
+  it('is max_ladder_percentage of the sized balance', () => {
+    expect(getLadderBudget({ max_ladder_percentage: 5 }, 1000)).toBe(50);
+    expect(getLadderBudget({ max_ladder_percentage: 2.5 }, 954.51)).toBe(23.86);
+  });
+
+  it('is null without a cap or a sized balance', () => {
+    expect(getLadderBudget({}, 1000)).toBeNull();
+    expect(getLadderBudget(null, 1000)).toBeNull();
+    expect(getLadderBudget({ max_ladder_percentage: 5 }, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { checkProposal, getExpectedPayout, getMaxBuyPrice, getMaxRequotes } from '../PriceGuard';
+import { getPayoutRate } from '../PayoutTable';
+
+const digitEven = { amount: 10, contract_type: 'DIGITEVEN', currency: 'USD', symbol: 'R_100' };
+const multiplier = { amount: 10, contract_type: 'MULTUP', currency: 'USD', symbol: 'R_100', multiplier: 100 };
+
+describe('getMaxRequotes', () => {
+  it('is 0 with the guard off', () => {
+    expect(getMaxRequotes(null)).toBe(0);
+    expect(getMaxRequotes({ settings: { price_guard: false, max_requotes: 5 } })).toBe(0);
+  });
+
+  it('defaults to 2 and floors the configured count', () => {
+    expect(getMaxRequotes({ settings: { price_guard: true } })).toBe(2);
+    expect(getMaxRequotes({ settings: { price_guard: true, max_requotes: null } })).toBe(2);
+    expect(getMaxRequotes({ settings: { price_guard: true, max_requotes: 0 } })).toBe(0);
+    expect(getMaxRequotes({ settings: { price_guard: true, max_requotes: 3.7 } })).toBe(3);
+    expect(getMaxRequotes({ settings: { price_guard: true, max_requotes: -1 } })).toBe(0);
+  });
+});
+
+describe('getExpectedPayout', () => {
+  it('uses the strategy step\'s payout rate', () => {
+    expect(getExpectedPayout(digitEven, 92)).toBe(19.2);
+  });
+
+  it('falls back to the PayoutTable rate', () => {
+    const rate = getPayoutRate('DIGITEVEN', 10) as number;
+    expect(rate).not.toBeNull();
+    expect(getExpectedPayout(digitEven)).toBe(Math.round(10 * (1 + rate / 100) * 100) / 100);
+  });
+
+  it('has no expected payout for multipliers or a missing stake', () => {
+    expect(getExpectedPayout(multiplier, 92)).toBeNull();
+    expect(getExpectedPayout({ ...digitEven, amount: 0 }, 92)).toBeNull();
+  });
+});
+
+describe('getMaxBuyPrice', () => {
+  it('caps the buy at the quoted ask plus the allowed slippage', () => {
+    expect(getMaxBuyPrice(10)).toBe(10);
+    expect(getMaxBuyPrice(10, { max_price_slippage_percentage: 2.5 })).toBe(10.25);
+  });
+
+  it('is null without an ask price', () => {
+    expect(getMaxBuyPrice(0)).toBeNull();
+  });
+});
+
+describe('checkProposal', () => {
+  it('accepts anything with the guard off, but still caps the price', () => {
+    const check = checkProposal(digitEven, { askPrice: 10, payout: 11 }, { settings: { price_guard: false }, payoutRate: 92 });
+    expect(check.accepted).toBe(true);
+    expect(check.guarded).toBe(false);
+    expect(check.maxPrice).toBe(10);
+    expect(check.payoutRatio).toBe(1.1);
+  });
+
+  it('refuses a payout ratio below the minimum', () => {
+    const settings = { price_guard: true, min_payout_ratio: 1.9 };
+    const refused = checkProposal(digitEven, { askPrice: 10, payout: 18.5 }, { settings, payoutRate: 80 });
+    expect(refused.accepted).toBe(false);
+    expect(refused.reason).toBe('min_payout_ratio');
+
+    expect(checkProposal(digitEven, { askPrice: 10, payout: 19 }, { settings, payoutRate: 80 }).accepted).toBe(true);
+  });
+
+  it('refuses a payout short of the expected one beyond the tolerance', () => {
+    const strict = { price_guard: true };
+    const refused = checkProposal(digitEven, { askPrice: 10, payout: 19.1 }, { settings: strict, payoutRate: 92 });
+    expect(refused.accepted).toBe(false);
+    expect(refused.reason).toBe('expected_payout');
+    expect(refused.expectedPayout).toBe(19.2);
+
+    const tolerant = { price_guard: true, payout_tolerance_percentage: 1 };
+    expect(checkProposal(digitEven, { askPrice: 10, payout: 19.1 }, { settings: tolerant, payoutRate: 92 }).accepted).toBe(true);
+    expect(checkProposal(digitEven, { askPrice: 10, payout: 18.9 }, { settings: tolerant, payoutRate: 92 }).accepted).toBe(false);
+  });
+
+  it('only caps the price of multipliers', () => {
+    const check = checkProposal(multiplier, { askPrice: 10, payout: 0 }, {
+      settings: { price_guard: true, min_payout_ratio: 1.9, max_price_slippage_percentage: 1 },
+    });
+    expect(check.accepted).toBe(true);
+    expect(check.guarded).toBe(false);
+    expect(check.maxPrice).toBe(10.1);
+  });
+});
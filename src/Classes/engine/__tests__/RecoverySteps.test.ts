@@ -0,0 +1,159 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import {
+  describeRecoveryStep,
+  getRecoveryStepAction,
+  getRecoveryStepContract,
+  getRecoveryTarget,
+  isRecoveryTargetReached,
+  validateRecoverySteps,
+} from '../RecoverySteps';
+import type { RecoveryStep } from '../RecoverySteps';
+import { buildStakeLadder } from '../StakeLadder';
+import { TradingBotManager } from '../TradingBotManager';
+
+const evenOnR50: RecoveryStep = {
+  action: 'switch_contract',
+  stakeMultiplier: 3,
+  contractType: 'DIGITEVEN',
+  market: { symbol: 'R_50' },
+  duration: 1,
+  durationUnits: 't',
+};
+
+function formData(riskSteps: RecoveryStep[], recoverySettings: Record<string, any> = {}) {
+  return {
+    strategyId: 'martingale',
+    contract: { contractType: 'CALL', market: { symbol: 'R_100' }, duration: 5, durationUnits: 't', delay: 1 },
+    amounts: {
+      base_stake: { type: 'fixed', value: 1 },
+      maximum_stake: { type: 'fixed', value: 1000 },
+      take_profit: null,
+      stop_loss: { type: 'fixed', value: 1000 },
+    },
+    recovery_steps: { risk_steps: riskSteps },
+    advanced_settings: {
+      general_settings_section: { maximum_number_of_trades: 1000, recovery_type: 'on' },
+      recovery_settings_section: { recovery_multiplier: 2, ...recoverySettings },
+    },
+  };
+}
+
+describe('recovery step helpers', () => {
+  it('reads the action, with is_safety_mode and unknown actions', () => {
+    expect(getRecoveryStepAction(null)).toBe('multiply');
+    expect(getRecoveryStepAction({ action: 'hedge' })).toBe('multiply');
+    expect(getRecoveryStepAction({ action: 'multiply', is_safety_mode: true })).toBe('safety');
+  });
+
+  it('lays only a switching step contract over the bot contract', () => {
+    expect(getRecoveryStepContract({ action: 'multiply', contractType: 'DIGITEVEN' })).toBeNull();
+    expect(getRecoveryStepContract({ ...evenOnR50, market: 'R_50', prediction: null })).toEqual({
+      contractType: 'DIGITEVEN',
+      market: { symbol: 'R_50' },
+      duration: 1,
+      durationUnits: 't',
+      marketRandomize: false,
+      predictionRandomize: false,
+    });
+  });
+
+  it('ends recovery once the wins pay back the target share of the loss', () => {
+    const halfway = { ...evenOnR50, recoveryTargetPercentage: 50 };
+
+    expect(isRecoveryTargetReached(halfway, { loss: 30, recovered: 14 })).toBe(false);
+    expect(isRecoveryTargetReached(halfway, { loss: 30, recovered: 15 })).toBe(true);
+    expect(isRecoveryTargetReached(evenOnR50, { loss: 30, recovered: 30 })).toBeNull();
+    // Safety steps recover everything unless told otherwise; targets stop at 100%
+    expect(getRecoveryTarget({ ...evenOnR50, action: 'safety' })).toBe(100);
+    expect(getRecoveryTarget({ ...evenOnR50, recoveryTargetPercentage: 150 })).toBe(100);
+  });
+
+  it('reports the steps that cannot trade', () => {
+    expect(validateRecoverySteps([
+      { action: 'switch_contract', contractType: 'DIGITOVER', prediction: 9, market: null, duration: 0 },
+      { ...evenOnR50, action: 'safety' },
+      { stakeMultiplier: -1, recoveryTargetPercentage: 120 },
+    ])).toEqual([
+      'Recovery step 1: pick the market it switches to',
+      'Recovery step 1: prediction 9 is not valid for DIGITOVER',
+      'Recovery step 1: duration must be greater than 0',
+      'Recovery step 2: the steps after a safety step are never reached',
+      'Recovery step 3: stakeMultiplier cannot be negative',
+      'Recovery step 3: the recovery target cannot exceed 100%',
+    ]);
+    expect(validateRecoverySteps([evenOnR50])).toEqual([]);
+  });
+
+  it('summarises a step in one line', () => {
+    expect(describeRecoveryStep({ ...evenOnR50, cooldownSeconds: 30, recoveryTargetPercentage: 50 }))
+      .toBe('×3 stake · DIGITEVEN on R_50 for 1 t · pause 30s · until 50% recovered');
+  });
+});
+
+describe('recovery steps in the trade cycle', () => {
+  it('moves to the next step on every loss and holds at the safety step', async () => {
+    const ladder = await buildStakeLadder({
+      formData: formData([
+        { action: 'multiply', stakeMultiplier: 2 },
+        evenOnR50,
+        { ...evenOnR50, action: 'safety', stakeMultiplier: 5, contractType: 'DIGITODD', market: { symbol: 'R_10' } },
+      ], { progressive_recovery: true }),
+      losses: 4,
+      balance: 1000,
+    });
+
+    // Stakes are base × step multiplier × recovery_multiplier
+    expect(ladder.steps.map((step) => [step.stake, step.contractType, step.symbol, step.recoveryAction])).toEqual([
+      [1, 'CALL', 'R_100', null],
+      [6, 'DIGITEVEN', 'R_50', 'switch_contract'],
+      [10, 'DIGITODD', 'R_10', 'safety'],
+      [10, 'DIGITODD', 'R_10', 'safety'],
+    ]);
+  });
+
+  it('goes back to the bot contract once the recovery target is reached', async () => {
+    /** Executor that settles the scripted outcomes at even money */
+    class ScriptedExecutor extends EventEmitter {
+      trades: Record<string, any>[] = [];
+
+      constructor(private outcomes: boolean[]) { super(); }
+
+      startSession() {}
+      endSession() {}
+      async updateBotStatus() {}
+      async updateRealtimePerformance() {}
+      async updateStatistics() {}
+
+      buildContractParams(contract: any, stake: number, currency: string) {
+        return { amount: stake, contract_type: contract.contractType, currency, symbol: contract.market?.symbol };
+      }
+
+      async executeTrade(params: any) {
+        const isWin = this.outcomes[this.trades.length];
+        this.trades.push(params);
+        return { contractId: String(this.trades.length), stake: params.amount, payout: isWin ? params.amount * 2 : 0, profit: isWin ? params.amount : -params.amount, isWin };
+      }
+    }
+
+    const executor = new ScriptedExecutor([false, false, true, true]);
+    const manager = TradingBotManager.fromFormData(formData([{ ...evenOnR50, recoveryTargetPercentage: 50 }]), executor);
+    manager.setTradingCalendar(null);
+    const completed: Record<string, any>[] = [];
+    manager.on('recovery_completed', (e: Record<string, any>) => completed.push(e));
+
+    manager.beginSimulation();
+    for (let i = 0; i < 4; i++) await manager.runSimulationCycle();
+    await manager.endSimulation();
+    manager.destroy();
+
+    expect(executor.trades.map((trade) => [trade.amount, trade.contract_type])).toEqual([
+      [1, 'CALL'],
+      [6, 'DIGITEVEN'],
+      [6, 'DIGITEVEN'],
+      [1, 'CALL'],
+    ]);
+    // 6 won back of the 7 lost is past the 50% target
+    expect(completed).toEqual([{ loss: 7, recovered: 6, target: true }]);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRestartDelayMs, isAutoRestartEnabled, planRestart, RestartController } from '../RestartPolicy';
+import type { AutoRestartSettings } from '../RestartPolicy';
+import { TimerRegistry } from '../TimerRegistry';
+
+const DAY = 24 * 60 * 60 * 1000;
+const today = Date.UTC(2026, 0, 1);
+const settings: AutoRestartSettings = { restart_on: ['take_profit', 'stop_loss'], restart_delay_seconds: 30 };
+
+describe('isAutoRestartEnabled', () => {
+  it('needs auto_restart and at least one known stop reason', () => {
+    expect(isAutoRestartEnabled(true, settings)).toBe(true);
+    expect(isAutoRestartEnabled(false, settings)).toBe(false);
+    expect(isAutoRestartEnabled(true, { restart_on: [] })).toBe(false);
+    expect(isAutoRestartEnabled(true, { restart_on: ['manual'] })).toBe(false);
+    expect(isAutoRestartEnabled(true, null)).toBe(false);
+  });
+});
+
+describe('getRestartDelayMs', () => {
+  it('waits a fixed minute by default', () => {
+    expect(getRestartDelayMs(null, 0)).toBe(60000);
+    expect(getRestartDelayMs(null, 3)).toBe(60000);
+  });
+
+  it('backs off by the multiplier for every restart made', () => {
+    const backoff = { restart_delay_seconds: 10, restart_backoff_multiplier: 2 };
+    expect([0, 1, 2, 3].map((made) => getRestartDelayMs(backoff, made))).toEqual([10000, 20000, 40000, 80000]);
+  });
+
+  it('never shortens the wait and caps it at the max delay', () => {
+    expect(getRestartDelayMs({ restart_delay_seconds: 10, restart_backoff_multiplier: 0.5 }, 2)).toBe(10000);
+    expect(getRestartDelayMs({ restart_delay_seconds: 10, restart_backoff_multiplier: 3, max_restart_delay_seconds: 60 }, 4)).toBe(60000);
+    expect(getRestartDelayMs({ restart_delay_seconds: 120, max_restart_delay_seconds: 60 }, 0)).toBe(120000);
+  });
+});
+
+describe('planRestart', () => {
+  it('restarts on a configured stop reason and counts the restart', () => {
+    const { decision, state } = planRestart('take_profit', { enabled: true, settings, dayStart: today });
+    expect(decision).toMatchObject({ restart: true, blockedBy: null, delayMs: 30000, restartsToday: 1, maxRestartsPerDay: 5 });
+    expect(state).toEqual({ day: today, count: 1 });
+  });
+
+  it('says why the bot does not restart', () => {
+    expect(planRestart('take_profit', { enabled: false, settings, dayStart: today }).decision.blockedBy).toBe('disabled');
+    expect(planRestart('error', { enabled: true, settings, dayStart: today }).decision.blockedBy).toBe('reason');
+    expect(planRestart('manual', { enabled: true, settings, dayStart: today }).decision.restart).toBe(false);
+  });
+
+  it('stops restarting at the daily cap', () => {
+    const capped = { ...settings, max_restarts_per_day: 2 };
+    let state = null;
+    const decisions = [];
+    for (let i = 0; i < 3; i++) {
+      const plan = planRestart('stop_loss', { enabled: true, settings: capped, state, dayStart: today });
+      decisions.push(plan.decision);
+      state = plan.state;
+    }
+    expect(decisions.map((d) => d.restart)).toEqual([true, true, false]);
+    expect(decisions[2]).toMatchObject({ blockedBy: 'daily_limit', restartsToday: 2 });
+    expect(state).toEqual({ day: today, count: 2 });
+  });
+
+  it('starts a new count, and a new backoff, every day', () => {
+    const backoff = { ...settings, restart_backoff_multiplier: 2, max_restarts_per_day: 2 };
+    const state = { day: today, count: 2 };
+    expect(planRestart('stop_loss', { enabled: true, settings: backoff, state, dayStart: today }).decision.restart).toBe(false);
+
+    const { decision, state: next } = planRestart('stop_loss', { enabled: true, settings: backoff, state, dayStart: today + DAY });
+    expect(decision).toMatchObject({ restart: true, delayMs: 30000, restartsToday: 1 });
+    expect(next).toEqual({ day: today + DAY, count: 1 });
+  });
+
+  it('carries the session over only when asked to', () => {
+    expect(planRestart('take_profit', { enabled: true, settings, dayStart: today }).decision.carryOver).toBe(false);
+    expect(planRestart('take_profit', {
+      enabled: true,
+      settings: { ...settings, carry_over_session: true },
+      dayStart: today,
+    }).decision.carryOver).toBe(true);
+  });
+});
+
+describe('RestartController', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(today);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function controller() {
+    const timers = new TimerRegistry();
+    const onDue = vi.fn();
+    return { timers, onDue, restarts: new RestartController({ timers, now: () => Date.now(), onDue }) };
+  }
+
+  it('plans the restart, keeps the carried session and fires when it is due', () => {
+    const { timers, onDue, restarts } = controller();
+    const decision = restarts.plan('take_profit', {
+      enabled: true,
+      settings: { ...settings, carry_over_session: true },
+      dayStart: today,
+      carry: () => ({ balance: 12 }),
+    });
+
+    expect(decision.restart).toBe(true);
+    expect(restarts.describe()).toEqual({ reason: 'take_profit', restartAt: today + 30000, restartsToday: 1, carryOver: true });
+    expect(restarts.state).toEqual({ day: today, count: 1 });
+    expect(timers.has('restart')).toBe(true);
+
+    vi.advanceTimersByTime(30000);
+    expect(onDue).toHaveBeenCalledTimes(1);
+    expect(restarts.take()?.carried).toEqual({ balance: 12 });
+    expect(restarts.pending).toBeNull();
+  });
+
+  it('arms nothing when the policy says no, and drops a restart on cancel', () => {
+    const { timers, restarts } = controller();
+    expect(restarts.plan('manual', { enabled: true, settings, dayStart: today }).blockedBy).toBe('reason');
+    expect(timers.names).toEqual([]);
+
+    restarts.plan('stop_loss', { enabled: true, settings, dayStart: today });
+    expect(restarts.cancel()?.reason).toBe('stop_loss');
+    expect(timers.names).toEqual([]);
+    expect(restarts.cancel()).toBeNull();
+  });
+
+  it('waits for a closed market to open and drops a restart that fails otherwise', async () => {
+    const { timers, onDue, restarts } = controller();
+    restarts.plan('take_profit', { enabled: true, settings, dayStart: today });
+
+    const waiting = await restarts.run(async () => ({ success: false, error: 'Market closed', nextOpen: today + 60000 }), () => true);
+    expect(waiting).toMatchObject({ started: false, waitUntil: today + 60000 });
+    vi.advanceTimersByTime(60000);
+    expect(onDue).toHaveBeenCalledTimes(1);
+
+    const failed = await restarts.run(async () => ({ success: false, error: 'Invalid token' }), () => true);
+    expect(failed).toMatchObject({ started: false, error: 'Invalid token', pending: { reason: 'take_profit' } });
+    expect(restarts.pending).toBeNull();
+    expect(timers.names).toEqual([]);
+  });
+
+  it('leaves a bot that was started by hand alone', async () => {
+    const { restarts } = controller();
+    restarts.plan('take_profit', { enabled: true, settings, dayStart: today });
+    const start = vi.fn(async () => ({ success: true }));
+
+    expect(await restarts.run(start, () => false)).toEqual({ started: false, pending: null });
+    expect(start).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateSchedule,
+  getNextActivations,
+  getPeriodStart,
+  isWithinSchedule,
+  parseCronExpression,
+  validateCronExpression,
+  validateSchedule,
+} from '../ScheduleEvaluator';
+import type { ScheduleDefinition } from '../ScheduleEvaluator';
+
+/** Epoch ms of a UTC wall-clock time in March 2026 (1 March is a Sunday) */
+const march = (day: number, hour: number, minute = 0) => Date.UTC(2026, 2, day, hour, minute);
+
+// New York is UTC-5 until its clocks go forward on Sunday 8 March
+const newYorkWeekdays: ScheduleDefinition = {
+  type: 'weekly',
+  timezone: 'America/New_York',
+  daysOfWeek: [1, 2, 3, 4, 5],
+  windows: [{ start: '09:30', end: '11:30' }, { start: '14:00', end: '16:00' }],
+};
+
+describe('evaluateSchedule windows', () => {
+  it('evaluates the windows in the schedule timezone, end exclusive', () => {
+    expect(evaluateSchedule(newYorkWeekdays, march(2, 14, 30))).toEqual({ active: true });
+    expect(evaluateSchedule(newYorkWeekdays, march(2, 16, 30))).toEqual({ active: false, reason: 'Outside trading windows' });
+    expect(isWithinSchedule(newYorkWeekdays, march(2, 19, 0))).toBe(true);
+    expect(isWithinSchedule(newYorkWeekdays, march(2, 21, 0))).toBe(false);
+  });
+
+  it('only trades on the listed weekdays', () => {
+    // Saturday 7 March, 10:00 in New York
+    expect(isWithinSchedule(newYorkWeekdays, march(7, 15, 0))).toBe(false);
+  });
+
+  it('counts the part of an overnight window after midnight to the day it started', () => {
+    const fridayNights: ScheduleDefinition = {
+      type: 'weekly',
+      timezone: 'UTC',
+      daysOfWeek: [5],
+      windows: [{ start: '22:00', end: '02:00' }],
+    };
+
+    expect(isWithinSchedule(fridayNights, march(6, 23, 0))).toBe(true);
+    expect(isWithinSchedule(fridayNights, march(7, 1, 0))).toBe(true);
+    expect(isWithinSchedule(fridayNights, march(6, 1, 0))).toBe(false);
+    expect(isWithinSchedule(fridayNights, march(7, 23, 0))).toBe(false);
+  });
+
+  it('treats the legacy startTime / endTime pair as one window', () => {
+    const legacy: ScheduleDefinition = { type: 'daily', timezone: 'UTC', startTime: '08:00', endTime: '09:00' };
+
+    expect(isWithinSchedule(legacy, march(4, 8, 30))).toBe(true);
+    expect(isWithinSchedule(legacy, march(4, 9, 0))).toBe(false);
+  });
+
+  it('keeps to the date range, whole days in the schedule timezone', () => {
+    const ranged: ScheduleDefinition = { type: 'daily', timezone: 'Asia/Tokyo', startDate: '2026-03-05', endDate: '2026-03-06' };
+
+    // 23:00 UTC on 4 March is already 5 March in Tokyo
+    expect(evaluateSchedule(ranged, march(4, 14, 0))).toEqual({ active: false, reason: 'Before schedule start date' });
+    expect(isWithinSchedule(ranged, march(4, 23, 0))).toBe(true);
+    expect(evaluateSchedule(ranged, march(6, 15, 0))).toEqual({ active: false, reason: 'After schedule end date' });
+  });
+});
+
+describe('evaluateSchedule exclusions', () => {
+  it('blocks a recurring cron exclusion and reports it', () => {
+    const schedule: ScheduleDefinition = {
+      ...newYorkWeekdays,
+      exclusions: [{ cron: '* * * * 5#1', reason: 'NFP Friday' }],
+    };
+
+    const firstFriday = evaluateSchedule(schedule, march(6, 15, 0));
+    expect(firstFriday).toMatchObject({ active: false, reason: 'Schedule exclusion: NFP Friday' });
+    expect(firstFriday.exclusion?.cron).toBe('* * * * 5#1');
+    // Second Friday, 10:00 in New York (now UTC-4)
+    expect(isWithinSchedule(schedule, march(13, 14, 0))).toBe(true);
+  });
+
+  it('blocks a one-off date in the schedule timezone', () => {
+    const schedule: ScheduleDefinition = { ...newYorkWeekdays, exclusions: [{ date: '2026-03-03' }] };
+
+    expect(evaluateSchedule(schedule, march(3, 15, 0))).toMatchObject({ active: false, reason: 'Schedule exclusion: 2026-03-03' });
+    expect(isWithinSchedule(schedule, march(4, 15, 0))).toBe(true);
+  });
+});
+
+describe('cron schedules', () => {
+  it('is active during every minute the expression matches', () => {
+    const schedule: ScheduleDefinition = { type: 'custom', timezone: 'UTC', cron: '* 9-10 * * MON-FRI' };
+
+    expect(isWithinSchedule(schedule, march(2, 9, 0))).toBe(true);
+    expect(isWithinSchedule(schedule, march(2, 10, 59))).toBe(true);
+    expect(evaluateSchedule(schedule, march(2, 11, 0))).toEqual({ active: false, reason: 'Outside cron schedule' });
+    expect(isWithinSchedule(schedule, march(1, 9, 30))).toBe(false);
+  });
+
+  it('supports the last day of the month and the last weekday of the month', () => {
+    const lastDay: ScheduleDefinition = { type: 'custom', timezone: 'UTC', cron: '* * L * *' };
+    const lastFriday: ScheduleDefinition = { type: 'custom', timezone: 'UTC', cron: '* * * * 5L' };
+
+    expect(isWithinSchedule(lastDay, march(31, 12))).toBe(true);
+    expect(isWithinSchedule(lastDay, march(30, 12))).toBe(false);
+    expect(isWithinSchedule(lastFriday, march(27, 12))).toBe(true);
+    expect(isWithinSchedule(lastFriday, march(20, 12))).toBe(false);
+  });
+
+  it('matches a restricted day-of-month or day-of-week, as standard cron does', () => {
+    const schedule: ScheduleDefinition = { type: 'custom', timezone: 'UTC', cron: '* * 1 * MON' };
+
+    expect(isWithinSchedule(schedule, march(1, 12))).toBe(true);
+    expect(isWithinSchedule(schedule, march(2, 12))).toBe(true);
+    expect(isWithinSchedule(schedule, march(3, 12))).toBe(false);
+  });
+
+  it('parses steps and names, and rejects malformed expressions', () => {
+    const cron = parseCronExpression('*/15 8-16/4 * JAN-MAR *');
+
+    expect([...cron.minutes].sort((a, b) => a - b)).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours].sort((a, b) => a - b)).toEqual([8, 12, 16]);
+    expect(validateCronExpression('* * * *')).not.toBeNull();
+    expect(validateCronExpression('61 * * * *')).not.toBeNull();
+    expect(evaluateSchedule({ type: 'custom', cron: 'nope' }, march(2, 9))).toMatchObject({ active: false });
+  });
+});
+
+describe('validateSchedule', () => {
+  it('reports every configuration problem', () => {
+    const errors = validateSchedule({
+      type: 'custom',
+      timezone: 'Mars/Olympus',
+      windows: [{ start: '25:00', end: '10:00' }],
+      exclusions: [{ cron: 'bad', reason: 'Holiday' }],
+    });
+
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toBe('Unknown schedule timezone "Mars/Olympus"');
+    expect(errors[1]).toBe('Cron expression is required for custom schedules');
+    expect(errors[3]).toMatch(/^Exclusion "Holiday"/);
+    expect(validateSchedule(newYorkWeekdays)).toEqual([]);
+  });
+});
+
+describe('getNextActivations', () => {
+  it('lists the next windows with their end times, skipping the weekend', () => {
+    const schedule: ScheduleDefinition = {
+      type: 'weekly',
+      timezone: 'UTC',
+      daysOfWeek: [1, 2, 3, 4, 5],
+      windows: [{ start: '09:00', end: '10:00' }],
+    };
+
+    expect(getNextActivations(schedule, march(6, 12, 0), 2)).toEqual([
+      { start: march(9, 9), end: march(9, 10) },
+      { start: march(10, 9), end: march(10, 10) },
+    ]);
+  });
+});
+
+describe('getPeriodStart', () => {
+  it('follows the timezone across a daylight saving change', () => {
+    const options = { timeZone: 'America/New_York' };
+    const dstDay = getPeriodStart(march(8, 12), 'day', options);
+    const nextDay = getPeriodStart(march(9, 12), 'day', options);
+
+    expect(dstDay).toBe(march(8, 5));
+    expect(nextDay - dstDay).toBe(23 * 3600 * 1000);
+  });
+
+  it('starts the week on weekStartsOn', () => {
+    // Wednesday 4 March
+    expect(getPeriodStart(march(4, 12), 'week', { timeZone: 'UTC' })).toBe(march(2, 0));
+    expect(getPeriodStart(march(4, 12), 'week', { timeZone: 'UTC', weekStartsOn: 0 })).toBe(march(1, 0));
+    expect(getPeriodStart(march(4, 12, 45), 'hour', { timeZone: 'Asia/Kolkata' })).toBe(march(4, 12, 30));
+  });
+});
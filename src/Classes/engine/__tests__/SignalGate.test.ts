@@ -0,0 +1,202 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { adx, atr, bollinger, ema, IndicatorPipeline, rsi, sma } from '../Indicators';
+import type { Candle, IndicatorSnapshot } from '../Indicators';
+import { evaluateSignalGate, flipContractParams } from '../SignalGate';
+import type { SignalGateSettings } from '../SignalGate';
+import { TradingBotManager } from '../TradingBotManager';
+
+/** `count` candles climbing one point each, with a 1-point range */
+function risingCandles(count: number): Candle[] {
+  return Array.from({ length: count }, (_, i) => ({ epoch: i * 60, open: 10 + i, high: 11 + i, low: 10 + i, close: 10.5 + i, ticks: 1 }));
+}
+
+function snapshot(values: Partial<IndicatorSnapshot> = {}): IndicatorSnapshot {
+  return {
+    epoch: 0,
+    price: 100,
+    candles: 60,
+    sma: 100,
+    ema: 100,
+    rsi: 50,
+    macd: { macd: 0.1, signal: 0.05, histogram: 0.05 },
+    bollinger: { upper: 101, middle: 100, lower: 99, percentB: 0.5, bandwidth: 0.02 },
+    atr: 0.5,
+    adx: { adx: 30, plusDI: 25, minusDI: 15 },
+    trend: { direction: 'up', strength: 30 },
+    ...values,
+  };
+}
+
+describe('indicators', () => {
+  it('waits for enough data', () => {
+    expect(sma([1, 2], 3)).toBeNull();
+    expect(rsi([1, 2, 3], 3)).toBeNull();
+    expect(adx(risingCandles(27), 14)).toBeNull();
+  });
+
+  it('averages the latest values, the EMA seeded with the SMA', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toBe(4);
+    expect(ema([1, 2, 3, 4, 5], 3)).toBe(4);
+  });
+
+  it('smooths RSI the Wilder way', () => {
+    expect(rsi([1, 2, 1, 2, 1], 2)).toBeCloseTo(37.5);
+    expect(rsi([1, 2, 3, 4], 3)).toBe(100);
+    expect(rsi([1, 1, 1, 1], 3)).toBe(50);
+  });
+
+  it('puts a flat price in the middle of collapsed bands', () => {
+    expect(bollinger([5, 5, 5, 5], 4)).toEqual({ upper: 5, middle: 5, lower: 5, percentB: 0.5, bandwidth: 0 });
+  });
+
+  it('measures the range and direction of a steady climb', () => {
+    // The true range runs from the previous close up to the new high
+    expect(atr(risingCandles(20), 14)).toBeCloseTo(1.5);
+    expect(adx(risingCandles(28), 14)).toEqual({ adx: 100, plusDI: 100 / 1.5, minusDI: 0 });
+  });
+});
+
+describe('IndicatorPipeline', () => {
+  it('builds candles of granularity seconds from ticks, the forming one included', () => {
+    const pipeline = new IndicatorPipeline({ granularity: 60 });
+    pipeline.addTick({ epoch: 120, quote: 10 });
+    pipeline.addTick({ epoch: 150, quote: 12 });
+    pipeline.addTick({ epoch: 179, quote: 9 });
+    pipeline.addTick({ epoch: 60, quote: 50 });
+    pipeline.addTick({ epoch: 180, quote: 11 });
+
+    expect(pipeline.getCandles()).toEqual([
+      { epoch: 120, open: 10, high: 12, low: 9, close: 9, ticks: 3 },
+      { epoch: 180, open: 11, high: 11, low: 11, close: 11, ticks: 1 },
+    ]);
+    expect(pipeline.getSnapshot()).toMatchObject({ epoch: 180, price: 11, candles: 2, rsi: null });
+  });
+
+  it('keeps the history bounded but long enough for every indicator', () => {
+    const pipeline = new IndicatorPipeline({ granularity: 0, maxCandles: 10 });
+    for (let i = 0; i < 100; i++) pipeline.addTick({ epoch: i, quote: 100 + i });
+
+    // SMA 50 needs 51 candles
+    expect(pipeline.maxCandles).toBe(51);
+    expect(pipeline.candleCount).toBe(52);
+    expect(pipeline.getSnapshot()?.trend).toEqual({ direction: 'up', strength: 100 });
+  });
+});
+
+describe('evaluateSignalGate', () => {
+  const trendSettings: SignalGateSettings = { trend_detection: true, trend_strength_threshold: 25 };
+
+  it('allows everything while off and waits for data while on', () => {
+    expect(evaluateSignalGate(null, 'CALL', {})).toMatchObject({ action: 'allow' });
+    expect(evaluateSignalGate(null, 'CALL', trendSettings)).toMatchObject({ action: 'wait', reason: 'Waiting for market data' });
+  });
+
+  it('blocks a ranging market', () => {
+    const settings = { avoid_ranging_market: true };
+
+    expect(evaluateSignalGate(snapshot({ adx: { adx: 20, plusDI: 20, minusDI: 20 } }), 'CALL', settings))
+      .toMatchObject({ action: 'block', reason: 'Ranging market (ADX 20 < 25)' });
+    expect(evaluateSignalGate(snapshot({ adx: null }), 'CALL', settings)).toMatchObject({ action: 'wait' });
+  });
+
+  it('blocks or flips a trade against a strong trend', () => {
+    const downTrend = snapshot({ trend: { direction: 'down', strength: 30 } });
+
+    expect(evaluateSignalGate(downTrend, 'CALL', trendSettings))
+      .toMatchObject({ action: 'block', reason: 'Trade against the down trend' });
+    expect(evaluateSignalGate(downTrend, 'CALL', { ...trendSettings, trend_action: 'flip' }))
+      .toMatchObject({ action: 'flip', contractType: 'PUT', direction: 'down', reason: 'Traded with the down trend' });
+    expect(evaluateSignalGate(downTrend, 'PUT', trendSettings)).toMatchObject({ action: 'allow' });
+    // Below the ADX threshold the trend doesn't count
+    expect(evaluateSignalGate({ ...downTrend, adx: { adx: 20, plusDI: 10, minusDI: 15 } }, 'CALL', trendSettings))
+      .toMatchObject({ action: 'allow' });
+  });
+
+  it('applies signal conditions to the trades in their direction', () => {
+    const settings: SignalGateSettings = {
+      signal_conditions: [
+        { indicator: 'rsi', operator: '>', value: 70, action: 'flip', direction: 'up' },
+        { indicator: 'price', operator: '>', value: 'bollinger.upper', action: 'block' },
+      ],
+    };
+
+    expect(evaluateSignalGate(snapshot({ rsi: 75 }), 'CALL', settings))
+      .toMatchObject({ action: 'flip', contractType: 'PUT', matched: ['rsi > 70'] });
+    expect(evaluateSignalGate(snapshot({ rsi: 75 }), 'PUT', settings)).toMatchObject({ action: 'allow' });
+    expect(evaluateSignalGate(snapshot({ price: 102 }), 'PUT', settings))
+      .toMatchObject({ action: 'block', reason: 'Signal: price > bollinger.upper' });
+    expect(evaluateSignalGate(snapshot({ rsi: 75 }), 'DIGITEVEN', { signal_conditions: [{ ...settings.signal_conditions![0], direction: 'any' }] }))
+      .toMatchObject({ action: 'block', reason: 'Signal: rsi > 70 (DIGITEVEN cannot be flipped)' });
+  });
+
+  it('checks required conditions against the direction finally traded', () => {
+    const settings: SignalGateSettings = {
+      trend_detection: true,
+      trend_action: 'flip',
+      signal_conditions: [{ indicator: 'macd.histogram', operator: '<', value: 0, action: 'require', direction: 'down' }],
+    };
+    const downTrend = snapshot({ trend: { direction: 'down', strength: 30 } });
+
+    expect(evaluateSignalGate(downTrend, 'CALL', settings))
+      .toMatchObject({ action: 'block', reason: 'Signal required: macd.histogram < 0' });
+    expect(evaluateSignalGate({ ...downTrend, macd: { macd: -0.1, signal: 0, histogram: -0.1 } }, 'CALL', settings))
+      .toMatchObject({ action: 'flip', contractType: 'PUT' });
+  });
+
+  it('mirrors a relative barrier when flipping', () => {
+    expect(flipContractParams({ contract_type: 'CALL', barrier: '+0.5' })).toEqual({ contract_type: 'PUT', barrier: '-0.5' });
+    expect(flipContractParams({ contract_type: 'CALL', barrier: 101 })).toEqual({ contract_type: 'PUT', barrier: 101 });
+  });
+});
+
+describe('signal gate in the trade cycle', () => {
+  /** Executor that wins every trade */
+  class WinningExecutor extends EventEmitter {
+    contractTypes: string[] = [];
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100' };
+    }
+
+    async executeTrade(params: any) {
+      this.contractTypes.push(params.contract_type);
+      return { contractId: String(this.contractTypes.length), stake: params.amount, payout: params.amount * 2, profit: params.amount, isWin: true };
+    }
+  }
+
+  it('waits for the indicators, then trades with the trend', async () => {
+    const executor = new WinningExecutor();
+    const manager = TradingBotManager.fromFormData({
+      strategyId: 'martingale',
+      contract: { contractType: 'PUT', market: { symbol: 'R_100' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 1 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+      advanced_settings: { market_conditions_section: { trend_detection: true, trend_action: 'flip' } },
+    }, executor);
+    const pipeline = new IndicatorPipeline({ granularity: 0 });
+    manager.setIndicatorPipeline(pipeline);
+    manager.setTradingCalendar(null);
+
+    manager.beginSimulation();
+    const waiting = await manager.runSimulationCycle();
+    for (let i = 0; i < 30; i++) pipeline.addTick({ epoch: i, quote: 100 + i });
+    const flipped = await manager.runSimulationCycle();
+    await manager.endSimulation();
+    manager.destroy();
+
+    expect(waiting).toMatchObject({ traded: false, check: { reason: 'Waiting for market data' } });
+    expect(flipped.traded).toBe(true);
+    expect(executor.contractTypes).toEqual(['CALL']);
+  });
+});
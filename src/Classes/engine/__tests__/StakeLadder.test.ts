@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { buildStakeLadder, estimateRiskOfRuin } from '../StakeLadder';
+
+function formData(options: { contractType?: string; amounts?: Record<string, any>; advanced?: Record<string, any> } = {}) {
+  return {
+    strategyId: 'martingale',
+    contract: { contractType: options.contractType ?? 'CALL', market: { symbol: 'R_100' }, duration: 5, durationUnits: 't', delay: 1 },
+    amounts: {
+      base_stake: { type: 'fixed', value: 1 },
+      maximum_stake: { type: 'fixed', value: 1000 },
+      take_profit: null,
+      stop_loss: { type: 'fixed', value: 1000 },
+      ...options.amounts,
+    },
+    advanced_settings: { general_settings_section: { maximum_number_of_trades: 1000 }, ...options.advanced },
+  };
+}
+
+describe('buildStakeLadder', () => {
+  it('doubles the stake on every loss and measures the exposure against the balance', async () => {
+    const ladder = await buildStakeLadder({ formData: formData(), losses: 5, balance: 100 });
+
+    expect(ladder.steps.map((step) => step.stake)).toEqual([1, 2, 4, 8, 16]);
+    expect(ladder.steps.map((step) => step.balanceAfter)).toEqual([99, 97, 93, 85, 69]);
+    expect(ladder.steps[4]).toMatchObject({ trade: 5, cumulativeLoss: 31, exposurePercentage: 31, balanceBefore: 85 });
+    expect(ladder).toMatchObject({ stopReason: null, ruinAt: null, totalExposure: 31, exposurePercentage: 31 });
+  });
+
+  it('prices what a win at each step would have netted from the payout table', async () => {
+    const ladder = await buildStakeLadder({ formData: formData(), losses: 2, balance: 100 });
+
+    // CALL pays 79% on a $1 stake and 79.5% on a $2 stake
+    expect(ladder.steps.map((step) => step.payoutRate)).toEqual([79, 79.5]);
+    expect(ladder.steps.map((step) => step.netIfWon)).toEqual([0.79, 0.59]);
+  });
+
+  it('reports the trade the balance can no longer fund', async () => {
+    const ladder = await buildStakeLadder({ formData: formData(), losses: 10, balance: 10 });
+
+    expect(ladder.steps.map((step) => step.stake)).toEqual([1, 2, 4]);
+    expect(ladder).toMatchObject({ ruinAt: 4, unaffordableStake: 8, totalExposure: 7 });
+    expect(ladder.stopReason).toMatch(/cannot fund the next stake \(8\)/);
+  });
+
+  it('caps the stake at maximum_stake', async () => {
+    const ladder = await buildStakeLadder({
+      formData: formData({ amounts: { maximum_stake: { type: 'fixed', value: 5 } } }),
+      losses: 5,
+      balance: 100,
+    });
+
+    expect(ladder.steps.map((step) => step.stake)).toEqual([1, 2, 4, 5, 5]);
+  });
+
+  it('ends the ladder at the stop loss', async () => {
+    const ladder = await buildStakeLadder({
+      formData: formData({ amounts: { stop_loss: { type: 'fixed', value: 7 } } }),
+      losses: 10,
+      balance: 100,
+    });
+
+    expect(ladder.steps.map((step) => step.stake)).toEqual([1, 2, 4]);
+    expect(ladder.stopReason).toBe('Stop loss reached');
+    expect(ladder.ruinAt).toBeNull();
+  });
+});
+
+describe('estimateRiskOfRuin', () => {
+  it('counts every session that runs out of balance', async () => {
+    const risk = await estimateRiskOfRuin({ formData: formData(), balance: 10, simulations: 3, random: () => 0.99 });
+
+    expect(risk).toMatchObject({ simulations: 3, riskOfRuin: 100, stopLossRate: 0, worstFinalBalance: 3, medianFinalBalance: 3 });
+    expect(risk.payoutRate).toBe(79);
+  });
+
+  it('ends winning sessions at the take profit', async () => {
+    const risk = await estimateRiskOfRuin({
+      formData: formData({ amounts: { take_profit: { type: 'fixed', value: 2 } } }),
+      balance: 10,
+      simulations: 2,
+      random: () => 0,
+    });
+
+    expect(risk).toMatchObject({ riskOfRuin: 0, takeProfitRate: 100 });
+    expect(risk.medianFinalBalance).toBeGreaterThanOrEqual(12);
+  });
+
+  it('uses the given win probability', async () => {
+    // 0.4 < 0.5: every contract wins
+    const risk = await estimateRiskOfRuin({
+      formData: formData({ amounts: { take_profit: { type: 'fixed', value: 2 } } }),
+      balance: 10,
+      simulations: 1,
+      winProbability: 0.5,
+      random: () => 0.4,
+    });
+
+    expect(risk).toMatchObject({ winProbability: 0.5, takeProfitRate: 100 });
+  });
+
+  it('needs a payout rate for contracts without one', async () => {
+    await expect(estimateRiskOfRuin({ formData: formData({ contractType: 'ONETOUCH' }), simulations: 1 }))
+      .rejects.toMatchObject({ code: 'UNPRICED_CONTRACT' });
+  });
+});
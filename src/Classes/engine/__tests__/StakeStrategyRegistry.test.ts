@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  getStakeStrategy,
+  listStakeStrategies,
+  registerStakeStrategy,
+  resolveStakeStrategy,
+  unregisterStakeStrategy,
+} from '../StakeStrategyRegistry';
+import type { StakeStrategy, StakeStrategyContext } from '../StakeStrategyRegistry';
+
+const fixed = (id: string, stake = 1): StakeStrategy => ({
+  id,
+  init: () => ({}),
+  nextStake: () => stake,
+});
+
+function context(session: Record<string, any>, settings: Record<string, any> = {}) {
+  return { settings, session, state: {} } as unknown as StakeStrategyContext;
+}
+
+afterEach(() => {
+  unregisterStakeStrategy('test_fixed');
+});
+
+describe('registerStakeStrategy', () => {
+  it('registers a strategy under its id and aliases', () => {
+    const strategy = fixed('test_fixed');
+    registerStakeStrategy(strategy, { aliases: ['Test_Fixed_Alias'] });
+    expect(getStakeStrategy('test_fixed')).toBe(strategy);
+    expect(getStakeStrategy(' TEST_FIXED ')).toBe(strategy);
+    expect(getStakeStrategy('test_fixed_alias')).toBe(strategy);
+    expect(listStakeStrategies()).toContain('test_fixed');
+    expect(listStakeStrategies()).not.toContain('test_fixed_alias');
+  });
+
+  it('refuses a taken id unless replacing', () => {
+    registerStakeStrategy(fixed('test_fixed', 1));
+    expect(() => registerStakeStrategy(fixed('test_fixed', 2))).toThrow('already registered');
+
+    const replacement = fixed('test_fixed', 2);
+    registerStakeStrategy(replacement, { replace: true });
+    expect(getStakeStrategy('test_fixed')).toBe(replacement);
+  });
+
+  it('refuses strategies without an id or hooks', () => {
+    expect(() => registerStakeStrategy(fixed(''))).toThrow('requires an id');
+    expect(() => registerStakeStrategy({ id: 'test_fixed' } as StakeStrategy)).toThrow('must implement init() and nextStake()');
+    expect(getStakeStrategy('test_fixed')).toBeNull();
+  });
+});
+
+describe('unregisterStakeStrategy', () => {
+  it('removes the strategy and its aliases', () => {
+    registerStakeStrategy(fixed('test_fixed'), { aliases: ['test_fixed_alias'] });
+    expect(unregisterStakeStrategy('test_fixed')).toBe(true);
+    expect(getStakeStrategy('test_fixed')).toBeNull();
+    expect(getStakeStrategy('test_fixed_alias')).toBeNull();
+    expect(unregisterStakeStrategy('test_fixed')).toBe(false);
+  });
+});
+
+describe('resolveStakeStrategy', () => {
+  it('resolves ids and the form\'s aliases to the built-ins', () => {
+    expect(resolveStakeStrategy('martingale')?.id).toBe('martingale');
+    expect(resolveStakeStrategy('options_martingale')?.id).toBe('martingale');
+    expect(resolveStakeStrategy('options_1326_system')?.id).toBe('system_1326');
+    expect(resolveStakeStrategy('reverse_martingale_on_stat_reset')?.id).toBe('reverse_martingale_reset');
+  });
+
+  it('falls back to keywords, most specific first', () => {
+    expect(resolveStakeStrategy('my_reverse_martingale_v2')?.id).toBe('reverse_martingale');
+    expect(resolveStakeStrategy('reverse_dalembert_main_v2')?.id).toBe('reverse_dalembert_main');
+    expect(resolveStakeStrategy('my_oscars')?.id).toBe('oscars_grind');
+  });
+
+  it('resolves unknown ids to no strategy', () => {
+    expect(resolveStakeStrategy('flat')).toBeNull();
+    expect(resolveStakeStrategy('')).toBeNull();
+  });
+});
+
+describe('built-in martingale', () => {
+  it('multiplies the base stake for every consecutive loss, up to the max steps', () => {
+    const martingale = resolveStakeStrategy('martingale') as StakeStrategy;
+    const settings = { martingale_strategy_section: { martingale_multiplier: 3, martingale_max_steps: 2 } };
+    const stakes = [0, 1, 2, 5].map((consecutiveLosses) =>
+      martingale.nextStake(context({ baseStake: 1, consecutiveLosses }, settings)));
+    expect(stakes).toEqual([1, 3, 9, 9]);
+  });
+
+  it('doubles by default', () => {
+    const martingale = resolveStakeStrategy('martingale') as StakeStrategy;
+    expect(martingale.nextStake(context({ baseStake: 0.5, consecutiveLosses: 3 }))).toBe(4);
+  });
+});
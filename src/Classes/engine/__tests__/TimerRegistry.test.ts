@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TimerRegistry } from '../TimerRegistry';
+
+describe('TimerRegistry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps one timer per name, the last one armed', () => {
+    const timers = new TimerRegistry();
+    const fired: string[] = [];
+    timers.setTimeout('cooldown', () => fired.push('first'), 1000);
+    timers.setTimeout('cooldown', () => fired.push('second'), 2000);
+
+    vi.advanceTimersByTime(5000);
+    expect(fired).toEqual(['second']);
+  });
+
+  it('drops a timeout before its callback runs, so the callback can re-arm it', () => {
+    const timers = new TimerRegistry();
+    let runs = 0;
+    const tick = () => {
+      runs += 1;
+      expect(timers.has('marketHours')).toBe(false);
+      if (runs < 3) timers.setTimeout('marketHours', tick, 1000);
+    };
+    timers.setTimeout('marketHours', tick, 1000);
+
+    vi.advanceTimersByTime(10000);
+    expect(runs).toBe(3);
+    expect(timers.names).toEqual([]);
+  });
+
+  it('clears timeouts and intervals alike', () => {
+    const timers = new TimerRegistry();
+    const callback = vi.fn();
+    timers.setTimeout('restart', callback, 1000);
+    timers.setInterval('scheduleCheck', callback, 1000);
+    vi.advanceTimersByTime(2500);
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(timers.names).toEqual(['scheduleCheck']);
+
+    timers.setTimeout('runtime', callback, 1000);
+    timers.clearAll();
+    vi.advanceTimersByTime(5000);
+    expect(callback).toHaveBeenCalledTimes(3);
+    expect(timers.names).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it, vi } from 'vitest';
+import { TradingCalendar } from '../TradingCalendar';
+import { TradingBotManager } from '../TradingBotManager';
+
+/** Epoch ms of a UTC wall-clock time in March 2026 (2 March is a Monday) */
+const march = (day: number, hour: number, minute = 0) => Date.UTC(2026, 2, day, hour, minute);
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri'];
+
+function tradingTimes() {
+  return {
+    trading_times: {
+      markets: [
+        {
+          name: 'Forex',
+          submarkets: [{
+            name: 'Major Pairs',
+            symbols: [{
+              symbol: 'frxEURUSD',
+              name: 'EUR/USD',
+              times: { open: ['00:00:00'], close: ['23:59:59'] },
+              trading_days: WEEKDAYS,
+              events: [
+                { dates: 'Fridays', descrip: 'Closes early (at 20:55)' },
+                { dates: '2026-03-10', descrip: 'Closed all day' },
+                { dates: 'Mondays', descrip: 'Rollover' },
+              ],
+            }],
+          }],
+        },
+        {
+          name: 'Stock Indices',
+          submarkets: [{
+            name: 'American indices',
+            symbols: [{ symbol: 'OTC_NDX', times: { open: ['13:30:00'], close: ['20:00:00'] }, trading_days: WEEKDAYS }],
+          }],
+        },
+        {
+          name: 'Derived',
+          submarkets: [{
+            name: 'Continuous Indices',
+            symbols: [{ symbol: 'R_100', times: { open: ['00:00:00'], close: ['23:59:59'] } }],
+          }],
+        },
+      ],
+    },
+  };
+}
+
+/** localStorage stand-in */
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+}
+
+describe('TradingCalendar status', () => {
+  const calendar = new TradingCalendar({ fixture: tradingTimes(), storage: null });
+
+  it('joins sessions across midnight up to the early Friday close', () => {
+    expect(calendar.getStatus('frxEURUSD', march(4, 12))).toEqual({
+      symbol: 'frxEURUSD',
+      isOpen: true,
+      known: true,
+      nextOpen: null,
+      nextClose: march(6, 20, 55),
+      reason: null,
+    });
+  });
+
+  it('stays closed over the weekend and on listed holidays', () => {
+    expect(calendar.getStatus('frxEURUSD', march(7, 12))).toMatchObject({
+      isOpen: false, nextOpen: march(9, 0), reason: 'Not a trading day',
+    });
+    expect(calendar.getStatus('frxEURUSD', march(9, 12))).toMatchObject({ isOpen: true, nextClose: march(10, 0) });
+    expect(calendar.getStatus('frxEURUSD', march(10, 12))).toMatchObject({
+      isOpen: false, nextOpen: march(11, 0), reason: 'Closed all day',
+    });
+  });
+
+  it('reports the next session of a market outside its hours', () => {
+    expect(calendar.getStatus('OTC_NDX', march(4, 12))).toMatchObject({
+      isOpen: false, nextOpen: march(4, 13, 30), reason: 'Outside trading hours',
+    });
+    expect(calendar.isOpen('OTC_NDX', march(4, 19, 59))).toBe(true);
+  });
+
+  it('sees no close for markets that never shut and reports unknown symbols open', () => {
+    expect(calendar.getStatus('R_100', march(7, 12))).toMatchObject({ isOpen: true, nextClose: null });
+    expect(calendar.getStatus('R_999', march(7, 12))).toMatchObject({ isOpen: true, known: false });
+    expect(calendar.markMarkets([{ symbol: 'OTC_NDX' }, { symbol: 'R_100' }], march(4, 12))).toEqual([
+      { symbol: 'OTC_NDX', isClosed: true },
+      { symbol: 'R_100', isClosed: false },
+    ]);
+  });
+
+  it('keeps only the events it acts on', () => {
+    expect(calendar.getTradingTimes('frxEURUSD')?.events.map((event) => event.type)).toEqual(['closes_early', 'closed']);
+  });
+});
+
+describe('TradingCalendar loading', () => {
+  it('caches API data and starts from the cache next time', () => {
+    const storage = memoryStorage();
+    const first = new TradingCalendar({ fixture: { trading_times: { markets: [] } }, storage });
+    expect(first.source).toBe('fixture');
+    expect(first.isStale()).toBe(true);
+
+    first.setTradingTimes(tradingTimes(), 'api', march(4, 12));
+    const second = new TradingCalendar({ storage, maxAgeMs: 3600000 });
+
+    expect(second.source).toBe('cache');
+    expect(second.loadedAt).toBe(march(4, 12));
+    expect(second.hasSymbol('OTC_NDX')).toBe(true);
+    expect(second.isStale(march(4, 12, 30))).toBe(false);
+    expect(second.isStale(march(4, 13, 1))).toBe(true);
+  });
+
+  it('shares one request between bots refreshing together and keeps the data on failure', async () => {
+    const calendar = new TradingCalendar({ fixture: tradingTimes(), storage: null });
+    const send = vi.fn(async () => tradingTimes());
+
+    const refreshed = await Promise.all([calendar.refresh({ send }), calendar.refresh({ send })]);
+    expect(refreshed).toEqual([true, true]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith({ trading_times: 'today' });
+    expect(await calendar.refresh({ send })).toBe(false);
+
+    await expect(calendar.load({ send: async () => ({ error: { message: 'Rate limit' } }) })).rejects.toThrow('Rate limit');
+    expect(calendar.source).toBe('api');
+    expect(calendar.hasSymbol('frxEURUSD')).toBe(true);
+  });
+});
+
+describe('market hours in the trade cycle', () => {
+  /** Executor that wins every trade */
+  class WinningExecutor extends EventEmitter {
+    trades = 0;
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: contract.market.symbol };
+    }
+
+    async executeTrade(params: any) {
+      this.trades += 1;
+      return { contractId: String(this.trades), stake: params.amount, payout: params.amount * 2, profit: params.amount, isWin: true };
+    }
+  }
+
+  it('holds a trade while the market is closed', async () => {
+    const executor = new WinningExecutor();
+    const manager = TradingBotManager.fromFormData({
+      strategyId: 'martingale',
+      contract: { contractType: 'CALL', market: { symbol: 'OTC_NDX' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 1 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+    }, executor);
+    let clock = march(4, 12);
+    manager.setClockProvider(() => clock);
+    manager.setTradingCalendar(new TradingCalendar({ fixture: tradingTimes(), storage: null }));
+
+    manager.beginSimulation();
+    const closed = await manager.runSimulationCycle();
+    clock = march(4, 14);
+    const open = await manager.runSimulationCycle();
+    await manager.endSimulation();
+    manager.destroy();
+
+    expect(closed).toMatchObject({
+      traded: false,
+      check: { action: 'pause', reason: 'Market OTC_NDX is closed until 2026-03-04T13:30:00.000Z (Outside trading hours)' },
+    });
+    expect(open.traded).toBe(true);
+    expect(executor.trades).toBe(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { EventEmitter } from 'events';
+import { describe, expect, it } from 'vitest';
+import { TradingBotManager } from '../TradingBotManager';
+import {
+  getSymbolFamily,
+  getVolatilityStakeMultiplier,
+  NORMAL_VOLATILITY_SCORE,
+  VolatilityService,
+  VolatilityTracker,
+} from '../VolatilityProvider';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/** Log return per tick that annualises to `volatility` % at `tickSeconds` a tick */
+function tickReturn(volatility: number, tickSeconds: number) {
+  return (volatility / 100) * Math.sqrt(tickSeconds / SECONDS_PER_YEAR);
+}
+
+/** Feed `count` ticks alternating up and down by `move` (a log return) */
+function feed(tracker: { addTick: (tick: { epoch: number; quote: number }) => void }, count: number, move: number, start = 0) {
+  let quote = 1000;
+  for (let i = 0; i < count; i++) {
+    tracker.addTick({ epoch: start + i, quote });
+    quote *= Math.exp(i % 2 ? -move : move);
+  }
+}
+
+describe('getSymbolFamily', () => {
+  it('reads the tick interval and nominal volatility from the symbol', () => {
+    expect(getSymbolFamily('R_75')).toEqual({ family: 'volatility', tickSeconds: 2, nominal: 75 });
+    expect(getSymbolFamily('1HZ100V')).toEqual({ family: 'volatility_1s', tickSeconds: 1, nominal: 100 });
+    expect(getSymbolFamily('BOOM1000')).toEqual({ family: 'boom_crash', tickSeconds: 1, nominal: null });
+    expect(getSymbolFamily('frxEURUSD')).toEqual({ family: 'other', tickSeconds: null, nominal: null });
+  });
+});
+
+describe('VolatilityTracker', () => {
+  it('scores a symbol trading at its nominal volatility 50, and at twice that or more 100', () => {
+    const usual = new VolatilityTracker({ symbol: 'R_100', lookback: 50 });
+    const wild = new VolatilityTracker({ symbol: 'R_100', lookback: 50 });
+    feed(usual, 60, tickReturn(100, 2));
+    feed(wild, 60, tickReturn(300, 2));
+
+    expect(usual.getReading()).toMatchObject({ family: 'volatility', score: 50, realized: 100, reference: 100, sampleSize: 50 });
+    expect(wild.getReading()).toMatchObject({ score: 100, realized: 300 });
+  });
+
+  it('waits for enough returns', () => {
+    const tracker = new VolatilityTracker({ symbol: 'R_100', lookback: 50 });
+    feed(tracker, 20, tickReturn(100, 2));
+    expect(tracker.getReading()).toBeNull();
+
+    tracker.addTick({ epoch: 20, quote: 1000 });
+    expect(tracker.getReading()).not.toBeNull();
+  });
+
+  it('leaves Boom / Crash spikes out and compares with the symbol baseline', () => {
+    const tracker = new VolatilityTracker({ symbol: 'BOOM1000', lookback: 20 });
+    feed(tracker, 40, 0.0001);
+    tracker.addTick({ epoch: 40, quote: 1100 });
+
+    const reading = tracker.getReading();
+    expect(reading).toMatchObject({ family: 'boom_crash', spikes: 1, score: 50 });
+    expect(reading?.realized).toBe(reading?.reference);
+  });
+
+  it('compares other symbols with their own baseline, at the tick rate of the epochs', () => {
+    const tracker = new VolatilityTracker({ symbol: 'frxEURUSD', lookback: 20 });
+    feed(tracker, 60, 0.0001);
+    feed(tracker, 21, 0.0002, 60);
+
+    // The last 20 returns are twice the size of the rest
+    expect(tracker.getReading()?.score).toBeGreaterThan(NORMAL_VOLATILITY_SCORE);
+  });
+});
+
+describe('VolatilityService', () => {
+  it('shares one tracker per symbol and widens its lookback only', () => {
+    const service = new VolatilityService({ lookback: 30 });
+    const provider = service.createProvider('R_100');
+    expect(provider()).toBeNull();
+
+    feed({ addTick: (tick) => service.addTick('R_100', tick) }, 40, tickReturn(100, 2));
+    expect(provider()).toBe(50);
+
+    service.ensureLookback(20);
+    expect(service.lookback).toBe(30);
+    service.ensureLookback(60);
+    expect(service.getReading('R_100')?.sampleSize).toBe(30);
+    feed({ addTick: (tick) => service.addTick('R_100', tick) }, 40, tickReturn(100, 2), 40);
+    expect(service.getReading('R_100')?.sampleSize).toBe(60);
+    service.destroy();
+  });
+});
+
+describe('getVolatilityStakeMultiplier', () => {
+  it('shrinks stakes in proportion above the reference score, never below a quarter', () => {
+    expect(getVolatilityStakeMultiplier(null)).toBe(1);
+    expect(getVolatilityStakeMultiplier(30)).toBe(1);
+    expect(getVolatilityStakeMultiplier(100)).toBe(0.5);
+    expect(getVolatilityStakeMultiplier(100, { max_volatility: 80 })).toBe(0.8);
+    expect(getVolatilityStakeMultiplier(400, { max_volatility: 20 })).toBe(0.25);
+  });
+});
+
+describe('volatility controls in the trade cycle', () => {
+  /** Executor that wins every trade and records the stakes */
+  class WinningExecutor extends EventEmitter {
+    stakes: number[] = [];
+
+    startSession() {}
+    endSession() {}
+    async updateBotStatus() {}
+    async updateRealtimePerformance() {}
+    async updateStatistics() {}
+
+    buildContractParams(contract: any, stake: number, currency: string) {
+      return { amount: stake, contract_type: contract.contractType, currency, symbol: 'R_100' };
+    }
+
+    async executeTrade(params: any) {
+      this.stakes.push(params.amount);
+      return { contractId: String(this.stakes.length), stake: params.amount, payout: params.amount * 2, profit: params.amount, isWin: true };
+    }
+  }
+
+  async function playCycles(controls: Record<string, any>, scores: Array<number | null>) {
+    const executor = new WinningExecutor();
+    const manager = TradingBotManager.fromFormData({
+      strategyId: 'martingale',
+      contract: { contractType: 'CALL', market: { symbol: 'R_100' }, delay: 1 },
+      amounts: {
+        base_stake: { type: 'fixed', value: 10 },
+        maximum_stake: { type: 'fixed', value: 100 },
+        take_profit: null,
+        stop_loss: { type: 'fixed', value: 100 },
+      },
+      advanced_settings: { volatility_controls_section: controls },
+    }, executor);
+    let score: number | null = null;
+    manager.setVolatilityProvider(() => score);
+    manager.setTradingCalendar(null);
+
+    const reasons: Array<string | null> = [];
+    manager.beginSimulation();
+    for (const next of scores) {
+      score = next;
+      const cycle = await manager.runSimulationCycle();
+      reasons.push(cycle.traded ? null : cycle.check.reason);
+    }
+    await manager.endSimulation();
+    manager.destroy();
+    return { stakes: executor.stakes, reasons };
+  }
+
+  it('pauses outside the volatility band', async () => {
+    const { stakes, reasons } = await playCycles(
+      { volatility_filter: true, min_volatility: 20, max_volatility: 60, pause_on_high_volatility: true },
+      [null, 10, 80, 50],
+    );
+
+    expect(reasons).toEqual(['Volatility warming up', 'Volatility too low', 'Volatility too high', null]);
+    expect(stakes).toEqual([10]);
+  });
+
+  it('scales the stake down in a volatile market', async () => {
+    const { stakes } = await playCycles({ volatility_adjustment: true }, [50, 100]);
+
+    expect(stakes).toEqual([10, 5]);
+  });
+});
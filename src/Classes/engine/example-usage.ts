@@ -65,6 +65,15 @@ interface BotContractData {
   durationUnits: string;          // 't' | 's' | 'm' | 'h' | 'd'
   allowEquals?: boolean;
   alternateAfter?: number | null; // Switch trade type every N trades
+  rotation?: {                    // Weighted markets / predictions for marketRandomize / predictionRandomize
+    markets?: { symbol: string; weight?: number | null }[];
+    predictions?: { prediction: string; weight?: number | null }[];
+    trigger?: 'trades' | 'loss' | 'loss_streak';
+    everyTrades?: number | null;
+    lossStreak?: number | null;
+    excludeLosingSymbols?: boolean;
+    exclusionTrades?: number | null;
+  } | null;
 }
 
 /** Amount configuration — supports fixed, percentage, and dynamic types. */
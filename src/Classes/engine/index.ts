@@ -6,6 +6,27 @@
  * Two-layer architecture:
  *   TradingBotManager  — Runtime engine (strategy, risk, scheduling, trade loop)
  *   TradingBotExecutor — API persistence & CRUD + Deriv contract execution
+ *   DerivConnectionManager — Pooled, persistent Deriv sockets shared by executors
+ *   Backtester         — Replays a bot configuration against historical ticks
+ *   PaperTradingExecutor — Executor that settles on live/replayed ticks, never buying
+ *   StakeStrategyRegistry — Pluggable stake strategies keyed by strategyId
+ *   PortfolioCoordinator — Account-wide risk budget shared by bots on one Deriv account
+ *   ScheduleEvaluator  — Timezone-aware schedule evaluation shared with the schedule UI
+ *   LimitCounters      — Calendar-aligned hourly / daily / weekly limit counters
+ *   Indicators / SignalGate — Indicator pipeline and the market_conditions_section trade gate
+ *   DigitStats         — Last-digit statistics and the digit_analysis_section entry filter
+ *   VolatilityProvider — Realized volatility score for the volatility_controls_section
+ *   StakeLadder        — Worst-case stake ladder and risk of ruin, played through the manager
+ *   DecisionJournal    — Append-only per-iteration journal of a bot run, with replay
+ *   Multipliers        — MULTUP / MULTDOWN limit orders, deal cancellation and close reasons
+ *   EarlyExit          — Early-exit sell rules for open contracts and their statistics
+ *   DerivErrors        — Deriv error codes mapped to typed errors and the engine's reaction to each
+ *   TradingCalendar    — Market trading hours from Deriv trading_times (cached, with an offline fixture)
+ *   PriceGuard         — Pre-buy proposal price check and the max-price cap for buys
+ *   ContractRotation   — Weighted market / prediction rotation for randomized contracts
+ *   RestartPolicy      — Auto-restart after a stop: qualifying reasons, backoff, daily cap
+ *   PositionSizing     — Fixed-fractional / fractional-Kelly base stake and the ladder budget
+ *   RecoverySteps      — Recovery step actions, pauses and recovery targets, and their validation
  *
  * @usage
  *   const {
@@ -60,6 +81,119 @@ import {
   BOT_STATUSES,
 } from './TradingBotExecutor';
 
+import {
+  DerivConnectionManager,
+  CONNECTION_STATES,
+  getSharedConnectionManager,
+} from './DerivConnectionManager';
+
+import { Backtester } from './Backtester';
+import { BacktestExecutor } from './BacktestExecutor';
+import { PaperTradingExecutor } from './PaperTradingExecutor';
+import { createDerivTickSource, createReplayTickSource } from './TickSource';
+import {
+  MemoryCheckpointStore,
+  LocalStorageCheckpointStore,
+  IndexedDBCheckpointStore,
+  FileCheckpointStore,
+  createDefaultCheckpointStore,
+} from './CheckpointStore';
+import {
+  SUPPORTED_CONTRACT_TYPES,
+  settleContract,
+  buildSimulatedTradeResult,
+} from './ContractSimulator';
+import { getPayoutRate, estimatePayout } from './PayoutTable';
+import {
+  registerStakeStrategy,
+  unregisterStakeStrategy,
+  getStakeStrategy,
+  resolveStakeStrategy,
+  listStakeStrategies,
+} from './StakeStrategyRegistry';
+import { PortfolioCoordinator, PORTFOLIO_LIMITS } from './PortfolioCoordinator';
+import {
+  evaluateSchedule,
+  isWithinSchedule,
+  validateSchedule,
+  getNextActivations,
+  parseCronExpression,
+  validateCronExpression,
+  getPeriodStart,
+} from './ScheduleEvaluator';
+import { getLimitPeriodStarts, aggregateLimitCounters } from './LimitCounters';
+import { IndicatorPipeline, sma, ema, rsi, macd, bollinger, atr, adx } from './Indicators';
+import {
+  isSignalGateEnabled,
+  evaluateSignalGate,
+  flipContractType,
+  flipContractParams,
+} from './SignalGate';
+import {
+  DigitStatsTracker,
+  DigitAnalysisService,
+  PREDICTION_MODES,
+  isDigitFilterEnabled,
+  evaluateDigitEntry,
+} from './DigitStats';
+import {
+  VolatilityTracker,
+  VolatilityService,
+  SYMBOL_FAMILIES,
+  getSymbolFamily,
+  isVolatilityControlEnabled,
+  getVolatilityStakeMultiplier,
+} from './VolatilityProvider';
+import {
+  buildStakeLadder,
+  estimateRiskOfRuin,
+  getWinProbability,
+} from './StakeLadder';
+import { DecisionJournal, replayJournal } from './DecisionJournal';
+import {
+  MemoryJournalStore,
+  LocalStorageJournalStore,
+  IndexedDBJournalStore,
+  FileJournalStore,
+  createDefaultJournalStore,
+} from './JournalStore';
+import {
+  MULTIPLIER_CONTRACT_TYPES,
+  DEAL_CANCELLATION_DURATIONS,
+  isMultiplierContract,
+  resolveLimitOrder,
+  getMaxLoss,
+  validateMultiplierParams,
+  getMultiplierProfit,
+  getMultiplierCloseReason,
+} from './Multipliers';
+import { isEarlyExitEnabled, evaluateEarlyExit, recordEarlyExit } from './EarlyExit';
+import {
+  DERIV_ERROR_CODES,
+  DERIV_ERROR_REACTIONS,
+  DerivError,
+  classifyDerivError,
+  getRetryAfterMs,
+} from './DerivErrors';
+import {
+  TradingCalendar,
+  getSharedTradingCalendar,
+  fetchTradingTimes,
+  parseTradingTimes,
+  getMarketStatus,
+} from './TradingCalendar';
+import { isPriceGuardEnabled, checkProposal, getExpectedPayout, getMaxBuyPrice } from './PriceGuard';
+import {
+  isRotationEnabled,
+  pickWeighted,
+  createRotationState,
+  advanceRotation,
+  applyRotation,
+} from './ContractRotation';
+import { isAutoRestartEnabled, getRestartDelayMs, planRestart } from './RestartPolicy';
+import { isPositionSizingEnabled, getKellyFraction, sizeBaseStake, getLadderBudget } from './PositionSizing';
+import { getRecoveryStepAction, getRecoveryStepContract, validateRecoverySteps, describeRecoveryStep } from './RecoverySteps';
+
 // Merge (they're identical, just re-export one canonical copy)
 //const BOT_STATUSES = { ...MANAGER_STATUSES, ...EXECUTOR_STATUSES };
 
@@ -67,14 +201,162 @@ export {
   // Core classes
   TradingBotManager,
   TradingBotExecutor,
+  DerivConnectionManager,
+  Backtester,
+  BacktestExecutor,
+  PaperTradingExecutor,
+  PortfolioCoordinator,
+  IndicatorPipeline,
+  DigitStatsTracker,
+  DigitAnalysisService,
+  VolatilityTracker,
+  VolatilityService,
+  DecisionJournal,
+  DerivError,
+  TradingCalendar,
+
+  // Checkpoint stores
+  MemoryCheckpointStore,
+  LocalStorageCheckpointStore,
+  IndexedDBCheckpointStore,
+  FileCheckpointStore,
+
+  // Journal stores
+  MemoryJournalStore,
+  LocalStorageJournalStore,
+  IndexedDBJournalStore,
+  FileJournalStore,
 
   // Constants
   BOT_STATUSES,
   STRATEGY_TYPES,
+  CONNECTION_STATES,
+  SUPPORTED_CONTRACT_TYPES,
+  PORTFOLIO_LIMITS,
+  PREDICTION_MODES,
+  SYMBOL_FAMILIES,
+  MULTIPLIER_CONTRACT_TYPES,
+  DEAL_CANCELLATION_DURATIONS,
+  DERIV_ERROR_CODES,
+  DERIV_ERROR_REACTIONS,
 
   // Utility factories
   getDefaultPerformance,
   getDefaultStatistics,
   getDefaultAdvancedSettings,
   createFreshSession,
+  getSharedConnectionManager,
+  getSharedTradingCalendar,
+  createDefaultCheckpointStore,
+  createDefaultJournalStore,
+
+  // Simulation
+  settleContract,
+  buildSimulatedTradeResult,
+  getPayoutRate,
+  estimatePayout,
+  createDerivTickSource,
+  createReplayTickSource,
+
+  // Stake strategies
+  registerStakeStrategy,
+  unregisterStakeStrategy,
+  getStakeStrategy,
+  resolveStakeStrategy,
+  listStakeStrategies,
+
+  // Schedules
+  evaluateSchedule,
+  isWithinSchedule,
+  validateSchedule,
+  getNextActivations,
+  parseCronExpression,
+  validateCronExpression,
+  getPeriodStart,
+
+  // Limit counters
+  getLimitPeriodStarts,
+  aggregateLimitCounters,
+
+  // Indicators & signal gate
+  sma,
+  ema,
+  rsi,
+  macd,
+  bollinger,
+  atr,
+  adx,
+  isSignalGateEnabled,
+  evaluateSignalGate,
+  flipContractType,
+  flipContractParams,
+
+  // Digit analysis
+  isDigitFilterEnabled,
+  evaluateDigitEntry,
+
+  // Volatility
+  getSymbolFamily,
+  isVolatilityControlEnabled,
+  getVolatilityStakeMultiplier,
+
+  // Stake ladder & risk of ruin
+  buildStakeLadder,
+  estimateRiskOfRuin,
+  getWinProbability,
+
+  // Decision journal
+  replayJournal,
+
+  // Multipliers
+  isMultiplierContract,
+  resolveLimitOrder,
+  getMaxLoss,
+  validateMultiplierParams,
+  getMultiplierProfit,
+  getMultiplierCloseReason,
+
+  // Early exit
+  isEarlyExitEnabled,
+  evaluateEarlyExit,
+  recordEarlyExit,
+
+  // Deriv errors
+  classifyDerivError,
+  getRetryAfterMs,
+
+  // Trading hours
+  fetchTradingTimes,
+  parseTradingTimes,
+  getMarketStatus,
+
+  // Price guard
+  isPriceGuardEnabled,
+  checkProposal,
+  getExpectedPayout,
+  getMaxBuyPrice,
+
+  // Contract rotation
+  isRotationEnabled,
+  pickWeighted,
+  createRotationState,
+  advanceRotation,
+  applyRotation,
+
+  // Auto-restart
+  isAutoRestartEnabled,
+  getRestartDelayMs,
+  planRestart,
+
+  // Position sizing
+  isPositionSizingEnabled,
+  getKellyFraction,
+  sizeBaseStake,
+  getLadderBudget,
+
+  // Recovery steps
+  getRecoveryStepAction,
+  getRecoveryStepContract,
+  validateRecoverySteps,
+  describeRecoveryStep,
 };
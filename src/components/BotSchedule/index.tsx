@@ -6,21 +6,38 @@ import {
   PlusOutlined,
 } from "@ant-design/icons";
 import dayjs, { Dayjs } from "dayjs";
+import {
+  getLocalTimeZone,
+  getNextActivations,
+  isValidTimeZone,
+  listTimeZones,
+  validateSchedule,
+} from "../../Classes/engine/ScheduleEvaluator";
 import "./styles.scss";
 
 export interface BotScheduleData {
   name: string;
-  type: "hourly" | "daily" | "weekly" | "monthly";
+  type: "hourly" | "daily" | "weekly" | "monthly" | "custom";
+  timezone: string;
   startTime: string | null;
   endTime: string | null;
+  windows: ScheduleWindow[];
   daysOfWeek: number[];
   dayOfMonth: number | null;
+  cron: string | null;
   exclusions: ScheduleExclusion[];
 }
 
+export interface ScheduleWindow {
+  start: string;
+  end: string;
+}
+
 export interface ScheduleExclusion {
   id: string;
   date: string;
+  /** Recurring exclusion (cron expression); `date` is empty when set */
+  cron?: string;
   reason: string;
 }
 
@@ -32,13 +49,17 @@ interface BotScheduleProps {
 const DEFAULT_SCHEDULE: BotScheduleData = {
   name: "Bot Schedule",
   type: "daily",
+  timezone: getLocalTimeZone(),
   startTime: null,
   endTime: null,
+  windows: [],
   daysOfWeek: [],
   dayOfMonth: null,
+  cron: null,
   exclusions: [],
 };
 
+
 const serializeSchedule = (schedule: BotScheduleData) =>
   JSON.stringify(schedule);
 const DEFAULT_SERIALIZED = serializeSchedule(DEFAULT_SCHEDULE);
@@ -47,7 +68,7 @@ function normalizeSchedule(raw: unknown): BotScheduleData {
   if (!raw || typeof raw !== "object") return { ...DEFAULT_SCHEDULE };
   const r = raw as Record<string, unknown>;
 
-  const type = ["hourly", "daily", "weekly", "monthly"].includes(
+  const type = ["hourly", "daily", "weekly", "monthly", "custom"].includes(
     r.type as string,
   )
     ? (r.type as BotScheduleData["type"])
@@ -74,6 +95,17 @@ function normalizeSchedule(raw: unknown): BotScheduleData {
     : [];
   const dayOfMonth = typeof r.dayOfMonth === "number" ? r.dayOfMonth : null;
 
+  const startTime = toTimeStr(r.startTime);
+  const endTime = toTimeStr(r.endTime);
+  // Schedules saved before multiple windows existed carry a single startTime/endTime
+  const windows: ScheduleWindow[] = Array.isArray(r.windows)
+    ? r.windows
+        .map((w: any) => ({ start: toTimeStr(w?.start), end: toTimeStr(w?.end) }))
+        .filter((w): w is ScheduleWindow => !!w.start && !!w.end)
+    : startTime && endTime
+      ? [{ start: startTime, end: endTime }]
+      : [];
+
   const exclusions: ScheduleExclusion[] = Array.isArray(r.exclusions)
     ? r.exclusions.map((ex: any) => ({
         id: String(ex?.id || Date.now() + Math.random()),
@@ -82,7 +114,10 @@ function normalizeSchedule(raw: unknown): BotScheduleData {
             ? ex.date
             : ex?.date
               ? dayjs(ex.date).format("YYYY-MM-DD")
-              : dayjs().format("YYYY-MM-DD"),
+              : ex?.cron
+                ? ""
+                : dayjs().format("YYYY-MM-DD"),
+        ...(ex?.cron ? { cron: String(ex.cron) } : {}),
         reason: String(ex?.reason || ""),
       }))
     : [];
@@ -90,10 +125,16 @@ function normalizeSchedule(raw: unknown): BotScheduleData {
   return {
     name: "Bot Schedule",
     type,
-    startTime: toTimeStr(r.startTime),
-    endTime: toTimeStr(r.endTime),
+    timezone:
+      typeof r.timezone === "string" && isValidTimeZone(r.timezone)
+        ? r.timezone
+        : getLocalTimeZone(),
+    startTime: windows[0]?.start ?? null,
+    endTime: windows[0]?.end ?? null,
+    windows,
     daysOfWeek,
     dayOfMonth,
+    cron: typeof r.cron === "string" ? r.cron : null,
     exclusions,
   };
 }
@@ -108,6 +149,19 @@ const DAY_NAMES = [
   "Saturday",
 ];
 
+const TIME_ZONE_OPTIONS = listTimeZones().map((tz) => ({ value: tz, label: tz }));
+
+function formatActivation(ms: number, timeZone: string): string {
+  return new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(ms));
+}
+
 export function BotSchedule({ onChange, initialValue }: BotScheduleProps) {
   const normalizedInitial = useMemo(
     () => normalizeSchedule(initialValue),
@@ -140,18 +194,53 @@ export function BotSchedule({ onChange, initialValue }: BotScheduleProps) {
     onChange?.(next);
   };
 
+  // Same evaluator the engine uses, so the preview matches what the bot will do
+  const scheduleErrors = useMemo(() => validateSchedule(schedule), [schedule]);
+  const nextActivations = useMemo(
+    () =>
+      scheduleErrors.length > 0
+        ? []
+        : getNextActivations(schedule),
+    [schedule, scheduleErrors],
+  );
+
+  // The first window is mirrored into startTime/endTime for older consumers
+  const updateWindows = (windows: ScheduleWindow[]) => {
+    update({
+      windows,
+      startTime: windows[0]?.start ?? null,
+      endTime: windows[0]?.end ?? null,
+    });
+  };
+
+  const addWindow = () => {
+    updateWindows([...schedule.windows, { start: "09:00", end: "17:00" }]);
+  };
+
+  const removeWindow = (index: number) => {
+    updateWindows(schedule.windows.filter((_, i) => i !== index));
+  };
+
+  const updateWindow = (index: number, patch: Partial<ScheduleWindow>) => {
+    updateWindows(
+      schedule.windows.map((w, i) => (i === index ? { ...w, ...patch } : w)),
+    );
+  };
+
   const toTimeDayjs = (val: string | null): Dayjs | undefined => {
     if (!val) return undefined;
     const d = dayjs(val, "HH:mm");
     return d.isValid() ? d : undefined;
   };
 
-  const addExclusion = () => {
+  const addExclusion = (recurring = false) => {
     const id = `excl-${Date.now()}-${++exIdCounter.current}`;
     update({
       exclusions: [
         ...schedule.exclusions,
-        { id, date: dayjs().format("YYYY-MM-DD"), reason: "" },
+        recurring
+          ? { id, date: "", cron: "* * * * 5#1", reason: "" }
+          : { id, date: dayjs().format("YYYY-MM-DD"), reason: "" },
       ],
     });
   };
@@ -186,46 +275,98 @@ export function BotSchedule({ onChange, initialValue }: BotScheduleProps) {
               <Select.Option value="daily">Daily</Select.Option>
               <Select.Option value="weekly">Weekly</Select.Option>
               <Select.Option value="monthly">Monthly</Select.Option>
+              <Select.Option value="custom">Custom (cron)</Select.Option>
             </Select>
           </div>
         </div>
 
-        {schedule.type !== "hourly" && (
+        {/* Timezone */}
+        <div className="schedule-row">
+          <div className="schedule-field">
+            <label className="field-label">Timezone</label>
+            <Select
+              showSearch
+              value={schedule.timezone}
+              onChange={(val) => update({ timezone: val })}
+              options={TIME_ZONE_OPTIONS}
+              className="schedule-select"
+              style={{ width: "100%" }}
+              size="large"
+            />
+          </div>
+        </div>
+
+        {schedule.type === "custom" && (
+          <div className="schedule-row">
+            <div className="schedule-field">
+              <label className="field-label">Cron Expression</label>
+              <Input
+                placeholder="m h dom mon dow (e.g. * 8-11 * * 1-5)"
+                value={schedule.cron ?? ""}
+                onChange={(e) => update({ cron: e.target.value || null })}
+                status={schedule.cron && scheduleErrors.length > 0 ? "error" : undefined}
+                size="large"
+              />
+              <div className="schedule-hint">
+                Active during every minute the expression matches, in the selected timezone.
+              </div>
+            </div>
+          </div>
+        )}
+
+        {schedule.type !== "hourly" && schedule.type !== "custom" && (
           <>
-            {/* Time Range */}
+            {/* Time Windows */}
             <div className="schedule-row">
               <div className="schedule-field">
-                <label className="field-label">Time Range</label>
-                <Row gutter={[8, 8]}>
-                  <Col xs={24} sm={12}>
+                <label className="field-label">Time Windows</label>
+                {schedule.windows.map((w, index) => (
+                  <div key={index} className="window-row">
                     <TimePicker
-                      value={toTimeDayjs(schedule.startTime)}
+                      value={toTimeDayjs(w.start)}
                       onChange={(time) =>
-                        update({
-                          startTime: time ? time.format("HH:mm") : null,
-                        })
+                        time && updateWindow(index, { start: time.format("HH:mm") })
                       }
                       format="HH:mm"
                       placeholder="Start time"
-                      style={{ width: "100%" }}
+                      className="window-control"
                       size="large"
-                      use12Hours
+                      allowClear={false}
                     />
-                  </Col>
-                  <Col xs={24} sm={12}>
                     <TimePicker
-                      value={toTimeDayjs(schedule.endTime)}
+                      value={toTimeDayjs(w.end)}
                       onChange={(time) =>
-                        update({ endTime: time ? time.format("HH:mm") : null })
+                        time && updateWindow(index, { end: time.format("HH:mm") })
                       }
                       format="HH:mm"
                       placeholder="End time"
-                      style={{ width: "100%" }}
+                      className="window-control"
                       size="large"
-                      use12Hours
+                      allowClear={false}
                     />
-                  </Col>
-                </Row>
+                    <Button
+                      type="text"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={() => removeWindow(index)}
+                      size="large"
+                    />
+                  </div>
+                ))}
+
+                <Button
+                  type="dashed"
+                  onClick={addWindow}
+                  icon={<PlusOutlined />}
+                  block
+                  className="add-exclusion-btn"
+                  size="middle"
+                >
+                  Add Time Window
+                </Button>
+                {schedule.windows.length === 0 && (
+                  <div className="schedule-hint">No windows — active all day.</div>
+                )}
               </div>
             </div>
           </>
@@ -301,21 +442,33 @@ export function BotSchedule({ onChange, initialValue }: BotScheduleProps) {
 
               {schedule.exclusions.map((ex) => (
                 <div key={ex.id} className="exclusion-row">
-                  <DatePicker
-                    className="exclusion-control"
-                    value={
-                      ex.date && dayjs(ex.date).isValid()
-                        ? dayjs(ex.date)
-                        : undefined
-                    }
-                    onChange={(date) =>
-                      updateExclusion(ex.id, {
-                        date: date ? date.format("YYYY-MM-DD") : "",
-                      })
-                    }
-                    format="YYYY-MM-DD"
-                    size="large"
-                  />
+                  {ex.cron !== undefined ? (
+                    <Input
+                      className="exclusion-control"
+                      placeholder="Cron, e.g. * * * * 5#1"
+                      value={ex.cron}
+                      onChange={(e) =>
+                        updateExclusion(ex.id, { cron: e.target.value })
+                      }
+                      size="large"
+                    />
+                  ) : (
+                    <DatePicker
+                      className="exclusion-control"
+                      value={
+                        ex.date && dayjs(ex.date).isValid()
+                          ? dayjs(ex.date)
+                          : undefined
+                      }
+                      onChange={(date) =>
+                        updateExclusion(ex.id, {
+                          date: date ? date.format("YYYY-MM-DD") : "",
+                        })
+                      }
+                      format="YYYY-MM-DD"
+                      size="large"
+                    />
+                  )}
                   <Input
                     placeholder="Reason (e.g., Holiday)"
                     value={ex.reason}
@@ -337,7 +490,7 @@ export function BotSchedule({ onChange, initialValue }: BotScheduleProps) {
 
               <Button
                 type="dashed"
-                onClick={addExclusion}
+                onClick={() => addExclusion()}
                 icon={<PlusOutlined />}
                 block
                 className="add-exclusion-btn"
@@ -345,9 +498,45 @@ export function BotSchedule({ onChange, initialValue }: BotScheduleProps) {
               >
                 Add Exclusion Date
               </Button>
+              <Button
+                type="dashed"
+                onClick={() => addExclusion(true)}
+                icon={<PlusOutlined />}
+                block
+                className="add-exclusion-btn"
+                size="middle"
+              >
+                Add Recurring Exclusion
+              </Button>
             </div>
           </div>
         )}
+
+        {/* Preview */}
+        <div className="schedule-row">
+          <div className="schedule-field">
+            <label className="field-label">Next Activations</label>
+            {scheduleErrors.map((error) => (
+              <div key={error} className="schedule-error">
+                {error}
+              </div>
+            ))}
+            {scheduleErrors.length === 0 && nextActivations.length === 0 && (
+              <div className="schedule-hint">
+                No upcoming activations (or already active with no end in sight).
+              </div>
+            )}
+            <ul className="schedule-preview">
+              {nextActivations.map((a) => (
+                <li key={a.start}>
+                  {formatActivation(a.start, schedule.timezone)}
+                  {a.end !== null &&
+                    ` → ${formatActivation(a.end, schedule.timezone)}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -9,8 +9,11 @@ import { BotBannerUpload } from "../BotBannerUpload";
 import { BotRealtimePerformanceData, tradingBotAPIService, TradingBotConfig } from "../../services/tradingBotAPIService";
 import { useEventPublisher, useEventSubscription } from "../../hooks/useEventManager";
 import { useSounds } from "../../hooks/useSounds";
+import { useTradingCalendar } from "../../hooks/useTradingCalendar";
 import { useDiscoveryContext } from "../../contexts/DiscoveryContext";
-import { BotContractTrade } from "../../services/botContractTradesAPIService";
+import { BotContractTrade, botContractTradesAPI } from "../../services/botContractTradesAPIService";
+import { DigitHistogram } from "../DigitHistogram";
+import { aggregateLimitCounters, getLimitPeriodStarts, LimitCounters } from "../../Classes/engine/LimitCounters";
 
 const { Title, Text } = Typography;
 
@@ -35,6 +38,7 @@ export const BotItem: React.FC<BotItemProps> = ({ bot }) => {
     });
   
     const { refreshMyBots, activityHistoryItems } = useDiscoveryContext();
+    const { getMarketStatus } = useTradingCalendar();
 
     const { publish } = useEventPublisher();
   
@@ -54,8 +58,17 @@ export const BotItem: React.FC<BotItemProps> = ({ bot }) => {
 
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
 
+  // Calendar-aligned limit counters (today / this week)
+  const [limitCounters, setLimitCounters] = useState<LimitCounters | null>(null);
+  const [limitCountersLoading, setLimitCountersLoading] = useState(false);
+
   const [currentState, setCurrentState] = useState("BOT_DETAILS");
 
+  // Digit contracts get a live last-digit histogram
+  const isDigitBot = /DIGIT/.test(
+    String(selectedBot?.contract?.tradeType || selectedBot?.contract?.contractType || ""),
+  );
+
   // Memoized bot drawer title
   const botDrawerTitle = useMemo(() => {
 
@@ -199,6 +212,17 @@ export const BotItem: React.FC<BotItemProps> = ({ bot }) => {
     try {
       let response: any;
 
+      // Don't start or resume a bot into a closed market
+      if (action === "START" || action === "RESUME") {
+        const market = getMarketStatus(selectedBot?.contract?.market?.symbol || "");
+        if (!market.isOpen) {
+          const reopens = market.nextOpen ? ` until ${new Date(market.nextOpen).toLocaleString()}` : "";
+          message.error(`${selectedBot?.contract?.market?.displayName || market.symbol} is closed${reopens}`);
+          playError();
+          return;
+        }
+      }
+
       // Play sound for the action being initiated
       switch (action) {
         case "START":
@@ -421,6 +445,46 @@ export const BotItem: React.FC<BotItemProps> = ({ bot }) => {
     setAuditDrawerOpen(true);
     setCurrentState("BOT_DETAILS");
     fetchAuditTrail();
+    fetchLimitCounters();
+  };
+
+  // Rebuild this week's limit counters from the bot's trades
+  const fetchLimitCounters = async () => {
+    if (!selectedBot?.botUUID) return;
+
+    const riskManagement = selectedBot.advanced_settings?.risk_management_section;
+    const options = {
+      timeZone: riskManagement?.limit_reset_timezone,
+      weekStartsOn: riskManagement?.week_start_day,
+    };
+    const now = Date.now();
+
+    setLimitCountersLoading(true);
+    try {
+      const response = await botContractTradesAPI.getTradesByBot(selectedBot.botUUID, {
+        startDate: new Date(getLimitPeriodStarts(now, options).week).toISOString(),
+        limit: 500,
+      });
+      setLimitCounters(aggregateLimitCounters(response.data?.trades || [], now, options));
+    } catch (error) {
+      console.error("Failed to fetch limit counters:", error);
+      setLimitCounters(null);
+    } finally {
+      setLimitCountersLoading(false);
+    }
+  };
+
+  // Format a limit counter against its configured threshold
+  const formatLimitUsage = (used: number, limit: unknown) => {
+    const usedText = formatCurrency(used);
+    if (!limit) return usedText;
+    if (typeof limit === 'object' && (limit as { type?: string }).type === 'fixed') {
+      return `${usedText} / ${formatCurrency(Number((limit as { value?: unknown }).value) || 0)}`;
+    }
+    if (typeof limit === 'object' && (limit as { type?: string }).type === 'percentage') {
+      return `${usedText} / ${(limit as { value?: unknown }).value}%`;
+    }
+    return usedText;
   };
 
   // Handle audit trail fetch
@@ -1590,6 +1654,11 @@ export const BotItem: React.FC<BotItemProps> = ({ bot }) => {
                             ?.general_settings_section
                             ?.maximum_number_of_trades || "Unlimited"}
                         </Descriptions.Item>
+                        <Descriptions.Item label="Concurrent Contracts">
+                          {selectedBot?.advanced_settings
+                            ?.general_settings_section
+                            ?.max_concurrent_contracts || 1}
+                        </Descriptions.Item>
                         <Descriptions.Item label="Max Runtime">
                           {selectedBot?.advanced_settings
                             ?.general_settings_section?.maximum_running_time ||
@@ -1786,6 +1855,68 @@ export const BotItem: React.FC<BotItemProps> = ({ bot }) => {
                       </Descriptions>
                     </div>
 
+                    {/* Limit Counters */}
+                    <div style={{ marginBottom: "24px" }}>
+                      <h4 className="metric-section-header">
+                        ⏱️ Limit Counters
+                      </h4>
+                      <Spin spinning={limitCountersLoading}>
+                        <Descriptions
+                          bordered
+                          column={1}
+                          size="small"
+                          style={{ borderRadius: "8px" }}
+                        >
+                          <Descriptions.Item label="Today's Loss">
+                            {limitCounters
+                              ? formatLimitUsage(limitCounters.dailyLoss, selectedBot?.advanced_settings?.risk_management_section?.max_daily_loss)
+                              : "—"}
+                          </Descriptions.Item>
+                          <Descriptions.Item label="Today's Profit">
+                            {limitCounters
+                              ? formatLimitUsage(limitCounters.dailyProfit, selectedBot?.advanced_settings?.risk_management_section?.max_daily_profit)
+                              : "—"}
+                          </Descriptions.Item>
+                          <Descriptions.Item label="This Week's Loss">
+                            {limitCounters
+                              ? formatLimitUsage(limitCounters.weeklyLoss, selectedBot?.advanced_settings?.risk_management_section?.max_weekly_loss)
+                              : "—"}
+                          </Descriptions.Item>
+                          <Descriptions.Item label="This Week's Profit">
+                            {limitCounters
+                              ? formatLimitUsage(limitCounters.weeklyProfit, selectedBot?.advanced_settings?.risk_management_section?.max_weekly_profit)
+                              : "—"}
+                          </Descriptions.Item>
+                          <Descriptions.Item label="Resets">
+                            {`Midnight ${selectedBot?.advanced_settings?.risk_management_section?.limit_reset_timezone || "UTC"}, weekly on ${
+                              ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"][
+                                Number(selectedBot?.advanced_settings?.risk_management_section?.week_start_day ?? 1)
+                              ] || "Monday"
+                            }`}
+                          </Descriptions.Item>
+                        </Descriptions>
+                      </Spin>
+                    </div>
+
+                    {/* Digit Analysis */}
+                    {isDigitBot && selectedBot?.botAccount?.token && (
+                      <div style={{ marginBottom: "24px" }}>
+                        <h4 className="metric-section-header">
+                          🔢 Digit Analysis
+                        </h4>
+                        <DigitHistogram
+                          symbol={selectedBot?.contract?.market?.symbol || ""}
+                          token={selectedBot.botAccount.token}
+                          sampleSize={selectedBot?.advanced_settings?.digit_analysis_section?.digit_sample_size || undefined}
+                          highlight={
+                            selectedBot?.contract?.prediction !== undefined && selectedBot?.contract?.prediction !== ""
+                              ? Number(selectedBot.contract.prediction)
+                              : null
+                          }
+                        />
+                      </div>
+                    )}
+
                     {/* Volatility Controls */}
                     <div style={{ marginBottom: "24px" }}>
                       <h4 className="metric-section-header">
@@ -0,0 +1,161 @@
+import { Flex, Space, Switch, Segmented, Select, Row, Col, InputNumber } from 'antd';
+import { useMemo } from 'react';
+import { marketData } from '../../../types/market';
+import { BotContractRotation } from '../../../services/tradingBotAPIService';
+
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export interface RotationSettingsProps {
+  value?: BotContractRotation | null;
+  /** Rotate through markets (contract.marketRandomize) */
+  rotateMarkets: boolean;
+  /** Rotate through digit predictions (contract.predictionRandomize on digit contracts) */
+  rotatePredictions: boolean;
+  /** Show when to rotate (shared by markets and predictions, so shown once) */
+  showTrigger?: boolean;
+  onChange: (rotation: BotContractRotation) => void;
+}
+
+/**
+ * Weighted markets / predictions a randomized contract rotates through, and when it rotates
+ * (see Classes/engine/ContractRotation).
+ */
+export function RotationSettings({ value, rotateMarkets, rotatePredictions, showTrigger = true, onChange }: RotationSettingsProps) {
+  const rotation = useMemo<BotContractRotation>(() => value || {}, [value]);
+  const markets = rotation.markets || [];
+  const predictions = rotation.predictions || [];
+  const trigger = rotation.trigger || 'trades';
+
+  const marketNames = useMemo(
+    () => Object.fromEntries(marketData.map((market) => [market.symbol, market.displayName])),
+    []
+  );
+
+  const updateRotation = (changes: Partial<BotContractRotation>) => {
+    onChange({ ...rotation, ...changes });
+  };
+
+  // Keep the weights of markets / predictions that stay selected
+  const selectMarkets = (symbols: string[]) => {
+    updateRotation({
+      markets: symbols.map((symbol) => markets.find((m) => m.symbol === symbol) || { symbol, weight: 1 }),
+    });
+  };
+
+  const selectPredictions = (digits: string[]) => {
+    updateRotation({
+      predictions: digits.map((prediction) => predictions.find((p) => p.prediction === prediction) || { prediction, weight: 1 }),
+    });
+  };
+
+  if (!rotateMarkets && !rotatePredictions) return null;
+
+  return (
+    <Space vertical size={8} className="contract-params-spacer-for-label-element" style={{ width: '100%' }}>
+      {rotateMarkets && (
+        <>
+          <label className="field-label">Rotate Markets</label>
+          <Select
+            mode="multiple"
+            size="large"
+            style={{ width: '100%' }}
+            placeholder="Markets to rotate through"
+            optionFilterProp="label"
+            value={markets.map((m) => m.symbol)}
+            onChange={selectMarkets}
+            options={marketData.map((market) => ({ label: market.displayName, value: market.symbol }))}
+          />
+          {markets.map((market) => (
+            <Flex key={market.symbol} justify="space-between" align="center" gap={16}>
+              <span>{marketNames[market.symbol] || market.symbol}</span>
+              <InputNumber
+                min={0}
+                prefix="Weight"
+                value={market.weight ?? 1}
+                onChange={(weight) => updateRotation({
+                  markets: markets.map((m) => (m.symbol === market.symbol ? { ...m, weight } : m)),
+                })}
+              />
+            </Flex>
+          ))}
+        </>
+      )}
+      {rotatePredictions && (
+        <>
+          <label className="field-label">Rotate Predictions</label>
+          <Select
+            mode="multiple"
+            size="large"
+            style={{ width: '100%' }}
+            placeholder="Digits to rotate through"
+            value={predictions.map((p) => p.prediction)}
+            onChange={selectPredictions}
+            options={DIGITS.map((digit) => ({ label: digit, value: digit }))}
+          />
+          {predictions.map((prediction) => (
+            <Flex key={prediction.prediction} justify="space-between" align="center" gap={16}>
+              <span>Digit {prediction.prediction}</span>
+              <InputNumber
+                min={0}
+                prefix="Weight"
+                value={prediction.weight ?? 1}
+                onChange={(weight) => updateRotation({
+                  predictions: predictions.map((p) => (p.prediction === prediction.prediction ? { ...p, weight } : p)),
+                })}
+              />
+            </Flex>
+          ))}
+        </>
+      )}
+      {showTrigger && (
+        <>
+          <label className="field-label">Rotate</label>
+          <Segmented size="large" block className="contract-params-segment"
+            options={[
+              { label: "Every N trades", value: "trades" },
+              { label: "On loss", value: "loss" },
+              { label: "Loss streak", value: "loss_streak" },
+            ]}
+            value={trigger}
+            onChange={(val) => updateRotation({ trigger: val as BotContractRotation['trigger'] })}
+          />
+        </>
+      )}
+      {showTrigger && trigger !== 'loss' && (
+        <InputNumber
+          min={1}
+          size="large"
+          style={{ width: '100%' }}
+          placeholder={trigger === 'trades' ? 'Trades per rotation (1)' : 'Losses in a row (2)'}
+          value={trigger === 'trades' ? rotation.everyTrades : rotation.lossStreak}
+          onChange={(val) => updateRotation(trigger === 'trades' ? { everyTrades: val } : { lossStreak: val })}
+        />
+      )}
+      {rotateMarkets && (
+        <Row gutter={16} align="middle">
+          <Col span={12}>
+            <Flex align="center" gap={8}>
+              <Switch
+                size="small"
+                checked={!!rotation.excludeLosingSymbols}
+                onChange={(val) => updateRotation({ excludeLosingSymbols: val })}
+              />
+              <span className="field-label" style={{ margin: 0 }}>Skip losing markets</span>
+            </Flex>
+          </Col>
+          <Col span={12}>
+            <InputNumber
+              min={1}
+              size="large"
+              style={{ width: '100%' }}
+              placeholder="For N trades (5)"
+              disabled={!rotation.excludeLosingSymbols}
+              value={rotation.exclusionTrades}
+              onChange={(val) => updateRotation({ exclusionTrades: val })}
+            />
+          </Col>
+        </Row>
+      )}
+    </Space>
+  );
+}
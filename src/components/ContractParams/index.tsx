@@ -6,6 +6,8 @@ import './styles.scss';
 import { ContractParamsProps, ContractData } from '../../types/strategy';
 import { MarketSelectorComponent } from '../MarketSelectorComponent';
 import { useCallback, useMemo } from 'react';
+import { DEAL_CANCELLATION_DURATIONS } from '../../Classes/engine/Multipliers';
+import { RotationSettings } from './RotationSettings';
 
 export function ContractParams({ defaultValues, currentValue, updateStep, onContractParamsChange }: ContractParamsProps) {
 
@@ -29,6 +31,11 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
       multiplier: value?.multiplier ?? defaultValues.multiplier ?? 1,
       allowEquals: value?.allowEquals ?? defaultValues.allowEquals ?? false,
       alternateAfter: value?.alternateAfter ?? defaultValues.alternateAfter ?? 1,
+      takeProfit: value?.takeProfit ?? defaultValues.takeProfit ?? null,
+      stopLoss: value?.stopLoss ?? defaultValues.stopLoss ?? null,
+      limitOrderUnits: value?.limitOrderUnits ?? defaultValues.limitOrderUnits ?? 'amount',
+      dealCancellation: value?.dealCancellation ?? defaultValues.dealCancellation ?? null,
+      rotation: value?.rotation ?? defaultValues.rotation ?? null,
     };
   }, [defaultValues]);
 
@@ -40,6 +47,7 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
   const isRiseFallType = contractParams.tradeType === 'CALLE|PUTE';
   const isOddEvenType = contractParams.tradeType === 'ODD|EVEN';
   const isDigitsType = contractParams.tradeType === 'DIGITS';
+  const isMultipliersType = contractParams.tradeType === 'MULTUP|MULTDOWN';
   
   // Check if ALTERNATE is selected
   const isAlternateSelected = contractParams.contractType === 'ALTERNATE';
@@ -50,6 +58,22 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
     onContractParamsChange(updatedParams);
     console.log("CONTRACT_PARAMS_UPDATE", defaultValues.id, {field, value}, updatedParams);
   };
+
+  // Multipliers need their own contract types; other trade types keep the previous behaviour
+  const updateTradeType = (value: string) => {
+    const isMultipliers = value === 'MULTUP|MULTDOWN';
+    const keepsContractType = contractParams.contractType === 'ALTERNATE' ||
+      contractParams.contractType.startsWith('MULT') === isMultipliers;
+    if (keepsContractType) {
+      updateContractParams('tradeType', value);
+      return;
+    }
+    const contractType = isMultipliers ? 'MULTUP' : defaultValues.contractType;
+    const updatedParams = buildContractParams({ ...contractParams, tradeType: value, contractType });
+    updateStep(defaultValues.id, 'tradeType', value);
+    updateStep(defaultValues.id, 'contractType', contractType);
+    onContractParamsChange(updatedParams);
+  };
   return (
     <Space vertical size={0} className="contract-params-wrapper">
       <Space vertical size={8} className="contract-params-spacer-for-label-element">
@@ -73,6 +97,12 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
             className="contract-market-selector"
           />
         )}
+        <RotationSettings
+          value={contractParams.rotation}
+          rotateMarkets={contractParams.marketRandomize}
+          rotatePredictions={false}
+          onChange={(rotation) => updateContractParams('rotation', rotation)}
+        />
       </Space>
       <Divider className="contract-params-divider" />
       <Space vertical size={8} className="contract-params-spacer-for-label-element">
@@ -82,9 +112,10 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
             { label: "Digits", value: "DIGITS" },
             { label: "Rise / Fall", value: "CALLE|PUTE" },
             { label: "Odd / Even", value: "ODD|EVEN" },
+            { label: "Multipliers", value: "MULTUP|MULTDOWN" },
           ]}
           value={contractParams.tradeType}
-          onChange={(val) => updateContractParams('tradeType', val)}
+          onChange={(val) => updateTradeType(val)}
         />
       </Space>
       <Divider className="contract-params-divider"  />
@@ -122,6 +153,16 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
             value={contractParams.contractType}
             onChange={(val) => updateContractParams('contractType', val)}
           />
+        ) : isMultipliersType ? (
+          <Segmented size="large" block className="contract-params-segment"
+            options={[
+              { label: "Up", value: "MULTUP" },
+              { label: "Down", value: "MULTDOWN" },
+              { label: "Alternate", value: "ALTERNATE" },
+            ]}
+            value={contractParams.contractType}
+            onChange={(val) => updateContractParams('contractType', val)}
+          />
         ) : (
           <Segmented size="large" block className="contract-params-segment"
             options={[
@@ -195,13 +236,81 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
                 onChange={(val) => updateContractParams('prediction', val)}
               />
             )}
+            {contractParams.predictionRandomize && (
+              <RotationSettings
+                value={contractParams.rotation}
+                rotateMarkets={false}
+                rotatePredictions
+                showTrigger={!contractParams.marketRandomize}
+                onChange={(rotation) => updateContractParams('rotation', rotation)}
+              />
+            )}
+          </Space>
+        </>
+      )}
+      {isMultipliersType && (
+        <>
+          <Divider className="contract-params-divider" />
+          <Space vertical size={8} className="contract-params-spacer-for-label-element">
+            <label className="field-label">
+              <Flex justify='space-between' align='center'>
+                <span>Limit Orders</span>
+                <Segmented size="small"
+                  options={[
+                    { label: "Amount", value: "amount" },
+                    { label: "% of stake", value: "percentage" },
+                  ]}
+                  value={contractParams.limitOrderUnits || 'amount'}
+                  onChange={(val) => updateContractParams('limitOrderUnits', val)}
+                />
+              </Flex>
+            </label>
+            <Row gutter={16}>
+              <Col span={12}>
+                <InputNumber
+                  min={0}
+                  size="large"
+                  style={{ width: '100%' }}
+                  placeholder="Take profit"
+                  value={contractParams.takeProfit}
+                  onChange={(value) => updateContractParams('takeProfit', value)}
+                />
+              </Col>
+              <Col span={12}>
+                <InputNumber
+                  min={0}
+                  size="large"
+                  style={{ width: '100%' }}
+                  placeholder="Stop loss"
+                  disabled={!!contractParams.dealCancellation}
+                  value={contractParams.stopLoss}
+                  onChange={(value) => updateContractParams('stopLoss', value)}
+                />
+              </Col>
+            </Row>
+          </Space>
+          <Divider className="contract-params-divider" />
+          <Space vertical size={8} className="contract-params-spacer-for-label-element">
+            <label className="field-label">Deal Cancellation</label>
+            <Select
+              value={contractParams.dealCancellation || ''}
+              onChange={(value) => updateContractParams('dealCancellation', value || null)}
+              style={{ width: '100%' }}
+              size="large"
+              options={[
+                { label: 'None', value: '' },
+                ...DEAL_CANCELLATION_DURATIONS.map((duration) => ({ label: duration, value: duration })),
+              ]}
+            />
           </Space>
         </>
       )}
       <Divider className="contract-params-divider" />
       <Flex justify='space-between' align='center' gap={32}>
         <Space vertical size={8} className="contract-params-spacer-for-label-element">
-          <label className="field-label">Duration ({contractParams.durationUnits})</label>
+          <label className="field-label">
+            {isMultipliersType ? `Close after (${contractParams.durationUnits}, 0 = hold)` : `Duration (${contractParams.durationUnits})`}
+          </label>
           <InputField
             type="number-prefix"
             suffix={<ClockCircleOutlined />}
@@ -236,15 +345,17 @@ export function ContractParams({ defaultValues, currentValue, updateStep, onCont
             onChange={(val) => updateContractParams('delay', val)}
           />
         </Space>
-        <Space vertical size={8} className="contract-params-spacer-for-label-element">
-          <label className="field-label">Multiplier</label>
-          <InputField
-            type="number-prefix"
-            suffix={<MoneyCollectOutlined />}
-            value={contractParams.multiplier}
-            onChange={(val) => updateContractParams('multiplier', val)}
-          />
-        </Space>
+        {isMultipliersType && (
+          <Space vertical size={8} className="contract-params-spacer-for-label-element">
+            <label className="field-label">Multiplier</label>
+            <InputField
+              type="number-prefix"
+              suffix={<MoneyCollectOutlined />}
+              value={contractParams.multiplier}
+              onChange={(val) => updateContractParams('multiplier', val)}
+            />
+          </Space>
+        )}
       </Flex>
     </Space>
   );
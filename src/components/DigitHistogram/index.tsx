@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Card, Spin, Tag, Typography } from 'antd';
+import { envConfig } from '../../config/env.config';
+import { getSharedConnectionManager } from '../../Classes/engine/DerivConnectionManager';
+import type { DerivConnectionHandle } from '../../Classes/engine/DerivConnectionManager';
+import { DigitAnalysisService, type DigitStats, DEFAULT_DIGIT_SAMPLE_SIZE } from '../../Classes/engine/DigitStats';
+import { createDerivTickSource } from '../../Classes/engine/TickSource';
+import './styles.scss';
+
+const { Text } = Typography;
+
+interface DigitHistogramProps {
+  symbol: string;
+  /** Deriv token used to open the tick stream */
+  token: string;
+  sampleSize?: number;
+  /** Digit to outline, e.g. the bot's prediction */
+  highlight?: number | null;
+}
+
+export function DigitHistogram({ symbol, token, sampleSize = DEFAULT_DIGIT_SAMPLE_SIZE, highlight = null }: DigitHistogramProps) {
+  const [stats, setStats] = useState<DigitStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!symbol || !token) return;
+
+    let cancelled = false;
+    let connection: DerivConnectionHandle | null = null;
+    let digits: DigitAnalysisService | null = null;
+
+    const start = async () => {
+      try {
+        connection = await getSharedConnectionManager({
+          endpoint: envConfig.VITE_DERIV_WS_ENDPOINT_DOMAIN,
+          appId: envConfig.VITE_DERIV_WS_APP_ID,
+          lang: envConfig.VITE_DERIV_APP_ENDPOINT_LANG,
+        }).acquire(token);
+        if (cancelled) {
+          connection.release();
+          return;
+        }
+
+        digits = new DigitAnalysisService({ tickSource: createDerivTickSource(connection), sampleSize });
+        digits.on('digit_stats', (payload: { stats: DigitStats | null }) => {
+          if (!cancelled) setStats(payload.stats);
+        });
+        digits.on('digit_feed_error', (payload: { error: string }) => {
+          if (!cancelled) setError(payload.error);
+        });
+
+        await digits.warmUp(connection, symbol);
+        if (!cancelled) digits.watch(symbol);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      digits?.destroy();
+      connection?.release();
+    };
+  }, [symbol, token, sampleSize]);
+
+  const maxFrequency = stats ? Math.max(...stats.frequencies, 1) : 1;
+
+  return (
+    <Card className="digit-histogram-card" size="small">
+      <div className="digit-histogram-header">
+        <Text strong>Last Digits · {symbol}</Text>
+        {stats && <Text type="secondary">{stats.sampleSize} ticks</Text>}
+      </div>
+
+      {error && <Text type="danger">{error}</Text>}
+
+      <Spin spinning={!stats && !error}>
+        <div className="digit-histogram-bars">
+          {Array.from({ length: 10 }, (_, digit) => {
+            const frequency = stats?.frequencies[digit] ?? 0;
+            const classes = ['digit-bar'];
+            if (stats && digit === stats.mostFrequent) classes.push('most');
+            if (stats && digit === stats.leastFrequent) classes.push('least');
+            if (stats && digit === stats.lastDigit) classes.push('last');
+            if (highlight === digit) classes.push('highlight');
+            return (
+              <div key={digit} className={classes.join(' ')}>
+                <span className="digit-bar-value">{frequency.toFixed(1)}%</span>
+                <div className="digit-bar-track">
+                  <div className="digit-bar-fill" style={{ height: `${(frequency / maxFrequency) * 100}%` }} />
+                </div>
+                <span className="digit-bar-label">{digit}</span>
+              </div>
+            );
+          })}
+        </div>
+      </Spin>
+
+      {stats && (
+        <div className="digit-histogram-footer">
+          <Tag>Even {stats.evenPercentage}%</Tag>
+          <Tag>Odd {stats.oddPercentage}%</Tag>
+          <Tag>{stats.parityRun.length}× {stats.parityRun.parity}</Tag>
+          {stats.streak.length > 1 && <Tag>{stats.streak.length}× {stats.streak.digit}</Tag>}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -13,6 +13,7 @@
  *   - antd: Input, Tabs components and icons
  *   - types/market: Market data types and sample data
  *   - MarketIcon: Custom icon component for market symbols
+ *   - useTradingCalendar: Open/closed state from Deriv trading_times
  * @usage:
  *   <MarketSelector
  *     onSelectMarket={(market) => handleMarketSelection(market)}
@@ -26,6 +27,7 @@
  * @dataFlow:
  *   - Input: Selected market and selection callback
  *   - State: Search query, active tab, favorite markets
+ *   - Closed markets (from the trading calendar) are shown but cannot be selected
  *   - Output: Market selection events
  *
  * @ai-hints: This component handles multiple filtering methods (tabs, search, favorites)
@@ -34,12 +36,13 @@
  *            Supports all major market types including forex, commodities, crypto,
  *            indices, stocks, energy, metals, and tactical indices.
  */
-import React, { useState } from "react";
+import React, { useState, useMemo } from "react";
 import { Input, Tabs } from "antd";
 import { SearchOutlined, StarOutlined, StarFilled } from "@ant-design/icons";
-import { marketData, MarketInfo } from "../../types/market";
+import { marketData as allMarkets, MarketInfo } from "../../types/market";
 import "./styles.scss";
 import { MarketIcon } from "./MarketIcons/MarketIcon";
+import { useTradingCalendar } from "../../hooks/useTradingCalendar";
 
 interface MarketSelectorProps {
   onSelectMarket: (market: MarketInfo) => void;
@@ -56,6 +59,13 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState<TabType>("all");
   const [favoriteMarkets, setFavoriteMarkets] = useState<string[]>([]);
+  const { calendar, now, getMarketStatus } = useTradingCalendar();
+
+  // Mark markets open/closed from the trading calendar
+  const marketData = useMemo(
+    () => calendar.markMarkets(allMarkets, now),
+    [calendar, now]
+  );
 
   // Group markets by type for display
   const syntheticMarkets = marketData.filter(
@@ -276,6 +286,14 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
     );
   };
 
+  // Tooltip for closed markets: why, and when they reopen
+  const getReopenHint = (symbol: string) => {
+    const status = getMarketStatus(symbol);
+    return status.nextOpen
+      ? `${status.reason} · opens ${new Date(status.nextOpen).toLocaleString()}`
+      : status.reason || "";
+  };
+
   // Render individual market item
   const renderMarketItem = (market: MarketInfo) => {
     const isSelected = selectedMarket?.symbol === market.symbol;
@@ -292,7 +310,11 @@ export const MarketSelector: React.FC<MarketSelectorProps> = ({
         <div className="market-item-left">
           <MarketIcon symbol={market.symbol} />
           <span className="market-name">{market.displayName}</span>
-          {market.isClosed && <span className="market-closed-tag">Closed</span>}
+          {market.isClosed && (
+            <span className="market-closed-tag" title={getReopenHint(market.symbol)}>
+              Closed
+            </span>
+          )}
         </div>
         <div
           className="market-favorite"
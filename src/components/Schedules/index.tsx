@@ -2,6 +2,13 @@ import { useState } from 'react';
 import { Card, Button, Select, DatePicker, TimePicker, Checkbox, Row, Col, Collapse } from 'antd';
 import { PlusOutlined, DeleteOutlined, CalendarOutlined, DownOutlined } from '@ant-design/icons';
 import dayjs, { Dayjs } from 'dayjs';
+import {
+  getLocalTimeZone,
+  getNextActivations,
+  listTimeZones,
+  validateSchedule,
+  type ScheduleDefinition,
+} from '../../Classes/engine/ScheduleEvaluator';
 import './styles.scss';
 
 const { Option } = Select;
@@ -11,6 +18,8 @@ export interface ScheduleRule {
   id: string;
   name: string;
   type: 'daily' | 'weekly' | 'monthly' | 'custom';
+  timezone?: string; // IANA, device timezone when unset
+  cron?: string; // used by 'custom'
   startDate: Dayjs;
   endDate?: Dayjs;
   startTime: Dayjs;
@@ -43,6 +52,7 @@ export function Schedules({ onChange, value = [] }: SchedulesProps) {
       type: 'daily',
       startDate: dayjs(),
       startTime: dayjs().set('hour', 9).set('minute', 0),
+      timezone: getLocalTimeZone(),
       isEnabled: true,
       exclusions: []
     };
@@ -155,6 +165,35 @@ export function Schedules({ onChange, value = [] }: SchedulesProps) {
           </div>
         </div>
 
+        <div className="schedule-row">
+          <div className="schedule-field">
+            <label className="field-label">Timezone</label>
+            <Select
+              showSearch
+              value={schedule.timezone || getLocalTimeZone()}
+              onChange={(value) => updateSchedule(schedule.id, { timezone: value })}
+              options={TIME_ZONE_OPTIONS}
+              className="schedule-select"
+              style={{ width: '100%' }}
+              size="large"
+            />
+          </div>
+        </div>
+
+        {schedule.type === 'custom' && (
+          <div className="schedule-row">
+            <div className="schedule-field">
+              <label className="field-label">Cron Expression</label>
+              <Input
+                placeholder="m h dom mon dow (e.g. * 8-11 * * 1-5)"
+                value={schedule.cron}
+                onChange={(e) => updateSchedule(schedule.id, { cron: e.target.value })}
+                size="large"
+              />
+            </div>
+          </div>
+        )}
+
         <div className="schedule-row">
           <div className="schedule-field">
             <label className="field-label">Date Range</label>
@@ -319,6 +358,13 @@ export function Schedules({ onChange, value = [] }: SchedulesProps) {
             </div>
           </div>
         </div>
+
+        <div className="schedule-row">
+          <div className="schedule-field">
+            <label className="field-label">Next Activations</label>
+            <SchedulePreview schedule={schedule} />
+          </div>
+        </div>
       </div>
     </Panel>
   );
@@ -353,7 +399,58 @@ export function Schedules({ onChange, value = [] }: SchedulesProps) {
   );
 }
 
+const TIME_ZONE_OPTIONS = listTimeZones().map((tz) => ({ value: tz, label: tz }));
+
+// Preview the next activations with the engine's schedule evaluator
+function SchedulePreview({ schedule }: { schedule: ScheduleRule }) {
+  const definition = toScheduleDefinition(schedule);
+  const errors = validateSchedule(definition);
+  if (errors.length > 0) {
+    return <div className="schedule-preview-error">{errors.join('; ')}</div>;
+  }
+
+  const timeZone = definition.timezone || getLocalTimeZone();
+  const format = new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const activations = getNextActivations(definition);
+  if (activations.length === 0) {
+    return <div className="schedule-preview-empty">No upcoming activations</div>;
+  }
+
+  return (
+    <ul className="schedule-preview">
+      {activations.map((a) => (
+        <li key={a.start}>
+          {format.format(new Date(a.start))}
+          {a.end !== null && ` → ${format.format(new Date(a.end))}`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 // Helper functions
+function toScheduleDefinition(schedule: ScheduleRule): ScheduleDefinition {
+  return {
+    type: schedule.type,
+    timezone: schedule.timezone,
+    cron: schedule.cron,
+    startDate: schedule.startDate?.format('YYYY-MM-DD'),
+    endDate: schedule.endDate?.format('YYYY-MM-DD'),
+    startTime: schedule.startTime?.format('HH:mm'),
+    endTime: schedule.endTime?.format('HH:mm'),
+    daysOfWeek: schedule.daysOfWeek,
+    dayOfMonth: schedule.dayOfMonth,
+    exclusions: schedule.exclusions?.map((e) => ({ date: e.date.format('YYYY-MM-DD'), reason: e.reason })),
+  };
+}
+
 function getOrdinalSuffix(day: number): string {
   if (day > 3 && day < 21) return 'th';
   switch (day % 10) {
@@ -383,7 +480,7 @@ function generateScheduleSummary(schedule: ScheduleRule): string {
       summary = `Monthly on ${dayOfMonth}${getOrdinalSuffix(dayOfMonth || 1)}`;
       break;
     default:
-      summary = 'Custom';
+      summary = schedule.cron ? `Cron ${schedule.cron}` : 'Custom';
   }
   
   summary += ` from ${startTime.format('HH:mm')}`;
@@ -394,6 +491,10 @@ function generateScheduleSummary(schedule: ScheduleRule): string {
   if (endDate) {
     summary += ` until ${endDate.format('MMM DD, YYYY')}`;
   }
+
+  if (schedule.timezone) {
+    summary += ` (${schedule.timezone})`;
+  }
   
   const exclusionCount = schedule.exclusions?.length || 0;
   if (exclusionCount > 0) {
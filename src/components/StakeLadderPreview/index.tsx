@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { Alert, Button, Card, InputNumber, Progress, Statistic, Table, Tag, Typography } from 'antd';
+import {
+  buildStakeLadder,
+  estimateRiskOfRuin,
+  getWinProbability,
+  DEFAULT_LADDER_LOSSES,
+  type StakeLadder,
+  type StakeLadderStep,
+  type RiskOfRuinEstimate,
+} from '../../Classes/engine/StakeLadder';
+import { getPayoutRate } from '../../Classes/engine/PayoutTable';
+import { hasRecoveryContracts } from '../../Classes/engine/RecoverySteps';
+import './styles.scss';
+
+const { Text } = Typography;
+
+const LADDER_DEBOUNCE_MS = 400;
+const ASSUMED_BALANCE = 1000;
+
+interface StakeLadderPreviewProps {
+  /** Structured StrategyForm payload (buildStructuredFormData) */
+  formData: Record<string, any> | null;
+  /** Balance of the selected trading account */
+  balance?: number | null;
+  /** Receives every recomputed ladder, e.g. to warn before saving */
+  onLadderChange?: (ladder: StakeLadder | null) => void;
+}
+
+/**
+ * Payout rate and win probability of the form's contract at its base stake, or null when
+ * the PayoutTable doesn't price it.
+ */
+function resolvePricing(formData: Record<string, any>) {
+  const contract = formData.contract || {};
+  const baseStake = Number(formData.amounts?.base_stake?.value) || 1;
+  const payoutRate = getPayoutRate(contract.contractType || '', baseStake, contract.prediction);
+  if (payoutRate === null) return null;
+  return {
+    payoutRate,
+    winProbability: getWinProbability(contract.contractType, contract.prediction, payoutRate),
+  };
+}
+
+function formatMoney(value: number | null, currency: string) {
+  if (value === null) return '—';
+  return `${value.toFixed(2)} ${currency}`;
+}
+
+export function StakeLadderPreview({ formData, balance, onLadderChange }: StakeLadderPreviewProps) {
+  const [losses, setLosses] = useState<number>(DEFAULT_LADDER_LOSSES);
+  const [ladder, setLadder] = useState<StakeLadder | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [risk, setRisk] = useState<{ source: Record<string, any>; estimate: RiskOfRuinEstimate } | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  const accountBalance = Number(balance) > 0 ? Number(balance) : ASSUMED_BALANCE;
+  const currency = formData?.botCurrency || 'USD';
+  const pricing = formData ? resolvePricing(formData) : null;
+  // Recovery steps trading contracts of their own are priced contract by contract
+  const perContract = formData ? hasRecoveryContracts(formData.recovery_steps?.risk_steps) : false;
+
+  useEffect(() => {
+    if (!formData) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const next = await buildStakeLadder({
+          formData,
+          losses,
+          balance: accountBalance,
+          payoutRate: hasRecoveryContracts(formData.recovery_steps?.risk_steps)
+            ? null
+            : resolvePricing(formData)?.payoutRate ?? null,
+        });
+        if (cancelled) return;
+        setLadder(next);
+        setError(null);
+        onLadderChange?.(next);
+      } catch (err) {
+        if (cancelled) return;
+        setLadder(null);
+        setError(err instanceof Error ? err.message : String(err));
+        onLadderChange?.(null);
+      }
+    }, LADDER_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData, losses, accountBalance, onLadderChange]);
+
+  const handleSimulate = async () => {
+    if (!formData || (!pricing && !perContract)) return;
+    setIsSimulating(true);
+    try {
+      const estimate = await estimateRiskOfRuin({
+        formData,
+        balance: accountBalance,
+        payoutRate: perContract ? null : pricing?.payoutRate,
+        winProbability: perContract ? null : pricing?.winProbability,
+      });
+      setRisk({ source: formData, estimate });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
+  if (!formData) return null;
+
+  // A result simulated for an earlier version of the form is stale
+  const estimate = risk?.source === formData ? risk.estimate : null;
+  const exposure = ladder?.exposurePercentage ?? 0;
+
+  const columns = [
+    { title: 'Loss #', dataIndex: 'trade', key: 'trade', width: 70 },
+    {
+      title: 'Stake',
+      dataIndex: 'stake',
+      key: 'stake',
+      render: (stake: number, step: StakeLadderStep) => (
+        <span>
+          {formatMoney(stake, currency)}
+          {step.inRecovery && (
+            <Tag className="stake-ladder-recovery-tag">
+              Recovery {(step.recoveryStep ?? 0) + 1}
+              {step.recoveryAction && step.recoveryAction !== 'multiply'
+                ? ` · ${step.recoveryAction === 'safety' ? 'Safety ' : ''}${step.contractType} ${step.symbol}`
+                : ''}
+            </Tag>
+          )}
+        </span>
+      ),
+    },
+    {
+      title: 'Total Lost',
+      dataIndex: 'cumulativeLoss',
+      key: 'cumulativeLoss',
+      render: (value: number) => formatMoney(value, currency),
+    },
+    {
+      title: '% of Balance',
+      dataIndex: 'exposurePercentage',
+      key: 'exposurePercentage',
+      render: (value: number) => (
+        <Text type={value >= 50 ? 'danger' : value >= 20 ? 'warning' : undefined}>{value.toFixed(1)}%</Text>
+      ),
+    },
+    {
+      title: 'Net If Won',
+      dataIndex: 'netIfWon',
+      key: 'netIfWon',
+      render: (value: number | null) => (
+        <Text type={value !== null && value < 0 ? 'danger' : undefined}>{formatMoney(value, currency)}</Text>
+      ),
+    },
+  ];
+
+  return (
+    <Card className="stake-ladder-card" size="small">
+      <div className="stake-ladder-header">
+        <Text strong>📉 Worst-Case Stake Ladder</Text>
+        <span className="stake-ladder-losses">
+          <Text type="secondary">Consecutive losses</Text>
+          <InputNumber
+            size="small"
+            min={1}
+            max={50}
+            value={losses}
+            onChange={(value) => setLosses(Number(value) || DEFAULT_LADDER_LOSSES)}
+          />
+        </span>
+      </div>
+
+      {error && <Text type="danger">{error}</Text>}
+
+      {ladder && (
+        <>
+          {ladder.ruinAt !== null ? (
+            <Alert
+              type="error"
+              showIcon
+              className="stake-ladder-alert"
+              message={`Loss #${ladder.ruinAt} needs a stake of ${formatMoney(ladder.unaffordableStake, currency)} — more than the ${formatMoney(accountBalance - ladder.totalExposure, currency)} left in the account.`}
+            />
+          ) : ladder.stopReason ? (
+            <Alert
+              type="info"
+              showIcon
+              className="stake-ladder-alert"
+              message={`The bot stops after ${ladder.steps.length} losses: ${ladder.stopReason}.`}
+            />
+          ) : null}
+
+          <div className="stake-ladder-exposure">
+            <Text type="secondary">
+              Exposure {formatMoney(ladder.totalExposure, currency)} of {formatMoney(accountBalance, currency)}
+              {Number(balance) > 0 ? '' : ' (assumed balance)'}
+            </Text>
+            <Progress
+              percent={Math.min(exposure, 100)}
+              format={() => `${exposure.toFixed(1)}%`}
+              status={ladder.ruinAt !== null ? 'exception' : 'normal'}
+              strokeColor={ladder.ruinAt === null && exposure >= 50 ? 'var(--warning-color, #faad14)' : undefined}
+            />
+          </div>
+
+          <Table
+            className="stake-ladder-table"
+            size="small"
+            rowKey="trade"
+            columns={columns}
+            dataSource={ladder.steps}
+            pagination={false}
+            scroll={{ y: 240 }}
+          />
+        </>
+      )}
+
+      <div className="stake-ladder-risk">
+        <div className="stake-ladder-risk-header">
+          <Text strong>Risk of Ruin</Text>
+          <Button size="small" onClick={handleSimulate} loading={isSimulating} disabled={!pricing && !perContract}>
+            Run Monte Carlo
+          </Button>
+        </div>
+        {perContract ? (
+          <Text type="secondary">Each contract, recovery contracts included, wins at its own probability and payout.</Text>
+        ) : pricing ? (
+          <Text type="secondary">
+            {`${Math.round(pricing.winProbability * 100)}% win probability at a ${pricing.payoutRate}% payout`}
+          </Text>
+        ) : (
+          <Text type="secondary">No payout rate is known for this contract type.</Text>
+        )}
+        {estimate && (
+          <div className="stake-ladder-risk-stats">
+            <Statistic
+              title="Blown Accounts"
+              value={estimate.riskOfRuin}
+              suffix="%"
+              valueStyle={estimate.riskOfRuin > 0 ? { color: 'var(--error-color, #ff4d4f)' } : undefined}
+            />
+            <Statistic title="Stop Loss Hit" value={estimate.stopLossRate} suffix="%" />
+            <Statistic title="Take Profit Hit" value={estimate.takeProfitRate} suffix="%" />
+            <Statistic title="Median Balance" value={estimate.medianFinalBalance} precision={2} />
+          </div>
+        )}
+        {estimate && (
+          <Text type="secondary" className="stake-ladder-risk-note">
+            {`${estimate.simulations} sessions of up to ${estimate.tradesPerSession} trades`}
+          </Text>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { Space, Segmented, Row, Col, InputNumber } from 'antd';
+import type { RecoveryStep, RecoveryStepAction } from '../../../Classes/engine/RecoverySteps';
+import { getRecoveryStepAction } from '../../../Classes/engine/RecoverySteps';
+
+/** The recovery fields of a `risk_steps` entry */
+export type RecoveryStepFields = Pick<
+  RecoveryStep,
+  'lossStreak' | 'action' | 'stakeMultiplier' | 'cooldownSeconds' | 'recoveryTargetPercentage' | 'is_safety_mode'
+>;
+
+export interface RecoveryStepSettingsProps {
+  value: RecoveryStepFields & { multiplier?: number | null };
+  onChange: (changes: RecoveryStepFields) => void;
+}
+
+/**
+ * What a recovery step does: its stake multiplier, the contract it trades, a pause before
+ * it and the partial recovery that ends recovery (see Classes/engine/RecoverySteps).
+ */
+export function RecoveryStepSettings({ value, onChange }: RecoveryStepSettingsProps) {
+  const action = getRecoveryStepAction(value);
+
+  return (
+    <Space vertical size={8} className="contract-params-spacer-for-label-element" style={{ width: '100%' }}>
+      <label className="field-label">Step Action</label>
+      <Segmented size="large" block className="contract-params-segment"
+        options={[
+          { label: "Multiply stake", value: "multiply" },
+          { label: "Switch contract", value: "switch_contract" },
+          { label: "Safety contract", value: "safety" },
+        ]}
+        value={action}
+        onChange={(val) => onChange({ action: val as RecoveryStepAction, is_safety_mode: undefined })}
+      />
+      <Row gutter={16}>
+        <Col span={8}>
+          <label className="field-label">Stake Multiplier</label>
+          <InputNumber
+            min={0}
+            step={0.1}
+            size="large"
+            style={{ width: '100%' }}
+            placeholder={value.multiplier ? String(value.multiplier) : 'Strategy stake'}
+            value={value.stakeMultiplier}
+            onChange={(val) => onChange({ stakeMultiplier: val })}
+          />
+        </Col>
+        <Col span={8}>
+          <label className="field-label">Pause First (s)</label>
+          <InputNumber
+            min={0}
+            size="large"
+            style={{ width: '100%' }}
+            placeholder="No pause"
+            value={value.cooldownSeconds}
+            onChange={(val) => onChange({ cooldownSeconds: val })}
+          />
+        </Col>
+        <Col span={8}>
+          <label className="field-label">End At % Recovered</label>
+          <InputNumber
+            min={0}
+            max={100}
+            size="large"
+            style={{ width: '100%' }}
+            placeholder={action === 'safety' ? '100' : 'Off'}
+            value={value.recoveryTargetPercentage}
+            onChange={(val) => onChange({ recoveryTargetPercentage: val })}
+          />
+        </Col>
+      </Row>
+    </Space>
+  );
+}
@@ -4,10 +4,13 @@ import type { CollapseProps } from 'antd';
 import { PlusOutlined, DeleteOutlined } from '@ant-design/icons';
 import { DownOutlined } from '@ant-design/icons';
 import { ContractParams } from '../ContractParams';
+import { RecoveryStepSettings } from './RecoveryStepSettings';
 import './styles.scss';
 import { ContractData } from '../../types/strategy';
+import type { RecoveryStepFields } from './RecoveryStepSettings';
+import { getRecoveryStepAction } from '../../Classes/engine/RecoverySteps';
 
-interface StepData extends ContractData {
+interface StepData extends ContractData, RecoveryStepFields {
   id: string;
 }
 
@@ -107,18 +110,35 @@ export function StepsComponent({
       </div>
     ),
     children: (
-      <ContractParams
-        defaultValues={step}
-        currentValue={step}
-        updateStep={updateStep}
-        onContractParamsChange={(params) => {
-          const newSettings = stepSettings.map(s =>
-            s.id === step.id ? { ...s, ...params } : s
-          );
-          setStepSettings(newSettings);
-          onSettingsChange?.(newSettings);
-        }}
-      />
+      <>
+        {showButton && (
+          <RecoveryStepSettings
+            value={step}
+            onChange={(changes) => {
+              const newSettings = stepSettings.map(s =>
+                s.id === step.id ? { ...s, ...changes } : s
+              );
+              setStepSettings(newSettings);
+              onSettingsChange?.(newSettings);
+            }}
+          />
+        )}
+        {/* A recovery step that only multiplies the stake keeps the bot's contract */}
+        {(!showButton || getRecoveryStepAction(step) !== 'multiply') && (
+          <ContractParams
+            defaultValues={step}
+            currentValue={step}
+            updateStep={updateStep}
+            onContractParamsChange={(params) => {
+              const newSettings = stepSettings.map(s =>
+                s.id === step.id ? { ...s, ...params } : s
+              );
+              setStepSettings(newSettings);
+              onSettingsChange?.(newSettings);
+            }}
+          />
+        )}
+      </>
     ),
     className: "risk-step-panel"
   }));
@@ -1,20 +1,52 @@
-import React from "react";
+import React, { useMemo } from "react";
+import { Alert, Typography } from "antd";
 import { StepsComponent } from "../../../StepsComponent";
 import { FormFieldComponentProps } from "./types";
+import {
+  describeRecoveryStep,
+  validateRecoverySteps,
+  type RecoveryStep,
+} from "../../../../Classes/engine/RecoverySteps";
+
+const { Text } = Typography;
 
 export const FormFieldRiskManagement: React.FC<FormFieldComponentProps<unknown[]>> = ({
   value,
   onValueChange,
 }) => {
+  const steps = useMemo(() => (value || []) as RecoveryStep[], [value]);
+  const errors = useMemo(() => validateRecoverySteps(steps), [steps]);
+
   return (
-    <StepsComponent
-      settings={value || []}
-      onSettingsChange={(newValue) => {
-        onValueChange(newValue);
-      }}
-      title="Recovery Steps"
-      addButtonText="Add Recovery Step"
-      showButton
-    />
+    <>
+      <StepsComponent
+        settings={value || []}
+        onSettingsChange={(newValue) => {
+          onValueChange(newValue);
+        }}
+        title="Recovery Steps"
+        addButtonText="Add Recovery Step"
+        showButton
+      />
+      {errors.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginTop: 12 }}
+          message="Recovery steps need attention"
+          description={errors.map((error) => <div key={error}>{error}</div>)}
+        />
+      )}
+      {steps.length > 0 && (
+        <div style={{ marginTop: 12 }}>
+          <Text strong>Recovery Ladder</Text>
+          {steps.map((step, index) => (
+            <div key={step.id || index}>
+              <Text type="secondary">{`${index + 1}. ${describeRecoveryStep(step)}`}</Text>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
   );
 };
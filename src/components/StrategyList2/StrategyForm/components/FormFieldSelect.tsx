@@ -11,10 +11,11 @@ export const FormFieldSelect: React.FC<FormFieldComponentProps> = ({
     <div className="select-field">
       <label className="input-field-label">{field.label}</label>
       <Select
+        mode={field.type === "multi-select" ? "multiple" : undefined}
         defaultValue={field.default}
         placeholder={`Enter ${field.label.toLowerCase()}`}
         options={field.options}
-        value={value as string | undefined}
+        value={value as string | string[] | undefined}
         onChange={(newValue) => {
           onValueChange(newValue);
         }}
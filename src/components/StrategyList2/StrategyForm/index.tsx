@@ -22,6 +22,8 @@ import Confetti from "react-confetti-boom";
 import { TradeErrorBoundary } from "../../ErrorBoundary/TradeErrorBoundary";
 import { TradingAccountSelector } from "../../TradingAccountSelector";
 import { BotBannerUpload } from "../../BotBannerUpload";
+import { StakeLadderPreview } from "../../StakeLadderPreview";
+import type { StakeLadder } from "../../../Classes/engine/StakeLadder";
 import "./styles.scss";
 
 import {
@@ -62,6 +64,9 @@ interface RiskStep {
   lossStreak: number;
   multiplier: number;
   action: string;
+  stakeMultiplier?: number | null;
+  cooldownSeconds?: number | null;
+  recoveryTargetPercentage?: number | null;
 }
 import { useLocalStorage } from "../../../utils/use-local-storage/useLocalStorage";
 import { BotAmountConfig, tradingBotAPIService } from "../../../services/tradingBotAPIService";
@@ -159,6 +164,8 @@ const METADATA_FIELD_MAP: Record<string, string> = {
   system_1326_strategy_section: "system_1326_metadata",
   reverse_dalembert_main_strategy_section: "reverse_dalembert_metadata",
   oscars_grind_strategy_section: "oscars_grind_metadata",
+  enhanced_1326_strategy_section: "enhanced_1326_metadata",
+  call_multiplicative_recovery_strategy_section: "call_multiplicative_metadata",
 };
 
 const getMetadataFieldName = (sectionName?: string): string | undefined => {
@@ -209,6 +216,9 @@ export function StrategyForm({
   const [createdBot, setCreatedBot] = useState<any>(null);
   const [showConfetti, setShowConfetti] = useState(false);
 const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
+  // Latest structured data for the stake ladder preview, and the ladder it produced
+  const [ladderFormData, setLadderFormData] = useState<StrategyFormData | null>(null);
+  const [stakeLadder, setStakeLadder] = useState<StakeLadder | null>(null);
   // Initialize contract field with default values on mount
   const defaultContractValues = useMemo(
     (): ContractData => ({
@@ -503,6 +513,7 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
           min: (values.stop_loss as BotAmountConfig)?.min || null,
           max: (values.stop_loss as BotAmountConfig)?.max || null,
         },
+        trailing_take_profit: (values.trailing_take_profit as BotAmountConfig) ?? null,
       },
       recovery_steps: {
         risk_steps: (form.getFieldValue("risk_steps") as RiskStep[]) || [],
@@ -510,6 +521,7 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
       advanced_settings: {
         general_settings_section: {
           maximum_number_of_trades: toNumberOrNull(values.maximum_number_of_trades),
+          max_concurrent_contracts: toNumberOrNull(values.max_concurrent_contracts),
           maximum_running_time: (() => {
             const runningTime = values.maximum_running_time;
             if (!runningTime) return null;
@@ -632,13 +644,29 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
           max_daily_profit: values.max_daily_profit ?? null,
           max_weekly_loss: values.max_weekly_loss ?? null,
           max_weekly_profit: values.max_weekly_profit ?? null,
+          limit_reset_timezone: (values.limit_reset_timezone as string) || "UTC",
+          week_start_day: toNumberOrNull(values.week_start_day) ?? 1,
           trailing_stop_loss: values.trailing_stop_loss ?? null,
+          trailing_stop_activation: values.trailing_stop_activation ?? null,
+          // Key-value rows: key = profit milestone, value = lock amount or "50%"
+          profit_lock_steps: ((values.profit_lock_steps as Array<{ key: string; value: string }>) || [])
+            .filter((row) => row.key !== "" && toNumberOrNull(row.key) !== null)
+            .map((row) => ({
+              profit: parseFloat(row.key),
+              lock: String(row.value).trim().endsWith("%") ? String(row.value).trim() : parseFloat(row.value) || 0,
+            })),
           max_consecutive_losses: toNumberOrNull(values.max_consecutive_losses),
           max_drawdown_percentage: toNumberOrNull(values.max_drawdown_percentage),
           risk_per_trade: toNumberOrNull(values.risk_per_trade),
           max_account_risk_percentage: toNumberOrNull(values.max_account_risk_percentage),
           minimum_profit_ratio: toNumberOrNull(values.minimum_profit_ratio),
           position_sizing: (values.position_sizing as boolean) || false,
+          sizing_mode: (values.sizing_mode as string) || "fixed_fractional",
+          base_stake_percentage: toNumberOrNull(values.base_stake_percentage),
+          kelly_fraction: toNumberOrNull(values.kelly_fraction),
+          win_probability: toNumberOrNull(values.win_probability),
+          min_observed_trades: toNumberOrNull(values.min_observed_trades),
+          max_ladder_percentage: toNumberOrNull(values.max_ladder_percentage),
           emergency_stop: (values.emergency_stop as boolean) || false,
           loss_protection_mode: (values.loss_protection_mode as boolean) || false,
           auto_reduce_stake_on_loss: (values.auto_reduce_stake_on_loss as boolean) || false,
@@ -664,6 +692,38 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
           preferred_trading_hours: (values.preferred_trading_hours as
             | string
             | null) ?? null,
+          trend_action: values.trend_action === "flip" ? "flip" : "block",
+          indicator_granularity: toNumberOrNull(values.indicator_granularity) ?? 60,
+        },
+        digit_analysis_section: {
+          digit_filter: (values.digit_filter as boolean) || false,
+          digit_sample_size: toNumberOrNull(values.digit_sample_size),
+          prediction_mode: (values.prediction_mode as string) || "static",
+          parity_run_length: toNumberOrNull(values.parity_run_length),
+          parity_entry:
+            values.parity_entry === "continuation" ? "continuation" : "reversal",
+          min_sample_win_rate: toNumberOrNull(values.min_sample_win_rate),
+        },
+        early_exit_section: {
+          early_exit: (values.early_exit as boolean) || false,
+          exit_profit_percentage: toNumberOrNull(values.exit_profit_percentage),
+          exit_bid_below: toNumberOrNull(values.exit_bid_below),
+          exit_loss_after_ticks: toNumberOrNull(values.exit_loss_after_ticks),
+        },
+        price_guard_section: {
+          price_guard: (values.price_guard as boolean) || false,
+          min_payout_ratio: toNumberOrNull(values.min_payout_ratio),
+          payout_tolerance_percentage: toNumberOrNull(values.payout_tolerance_percentage),
+          max_requotes: toNumberOrNull(values.max_requotes),
+          max_price_slippage_percentage: toNumberOrNull(values.max_price_slippage_percentage),
+        },
+        auto_restart_section: {
+          restart_on: Array.isArray(values.restart_on) ? values.restart_on : [],
+          restart_delay_seconds: toNumberOrNull(values.restart_delay_seconds),
+          restart_backoff_multiplier: toNumberOrNull(values.restart_backoff_multiplier),
+          max_restart_delay_seconds: toNumberOrNull(values.max_restart_delay_seconds),
+          max_restarts_per_day: toNumberOrNull(values.max_restarts_per_day),
+          carry_over_session: (values.carry_over_session as boolean) || false,
         },
         recovery_settings_section: {
           progressive_recovery:
@@ -923,6 +983,47 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
             (values.oscars_grind_auto_stop_on_target as boolean) || false,
           metadata: getSectionMetadataValue("oscars_grind_strategy_section", form),
         },
+        enhanced_1326_strategy_section: {
+          enhanced_1326_base_unit: values.enhanced_1326_base_unit ?? null,
+          enhanced_1326_profit_threshold: values.enhanced_1326_profit_threshold ?? null,
+          enhanced_1326_loss_threshold: values.enhanced_1326_loss_threshold ?? null,
+          enhanced_1326_recovery_mode:
+            (values.enhanced_1326_recovery_mode as string | null) ?? null,
+          enhanced_1326_max_recovery_attempts:
+            toNumberOrNull(values.enhanced_1326_max_recovery_attempts),
+          enhanced_1326_max_daily_trades: toNumberOrNull(values.enhanced_1326_max_daily_trades),
+          enhanced_1326_sequence_protection:
+            (values.enhanced_1326_sequence_protection as boolean) ?? true,
+          enhanced_1326_profit_lock: (values.enhanced_1326_profit_lock as boolean) ?? true,
+          metadata: getSectionMetadataValue("enhanced_1326_strategy_section", form),
+        },
+        call_multiplicative_recovery_strategy_section: {
+          call_multiplicative_base_stake: values.call_multiplicative_base_stake ?? null,
+          call_multiplicative_profit_threshold:
+            values.call_multiplicative_profit_threshold ?? null,
+          call_multiplicative_loss_threshold: values.call_multiplicative_loss_threshold ?? null,
+          call_multiplicative_recovery_mode:
+            (values.call_multiplicative_recovery_mode as string | null) ?? null,
+          call_multiplicative_max_recovery_attempts:
+            toNumberOrNull(values.call_multiplicative_max_recovery_attempts),
+          call_multiplicative_max_daily_trades:
+            toNumberOrNull(values.call_multiplicative_max_daily_trades),
+          call_multiplicative_max_stake_multiplier:
+            toNumberOrNull(values.call_multiplicative_max_stake_multiplier),
+          call_multiplicative_enable_recovery:
+            (values.call_multiplicative_enable_recovery as boolean) ?? true,
+          call_multiplicative_auto_adjust:
+            (values.call_multiplicative_auto_adjust as boolean) ?? true,
+          call_multiplicative_max_volatility:
+            toNumberOrNull(values.call_multiplicative_max_volatility),
+          call_multiplicative_min_win_rate:
+            toNumberOrNull(values.call_multiplicative_min_win_rate),
+          call_multiplicative_duration: toNumberOrNull(values.call_multiplicative_duration),
+          metadata: getSectionMetadataValue(
+            "call_multiplicative_recovery_strategy_section",
+            form,
+          ),
+        },
       },
       realtimePerformance: {
         totalRuns: 0,
@@ -1048,6 +1149,13 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
                 // (prevents later sections from clobbering shared keys like "metadata")
                 let nv = fieldValue;
                 // Convert legacy string metadata to key-value array
+                // Profit lock steps are edited as key-value rows (profit → lock)
+                if (targetKey === "profit_lock_steps" && Array.isArray(nv)) {
+                  nv = (nv as Array<{ profit: unknown; lock: unknown }>).map((step) => ({
+                    key: String(step.profit ?? ""),
+                    value: String(step.lock ?? ""),
+                  }));
+                }
                 if (targetKey.endsWith("_metadata") && typeof nv === "string" && nv.length > 0) {
                   nv = nv.split(",").map((p: string) => {
                     const [k = "", ...r] = p.split(":");
@@ -1122,6 +1230,7 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
       form.setFieldValue(fieldName, value);
       const structuredData = buildStructuredFormData();
       saveDraftToStorage(structuredData);
+      setLadderFormData(structuredData);
     },
     [form, buildStructuredFormData, saveDraftToStorage],
   );
@@ -1129,8 +1238,25 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
   const handleValuesChange = useCallback(() => {
     const structuredData = buildStructuredFormData();
     saveDraftToStorage(structuredData);
+    setLadderFormData(structuredData);
   }, [buildStructuredFormData, saveDraftToStorage]);
 
+  // Saving a config whose loss streak outgrows the balance needs an explicit confirmation
+  const handleCreateClick = () => {
+    if (!canCreateBot) return;
+    if (stakeLadder?.ruinAt) {
+      Modal.confirm({
+        title: "This configuration can blow the account",
+        content: `Loss #${stakeLadder.ruinAt} in a row needs a stake of ${stakeLadder.unaffordableStake} — more than the balance left after ${stakeLadder.steps.length} losses. Save anyway?`,
+        okText: isEditMode ? "Update anyway" : "Create anyway",
+        okButtonProps: { danger: true },
+        onOk: () => form.submit(),
+      });
+      return;
+    }
+    form.submit();
+  };
+
   useEffect(() => {
     console.log("+++ FORM +++", draftBotFormData);
   }, [draftBotFormData]);
@@ -1283,6 +1409,7 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
         );
 
       case "select":
+      case "multi-select":
         return (
           <FormFieldSelect
             value={form.getFieldValue(fieldName)}
@@ -2017,6 +2144,14 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
                   })}
                 </>
               ))}
+
+            {formStep === "configure" && (
+              <StakeLadderPreview
+                formData={ladderFormData}
+                balance={(watchedBotAccount as any)?.balance}
+                onLadderChange={setStakeLadder}
+              />
+            )}
           </Form>
         )}
 
@@ -2053,9 +2188,12 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
                   type="default"
                   block
                   className="configure-button"
-                  onClick={() =>
-                    setFormStep(formStep === "info" ? "configure" : "info")
-                  }
+                  onClick={() => {
+                    if (formStep === "info") {
+                      setLadderFormData(buildStructuredFormData());
+                    }
+                    setFormStep(formStep === "info" ? "configure" : "info");
+                  }}
                   disabled={createStatus === "loading"}
                 >
                   {formStep === "info" ? "Configure Bot" : "Edit Bot Info"}
@@ -2075,11 +2213,7 @@ const [isHelpModalOpen, setIsHelpModalOpen] = useState(false);
                     type="primary"
                     block
                     className="create-button"
-                    onClick={() => {
-                      if (canCreateBot) {
-                        form.submit();
-                      }
-                    }}
+                    onClick={handleCreateClick}
                     disabled={!canCreateBot}
                   >
                     {createStatus === "loading" ? (
@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import { envConfig } from '../config/env.config';
+import { getSharedTradingCalendar, type MarketStatus } from '../Classes/engine/TradingCalendar';
+
+// Re-evaluate open/closed markets this often (ms)
+const REFRESH_INTERVAL_MS = 60000;
+
+/**
+ * Custom hook for market trading hours from the shared trading calendar
+ * (Deriv trading_times, falling back to the cached or bundled copy)
+ * @returns Object with the calendar, the time it was evaluated at and a status lookup
+ */
+export const useTradingCalendar = () => {
+  const calendar = getSharedTradingCalendar();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const update = () => setNow(Date.now());
+    calendar.on('calendar_updated', update);
+    const timer = setInterval(update, REFRESH_INTERVAL_MS);
+
+    // trading_times needs no account token
+    if (calendar.isStale()) {
+      calendar
+        .loadPublic({
+          endpoint: envConfig.VITE_DERIV_WS_ENDPOINT_DOMAIN,
+          appId: envConfig.VITE_DERIV_WS_APP_ID,
+          lang: envConfig.VITE_DERIV_APP_ENDPOINT_LANG,
+        })
+        .catch((error: Error) => console.warn('Failed to load trading times:', error.message));
+    }
+
+    return () => {
+      calendar.off('calendar_updated', update);
+      clearInterval(timer);
+    };
+  }, [calendar]);
+
+  /**
+   * Get whether a market is open and when it next opens or closes
+   * @param symbol Deriv symbol of the market
+   * @returns MarketStatus (unknown symbols are reported open)
+   */
+  const getMarketStatus = useCallback(
+    (symbol: string): MarketStatus => calendar.getStatus(symbol, now),
+    [calendar, now]
+  );
+
+  return {
+    calendar,
+    now,
+    getMarketStatus,
+  };
+};
@@ -245,6 +245,8 @@ export interface BotAmounts {
   maximum_stake: BotAmountConfig;
   take_profit: BotAmountConfig;
   stop_loss: BotAmountConfig;
+  /** Once take_profit is reached, keep trading and stop when profit retraces this far from its peak */
+  trailing_take_profit?: BotAmountConfig;
 }
 
 export interface BotMarketInfo {
@@ -256,6 +258,19 @@ export interface BotMarketInfo {
   isClosed: boolean;
 }
 
+/** Weighted symbols / predictions a randomized contract rotates through */
+export interface BotContractRotation {
+  markets?: { symbol: string; weight?: number | null }[];
+  predictions?: { prediction: string; weight?: number | null }[];
+  /** Rotate every `everyTrades` trades, after a loss, or after `lossStreak` losses in a row */
+  trigger?: 'trades' | 'loss' | 'loss_streak';
+  everyTrades?: number | null;
+  lossStreak?: number | null;
+  /** Leave symbols that lost out of the draws for `exclusionTrades` trades */
+  excludeLosingSymbols?: boolean;
+  exclusionTrades?: number | null;
+}
+
 export interface BotContractData {
   id?: string;
   tradeType: string;
@@ -270,6 +285,7 @@ export interface BotContractData {
   durationUnits: DurationUnit;
   allowEquals?: boolean;
   alternateAfter?: number | null;
+  rotation?: BotContractRotation | null;
 }
 
 export interface BotDerivAccount {
@@ -280,24 +296,41 @@ export interface BotDerivAccount {
 
 export interface BotScheduleExclusion {
   id?: string;
-  date: string;
+  /** One-off day (YYYY-MM-DD, schedule timezone) */
+  date?: string;
+  /** Recurring exclusion as a cron expression, e.g. `* * * * 5#1` (every first Friday) */
+  cron?: string | null;
   reason: string;
 }
 
+export interface BotScheduleWindow {
+  start: string;
+  end: string;
+}
+
 export interface BotSchedule {
   id?: string;
   name: string;
   type: ScheduleType;
+  /** IANA timezone the schedule is evaluated in; device timezone when unset */
+  timezone?: string | null;
   startDate?: string | null;
   endDate?: string | null;
   startTime?: string | null;
   endTime?: string | null;
+  /** Several HH:mm windows per day; replaces startTime/endTime when present */
+  windows?: BotScheduleWindow[];
   daysOfWeek?: number[];
   dayOfMonth?: number | null;
+  daysOfMonth?: number[];
+  /** Cron expression for `custom` schedules */
+  cron?: string | null;
   isEnabled?: boolean;
   exclusions?: BotScheduleExclusion[];
 }
 
+export type BotRecoveryStepAction = 'multiply' | 'switch_contract' | 'safety';
+
 export interface BotRiskStep {
   tradeType: string;
   contractType: string;
@@ -311,6 +344,15 @@ export interface BotRiskStep {
   durationUnits: DurationUnit | string;
   allowEquals?: boolean;
   alternateAfter?: number | null;
+  lossStreak?: number;
+  /** 'multiply' (bot contract), 'switch_contract' or 'safety' (this step's contract) */
+  action?: BotRecoveryStepAction | string;
+  /** Stake multiplier; `multiplier` when unset */
+  stakeMultiplier?: number | null;
+  /** Pause before the step's first trade */
+  cooldownSeconds?: number | null;
+  /** % of the recovery loss won back that ends recovery */
+  recoveryTargetPercentage?: number | null;
 }
 
 export interface BotRecoverySteps {
@@ -370,6 +412,9 @@ export interface BotStatistics {
   roi: number | null;
   sharpeRatio: number | null;
   maxDrawdown: number | null;
+  strategyStatistics?: Record<string, unknown> | null;
+  /** Trades sold by an early-exit rule: { trades, wins, losses, totalProfit, byReason } */
+  earlyExitStatistics?: Record<string, unknown> | null;
   createdAt: string;
   lastUpdated: string;
 }
@@ -386,10 +431,13 @@ export interface BotRealtimePerformanceData {
 
 export interface GeneralSettingsSection {
   maximum_number_of_trades?: number | null;
+  /** Contracts open at once; above 1 the bot buys on its delay while earlier contracts run */
+  max_concurrent_contracts?: number | null;
   maximum_running_time?: TimeDurationConfig | null;
   cooldown_period?: CooldownPeriod | null;
   recovery_type?: RecoveryType | string | null;
   compound_stake?: boolean;
+  /** Resume after cooldowns, and restart after the stops listed in auto_restart_section */
   auto_restart?: boolean;
 }
 
@@ -404,24 +452,53 @@ export interface RiskManagementSection {
   max_daily_profit?: BotAmountConfig;
   max_weekly_loss?: BotAmountConfig;
   max_weekly_profit?: BotAmountConfig;
+  /** IANA timezone whose midnight starts the daily limit period (default 'UTC') */
+  limit_reset_timezone?: string | null;
+  /** Day the weekly limit period starts, 0 = Sunday … 6 = Saturday (default 1) */
+  week_start_day?: number | null;
   max_consecutive_losses?: number | null;
   max_drawdown_percentage?: number | null;
   risk_per_trade?: number | null;
+  /** Size the base stake from the live balance (see sizing_mode) */
   position_sizing?: boolean;
+  sizing_mode?: 'fixed_fractional' | 'kelly' | null;
+  /** Base stake as a % of the balance ('fixed_fractional') */
+  base_stake_percentage?: number | null;
+  /** Share of the full Kelly stake to bet, 0-1 (default 0.25) */
+  kelly_fraction?: number | null;
+  /** Win probability (%) Kelly sizes with; the observed win rate when unset */
+  win_probability?: number | null;
+  /** Trades before the observed win rate is trusted (default 30) */
+  min_observed_trades?: number | null;
+  /** Most one stake progression may lose, as a % of the balance */
+  max_ladder_percentage?: number | null;
   emergency_stop?: boolean;
   max_account_risk_percentage?: number | null;
   minimum_profit_ratio?: number | null;
   loss_protection_mode?: boolean;
   auto_reduce_stake_on_loss?: boolean;
   trailing_stop_loss?: BotAmountConfig;
+  /** Peak session profit at which trailing_stop_loss starts trailing */
+  trailing_stop_activation?: BotAmountConfig;
+  profit_lock_steps?: ProfitLockStep[];
+}
+
+/** Once peak session profit reaches `profit`, stop if it falls back to `lock`. */
+export interface ProfitLockStep {
+  profit: number | BotAmountConfig;
+  /** Amount, or a percentage of `profit` ('50%' / { type: 'percentage' }) */
+  lock: number | string | BotAmountConfig;
 }
 
 export interface VolatilityControlsSection {
   volatility_filter?: boolean;
+  /** Volatility score 0-100 (50 = usual for the symbol) */
   min_volatility?: number | null;
   max_volatility?: number | null;
+  /** Shrink stakes when the score is above max_volatility (or 50) */
   volatility_adjustment?: boolean;
   pause_on_high_volatility?: boolean;
+  /** Ticks the realized volatility is measured over */
   volatility_lookback_period?: number | null;
 }
 
@@ -432,6 +509,83 @@ export interface MarketConditionsSection {
   market_correlation_check?: boolean;
   time_of_day_filter?: boolean;
   preferred_trading_hours?: string | null;
+  /** What trend_detection does with a trade against the trend */
+  trend_action?: 'block' | 'flip';
+  /** Seconds per indicator candle; 0 = one candle per tick */
+  indicator_granularity?: number | null;
+  indicator_periods?: Record<string, number> | null;
+  signal_conditions?: SignalCondition[];
+}
+
+/** Indicator rule for the signal gate, e.g. block CALLs while `rsi > 70`. */
+export interface SignalCondition {
+  /** Snapshot path: 'rsi', 'macd.histogram', 'bollinger.percentB', 'adx.adx'… */
+  indicator: string;
+  operator: '>' | '>=' | '<' | '<=';
+  /** Number, or another snapshot path */
+  value: number | string;
+  action: 'block' | 'flip' | 'require';
+  direction?: 'up' | 'down' | 'any';
+}
+
+export interface DigitAnalysisSection {
+  digit_filter?: boolean;
+  /** Last digits kept for the statistics */
+  digit_sample_size?: number | null;
+  prediction_mode?: 'static' | 'random' | 'least_frequent' | 'most_frequent' | 'last_digit';
+  /** DIGITEVEN/ODD: wait for this many ticks in a row of one parity */
+  parity_run_length?: number | null;
+  parity_entry?: 'reversal' | 'continuation';
+  /** Skip unless the contract would have won this % of the sample */
+  min_sample_win_rate?: number | null;
+}
+
+/** Sell an open contract at market before expiry; the first matching rule wins */
+export interface EarlyExitSection {
+  early_exit?: boolean;
+  /** Sell once profit reaches this % of the stake */
+  exit_profit_percentage?: number | null;
+  /** Sell once the bid price falls below this amount */
+  exit_bid_below?: number | null;
+  /** Sell once the contract has been open this many ticks and is in loss */
+  exit_loss_after_ticks?: number | null;
+}
+
+/** Check each proposal's price before buying; buys are always capped at the checked price */
+export interface PriceGuardSection {
+  price_guard?: boolean;
+  /** Refuse proposals whose payout ÷ ask price is below this */
+  min_payout_ratio?: number | null;
+  /** Allowed shortfall (%) against the payout the strategy or payout table assumed */
+  payout_tolerance_percentage?: number | null;
+  /** Fresh proposals requested before a trade is refused */
+  max_requotes?: number | null;
+  /** Headroom (%) over the quoted ask price the buy may fill at */
+  max_price_slippage_percentage?: number | null;
+}
+
+/** Why a bot stopped, as far as auto-restart is concerned */
+export type BotStopReason =
+  | 'take_profit'
+  | 'stop_loss'
+  | 'max_trades'
+  | 'max_runtime'
+  | 'risk_limit'
+  | 'profit_lock'
+  | 'error';
+
+/** Restart a stopped bot (needs general_settings_section.auto_restart) */
+export interface AutoRestartSection {
+  /** Stop reasons that restart the bot; none keeps every stop final */
+  restart_on?: BotStopReason[] | null;
+  /** Wait before the first restart of the day */
+  restart_delay_seconds?: number | null;
+  /** The wait is multiplied by this for every restart already made that day */
+  restart_backoff_multiplier?: number | null;
+  max_restart_delay_seconds?: number | null;
+  max_restarts_per_day?: number | null;
+  /** Continue the stake progression, streaks and recovery of the stopped session */
+  carry_over_session?: boolean;
 }
 
 export interface RecoverySettingsSection {
@@ -591,12 +745,44 @@ export interface OscarsGrindStrategySection {
   metadata?: MetadataEntry[] | null;
 }
 
+export interface Enhanced1326StrategySection {
+  enhanced_1326_base_unit?: Record<string, unknown> | null;
+  enhanced_1326_profit_threshold?: Record<string, unknown> | null;
+  enhanced_1326_loss_threshold?: Record<string, unknown> | null;
+  enhanced_1326_recovery_mode?: string | null;
+  enhanced_1326_max_recovery_attempts?: number | null;
+  enhanced_1326_max_daily_trades?: number | null;
+  enhanced_1326_sequence_protection?: boolean;
+  enhanced_1326_profit_lock?: boolean;
+  metadata?: MetadataEntry[] | null;
+}
+
+export interface CallMultiplicativeRecoveryStrategySection {
+  call_multiplicative_base_stake?: Record<string, unknown> | null;
+  call_multiplicative_profit_threshold?: Record<string, unknown> | null;
+  call_multiplicative_loss_threshold?: Record<string, unknown> | null;
+  call_multiplicative_recovery_mode?: string | null;
+  call_multiplicative_max_recovery_attempts?: number | null;
+  call_multiplicative_max_daily_trades?: number | null;
+  call_multiplicative_max_stake_multiplier?: number | null;
+  call_multiplicative_enable_recovery?: boolean;
+  call_multiplicative_auto_adjust?: boolean;
+  call_multiplicative_max_volatility?: number | null;
+  call_multiplicative_min_win_rate?: number | null;
+  call_multiplicative_duration?: number | null;
+  metadata?: MetadataEntry[] | null;
+}
+
 export interface BotAdvancedSettings {
   general_settings_section?: GeneralSettingsSection;
   bot_schedule?: BotScheduleSection;
   risk_management_section?: RiskManagementSection;
   volatility_controls_section?: VolatilityControlsSection;
   market_conditions_section?: MarketConditionsSection;
+  digit_analysis_section?: DigitAnalysisSection;
+  early_exit_section?: EarlyExitSection;
+  price_guard_section?: PriceGuardSection;
+  auto_restart_section?: AutoRestartSection;
   recovery_settings_section?: RecoverySettingsSection;
   martingale_strategy_section?: MartingaleStrategySection;
   martingale_reset_strategy_section?: MartingaleResetStrategySection;
@@ -613,6 +799,8 @@ export interface BotAdvancedSettings {
   system_1326_strategy_section?: System1326StrategySection;
   reverse_dalembert_main_strategy_section?: ReverseDalembertMainStrategySection;
   oscars_grind_strategy_section?: OscarsGrindStrategySection;
+  enhanced_1326_strategy_section?: Enhanced1326StrategySection;
+  call_multiplicative_recovery_strategy_section?: CallMultiplicativeRecoveryStrategySection;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
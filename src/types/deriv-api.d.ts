@@ -7,3 +7,15 @@ declare module "@deriv/deriv-api/dist/DerivAPIBasic.js" {
   
   export default DerivAPIBasic;
 }
+
+declare module "@deriv/deriv-api/dist/DerivAPI" {
+  class DerivAPI {
+    constructor(options: any);
+    basic: any;
+    account(token: string): Promise<any>;
+    contract(params: any): Promise<any>;
+    ticks(params: any): Promise<any>;
+  }
+
+  export default DerivAPI;
+}
@@ -4,7 +4,7 @@ import { MarketInfo } from "./market";
 
 import { StrategyType } from "./trade";
 
-import { BotAmountConfig } from "../services/tradingBotAPIService";
+import { BotAmountConfig, BotContractRotation } from "../services/tradingBotAPIService";
 
 export const filterButtons = [
   { key: "all", label: "All Strategies" },
@@ -158,6 +158,68 @@ export const STORAGE_KEYS = {
   STRATEGIES_LIST: "koppo_strategies",
 };
 
+export const LIMIT_RESET_TIMEZONE_OPTIONS = [
+  { value: "UTC", label: "UTC" },
+  { value: "Europe/London", label: "London" },
+  { value: "Europe/Berlin", label: "Berlin" },
+  { value: "Africa/Nairobi", label: "Nairobi" },
+  { value: "Africa/Johannesburg", label: "Johannesburg" },
+  { value: "Asia/Dubai", label: "Dubai" },
+  { value: "Asia/Singapore", label: "Singapore" },
+  { value: "Asia/Tokyo", label: "Tokyo" },
+  { value: "Australia/Sydney", label: "Sydney" },
+  { value: "America/New_York", label: "New York" },
+  { value: "America/Chicago", label: "Chicago" },
+  { value: "America/Sao_Paulo", label: "São Paulo" },
+];
+
+export const WEEK_START_DAY_OPTIONS = [
+  { value: "1", label: "Monday" },
+  { value: "0", label: "Sunday" },
+  { value: "6", label: "Saturday" },
+];
+
+export const TREND_ACTION_OPTIONS = [
+  { value: "block", label: "Skip counter-trend trades" },
+  { value: "flip", label: "Trade with the trend" },
+];
+
+export const RESTART_REASON_OPTIONS = [
+  { value: "take_profit", label: "Take profit" },
+  { value: "stop_loss", label: "Stop loss" },
+  { value: "max_trades", label: "Max trades" },
+  { value: "max_runtime", label: "Max running time" },
+  { value: "risk_limit", label: "Risk limits" },
+  { value: "profit_lock", label: "Profit lock" },
+  { value: "error", label: "Trading error" },
+];
+
+export const SIZING_MODE_OPTIONS = [
+  { value: "fixed_fractional", label: "Fixed fraction of balance" },
+  { value: "kelly", label: "Fractional Kelly" },
+];
+
+export const INDICATOR_GRANULARITY_OPTIONS = [
+  { value: "0", label: "Every tick" },
+  { value: "60", label: "1 minute candles" },
+  { value: "300", label: "5 minute candles" },
+  { value: "900", label: "15 minute candles" },
+  { value: "3600", label: "1 hour candles" },
+];
+
+export const DIGIT_PREDICTION_MODE_OPTIONS = [
+  { value: "static", label: "Contract prediction" },
+  { value: "random", label: "Random digit" },
+  { value: "least_frequent", label: "Least frequent digit" },
+  { value: "most_frequent", label: "Most frequent digit" },
+  { value: "last_digit", label: "Last digit" },
+];
+
+export const PARITY_ENTRY_OPTIONS = [
+  { value: "reversal", label: "After a run of the opposite parity" },
+  { value: "continuation", label: "After a run of the same parity" },
+];
+
 // Reusable field collections
 
 export const COMMON_FIELDS = {
@@ -221,6 +283,18 @@ export const COMMON_FIELDS = {
 
       default: {},
     },
+
+    {
+      name: "trailing_take_profit",
+
+      label: "Trailing Take Profit",
+
+      type: "threshold-selector" as FieldType,
+
+      placeholder: "Trail peak profit by this amount after take profit",
+
+      default: {},
+    },
   ] as StrategyField[],
 
   recoverySteps: [
@@ -246,6 +320,16 @@ export const COMMON_FIELDS = {
       default: 0,
     },
 
+    {
+      name: "max_concurrent_contracts",
+
+      label: "Max Concurrent Contracts",
+
+      type: "number" as FieldType,
+
+      default: 1,
+    },
+
     {
       name: "maximum_running_time",
 
@@ -289,7 +373,7 @@ export const COMMON_FIELDS = {
     {
       name: "auto_restart",
 
-      label: "Auto restart after cooldown",
+      label: "Auto restart",
 
       type: "switch-with-helper" as FieldType,
 
@@ -382,6 +466,30 @@ export const COMMON_FIELDS = {
       default: {},
     },
 
+    {
+      name: "limit_reset_timezone",
+
+      label: "Limit Reset Timezone",
+
+      type: "select" as FieldType,
+
+      options: LIMIT_RESET_TIMEZONE_OPTIONS,
+
+      default: "UTC",
+    },
+
+    {
+      name: "week_start_day",
+
+      label: "Week Starts On",
+
+      type: "select" as FieldType,
+
+      options: WEEK_START_DAY_OPTIONS,
+
+      default: "1",
+    },
+
     {
       name: "trailing_stop_loss",
 
@@ -394,6 +502,28 @@ export const COMMON_FIELDS = {
       default: {},
     },
 
+    {
+      name: "trailing_stop_activation",
+
+      label: "Trailing Stop Activation",
+
+      type: "threshold-selector" as FieldType,
+
+      placeholder: "Start trailing once profit reaches",
+
+      default: {},
+    },
+
+    {
+      name: "profit_lock_steps",
+
+      label: "Profit Lock Steps (profit → lock)",
+
+      type: "key-value-editor" as FieldType,
+
+      default: [],
+    },
+
     {
       name: "max_consecutive_losses",
 
@@ -462,6 +592,74 @@ export const COMMON_FIELDS = {
       default: true,
     },
 
+    {
+      name: "sizing_mode",
+
+      label: "Position Sizing Mode",
+
+      type: "select" as FieldType,
+
+      options: SIZING_MODE_OPTIONS,
+
+      default: "fixed_fractional",
+    },
+
+    {
+      name: "base_stake_percentage",
+
+      label: "Base Stake (% of Balance)",
+
+      type: "number-prefix" as FieldType,
+
+      prefixType: "percentage" as PrefixType,
+
+      default: null,
+    },
+
+    {
+      name: "kelly_fraction",
+
+      label: "Kelly Fraction",
+
+      type: "number" as FieldType,
+
+      default: null,
+    },
+
+    {
+      name: "win_probability",
+
+      label: "Win Probability",
+
+      type: "number-prefix" as FieldType,
+
+      prefixType: "percentage" as PrefixType,
+
+      default: null,
+    },
+
+    {
+      name: "min_observed_trades",
+
+      label: "Trades Before Observed Win Rate",
+
+      type: "number" as FieldType,
+
+      default: null,
+    },
+
+    {
+      name: "max_ladder_percentage",
+
+      label: "Max Ladder Loss (% of Balance)",
+
+      type: "number-prefix" as FieldType,
+
+      prefixType: "percentage" as PrefixType,
+
+      default: null,
+    },
+
     {
       name: "emergency_stop",
 
@@ -507,25 +705,21 @@ export const COMMON_FIELDS = {
     {
       name: "min_volatility",
 
-      label: "Minimum Volatility Index",
+      label: "Minimum Volatility Score (0-100)",
 
-      type: "number-prefix" as FieldType,
-
-      prefixType: "multiplier" as PrefixType,
+      type: "number" as FieldType,
 
-      default: 0.25,
+      default: 10,
     },
 
     {
       name: "max_volatility",
 
-      label: "Maximum Volatility Index",
+      label: "Maximum Volatility Score (0-100)",
 
-      type: "number-prefix" as FieldType,
-
-      prefixType: "multiplier" as PrefixType,
+      type: "number" as FieldType,
 
-      default: 1,
+      default: 80,
     },
 
     {
@@ -551,11 +745,11 @@ export const COMMON_FIELDS = {
     {
       name: "volatility_lookback_period",
 
-      label: "Volatility Lookback Period",
+      label: "Volatility Lookback (ticks)",
 
       type: "number" as FieldType,
 
-      default: 1000,
+      default: 300,
     },
   ] as StrategyField[],
 
@@ -592,6 +786,30 @@ export const COMMON_FIELDS = {
       default: true,
     },
 
+    {
+      name: "trend_action",
+
+      label: "Counter-Trend Trades",
+
+      type: "select" as FieldType,
+
+      options: TREND_ACTION_OPTIONS,
+
+      default: "block",
+    },
+
+    {
+      name: "indicator_granularity",
+
+      label: "Indicator Timeframe",
+
+      type: "select" as FieldType,
+
+      options: INDICATOR_GRANULARITY_OPTIONS,
+
+      default: "60",
+    },
+
     {
       name: "market_correlation_check",
 
@@ -623,184 +841,442 @@ export const COMMON_FIELDS = {
     },
   ] as StrategyField[],
 
-  recoverySettings: [
+  digitAnalysis: [
     {
-      name: "progressive_recovery",
+      name: "digit_filter",
 
-      label: "Progressive Recovery Mode1",
+      label: "Enable Digit Analysis",
 
       type: "switch-with-helper" as FieldType,
 
-      default: true,
+      default: false,
     },
 
     {
-      name: "recovery_multiplier",
-
-      label: "Recovery Multiplier",
+      name: "digit_sample_size",
 
-      type: "number-prefix" as FieldType,
+      label: "Digit Sample Size (ticks)",
 
-      prefixType: "multiplier" as PrefixType,
+      type: "number" as FieldType,
 
-      default: 2.5,
+      default: 100,
     },
 
     {
-      name: "max_recovery_attempts",
+      name: "prediction_mode",
 
-      label: "Maximum Recovery Attempts",
+      label: "Prediction Mode",
 
-      type: "number" as FieldType,
+      type: "select" as FieldType,
 
-      default: 25,
+      options: DIGIT_PREDICTION_MODE_OPTIONS,
+
+      default: "static",
     },
 
     {
-      name: "recovery_cooldown",
+      name: "parity_run_length",
 
-      label: "Recovery Cooldown",
+      label: "Even/Odd Run Length",
 
-      type: "cooldown-period" as FieldType,
+      type: "number" as FieldType,
+
+      default: null,
     },
 
     {
-      name: "partial_recovery",
+      name: "parity_entry",
 
-      label: "Partial Recovery Mode",
+      label: "Even/Odd Entry",
 
-      type: "switch-with-helper" as FieldType,
+      type: "select" as FieldType,
 
-      default: true,
+      options: PARITY_ENTRY_OPTIONS,
+
+      default: "reversal",
     },
 
     {
-      name: "recovery_threshold",
+      name: "min_sample_win_rate",
 
-      label: "Recovery Threshold",
+      label: "Minimum Sample Win Rate",
 
-      type: "threshold-selector" as FieldType,
+      type: "number-prefix" as FieldType,
 
-      placeholder: "Enter recovery threshold",
+      prefixType: "percentage" as PrefixType,
+
+      default: null,
     },
   ] as StrategyField[],
-};
 
-// Helper function to create collapsible section
+  earlyExit: [
+    {
+      name: "early_exit",
 
-export const createCollapsibleSection = (
-  name: string,
-  label: string,
-  fields: StrategyField[],
-): StrategyField => ({
-  name,
+      label: "Enable Early Exit",
 
-  label,
+      type: "switch-with-helper" as FieldType,
 
-  type: "collapsible-section" as FieldType,
+      default: false,
+    },
 
-  fields: fields.map((field) => ({
-    ...field,
-    sectionName: field.sectionName ?? name,
-  })),
-});
+    {
+      name: "exit_profit_percentage",
 
-// Helper function to create standard tabs
+      label: "Sell At Profit (% of stake)",
 
-export const createStandardTabs = (
-  strategySpecificFields: StrategyField[],
-): StrategyTab[] => [
-    {
-      key: "contract",
+      type: "number-prefix" as FieldType,
 
-      label: "Contract",
+      prefixType: "percentage" as PrefixType,
 
-      fields: COMMON_FIELDS.contract,
+      default: null,
     },
 
     {
-      key: "amounts",
+      name: "exit_bid_below",
 
-      label: "Amounts",
+      label: "Sell When Bid Below",
 
-      fields: COMMON_FIELDS.amounts,
+      type: "number-prefix" as FieldType,
+
+      prefixType: "currency" as PrefixType,
+
+      default: null,
     },
 
     {
-      key: "recovery_steps",
+      name: "exit_loss_after_ticks",
 
-      label: "Recovery Steps",
+      label: "Sell In Loss After (ticks)",
 
-      fields: COMMON_FIELDS.recoverySteps,
+      type: "number" as FieldType,
+
+      default: null,
     },
+  ] as StrategyField[],
 
+  priceGuard: [
     {
-      key: "advanced_settings",
+      name: "price_guard",
 
-      label: "Advanced",
-
-      fields: [
-        createCollapsibleSection(
-          "general_settings_section",
-          "General Settings",
-          COMMON_FIELDS.generalSettings,
-        ),
+      label: "Enable Price Guard",
 
-        createCollapsibleSection(
-          "bot_schedule_section",
-          "Bot Schedule",
-          COMMON_FIELDS.botSchedule,
-        ),
+      type: "switch-with-helper" as FieldType,
 
-        createCollapsibleSection(
-          "risk_management_section",
-          "Risk Management",
-          COMMON_FIELDS.riskManagement,
-        ),
+      default: false,
+    },
 
-        createCollapsibleSection(
-          "volatility_controls_section",
-          "Volatility Controls",
-          COMMON_FIELDS.volatilityControls,
-        ),
+    {
+      name: "min_payout_ratio",
 
-        createCollapsibleSection(
-          "market_conditions_section",
-          "Market Conditions",
-          COMMON_FIELDS.marketConditions,
-        ),
+      label: "Minimum Payout Ratio",
 
-        createCollapsibleSection(
-          "recovery_settings_section",
-          "Recovery Settings",
-          COMMON_FIELDS.recoverySettings,
-        ),
+      type: "number" as FieldType,
 
-        ...strategySpecificFields,
-      ],
+      default: null,
     },
-  ];
 
-export interface StrategyDrawerProps {
-  strategy: Strategy | null;
+    {
+      name: "payout_tolerance_percentage",
 
-  onClose: () => void;
+      label: "Payout Shortfall Tolerance",
 
-  isOpen: boolean;
+      type: "number-prefix" as FieldType,
 
-  editBot?: any;
-}
+      prefixType: "percentage" as PrefixType,
 
-export interface ContractData {
-  id: string;
+      default: null,
+    },
 
-  tradeType: string;
+    {
+      name: "max_requotes",
 
-  contractType: string;
+      label: "Max Re-quotes",
 
-  prediction: string;
+      type: "number" as FieldType,
 
-  predictionRandomize: boolean;
+      default: null,
+    },
+
+    {
+      name: "max_price_slippage_percentage",
+
+      label: "Max Price Slippage",
+
+      type: "number-prefix" as FieldType,
+
+      prefixType: "percentage" as PrefixType,
+
+      default: null,
+    },
+  ] as StrategyField[],
+
+  autoRestart: [
+    {
+      name: "restart_on",
+
+      label: "Restart After",
+
+      type: "multi-select" as FieldType,
+
+      options: RESTART_REASON_OPTIONS,
+
+      default: [],
+    },
+
+    {
+      name: "restart_delay_seconds",
+
+      label: "Restart Delay (seconds)",
+
+      type: "number" as FieldType,
+
+      default: null,
+    },
+
+    {
+      name: "restart_backoff_multiplier",
+
+      label: "Backoff Multiplier",
+
+      type: "number" as FieldType,
+
+      default: null,
+    },
+
+    {
+      name: "max_restart_delay_seconds",
+
+      label: "Max Restart Delay (seconds)",
+
+      type: "number" as FieldType,
+
+      default: null,
+    },
+
+    {
+      name: "max_restarts_per_day",
+
+      label: "Max Restarts Per Day",
+
+      type: "number" as FieldType,
+
+      default: null,
+    },
+
+    {
+      name: "carry_over_session",
+
+      label: "Carry over session",
+
+      type: "switch-with-helper" as FieldType,
+
+      default: false,
+    },
+  ] as StrategyField[],
+
+  recoverySettings: [
+    {
+      name: "progressive_recovery",
+
+      label: "Progressive Recovery Mode1",
+
+      type: "switch-with-helper" as FieldType,
+
+      default: true,
+    },
+
+    {
+      name: "recovery_multiplier",
+
+      label: "Recovery Multiplier",
+
+      type: "number-prefix" as FieldType,
+
+      prefixType: "multiplier" as PrefixType,
+
+      default: 2.5,
+    },
+
+    {
+      name: "max_recovery_attempts",
+
+      label: "Maximum Recovery Attempts",
+
+      type: "number" as FieldType,
+
+      default: 25,
+    },
+
+    {
+      name: "recovery_cooldown",
+
+      label: "Recovery Cooldown",
+
+      type: "cooldown-period" as FieldType,
+    },
+
+    {
+      name: "partial_recovery",
+
+      label: "Partial Recovery Mode",
+
+      type: "switch-with-helper" as FieldType,
+
+      default: true,
+    },
+
+    {
+      name: "recovery_threshold",
+
+      label: "Recovery Threshold",
+
+      type: "threshold-selector" as FieldType,
+
+      placeholder: "Enter recovery threshold",
+    },
+  ] as StrategyField[],
+};
+
+// Helper function to create collapsible section
+
+export const createCollapsibleSection = (
+  name: string,
+  label: string,
+  fields: StrategyField[],
+): StrategyField => ({
+  name,
+
+  label,
+
+  type: "collapsible-section" as FieldType,
+
+  fields: fields.map((field) => ({
+    ...field,
+    sectionName: field.sectionName ?? name,
+  })),
+});
+
+// Helper function to create standard tabs
+
+export const createStandardTabs = (
+  strategySpecificFields: StrategyField[],
+): StrategyTab[] => [
+    {
+      key: "contract",
+
+      label: "Contract",
+
+      fields: COMMON_FIELDS.contract,
+    },
+
+    {
+      key: "amounts",
+
+      label: "Amounts",
+
+      fields: COMMON_FIELDS.amounts,
+    },
+
+    {
+      key: "recovery_steps",
+
+      label: "Recovery Steps",
+
+      fields: COMMON_FIELDS.recoverySteps,
+    },
+
+    {
+      key: "advanced_settings",
+
+      label: "Advanced",
+
+      fields: [
+        createCollapsibleSection(
+          "general_settings_section",
+          "General Settings",
+          COMMON_FIELDS.generalSettings,
+        ),
+
+        createCollapsibleSection(
+          "bot_schedule_section",
+          "Bot Schedule",
+          COMMON_FIELDS.botSchedule,
+        ),
+
+        createCollapsibleSection(
+          "risk_management_section",
+          "Risk Management",
+          COMMON_FIELDS.riskManagement,
+        ),
+
+        createCollapsibleSection(
+          "volatility_controls_section",
+          "Volatility Controls",
+          COMMON_FIELDS.volatilityControls,
+        ),
+
+        createCollapsibleSection(
+          "market_conditions_section",
+          "Market Conditions",
+          COMMON_FIELDS.marketConditions,
+        ),
+
+        createCollapsibleSection(
+          "digit_analysis_section",
+          "Digit Analysis",
+          COMMON_FIELDS.digitAnalysis,
+        ),
+
+        createCollapsibleSection(
+          "early_exit_section",
+          "Early Exit",
+          COMMON_FIELDS.earlyExit,
+        ),
+
+        createCollapsibleSection(
+          "price_guard_section",
+          "Price Guard",
+          COMMON_FIELDS.priceGuard,
+        ),
+
+        createCollapsibleSection(
+          "auto_restart_section",
+          "Auto Restart",
+          COMMON_FIELDS.autoRestart,
+        ),
+
+        createCollapsibleSection(
+          "recovery_settings_section",
+          "Recovery Settings",
+          COMMON_FIELDS.recoverySettings,
+        ),
+
+        ...strategySpecificFields,
+      ],
+    },
+  ];
+
+export interface StrategyDrawerProps {
+  strategy: Strategy | null;
+
+  onClose: () => void;
+
+  isOpen: boolean;
+
+  editBot?: any;
+}
+
+export interface ContractData {
+  id: string;
+
+  tradeType: string;
+
+  contractType: string;
+
+  prediction: string;
+
+  predictionRandomize: boolean;
 
   market: MarketInfo;
 
@@ -817,6 +1293,16 @@ export interface ContractData {
   allowEquals?: boolean;
 
   alternateAfter?: number;
+
+  takeProfit?: number | null;
+
+  stopLoss?: number | null;
+
+  limitOrderUnits?: 'amount' | 'percentage';
+
+  dealCancellation?: string | null;
+
+  rotation?: BotContractRotation | null;
 }
 
 export interface ContractParamsProps {
@@ -1021,12 +1507,36 @@ export const STRATEGY_ADVANCED_SETTINGS: Record<string, string[]> = {
 
     "system_1326_strategy_section",
   ],
-};
 
-// Helper function to get filtered advanced settings for a strategy
+  [StrategyType.ENHANCED_1326]: [
+    "general_settings_section",
 
-export const getAdvancedSettingsForStrategy = (
-  strategyId: string,
+    "bot_schedule_section",
+
+    "risk_management_section",
+
+    "volatility_controls_section",
+
+    "enhanced_1326_strategy_section",
+  ],
+
+  [StrategyType.CALL_MULTIPLICATIVE_RECOVERY]: [
+    "general_settings_section",
+
+    "bot_schedule_section",
+
+    "risk_management_section",
+
+    "volatility_controls_section",
+
+    "call_multiplicative_recovery_strategy_section",
+  ],
+};
+
+// Helper function to get filtered advanced settings for a strategy
+
+export const getAdvancedSettingsForStrategy = (
+  strategyId: string,
 ): string[] => {
   return (
     STRATEGY_ADVANCED_SETTINGS[strategyId] || [
@@ -1245,6 +1755,18 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
 
             placeholder: "Enter stop loss amount",
           },
+
+          {
+            name: "trailing_take_profit",
+
+            label: "Trailing Take Profit",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Trail peak profit by this amount after take profit",
+
+            default: {},
+          },
         ],
       },
 
@@ -1286,6 +1808,14 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 type: "number" as FieldType,
               },
 
+              {
+                name: "max_concurrent_contracts",
+
+                label: "Max Concurrent Contracts",
+
+                type: "number" as FieldType,
+              },
+
               {
                 name: "maximum_running_time",
 
@@ -1321,7 +1851,7 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
               {
                 name: "auto_restart",
 
-                label: "Auto restart after cooldown",
+                label: "Auto restart",
 
                 type: "switch-with-helper" as FieldType,
               },
@@ -1414,6 +1944,30 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 placeholder: "Enter weekly profit target",
               },
 
+              {
+                name: "limit_reset_timezone",
+
+                label: "Limit Reset Timezone",
+
+                type: "select" as FieldType,
+
+                options: LIMIT_RESET_TIMEZONE_OPTIONS,
+
+                default: "UTC",
+              },
+
+              {
+                name: "week_start_day",
+
+                label: "Week Starts On",
+
+                type: "select" as FieldType,
+
+                options: WEEK_START_DAY_OPTIONS,
+
+                default: "1",
+              },
+
               {
                 name: "trailing_stop_loss",
 
@@ -1424,6 +1978,28 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 placeholder: "Set trailing stop loss amount",
               },
 
+              {
+                name: "trailing_stop_activation",
+
+                label: "Trailing Stop Activation",
+
+                type: "threshold-selector" as FieldType,
+
+                placeholder: "Start trailing once profit reaches",
+
+                default: {},
+              },
+
+              {
+                name: "profit_lock_steps",
+
+                label: "Profit Lock Steps (profit → lock)",
+
+                type: "key-value-editor" as FieldType,
+
+                default: [],
+              },
+
               {
                 name: "max_consecutive_losses",
 
@@ -1480,6 +2056,62 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 type: "switch-with-helper" as FieldType,
               },
 
+              {
+                name: "sizing_mode",
+
+                label: "Position Sizing Mode",
+
+                type: "select" as FieldType,
+
+                options: SIZING_MODE_OPTIONS,
+              },
+
+              {
+                name: "base_stake_percentage",
+
+                label: "Base Stake (% of Balance)",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "kelly_fraction",
+
+                label: "Kelly Fraction",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "win_probability",
+
+                label: "Win Probability",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "min_observed_trades",
+
+                label: "Trades Before Observed Win Rate",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "max_ladder_percentage",
+
+                label: "Max Ladder Loss (% of Balance)",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
               {
                 name: "emergency_stop",
 
@@ -1683,6 +2315,18 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
 
             placeholder: "Enter stop loss amount",
           },
+
+          {
+            name: "trailing_take_profit",
+
+            label: "Trailing Take Profit",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Trail peak profit by this amount after take profit",
+
+            default: {},
+          },
         ],
       },
 
@@ -1724,6 +2368,14 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 type: "number" as FieldType,
               },
 
+              {
+                name: "max_concurrent_contracts",
+
+                label: "Max Concurrent Contracts",
+
+                type: "number" as FieldType,
+              },
+
               {
                 name: "maximum_running_time",
 
@@ -1759,7 +2411,7 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
               {
                 name: "auto_restart",
 
-                label: "Auto restart after cooldown",
+                label: "Auto restart",
 
                 type: "switch-with-helper" as FieldType,
               },
@@ -1852,6 +2504,30 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 placeholder: "Enter weekly profit target",
               },
 
+              {
+                name: "limit_reset_timezone",
+
+                label: "Limit Reset Timezone",
+
+                type: "select" as FieldType,
+
+                options: LIMIT_RESET_TIMEZONE_OPTIONS,
+
+                default: "UTC",
+              },
+
+              {
+                name: "week_start_day",
+
+                label: "Week Starts On",
+
+                type: "select" as FieldType,
+
+                options: WEEK_START_DAY_OPTIONS,
+
+                default: "1",
+              },
+
               {
                 name: "trailing_stop_loss",
 
@@ -1862,6 +2538,28 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 placeholder: "Set trailing stop loss amount",
               },
 
+              {
+                name: "trailing_stop_activation",
+
+                label: "Trailing Stop Activation",
+
+                type: "threshold-selector" as FieldType,
+
+                placeholder: "Start trailing once profit reaches",
+
+                default: {},
+              },
+
+              {
+                name: "profit_lock_steps",
+
+                label: "Profit Lock Steps (profit → lock)",
+
+                type: "key-value-editor" as FieldType,
+
+                default: [],
+              },
+
               {
                 name: "max_consecutive_losses",
 
@@ -1918,6 +2616,62 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 type: "switch-with-helper" as FieldType,
               },
 
+              {
+                name: "sizing_mode",
+
+                label: "Position Sizing Mode",
+
+                type: "select" as FieldType,
+
+                options: SIZING_MODE_OPTIONS,
+              },
+
+              {
+                name: "base_stake_percentage",
+
+                label: "Base Stake (% of Balance)",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "kelly_fraction",
+
+                label: "Kelly Fraction",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "win_probability",
+
+                label: "Win Probability",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "min_observed_trades",
+
+                label: "Trades Before Observed Win Rate",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "max_ladder_percentage",
+
+                label: "Max Ladder Loss (% of Balance)",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
               {
                 name: "emergency_stop",
 
@@ -2055,6 +2809,18 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
 
             placeholder: "Enter stop loss amount",
           },
+
+          {
+            name: "trailing_take_profit",
+
+            label: "Trailing Take Profit",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Trail peak profit by this amount after take profit",
+
+            default: {},
+          },
         ],
       },
 
@@ -2096,6 +2862,14 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 type: "number" as FieldType,
               },
 
+              {
+                name: "max_concurrent_contracts",
+
+                label: "Max Concurrent Contracts",
+
+                type: "number" as FieldType,
+              },
+
               {
                 name: "maximum_running_time",
 
@@ -2131,7 +2905,7 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
               {
                 name: "auto_restart",
 
-                label: "Auto restart after cooldown",
+                label: "Auto restart",
 
                 type: "switch-with-helper" as FieldType,
               },
@@ -2224,6 +2998,30 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 placeholder: "Enter weekly profit target",
               },
 
+              {
+                name: "limit_reset_timezone",
+
+                label: "Limit Reset Timezone",
+
+                type: "select" as FieldType,
+
+                options: LIMIT_RESET_TIMEZONE_OPTIONS,
+
+                default: "UTC",
+              },
+
+              {
+                name: "week_start_day",
+
+                label: "Week Starts On",
+
+                type: "select" as FieldType,
+
+                options: WEEK_START_DAY_OPTIONS,
+
+                default: "1",
+              },
+
               {
                 name: "trailing_stop_loss",
 
@@ -2234,6 +3032,28 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
                 placeholder: "Set trailing stop loss amount",
               },
 
+              {
+                name: "trailing_stop_activation",
+
+                label: "Trailing Stop Activation",
+
+                type: "threshold-selector" as FieldType,
+
+                placeholder: "Start trailing once profit reaches",
+
+                default: {},
+              },
+
+              {
+                name: "profit_lock_steps",
+
+                label: "Profit Lock Steps (profit → lock)",
+
+                type: "key-value-editor" as FieldType,
+
+                default: [],
+              },
+
               {
                 name: "max_consecutive_losses",
 
@@ -2291,149 +3111,491 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
               },
 
               {
-                name: "emergency_stop",
+                name: "sizing_mode",
+
+                label: "Position Sizing Mode",
+
+                type: "select" as FieldType,
+
+                options: SIZING_MODE_OPTIONS,
+              },
+
+              {
+                name: "base_stake_percentage",
+
+                label: "Base Stake (% of Balance)",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "kelly_fraction",
+
+                label: "Kelly Fraction",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "win_probability",
+
+                label: "Win Probability",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "min_observed_trades",
+
+                label: "Trades Before Observed Win Rate",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "max_ladder_percentage",
+
+                label: "Max Ladder Loss (% of Balance)",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+              },
+
+              {
+                name: "emergency_stop",
+
+                label: "Emergency Stop on High Loss",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "loss_protection_mode",
+
+                label: "Loss Protection Mode",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "auto_reduce_stake_on_loss",
+
+                label: "Auto Reduce Stake on Loss Streak",
+
+                type: "switch-with-helper" as FieldType,
+              },
+            ],
+          },
+
+          {
+            name: "volatility_controls_section",
+
+            label: "Volatility Controls",
+
+            type: "collapsible-section" as FieldType,
+
+            fields: [
+              {
+                name: "volatility_filter",
+
+                label: "Enable Volatility Filter",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "min_volatility",
+
+                label: "Minimum Volatility Score (0-100)",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "max_volatility",
+
+                label: "Maximum Volatility Score (0-100)",
+
+                type: "number" as FieldType,
+              },
+
+              {
+                name: "volatility_adjustment",
+
+                label: "Adjust Stake Based on Volatility",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "pause_on_high_volatility",
+
+                label: "Pause Trading on High Volatility",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "volatility_lookback_period",
+
+                label: "Volatility Lookback (ticks)",
+
+                type: "number" as FieldType,
+              },
+            ],
+          },
+
+          {
+            name: "market_conditions_section",
+
+            label: "Market Conditions",
+
+            type: "collapsible-section" as FieldType,
+
+            fields: [
+              {
+                name: "trend_detection",
+
+                label: "Enable Trend Detection",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "trend_strength_threshold",
+
+                label: "Trend Strength Threshold",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "multiplier" as PrefixType,
+              },
+
+              {
+                name: "avoid_ranging_market",
+
+                label: "Avoid Ranging Market",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "trend_action",
+
+                label: "Counter-Trend Trades",
+
+                type: "select" as FieldType,
+
+                options: TREND_ACTION_OPTIONS,
+
+                default: "block",
+              },
+
+              {
+                name: "indicator_granularity",
+
+                label: "Indicator Timeframe",
+
+                type: "select" as FieldType,
+
+                options: INDICATOR_GRANULARITY_OPTIONS,
+
+                default: "60",
+              },
+
+              {
+                name: "market_correlation_check",
+
+                label: "Market Correlation Check",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "time_of_day_filter",
+
+                label: "Time of Day Filter",
+
+                type: "switch-with-helper" as FieldType,
+              },
+
+              {
+                name: "preferred_trading_hours",
+
+                label: "Preferred Trading Hours",
+
+                type: "time-range" as FieldType,
+              },
+            ],
+          },
+
+          {
+            name: "digit_analysis_section",
+
+            label: "Digit Analysis",
+
+            type: "collapsible-section" as FieldType,
+
+            fields: [
+              {
+                name: "digit_filter",
+
+                label: "Enable Digit Analysis",
+
+                type: "switch-with-helper" as FieldType,
+
+                default: false,
+              },
+
+              {
+                name: "digit_sample_size",
+
+                label: "Digit Sample Size (ticks)",
+
+                type: "number" as FieldType,
+
+                default: 100,
+              },
+
+              {
+                name: "prediction_mode",
+
+                label: "Prediction Mode",
+
+                type: "select" as FieldType,
+
+                options: DIGIT_PREDICTION_MODE_OPTIONS,
+
+                default: "static",
+              },
+
+              {
+                name: "parity_run_length",
+
+                label: "Even/Odd Run Length",
+
+                type: "number" as FieldType,
+
+                default: null,
+              },
+
+              {
+                name: "parity_entry",
+
+                label: "Even/Odd Entry",
+
+                type: "select" as FieldType,
+
+                options: PARITY_ENTRY_OPTIONS,
+
+                default: "reversal",
+              },
+
+              {
+                name: "min_sample_win_rate",
+
+                label: "Minimum Sample Win Rate",
+
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+
+                default: null,
+              },
+            ],
+          },
+
+          {
+            name: "early_exit_section",
+
+            label: "Early Exit",
+
+            type: "collapsible-section" as FieldType,
+
+            fields: [
+              {
+                name: "early_exit",
+
+                label: "Enable Early Exit",
+
+                type: "switch-with-helper" as FieldType,
+
+                default: false,
+              },
+
+              {
+                name: "exit_profit_percentage",
 
-                label: "Emergency Stop on High Loss",
+                label: "Sell At Profit (% of stake)",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number-prefix" as FieldType,
+
+                prefixType: "percentage" as PrefixType,
+
+                default: null,
               },
 
               {
-                name: "loss_protection_mode",
+                name: "exit_bid_below",
 
-                label: "Loss Protection Mode",
+                label: "Sell When Bid Below",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number-prefix" as FieldType,
+
+                prefixType: "currency" as PrefixType,
+
+                default: null,
               },
 
               {
-                name: "auto_reduce_stake_on_loss",
+                name: "exit_loss_after_ticks",
 
-                label: "Auto Reduce Stake on Loss Streak",
+                label: "Sell In Loss After (ticks)",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number" as FieldType,
+
+                default: null,
               },
             ],
           },
 
           {
-            name: "volatility_controls_section",
+            name: "price_guard_section",
 
-            label: "Volatility Controls",
+            label: "Price Guard",
 
             type: "collapsible-section" as FieldType,
 
             fields: [
               {
-                name: "volatility_filter",
+                name: "price_guard",
 
-                label: "Enable Volatility Filter",
+                label: "Enable Price Guard",
 
                 type: "switch-with-helper" as FieldType,
+
+                default: false,
               },
 
               {
-                name: "min_volatility",
+                name: "min_payout_ratio",
 
-                label: "Minimum Volatility Index",
+                label: "Minimum Payout Ratio",
 
-                type: "number-prefix" as FieldType,
+                type: "number" as FieldType,
 
-                prefixType: "multiplier" as PrefixType,
+                default: null,
               },
 
               {
-                name: "max_volatility",
+                name: "payout_tolerance_percentage",
 
-                label: "Maximum Volatility Index",
+                label: "Payout Shortfall Tolerance",
 
                 type: "number-prefix" as FieldType,
 
-                prefixType: "multiplier" as PrefixType,
+                prefixType: "percentage" as PrefixType,
+
+                default: null,
               },
 
               {
-                name: "volatility_adjustment",
+                name: "max_requotes",
 
-                label: "Adjust Stake Based on Volatility",
+                label: "Max Re-quotes",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number" as FieldType,
+
+                default: null,
               },
 
               {
-                name: "pause_on_high_volatility",
-
-                label: "Pause Trading on High Volatility",
+                name: "max_price_slippage_percentage",
 
-                type: "switch-with-helper" as FieldType,
-              },
+                label: "Max Price Slippage",
 
-              {
-                name: "volatility_lookback_period",
+                type: "number-prefix" as FieldType,
 
-                label: "Volatility Lookback Period",
+                prefixType: "percentage" as PrefixType,
 
-                type: "number" as FieldType,
+                default: null,
               },
             ],
           },
 
           {
-            name: "market_conditions_section",
+            name: "auto_restart_section",
 
-            label: "Market Conditions",
+            label: "Auto Restart",
 
             type: "collapsible-section" as FieldType,
 
             fields: [
               {
-                name: "trend_detection",
+                name: "restart_on",
 
-                label: "Enable Trend Detection",
+                label: "Restart After",
 
-                type: "switch-with-helper" as FieldType,
+                type: "multi-select" as FieldType,
+
+                options: RESTART_REASON_OPTIONS,
+
+                default: [],
               },
 
               {
-                name: "trend_strength_threshold",
+                name: "restart_delay_seconds",
 
-                label: "Trend Strength Threshold",
+                label: "Restart Delay (seconds)",
 
-                type: "number-prefix" as FieldType,
+                type: "number" as FieldType,
 
-                prefixType: "multiplier" as PrefixType,
+                default: null,
               },
 
               {
-                name: "avoid_ranging_market",
+                name: "restart_backoff_multiplier",
 
-                label: "Avoid Ranging Market",
+                label: "Backoff Multiplier",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number" as FieldType,
+
+                default: null,
               },
 
               {
-                name: "market_correlation_check",
+                name: "max_restart_delay_seconds",
 
-                label: "Market Correlation Check",
+                label: "Max Restart Delay (seconds)",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number" as FieldType,
+
+                default: null,
               },
 
               {
-                name: "time_of_day_filter",
+                name: "max_restarts_per_day",
 
-                label: "Time of Day Filter",
+                label: "Max Restarts Per Day",
 
-                type: "switch-with-helper" as FieldType,
+                type: "number" as FieldType,
+
+                default: null,
               },
 
               {
-                name: "preferred_trading_hours",
+                name: "carry_over_session",
 
-                label: "Preferred Trading Hours",
+                label: "Carry over session",
 
-                type: "time-range" as FieldType,
+                type: "switch-with-helper" as FieldType,
+
+                default: false,
               },
             ],
           },
@@ -3146,6 +4308,232 @@ export const STRATEGY_PARAMS: Record<string, FormConfig> = {
     ]),
   },
 
+  [StrategyType.ENHANCED_1326]: {
+    tabs: createStandardTabs([
+      createCollapsibleSection(
+        "enhanced_1326_strategy_section",
+        "Enhanced 1-3-2-6 Settings",
+        [
+          {
+            name: "enhanced_1326_base_unit",
+
+            label: "Base Unit",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Enter base unit",
+          },
+
+          {
+            name: "enhanced_1326_profit_threshold",
+
+            label: "Profit Threshold",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Enter profit threshold",
+          },
+
+          {
+            name: "enhanced_1326_loss_threshold",
+
+            label: "Loss Threshold",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Enter loss threshold",
+          },
+
+          {
+            name: "enhanced_1326_recovery_mode",
+
+            label: "Sequence Mode",
+
+            type: "select" as FieldType,
+
+            options: [
+              { value: "neutral", label: "Neutral (1-3-2-6)" },
+
+              { value: "base", label: "Base (1-3-2-6)" },
+
+              { value: "conservative", label: "Conservative (1-2-3-4)" },
+
+              { value: "aggressive", label: "Aggressive (1-3-5-7)" },
+            ],
+          },
+
+          {
+            name: "enhanced_1326_max_recovery_attempts",
+
+            label: "Max Consecutive Losses",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "enhanced_1326_max_daily_trades",
+
+            label: "Max Daily Trades",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "enhanced_1326_sequence_protection",
+
+            label: "Recover After Failed Sequence",
+
+            type: "switch-with-helper" as FieldType,
+          },
+
+          {
+            name: "enhanced_1326_profit_lock",
+
+            label: "Profit Lock",
+
+            type: "switch-with-helper" as FieldType,
+          },
+
+          {
+            name: "metadata",
+
+            label: "Metadata",
+
+            type: "key-value-editor" as FieldType,
+          },
+        ],
+      ),
+    ]),
+  },
+
+  [StrategyType.CALL_MULTIPLICATIVE_RECOVERY]: {
+    tabs: createStandardTabs([
+      createCollapsibleSection(
+        "call_multiplicative_recovery_strategy_section",
+        "CALL Multiplicative Recovery Settings",
+        [
+          {
+            name: "call_multiplicative_base_stake",
+
+            label: "Base Stake",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Enter base stake",
+          },
+
+          {
+            name: "call_multiplicative_profit_threshold",
+
+            label: "Profit Threshold",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Enter profit threshold",
+          },
+
+          {
+            name: "call_multiplicative_loss_threshold",
+
+            label: "Loss Threshold",
+
+            type: "threshold-selector" as FieldType,
+
+            placeholder: "Enter loss threshold",
+          },
+
+          {
+            name: "call_multiplicative_recovery_mode",
+
+            label: "Recovery Mode",
+
+            type: "select" as FieldType,
+
+            options: [
+              { value: "standard", label: "Standard (2.5x)" },
+
+              { value: "conservative", label: "Conservative (2x)" },
+
+              { value: "aggressive", label: "Aggressive (3x)" },
+            ],
+          },
+
+          {
+            name: "call_multiplicative_max_recovery_attempts",
+
+            label: "Max Recovery Attempts",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_max_daily_trades",
+
+            label: "Max Daily Trades",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_max_stake_multiplier",
+
+            label: "Max Stake Multiplier",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_enable_recovery",
+
+            label: "Enable Recovery",
+
+            type: "switch-with-helper" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_auto_adjust",
+
+            label: "Volatility Stake Adjustment",
+
+            type: "switch-with-helper" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_max_volatility",
+
+            label: "Max Volatility (0-1)",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_min_win_rate",
+
+            label: "Min Win Rate (0-1)",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "call_multiplicative_duration",
+
+            label: "Duration (Ticks)",
+
+            type: "number" as FieldType,
+          },
+
+          {
+            name: "metadata",
+
+            label: "Metadata",
+
+            type: "key-value-editor" as FieldType,
+          },
+        ],
+      ),
+    ]),
+  },
+
   [StrategyType.MARTINGALE_ON_STAT_RESET]: {
     tabs: createStandardTabs([
       createCollapsibleSection(
@@ -3233,6 +4621,7 @@ export interface StrategyFormData {
     maximum_stake: BotAmountConfig;
     take_profit: BotAmountConfig;
     stop_loss: BotAmountConfig;
+    trailing_take_profit?: BotAmountConfig | null;
   };
   recovery_steps: {
     risk_steps: Array<{
@@ -3240,11 +4629,15 @@ export interface StrategyFormData {
       lossStreak: number;
       multiplier: number;
       action: string;
+      stakeMultiplier?: number | null;
+      cooldownSeconds?: number | null;
+      recoveryTargetPercentage?: number | null;
     }>;
   };
   advanced_settings: {
     general_settings_section: {
       maximum_number_of_trades: number | null;
+      max_concurrent_contracts: number | null;
       maximum_running_time: { value: number; units: string } | null;
       cooldown_period: { value: number; units: string } | null;
       recovery_type: string | null;
@@ -3277,13 +4670,23 @@ export interface StrategyFormData {
       max_daily_profit: unknown;
       max_weekly_loss: unknown;
       max_weekly_profit: unknown;
+      limit_reset_timezone: string | null;
+      week_start_day: number | null;
       trailing_stop_loss: unknown;
+      trailing_stop_activation: unknown;
+      profit_lock_steps: Array<{ profit: unknown; lock: unknown }>;
       max_consecutive_losses: number | null;
       max_drawdown_percentage: number | null;
       risk_per_trade: number | null;
       max_account_risk_percentage: number | null;
       minimum_profit_ratio: number | null;
       position_sizing: boolean;
+      sizing_mode?: string | null;
+      base_stake_percentage?: number | null;
+      kelly_fraction?: number | null;
+      win_probability?: number | null;
+      min_observed_trades?: number | null;
+      max_ladder_percentage?: number | null;
       emergency_stop: boolean;
       loss_protection_mode: boolean;
       auto_reduce_stake_on_loss: boolean;
@@ -3300,10 +4703,41 @@ export interface StrategyFormData {
       trend_detection: boolean;
       trend_strength_threshold: number | null;
       avoid_ranging_market: boolean;
+      trend_action?: "block" | "flip";
+      indicator_granularity?: number | null;
       market_correlation_check: boolean;
       time_of_day_filter: boolean;
       preferred_trading_hours: string | null;
     };
+    digit_analysis_section?: {
+      digit_filter: boolean;
+      digit_sample_size: number | null;
+      prediction_mode: string;
+      parity_run_length: number | null;
+      parity_entry: "reversal" | "continuation";
+      min_sample_win_rate: number | null;
+    };
+    early_exit_section?: {
+      early_exit: boolean;
+      exit_profit_percentage: number | null;
+      exit_bid_below: number | null;
+      exit_loss_after_ticks: number | null;
+    };
+    price_guard_section?: {
+      price_guard: boolean;
+      min_payout_ratio: number | null;
+      payout_tolerance_percentage: number | null;
+      max_requotes: number | null;
+      max_price_slippage_percentage: number | null;
+    };
+    auto_restart_section?: {
+      restart_on: string[];
+      restart_delay_seconds: number | null;
+      restart_backoff_multiplier: number | null;
+      max_restart_delay_seconds: number | null;
+      max_restarts_per_day: number | null;
+      carry_over_session: boolean;
+    };
     recovery_settings_section: {
       progressive_recovery: boolean;
       recovery_multiplier: number | null;
@@ -3442,6 +4876,32 @@ export interface StrategyFormData {
       oscars_grind_auto_stop_on_target: boolean;
       metadata: unknown;
     };
+    enhanced_1326_strategy_section: {
+      enhanced_1326_base_unit: unknown;
+      enhanced_1326_profit_threshold: unknown;
+      enhanced_1326_loss_threshold: unknown;
+      enhanced_1326_recovery_mode: string | null;
+      enhanced_1326_max_recovery_attempts: number | null;
+      enhanced_1326_max_daily_trades: number | null;
+      enhanced_1326_sequence_protection: boolean;
+      enhanced_1326_profit_lock: boolean;
+      metadata: unknown;
+    };
+    call_multiplicative_recovery_strategy_section: {
+      call_multiplicative_base_stake: unknown;
+      call_multiplicative_profit_threshold: unknown;
+      call_multiplicative_loss_threshold: unknown;
+      call_multiplicative_recovery_mode: string | null;
+      call_multiplicative_max_recovery_attempts: number | null;
+      call_multiplicative_max_daily_trades: number | null;
+      call_multiplicative_max_stake_multiplier: number | null;
+      call_multiplicative_enable_recovery: boolean;
+      call_multiplicative_auto_adjust: boolean;
+      call_multiplicative_max_volatility: number | null;
+      call_multiplicative_min_win_rate: number | null;
+      call_multiplicative_duration: number | null;
+      metadata: unknown;
+    };
   };
   realtimePerformance: {
     totalRuns: number;
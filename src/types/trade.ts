@@ -142,5 +142,9 @@ export enum StrategyType {
   
   // Additional Strategies
   OSCARS_GRIND = 'oscars_grind',
-  SYSTEM_1326 = 'system_1326'
+  SYSTEM_1326 = 'system_1326',
+
+  // Recovery Strategies (self-limiting: own profit, loss and daily limits)
+  ENHANCED_1326 = 'enhanced_1326',
+  CALL_MULTIPLICATIVE_RECOVERY = 'call_multiplicative_recovery'
 }
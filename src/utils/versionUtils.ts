@@ -31,6 +31,7 @@ interface TradingBotConfig {
   advanced_settings?: {
     general_settings_section?: {
       maximum_number_of_trades?: number | null;
+      max_concurrent_contracts?: number | null;
       maximum_running_time?: number | null;
       cooldown_period?: { duration: number; unit: string } | null;
       recovery_type?: string | null;